@@ -18,6 +18,7 @@ import {
   registerShortcutsHandler,
 } from './services/menu';
 import { pluginService } from './services/plugin/PluginService';
+import { queryHistoryStore } from './services/query-history-store';
 import { checkForUpdatesOnStartup, initAutoUpdater } from './services/updater';
 import { windowManager } from './services/window-manager';
 
@@ -230,6 +231,7 @@ app.on('window-all-closed', async () => {
   // Clean up file watchers
   fileWatcherService.unwatchAll();
 
+  queryHistoryStore.close();
   cleanupIpcHandlers();
   if (process.platform !== 'darwin') {
     app.quit();
@@ -90,7 +90,8 @@ export function generateHTMLReport(
         summary.totalColumnChanges +
           summary.totalIndexChanges +
           summary.totalForeignKeyChanges +
-          summary.totalTriggerChanges >
+          summary.totalTriggerChanges +
+          (summary.totalObjectChanges ?? 0) >
         0
           ? `
       <div class="changes-summary">
@@ -100,6 +101,7 @@ export function generateHTMLReport(
           ${summary.totalIndexChanges > 0 ? `<li>Indexes: <strong>${summary.totalIndexChanges}</strong></li>` : ''}
           ${summary.totalForeignKeyChanges > 0 ? `<li>Foreign Keys: <strong>${summary.totalForeignKeyChanges}</strong></li>` : ''}
           ${summary.totalTriggerChanges > 0 ? `<li>Triggers: <strong>${summary.totalTriggerChanges}</strong></li>` : ''}
+          ${summary.totalObjectChanges ? `<li>Other Objects: <strong>${summary.totalObjectChanges}</strong></li>` : ''}
         </ul>
       </div>
       `
@@ -749,7 +751,8 @@ export function generateMarkdownReport(
     summary.totalColumnChanges +
       summary.totalIndexChanges +
       summary.totalForeignKeyChanges +
-      summary.totalTriggerChanges >
+      summary.totalTriggerChanges +
+      (summary.totalObjectChanges ?? 0) >
     0
   ) {
     markdown += `\n### Total Changes\n\n`;
@@ -765,6 +768,9 @@ export function generateMarkdownReport(
     if (summary.totalTriggerChanges > 0) {
       markdown += `- **Triggers:** ${summary.totalTriggerChanges}\n`;
     }
+    if (summary.totalObjectChanges) {
+      markdown += `- **Other Objects:** ${summary.totalObjectChanges}\n`;
+    }
   }
 
   markdown += `\n`;
@@ -37,6 +37,15 @@ export function generateCSV(
   // Determine which columns to include
   const columnNames = columns ?? allColumns.map((c) => c.name);
 
+  // PapaParse emits nothing for an empty row array, so build the header explicitly
+  if (rows.length === 0) {
+    if (!includeHeaders) return '';
+    return Papa.unparse(
+      { fields: columnNames, data: [] },
+      { quotes: false, delimiter, newline: '\n' }
+    ).replace(/\n$/, '');
+  }
+
   // Filter rows to only include selected columns
   const filteredRows = rows.map((row) => {
     const filteredRow: Record<string, unknown> = {};
@@ -159,8 +168,8 @@ function escapeSQLValue(value: unknown): string {
   }
 
   // Handle Buffer/Blob - convert to hex literal
-  if (Buffer.isBuffer(value)) {
-    return `X'${value.toString('hex')}'`;
+  if (value instanceof Uint8Array) {
+    return `X'${Buffer.from(value).toString('hex')}'`;
   }
 
   // Fallback for other types - convert to string and escape
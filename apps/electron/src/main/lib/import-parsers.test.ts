@@ -0,0 +1,300 @@
+import type { ImportFormat, ImportParseOptions } from '@shared/types';
+import { Buffer } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+
+import {
+  detectImportFormat,
+  generateCreateTableSQL,
+  inferColumnTypes,
+  readImportBatches,
+  scanImportData,
+  toImportParam,
+} from './import-parsers';
+
+const text = (value: string) => Buffer.from(value, 'utf8');
+
+/**
+ * Content read a few bytes at a time, so records, quotes and multi-byte
+ * characters span chunks
+ */
+async function* chunked(content: Buffer, size = 3) {
+  for (let start = 0; start < content.length; start += size) {
+    yield content.subarray(start, start + size);
+  }
+}
+
+/**
+ * Scan content, then read all of its rows in batches of two
+ */
+async function parse(
+  content: Buffer,
+  format: ImportFormat,
+  options: ImportParseOptions = {}
+) {
+  const scan = await scanImportData(chunked(content), format, options);
+  const columns = scan.columns.map((c) => c.name);
+  const rows: Record<string, unknown>[] = [];
+  for await (const batch of readImportBatches(
+    chunked(content),
+    format,
+    options,
+    columns,
+    2
+  )) {
+    rows.push(...batch);
+  }
+  return { columns, rows, sheetNames: scan.sheetNames };
+}
+
+describe('import-parsers', () => {
+  describe('detectImportFormat', () => {
+    it('should detect formats from file extensions', () => {
+      expect(detectImportFormat('/tmp/users.csv')).toBe('csv');
+      expect(detectImportFormat('/tmp/users.TSV')).toBe('tsv');
+      expect(detectImportFormat('/tmp/users.json')).toBe('json');
+      expect(detectImportFormat('/tmp/users.jsonl')).toBe('ndjson');
+      expect(detectImportFormat('/tmp/users.xlsx')).toBe('xlsx');
+    });
+
+    it('should return null for unsupported extensions', () => {
+      expect(detectImportFormat('/tmp/users.sql')).toBeNull();
+    });
+  });
+
+  describe('scanImportData and readImportBatches', () => {
+    it('should parse CSV with headers', async () => {
+      const result = await parse(
+        text('id,name\n1,Alice\n2,"Smith, Bob"\n'),
+        'csv'
+      );
+
+      expect(result.columns).toEqual(['id', 'name']);
+      expect(result.rows).toEqual([
+        { id: '1', name: 'Alice' },
+        { id: '2', name: 'Smith, Bob' },
+      ]);
+    });
+
+    it('should apply skipRows, custom delimiters and generated column names', async () => {
+      const result = await parse(
+        text('exported 2024-01-01\n1;Alice\n2;\n'),
+        'csv',
+        { delimiter: ';', hasHeaders: false, skipRows: 1 }
+      );
+
+      expect(result.columns).toEqual(['column_1', 'column_2']);
+      expect(result.rows).toEqual([
+        { column_1: '1', column_2: 'Alice' },
+        { column_1: '2', column_2: null },
+      ]);
+    });
+
+    it('should parse TSV and de-duplicate header names', async () => {
+      const result = await parse(text('name\tname\t\nA\tB\tC'), 'tsv');
+
+      expect(result.columns).toEqual(['name', 'name_2', 'column_3']);
+      expect(result.rows[0]).toEqual({ name: 'A', name_2: 'B', column_3: 'C' });
+    });
+
+    it('should parse JSON arrays and fill missing keys', async () => {
+      const result = await parse(
+        text('[{"id":1,"tags":["a"]},{"id":2,"name":"Bob"}]'),
+        'json'
+      );
+
+      expect(result.columns).toEqual(['id', 'tags', 'name']);
+      expect(result.rows).toEqual([
+        { id: 1, tags: '["a"]', name: null },
+        { id: 2, tags: null, name: 'Bob' },
+      ]);
+    });
+
+    it('should reject JSON that is not an array of objects', async () => {
+      await expect(parse(text('{"id":1}'), 'json')).rejects.toThrow(
+        'array of objects'
+      );
+      await expect(parse(text('[1,2]'), 'json')).rejects.toThrow(
+        'array element 1'
+      );
+      await expect(parse(text('[{"id":1}'), 'json')).rejects.toThrow(
+        'Invalid JSON'
+      );
+    });
+
+    it('should parse NDJSON and report the failing line', async () => {
+      const result = await parse(text('{"id":1}\n\n{"id":2}\n'), 'ndjson');
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+
+      await expect(parse(text('{"id":1}\n{oops'), 'ndjson')).rejects.toThrow(
+        'line 2'
+      );
+    });
+
+    it('should parse the first worksheet of an Excel workbook', async () => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+          ['id', 'active'],
+          [1, true],
+          [2, false],
+        ]),
+        'Users'
+      );
+      const content = XLSX.write(workbook, {
+        type: 'buffer',
+        bookType: 'xlsx',
+      });
+
+      const result = await parse(content, 'xlsx');
+
+      expect(result.sheetNames).toEqual(['Users']);
+      expect(result.rows).toEqual([
+        { id: 1, active: true },
+        { id: 2, active: false },
+      ]);
+    });
+
+    it('should carry records, quotes and characters across chunks', async () => {
+      const result = await parse(
+        text('id,note\r\n1,"a ""quoted"",\r\nline"\r\n\r\n2,café ☕\r\n'),
+        'csv'
+      );
+
+      expect(result.rows).toEqual([
+        { id: '1', note: 'a "quoted",\r\nline' },
+        { id: '2', note: 'café ☕' },
+      ]);
+    });
+
+    it('should find JSON elements around strings with brackets', async () => {
+      const result = await parse(
+        text('\uFEFF[ {"a":"],[{\\"}"}, {"a":{"b":[1,2]}} ]'),
+        'json'
+      );
+
+      expect(result.rows).toEqual([{ a: '],[{"}' }, { a: '{"b":[1,2]}' }]);
+      await expect(parse(text('[]'), 'json')).resolves.toMatchObject({
+        rows: [],
+      });
+    });
+
+    it('should infer types and count rows while keeping only the first rows', async () => {
+      const scan = await scanImportData(
+        chunked(text('id,score\n1,2\n2,2.5\n3,\n4,x1\n')),
+        'csv',
+        {},
+        2
+      );
+
+      expect(scan.columns).toEqual([
+        { name: 'id', inferredType: 'integer' },
+        { name: 'score', inferredType: 'text' },
+      ]);
+      expect(scan.rows).toEqual([
+        { id: '1', score: '2' },
+        { id: '2', score: '2.5' },
+      ]);
+      expect(scan.totalRows).toBe(4);
+    });
+
+    it('should widen columns for records longer than the header', async () => {
+      const result = await parse(text('a\n1\n2,3\n'), 'csv');
+
+      expect(result.columns).toEqual(['a', 'column_2']);
+      expect(result.rows).toEqual([
+        { a: '1', column_2: null },
+        { a: '2', column_2: '3' },
+      ]);
+    });
+  });
+
+  describe('inferColumnTypes', () => {
+    it('should infer types from column values', () => {
+      const rows = [
+        {
+          id: '1',
+          price: '9.99',
+          active: 'true',
+          created: '2024-01-01T10:00:00Z',
+          zip: '01234',
+          note: null,
+        },
+        {
+          id: '2',
+          price: '10',
+          active: 'FALSE',
+          created: '2024-01-02',
+          zip: '98765',
+          note: null,
+        },
+      ];
+
+      expect(
+        inferColumnTypes(rows, [
+          'id',
+          'price',
+          'active',
+          'created',
+          'zip',
+          'note',
+        ])
+      ).toEqual([
+        { name: 'id', inferredType: 'integer' },
+        { name: 'price', inferredType: 'real' },
+        { name: 'active', inferredType: 'boolean' },
+        { name: 'created', inferredType: 'date' },
+        { name: 'zip', inferredType: 'text' },
+        { name: 'note', inferredType: 'text' },
+      ]);
+    });
+
+    it('should fall back to text for mixed values', () => {
+      const rows = [{ value: 1 }, { value: 'abc' }];
+      expect(inferColumnTypes(rows, ['value'])[0].inferredType).toBe('text');
+    });
+  });
+
+  describe('generateCreateTableSQL', () => {
+    const columns = [
+      { name: 'id', type: 'integer' as const },
+      { name: 'active', type: 'boolean' as const },
+    ];
+
+    it('should use native types for each dialect', () => {
+      expect(
+        generateCreateTableSQL('users', undefined, columns, 'sqlite')
+      ).toBe('CREATE TABLE "users" (\n  "id" INTEGER,\n  "active" INTEGER\n)');
+      expect(generateCreateTableSQL('users', 'shop', columns, 'mysql')).toBe(
+        'CREATE TABLE `shop`.`users` (\n  `id` BIGINT,\n  `active` BOOLEAN\n)'
+      );
+      expect(
+        generateCreateTableSQL('users', undefined, columns, 'postgresql')
+      ).toBe(
+        'CREATE TABLE "public"."users" (\n  "id" BIGINT,\n  "active" BOOLEAN\n)'
+      );
+    });
+  });
+
+  describe('toImportParam', () => {
+    it('should convert booleans for SQLite and MySQL', () => {
+      expect(toImportParam('true', 'boolean', 'sqlite')).toBe(1);
+      expect(toImportParam(false, 'boolean', 'mysql')).toBe(0);
+      expect(toImportParam('TRUE', 'boolean', 'postgresql')).toBe(true);
+    });
+
+    it('should reformat ISO date-times for MySQL', () => {
+      expect(toImportParam('2024-01-01T10:00:00Z', 'date', 'mysql')).toBe(
+        '2024-01-01 10:00:00'
+      );
+      expect(toImportParam('2024-01-01T10:00:00Z', 'date', 'postgresql')).toBe(
+        '2024-01-01T10:00:00Z'
+      );
+    });
+
+    it('should pass NULL through', () => {
+      expect(toImportParam(null, 'integer', 'sqlite')).toBeNull();
+    });
+  });
+});
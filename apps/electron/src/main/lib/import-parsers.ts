@@ -0,0 +1,700 @@
+import type {
+  ImportColumnType,
+  ImportFormat,
+  ImportParseOptions,
+  ImportSourceColumn,
+  SqlDialect,
+} from '@shared/types';
+/**
+ * Import parsers for various data formats.
+ * These utilities turn CSV, TSV, JSON, NDJSON and Excel files into row objects
+ * as they are read, infer column types from the values and build the DDL for
+ * new tables.
+ */
+import { Buffer } from 'node:buffer';
+import Papa from 'papaparse';
+
+import * as XLSX from 'xlsx';
+import { qualifyTableName, quoteIdentifier } from './sql-dialect';
+
+// ============ Format Detection ============
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  csv: 'csv',
+  txt: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  xlsx: 'xlsx',
+  xls: 'xlsx',
+};
+
+/**
+ * Detects the import format from a file name.
+ *
+ * @param filePath - Path or name of the file
+ * @returns The detected format, or null if the extension is not supported
+ */
+export function detectImportFormat(filePath: string): ImportFormat | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_FORMATS[extension] ?? null;
+}
+
+// ============ Parsing ============
+
+type ImportRecord = unknown[] | Record<string, unknown>;
+
+/**
+ * Records of an import file as they are parsed: arrays of cells for
+ * delimited files and worksheets, objects for JSON.
+ */
+interface ImportRecords {
+  records: AsyncIterable<ImportRecord>;
+  /** Worksheet names (XLSX only) */
+  sheetNames?: string[];
+}
+
+/**
+ * Result of scanning a whole import file once
+ */
+export interface ImportDataScan {
+  format: ImportFormat;
+  /** Columns with the types inferred from every row */
+  columns: ImportSourceColumn[];
+  /** First rows of the file */
+  rows: Record<string, unknown>[];
+  totalRows: number;
+  /** Worksheet names (XLSX only) */
+  sheetNames?: string[];
+}
+
+/**
+ * Scans file content for its columns, their types and the row count,
+ * keeping only the first rows. Later rows may add columns (wider delimited
+ * records, new JSON keys), so the columns are only settled by a full scan.
+ *
+ * @param content - Raw file content, e.g. a file read stream
+ * @param format - Format of the content
+ * @param options - Parse configuration
+ * @param previewRows - Number of leading rows to return
+ * @returns Columns, leading rows and row count
+ */
+export async function scanImportData(
+  content: AsyncIterable<Uint8Array>,
+  format: ImportFormat,
+  options: ImportParseOptions = {},
+  previewRows = 0
+): Promise<ImportDataScan> {
+  const { records, sheetNames } = await readImportRecords(
+    content,
+    format,
+    options
+  );
+  const { hasHeaders = true } = options;
+  const isTabular = format !== 'json' && format !== 'ndjson';
+
+  // Cells are keyed by position in delimited records, by name in objects
+  const types = new Map<number | string, ImportColumnType | null>();
+  const leading: ImportRecord[] = [];
+  let header: unknown[] = [];
+  let totalRows = 0;
+
+  for await (const record of dataRecords(records, options, (cells) => {
+    header = cells;
+  })) {
+    const keys = Array.isArray(record)
+      ? record.keys()
+      : Object.keys(record).values();
+    for (const key of keys) {
+      const value = normalizeValue(
+        (record as Record<number | string, unknown>)[key]
+      );
+      types.set(key, widenColumnType(types.get(key) ?? null, value));
+    }
+    if (leading.length < previewRows) {
+      leading.push(record);
+    }
+    totalRows++;
+  }
+
+  let keys = [...types.keys()];
+  let columns = keys.map(String);
+  if (isTabular) {
+    keys = Array.from(
+      { length: Math.max(types.size, hasHeaders ? header.length : 0) },
+      (_, index) => index
+    );
+    columns = uniqueColumnNames(
+      keys.map((index) => (hasHeaders ? header[index as number] : undefined))
+    );
+  }
+
+  return {
+    format,
+    columns: columns.map((name, index) => ({
+      name,
+      inferredType: types.get(keys[index]) ?? 'text',
+    })),
+    rows: leading.map((record) => toRow(record, columns)),
+    totalRows,
+    sheetNames,
+  };
+}
+
+/**
+ * Reads the rows of file content in batches, shaped to the columns found by
+ * scanImportData. Missing cells and keys become NULL.
+ *
+ * @param content - Raw file content, e.g. a file read stream
+ * @param format - Format of the content
+ * @param options - Parse configuration
+ * @param columns - Column names from the scan of the same content
+ * @param batchSize - Rows per batch
+ */
+export async function* readImportBatches(
+  content: AsyncIterable<Uint8Array>,
+  format: ImportFormat,
+  options: ImportParseOptions,
+  columns: string[],
+  batchSize: number
+): AsyncGenerator<Record<string, unknown>[]> {
+  const { records } = await readImportRecords(content, format, options);
+
+  let batch: Record<string, unknown>[] = [];
+  for await (const record of dataRecords(records, options)) {
+    batch.push(toRow(record, columns));
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Parses file content into records. Text formats are decoded and parsed
+ * chunk by chunk; workbooks are read whole, as SheetJS can't parse them
+ * incrementally.
+ */
+async function readImportRecords(
+  content: AsyncIterable<Uint8Array>,
+  format: ImportFormat,
+  options: ImportParseOptions
+): Promise<ImportRecords> {
+  switch (format) {
+    case 'csv':
+    case 'tsv':
+      return {
+        records: parseDelimited(
+          decodeText(content),
+          format === 'tsv' ? '\t' : options.delimiter || ','
+        ),
+      };
+    case 'json':
+      return { records: parseJSON(decodeText(content)) };
+    case 'ndjson':
+      return { records: parseNDJSON(decodeText(content)) };
+    case 'xlsx': {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of content) {
+        chunks.push(chunk);
+      }
+      return parseExcel(Buffer.concat(chunks), options);
+    }
+    default:
+      throw new Error(`Unsupported import format: ${format}`);
+  }
+}
+
+/**
+ * Skips options.skipRows records of delimited files and worksheets and
+ * hands the header record to onHeader. JSON objects pass through.
+ */
+async function* dataRecords(
+  records: AsyncIterable<ImportRecord>,
+  options: ImportParseOptions,
+  onHeader?: (header: unknown[]) => void
+): AsyncGenerator<ImportRecord> {
+  const { hasHeaders = true, skipRows = 0 } = options;
+  let position = 0;
+
+  for await (const record of records) {
+    if (Array.isArray(record)) {
+      position++;
+      if (position <= skipRows) continue;
+      if (hasHeaders && position === Math.max(0, skipRows) + 1) {
+        onHeader?.(record);
+        continue;
+      }
+    }
+    yield record;
+  }
+}
+
+/**
+ * Shapes a record into a row object. Delimited records map their cells to
+ * the columns by position, objects by key.
+ */
+function toRow(
+  record: ImportRecord,
+  columns: string[]
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  columns.forEach((column, index) => {
+    const key = Array.isArray(record) ? index : column;
+    row[column] = Object.hasOwn(record, key)
+      ? normalizeValue((record as Record<number | string, unknown>)[key])
+      : null;
+  });
+  return row;
+}
+
+/**
+ * Decodes UTF-8 chunks to text, dropping a leading byte order mark.
+ */
+async function* decodeText(
+  content: AsyncIterable<Uint8Array>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder('utf-8');
+  for await (const chunk of content) {
+    yield decoder.decode(chunk, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+/**
+ * Parses CSV/TSV text using PapaParse. Each chunk is parsed up to its last
+ * complete record; the rest is carried over to the next chunk.
+ */
+async function* parseDelimited(
+  chunks: AsyncIterable<string>,
+  delimiter: string
+): AsyncGenerator<unknown[]> {
+  let newline: '\r\n' | '\r' | '\n' | null = null;
+  let carry = '';
+  let rowCount = 0;
+
+  const parse = (text: string, isLast: boolean): unknown[][] => {
+    // The line ending is only known once a line break has been read
+    newline ??= /[\r\n]/.test(text.slice(0, -1)) ? detectNewline(text) : null;
+
+    // Before the end, only text up to the last line break is parsed, so a
+    // chunk never ends inside a line break or right after a quote
+    const lastBreak = newline ? text.lastIndexOf(newline) : -1;
+    const end = isLast ? text.length : lastBreak + (newline?.length ?? 0);
+    if (!isLast && lastBreak === -1) {
+      carry = text;
+      return [];
+    }
+
+    const result = new Papa.Parser({
+      delimiter,
+      newline: newline ?? '\n',
+    }).parse(text.slice(0, end), 0, !isLast) as Papa.ParseResult<unknown[]>;
+
+    // Quote errors make the remaining rows unreliable; field count
+    // mismatches are tolerated and padded with NULLs
+    const fatal = result.errors.find((e) => e.type === 'Quotes');
+    if (fatal) {
+      throw new Error(
+        `Invalid CSV on row ${rowCount + (fatal.row ?? 0) + 1}: ${fatal.message}`
+      );
+    }
+
+    carry = isLast ? '' : text.slice(result.meta.cursor);
+    const records = result.data.filter(
+      (record) => !(record.length === 1 && record[0] === '')
+    );
+    rowCount += records.length;
+    return records;
+  };
+
+  for await (const chunk of chunks) {
+    if (chunk) {
+      yield* parse(carry + chunk, false);
+    }
+  }
+  yield* parse(carry, true);
+}
+
+/**
+ * Line ending of delimited text, from its first line break
+ */
+function detectNewline(text: string): '\r\n' | '\r' | '\n' {
+  const lineFeed = text.indexOf('\n');
+  if (lineFeed > 0 && text[lineFeed - 1] === '\r') return '\r\n';
+  if (lineFeed === -1 && text.includes('\r')) return '\r';
+  return '\n';
+}
+
+/**
+ * Parses a JSON array of objects one element at a time, finding element
+ * boundaries by tracking nesting outside of strings.
+ */
+async function* parseJSON(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<Record<string, unknown>> {
+  let text = '';
+  let index = 0;
+  let elementStart = -1;
+  let depth = 0;
+  let inString = false;
+  let opened = false;
+  let closed = false;
+  let elementCount = 0;
+
+  const parseElement = (source: string) => {
+    elementCount++;
+    let item: unknown;
+    try {
+      item = JSON.parse(source);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`
+      );
+    }
+    return expectObject(item, `array element ${elementCount}`);
+  };
+
+  for await (const chunk of chunks) {
+    text += chunk;
+    for (; index < text.length; index++) {
+      const ch = text[index];
+      if (inString) {
+        if (ch === '\\') index++;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t') continue;
+
+      if (closed) {
+        throw new Error('Invalid JSON: Unexpected data after the array');
+      }
+      if (!opened) {
+        if (ch !== '[') {
+          throw new TypeError('JSON import expects an array of objects');
+        }
+        opened = true;
+        elementStart = index + 1;
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (depth > 0 && (ch === '}' || ch === ']')) {
+        depth--;
+      } else if (depth === 0 && (ch === ',' || ch === ']')) {
+        const element = text.slice(elementStart, index);
+        // Only an empty array has nothing before its closing bracket
+        if (ch === ',' || element.trim() !== '' || elementCount > 0) {
+          yield parseElement(element);
+        }
+        closed = ch === ']';
+        elementStart = index + 1;
+      }
+    }
+
+    // Keep only the unfinished element
+    if (opened && !closed) {
+      text = text.slice(elementStart);
+      index -= elementStart;
+      elementStart = 0;
+    }
+  }
+
+  if (!opened) {
+    throw new TypeError('JSON import expects an array of objects');
+  }
+  if (!closed) {
+    throw new Error('Invalid JSON: Unexpected end of JSON input');
+  }
+}
+
+/**
+ * Parses newline-delimited JSON (one object per line).
+ */
+async function* parseNDJSON(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<Record<string, unknown>> {
+  let carry = '';
+  let lineNumber = 0;
+
+  const parseLine = (line: string) => {
+    lineNumber++;
+    if (line.trim() === '') return null;
+    let item: unknown;
+    try {
+      item = JSON.parse(line);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON on line ${lineNumber}: ${error instanceof Error ? error.message : 'parse error'}`
+      );
+    }
+    return expectObject(item, `line ${lineNumber}`);
+  };
+
+  for await (const chunk of chunks) {
+    const lines = (carry + chunk).split(/\r?\n/);
+    carry = lines.pop() ?? '';
+    for (const line of lines) {
+      const item = parseLine(line);
+      if (item) yield item;
+    }
+  }
+  const item = parseLine(carry);
+  if (item) yield item;
+}
+
+/**
+ * Parses the selected worksheet of an Excel workbook using SheetJS.
+ */
+function parseExcel(
+  content: Buffer,
+  options: ImportParseOptions
+): ImportRecords {
+  const workbook = XLSX.read(content, { type: 'buffer', cellDates: true });
+  const sheetName = options.sheetName ?? workbook.SheetNames[0];
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+  if (!sheet) {
+    throw new Error(
+      options.sheetName
+        ? `Worksheet not found: ${options.sheetName}`
+        : 'Workbook contains no worksheets'
+    );
+  }
+
+  const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false,
+  });
+
+  return {
+    records: (async function* () {
+      yield* data;
+    })(),
+    sheetNames: workbook.SheetNames,
+  };
+}
+
+/**
+ * Checks that a parsed JSON item is a plain object.
+ */
+function expectObject(
+  item: unknown,
+  position: string
+): Record<string, unknown> {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    throw new TypeError(`Expected an object at ${position}`);
+  }
+  return item as Record<string, unknown>;
+}
+
+/**
+ * Generates column names for a header row, replacing blanks with
+ * column_N and suffixing duplicates.
+ */
+function uniqueColumnNames(header: unknown[]): string[] {
+  const used = new Set<string>();
+
+  return header.map((value, index) => {
+    const base =
+      value === null || value === undefined || String(value).trim() === ''
+        ? `column_${index + 1}`
+        : String(value).trim();
+
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      name = `${base}_${suffix++}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Normalizes a parsed cell value for binding: blanks become NULL, dates become
+ * ISO strings and nested objects are stored as JSON text.
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+// ============ Type Inference ============
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const REAL_PATTERN = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$/i;
+const BOOLEAN_PATTERN = /^(?:true|false)$/i;
+const DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[-+]\d{2}:?\d{2})?)?$/;
+
+function inferValueType(value: unknown): ImportColumnType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'real';
+  }
+  if (typeof value === 'bigint') return 'integer';
+
+  const text = String(value).trim();
+  // Leading zeros (zip codes, phone numbers) must survive as text
+  if (INTEGER_PATTERN.test(text)) {
+    return /^[-+]?0\d/.test(text) ? 'text' : 'integer';
+  }
+  if (REAL_PATTERN.test(text)) return 'real';
+  if (BOOLEAN_PATTERN.test(text)) return 'boolean';
+  if (DATE_PATTERN.test(text)) return 'date';
+  return 'text';
+}
+
+/**
+ * Infers a column type from every non-NULL value in the column.
+ * Integers widen to reals; any other mix of types falls back to text.
+ *
+ * @param rows - Parsed rows
+ * @param columns - Columns to infer types for
+ * @returns Source columns with their inferred types
+ */
+export function inferColumnTypes(
+  rows: Record<string, unknown>[],
+  columns: string[]
+): ImportSourceColumn[] {
+  return columns.map((name) => {
+    let inferred: ImportColumnType | null = null;
+
+    for (const row of rows) {
+      inferred = widenColumnType(inferred, row[name]);
+      if (inferred === 'text') break;
+    }
+
+    return { name, inferredType: inferred ?? 'text' };
+  });
+}
+
+/**
+ * Widens the type inferred for a column so far to cover one more value.
+ * NULLs leave it unchanged.
+ */
+function widenColumnType(
+  inferred: ImportColumnType | null,
+  value: unknown
+): ImportColumnType | null {
+  if (value === null || value === undefined) return inferred;
+
+  const type = inferValueType(value);
+  if (inferred === null || inferred === type) return type;
+  if (
+    (inferred === 'integer' && type === 'real') ||
+    (inferred === 'real' && type === 'integer')
+  ) {
+    return 'real';
+  }
+  return 'text';
+}
+
+// ============ DDL Generation ============
+
+const COLUMN_TYPES: Record<SqlDialect, Record<ImportColumnType, string>> = {
+  sqlite: {
+    integer: 'INTEGER',
+    real: 'REAL',
+    boolean: 'INTEGER',
+    date: 'TEXT',
+    text: 'TEXT',
+  },
+  mysql: {
+    integer: 'BIGINT',
+    real: 'DOUBLE',
+    boolean: 'BOOLEAN',
+    date: 'DATETIME',
+    text: 'TEXT',
+  },
+  postgresql: {
+    integer: 'BIGINT',
+    real: 'DOUBLE PRECISION',
+    boolean: 'BOOLEAN',
+    date: 'TIMESTAMP',
+    text: 'TEXT',
+  },
+};
+
+/**
+ * Maps an inferred column type to a native column type.
+ */
+export function getImportColumnSqlType(
+  type: ImportColumnType,
+  dialect: SqlDialect
+): string {
+  return COLUMN_TYPES[dialect][type];
+}
+
+/**
+ * Generates a CREATE TABLE statement for imported columns.
+ *
+ * @param table - Name of the table to create
+ * @param schema - Schema of the table
+ * @param columns - Target column names and inferred types
+ * @param dialect - SQL dialect of the target connection
+ * @returns CREATE TABLE statement
+ */
+export function generateCreateTableSQL(
+  table: string,
+  schema: string | undefined,
+  columns: Array<{ name: string; type: ImportColumnType }>,
+  dialect: SqlDialect
+): string {
+  const definitions = columns.map(
+    (column) =>
+      `  ${quoteIdentifier(column.name, dialect)} ${getImportColumnSqlType(column.type, dialect)}`
+  );
+
+  return `CREATE TABLE ${qualifyTableName(table, schema, dialect)} (\n${definitions.join(',\n')}\n)`;
+}
+
+/**
+ * Converts a parsed value into a bind parameter, using the inferred type of
+ * its source column. Boolean text becomes true/false (1/0 outside PostgreSQL)
+ * and date-times are reformatted for MySQL DATETIME columns.
+ */
+export function toImportParam(
+  value: unknown,
+  type: ImportColumnType,
+  dialect: SqlDialect
+): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  let param = value;
+  if (type === 'boolean' && typeof param === 'string') {
+    param = param.trim().toLowerCase() === 'true';
+  }
+
+  if (typeof param === 'boolean' && dialect !== 'postgresql') {
+    return param ? 1 : 0;
+  }
+
+  if (type === 'date' && dialect === 'mysql' && typeof param === 'string') {
+    // MySQL DATETIME rejects the ISO 'T' separator and time zone suffix
+    return param.replace('T', ' ').replace(/(?:Z|[-+]\d{2}:?\d{2})$/, '');
+  }
+
+  return param;
+}
@@ -0,0 +1,116 @@
+import { Buffer } from 'node:buffer';
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+
+import {
+  checkHostKey,
+  formatKnownHost,
+  matchesHostPatterns,
+  parseKnownHosts,
+} from './known-hosts';
+
+/**
+ * Builds an SSH wire format key blob: the key type followed by key data.
+ */
+function keyBlob(type: string, data: string): Buffer {
+  const typeBuffer = Buffer.from(type);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(typeBuffer.length);
+  return Buffer.concat([length, typeBuffer, Buffer.from(data)]);
+}
+
+function hashHost(name: string, salt: Buffer): string {
+  const hash = createHmac('sha1', salt).update(name).digest('base64');
+  return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+const bastionKey = keyBlob('ssh-ed25519', 'bastion');
+const otherKey = keyBlob('ssh-ed25519', 'intruder');
+
+describe('known-hosts', () => {
+  describe('parseKnownHosts', () => {
+    it('should parse entries and skip comments and blank lines', () => {
+      const entries = parseKnownHosts(
+        [
+          '# bastions',
+          '',
+          `bastion.example.com,10.0.0.5 ssh-ed25519 ${bastionKey.toString('base64')} ops@example`,
+          `@revoked * ssh-rsa AAAA`,
+          'malformed-line',
+        ].join('\n')
+      );
+
+      expect(entries).toEqual([
+        {
+          marker: null,
+          patterns: ['bastion.example.com', '10.0.0.5'],
+          keyType: 'ssh-ed25519',
+          key: bastionKey.toString('base64'),
+        },
+        {
+          marker: '@revoked',
+          patterns: ['*'],
+          keyType: 'ssh-rsa',
+          key: 'AAAA',
+        },
+      ]);
+    });
+  });
+
+  describe('matchesHostPatterns', () => {
+    it('should write non-default ports in brackets', () => {
+      expect(formatKnownHost('bastion', 22)).toBe('bastion');
+      expect(formatKnownHost('bastion', 2222)).toBe('[bastion]:2222');
+      expect(matchesHostPatterns(['bastion'], 'bastion', 2222)).toBe(false);
+      expect(matchesHostPatterns(['[bastion]:2222'], 'bastion', 2222)).toBe(
+        true
+      );
+    });
+
+    it('should support wildcards and negation', () => {
+      const patterns = ['*.example.com', '!db.example.com'];
+      expect(matchesHostPatterns(patterns, 'bastion.example.com')).toBe(true);
+      expect(matchesHostPatterns(patterns, 'db.example.com')).toBe(false);
+      expect(matchesHostPatterns(['10.0.0.?'], '10.0.0.7')).toBe(true);
+      expect(matchesHostPatterns(['10.0.0.?'], '10.0.0.17')).toBe(false);
+    });
+
+    it('should match hashed host names', () => {
+      const hashed = hashHost('[bastion]:2222', Buffer.from('salt-value'));
+      expect(matchesHostPatterns([hashed], 'bastion', 2222)).toBe(true);
+      expect(matchesHostPatterns([hashed], 'bastion', 22)).toBe(false);
+    });
+  });
+
+  describe('checkHostKey', () => {
+    const entries = parseKnownHosts(
+      `bastion ssh-ed25519 ${bastionKey.toString('base64')}`
+    );
+
+    it('should accept the known key', () => {
+      expect(checkHostKey(entries, 'bastion', 22, bastionKey)).toBe('match');
+    });
+
+    it('should report a changed key', () => {
+      expect(checkHostKey(entries, 'bastion', 22, otherKey)).toBe('mismatch');
+    });
+
+    it('should report unknown hosts and key types', () => {
+      expect(checkHostKey(entries, 'elsewhere', 22, bastionKey)).toBe(
+        'unknown'
+      );
+      expect(
+        checkHostKey(entries, 'bastion', 22, keyBlob('ssh-rsa', 'bastion'))
+      ).toBe('unknown');
+    });
+
+    it('should reject revoked keys', () => {
+      const revoked = parseKnownHosts(
+        `@revoked * ssh-ed25519 ${bastionKey.toString('base64')}`
+      );
+      expect(
+        checkHostKey([...entries, ...revoked], 'bastion', 22, bastionKey)
+      ).toBe('revoked');
+    });
+  });
+});
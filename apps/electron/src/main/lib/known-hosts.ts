@@ -0,0 +1,159 @@
+/**
+ * OpenSSH known_hosts parsing and host key verification for SSH tunnels.
+ * Supports plain and hashed host names, non-default ports written as
+ * `[host]:port`, wildcard and negated patterns, and `@revoked` markers.
+ * `@cert-authority` lines are ignored since certificates are not supported.
+ */
+
+import { Buffer } from 'node:buffer';
+import { createHmac } from 'node:crypto';
+
+/**
+ * A single host key line of a known_hosts file
+ */
+export interface KnownHostEntry {
+  marker: '@revoked' | '@cert-authority' | null;
+  /** Comma separated host patterns, or a single hashed `|1|salt|hash` name */
+  patterns: string[];
+  keyType: string;
+  /** Base64 encoded public key blob */
+  key: string;
+}
+
+/**
+ * Outcome of checking a presented host key against known_hosts.
+ * - match: a trusted entry holds this key
+ * - mismatch: the host is known with a different key of the same type
+ * - revoked: the key is explicitly revoked
+ * - unknown: no entry covers this host and key type
+ */
+export type HostKeyStatus = 'match' | 'mismatch' | 'revoked' | 'unknown';
+
+/**
+ * Parses the contents of a known_hosts file. Blank lines, comments and
+ * malformed lines are skipped.
+ */
+export function parseKnownHosts(content: string): KnownHostEntry[] {
+  const entries: KnownHostEntry[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const fields = line.split(/\s+/);
+    let marker: KnownHostEntry['marker'] = null;
+    if (fields[0] === '@revoked' || fields[0] === '@cert-authority') {
+      marker = fields.shift() as KnownHostEntry['marker'];
+    }
+
+    const [hosts, keyType, key] = fields;
+    if (!hosts || !keyType || !key) continue;
+
+    entries.push({ marker, patterns: hosts.split(','), keyType, key });
+  }
+
+  return entries;
+}
+
+/**
+ * Host name as written in known_hosts: bare for port 22, `[host]:port` otherwise.
+ */
+export function formatKnownHost(host: string, port = 22): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * Matches a host against a glob pattern with `*` and `?` wildcards.
+ */
+function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern
+    .toLowerCase()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`).test(value.toLowerCase());
+}
+
+/**
+ * Matches a hashed `|1|salt|hash` name, an HMAC-SHA1 of the host keyed by salt.
+ */
+function matchesHashed(pattern: string, value: string): boolean {
+  const [, , salt, hash] = pattern.split('|');
+  if (!salt || !hash) return false;
+
+  const digest = createHmac('sha1', Buffer.from(salt, 'base64'))
+    .update(value)
+    .digest('base64');
+  return digest === hash;
+}
+
+/**
+ * Whether an entry's host patterns cover a host and port. A matching negated
+ * pattern (`!host`) excludes the host even when another pattern matches.
+ */
+export function matchesHostPatterns(
+  patterns: string[],
+  host: string,
+  port = 22
+): boolean {
+  const name = formatKnownHost(host, port);
+  let matched = false;
+
+  for (const pattern of patterns) {
+    if (pattern.startsWith('|1|')) {
+      if (matchesHashed(pattern, name)) matched = true;
+      continue;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (matchesGlob(negated ? pattern.slice(1) : pattern, name)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Reads the key type from an SSH wire format public key blob.
+ */
+function readKeyType(key: Buffer): string | null {
+  if (key.length < 4) return null;
+  const length = key.readUInt32BE(0);
+  if (key.length < 4 + length) return null;
+  return key.subarray(4, 4 + length).toString('ascii');
+}
+
+/**
+ * Checks the key a server presented during the handshake against the
+ * entries of a known_hosts file.
+ */
+export function checkHostKey(
+  entries: KnownHostEntry[],
+  host: string,
+  port: number,
+  key: Buffer
+): HostKeyStatus {
+  const encodedKey = key.toString('base64');
+  const keyType = readKeyType(key);
+  let status: HostKeyStatus = 'unknown';
+
+  for (const entry of entries) {
+    if (entry.marker === '@cert-authority') continue;
+    if (!matchesHostPatterns(entry.patterns, host, port)) continue;
+
+    if (entry.key === encodedKey) {
+      if (entry.marker === '@revoked') return 'revoked';
+      status = 'match';
+    } else if (
+      entry.marker === null &&
+      entry.keyType === keyType &&
+      status === 'unknown'
+    ) {
+      status = 'mismatch';
+    }
+  }
+
+  return status;
+}
@@ -0,0 +1,155 @@
+import type { DiffRow } from './row-diff';
+import { describe, expect, it } from 'vitest';
+import {
+  compareKeyValues,
+  createRowKeyComparator,
+  detectColumnChanges,
+  getKeyKind,
+  keyOrderExpression,
+  mergeJoinRows,
+  valuesEqual,
+} from './row-diff';
+
+async function* batches(...chunks: DiffRow[][]): AsyncGenerator<DiffRow[]> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+describe('row-diff', () => {
+  describe('getKeyKind', () => {
+    it('should classify key column types', () => {
+      expect(getKeyKind('INTEGER')).toBe('numeric');
+      expect(getKeyKind('bigint')).toBe('numeric');
+      expect(getKeyKind('int(11) unsigned')).toBe('numeric');
+      expect(getKeyKind('numeric(10,2)')).toBe('numeric');
+      expect(getKeyKind('character varying(255)')).toBe('text');
+      expect(getKeyKind('TEXT')).toBe('text');
+      expect(getKeyKind('uuid')).toBe('other');
+      expect(getKeyKind('interval')).toBe('other');
+    });
+  });
+
+  describe('keyOrderExpression', () => {
+    it('should order text keys by bytes on every dialect', () => {
+      expect(keyOrderExpression('code', 'text', 'sqlite')).toBe(
+        '"code" COLLATE BINARY'
+      );
+      expect(keyOrderExpression('code', 'text', 'postgresql')).toBe(
+        '"code" COLLATE "C"'
+      );
+      expect(keyOrderExpression('code', 'text', 'mysql')).toBe(
+        'CAST(`code` AS BINARY)'
+      );
+      expect(keyOrderExpression('id', 'numeric', 'mysql')).toBe('`id`');
+    });
+  });
+
+  describe('compareKeyValues', () => {
+    it('should compare numeric keys exactly across representations', () => {
+      expect(compareKeyValues(9, '10', 'numeric')).toBeLessThan(0);
+      expect(
+        compareKeyValues('9007199254740993', '9007199254740992', 'numeric')
+      ).toBeGreaterThan(0);
+      expect(compareKeyValues(5, '5', 'numeric')).toBe(0);
+    });
+
+    it('should compare text keys by their UTF-8 bytes', () => {
+      expect(compareKeyValues('B', 'a', 'text')).toBeLessThan(0);
+      expect(compareKeyValues('\uFFFD', '\u{1F600}', 'text')).toBeLessThan(0);
+    });
+
+    it('should sort NULL first', () => {
+      expect(compareKeyValues(null, 1, 'numeric')).toBeLessThan(0);
+      expect(compareKeyValues(null, undefined, 'text')).toBe(0);
+    });
+  });
+
+  describe('valuesEqual', () => {
+    it('should treat values read from different dialects as equal', () => {
+      expect(valuesEqual(1, '1')).toBe(true);
+      expect(valuesEqual(true, 1)).toBe(true);
+      expect(valuesEqual(false, 't')).toBe(false);
+      expect(
+        valuesEqual(new Date('2024-01-01T00:00:00Z'), '2024-01-01T00:00:00Z')
+      ).toBe(true);
+    });
+
+    it('should not treat distinct strings as equal', () => {
+      expect(valuesEqual('1.0', '1')).toBe(false);
+      expect(valuesEqual('', 0)).toBe(false);
+      expect(valuesEqual(null, '')).toBe(false);
+    });
+  });
+
+  describe('detectColumnChanges', () => {
+    it('should list changed columns from both rows', () => {
+      expect(
+        detectColumnChanges({ id: 1, name: 'a' }, { id: 1, email: 'x' })
+      ).toEqual([
+        { columnName: 'name', sourceValue: 'a', targetValue: undefined },
+        { columnName: 'email', sourceValue: undefined, targetValue: 'x' },
+      ]);
+    });
+  });
+
+  describe('mergeJoinRows', () => {
+    it('should pair rows by key across uneven batches', async () => {
+      const pairs: Array<[unknown, unknown]> = [];
+      await mergeJoinRows(
+        batches([{ id: 1 }, { id: 2 }], [{ id: 4 }], [{ id: 6 }]),
+        batches([{ id: '2' }], [{ id: '3' }, { id: '4' }, { id: '5' }]),
+        createRowKeyComparator(['id'], ['numeric']),
+        (source, target) => {
+          pairs.push([source?.id ?? null, target?.id ?? null]);
+        }
+      );
+
+      expect(pairs).toEqual([
+        [1, null],
+        [2, '2'],
+        [null, '3'],
+        [4, '4'],
+        [null, '5'],
+        [6, null],
+      ]);
+    });
+
+    it('should order composite keys column by column', async () => {
+      const pairs: Array<[unknown, unknown]> = [];
+      await mergeJoinRows(
+        batches([
+          { a: 1, b: 'x' },
+          { a: 1, b: 'y' },
+        ]),
+        batches([
+          { a: 1, b: 'y' },
+          { a: 2, b: 'a' },
+        ]),
+        createRowKeyComparator(['a', 'b'], ['numeric', 'text']),
+        (source, target) => {
+          pairs.push([source?.b ?? null, target?.b ?? null]);
+        }
+      );
+
+      expect(pairs).toEqual([
+        ['x', null],
+        ['y', 'y'],
+        [null, 'a'],
+      ]);
+    });
+
+    it('should handle empty streams', async () => {
+      const pairs: unknown[] = [];
+      await mergeJoinRows(
+        batches(),
+        batches([], [{ id: 1 }]),
+        createRowKeyComparator(['id'], ['numeric']),
+        (_source, target) => {
+          pairs.push(target);
+        }
+      );
+      expect(pairs).toEqual([{ id: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Row diff helpers used by the keyed data diff.
+ * Both tables are read ordered by their key columns and walked side by side
+ * (merge join), so the key comparison here must agree with the ORDER BY the
+ * database applied. Text keys are therefore ordered by bytes on every dialect
+ * (see keyOrderExpression) and compared by their UTF-8 bytes here.
+ */
+
+import type { ColumnChange, SqlDialect } from '@shared/types';
+import { Buffer } from 'node:buffer';
+import { quoteIdentifier } from './sql-dialect';
+
+export type DiffRow = Record<string, unknown>;
+
+/**
+ * How values of a key column are ordered.
+ */
+export type KeyKind = 'numeric' | 'text' | 'other';
+
+const NUMERIC_TYPE_PATTERN =
+  /\b(?:tinyint|smallint|mediumint|bigint|int\d?|integer|(?:small|big)?serial\d?|numeric|decimal|real|double|float\d?|number)\b/i;
+
+const TEXT_TYPE_PATTERN = /char|text|clob|string|citext/i;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+/**
+ * Classify a key column by its declared type.
+ */
+export function getKeyKind(columnType: string): KeyKind {
+  if (NUMERIC_TYPE_PATTERN.test(columnType)) return 'numeric';
+  if (TEXT_TYPE_PATTERN.test(columnType)) return 'text';
+  return 'other';
+}
+
+/**
+ * SQL expression a key column is ordered and compared by. Text keys use
+ * binary ordering so every dialect sorts them the same way.
+ */
+export function keyOrderExpression(
+  column: string,
+  kind: KeyKind,
+  dialect: SqlDialect
+): string {
+  const quoted = quoteIdentifier(column, dialect);
+  if (kind !== 'text') return quoted;
+  if (dialect === 'postgresql') return `${quoted} COLLATE "C"`;
+  if (dialect === 'mysql') return `CAST(${quoted} AS BINARY)`;
+  return `${quoted} COLLATE BINARY`;
+}
+
+/**
+ * Convert a numeric value to a bigint when it is integral, so large keys
+ * (PostgreSQL returns BIGINT as strings) compare exactly.
+ */
+function toNumeric(value: unknown): bigint | number {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? BigInt(value) : value;
+  }
+  const text = String(value).trim();
+  return INTEGER_PATTERN.test(text) ? BigInt(text) : Number(text);
+}
+
+function compareNumeric(a: unknown, b: unknown): number {
+  const x = toNumeric(a);
+  const y = toNumeric(b);
+  if (typeof x === 'bigint' && typeof y === 'bigint') {
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  const nx = Number(x);
+  const ny = Number(y);
+  return nx < ny ? -1 : nx > ny ? 1 : 0;
+}
+
+// BLOBs read on the SQLite worker threads arrive as plain Uint8Arrays
+function toBytes(value: unknown): Uint8Array {
+  return value instanceof Uint8Array
+    ? value
+    : Buffer.from(String(value), 'utf8');
+}
+
+function compareBytes(a: unknown, b: unknown): number {
+  return Buffer.compare(toBytes(a), toBytes(b));
+}
+
+/**
+ * Compare two key values. NULL sorts before any other value; the data diff
+ * refuses keys with NULLs, as databases disagree on where they sort.
+ */
+export function compareKeyValues(
+  a: unknown,
+  b: unknown,
+  kind: KeyKind
+): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull && bNull ? 0 : aNull ? -1 : 1;
+
+  if (kind === 'numeric') return compareNumeric(a, b);
+  if (kind === 'text') return compareBytes(a, b);
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  const aNumber = typeof a === 'number' || typeof a === 'bigint';
+  const bNumber = typeof b === 'number' || typeof b === 'bigint';
+  if (aNumber && bNumber) return compareNumeric(a, b);
+
+  return compareBytes(
+    a instanceof Date ? a.toISOString() : a,
+    b instanceof Date ? b.toISOString() : b
+  );
+}
+
+/**
+ * Build a comparator ordering rows by their key columns.
+ */
+export function createRowKeyComparator(
+  keyColumns: string[],
+  kinds: KeyKind[]
+): (a: DiffRow, b: DiffRow) => number {
+  return (a, b) => {
+    for (let i = 0; i < keyColumns.length; i++) {
+      const result = compareKeyValues(
+        a[keyColumns[i]],
+        b[keyColumns[i]],
+        kinds[i]
+      );
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Compare two column values for equality. Values read from different
+ * dialects are normalized first: numbers against numeric strings, booleans
+ * against 0/1 and dates against date strings.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull && bNull;
+
+  if (a === b) return true;
+
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return toComparableBoolean(a) === toComparableBoolean(b);
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    const x = a instanceof Date ? a.getTime() : Date.parse(String(a));
+    const y = b instanceof Date ? b.getTime() : Date.parse(String(b));
+    return !Number.isNaN(x) && x === y;
+  }
+
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return Buffer.compare(a, b) === 0;
+  }
+
+  const aNumber = typeof a === 'number' || typeof a === 'bigint';
+  const bNumber = typeof b === 'number' || typeof b === 'bigint';
+  if (
+    (aNumber || bNumber) &&
+    (aNumber || typeof a === 'string') &&
+    (bNumber || typeof b === 'string') &&
+    String(a).trim() !== '' &&
+    String(b).trim() !== '' &&
+    !Number.isNaN(Number(a)) &&
+    !Number.isNaN(Number(b))
+  ) {
+    return compareNumeric(a, b) === 0;
+  }
+
+  if (typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  return false;
+}
+
+function toComparableBoolean(value: unknown): unknown {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === '1' || value === 't') return true;
+  if (value === 0 || value === '0' || value === 'f') return false;
+  return value;
+}
+
+/**
+ * Detect column-level changes between two rows.
+ */
+export function detectColumnChanges(
+  sourceRow: DiffRow,
+  targetRow: DiffRow
+): ColumnChange[] {
+  const changes: ColumnChange[] = [];
+  const allColumns = new Set([
+    ...Object.keys(sourceRow),
+    ...Object.keys(targetRow),
+  ]);
+
+  for (const columnName of allColumns) {
+    const sourceValue = sourceRow[columnName];
+    const targetValue = targetRow[columnName];
+    if (!valuesEqual(sourceValue, targetValue)) {
+      changes.push({ columnName, sourceValue, targetValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Reads rows one at a time from an async iterable of row batches.
+ */
+class BatchCursor {
+  private batch: DiffRow[] = [];
+  private index = 0;
+  private done = false;
+
+  constructor(private readonly iterator: AsyncIterator<DiffRow[]>) {}
+
+  async peek(): Promise<DiffRow | null> {
+    while (this.index >= this.batch.length) {
+      if (this.done) return null;
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+        return null;
+      }
+      this.batch = next.value;
+      this.index = 0;
+    }
+    return this.batch[this.index];
+  }
+
+  advance(): void {
+    this.index++;
+  }
+}
+
+/**
+ * Walk two key-ordered row streams side by side. onPair is called once per
+ * key with the source row, the target row, or both when the key exists on
+ * each side.
+ */
+export async function mergeJoinRows(
+  source: AsyncIterable<DiffRow[]>,
+  target: AsyncIterable<DiffRow[]>,
+  compareKeys: (a: DiffRow, b: DiffRow) => number,
+  onPair: (
+    sourceRow: DiffRow | null,
+    targetRow: DiffRow | null
+  ) => void | Promise<void>
+): Promise<void> {
+  const sourceCursor = new BatchCursor(source[Symbol.asyncIterator]());
+  const targetCursor = new BatchCursor(target[Symbol.asyncIterator]());
+
+  while (true) {
+    const sourceRow = await sourceCursor.peek();
+    const targetRow = await targetCursor.peek();
+    if (!sourceRow && !targetRow) return;
+
+    const order =
+      sourceRow && targetRow
+        ? compareKeys(sourceRow, targetRow)
+        : sourceRow
+          ? -1
+          : 1;
+
+    if (order === 0) {
+      sourceCursor.advance();
+      targetCursor.advance();
+      await onPair(sourceRow, targetRow);
+    } else if (order < 0) {
+      sourceCursor.advance();
+      await onPair(sourceRow, null);
+    } else {
+      targetCursor.advance();
+      await onPair(null, targetRow);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { Buffer } from 'node:buffer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  bindPlaceholder,
+  formatLiteral,
+  getDialect,
+  qualifyTableName,
+  quoteIdentifier,
+  quoteString,
+} from './sql-dialect';
+
+describe('sql-dialect', () => {
+  describe('getDialect', () => {
+    it('should map database types to dialects', () => {
+      expect(getDialect('sqlite')).toBe('sqlite');
+      expect(getDialect('mysql')).toBe('mysql');
+      expect(getDialect('postgresql')).toBe('postgresql');
+      expect(getDialect('supabase')).toBe('postgresql');
+    });
+
+    it('should default to sqlite for unknown connections', () => {
+      expect(getDialect(null)).toBe('sqlite');
+      expect(getDialect(undefined)).toBe('sqlite');
+    });
+  });
+
+  describe('quoteIdentifier', () => {
+    it('should use double quotes for sqlite and postgresql', () => {
+      expect(quoteIdentifier('users', 'sqlite')).toBe('"users"');
+      expect(quoteIdentifier('users', 'postgresql')).toBe('"users"');
+    });
+
+    it('should use backticks for mysql', () => {
+      expect(quoteIdentifier('users', 'mysql')).toBe('`users`');
+    });
+
+    it('should escape embedded quote characters', () => {
+      expect(quoteIdentifier('we"ird', 'postgresql')).toBe('"we""ird"');
+      expect(quoteIdentifier('we`ird', 'mysql')).toBe('`we``ird`');
+    });
+  });
+
+  describe('qualifyTableName', () => {
+    it('should omit the main schema for sqlite', () => {
+      expect(qualifyTableName('users', 'main', 'sqlite')).toBe('"users"');
+      expect(qualifyTableName('users', undefined, 'sqlite')).toBe('"users"');
+      expect(qualifyTableName('users', 'temp', 'sqlite')).toBe(
+        '"temp"."users"'
+      );
+    });
+
+    it('should default to the public schema for postgresql', () => {
+      expect(qualifyTableName('users', undefined, 'postgresql')).toBe(
+        '"public"."users"'
+      );
+      expect(qualifyTableName('users', 'app', 'postgresql')).toBe(
+        '"app"."users"'
+      );
+    });
+
+    it('should qualify with the database name for mysql', () => {
+      expect(qualifyTableName('users', 'shop', 'mysql')).toBe('`shop`.`users`');
+      expect(qualifyTableName('users', undefined, 'mysql')).toBe('`users`');
+    });
+  });
+
+  describe('bindPlaceholder', () => {
+    it('should use numbered placeholders for postgresql', () => {
+      expect(bindPlaceholder(1, 'postgresql')).toBe('$1');
+      expect(bindPlaceholder(3, 'postgresql')).toBe('$3');
+    });
+
+    it('should use question marks for sqlite and mysql', () => {
+      expect(bindPlaceholder(2, 'sqlite')).toBe('?');
+      expect(bindPlaceholder(2, 'mysql')).toBe('?');
+    });
+  });
+
+  describe('quoteString', () => {
+    it('should double single quotes', () => {
+      expect(quoteString("O'Brien", 'sqlite')).toBe("'O''Brien'");
+      expect(quoteString('C:\\temp', 'postgresql')).toBe("'C:\\temp'");
+    });
+
+    it('should escape backslashes for mysql', () => {
+      expect(quoteString("C:\\temp's", 'mysql')).toBe("'C:\\\\temp''s'");
+    });
+  });
+
+  describe('formatLiteral', () => {
+    it('should format NULL, numbers and booleans per dialect', () => {
+      expect(formatLiteral(null, 'mysql')).toBe('NULL');
+      expect(formatLiteral(42, 'sqlite')).toBe('42');
+      expect(formatLiteral(9007199254740993n, 'postgresql')).toBe(
+        '9007199254740993'
+      );
+      expect(formatLiteral(true, 'postgresql')).toBe('TRUE');
+      expect(formatLiteral(true, 'mysql')).toBe('1');
+      expect(formatLiteral(false, 'sqlite')).toBe('0');
+    });
+
+    it('should format binary values as hex literals', () => {
+      const bytes = Buffer.from([0xDE, 0xAD]);
+      expect(formatLiteral(bytes, 'sqlite')).toBe("X'dead'");
+      expect(formatLiteral(bytes, 'mysql')).toBe("X'dead'");
+      expect(formatLiteral(bytes, 'postgresql')).toBe("'\\xdead'::bytea");
+    });
+
+    it('should cast json values for postgresql json columns', () => {
+      expect(formatLiteral({ a: "it's" }, 'postgresql', 'jsonb')).toBe(
+        `'{"a":"it''s"}'::jsonb`
+      );
+      expect(formatLiteral('{"a":1}', 'postgresql', 'json')).toBe(
+        `'{"a":1}'::json`
+      );
+      expect(formatLiteral({ a: 1 }, 'mysql', 'json')).toBe(`'{"a":1}'`);
+    });
+
+    it('should format postgresql arrays with the column type', () => {
+      expect(formatLiteral([1, 2], 'postgresql', 'integer[]')).toBe(
+        'ARRAY[1, 2]::integer[]'
+      );
+      expect(
+        formatLiteral(
+          [
+            ['a', null],
+            ['b', 'c'],
+          ],
+          'postgresql',
+          'text[][]'
+        )
+      ).toBe("ARRAY[['a', NULL], ['b', 'c']]::text[][]");
+      expect(formatLiteral([], 'postgresql', '_int4')).toBe('ARRAY[]::_int4');
+    });
+
+    describe('dates', () => {
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      it('should format dates per dialect and column type', () => {
+        const date = new Date(2024, 0, 2, 3, 4, 5);
+        expect(formatLiteral(date, 'mysql')).toBe("'2024-01-02 03:04:05'");
+        expect(formatLiteral(date, 'postgresql', 'timestamptz')).toBe(
+          `'${date.toISOString()}'`
+        );
+        expect(formatLiteral(date, 'sqlite')).toBe(`'${date.toISOString()}'`);
+      });
+
+      it('should keep local components of PostgreSQL timestamps outside UTC', () => {
+        vi.stubEnv('TZ', 'America/New_York');
+        // node-postgres reads timestamp '2024-01-02 03:04:05.5' as local time
+        const date = new Date(2024, 0, 2, 3, 4, 5, 500);
+        expect(date.toISOString()).toBe('2024-01-02T08:04:05.500Z');
+
+        expect(
+          formatLiteral(date, 'postgresql', 'timestamp without time zone')
+        ).toBe("'2024-01-02 03:04:05.500'");
+        expect(formatLiteral(date, 'postgresql', 'date')).toBe("'2024-01-02'");
+        expect(
+          formatLiteral(date, 'postgresql', 'timestamp with time zone')
+        ).toBe("'2024-01-02T08:04:05.500Z'");
+      });
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * SQL dialect helpers shared by services that build SQL for any connection type.
+ * Covers identifier quoting, schema-qualified table names, bind placeholders
+ * and literals so callers don't need to special-case SQLite, MySQL and
+ * PostgreSQL themselves.
+ */
+
+import type { DatabaseType, SqlDialect } from '@shared/types';
+import { Buffer } from 'node:buffer';
+
+/**
+ * Resolves the SQL dialect for a database type.
+ */
+export function getDialect(type: DatabaseType | null | undefined): SqlDialect {
+  if (type === 'mysql') return 'mysql';
+  if (type === 'postgresql' || type === 'supabase') return 'postgresql';
+  return 'sqlite';
+}
+
+/**
+ * Quotes an identifier (table, column or schema name) for the given dialect.
+ * MySQL uses backticks, SQLite and PostgreSQL use double quotes.
+ */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  if (dialect === 'mysql') {
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Builds a quoted, schema-qualified table name.
+ * SQLite omits the default "main" schema; PostgreSQL defaults to "public".
+ */
+export function qualifyTableName(
+  table: string,
+  schema: string | undefined,
+  dialect: SqlDialect
+): string {
+  const quotedTable = quoteIdentifier(table, dialect);
+
+  if (dialect === 'postgresql') {
+    return `${quoteIdentifier(schema || 'public', dialect)}.${quotedTable}`;
+  }
+
+  if (!schema || (dialect === 'sqlite' && schema === 'main')) {
+    return quotedTable;
+  }
+
+  return `${quoteIdentifier(schema, dialect)}.${quotedTable}`;
+}
+
+/**
+ * Returns the bind placeholder for a 1-based parameter index.
+ * PostgreSQL uses numbered placeholders ($1, $2, ...), the others use "?".
+ */
+export function bindPlaceholder(index: number, dialect: SqlDialect): string {
+  return dialect === 'postgresql' ? `$${index}` : '?';
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Formats a date from its local components. mysql2 reads DATETIME values and
+ * node-postgres reads `timestamp` and `date` values as local time, so local
+ * components are what the column held.
+ */
+function formatLocalDate(date: Date, withTime = true): string {
+  const day = `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+  if (!withTime) return day;
+  const ms = date.getMilliseconds();
+  const fraction = ms ? `.${String(ms).padStart(3, '0')}` : '';
+  return `${day} ${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}${fraction}`;
+}
+
+/**
+ * Formats a date for a PostgreSQL column. `timestamptz` values are instants
+ * and keep their ISO form; `timestamp` and `date` values use local
+ * components, matching how node-postgres read them.
+ */
+function formatPostgresDate(date: Date, type: string): string {
+  if (type === 'date') return formatLocalDate(date, false);
+  if (
+    type.startsWith('timestamp') &&
+    !type.includes('with time zone') &&
+    type !== 'timestamptz'
+  ) {
+    return formatLocalDate(date);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Quotes a string literal. MySQL treats backslashes as escapes by default;
+ * SQLite and PostgreSQL (standard_conforming_strings) only double quotes.
+ */
+export function quoteString(value: string, dialect: SqlDialect): string {
+  if (dialect === 'mysql') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/\0/g, '\\0').replace(/'/g, "''")}'`;
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Checks whether a declared column type is a PostgreSQL array type,
+ * e.g. "integer[]" or "_int4".
+ */
+function isPostgresArrayType(columnType: string): boolean {
+  return columnType.endsWith(']') || columnType.startsWith('_');
+}
+
+/**
+ * Formats a value read from any adapter as a SQL literal for the dialect.
+ * The declared column type, when known, selects PostgreSQL array, json,
+ * jsonb and bytea literals and how PostgreSQL dates are written.
+ */
+export function formatLiteral(
+  value: unknown,
+  dialect: SqlDialect,
+  columnType?: string
+): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  const type = columnType?.trim().toLowerCase() ?? '';
+
+  if (typeof value === 'boolean') {
+    if (dialect === 'postgresql') return value ? 'TRUE' : 'FALSE';
+    return value ? '1' : '0';
+  }
+
+  if (typeof value === 'bigint') {
+    return String(value);
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) return String(value);
+    // Only PostgreSQL floats can store NaN and infinities
+    return dialect === 'postgresql' ? `'${String(value)}'` : 'NULL';
+  }
+
+  if (value instanceof Uint8Array) {
+    const hex = Buffer.from(value).toString('hex');
+    return dialect === 'postgresql' ? `'\\x${hex}'::bytea` : `X'${hex}'`;
+  }
+
+  if (value instanceof Date) {
+    if (dialect === 'mysql')
+      return quoteString(formatLocalDate(value), dialect);
+    if (dialect === 'postgresql') {
+      return quoteString(formatPostgresDate(value, type), dialect);
+    }
+    return quoteString(value.toISOString(), dialect);
+  }
+
+  if (
+    dialect === 'postgresql' &&
+    Array.isArray(value) &&
+    isPostgresArrayType(type)
+  ) {
+    return `${formatPostgresArray(value)}::${columnType!.trim()}`;
+  }
+
+  if (typeof value === 'object') {
+    const json = quoteString(JSON.stringify(value), dialect);
+    if (dialect === 'postgresql' && (type === 'json' || type === 'jsonb')) {
+      return `${json}::${type}`;
+    }
+    return json;
+  }
+
+  if (
+    dialect === 'postgresql' &&
+    (type === 'json' || type === 'jsonb') &&
+    typeof value === 'string'
+  ) {
+    return `${quoteString(value, dialect)}::${type}`;
+  }
+
+  return quoteString(String(value), dialect);
+}
+
+/**
+ * Formats a (possibly nested) JavaScript array as a PostgreSQL ARRAY
+ * constructor. The caller casts the result to the column type.
+ */
+function formatPostgresArray(values: unknown[]): string {
+  return `ARRAY[${values
+    .map((item) =>
+      Array.isArray(item)
+        ? formatPostgresArray(item).slice('ARRAY'.length)
+        : formatLiteral(item, 'postgresql')
+    )
+    .join(', ')}]`;
+}
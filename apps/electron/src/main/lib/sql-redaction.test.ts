@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { redactSqlLiterals } from './sql-redaction';
+
+describe('redactSqlLiterals', () => {
+  it('should replace string and number literals', () => {
+    expect(
+      redactSqlLiterals(
+        "SELECT * FROM users WHERE email = 'a@b.com' AND age > 21.5 LIMIT 10"
+      )
+    ).toBe('SELECT * FROM users WHERE email = ? AND age > ? LIMIT ?');
+    expect(redactSqlLiterals("INSERT INTO t VALUES ('it''s', -3, 1e3)")).toBe(
+      'INSERT INTO t VALUES (?, -?, ?)'
+    );
+  });
+
+  it('should keep identifiers, comments and placeholders', () => {
+    expect(
+      redactSqlLiterals(
+        'SELECT "col 1", `t2`.c3 FROM t1 -- id = 5\nWHERE a = ? AND b = ?2 AND c = :name AND d = $1'
+      )
+    ).toBe(
+      'SELECT "col 1", `t2`.c3 FROM t1 -- id = 5\nWHERE a = ? AND b = ?2 AND c = :name AND d = $1'
+    );
+  });
+
+  it('should redact blob, escape and dollar-quoted literals', () => {
+    expect(
+      redactSqlLiterals(
+        "SELECT X'ABCD', E'a\\'b', $$secret$$, $tag$x$tag$, 0xFF"
+      )
+    ).toBe('SELECT ?, ?, ?, ?, ?');
+  });
+});
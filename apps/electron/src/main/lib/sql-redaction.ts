@@ -0,0 +1,86 @@
+/**
+ * Redaction of literal values in SQL written to the audit log, so the log
+ * records what was run without the data it carried.
+ */
+
+import { skipDollarQuoted, skipQuoted } from '@shared/sql-scanner';
+
+const WORD_PART = /[\w$]/;
+const NUMBER = /^(?:0x[\da-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i;
+const BLOB_PREFIX = /^[xbe]'/i;
+
+/**
+ * Replaces string, blob, dollar-quoted and number literals with `?`.
+ * Identifiers, keywords, comments and placeholders such as `$1` or `:name`
+ * are kept. Backslash escapes in strings are honoured whatever the dialect:
+ * outside MySQL they can only make a literal run on, which redacts more
+ * rather than less.
+ */
+export function redactSqlLiterals(sql: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    const previous = i > 0 ? sql[i - 1] : '';
+
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      result += sql.slice(i, stop);
+      i = stop;
+    } else if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      result += sql.slice(i, stop);
+      i = stop;
+    } else if (ch === "'") {
+      result += '?';
+      i = skipQuoted(sql, i, "'", true);
+    } else if (ch === '"' || ch === '`') {
+      const stop = skipQuoted(sql, i, ch, false);
+      result += sql.slice(i, stop);
+      i = stop;
+    } else if (
+      BLOB_PREFIX.test(sql.slice(i, i + 2)) &&
+      !WORD_PART.test(previous)
+    ) {
+      result += '?';
+      i = skipQuoted(sql, i + 1, "'", true);
+    } else if (ch === '$' && !WORD_PART.test(previous)) {
+      const end = skipDollarQuoted(sql, i);
+      if (end !== -1) {
+        result += '?';
+        i = end;
+      } else {
+        // A positional placeholder such as $1
+        const placeholder = /^\$\d+/.exec(sql.slice(i));
+        const length = placeholder ? placeholder[0].length : 1;
+        result += sql.slice(i, i + length);
+        i += length;
+      }
+    } else if (WORD_PART.test(ch) || (ch === '.' && /\d/.test(next ?? ''))) {
+      // Digits after `?` number a placeholder rather than being a value
+      const number =
+        WORD_PART.test(previous) || previous === '?'
+          ? null
+          : NUMBER.exec(sql.slice(i));
+      if (number && !WORD_PART.test(sql[i + number[0].length] ?? '')) {
+        result += '?';
+        i += number[0].length;
+      } else {
+        // Identifiers and keywords, including digits inside them
+        const start = i;
+        while (i < sql.length && WORD_PART.test(sql[i])) i++;
+        if (i === start) i++;
+        result += sql.slice(start, i);
+      }
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+
+  return result;
+}
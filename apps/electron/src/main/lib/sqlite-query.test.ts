@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { splitSqlStatements } from './sqlite-query';
+
+describe('sqlite-query', () => {
+  describe('splitSqlStatements', () => {
+    it('should split statements on semicolons', () => {
+      expect(splitSqlStatements('SELECT 1; SELECT 2;')).toEqual([
+        'SELECT 1',
+        'SELECT 2',
+      ]);
+    });
+
+    it('should keep a trailing statement without a semicolon', () => {
+      expect(splitSqlStatements('SELECT 1;\nSELECT 2')).toEqual([
+        'SELECT 1',
+        'SELECT 2',
+      ]);
+    });
+
+    it('should ignore semicolons inside strings and comments', () => {
+      expect(
+        splitSqlStatements(
+          "INSERT INTO t VALUES ('a;b', 'it''s;'); -- one; two\nSELECT /* ; */ 1"
+        )
+      ).toEqual([
+        "INSERT INTO t VALUES ('a;b', 'it''s;')",
+        '-- one; two\nSELECT /* ; */ 1',
+      ]);
+    });
+
+    it('should skip empty statements', () => {
+      expect(splitSqlStatements(';; SELECT 1 ;  ;')).toEqual(['SELECT 1']);
+    });
+  });
+});
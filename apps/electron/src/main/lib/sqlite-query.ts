@@ -0,0 +1,47 @@
+/**
+ * SQLite helpers that don't depend on the Electron main-process services,
+ * so they can also run inside the SQLite worker threads.
+ */
+
+import { splitSqlStatementRanges } from '@shared/sql-statements';
+import Database from 'better-sqlite3-multiple-ciphers';
+
+/**
+ * What a new handle needs to reopen an already connected database.
+ */
+export interface SqliteOpenOptions {
+  path: string;
+  readOnly: boolean;
+  /** Cipher and key pragmas applied before the first read */
+  keyPragmas: string[];
+}
+
+/**
+ * Split SQL string into individual statements.
+ * Handles semicolons inside strings, comments and trigger bodies.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  return splitSqlStatementRanges(sql, 'sqlite').map(
+    (statement) => statement.sql
+  );
+}
+
+/**
+ * Open a database handle with the path, mode and key of an existing
+ * connection.
+ */
+export function openSqliteDatabase(
+  options: SqliteOpenOptions
+): Database.Database {
+  const db = new Database(options.path, { readonly: options.readOnly });
+  try {
+    for (const pragma of options.keyPragmas) {
+      db.pragma(pragma);
+    }
+    db.prepare('SELECT count(*) FROM sqlite_master').get();
+    return db;
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+}
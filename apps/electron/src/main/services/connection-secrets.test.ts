@@ -0,0 +1,98 @@
+import type { DatabaseConnectionConfig } from '@shared/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  restoreConnectionSecrets,
+  saveConnectionSecrets,
+  stripConnectionSecrets,
+} from './connection-secrets';
+
+const { saved } = vi.hoisted(() => ({ saved: new Map<string, string>() }));
+
+vi.mock('./password-storage', () => ({
+  passwordStorageService: {
+    savePassword: vi.fn((identifier: string, password: string) => {
+      saved.set(identifier, password);
+      return true;
+    }),
+    getPassword: vi.fn((identifier: string) => saved.get(identifier) ?? null),
+  },
+}));
+
+const config: DatabaseConnectionConfig = {
+  type: 'postgresql',
+  host: '10.0.0.12',
+  port: 5432,
+  database: 'app',
+  username: 'app',
+  password: 'db-secret',
+  ssh: {
+    host: 'bastion.example.com',
+    username: 'ops',
+    authMethod: 'privateKey',
+    privateKeyPath: '~/.ssh/id_ed25519',
+    passphrase: 'key-secret',
+    hostKeyVerification: 'known-hosts',
+  },
+};
+
+describe('connection-secrets', () => {
+  beforeEach(() => {
+    saved.clear();
+  });
+
+  it('should strip database and SSH passwords', () => {
+    const stripped = stripConnectionSecrets(config);
+
+    expect(stripped).not.toHaveProperty('password');
+    expect(stripped.ssh).not.toHaveProperty('passphrase');
+    expect(stripped.ssh).toMatchObject({
+      host: 'bastion.example.com',
+      privateKeyPath: '~/.ssh/id_ed25519',
+    });
+    expect(config.password).toBe('db-secret');
+  });
+
+  it('should restore saved passwords into a stripped config', () => {
+    saveConnectionSecrets(config);
+
+    const restored = restoreConnectionSecrets(stripConnectionSecrets(config));
+
+    expect(restored.password).toBe('db-secret');
+    expect(restored.ssh?.passphrase).toBe('key-secret');
+    expect([...saved.keys()]).toEqual([
+      'postgresql://app@10.0.0.12:5432/app',
+      'ssh://ops@bastion.example.com:22/privateKey',
+    ]);
+  });
+
+  it('should prefer passwords present in the config', () => {
+    saveConnectionSecrets(config);
+
+    const restored = restoreConnectionSecrets({
+      ...config,
+      password: 'new-secret',
+    });
+
+    expect(restored.password).toBe('new-secret');
+  });
+
+  it('should keep the Supabase service key out of the config', () => {
+    const supabase: DatabaseConnectionConfig = {
+      type: 'supabase',
+      supabaseUrl: 'https://abc.supabase.co',
+      supabaseServiceKey: 'service-secret',
+      supabaseAnonKey: 'anon-public',
+    };
+    saveConnectionSecrets(supabase);
+
+    const stripped = stripConnectionSecrets(supabase);
+    expect(stripped).not.toHaveProperty('supabaseServiceKey');
+    expect(stripped.supabaseAnonKey).toBe('anon-public');
+
+    const restored = restoreConnectionSecrets(stripped);
+    expect(restored.supabaseServiceKey).toBe('service-secret');
+    expect([...saved.keys()]).toEqual([
+      'supabase-service://https://abc.supabase.co',
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Connection secrets for server databases
+ * Database and SSH passwords and the Supabase service role key never go into the connection config kept with
+ * recent connections and profiles. They are saved through the encrypted
+ * password storage instead and put back when the connection is reopened.
+ */
+
+import type { DatabaseConnectionConfig, SshTunnelConfig } from '@shared/types';
+import { passwordStorageService } from './password-storage';
+
+/**
+ * Password storage identifier of a server database login.
+ */
+export function getServerSecretIdentifier(
+  config: DatabaseConnectionConfig
+): string {
+  if (config.type === 'supabase') {
+    return `supabase://${config.supabaseUrl ?? ''}`;
+  }
+  return `${config.type}://${config.username ?? ''}@${config.host ?? ''}:${config.port ?? ''}/${config.database ?? ''}`;
+}
+
+/**
+ * Password storage identifier of a Supabase service role key. The anon key is
+ * public by design and stays in the config.
+ */
+export function getSupabaseServiceKeyIdentifier(
+  config: DatabaseConnectionConfig
+): string {
+  return `supabase-service://${config.supabaseUrl ?? ''}`;
+}
+
+/**
+ * Password storage identifier of an SSH login. The secret is the password or
+ * the private key passphrase, depending on the authentication method, so a
+ * bastion shared by several databases is stored once.
+ */
+export function getSshSecretIdentifier(ssh: SshTunnelConfig): string {
+  return `ssh://${ssh.username}@${ssh.host}:${ssh.port || 22}/${ssh.authMethod}`;
+}
+
+function getSshSecret(ssh: SshTunnelConfig): string | undefined {
+  return ssh.authMethod === 'privateKey' ? ssh.passphrase : ssh.password;
+}
+
+function getServerSecret(config: DatabaseConnectionConfig): string | undefined {
+  return config.type === 'supabase' ? config.supabaseKey : config.password;
+}
+
+/**
+ * Save the passwords of a server connection config.
+ */
+export function saveConnectionSecrets(config: DatabaseConnectionConfig): void {
+  if (config.type === 'sqlite') return;
+
+  const serverSecret = getServerSecret(config);
+  if (serverSecret) {
+    passwordStorageService.savePassword(
+      getServerSecretIdentifier(config),
+      serverSecret
+    );
+  }
+
+  if (config.type === 'supabase' && config.supabaseServiceKey) {
+    passwordStorageService.savePassword(
+      getSupabaseServiceKeyIdentifier(config),
+      config.supabaseServiceKey
+    );
+  }
+
+  const sshSecret = config.ssh && getSshSecret(config.ssh);
+  if (config.ssh && sshSecret) {
+    passwordStorageService.savePassword(
+      getSshSecretIdentifier(config.ssh),
+      sshSecret
+    );
+  }
+}
+
+/**
+ * Copy of a connection config without any passwords, safe to persist.
+ */
+export function stripConnectionSecrets(
+  config: DatabaseConnectionConfig
+): DatabaseConnectionConfig {
+  const {
+    password: _password,
+    supabaseKey: _supabaseKey,
+    supabaseServiceKey: _supabaseServiceKey,
+    ...rest
+  } = config;
+  if (!config.ssh) return rest;
+
+  const {
+    password: _sshPassword,
+    passphrase: _passphrase,
+    ...ssh
+  } = config.ssh;
+  return { ...rest, ssh };
+}
+
+/**
+ * Fill in passwords missing from a connection config from password storage.
+ * Passwords that are present are kept, so a re-entered password wins.
+ */
+export function restoreConnectionSecrets(
+  config: DatabaseConnectionConfig
+): DatabaseConnectionConfig {
+  if (config.type === 'sqlite') return config;
+
+  const restored = { ...config };
+
+  if (!getServerSecret(config)) {
+    const serverSecret = passwordStorageService.getPassword(
+      getServerSecretIdentifier(config)
+    );
+    if (serverSecret) {
+      if (config.type === 'supabase') {
+        restored.supabaseKey = serverSecret;
+      } else {
+        restored.password = serverSecret;
+      }
+    }
+  }
+
+  if (config.type === 'supabase' && !config.supabaseServiceKey) {
+    const serviceKey = passwordStorageService.getPassword(
+      getSupabaseServiceKeyIdentifier(config)
+    );
+    if (serviceKey) {
+      restored.supabaseServiceKey = serviceKey;
+    }
+  }
+
+  if (config.ssh && !getSshSecret(config.ssh)) {
+    const sshSecret = passwordStorageService.getPassword(
+      getSshSecretIdentifier(config.ssh)
+    );
+    if (sshSecret) {
+      restored.ssh =
+        config.ssh.authMethod === 'privateKey'
+          ? { ...config.ssh, passphrase: sshSecret }
+          : { ...config.ssh, password: sshSecret };
+    }
+  }
+
+  return restored;
+}
@@ -0,0 +1,213 @@
+import type { DataComparisonResult, RowDiff } from '@shared/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { dataDiffSyncGeneratorService } from './data-diff-sync-generator';
+
+const { executeAsync, getConnectionType, withSessionAsync } = vi.hoisted(
+  () => ({
+    executeAsync: vi.fn(),
+    getConnectionType: vi.fn(),
+    withSessionAsync: vi.fn(),
+  })
+);
+
+vi.mock('./database', () => ({
+  databaseManager: { executeAsync, getConnectionType, withSessionAsync },
+}));
+
+function createComparison(
+  rowDiffs: RowDiff[],
+  overrides: Partial<DataComparisonResult> = {}
+): DataComparisonResult {
+  return {
+    sourceId: 'source',
+    sourceName: 'source',
+    sourceTable: 'users',
+    sourceSchema: '',
+    targetId: 'target',
+    targetName: 'target',
+    targetTable: 'users',
+    targetSchema: '',
+    comparedAt: new Date().toISOString(),
+    primaryKeys: ['id'],
+    rowDiffs,
+    summary: {
+      sourceRows: 0,
+      targetRows: 0,
+      rowsAdded: 0,
+      rowsRemoved: 0,
+      rowsModified: 0,
+      rowsUnchanged: 0,
+    },
+    ...overrides,
+  };
+}
+
+// Rows only in the source are reported as 'removed' by the data diff
+const sourceOnly: RowDiff = {
+  primaryKey: { id: 1 },
+  diffType: 'removed',
+  sourceRow: { id: 1, name: "O'Brien", active: true },
+  targetRow: null,
+};
+
+const targetOnly: RowDiff = {
+  primaryKey: { id: 2 },
+  diffType: 'added',
+  sourceRow: null,
+  targetRow: { id: 2, name: 'Old', active: false },
+};
+
+const modified: RowDiff = {
+  primaryKey: { id: 3 },
+  diffType: 'modified',
+  sourceRow: { id: 3, name: 'New', active: true },
+  targetRow: { id: 3, name: 'Old', active: true },
+  columnChanges: [
+    { columnName: 'name', sourceValue: 'New', targetValue: 'Old' },
+  ],
+};
+
+describe('dataDiffSyncGeneratorService', () => {
+  describe('generateSyncSQL', () => {
+    it('should insert source-only rows and delete target-only rows', () => {
+      const result = dataDiffSyncGeneratorService.generateSyncSQL({
+        comparisonResult: createComparison([sourceOnly, targetOnly, modified], {
+          targetDatabaseType: 'sqlite',
+        }),
+        includeDeletes: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.statements).toEqual([
+        'DELETE FROM "users" WHERE "id" = 2',
+        `UPDATE "users" SET "name" = 'New' WHERE "id" = 3`,
+        `INSERT INTO "users" ("id", "name", "active") VALUES (1, 'O''Brien', 1)`,
+      ]);
+    });
+
+    it('should quote identifiers and literals for mysql', () => {
+      const result = dataDiffSyncGeneratorService.generateSyncSQL({
+        comparisonResult: createComparison([sourceOnly], {
+          targetSchema: 'shop',
+        }),
+        databaseType: 'mysql',
+        useUpsert: true,
+      });
+
+      expect(result.statements).toEqual([
+        "INSERT INTO `shop`.`users` (`id`, `name`, `active`) VALUES (1, 'O''Brien', 1)" +
+          ' ON DUPLICATE KEY UPDATE `name` = VALUES(`name`), `active` = VALUES(`active`)',
+      ]);
+    });
+
+    it('should write postgresql upserts with typed literals', () => {
+      const result = dataDiffSyncGeneratorService.generateSyncSQL({
+        comparisonResult: createComparison(
+          [
+            {
+              ...sourceOnly,
+              sourceRow: { id: 1, tags: ['a'], meta: { x: 1 }, active: true },
+            },
+          ],
+          { targetDatabaseType: 'postgresql' }
+        ),
+        columnTypes: { tags: 'text[]', meta: 'jsonb' },
+        useUpsert: true,
+      });
+
+      expect(result.statements).toEqual([
+        `INSERT INTO "public"."users" ("id", "tags", "meta", "active") VALUES (1, ARRAY['a']::text[], '{"x":1}'::jsonb, TRUE)` +
+          ' ON CONFLICT ("id") DO UPDATE SET "tags" = excluded."tags", "meta" = excluded."meta", "active" = excluded."active"',
+      ]);
+    });
+
+    it('should do nothing on conflict when every column is a key', () => {
+      const result = dataDiffSyncGeneratorService.generateSyncSQL({
+        comparisonResult: createComparison(
+          [{ ...sourceOnly, sourceRow: { id: 1 } }],
+          { targetDatabaseType: 'sqlite' }
+        ),
+        useUpsert: true,
+      });
+
+      expect(result.statements).toEqual([
+        'INSERT INTO "users" ("id") VALUES (1) ON CONFLICT ("id") DO NOTHING',
+      ]);
+    });
+  });
+
+  describe('applySyncSQL', () => {
+    beforeEach(() => {
+      executeAsync.mockReset();
+      getConnectionType.mockReturnValue('postgresql');
+      let sessions = 0;
+      withSessionAsync.mockImplementation(
+        async (_id: string, work: (sessionId: string) => Promise<unknown>) =>
+          work(`session-${++sessions}`)
+      );
+    });
+
+    it('should run the whole transaction on one session', async () => {
+      executeAsync.mockImplementation(async (_id: string, sql: string) =>
+        sql === 'UPDATE b'
+          ? { success: false, error: 'constraint violation' }
+          : { success: true }
+      );
+
+      await dataDiffSyncGeneratorService.applySyncSQL('target', [
+        'UPDATE a',
+        'UPDATE b',
+      ]);
+
+      const sessionIds = executeAsync.mock.calls.map(
+        (call) => call[3]?.sessionId
+      );
+      expect(sessionIds).toHaveLength(4);
+      expect(new Set(sessionIds)).toEqual(new Set(['session-1']));
+    });
+
+    it('should run statements in a transaction', async () => {
+      executeAsync.mockResolvedValue({ success: true });
+
+      const result = await dataDiffSyncGeneratorService.applySyncSQL('target', [
+        'UPDATE a',
+        'UPDATE b',
+      ]);
+
+      expect(result).toEqual({ success: true, statementsExecuted: 2 });
+      expect(executeAsync.mock.calls.map((call) => call[1])).toEqual([
+        'BEGIN',
+        'UPDATE a',
+        'UPDATE b',
+        'COMMIT',
+      ]);
+    });
+
+    it('should roll back when a statement fails', async () => {
+      executeAsync.mockImplementation(async (_id: string, sql: string) =>
+        sql === 'UPDATE b'
+          ? { success: false, error: 'constraint violation' }
+          : { success: true }
+      );
+
+      const result = await dataDiffSyncGeneratorService.applySyncSQL('target', [
+        'UPDATE a',
+        'UPDATE b',
+        'UPDATE c',
+      ]);
+
+      expect(result).toEqual({
+        success: false,
+        statementsExecuted: 1,
+        failedStatement: 2,
+        error: 'constraint violation',
+      });
+      expect(executeAsync.mock.calls.map((call) => call[1])).toEqual([
+        'BEGIN',
+        'UPDATE a',
+        'UPDATE b',
+        'ROLLBACK',
+      ]);
+    });
+  });
+});
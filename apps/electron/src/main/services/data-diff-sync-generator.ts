@@ -1,13 +1,42 @@
 import type {
+  ApplySyncSQLResponse,
   GenerateSyncSQLRequest,
   GenerateSyncSQLResponse,
   RowDiff,
+  SqlDialect,
 } from '@shared/types';
-import { Buffer } from 'node:buffer';
+import {
+  formatLiteral,
+  getDialect,
+  qualifyTableName,
+  quoteIdentifier,
+} from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+import { tableReaderService } from './table-reader';
+
+const BEGIN_STATEMENTS: Record<SqlDialect, string> = {
+  sqlite: 'BEGIN',
+  mysql: 'START TRANSACTION',
+  postgresql: 'BEGIN',
+};
+
+/**
+ * Identifier quoting, literal formatting and column types for the target
+ * table of a sync script.
+ */
+interface SyncTarget {
+  table: string;
+  dialect: SqlDialect;
+  primaryKeys: string[];
+  columnTypes: Record<string, string>;
+}
 
 /**
  * Service for generating SQL sync statements from data comparison results.
  * Generates INSERT, UPDATE, and DELETE statements to sync target to match source.
+ *
+ * Statements are written for the target's dialect. Rows that only exist in
+ * the source are inserted, rows that only exist in the target are deleted.
  */
 class DataDiffSyncGeneratorService {
   /**
@@ -22,6 +51,7 @@ class DataDiffSyncGeneratorService {
         includeInserts = true,
         includeUpdates = true,
         includeDeletes = false, // Default to false for safety
+        useUpsert = false,
       } = request;
 
       if (!comparisonResult) {
@@ -33,6 +63,19 @@ class DataDiffSyncGeneratorService {
 
       const statements: string[] = [];
       const warnings: string[] = [];
+      const dialect = getDialect(
+        request.databaseType ?? comparisonResult.targetDatabaseType
+      );
+      const target: SyncTarget = {
+        table: qualifyTableName(
+          comparisonResult.targetTable,
+          comparisonResult.targetSchema,
+          dialect
+        ),
+        dialect,
+        primaryKeys: comparisonResult.primaryKeys,
+        columnTypes: request.columnTypes ?? {},
+      };
 
       // Get the rows to process (filtered by selectedRows if provided)
       const rowsToProcess = this.filterRowsBySelection(
@@ -45,23 +88,16 @@ class DataDiffSyncGeneratorService {
       // 2. UPDATE statements (modify existing rows to match source)
       // 3. INSERT statements (add rows that exist in source but not target)
 
-      // Phase 1: Generate DELETE statements for removed rows
+      // Phase 1: Generate DELETE statements for rows only in target
       if (includeDeletes) {
-        for (const rowDiff of rowsToProcess) {
-          if (rowDiff.diffType === 'removed') {
-            const deleteStmt = this.generateDeleteStatement(
-              comparisonResult.targetTable,
-              comparisonResult.targetSchema,
-              rowDiff,
-              comparisonResult.primaryKeys
-            );
-            statements.push(deleteStmt);
-          }
+        const rowsToDelete = rowsToProcess.filter(
+          (r) => r.targetRow && !r.sourceRow
+        );
+        for (const rowDiff of rowsToDelete) {
+          statements.push(this.generateDeleteStatement(target, rowDiff));
         }
 
-        const deleteCount = rowsToProcess.filter(
-          (r) => r.diffType === 'removed'
-        ).length;
+        const deleteCount = rowsToDelete.length;
         if (deleteCount > 0) {
           warnings.push(
             `${deleteCount} row(s) will be deleted from target table. ` +
@@ -74,27 +110,18 @@ class DataDiffSyncGeneratorService {
       if (includeUpdates) {
         for (const rowDiff of rowsToProcess) {
           if (rowDiff.diffType === 'modified') {
-            const updateStmt = this.generateUpdateStatement(
-              comparisonResult.targetTable,
-              comparisonResult.targetSchema,
-              rowDiff,
-              comparisonResult.primaryKeys
-            );
-            statements.push(updateStmt);
+            statements.push(this.generateUpdateStatement(target, rowDiff));
           }
         }
       }
 
-      // Phase 3: Generate INSERT statements for added rows
+      // Phase 3: Generate INSERT statements for rows only in source
       if (includeInserts) {
         for (const rowDiff of rowsToProcess) {
-          if (rowDiff.diffType === 'added') {
-            const insertStmt = this.generateInsertStatement(
-              comparisonResult.targetTable,
-              comparisonResult.targetSchema,
-              rowDiff
+          if (rowDiff.sourceRow && !rowDiff.targetRow) {
+            statements.push(
+              this.generateInsertStatement(target, rowDiff, useUpsert)
             );
-            statements.push(insertStmt);
           }
         }
       }
@@ -150,39 +177,123 @@ class DataDiffSyncGeneratorService {
   }
 
   /**
-   * Generate INSERT statement for an added row.
+   * Run sync statements against a connection in a single transaction.
+   * The transaction is rolled back if any statement fails.
+   */
+  async applySyncSQL(
+    connectionId: string,
+    statements: string[]
+  ): Promise<ApplySyncSQLResponse> {
+    if (!tableReaderService.getConnectionType(connectionId)) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const dialect = tableReaderService.getConnectionDialect(connectionId);
+    // BEGIN, the statements and COMMIT or ROLLBACK must reach one session
+    return databaseManager.withSessionAsync(connectionId, async (sessionId) => {
+      const begin = await this.run(
+        connectionId,
+        sessionId,
+        BEGIN_STATEMENTS[dialect]
+      );
+      if (!begin.success) {
+        return { success: false, error: begin.error };
+      }
+
+      for (let i = 0; i < statements.length; i++) {
+        const result = await this.run(connectionId, sessionId, statements[i]);
+        if (!result.success) {
+          await this.run(connectionId, sessionId, 'ROLLBACK');
+          return {
+            success: false,
+            statementsExecuted: i,
+            failedStatement: i + 1,
+            error: result.error,
+          };
+        }
+      }
+
+      const commit = await this.run(connectionId, sessionId, 'COMMIT');
+      if (!commit.success) {
+        await this.run(connectionId, sessionId, 'ROLLBACK');
+        return { success: false, error: commit.error };
+      }
+
+      return { success: true, statementsExecuted: statements.length };
+    });
+  }
+
+  /**
+   * Generate INSERT statement for a row that only exists in the source.
+   * With upsert enabled, rows that already exist in the target are updated
+   * instead of failing on the primary key.
    */
   private generateInsertStatement(
-    tableName: string,
-    schema: string,
-    rowDiff: RowDiff
+    target: SyncTarget,
+    rowDiff: RowDiff,
+    useUpsert: boolean
   ): string {
     if (!rowDiff.sourceRow) {
       throw new Error('Cannot generate INSERT: source row is null');
     }
 
-    const fullTableName =
-      schema && schema !== 'main' ? `${schema}.${tableName}` : tableName;
-
     const columns = Object.keys(rowDiff.sourceRow);
     const values = columns.map((col) =>
-      this.formatValue(rowDiff.sourceRow![col])
+      this.formatValue(target, col, rowDiff.sourceRow![col])
     );
 
-    const columnList = columns.join(', ');
+    const columnList = columns
+      .map((col) => quoteIdentifier(col, target.dialect))
+      .join(', ');
     const valueList = values.join(', ');
 
-    return `INSERT INTO ${fullTableName} (${columnList}) VALUES (${valueList})`;
+    const insert = `INSERT INTO ${target.table} (${columnList}) VALUES (${valueList})`;
+    return useUpsert
+      ? `${insert}${this.buildUpsertClause(target, columns)}`
+      : insert;
+  }
+
+  /**
+   * Build the conflict clause that turns an INSERT into an upsert.
+   */
+  private buildUpsertClause(target: SyncTarget, columns: string[]): string {
+    const { dialect, primaryKeys } = target;
+    const updateColumns = columns.filter((col) => !primaryKeys.includes(col));
+
+    if (dialect === 'mysql') {
+      // MySQL needs at least one assignment; re-assigning a key is a no-op
+      const assigned = updateColumns.length > 0 ? updateColumns : primaryKeys;
+      const assignments = assigned
+        .map((col) => {
+          const quoted = quoteIdentifier(col, dialect);
+          return `${quoted} = VALUES(${quoted})`;
+        })
+        .join(', ');
+      return ` ON DUPLICATE KEY UPDATE ${assignments}`;
+    }
+
+    const conflictTarget = primaryKeys
+      .map((col) => quoteIdentifier(col, dialect))
+      .join(', ');
+    if (updateColumns.length === 0) {
+      return ` ON CONFLICT (${conflictTarget}) DO NOTHING`;
+    }
+
+    const assignments = updateColumns
+      .map((col) => {
+        const quoted = quoteIdentifier(col, dialect);
+        return `${quoted} = excluded.${quoted}`;
+      })
+      .join(', ');
+    return ` ON CONFLICT (${conflictTarget}) DO UPDATE SET ${assignments}`;
   }
 
   /**
    * Generate UPDATE statement for a modified row.
    */
   private generateUpdateStatement(
-    tableName: string,
-    schema: string,
-    rowDiff: RowDiff,
-    primaryKeys: string[]
+    target: SyncTarget,
+    rowDiff: RowDiff
   ): string {
     if (!rowDiff.sourceRow || !rowDiff.columnChanges) {
       throw new Error(
@@ -190,101 +301,86 @@ class DataDiffSyncGeneratorService {
       );
     }
 
-    const fullTableName =
-      schema && schema !== 'main' ? `${schema}.${tableName}` : tableName;
-
     // Build SET clause from changed columns
     const setClause = rowDiff.columnChanges
       .map((change) => {
-        const value = this.formatValue(change.sourceValue);
-        return `${change.columnName} = ${value}`;
+        const value = this.formatValue(
+          target,
+          change.columnName,
+          change.sourceValue
+        );
+        return `${quoteIdentifier(change.columnName, target.dialect)} = ${value}`;
       })
       .join(', ');
 
     // Build WHERE clause from primary key
-    const whereClause = this.buildWhereClause(rowDiff.primaryKey, primaryKeys);
+    const whereClause = this.buildWhereClause(target, rowDiff.primaryKey);
 
-    return `UPDATE ${fullTableName} SET ${setClause} WHERE ${whereClause}`;
+    return `UPDATE ${target.table} SET ${setClause} WHERE ${whereClause}`;
   }
 
   /**
-   * Generate DELETE statement for a removed row.
+   * Generate DELETE statement for a row that only exists in the target.
    */
   private generateDeleteStatement(
-    tableName: string,
-    schema: string,
-    rowDiff: RowDiff,
-    primaryKeys: string[]
+    target: SyncTarget,
+    rowDiff: RowDiff
   ): string {
-    const fullTableName =
-      schema && schema !== 'main' ? `${schema}.${tableName}` : tableName;
-
     // Build WHERE clause from primary key
-    const whereClause = this.buildWhereClause(rowDiff.primaryKey, primaryKeys);
+    const whereClause = this.buildWhereClause(target, rowDiff.primaryKey);
 
-    return `DELETE FROM ${fullTableName} WHERE ${whereClause}`;
+    return `DELETE FROM ${target.table} WHERE ${whereClause}`;
   }
 
   /**
    * Build WHERE clause from primary key values.
    */
   private buildWhereClause(
-    primaryKey: Record<string, unknown>,
-    primaryKeyColumns: string[]
+    target: SyncTarget,
+    primaryKey: Record<string, unknown>
   ): string {
-    return primaryKeyColumns
+    return target.primaryKeys
       .map((col) => {
         const value = primaryKey[col];
+        const quoted = quoteIdentifier(col, target.dialect);
         // Handle NULL values
         if (value === null || value === undefined) {
-          return `${col} IS NULL`;
+          return `${quoted} IS NULL`;
         }
-        return `${col} = ${this.formatValue(value)}`;
+        return `${quoted} = ${this.formatValue(target, col, value)}`;
       })
       .join(' AND ');
   }
 
   /**
-   * Format a value for SQL statement.
-   * Handles NULL, strings, numbers, booleans, and other types.
+   * Format a value as a literal for the target dialect and column type.
    */
-  private formatValue(value: unknown): string {
-    // Handle NULL
-    if (value === null || value === undefined) {
-      return 'NULL';
-    }
-
-    // Handle numbers and booleans
-    if (typeof value === 'number' || typeof value === 'boolean') {
-      return String(value);
-    }
-
-    // Handle strings - escape single quotes
-    if (typeof value === 'string') {
-      return `'${this.escapeString(value)}'`;
-    }
-
-    // Handle Buffer (BLOB data)
-    if (Buffer.isBuffer(value)) {
-      // Convert to hex string for SQLite BLOB
-      return `X'${value.toString('hex')}'`;
-    }
-
-    // Handle objects/arrays - convert to JSON string
-    if (typeof value === 'object') {
-      return `'${this.escapeString(JSON.stringify(value))}'`;
-    }
-
-    // Fallback: convert to string
-    return `'${this.escapeString(String(value))}'`;
+  private formatValue(
+    target: SyncTarget,
+    column: string,
+    value: unknown
+  ): string {
+    return formatLiteral(value, target.dialect, target.columnTypes[column]);
   }
 
   /**
-   * Escape single quotes in SQL string values.
+   * Run a statement through the database manager.
    */
-  private escapeString(str: string): string {
-    // In SQLite, single quotes are escaped by doubling them
-    return str.replace(/'/g, "''");
+  private async run(
+    connectionId: string,
+    sessionId: string,
+    sql: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const result = await databaseManager.executeAsync(
+      connectionId,
+      sql,
+      undefined,
+      { sessionId }
+    );
+
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error };
   }
 }
 
@@ -0,0 +1,261 @@
+import type {
+  DataDiffProgressEvent,
+  SqlDialect,
+  TableInfo,
+} from '@shared/types';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dataDiffService } from './data-diff';
+
+/**
+ * Stand-in for the table reader: each connection is an in-memory SQLite
+ * database that may claim to be PostgreSQL. PostgreSQL placeholders and the
+ * public schema are rewritten for SQLite, and chunk checksums are computed
+ * from the rows the checksum query selects.
+ */
+const { connections, queries } = vi.hoisted(() => ({
+  connections: new Map<
+    string,
+    { db: import('better-sqlite3-multiple-ciphers').Database; dialect: string }
+  >(),
+  queries: [] as string[],
+}));
+
+vi.mock('./table-reader', () => ({
+  tableReaderService: {
+    getConnectionType: (id: string) => connections.get(id)?.dialect ?? null,
+    getConnectionDialect: (id: string) => connections.get(id)!.dialect,
+    getTableStructure: async (id: string, table: string) => {
+      const { db } = connections.get(id)!;
+      const columns = db.pragma(`table_info("${table}")`) as {
+        name: string;
+        type: string;
+        notnull: number;
+        pk: number;
+      }[];
+      return {
+        name: table,
+        schema: 'main',
+        type: 'table',
+        columns: columns.map((c) => ({
+          name: c.name,
+          type: c.type,
+          nullable: c.notnull === 0,
+          defaultValue: null,
+          isPrimaryKey: c.pk > 0,
+        })),
+        primaryKey: columns
+          .filter((c) => c.pk > 0)
+          .sort((a, b) => a.pk - b.pk)
+          .map((c) => c.name),
+        foreignKeys: [],
+        indexes: [],
+        triggers: [],
+        sql: '',
+      } satisfies TableInfo;
+    },
+    query: async (id: string, sql: string, params: unknown[] = []) => {
+      queries.push(sql);
+      const { db } = connections.get(id)!;
+      const text = sql.replace(/"public"\./g, '').replace(/\$\d+/g, '?');
+      if (text.includes('row_hash')) {
+        const rows = db
+          .prepare(`SELECT * ${text.slice(text.indexOf(' FROM '))}`)
+          .all(...params);
+        return [{ row_count: rows.length, row_hash: JSON.stringify(rows) }];
+      }
+      return db.prepare(text).all(...params);
+    },
+  },
+}));
+
+vi.mock('./database', () => ({
+  databaseManager: { getConnection: () => null },
+}));
+
+function connect(id: string, dialect: SqlDialect, setup: string) {
+  const db = new Database(':memory:');
+  db.exec(setup);
+  connections.set(id, { db, dialect });
+}
+
+const ITEMS = 'CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT);';
+
+function insertItems(count: number, name = (id: number) => `item ${id}`) {
+  const values = Array.from(
+    { length: count },
+    (_, i) => `(${i + 1}, '${name(i + 1)}')`
+  );
+  return `${ITEMS} INSERT INTO items VALUES ${values.join(', ')};`;
+}
+
+function request(overrides: Record<string, unknown> = {}) {
+  return {
+    diffId: 'diff-1',
+    sourceConnectionId: 'source',
+    sourceTable: 'items',
+    targetConnectionId: 'target',
+    targetTable: 'items',
+    ...overrides,
+  };
+}
+
+async function collect(overrides: Record<string, unknown> = {}) {
+  const events: DataDiffProgressEvent[] = [];
+  const response = await dataDiffService.streamTableDiff(
+    request(overrides),
+    (progress) => events.push(progress)
+  );
+  return { response, rowDiffs: events.flatMap((e) => e.rowDiffs), events };
+}
+
+describe('dataDiffService', () => {
+  beforeEach(() => {
+    queries.length = 0;
+  });
+
+  afterEach(() => {
+    for (const { db } of connections.values()) db.close();
+    connections.clear();
+  });
+
+  it('should find added, removed and modified rows across chunks', async () => {
+    connect('source', 'sqlite', insertItems(5));
+    connect(
+      'target',
+      'sqlite',
+      `${insertItems(4, (id) => (id === 3 ? 'changed' : `item ${id}`))}
+       DELETE FROM items WHERE id = 1;
+       INSERT INTO items VALUES (6, 'item 6');`
+    );
+
+    const { response, rowDiffs } = await collect({ chunkSize: 2 });
+
+    expect(response.result?.summary).toEqual({
+      sourceRows: 5,
+      targetRows: 4,
+      rowsAdded: 1,
+      rowsRemoved: 2,
+      rowsModified: 1,
+      rowsUnchanged: 2,
+    });
+    expect(rowDiffs.map((d) => [d.primaryKey.id, d.diffType])).toEqual([
+      [1, 'removed'],
+      [3, 'modified'],
+      [5, 'removed'],
+      [6, 'added'],
+    ]);
+    expect(rowDiffs[1].columnChanges).toEqual([
+      { columnName: 'name', sourceValue: 'item 3', targetValue: 'changed' },
+    ]);
+  });
+
+  it('should page through composite keys with row value comparisons', async () => {
+    const setup = `CREATE TABLE items (a INTEGER NOT NULL, b TEXT NOT NULL, v TEXT, PRIMARY KEY (a, b));
+      INSERT INTO items VALUES (1, 'x', '1'), (1, 'y', '2'), (2, 'x', '3'), (2, 'y', '4'), (3, 'x', '5');`;
+    connect('source', 'sqlite', setup);
+    connect(
+      'target',
+      'sqlite',
+      `${setup} UPDATE items SET v = 'changed' WHERE a = 2 AND b = 'y';`
+    );
+
+    const { response, rowDiffs } = await collect({ chunkSize: 2 });
+
+    expect(response.result?.summary.rowsUnchanged).toBe(4);
+    expect(rowDiffs.map((d) => d.primaryKey)).toEqual([{ a: 2, b: 'y' }]);
+    expect(queries).toContain(
+      'SELECT * FROM "items" WHERE ("a", "b" COLLATE BINARY) > (?, ?) ORDER BY "a", "b" COLLATE BINARY LIMIT 2'
+    );
+  });
+
+  it('should stop streaming row diffs at maxRowDiffs but keep counting', async () => {
+    connect('source', 'sqlite', insertItems(5));
+    connect('target', 'sqlite', ITEMS);
+
+    const { response, rowDiffs } = await collect({ maxRowDiffs: 2 });
+
+    expect(response.truncated).toBe(true);
+    expect(rowDiffs).toHaveLength(2);
+    expect(response.result?.summary.rowsRemoved).toBe(5);
+  });
+
+  it('should skip chunks whose checksums match', async () => {
+    connect('source', 'postgresql', insertItems(5));
+    connect(
+      'target',
+      'postgresql',
+      insertItems(5, (id) => (id === 5 ? 'changed' : `item ${id}`))
+    );
+
+    const { response, rowDiffs, events } = await collect({
+      chunkSize: 2,
+      useChunkHashes: true,
+    });
+
+    expect(rowDiffs.map((d) => d.primaryKey.id)).toEqual([5]);
+    expect(events.at(-1)?.chunksSkipped).toBe(2);
+    expect(response.result?.summary.rowsUnchanged).toBe(4);
+    // Only the last chunk, which holds the changed row, is read row by row
+    expect(queries.filter((q) => q.startsWith('SELECT * FROM'))).toEqual([
+      'SELECT * FROM "public"."items" WHERE "id" > $1 ORDER BY "id" LIMIT 2',
+      'SELECT * FROM "public"."items" WHERE "id" > $1 ORDER BY "id" LIMIT 2',
+    ]);
+  });
+
+  it('should refuse key columns with NULL values', async () => {
+    const setup = `CREATE TABLE items (code TEXT, name TEXT);
+      INSERT INTO items VALUES ('a', '1'), (NULL, '2');`;
+    connect('source', 'sqlite', setup);
+    connect('target', 'sqlite', setup);
+
+    await expect(collect({ primaryKeys: ['code'] })).rejects.toThrow(
+      'Key column "code" has NULL values in table "items"'
+    );
+  });
+
+  it('should return only the requested page of compareTableData', async () => {
+    connect('source', 'sqlite', insertItems(5));
+    connect(
+      'target',
+      'sqlite',
+      insertItems(5, (id) => (id === 4 ? 'changed' : `item ${id}`))
+    );
+
+    const result = await dataDiffService.compareTableData(
+      'source',
+      'items',
+      '',
+      'target',
+      'items',
+      '',
+      [],
+      { page: 1, pageSize: 2 }
+    );
+
+    expect(result.rowDiffs.map((d) => [d.primaryKey.id, d.diffType])).toEqual([
+      [3, 'unchanged'],
+      [4, 'modified'],
+    ]);
+    expect(result.summary.rowsUnchanged).toBe(4);
+  });
+
+  it('should stop a running diff when it is cancelled', async () => {
+    connect('source', 'sqlite', insertItems(10));
+    connect('target', 'sqlite', ITEMS);
+
+    const response = await dataDiffService.streamTableDiff(
+      request({ chunkSize: 2 }),
+      () => {
+        dataDiffService.cancel('diff-1');
+      }
+    );
+
+    expect(response).toEqual({
+      success: false,
+      cancelled: true,
+      error: 'Comparison cancelled',
+    });
+    expect(dataDiffService.cancel('diff-1')).toBe(false);
+  });
+});
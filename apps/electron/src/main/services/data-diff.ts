@@ -1,19 +1,87 @@
 import type {
-  ColumnChange,
   DataComparisonPagination,
   DataComparisonResult,
+  DataComparisonSummary,
+  DataDiffProgressEvent,
   RowDiff,
+  SqlDialect,
+  StreamTableDiffRequest,
+  StreamTableDiffResponse,
+  TableInfo,
 } from '@shared/types';
-import databaseService from './database';
+import type { DiffRow, KeyKind } from '@/lib/row-diff';
+import { randomUUID } from 'node:crypto';
+import {
+  createRowKeyComparator,
+  detectColumnChanges,
+  getKeyKind,
+  keyOrderExpression,
+  mergeJoinRows,
+} from '@/lib/row-diff';
+import {
+  bindPlaceholder,
+  qualifyTableName,
+  quoteIdentifier,
+} from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+import { tableReaderService } from './table-reader';
+
+const DEFAULT_CHUNK_SIZE = 5000;
+
+const DEFAULT_MAX_ROW_DIFFS = 100_000;
+
+/** Row diffs buffered before a progress event is sent */
+const PROGRESS_BATCH_SIZE = 500;
+
+/**
+ * One side of a table diff.
+ */
+interface DiffSide {
+  connectionId: string;
+  table: string;
+  schema?: string;
+  dialect: SqlDialect;
+  structure: TableInfo;
+  /** Order-by kind of each key column on this side */
+  keyKinds: KeyKind[];
+}
+
+/**
+ * Running state of a streamed diff.
+ */
+interface DiffState {
+  summary: DataComparisonSummary;
+  pending: RowDiff[];
+  rowDiffsSkipped: number;
+  rowDiffsSent: number;
+  truncated: boolean;
+  chunksSkipped: number;
+  lastProgressRows: number;
+}
+
+class DiffCancelledError extends Error {
+  constructor() {
+    super('Comparison cancelled');
+  }
+}
 
 /**
  * Service for comparing table data between two tables.
  * Supports comparing tables in the same or different database connections.
+ *
+ * Both tables are read in key order in chunks and walked side by side
+ * (merge join), so memory use does not depend on table size. When both
+ * connections use the same server dialect, chunks can be checksummed first
+ * and chunks with matching checksums are skipped without reading their rows.
  */
 class DataDiffService {
+  private activeDiffs = new Map<string, AbortController>();
+
   /**
    * Compare data between two tables and generate a comprehensive diff.
    * Matches rows by primary key and detects added, removed, and modified rows.
+   * The whole table is compared for the summary, but only the row diffs of
+   * the requested page are kept.
    */
   async compareTableData(
     sourceConnectionId: string,
@@ -25,334 +93,604 @@ class DataDiffService {
     primaryKeys: string[],
     pagination?: DataComparisonPagination
   ): Promise<DataComparisonResult> {
-    // Fetch data from both tables
-    const sourceData = await this.fetchTableData(
-      sourceConnectionId,
-      sourceTable,
-      sourceSchema,
-      pagination
-    );
-
-    const targetData = await this.fetchTableData(
-      targetConnectionId,
-      targetTable,
-      targetSchema,
-      pagination
+    const pageSize = pagination?.pageSize ?? 10000;
+    const rowDiffs: RowDiff[] = [];
+    const response = await this.streamTableDiff(
+      {
+        diffId: randomUUID(),
+        sourceConnectionId,
+        sourceTable,
+        sourceSchema,
+        targetConnectionId,
+        targetTable,
+        targetSchema,
+        primaryKeys,
+        includeUnchanged: true,
+        skipRowDiffs: (pagination?.page ?? 0) * pageSize,
+        maxRowDiffs: pageSize,
+      },
+      (progress) => {
+        rowDiffs.push(...progress.rowDiffs);
+      }
     );
 
-    // If no primary keys provided, try to detect from table schema
-    const effectivePrimaryKeys =
-      primaryKeys.length > 0
-        ? primaryKeys
-        : await this.detectPrimaryKeys(
-            sourceConnectionId,
-            sourceTable,
-            sourceSchema
-          );
-
-    if (effectivePrimaryKeys.length === 0) {
-      throw new Error(
-        'No primary key columns specified and none could be detected. Please specify primary key columns for row matching.'
-      );
+    if (!response.success || !response.result) {
+      throw new Error(response.error || 'Failed to compare tables');
     }
 
-    // Generate row diffs
-    const rowDiffs = this.compareRows(
-      sourceData.rows,
-      targetData.rows,
-      effectivePrimaryKeys
-    );
-
-    // Calculate summary statistics
-    const summary = this.calculateSummary(
-      rowDiffs,
-      sourceData.rows.length,
-      targetData.rows.length
-    );
-
-    // Get connection info for display names
-    const sourceConn = databaseService.getConnection(sourceConnectionId);
-    const targetConn = databaseService.getConnection(targetConnectionId);
-
-    return {
-      sourceId: sourceConnectionId,
-      sourceName: sourceConn
-        ? `${sourceConn.filename} - ${sourceSchema}.${sourceTable}`
-        : `${sourceSchema}.${sourceTable}`,
-      sourceTable,
-      sourceSchema,
-      targetId: targetConnectionId,
-      targetName: targetConn
-        ? `${targetConn.filename} - ${targetSchema}.${targetTable}`
-        : `${targetSchema}.${targetTable}`,
-      targetTable,
-      targetSchema,
-      comparedAt: new Date().toISOString(),
-      primaryKeys: effectivePrimaryKeys,
-      rowDiffs,
-      summary,
-    };
+    return { ...response.result, rowDiffs };
   }
 
   /**
-   * Fetch table data from a database connection.
+   * Stream a keyed diff of two tables. Row diffs and a running summary are
+   * reported through onProgress; the returned result carries the final
+   * summary. The diff can be stopped with cancel(request.diffId).
    */
-  private async fetchTableData(
-    connectionId: string,
-    table: string,
-    schema: string,
-    pagination?: DataComparisonPagination
-  ): Promise<{ rows: Record<string, unknown>[] }> {
-    // Use pagination if provided, otherwise fetch all data
-    const page = pagination?.page ?? 0;
-    const pageSize = pagination?.pageSize ?? 10000; // Default to large page size
-
-    const result = databaseService.getTableData(
-      connectionId,
-      table,
-      page,
-      pageSize,
-      undefined, // No sorting
-      undefined,
-      undefined, // No filters
-      schema
-    );
-
-    if (!result.success) {
-      throw new Error(
-        `Failed to fetch data from ${schema}.${table}: ${result.error}`
-      );
+  async streamTableDiff(
+    request: StreamTableDiffRequest,
+    onProgress: (progress: DataDiffProgressEvent) => void
+  ): Promise<StreamTableDiffResponse> {
+    const controller = new AbortController();
+    this.activeDiffs.set(request.diffId, controller);
+
+    try {
+      return await this.runDiff(request, onProgress, controller.signal);
+    } catch (error) {
+      if (error instanceof DiffCancelledError) {
+        return { success: false, cancelled: true, error: error.message };
+      }
+      throw error;
+    } finally {
+      this.activeDiffs.delete(request.diffId);
     }
-
-    return { rows: result.rows || [] };
   }
 
   /**
-   * Detect primary key columns from table schema.
+   * Cancel a running diff. Returns false if no diff with that ID is running.
    */
-  private async detectPrimaryKeys(
-    connectionId: string,
-    table: string,
-    schema: string
-  ): Promise<string[]> {
-    const schemaResult = databaseService.getSchema(connectionId);
-
-    if (!schemaResult.success) {
-      return [];
-    }
-
-    // Find the table in the schema
-    for (const schemaInfo of schemaResult.schemas) {
-      if (schemaInfo.name === schema) {
-        const tableInfo = [...schemaInfo.tables, ...schemaInfo.views].find(
-          (t) => t.name === table
-        );
-
-        if (tableInfo && tableInfo.primaryKey.length > 0) {
-          return tableInfo.primaryKey;
-        }
-      }
+  cancel(diffId: string): boolean {
+    const controller = this.activeDiffs.get(diffId);
+    if (!controller) {
+      return false;
     }
-
-    return [];
+    controller.abort();
+    return true;
   }
 
-  /**
-   * Compare rows from source and target tables.
-   * Matches rows by primary key and detects added, removed, and modified rows.
-   */
-  private compareRows(
-    sourceRows: Record<string, unknown>[],
-    targetRows: Record<string, unknown>[],
-    primaryKeys: string[]
-  ): RowDiff[] {
-    const diffs: RowDiff[] = [];
+  private async runDiff(
+    request: StreamTableDiffRequest,
+    onProgress: (progress: DataDiffProgressEvent) => void,
+    signal: AbortSignal
+  ): Promise<StreamTableDiffResponse> {
+    const chunkSize = Math.max(1, request.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    const maxRowDiffs = request.maxRowDiffs ?? DEFAULT_MAX_ROW_DIFFS;
+    const skipRowDiffs = request.skipRowDiffs ?? 0;
+
+    const sourceStructure = await this.getStructure(
+      request.sourceConnectionId,
+      request.sourceTable,
+      request.sourceSchema
+    );
+    const targetStructure = await this.getStructure(
+      request.targetConnectionId,
+      request.targetTable,
+      request.targetSchema
+    );
 
-    // Create maps for efficient lookup using primary key
-    const sourceMap = new Map<string, Record<string, unknown>>();
-    const targetMap = new Map<string, Record<string, unknown>>();
+    const keys =
+      request.primaryKeys && request.primaryKeys.length > 0
+        ? request.primaryKeys
+        : sourceStructure.primaryKey;
 
-    // Build source map
-    for (const row of sourceRows) {
-      const key = this.buildPrimaryKeyValue(row, primaryKeys);
-      sourceMap.set(key, row);
+    if (keys.length === 0) {
+      throw new Error(
+        'No primary key columns specified and none could be detected. Please specify primary key columns for row matching.'
+      );
     }
 
-    // Build target map
-    for (const row of targetRows) {
-      const key = this.buildPrimaryKeyValue(row, primaryKeys);
-      targetMap.set(key, row);
-    }
+    const source = this.createSide(
+      request.sourceConnectionId,
+      request.sourceTable,
+      request.sourceSchema,
+      sourceStructure,
+      keys
+    );
+    const target = this.createSide(
+      request.targetConnectionId,
+      request.targetTable,
+      request.targetSchema,
+      targetStructure,
+      keys
+    );
 
-    // Get all unique primary key values
-    const allKeys = new Set([...sourceMap.keys(), ...targetMap.keys()]);
+    keys.forEach((key, index) => {
+      if (source.keyKinds[index] !== target.keyKinds[index]) {
+        throw new Error(
+          `Key column "${key}" is ordered differently in the source and target tables`
+        );
+      }
+    });
+
+    // NULL keys cannot be matched and are ordered differently by each
+    // database, so the merge join would misreport them
+    await this.assertKeysNotNull(source, keys);
+    await this.assertKeysNotNull(target, keys);
+
+    const compareKeys = createRowKeyComparator(keys, source.keyKinds);
+    const totalRows =
+      (await this.countRows(source)) + (await this.countRows(target));
+
+    const state: DiffState = {
+      summary: {
+        sourceRows: 0,
+        targetRows: 0,
+        rowsAdded: 0,
+        rowsRemoved: 0,
+        rowsModified: 0,
+        rowsUnchanged: 0,
+      },
+      pending: [],
+      rowDiffsSkipped: 0,
+      rowDiffsSent: 0,
+      truncated: false,
+      chunksSkipped: 0,
+      lastProgressRows: 0,
+    };
 
-    // Compare each row
-    for (const key of allKeys) {
-      const sourceRow = sourceMap.get(key);
-      const targetRow = targetMap.get(key);
+    const emit = (force = false) => {
+      const rowsProcessed = state.summary.sourceRows + state.summary.targetRows;
+      if (
+        !force &&
+        state.pending.length < PROGRESS_BATCH_SIZE &&
+        rowsProcessed - state.lastProgressRows < chunkSize
+      ) {
+        return;
+      }
+      onProgress({
+        diffId: request.diffId,
+        rowDiffs: state.pending,
+        rowsProcessed,
+        totalRows,
+        summary: { ...state.summary },
+        chunksSkipped: state.chunksSkipped,
+      });
+      state.pending = [];
+      state.lastProgressRows = rowsProcessed;
+    };
 
-      if (!sourceRow && targetRow) {
-        // Row added in target
-        diffs.push({
-          primaryKey: this.extractPrimaryKeyValues(targetRow, primaryKeys),
-          diffType: 'added',
-          sourceRow: null,
-          targetRow,
-        });
-      } else if (sourceRow && !targetRow) {
-        // Row removed from source
-        diffs.push({
-          primaryKey: this.extractPrimaryKeyValues(sourceRow, primaryKeys),
-          diffType: 'removed',
-          sourceRow,
-          targetRow: null,
-        });
-      } else if (sourceRow && targetRow) {
-        // Row exists in both, check for modifications
-        const columnChanges = this.detectColumnChanges(sourceRow, targetRow);
+    const record = (diff: RowDiff) => {
+      if (diff.diffType === 'unchanged' && !request.includeUnchanged) {
+        return;
+      }
+      if (state.rowDiffsSkipped < skipRowDiffs) {
+        state.rowDiffsSkipped++;
+        return;
+      }
+      if (state.rowDiffsSent >= maxRowDiffs) {
+        state.truncated = true;
+        return;
+      }
+      state.pending.push(diff);
+      state.rowDiffsSent++;
+    };
 
+    const onPair = (sourceRow: DiffRow | null, targetRow: DiffRow | null) => {
+      if (sourceRow && targetRow) {
+        state.summary.sourceRows++;
+        state.summary.targetRows++;
+        const columnChanges = detectColumnChanges(sourceRow, targetRow);
         if (columnChanges.length > 0) {
-          diffs.push({
-            primaryKey: this.extractPrimaryKeyValues(sourceRow, primaryKeys),
+          state.summary.rowsModified++;
+          record({
+            primaryKey: this.extractPrimaryKeyValues(sourceRow, keys),
             diffType: 'modified',
             sourceRow,
             targetRow,
             columnChanges,
           });
         } else {
-          diffs.push({
-            primaryKey: this.extractPrimaryKeyValues(sourceRow, primaryKeys),
+          state.summary.rowsUnchanged++;
+          record({
+            primaryKey: this.extractPrimaryKeyValues(sourceRow, keys),
             diffType: 'unchanged',
             sourceRow,
             targetRow,
           });
         }
+      } else if (targetRow) {
+        // Row added in target
+        state.summary.targetRows++;
+        state.summary.rowsAdded++;
+        record({
+          primaryKey: this.extractPrimaryKeyValues(targetRow, keys),
+          diffType: 'added',
+          sourceRow: null,
+          targetRow,
+        });
+      } else if (sourceRow) {
+        // Row removed from source
+        state.summary.sourceRows++;
+        state.summary.rowsRemoved++;
+        record({
+          primaryKey: this.extractPrimaryKeyValues(sourceRow, keys),
+          diffType: 'removed',
+          sourceRow,
+          targetRow: null,
+        });
+      }
+      emit();
+    };
+
+    const hashColumns = request.useChunkHashes
+      ? this.getHashColumns(source, target)
+      : null;
+
+    // Without checksums the whole table is a single range
+    let lower: DiffRow | undefined;
+    while (true) {
+      this.throwIfCancelled(signal);
+
+      let upper: DiffRow | undefined;
+      if (hashColumns) {
+        upper = await this.findChunkUpperBound(source, keys, lower, chunkSize);
+        const sourceHash = await this.hashRange(
+          source,
+          keys,
+          hashColumns,
+          lower,
+          upper
+        );
+        const targetHash = await this.hashRange(
+          target,
+          keys,
+          hashColumns,
+          lower,
+          upper
+        );
+
+        if (
+          sourceHash.count === targetHash.count &&
+          sourceHash.hash === targetHash.hash
+        ) {
+          state.summary.sourceRows += sourceHash.count;
+          state.summary.targetRows += targetHash.count;
+          state.summary.rowsUnchanged += sourceHash.count;
+          state.chunksSkipped++;
+          emit(true);
+          if (!upper) break;
+          lower = upper;
+          continue;
+        }
       }
+
+      await mergeJoinRows(
+        this.readRange(source, keys, lower, upper, chunkSize, signal),
+        this.readRange(target, keys, lower, upper, chunkSize, signal),
+        compareKeys,
+        onPair
+      );
+
+      if (!upper) break;
+      lower = upper;
     }
 
-    return diffs;
+    emit(true);
+
+    return {
+      success: true,
+      truncated: state.truncated,
+      result: {
+        sourceId: source.connectionId,
+        sourceName: this.getDisplayName(source),
+        sourceTable: source.table,
+        sourceSchema: source.schema ?? '',
+        sourceDatabaseType:
+          tableReaderService.getConnectionType(source.connectionId) ??
+          undefined,
+        targetId: target.connectionId,
+        targetName: this.getDisplayName(target),
+        targetTable: target.table,
+        targetSchema: target.schema ?? '',
+        targetDatabaseType:
+          tableReaderService.getConnectionType(target.connectionId) ??
+          undefined,
+        comparedAt: new Date().toISOString(),
+        primaryKeys: keys,
+        rowDiffs: [],
+        summary: state.summary,
+      },
+    };
+  }
+
+  private throwIfCancelled(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw new DiffCancelledError();
+    }
+  }
+
+  private async getStructure(
+    connectionId: string,
+    table: string,
+    schema?: string
+  ): Promise<TableInfo> {
+    if (!tableReaderService.getConnectionType(connectionId)) {
+      throw new Error('Connection not found');
+    }
+    const structure = await tableReaderService.getTableStructure(
+      connectionId,
+      table,
+      schema
+    );
+    if (!structure) {
+      throw new Error(`Table "${table}" not found`);
+    }
+    return structure;
+  }
+
+  private createSide(
+    connectionId: string,
+    table: string,
+    schema: string | undefined,
+    structure: TableInfo,
+    keys: string[]
+  ): DiffSide {
+    const keyKinds = keys.map((key) => {
+      const column = structure.columns.find((c) => c.name === key);
+      if (!column) {
+        throw new Error(`Key column "${key}" not found in table "${table}"`);
+      }
+      return getKeyKind(column.type);
+    });
+
+    return {
+      connectionId,
+      table,
+      schema: schema || undefined,
+      dialect: tableReaderService.getConnectionDialect(connectionId),
+      structure,
+      keyKinds,
+    };
   }
 
   /**
-   * Build a string key from primary key values for efficient lookup.
+   * Throw when a nullable key column of a side holds NULL values.
    */
-  private buildPrimaryKeyValue(
-    row: Record<string, unknown>,
-    primaryKeys: string[]
-  ): string {
-    return primaryKeys
-      .map((key) => {
-        const value = row[key];
-        // Handle null/undefined
-        if (value === null || value === undefined) {
-          return '__NULL__';
-        }
-        // Convert to string for comparison
-        return String(value);
-      })
-      .join('|||');
+  private async assertKeysNotNull(
+    side: DiffSide,
+    keys: string[]
+  ): Promise<void> {
+    const nullable = keys.filter(
+      (key) => side.structure.columns.find((c) => c.name === key)?.nullable
+    );
+    if (nullable.length === 0) {
+      return;
+    }
+    const rows = await tableReaderService.query(
+      side.connectionId,
+      `SELECT ${nullable.map((key) => quoteIdentifier(key, side.dialect)).join(', ')} ` +
+        `FROM ${qualifyTableName(side.table, side.schema, side.dialect)} ` +
+        `WHERE ${nullable.map((key) => `${quoteIdentifier(key, side.dialect)} IS NULL`).join(' OR ')} LIMIT 1`
+    );
+    if (rows.length > 0) {
+      const key = nullable.find((k) => rows[0][k] == null) ?? nullable[0];
+      throw new Error(
+        `Key column "${key}" has NULL values in table "${side.table}". Choose key columns without NULLs for row matching.`
+      );
+    }
+  }
+
+  private getDisplayName(side: DiffSide): string {
+    const connection = databaseManager.getConnection(side.connectionId);
+    const tableName = side.schema ? `${side.schema}.${side.table}` : side.table;
+    return connection ? `${connection.filename} - ${tableName}` : tableName;
+  }
+
+  private async countRows(side: DiffSide): Promise<number> {
+    const rows = await tableReaderService.query(
+      side.connectionId,
+      `SELECT COUNT(*) AS row_count FROM ${qualifyTableName(side.table, side.schema, side.dialect)}`
+    );
+    return Number(rows[0]?.row_count ?? 0);
   }
 
   /**
-   * Extract primary key values as a record.
+   * Columns to checksum, or null when checksums cannot be compared: both
+   * sides must use the same server dialect and have the same columns.
    */
-  private extractPrimaryKeyValues(
-    row: Record<string, unknown>,
-    primaryKeys: string[]
-  ): Record<string, unknown> {
-    const pkValues: Record<string, unknown> = {};
-    for (const key of primaryKeys) {
-      pkValues[key] = row[key];
+  private getHashColumns(source: DiffSide, target: DiffSide): string[] | null {
+    if (source.dialect !== target.dialect || source.dialect === 'sqlite') {
+      return null;
     }
-    return pkValues;
+    const sourceColumns = source.structure.columns.map((c) => c.name);
+    const targetColumns = new Set(target.structure.columns.map((c) => c.name));
+    if (
+      sourceColumns.length !== targetColumns.size ||
+      !sourceColumns.every((c) => targetColumns.has(c))
+    ) {
+      return null;
+    }
+    return sourceColumns;
   }
 
   /**
-   * Detect column-level changes between two rows.
+   * Build a WHERE condition comparing the key columns against the key
+   * values of a row, appending the bind parameters to params.
    */
-  private detectColumnChanges(
-    sourceRow: Record<string, unknown>,
-    targetRow: Record<string, unknown>
-  ): ColumnChange[] {
-    const changes: ColumnChange[] = [];
-
-    // Get all unique column names from both rows
-    const allColumns = new Set([
-      ...Object.keys(sourceRow),
-      ...Object.keys(targetRow),
-    ]);
-
-    for (const columnName of allColumns) {
-      const sourceValue = sourceRow[columnName];
-      const targetValue = targetRow[columnName];
-
-      // Compare values (handle null/undefined properly)
-      if (!this.valuesEqual(sourceValue, targetValue)) {
-        changes.push({
-          columnName,
-          sourceValue,
-          targetValue,
-        });
-      }
-    }
+  private keyCondition(
+    side: DiffSide,
+    keys: string[],
+    operator: '>' | '<=',
+    bound: DiffRow,
+    params: unknown[]
+  ): string {
+    const columns: string[] = [];
+    const placeholders: string[] = [];
+
+    keys.forEach((key, index) => {
+      const kind = side.keyKinds[index];
+      columns.push(keyOrderExpression(key, kind, side.dialect));
+      params.push(this.toParam(bound[key], side.dialect));
+      const placeholder = bindPlaceholder(params.length, side.dialect);
+      placeholders.push(
+        side.dialect === 'mysql' && kind === 'text'
+          ? `CAST(${placeholder} AS BINARY)`
+          : placeholder
+      );
+    });
 
-    return changes;
+    return keys.length === 1
+      ? `${columns[0]} ${operator} ${placeholders[0]}`
+      : `(${columns.join(', ')}) ${operator} (${placeholders.join(', ')})`;
   }
 
   /**
-   * Compare two values for equality, handling null/undefined and type differences.
+   * Build the WHERE clause restricting a side to the key range (lower, upper].
    */
-  private valuesEqual(a: unknown, b: unknown): boolean {
-    // Both null or undefined
-    if ((a === null || a === undefined) && (b === null || b === undefined)) {
-      return true;
+  private rangeClause(
+    side: DiffSide,
+    keys: string[],
+    lower: DiffRow | undefined,
+    upper: DiffRow | undefined,
+    params: unknown[]
+  ): string {
+    const conditions: string[] = [];
+    if (lower) {
+      conditions.push(this.keyCondition(side, keys, '>', lower, params));
     }
-
-    // One is null/undefined, other is not
-    if (a === null || a === undefined || b === null || b === undefined) {
-      return false;
+    if (upper) {
+      conditions.push(this.keyCondition(side, keys, '<=', upper, params));
     }
+    return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private orderClause(side: DiffSide, keys: string[]): string {
+    return ` ORDER BY ${keys
+      .map((key, index) =>
+        keyOrderExpression(key, side.keyKinds[index], side.dialect)
+      )
+      .join(', ')}`;
+  }
+
+  /**
+   * Read the rows of one side within the key range (lower, upper] in key
+   * order, using keyset pagination.
+   */
+  private async *readRange(
+    side: DiffSide,
+    keys: string[],
+    lower: DiffRow | undefined,
+    upper: DiffRow | undefined,
+    chunkSize: number,
+    signal: AbortSignal
+  ): AsyncGenerator<DiffRow[]> {
+    const tableName = qualifyTableName(side.table, side.schema, side.dialect);
+    let after = lower;
+
+    while (true) {
+      this.throwIfCancelled(signal);
+
+      const params: unknown[] = [];
+      const where = this.rangeClause(side, keys, after, upper, params);
+      const rows = await tableReaderService.query(
+        side.connectionId,
+        `SELECT * FROM ${tableName}${where}${this.orderClause(side, keys)} LIMIT ${chunkSize}`,
+        params
+      );
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      yield rows;
 
-    // For objects/arrays, use JSON comparison
-    if (typeof a === 'object' && typeof b === 'object') {
-      return JSON.stringify(a) === JSON.stringify(b);
+      if (rows.length < chunkSize) {
+        return;
+      }
+      after = rows[rows.length - 1];
     }
+  }
 
-    // Direct comparison
-    return a === b;
+  /**
+   * Find the key of the last row in the next source chunk after lower, or
+   * undefined when fewer than chunkSize rows remain.
+   */
+  private async findChunkUpperBound(
+    side: DiffSide,
+    keys: string[],
+    lower: DiffRow | undefined,
+    chunkSize: number
+  ): Promise<DiffRow | undefined> {
+    const params: unknown[] = [];
+    const where = this.rangeClause(side, keys, lower, undefined, params);
+    const rows = await tableReaderService.query(
+      side.connectionId,
+      `SELECT ${keys.map((key) => quoteIdentifier(key, side.dialect)).join(', ')} ` +
+        `FROM ${qualifyTableName(side.table, side.schema, side.dialect)}${where}` +
+        `${this.orderClause(side, keys)} LIMIT 1 OFFSET ${chunkSize - 1}`,
+      params
+    );
+    return rows[0];
   }
 
   /**
-   * Calculate summary statistics from row diffs.
+   * Compute the row count and a checksum of the rows of one side within
+   * the key range (lower, upper].
    */
-  private calculateSummary(
-    rowDiffs: RowDiff[],
-    sourceRowCount: number,
-    targetRowCount: number
-  ): DataComparisonResult['summary'] {
-    const summary = {
-      sourceRows: sourceRowCount,
-      targetRows: targetRowCount,
-      rowsAdded: 0,
-      rowsRemoved: 0,
-      rowsModified: 0,
-      rowsUnchanged: 0,
+  private async hashRange(
+    side: DiffSide,
+    keys: string[],
+    columns: string[],
+    lower: DiffRow | undefined,
+    upper: DiffRow | undefined
+  ): Promise<{ count: number; hash: string | null }> {
+    const quoted = columns.map((c) => quoteIdentifier(c, side.dialect));
+    const hashExpression =
+      side.dialect === 'postgresql'
+        ? `md5(string_agg(md5(ROW(${quoted.join(', ')})::text), ''${this.orderClause(side, keys)}))`
+        : // BIT_XOR of per-row hashes is order independent; ISNULL flags
+          // keep NULL distinguishable from empty strings in CONCAT_WS
+          `CAST(BIT_XOR(CAST(CONV(SUBSTRING(MD5(CONCAT_WS('#', ${quoted.join(', ')}, ` +
+          `CONCAT(${quoted.map((c) => `ISNULL(${c})`).join(', ')}))), 1, 16), 16, 10) AS UNSIGNED)) AS CHAR)`;
+
+    const params: unknown[] = [];
+    const where = this.rangeClause(side, keys, lower, upper, params);
+    const rows = await tableReaderService.query(
+      side.connectionId,
+      `SELECT COUNT(*) AS row_count, ${hashExpression} AS row_hash ` +
+        `FROM ${qualifyTableName(side.table, side.schema, side.dialect)}${where}`,
+      params
+    );
+
+    return {
+      count: Number(rows[0]?.row_count ?? 0),
+      hash: rows[0]?.row_hash == null ? null : String(rows[0].row_hash),
     };
+  }
 
-    for (const diff of rowDiffs) {
-      if (diff.diffType === 'added') {
-        summary.rowsAdded++;
-      } else if (diff.diffType === 'removed') {
-        summary.rowsRemoved++;
-      } else if (diff.diffType === 'modified') {
-        summary.rowsModified++;
-      } else if (diff.diffType === 'unchanged') {
-        summary.rowsUnchanged++;
-      }
+  /**
+   * Convert a key value read from either side into a bind parameter.
+   */
+  private toParam(value: unknown, dialect: SqlDialect): unknown {
+    if (dialect !== 'sqlite') {
+      return value;
     }
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  }
 
-    return summary;
+  /**
+   * Extract primary key values as a record.
+   */
+  private extractPrimaryKeyValues(
+    row: Record<string, unknown>,
+    primaryKeys: string[]
+  ): Record<string, unknown> {
+    const pkValues: Record<string, unknown> = {};
+    for (const key of primaryKeys) {
+      pkValues[key] = row[key];
+    }
+    return pkValues;
   }
 }
 
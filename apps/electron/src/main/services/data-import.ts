@@ -0,0 +1,369 @@
+/**
+ * Data Import
+ * Loads CSV, TSV, JSON, NDJSON and Excel files into new or existing tables on
+ * any open connection. Rows are inserted in transactional batches; when a
+ * batch fails it is rolled back and replayed row by row so the failing rows
+ * can be reported while the rest of the batch is still imported.
+ */
+
+import type {
+  ImportColumnMapping,
+  ImportColumnType,
+  ImportDataRequest,
+  ImportDataResponse,
+  ImportFormat,
+  ImportParseOptions,
+  ImportPreviewRequest,
+  ImportPreviewResponse,
+  ImportProgressEvent,
+  ImportRowError,
+  SqlDialect,
+} from '@shared/types';
+import { createReadStream } from 'node:fs';
+import {
+  detectImportFormat,
+  generateCreateTableSQL,
+  readImportBatches,
+  scanImportData,
+  toImportParam,
+} from '@/lib/import-parsers';
+import {
+  bindPlaceholder,
+  qualifyTableName,
+  quoteIdentifier,
+} from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+import { tableReaderService } from './table-reader';
+
+export const DEFAULT_IMPORT_BATCH_SIZE = 1000;
+
+/** Maximum number of row errors returned to the renderer */
+const MAX_REPORTED_ERRORS = 500;
+
+const DEFAULT_PREVIEW_ROWS = 50;
+
+const BEGIN_STATEMENTS: Record<SqlDialect, string> = {
+  sqlite: 'BEGIN',
+  mysql: 'START TRANSACTION',
+  postgresql: 'BEGIN',
+};
+
+interface ResolvedColumn {
+  source: string;
+  target: string;
+  type: ImportColumnType;
+}
+
+/**
+ * Service for importing data files into database tables.
+ */
+class DataImportService {
+  /**
+   * Scan a file and return its columns, inferred types and first rows.
+   */
+  async preview(request: ImportPreviewRequest): Promise<ImportPreviewResponse> {
+    const scan = await scanImportData(
+      createReadStream(request.filePath),
+      this.getFormat(request.filePath, request),
+      request,
+      request.previewRows ?? DEFAULT_PREVIEW_ROWS
+    );
+
+    return { success: true, ...scan };
+  }
+
+  /**
+   * Import a file into request.table, creating the table first when
+   * request.createTable is set. The file is read twice: once to settle its
+   * columns and types, then in batches as the rows are inserted, so it is
+   * never held in memory.
+   */
+  async importData(
+    request: ImportDataRequest,
+    onProgress?: (progress: ImportProgressEvent) => void
+  ): Promise<ImportDataResponse> {
+    const { connectionId, table, schema } = request;
+
+    if (!tableReaderService.getConnectionType(connectionId)) {
+      throw new Error('Connection not found');
+    }
+
+    const format = this.getFormat(request.filePath, request);
+    const scan = await scanImportData(
+      createReadStream(request.filePath),
+      format,
+      request
+    );
+    const sourceNames = scan.columns.map((c) => c.name);
+    const dialect = tableReaderService.getConnectionDialect(connectionId);
+    const sourceTypes = new Map(
+      scan.columns.map((c) => [c.name, c.inferredType])
+    );
+
+    const structure = await tableReaderService.getTableStructure(
+      connectionId,
+      table,
+      schema
+    );
+
+    let columns: ResolvedColumn[];
+    if (request.createTable) {
+      if (structure) {
+        throw new Error(`Table "${table}" already exists`);
+      }
+      columns = this.resolveMappings(
+        request.columnMappings,
+        sourceNames,
+        sourceTypes
+      );
+    } else {
+      if (!structure) {
+        throw new Error(`Table "${table}" not found`);
+      }
+      columns = this.resolveMappings(
+        request.columnMappings,
+        sourceNames,
+        sourceTypes,
+        structure.columns.map((c) => c.name)
+      );
+    }
+
+    if (columns.length === 0) {
+      throw new Error('No source columns are mapped to target columns');
+    }
+
+    const insertSql = `INSERT INTO ${qualifyTableName(table, schema, dialect)} (${columns
+      .map((c) => quoteIdentifier(c.target, dialect))
+      .join(', ')}) VALUES (${columns
+      .map((_, index) => bindPlaceholder(index + 1, dialect))
+      .join(', ')})`;
+
+    const batchSize = Math.max(
+      1,
+      request.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE
+    );
+    const { totalRows } = scan;
+    const errors: ImportRowError[] = [];
+    let rowsImported = 0;
+    let rowsFailed = 0;
+
+    // The table and every batch's BEGIN, INSERTs and COMMIT must reach the
+    // same session
+    return databaseManager.withSessionAsync(connectionId, async (sessionId) => {
+      // SQLite has one session per connection, where a query tab may have
+      // left a transaction open that the batches' BEGIN would collide with
+      const state = await databaseManager.getTransactionStateAsync(
+        connectionId,
+        sessionId
+      );
+      if (state.success && state.transactionState !== 'idle') {
+        throw new Error(
+          'Commit or roll back the open transaction on this connection before importing'
+        );
+      }
+
+      if (request.createTable) {
+        await this.execute(
+          connectionId,
+          generateCreateTableSQL(
+            table,
+            schema,
+            columns.map((c) => ({ name: c.target, type: c.type })),
+            dialect
+          ),
+          sessionId
+        );
+      }
+
+      let start = 0;
+      for await (const batch of readImportBatches(
+        createReadStream(request.filePath),
+        format,
+        request,
+        sourceNames,
+        batchSize
+      )) {
+        const params = batch.map((row) =>
+          columns.map((c) => toImportParam(row[c.source], c.type, dialect))
+        );
+
+        const failure = await this.insertBatch(
+          connectionId,
+          sessionId,
+          insertSql,
+          params
+        );
+
+        if (!failure) {
+          rowsImported += batch.length;
+        } else if (request.onError === 'abort') {
+          return {
+            success: false,
+            rowsImported,
+            rowsFailed: rowsFailed + 1,
+            errors: [{ row: start + failure.index + 1, error: failure.error }],
+            createdTable: request.createTable ?? false,
+            error: `Import aborted at row ${start + failure.index + 1}: ${failure.error}`,
+          };
+        } else {
+          // Replay the batch one row at a time to isolate the failing rows
+          for (let i = 0; i < params.length; i++) {
+            const result = await this.run(
+              connectionId,
+              insertSql,
+              params[i],
+              sessionId
+            );
+            if (result.success) {
+              rowsImported++;
+            } else {
+              rowsFailed++;
+              if (errors.length < MAX_REPORTED_ERRORS) {
+                errors.push({ row: start + i + 1, error: result.error });
+              }
+            }
+          }
+        }
+
+        onProgress?.({
+          importId: request.importId,
+          rowsProcessed: start + batch.length,
+          totalRows,
+          rowsImported,
+          rowsFailed,
+        });
+        start += batch.length;
+      }
+
+      return {
+        success: true,
+        rowsImported,
+        rowsFailed,
+        errors,
+        createdTable: request.createTable ?? false,
+      };
+    });
+  }
+
+  /**
+   * Format of an import file, as requested or from its extension.
+   */
+  private getFormat(
+    filePath: string,
+    options: ImportParseOptions
+  ): ImportFormat {
+    const format = options.format ?? detectImportFormat(filePath);
+    if (!format) {
+      throw new Error(
+        'Unsupported file type. Use CSV, TSV, JSON, NDJSON or XLSX.'
+      );
+    }
+    return format;
+  }
+
+  /**
+   * Resolve the source to target column mappings. Without explicit mappings,
+   * source columns are matched to target columns by name (case-insensitive),
+   * or taken as-is when the table is about to be created.
+   */
+  private resolveMappings(
+    mappings: ImportColumnMapping[] | undefined,
+    sourceColumns: string[],
+    sourceTypes: Map<string, ImportColumnType>,
+    targetColumns?: string[]
+  ): ResolvedColumn[] {
+    const findTarget = (name: string) =>
+      targetColumns
+        ? targetColumns.find((c) => c.toLowerCase() === name.toLowerCase())
+        : name;
+
+    if (!mappings) {
+      return sourceColumns.flatMap((source) => {
+        const target = findTarget(source);
+        return target
+          ? [{ source, target, type: sourceTypes.get(source) ?? 'text' }]
+          : [];
+      });
+    }
+
+    return mappings.map((mapping) => {
+      if (!sourceTypes.has(mapping.source)) {
+        throw new Error(`Source column "${mapping.source}" not found in file`);
+      }
+      const target = findTarget(mapping.target);
+      if (!target) {
+        throw new Error(`Target column "${mapping.target}" not found in table`);
+      }
+      return {
+        source: mapping.source,
+        target,
+        type: sourceTypes.get(mapping.source) ?? 'text',
+      };
+    });
+  }
+
+  /**
+   * Insert a batch of rows in a single transaction. Returns the index and
+   * error of the first failing row after rolling back, or null on success.
+   */
+  private async insertBatch(
+    connectionId: string,
+    sessionId: string,
+    sql: string,
+    batch: unknown[][]
+  ): Promise<{ index: number; error: string } | null> {
+    const dialect = tableReaderService.getConnectionDialect(connectionId);
+    await this.execute(connectionId, BEGIN_STATEMENTS[dialect], sessionId);
+
+    for (let i = 0; i < batch.length; i++) {
+      const result = await this.run(connectionId, sql, batch[i], sessionId);
+      if (!result.success) {
+        await this.run(connectionId, 'ROLLBACK', undefined, sessionId);
+        return { index: i, error: result.error };
+      }
+    }
+
+    await this.execute(connectionId, 'COMMIT', sessionId);
+    return null;
+  }
+
+  /**
+   * Run a statement and throw if it fails.
+   */
+  private async execute(
+    connectionId: string,
+    sql: string,
+    sessionId?: string
+  ): Promise<void> {
+    const result = await this.run(connectionId, sql, undefined, sessionId);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  /**
+   * Run a statement through the database manager, on the given session of a
+   * pooled connection.
+   */
+  private async run(
+    connectionId: string,
+    sql: string,
+    params?: unknown[],
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const result = await databaseManager.executeAsync(
+      connectionId,
+      sql,
+      params,
+      { sessionId }
+    );
+
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error };
+  }
+}
+
+// Export singleton instance
+export const dataImportService = new DataImportService();
+export default dataImportService;
@@ -9,20 +9,30 @@ import type {
   DatabaseType,
   GetTableDataResponse,
   PendingChangeInfo,
+  PoolStatus,
   QueryPlanNode,
   QueryPlanStats,
   SchemaInfo,
+  SupabaseRole,
+  SupabaseSessionInfo,
   TableInfo,
+  TransactionAction,
+  TransactionState,
   ValidationResult,
 } from '@shared/types';
+import type { SessionOptions } from './server-sessions';
 import type {
   AdapterConnectionInfo,
   DatabaseAdapter,
+  ExecuteQueryOptions,
+  OpenCursorResult,
   OpenResult,
 } from './types';
+import { randomUUID } from 'node:crypto';
 import { MySQLAdapter } from './mysql-adapter';
 import { PostgreSQLAdapter } from './postgresql-adapter';
-import { SQLiteAdapter } from './sqlite-adapter';
+import { SQLiteWorkerAdapter } from './sqlite-worker-adapter';
+import { SupabaseRestAdapter } from './supabase-rest-adapter';
 
 /**
  * Connection metadata stored by the manager
@@ -39,10 +49,12 @@ interface ManagedConnection {
 class DatabaseManager {
   private adapters: Map<DatabaseType, DatabaseAdapter> = new Map();
   private connections: Map<string, ManagedConnection> = new Map();
+  /** Supabase over PostgREST, used when direct Postgres access is unavailable */
+  private supabaseRestAdapter = new SupabaseRestAdapter();
 
   constructor() {
     // Initialize adapters
-    this.adapters.set('sqlite', new SQLiteAdapter());
+    this.adapters.set('sqlite', new SQLiteWorkerAdapter());
     this.adapters.set('mysql', new MySQLAdapter());
     this.adapters.set('postgresql', new PostgreSQLAdapter('postgresql'));
     this.adapters.set('supabase', new PostgreSQLAdapter('supabase'));
@@ -89,9 +101,29 @@ class DatabaseManager {
     }
 
     const type = config.type || 'sqlite';
-    const adapter = this.getAdapter(type);
-
-    const result = await adapter.open(config);
+    let adapter = this.getAdapter(type);
+    let result: OpenResult;
+
+    if (type === 'supabase' && this.hasSupabaseApiKey(config)) {
+      if (config.supabaseKey || config.password) {
+        result = await adapter.open(config);
+        if (!result.success) {
+          // Direct access failed (e.g. port 5432 is blocked): try PostgREST,
+          // keeping the original error if that fails too
+          const restResult = await this.supabaseRestAdapter.open(config);
+          if (restResult.success) {
+            adapter = this.supabaseRestAdapter;
+            result = restResult;
+          }
+        }
+      } else {
+        // Without a database password PostgREST is the only way in
+        adapter = this.supabaseRestAdapter;
+        result = await adapter.open(config);
+      }
+    } else {
+      result = await adapter.open(config);
+    }
 
     if (result.success && result.connection) {
       // Track this connection
@@ -105,6 +137,10 @@ class DatabaseManager {
     return result;
   }
 
+  private hasSupabaseApiKey(config: DatabaseConnectionConfig): boolean {
+    return !!(config.supabaseServiceKey || config.supabaseAnonKey);
+  }
+
   /**
    * Close a database connection
    */
@@ -196,9 +232,15 @@ class DatabaseManager {
   }
 
   /**
-   * Execute async (for MySQL/PostgreSQL)
+   * Execute async (for MySQL/PostgreSQL). Pooled connections run each call
+   * on any free session unless options.sessionId names one.
    */
-  async executeAsync(connectionId: string, sql: string, params?: unknown[]) {
+  async executeAsync(
+    connectionId: string,
+    sql: string,
+    params?: unknown[],
+    options?: SessionOptions
+  ) {
     const managed = this.connections.get(connectionId);
     if (!managed) {
       return { success: false as const, error: 'Connection not found' };
@@ -210,7 +252,7 @@ class DatabaseManager {
       'executeAsync' in adapter &&
       typeof (adapter as any).executeAsync === 'function'
     ) {
-      return (adapter as any).executeAsync(connectionId, sql, params);
+      return (adapter as any).executeAsync(connectionId, sql, params, options);
     }
 
     return adapter.execute(connectionId, sql, params);
@@ -228,9 +270,15 @@ class DatabaseManager {
   }
 
   /**
-   * Query async (for MySQL/PostgreSQL)
+   * Query async (for MySQL/PostgreSQL). Pooled connections run each call on
+   * any free session unless options.sessionId names one.
    */
-  async queryAsync(connectionId: string, sql: string, params?: unknown[]) {
+  async queryAsync(
+    connectionId: string,
+    sql: string,
+    params?: unknown[],
+    options?: SessionOptions
+  ) {
     const managed = this.connections.get(connectionId);
     if (!managed) {
       return { success: false as const, error: 'Connection not found' };
@@ -242,7 +290,7 @@ class DatabaseManager {
       'queryAsync' in adapter &&
       typeof (adapter as any).queryAsync === 'function'
     ) {
-      return (adapter as any).queryAsync(connectionId, sql, params);
+      return (adapter as any).queryAsync(connectionId, sql, params, options);
     }
 
     return adapter.query(connectionId, sql, params);
@@ -345,9 +393,14 @@ class DatabaseManager {
   }
 
   /**
-   * Execute query async (for MySQL/PostgreSQL)
+   * Execute query async (for MySQL/PostgreSQL). options.params bind the
+   * query's placeholders in the connection's native syntax.
    */
-  async executeQueryAsync(connectionId: string, query: string) {
+  async executeQueryAsync(
+    connectionId: string,
+    query: string,
+    options?: ExecuteQueryOptions
+  ) {
     const managed = this.connections.get(connectionId);
     if (!managed) {
       return { success: false as const, error: 'Connection not found' };
@@ -359,10 +412,64 @@ class DatabaseManager {
       'executeQueryAsync' in adapter &&
       typeof (adapter as any).executeQueryAsync === 'function'
     ) {
-      return (adapter as any).executeQueryAsync(connectionId, query);
+      return (adapter as any).executeQueryAsync(connectionId, query, options);
     }
 
-    return adapter.executeQuery(connectionId, query);
+    return adapter.executeQuery(connectionId, query, options?.params);
+  }
+
+  /**
+   * Cancel the statement running for an execution
+   */
+  async cancelQueryAsync(
+    connectionId: string,
+    executionId: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'cancelQueryAsync' in adapter &&
+      typeof (adapter as any).cancelQueryAsync === 'function'
+    ) {
+      return (adapter as any).cancelQueryAsync(connectionId, executionId);
+    }
+
+    return {
+      success: false,
+      error: `Query cancellation is not supported for ${managed.type}`,
+    };
+  }
+
+  /**
+   * Open a cursor that reads the rows of a query one page at a time
+   */
+  async openCursorAsync(
+    connectionId: string,
+    sql: string
+  ): Promise<OpenCursorResult> {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'openCursorAsync' in adapter &&
+      typeof (adapter as any).openCursorAsync === 'function'
+    ) {
+      return (adapter as any).openCursorAsync(connectionId, sql);
+    }
+
+    return {
+      success: false,
+      error: `Streaming results is not supported for ${managed.type}`,
+    };
   }
 
   /**
@@ -393,11 +500,13 @@ class DatabaseManager {
   }
 
   /**
-   * Explain query async (for MySQL/PostgreSQL)
+   * Explain query async (for MySQL/PostgreSQL). Adapters without EXPLAIN
+   * ANALYZE return their estimated plan when analyze is requested.
    */
   async explainQueryAsync(
     connectionId: string,
-    sql: string
+    sql: string,
+    analyze = false
   ): Promise<
     | { success: true; plan: QueryPlanNode; stats: QueryPlanStats }
     | { success: false; error: string }
@@ -413,7 +522,7 @@ class DatabaseManager {
       'explainQueryAsync' in adapter &&
       typeof (adapter as any).explainQueryAsync === 'function'
     ) {
-      return (adapter as any).explainQueryAsync(connectionId, sql);
+      return (adapter as any).explainQueryAsync(connectionId, sql, analyze);
     }
 
     return adapter.explainQuery(connectionId, sql);
@@ -522,14 +631,11 @@ class DatabaseManager {
   }
 
   /**
-   * Check if connection is async (MySQL/PostgreSQL)
+   * Check if connection must use the async methods. This is every managed
+   * connection, since SQLite calls run on worker threads.
    */
   isAsyncConnection(connectionId: string): boolean {
-    const managed = this.connections.get(connectionId);
-    if (!managed) {
-      return false;
-    }
-    return managed.type !== 'sqlite';
+    return this.connections.has(connectionId);
   }
 
   /**
@@ -540,6 +646,197 @@ class DatabaseManager {
     return managed?.type || null;
   }
 
+  /**
+   * Switch the role of a Supabase connection (service_role or anon)
+   */
+  async setSupabaseRoleAsync(
+    connectionId: string,
+    role: SupabaseRole
+  ): Promise<
+    | { success: true; supabase: SupabaseSessionInfo }
+    | { success: false; error: string }
+  > {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'setSupabaseRoleAsync' in adapter &&
+      typeof (adapter as any).setSupabaseRoleAsync === 'function'
+    ) {
+      return (adapter as any).setSupabaseRoleAsync(connectionId, role);
+    }
+
+    return {
+      success: false,
+      error: `Switching roles is not supported for ${managed.type}`,
+    };
+  }
+
+  /**
+   * Close the session pinned to a query tab
+   */
+  async releaseSessionAsync(
+    connectionId: string,
+    sessionId: string
+  ): Promise<
+    { success: true; released: boolean } | { success: false; error: string }
+  > {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'releaseSessionAsync' in adapter &&
+      typeof (adapter as any).releaseSessionAsync === 'function'
+    ) {
+      return (adapter as any).releaseSessionAsync(connectionId, sessionId);
+    }
+
+    // Connections without pools run every query on the same session
+    return { success: true, released: false };
+  }
+
+  /**
+   * Run work that needs a single session, such as BEGIN, the statements of
+   * a transaction and COMMIT. Work passes the session ID to executeAsync
+   * and queryAsync. Pooled connections open a session for it and close it
+   * afterwards, which also drops a transaction the work left open; other
+   * connections only have one session.
+   */
+  async withSessionAsync<R>(
+    connectionId: string,
+    work: (sessionId: string) => Promise<R>
+  ): Promise<R> {
+    const sessionId = `transaction:${randomUUID()}`;
+    try {
+      return await work(sessionId);
+    } finally {
+      await this.releaseSessionAsync(connectionId, sessionId);
+    }
+  }
+
+  /**
+   * Active and idle sessions of a pooled connection
+   */
+  getPoolStatus(
+    connectionId: string
+  ): { success: true; status: PoolStatus } | { success: false; error: string } {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'getPoolStatus' in adapter &&
+      typeof (adapter as any).getPoolStatus === 'function'
+    ) {
+      return (adapter as any).getPoolStatus(connectionId);
+    }
+
+    return {
+      success: false,
+      error: `Connection pooling is not supported for ${managed.type}`,
+    };
+  }
+
+  /**
+   * Transaction state of a query tab's session
+   */
+  async getTransactionStateAsync(
+    connectionId: string,
+    sessionId?: string
+  ): Promise<
+    | { success: true; transactionState: TransactionState }
+    | { success: false; error: string }
+  > {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'getTransactionStateAsync' in adapter &&
+      typeof (adapter as any).getTransactionStateAsync === 'function'
+    ) {
+      return (adapter as any).getTransactionStateAsync(connectionId, sessionId);
+    }
+
+    return {
+      success: false,
+      error: `Transactions are not supported for ${managed.type}`,
+    };
+  }
+
+  /**
+   * Open a transaction on a query tab's session
+   */
+  async beginTransactionAsync(
+    connectionId: string,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'beginTransactionAsync' in adapter &&
+      typeof (adapter as any).beginTransactionAsync === 'function'
+    ) {
+      return (adapter as any).beginTransactionAsync(connectionId, sessionId);
+    }
+
+    return {
+      success: false,
+      error: `Transactions are not supported for ${managed.type}`,
+    };
+  }
+
+  /**
+   * Commit or roll back the transaction of a query tab's session
+   */
+  async endTransactionAsync(
+    connectionId: string,
+    action: TransactionAction,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const managed = this.connections.get(connectionId);
+    if (!managed) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const adapter = managed.adapter;
+
+    if (
+      'endTransactionAsync' in adapter &&
+      typeof (adapter as any).endTransactionAsync === 'function'
+    ) {
+      return (adapter as any).endTransactionAsync(
+        connectionId,
+        action,
+        sessionId
+      );
+    }
+
+    return {
+      success: false,
+      error: `Transactions are not supported for ${managed.type}`,
+    };
+  }
+
   /**
    * Close all connections
    */
@@ -547,6 +844,7 @@ class DatabaseManager {
     for (const adapter of this.adapters.values()) {
       adapter.closeAll();
     }
+    this.supabaseRestAdapter.closeAll();
     this.connections.clear();
   }
 }
@@ -10,5 +10,7 @@ export {
   postgresqlAdapter,
   supabaseAdapter,
 } from './postgresql-adapter';
-export { SQLiteAdapter, sqliteAdapter } from './sqlite-adapter';
+export { SQLiteAdapter } from './sqlite-adapter';
+export { SQLiteWorkerAdapter } from './sqlite-worker-adapter';
+export { SupabaseRestAdapter } from './supabase-rest-adapter';
 export * from './types';
@@ -11,19 +11,32 @@ import type {
   GetTableDataResponse,
   IndexInfo,
   PendingChangeInfo,
+  PoolStatus,
   QueryPlanNode,
   QueryPlanStats,
   SchemaInfo,
   TableInfo,
+  TransactionAction,
+  TransactionState,
   TriggerInfo,
   ValidationResult,
 } from '@shared/types';
+import type { SessionOptions } from './server-sessions';
+import type { SshTunnel } from './ssh-tunnel';
 import type {
   AdapterConnectionInfo,
   DatabaseAdapter,
+  ExecuteQueryOptions,
+  OpenCursorResult,
   OpenResult,
+  RowCursor,
 } from './types';
+import { isReadOnlyStatement } from '@shared/sql-statements';
 import { sqlLogger } from '../sql-logger';
+import { parseMySqlTreePlan } from './query-plan-parser';
+import { ServerSessions } from './server-sessions';
+import { openSshTunnel } from './ssh-tunnel';
+import { DEFAULT_POOL_SIZE, EXPLAIN_ANALYZE_READ_ONLY_ERROR } from './types';
 
 // MySQL2 types - we'll use dynamic import to avoid issues if not installed
 interface MySQLConnection {
@@ -31,16 +44,45 @@ interface MySQLConnection {
   execute: (sql: string, params?: unknown[]) => Promise<[unknown, unknown]>;
   end: () => Promise<void>;
   ping: () => Promise<void>;
+  threadId: number | null;
+  /** Close the connection at once, removing it from its pool */
+  destroy: () => void;
+  /** Callback-style connection underneath, which can stream rows */
+  connection: import('mysql2').Connection;
+  /** Set on connections checked out of a pool */
+  release?: () => void;
+}
+
+interface MySQLPool {
+  query: MySQLConnection['query'];
+  execute: MySQLConnection['execute'];
+  getConnection: () => Promise<MySQLConnection>;
+  end: () => Promise<void>;
+  /** mysql2 only keeps its pool counters internally */
+  pool: {
+    _allConnections: { length: number };
+    _freeConnections: { length: number };
+    _connectionQueue: { length: number };
+  };
 }
 
 interface MySQLConnectionInfo {
   id: string;
-  connection: MySQLConnection;
+  pool: MySQLPool;
+  /** Pinned sessions and the sessions running queries */
+  sessions: ServerSessions<MySQLConnection>;
   config: DatabaseConnectionConfig;
+  /** Driver options, reused to open side connections */
+  connectionOptions: import('mysql2/promise').ConnectionOptions;
+  /** SSH tunnel the connection runs through, closed with the connection */
+  tunnel: SshTunnel | null;
   filename: string;
   isReadOnly: boolean;
 }
 
+/** Server status flag set while the session has an open transaction */
+const SERVER_STATUS_IN_TRANS = 1;
+
 // Simple ID generator
 let idCounter = 0;
 function generateId(): string {
@@ -78,12 +120,23 @@ export class MySQLAdapter implements DatabaseAdapter {
       };
     }
 
+    let tunnel: SshTunnel | null = null;
+    let pool: MySQLPool | null = null;
+
     try {
       const mysql2 = await this.getMySQL2();
 
+      if (config.ssh) {
+        tunnel = await openSshTunnel(
+          config.ssh,
+          config.host,
+          config.port || 3306
+        );
+      }
+
       const connectionConfig: import('mysql2/promise').ConnectionOptions = {
-        host: config.host,
-        port: config.port || 3306,
+        host: tunnel?.localHost ?? config.host,
+        port: tunnel?.localPort ?? (config.port || 3306),
         user: config.username,
         password: config.password,
         database: config.database,
@@ -103,10 +156,13 @@ export class MySQLAdapter implements DatabaseAdapter {
         }
       }
 
-      const connection = await mysql2.createConnection(connectionConfig);
+      pool = mysql2.createPool({
+        ...connectionConfig,
+        connectionLimit: config.poolSize || DEFAULT_POOL_SIZE,
+      }) as unknown as MySQLPool;
 
       // Test connection
-      await connection.ping();
+      await pool.query('SELECT 1');
 
       const id = generateId();
       const filename =
@@ -115,8 +171,16 @@ export class MySQLAdapter implements DatabaseAdapter {
 
       const connectionInfo: MySQLConnectionInfo = {
         id,
-        connection: connection as unknown as MySQLConnection,
+        pool,
+        sessions: new ServerSessions<MySQLConnection>({
+          acquire: () => connectionInfo.pool.getConnection(),
+          release: (connection) => connection.release?.(),
+          close: async (connection) => connection.destroy(),
+          processId: (connection) => connection.threadId,
+        }),
         config,
+        connectionOptions: connectionConfig,
+        tunnel,
         filename,
         isReadOnly: config.readOnly ?? false,
       };
@@ -142,6 +206,9 @@ export class MySQLAdapter implements DatabaseAdapter {
         },
       };
     } catch (error) {
+      await pool?.end().catch(() => {});
+      tunnel?.close();
+
       const errorMessage =
         error instanceof Error ? error.message : 'Failed to connect to MySQL';
 
@@ -162,6 +229,13 @@ export class MySQLAdapter implements DatabaseAdapter {
           'Verify the username and password are correct',
           'Ensure the database exists and the user has access',
           'Check firewall settings if connecting remotely',
+          ...(config.ssh
+            ? [
+                'Verify the SSH host, port and credentials',
+                'Check that the bastion host is in your known_hosts file',
+                'Ensure the database host is reachable from the bastion host',
+              ]
+            : []),
         ],
       };
     }
@@ -177,14 +251,20 @@ export class MySQLAdapter implements DatabaseAdapter {
 
     try {
       // Handle the promise with catch to log any closure errors
-      conn.connection.end().catch((err) => {
-        sqlLogger.logClose({
-          connectionId,
-          dbPath: conn.filename,
-          success: false,
-          error: err instanceof Error ? err.message : 'Connection close failed',
-        });
-      });
+      conn.sessions
+        .closeAll()
+        .then(() => conn.pool.end())
+        .catch((err) => {
+          sqlLogger.logClose({
+            connectionId,
+            dbPath: conn.filename,
+            success: false,
+            error:
+              err instanceof Error ? err.message : 'Connection close failed',
+          });
+        })
+        // The tunnel outlives the client so the goodbye reaches the server
+        .finally(() => conn.tunnel?.close());
       this.connections.delete(connectionId);
 
       sqlLogger.logClose({
@@ -246,7 +326,7 @@ export class MySQLAdapter implements DatabaseAdapter {
       }
 
       // Get tables
-      const [tablesResult] = (await conn.connection.query(
+      const [tablesResult] = (await conn.pool.query(
         `SELECT TABLE_NAME, TABLE_TYPE 
          FROM information_schema.TABLES 
          WHERE TABLE_SCHEMA = ?`,
@@ -309,8 +389,8 @@ export class MySQLAdapter implements DatabaseAdapter {
     tableName: string
   ): Promise<TableInfo> {
     // Get columns
-    const [columnsResult] = (await conn.connection.query(
-      `SELECT COLUMN_NAME, DATA_TYPE, IS_NULLABLE, COLUMN_DEFAULT, COLUMN_KEY, EXTRA
+    const [columnsResult] = (await conn.pool.query(
+      `SELECT COLUMN_NAME, DATA_TYPE, COLUMN_TYPE, IS_NULLABLE, COLUMN_DEFAULT, COLUMN_KEY, EXTRA
        FROM information_schema.COLUMNS
        WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
        ORDER BY ORDINAL_POSITION`,
@@ -319,6 +399,7 @@ export class MySQLAdapter implements DatabaseAdapter {
       Array<{
         COLUMN_NAME: string;
         DATA_TYPE: string;
+        COLUMN_TYPE: string;
         IS_NULLABLE: string;
         COLUMN_DEFAULT: string | null;
         COLUMN_KEY: string;
@@ -329,17 +410,19 @@ export class MySQLAdapter implements DatabaseAdapter {
 
     const columns: ColumnInfo[] = columnsResult.map((col) => ({
       name: col.COLUMN_NAME,
-      type: col.DATA_TYPE,
+      // COLUMN_TYPE keeps length and modifiers (e.g. varchar(255), int unsigned)
+      type: col.COLUMN_TYPE || col.DATA_TYPE,
       nullable: col.IS_NULLABLE === 'YES',
       defaultValue: col.COLUMN_DEFAULT,
       isPrimaryKey: col.COLUMN_KEY === 'PRI',
+      isAutoIncrement: col.EXTRA?.toLowerCase().includes('auto_increment'),
     }));
 
     const primaryKey = columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
 
     // Get foreign keys
-    const [fkResult] = (await conn.connection.query(
-      `SELECT COLUMN_NAME, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME,
+    const [fkResult] = (await conn.pool.query(
+      `SELECT kcu.CONSTRAINT_NAME, COLUMN_NAME, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME,
               DELETE_RULE, UPDATE_RULE
        FROM information_schema.KEY_COLUMN_USAGE kcu
        JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
@@ -350,6 +433,7 @@ export class MySQLAdapter implements DatabaseAdapter {
       [database, tableName]
     )) as [
       Array<{
+        CONSTRAINT_NAME: string;
         COLUMN_NAME: string;
         REFERENCED_TABLE_NAME: string;
         REFERENCED_COLUMN_NAME: string;
@@ -360,6 +444,7 @@ export class MySQLAdapter implements DatabaseAdapter {
     ];
 
     const foreignKeys: ForeignKeyInfo[] = fkResult.map((fk) => ({
+      name: fk.CONSTRAINT_NAME,
       column: fk.COLUMN_NAME,
       referencedTable: fk.REFERENCED_TABLE_NAME,
       referencedColumn: fk.REFERENCED_COLUMN_NAME,
@@ -368,7 +453,7 @@ export class MySQLAdapter implements DatabaseAdapter {
     }));
 
     // Get indexes
-    const [indexResult] = (await conn.connection.query(
+    const [indexResult] = (await conn.pool.query(
       `SELECT INDEX_NAME, COLUMN_NAME, NON_UNIQUE
        FROM information_schema.STATISTICS
        WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
@@ -407,7 +492,7 @@ export class MySQLAdapter implements DatabaseAdapter {
     );
 
     // Get triggers
-    const [triggerResult] = (await conn.connection.query(
+    const [triggerResult] = (await conn.pool.query(
       `SELECT TRIGGER_NAME, ACTION_TIMING, EVENT_MANIPULATION, ACTION_STATEMENT
        FROM information_schema.TRIGGERS
        WHERE EVENT_OBJECT_SCHEMA = ? AND EVENT_OBJECT_TABLE = ?`,
@@ -431,7 +516,7 @@ export class MySQLAdapter implements DatabaseAdapter {
     }));
 
     // Get row count
-    const [countResult] = (await conn.connection.query(
+    const [countResult] = (await conn.pool.query(
       `SELECT COUNT(*) as count FROM \`${database}\`.\`${tableName}\``
     )) as [Array<{ count: number }>, unknown];
     const rowCount = countResult[0]?.count ?? 0;
@@ -471,7 +556,8 @@ export class MySQLAdapter implements DatabaseAdapter {
   async executeAsync(
     connectionId: string,
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options?: SessionOptions
   ): Promise<
     | { success: true; changes: number; lastInsertRowid: number }
     | { success: false; error: string; errorCode?: ErrorCode }
@@ -483,10 +569,15 @@ export class MySQLAdapter implements DatabaseAdapter {
 
     const startTime = performance.now();
     try {
-      const [result] = (await conn.connection.execute(sql, params)) as [
-        { affectedRows?: number; insertId?: number },
-        unknown,
-      ];
+      // Statements without parameters use the text protocol, which also
+      // supports transaction control (START TRANSACTION, COMMIT, ROLLBACK)
+      const [result] = (await conn.sessions.run(
+        (connection) =>
+          params && params.length > 0
+            ? connection.execute(sql, params)
+            : connection.query(sql),
+        options
+      )) as [{ affectedRows?: number; insertId?: number }, unknown];
       const durationMs = performance.now() - startTime;
 
       sqlLogger.logExecute({
@@ -539,7 +630,8 @@ export class MySQLAdapter implements DatabaseAdapter {
   async queryAsync(
     connectionId: string,
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options?: SessionOptions
   ): Promise<
     | { success: true; columns: string[]; rows: unknown[][] }
     | { success: false; error: string }
@@ -551,10 +643,10 @@ export class MySQLAdapter implements DatabaseAdapter {
 
     const startTime = performance.now();
     try {
-      const [rows] = (await conn.connection.query(sql, params)) as [
-        Array<Record<string, unknown>>,
-        unknown,
-      ];
+      const [rows] = (await conn.sessions.run(
+        (connection) => connection.query(sql, params),
+        options
+      )) as [Array<Record<string, unknown>>, unknown];
       const durationMs = performance.now() - startTime;
 
       if (!Array.isArray(rows) || rows.length === 0) {
@@ -682,7 +774,7 @@ export class MySQLAdapter implements DatabaseAdapter {
 
       // Get count
       const countSql = sql.replace(/SELECT \*/, 'SELECT COUNT(*) as count');
-      const [countResult] = (await conn.connection.query(countSql, params)) as [
+      const [countResult] = (await conn.pool.query(countSql, params)) as [
         Array<{ count: number }>,
         unknown,
       ];
@@ -693,7 +785,7 @@ export class MySQLAdapter implements DatabaseAdapter {
       sql += ` LIMIT ? OFFSET ?`;
       params.push(pageSize, offset);
 
-      const [rows] = (await conn.connection.query(sql, params)) as [
+      const [rows] = (await conn.pool.query(sql, params)) as [
         Array<Record<string, unknown>>,
         unknown,
       ];
@@ -723,9 +815,285 @@ export class MySQLAdapter implements DatabaseAdapter {
     };
   }
 
+  /**
+   * Cancel the statement of an execution, or every statement running on the
+   * connection. KILL QUERY has to be sent from a second connection because
+   * the first one is busy.
+   */
+  async cancelQueryAsync(
+    connectionId: string,
+    executionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const results = await Promise.all(
+      conn.sessions
+        .processIds(executionId)
+        .map((threadId) => this.killQuery(conn.connectionOptions, threadId))
+    );
+    return results.find((result) => !result.success) ?? { success: true };
+  }
+
+  /**
+   * Close the session pinned to a query tab
+   */
+  async releaseSessionAsync(
+    connectionId: string,
+    sessionId: string
+  ): Promise<
+    { success: true; released: boolean } | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      return {
+        success: true,
+        released: await conn.sessions.release(sessionId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to release session',
+      };
+    }
+  }
+
+  getPoolStatus(
+    connectionId: string
+  ): { success: true; status: PoolStatus } | { success: false; error: string } {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const { pool } = conn.pool;
+    return {
+      success: true,
+      status: conn.sessions.status({
+        size: conn.config.poolSize || DEFAULT_POOL_SIZE,
+        open: pool._allConnections.length,
+        idle: pool._freeConnections.length,
+        waiting: pool._connectionQueue.length,
+      }),
+    };
+  }
+
+  /**
+   * Transaction state of a query tab's session, read from the status flags
+   * the server sends with every result
+   */
+  async getTransactionStateAsync(
+    connectionId: string,
+    sessionId?: string
+  ): Promise<
+    | { success: true; transactionState: TransactionState }
+    | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      const [header] = (await conn.sessions.run(
+        (connection) => connection.query('DO 0'),
+        { sessionId }
+      )) as unknown as [{ serverStatus?: number }];
+      return {
+        success: true,
+        transactionState:
+          (header.serverStatus ?? 0) & SERVER_STATUS_IN_TRANS
+            ? 'active'
+            : 'idle',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to read transaction state',
+      };
+    }
+  }
+
+  async beginTransactionAsync(
+    connectionId: string,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    return this.runTransactionStatement(
+      connectionId,
+      'START TRANSACTION',
+      sessionId
+    );
+  }
+
+  async endTransactionAsync(
+    connectionId: string,
+    action: TransactionAction,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    return this.runTransactionStatement(
+      connectionId,
+      action === 'commit' ? 'COMMIT' : 'ROLLBACK',
+      sessionId
+    );
+  }
+
+  private async runTransactionStatement(
+    connectionId: string,
+    sql: string,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      await conn.sessions.run((connection) => connection.query(sql), {
+        sessionId,
+      });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${sql} failed`,
+      };
+    }
+  }
+
+  private async killQuery(
+    connectionOptions: import('mysql2/promise').ConnectionOptions,
+    threadId: number
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    let killer: import('mysql2/promise').Connection | null = null;
+    try {
+      const mysql2 = await this.getMySQL2();
+      killer = await mysql2.createConnection(connectionOptions);
+      await killer.query(`KILL QUERY ${threadId}`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to cancel query',
+      };
+    } finally {
+      await killer?.end().catch(() => {});
+    }
+  }
+
+  /**
+   * Stream the rows of a query on a connection checked out of the pool until
+   * the cursor is closed, so the connection stays usable while the result is
+   * paged. The driver pauses the socket
+   * between reads, so rows are only transferred as they are read. Closing
+   * the cursor during a read kills the query.
+   */
+  async openCursorAsync(
+    connectionId: string,
+    sql: string
+  ): Promise<OpenCursorResult> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const { connectionOptions, filename } = conn;
+    const startTime = performance.now();
+
+    let pooled: MySQLConnection;
+    try {
+      pooled = await conn.pool.getConnection();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      sqlLogger.logQuery({
+        connectionId,
+        dbPath: filename,
+        sql,
+        durationMs: performance.now() - startTime,
+        success: false,
+        error: errorMessage,
+      });
+
+      return { success: false, error: errorMessage };
+    }
+
+    const { connection } = pooled;
+    // Query errors reach the reader through the row stream
+    connection.on('error', () => {});
+
+    let columns: string[] = [];
+    const query = connection.query(sql);
+    query.on('fields', (fields: Array<{ name: string }>) => {
+      columns = fields.map((field) => field.name);
+    });
+    const rows = query.stream()[Symbol.asyncIterator]();
+
+    let rowCount = 0;
+    let reading = false;
+    let closed = false;
+
+    const cursor: RowCursor = {
+      get columns() {
+        return columns;
+      },
+      read: async (count) => {
+        reading = true;
+        try {
+          const page: Record<string, unknown>[] = [];
+          while (page.length < count) {
+            const next = await rows.next();
+            if (next.done) {
+              break;
+            }
+            page.push(next.value as Record<string, unknown>);
+          }
+          rowCount += page.length;
+          return page;
+        } finally {
+          reading = false;
+        }
+      },
+      close: async () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        if (reading) {
+          await this.killQuery(connectionOptions, connection.threadId);
+        }
+        // A half-read result can't be handed back to the pool
+        pooled.destroy();
+
+        sqlLogger.logQuery({
+          connectionId,
+          dbPath: filename,
+          sql,
+          durationMs: performance.now() - startTime,
+          success: true,
+          rowCount,
+        });
+      },
+    };
+
+    return { success: true, cursor };
+  }
+
   async executeQueryAsync(
     connectionId: string,
-    query: string
+    query: string,
+    options?: ExecuteQueryOptions
   ): Promise<
     | {
         success: true;
@@ -748,32 +1116,34 @@ export class MySQLAdapter implements DatabaseAdapter {
       trimmed.startsWith('DESCRIBE');
 
     try {
-      if (isSelect) {
-        const [rows] = (await conn.connection.query(query)) as [
-          Array<Record<string, unknown>>,
-          unknown,
-        ];
-        if (!Array.isArray(rows) || rows.length === 0) {
-          return { success: true, columns: [], rows: [] };
+      return await conn.sessions.run(async (connection) => {
+        if (isSelect) {
+          const [rows] = (await connection.query(query, options?.params)) as [
+            Array<Record<string, unknown>>,
+            unknown,
+          ];
+          if (!Array.isArray(rows) || rows.length === 0) {
+            return { success: true, columns: [], rows: [] };
+          }
+          return {
+            success: true,
+            columns: Object.keys(rows[0]),
+            rows: rows as Record<string, unknown>[],
+          };
+        } else {
+          const [result] = (await connection.execute(
+            query,
+            options?.params
+          )) as [{ affectedRows?: number; insertId?: number }, unknown];
+          return {
+            success: true,
+            changes: (result as { affectedRows?: number }).affectedRows ?? 0,
+            lastInsertRowid: Number(
+              (result as { insertId?: number }).insertId ?? 0
+            ),
+          };
         }
-        return {
-          success: true,
-          columns: Object.keys(rows[0]),
-          rows: rows as Record<string, unknown>[],
-        };
-      } else {
-        const [result] = (await conn.connection.execute(query)) as [
-          { affectedRows?: number; insertId?: number },
-          unknown,
-        ];
-        return {
-          success: true,
-          changes: (result as { affectedRows?: number }).affectedRows ?? 0,
-          lastInsertRowid: Number(
-            (result as { insertId?: number }).insertId ?? 0
-          ),
-        };
-      }
+      }, options);
     } catch (error) {
       return {
         success: false,
@@ -800,9 +1170,15 @@ export class MySQLAdapter implements DatabaseAdapter {
     };
   }
 
+  /**
+   * Plan of a query. With analyze the query runs under EXPLAIN ANALYZE, so
+   * only a single read-only statement is accepted, and it runs in a read-only
+   * transaction that is rolled back.
+   */
   async explainQueryAsync(
     connectionId: string,
-    sql: string
+    sql: string,
+    analyze = false
   ): Promise<
     | { success: true; plan: QueryPlanNode; stats: QueryPlanStats }
     | { success: false; error: string }
@@ -811,9 +1187,28 @@ export class MySQLAdapter implements DatabaseAdapter {
     if (!conn) {
       return { success: false, error: 'Connection not found' };
     }
+    if (analyze && !isReadOnlyStatement(sql, 'mysql')) {
+      return { success: false, error: EXPLAIN_ANALYZE_READ_ONLY_ERROR };
+    }
 
     try {
-      const [rows] = (await conn.connection.query(`EXPLAIN ${sql}`)) as [
+      if (analyze) {
+        const tree = await conn.sessions.run(async (connection) => {
+          await connection.query('START TRANSACTION READ ONLY');
+          try {
+            const [rows] = (await connection.query(
+              `EXPLAIN ANALYZE FORMAT=TREE ${sql}`
+            )) as [Array<{ EXPLAIN: string }>, unknown];
+            return rows[0]?.EXPLAIN ?? '';
+          } finally {
+            await connection.query('ROLLBACK');
+          }
+        });
+
+        return { success: true, ...parseMySqlTreePlan(tree) };
+      }
+
+      const [rows] = (await conn.pool.query(`EXPLAIN ${sql}`)) as [
         Array<Record<string, unknown>>,
         unknown,
       ];
@@ -887,7 +1282,7 @@ export class MySQLAdapter implements DatabaseAdapter {
           const values = Object.values(change.newValues);
           const placeholders = columns.map(() => '?').join(', ');
           const sql = `INSERT INTO \`${schema}\`.\`${change.table}\` (\`${columns.join('`, `')}\`) VALUES (${placeholders})`;
-          await conn.connection.execute(sql, values);
+          await conn.pool.execute(sql, values);
           appliedCount++;
         } else if (
           change.type === 'update' &&
@@ -898,11 +1293,11 @@ export class MySQLAdapter implements DatabaseAdapter {
           const setClause = columns.map((col) => `\`${col}\` = ?`).join(', ');
           const values = [...Object.values(change.newValues), change.rowId];
           const sql = `UPDATE \`${schema}\`.\`${change.table}\` SET ${setClause} WHERE \`${change.primaryKeyColumn}\` = ?`;
-          await conn.connection.execute(sql, values);
+          await conn.pool.execute(sql, values);
           appliedCount++;
         } else if (change.type === 'delete' && change.primaryKeyColumn) {
           const sql = `DELETE FROM \`${schema}\`.\`${change.table}\` WHERE \`${change.primaryKeyColumn}\` = ?`;
-          await conn.connection.execute(sql, [change.rowId]);
+          await conn.pool.execute(sql, [change.rowId]);
           appliedCount++;
         }
       }
@@ -6,26 +6,61 @@
 
 import type {
   ColumnInfo,
+  CustomTypeInfo,
   DatabaseConnectionConfig,
   DatabaseType,
   ErrorCode,
+  ErrorPosition,
+  ExtensionInfo,
   ForeignKeyInfo,
   GetTableDataResponse,
   IndexInfo,
   PendingChangeInfo,
+  PolicyInfo,
+  PoolStatus,
   QueryPlanNode,
   QueryPlanStats,
+  RoutineInfo,
   SchemaInfo,
+  SequenceInfo,
+  SupabaseRole,
+  SupabaseSessionInfo,
   TableInfo,
+  TransactionAction,
+  TransactionState,
   TriggerInfo,
   ValidationResult,
 } from '@shared/types';
+import type {
+  CustomTypeRow,
+  ExtensionRow,
+  RoutineRow,
+  SequenceRow,
+} from './postgresql-objects';
+import type { SessionOptions } from './server-sessions';
+import type { SshTunnel } from './ssh-tunnel';
 import type {
   AdapterConnectionInfo,
   DatabaseAdapter,
+  ExecuteQueryOptions,
+  OpenCursorResult,
   OpenResult,
+  RowCursor,
 } from './types';
+import { isReadOnlyStatement } from '@shared/sql-statements';
+import { offsetToLineColumn } from '@/lib/error-parser';
 import { sqlLogger } from '../sql-logger';
+import {
+  buildMaterializedViewSql,
+  toCustomTypeInfo,
+  toExtensionInfo,
+  toRoutineInfo,
+  toSequenceInfo,
+} from './postgresql-objects';
+import { parsePostgresPlan } from './query-plan-parser';
+import { ServerSessions } from './server-sessions';
+import { openSshTunnel } from './ssh-tunnel';
+import { DEFAULT_POOL_SIZE, EXPLAIN_ANALYZE_READ_ONLY_ERROR } from './types';
 
 // PostgreSQL types - we'll use dynamic import to avoid issues if not installed
 interface PGClient {
@@ -39,17 +74,48 @@ interface PGClient {
   }>;
   end: () => Promise<void>;
   connect: () => Promise<void>;
+  /** Set on clients checked out of a pool; `true` closes the client */
+  release?: (destroy?: boolean) => void;
+}
+
+interface PGPool {
+  connect: () => Promise<PGClient>;
+  end: () => Promise<void>;
+  readonly totalCount: number;
+  readonly idleCount: number;
+  readonly waitingCount: number;
+}
+
+/** What a session was prepared with, so it is only done once */
+interface PGSessionState {
+  /** Server process ID of the session, passed to pg_cancel_backend */
+  backendPid: number | null;
+  role: SupabaseRole | null;
 }
 
 interface PostgreSQLConnectionInfo {
   id: string;
-  client: PGClient;
+  pool: PGPool;
+  /** Pinned sessions and the sessions running queries */
+  sessions: ServerSessions<PGClient>;
   config: DatabaseConnectionConfig;
+  /** Driver options, reused to open side sessions */
+  clientConfig: import('pg').ClientConfig;
+  /** SSH tunnel the connection runs through, closed with the connection */
+  tunnel: SshTunnel | null;
+  /** Role assumed with SET ROLE, applied to every session */
+  sessionRole: SupabaseRole | null;
   filename: string;
   isReadOnly: boolean;
   databaseType: DatabaseType;
 }
 
+/** Roles a direct Supabase connection can switch between */
+const SUPABASE_ROLES: SupabaseRole[] = ['service_role', 'anon'];
+
+/** SQLSTATE of statements sent to a transaction that failed */
+const PG_TRANSACTION_ABORTED = '25P02';
+
 // Simple ID generator
 let idCounter = 0;
 function generateId(prefix: string): string {
@@ -64,6 +130,7 @@ function generateId(prefix: string): string {
 export class PostgreSQLAdapter implements DatabaseAdapter {
   readonly type: DatabaseType = 'postgresql';
   private connections: Map<string, PostgreSQLConnectionInfo> = new Map();
+  private sessionStates: WeakMap<PGClient, PGSessionState> = new WeakMap();
   private pg: typeof import('pg') | null = null;
 
   constructor(adapterType: DatabaseType = 'postgresql') {
@@ -83,6 +150,55 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     return this.pg;
   }
 
+  /**
+   * Run work on a session of the connection, pooled or pinned, once the
+   * session has its backend PID and the connection's role.
+   */
+  private withSession<R>(
+    conn: PostgreSQLConnectionInfo,
+    work: (client: PGClient) => Promise<R>,
+    options?: SessionOptions
+  ): Promise<R> {
+    return conn.sessions.run(async (client) => {
+      await this.prepareSession(conn, client);
+      return work(client);
+    }, options);
+  }
+
+  private runQuery(
+    conn: PostgreSQLConnectionInfo,
+    sql: string,
+    params?: unknown[],
+    options?: SessionOptions
+  ) {
+    return this.withSession(
+      conn,
+      (client) => client.query(sql, params),
+      options
+    );
+  }
+
+  private async prepareSession(
+    conn: PostgreSQLConnectionInfo,
+    client: PGClient
+  ): Promise<void> {
+    let state = this.sessionStates.get(client);
+    if (!state) {
+      const pidResult = await client.query('SELECT pg_backend_pid() AS pid');
+      state = {
+        backendPid: (pidResult.rows[0] as { pid: number })?.pid ?? null,
+        role: null,
+      };
+      this.sessionStates.set(client, state);
+    }
+    if (state.role !== conn.sessionRole) {
+      await client.query(
+        conn.sessionRole ? `SET ROLE ${conn.sessionRole}` : 'RESET ROLE'
+      );
+      state.role = conn.sessionRole;
+    }
+  }
+
   async open(config: DatabaseConnectionConfig): Promise<OpenResult> {
     // For Supabase, extract connection info from URL
     let host = config.host;
@@ -168,12 +284,19 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
       };
     }
 
+    let tunnel: SshTunnel | null = null;
+    let pool: PGPool | null = null;
+
     try {
       const pg = await this.getPG();
 
+      if (config.ssh) {
+        tunnel = await openSshTunnel(config.ssh, host, port);
+      }
+
       const connectionConfig: import('pg').ClientConfig = {
-        host,
-        port,
+        host: tunnel?.localHost ?? host,
+        port: tunnel?.localPort ?? port,
         user: username,
         password,
         database: database || 'postgres',
@@ -190,12 +313,24 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
             ca: config.ssl.ca,
             cert: config.ssl.cert,
             key: config.ssl.key,
+            // Verify the certificate against the server, not the tunnel
+            servername: tunnel ? host : undefined,
           };
         }
       }
 
-      const client = new pg.Client(connectionConfig);
-      await client.connect();
+      pool = new pg.Pool({
+        ...connectionConfig,
+        max: config.poolSize || DEFAULT_POOL_SIZE,
+      }) as unknown as PGPool;
+      // Idle sessions that drop are replaced on the next checkout
+      (pool as unknown as import('pg').Pool).on('error', () => {});
+
+      // The login role bypasses RLS like service_role; anon is assumed
+      const sessionRole =
+        config.type === 'supabase' && config.supabaseRole === 'anon'
+          ? 'anon'
+          : null;
 
       const id = generateId(config.type === 'supabase' ? 'supabase' : 'pg');
       const filename =
@@ -203,13 +338,26 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
       const connectionInfo: PostgreSQLConnectionInfo = {
         id,
-        client: client as unknown as PGClient,
+        pool,
+        sessions: new ServerSessions<PGClient>({
+          acquire: () => connectionInfo.pool.connect(),
+          release: (client) => client.release?.(),
+          close: async (client) => client.release?.(true),
+          processId: (client) =>
+            this.sessionStates.get(client)?.backendPid ?? null,
+        }),
         config,
+        clientConfig: connectionConfig,
+        tunnel,
+        sessionRole,
         filename,
         isReadOnly: config.readOnly ?? false,
         databaseType: config.type || 'postgresql',
       };
 
+      // Fail now rather than on first use, including a role we cannot assume
+      await this.runQuery(connectionInfo, 'SELECT 1');
+
       this.connections.set(id, connectionInfo);
 
       // Log successful open
@@ -228,9 +376,13 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
           isEncrypted: !!(config.ssl || config.type === 'supabase'),
           isReadOnly: config.readOnly ?? false,
           databaseType: config.type || 'postgresql',
+          supabase: this.getSupabaseSession(connectionInfo),
         },
       };
     } catch (error) {
+      await pool?.end().catch(() => {});
+      tunnel?.close();
+
       const errorMessage =
         error instanceof Error
           ? error.message
@@ -259,6 +411,14 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
               'Check pg_hba.conf if you have authentication issues',
             ];
 
+      if (config.ssh) {
+        troubleshootingSteps.push(
+          'Verify the SSH host, port and credentials',
+          'Check that the bastion host is in your known_hosts file',
+          'Ensure the database host is reachable from the bastion host'
+        );
+      }
+
       return {
         success: false,
         error: errorMessage,
@@ -278,14 +438,20 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     try {
       // Handle the promise with catch to log any closure errors
-      conn.client.end().catch((err) => {
-        sqlLogger.logClose({
-          connectionId,
-          dbPath: conn.filename,
-          success: false,
-          error: err instanceof Error ? err.message : 'Connection close failed',
-        });
-      });
+      conn.sessions
+        .closeAll()
+        .then(() => conn.pool.end())
+        .catch((err) => {
+          sqlLogger.logClose({
+            connectionId,
+            dbPath: conn.filename,
+            success: false,
+            error:
+              err instanceof Error ? err.message : 'Connection close failed',
+          });
+        })
+        // The tunnel outlives the client so the goodbye reaches the server
+        .finally(() => conn.tunnel?.close());
       this.connections.delete(connectionId);
 
       sqlLogger.logClose({
@@ -323,9 +489,57 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
       isEncrypted: !!(conn.config.ssl || conn.config.type === 'supabase'),
       isReadOnly: conn.isReadOnly,
       databaseType: conn.databaseType,
+      supabase: this.getSupabaseSession(conn),
     };
   }
 
+  private getSupabaseSession(
+    conn: PostgreSQLConnectionInfo
+  ): SupabaseSessionInfo | undefined {
+    if (conn.databaseType !== 'supabase') {
+      return undefined;
+    }
+    return {
+      mode: 'postgres',
+      role: conn.sessionRole ?? 'service_role',
+      roles: SUPABASE_ROLES,
+    };
+  }
+
+  /**
+   * Switch the Supabase role of a connection. anon is assumed with SET ROLE
+   * so Row Level Security applies; service_role returns to the login role.
+   */
+  async setSupabaseRoleAsync(
+    connectionId: string,
+    role: SupabaseRole
+  ): Promise<
+    | { success: true; supabase: SupabaseSessionInfo }
+    | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+    if (conn.databaseType !== 'supabase') {
+      return { success: false, error: 'Not a Supabase connection' };
+    }
+
+    const previousRole = conn.sessionRole;
+    conn.sessionRole = role === 'anon' ? 'anon' : null;
+    try {
+      // Sessions switch on their next query; this one checks the role
+      await this.runQuery(conn, 'SELECT 1');
+      return { success: true, supabase: this.getSupabaseSession(conn)! };
+    } catch (error) {
+      conn.sessionRole = previousRole;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to switch role',
+      };
+    }
+  }
+
   async getSchemaAsync(connectionId: string): Promise<
     | {
         success: true;
@@ -342,7 +556,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     try {
       // Get all schemas (excluding system schemas)
-      const schemasResult = await conn.client.query(
+      const schemasResult = await this.runQuery(
+        conn,
         `SELECT schema_name 
          FROM information_schema.schemata 
          WHERE schema_name NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
@@ -359,7 +574,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         const schemaName = schemaRow.schema_name;
 
         // Get tables and views for this schema
-        const tablesResult = await conn.client.query(
+        const tablesResult = await this.runQuery(
+          conn,
           `SELECT table_name, table_type 
            FROM information_schema.tables 
            WHERE table_schema = $1
@@ -386,14 +602,17 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
           }
         }
 
+        const objects = await this.getSchemaObjectsAsync(conn, schemaName);
+
         schemas.push({
           name: schemaName,
           tables,
           views,
+          ...objects,
         });
 
         allTables.push(...tables);
-        allViews.push(...views);
+        allViews.push(...views, ...objects.materializedViews);
       }
 
       return { success: true, schemas, tables: allTables, views: allViews };
@@ -419,14 +638,164 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     };
   }
 
+  /**
+   * Materialized views, routines, sequences, enum and domain types and
+   * extensions of a schema. Objects that belong to an extension are left out.
+   */
+  private async getSchemaObjectsAsync(
+    conn: PostgreSQLConnectionInfo,
+    schema: string
+  ): Promise<{
+    materializedViews: TableInfo[];
+    routines: RoutineInfo[];
+    sequences: SequenceInfo[];
+    types: CustomTypeInfo[];
+    extensions: ExtensionInfo[];
+  }> {
+    const matviewResult = await this.runQuery(
+      conn,
+      `SELECT matviewname AS name, definition, ispopulated
+       FROM pg_matviews
+       WHERE schemaname = $1
+       ORDER BY matviewname`,
+      [schema]
+    );
+    const materializedViews: TableInfo[] = [];
+    for (const row of matviewResult.rows as Array<{
+      name: string;
+      definition: string;
+      ispopulated: boolean;
+    }>) {
+      const info = await this.getTableInfoAsync(conn, schema, row.name);
+      materializedViews.push({
+        ...info,
+        type: 'view',
+        materialized: true,
+        sql: buildMaterializedViewSql(
+          schema,
+          row.name,
+          row.definition,
+          row.ispopulated
+        ),
+      });
+    }
+
+    const routineResult = await this.runQuery(
+      conn,
+      `SELECT p.proname AS name, p.prokind AS kind,
+              pg_get_function_arguments(p.oid) AS arguments,
+              CASE WHEN p.prokind <> 'p' THEN pg_get_function_result(p.oid) END AS return_type,
+              l.lanname AS language,
+              CASE WHEN p.prokind <> 'a' THEN pg_get_functiondef(p.oid) END AS definition
+       FROM pg_proc p
+       JOIN pg_namespace n ON p.pronamespace = n.oid
+       JOIN pg_language l ON p.prolang = l.oid
+       WHERE n.nspname = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM pg_depend d
+           WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid
+             AND d.deptype = 'e'
+         )
+       ORDER BY p.proname, pg_get_function_arguments(p.oid)`,
+      [schema]
+    );
+
+    // Identity sequences are internal to their column and not listed
+    const sequenceResult = await this.runQuery(
+      conn,
+      `SELECT s.sequencename AS name, s.data_type::text AS data_type,
+              s.start_value::text AS start_value, s.min_value::text AS min_value,
+              s.max_value::text AS max_value, s.increment_by::text AS increment,
+              s.cycle, owner.owner_table, owner.owner_column
+       FROM pg_sequences s
+       JOIN pg_namespace n ON n.nspname = s.schemaname
+       JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+       LEFT JOIN LATERAL (
+         SELECT d.refobjid::regclass::text AS owner_table,
+                a.attname AS owner_column
+         FROM pg_depend d
+         JOIN pg_attribute a
+           ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+         WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid
+           AND d.deptype = 'a'
+         LIMIT 1
+       ) owner ON true
+       WHERE s.schemaname = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM pg_depend d
+           WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid
+             AND d.deptype IN ('i', 'e')
+         )
+       ORDER BY s.sequencename`,
+      [schema]
+    );
+
+    const typeResult = await this.runQuery(
+      conn,
+      `SELECT t.typname AS name, t.typtype AS kind,
+              (SELECT array_to_json(array_agg(e.enumlabel ORDER BY e.enumsortorder))
+               FROM pg_enum e WHERE e.enumtypid = t.oid) AS enum_values,
+              CASE WHEN t.typtype = 'd'
+                THEN format_type(t.typbasetype, t.typtypmod) END AS base_type,
+              t.typnotnull AS not_null, t.typdefault AS default_value,
+              (SELECT json_agg(json_build_object(
+                        'name', con.conname,
+                        'definition', pg_get_constraintdef(con.oid))
+                      ORDER BY con.conname)
+               FROM pg_constraint con
+               WHERE con.contypid = t.oid AND con.contype = 'c') AS constraints
+       FROM pg_type t
+       JOIN pg_namespace n ON t.typnamespace = n.oid
+       WHERE n.nspname = $1 AND t.typtype IN ('e', 'd')
+         AND NOT EXISTS (
+           SELECT 1 FROM pg_depend d
+           WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid
+             AND d.deptype = 'e'
+         )
+       ORDER BY t.typname`,
+      [schema]
+    );
+
+    const extensionResult = await this.runQuery(
+      conn,
+      `SELECT e.extname AS name, e.extversion AS version
+       FROM pg_extension e
+       JOIN pg_namespace n ON e.extnamespace = n.oid
+       WHERE n.nspname = $1
+       ORDER BY e.extname`,
+      [schema]
+    );
+
+    return {
+      materializedViews,
+      routines: (routineResult.rows as RoutineRow[]).map((row) =>
+        toRoutineInfo(schema, row)
+      ),
+      sequences: (sequenceResult.rows as SequenceRow[]).map((row) =>
+        toSequenceInfo(schema, row)
+      ),
+      types: (typeResult.rows as CustomTypeRow[]).map((row) =>
+        toCustomTypeInfo(schema, row)
+      ),
+      extensions: (extensionResult.rows as ExtensionRow[]).map((row) =>
+        toExtensionInfo(schema, row)
+      ),
+    };
+  }
+
   private async getTableInfoAsync(
     conn: PostgreSQLConnectionInfo,
     schema: string,
     tableName: string
   ): Promise<TableInfo> {
     // Get columns
-    const columnsResult = await conn.client.query(
+    let columnsResult = await this.runQuery(
+      conn,
       `SELECT column_name, data_type, is_nullable, column_default,
+              (SELECT format_type(a.atttypid, a.atttypmod)
+               FROM pg_attribute a
+               WHERE a.attrelid = (quote_ident(c.table_schema) || '.' || quote_ident(c.table_name))::regclass
+                 AND a.attname = c.column_name) as full_type,
               (SELECT COUNT(*) > 0 FROM information_schema.key_column_usage kcu
                JOIN information_schema.table_constraints tc ON kcu.constraint_name = tc.constraint_name
                WHERE kcu.table_schema = c.table_schema 
@@ -439,17 +808,39 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
       [schema, tableName]
     );
 
+    // Materialized views are not part of information_schema
+    if (columnsResult.rows.length === 0) {
+      columnsResult = await this.runQuery(
+        conn,
+        `SELECT a.attname AS column_name,
+                format_type(a.atttypid, a.atttypmod) AS data_type,
+                NULL AS full_type,
+                CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+                NULL AS column_default,
+                false AS is_primary_key
+         FROM pg_attribute a
+         JOIN pg_class c ON a.attrelid = c.oid
+         JOIN pg_namespace n ON c.relnamespace = n.oid
+         WHERE n.nspname = $1 AND c.relname = $2
+           AND c.relkind = 'm' AND a.attnum > 0 AND NOT a.attisdropped
+         ORDER BY a.attnum`,
+        [schema, tableName]
+      );
+    }
+
     const columns: ColumnInfo[] = (
       columnsResult.rows as Array<{
         column_name: string;
         data_type: string;
+        full_type: string | null;
         is_nullable: string;
         column_default: string | null;
         is_primary_key: boolean;
       }>
     ).map((col) => ({
       name: col.column_name,
-      type: col.data_type,
+      // Prefer the full type (e.g. character varying(255)) so DDL can be regenerated
+      type: col.full_type ?? col.data_type,
       nullable: col.is_nullable === 'YES',
       defaultValue: col.column_default,
       isPrimaryKey: col.is_primary_key,
@@ -458,8 +849,10 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     const primaryKey = columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
 
     // Get foreign keys
-    const fkResult = await conn.client.query(
+    const fkResult = await this.runQuery(
+      conn,
       `SELECT
+         tc.constraint_name,
          kcu.column_name,
          ccu.table_name AS referenced_table_name,
          ccu.column_name AS referenced_column_name,
@@ -483,6 +876,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     const foreignKeys: ForeignKeyInfo[] = (
       fkResult.rows as Array<{
+        constraint_name: string;
         column_name: string;
         referenced_table_name: string;
         referenced_column_name: string;
@@ -490,6 +884,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         update_rule: string;
       }>
     ).map((fk) => ({
+      name: fk.constraint_name,
       column: fk.column_name,
       referencedTable: fk.referenced_table_name,
       referencedColumn: fk.referenced_column_name,
@@ -498,7 +893,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     }));
 
     // Get indexes
-    const indexResult = await conn.client.query(
+    const indexResult = await this.runQuery(
+      conn,
       `SELECT
          i.relname AS index_name,
          a.attname AS column_name,
@@ -544,7 +940,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     );
 
     // Get triggers
-    const triggerResult = await conn.client.query(
+    const triggerResult = await this.runQuery(
+      conn,
       `SELECT
          t.tgname AS trigger_name,
          CASE
@@ -582,11 +979,57 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
       sql: t.trigger_def,
     }));
 
-    // Get row count
-    const countResult = await conn.client.query(
-      `SELECT COUNT(*) as count FROM "${schema}"."${tableName}"`
+    // Get Row Level Security state and policies
+    const rlsResult = await this.runQuery(
+      conn,
+      `SELECT c.relrowsecurity AS enabled, c.relispopulated AS populated
+       FROM pg_class c
+       JOIN pg_namespace n ON c.relnamespace = n.oid
+       WHERE n.nspname = $1 AND c.relname = $2`,
+      [schema, tableName]
+    );
+    const relation = rlsResult.rows[0] as
+      | { enabled: boolean; populated: boolean }
+      | undefined;
+    const rowLevelSecurity = relation?.enabled ?? false;
+
+    const policyResult = await this.runQuery(
+      conn,
+      `SELECT policyname, permissive, array_to_json(roles) AS roles, cmd,
+              qual, with_check
+       FROM pg_policies
+       WHERE schemaname = $1 AND tablename = $2
+       ORDER BY policyname`,
+      [schema, tableName]
     );
-    const rowCount = Number((countResult.rows[0] as { count: string }).count);
+
+    const policies: PolicyInfo[] = (
+      policyResult.rows as Array<{
+        policyname: string;
+        permissive: string;
+        roles: string[];
+        cmd: string;
+        qual: string | null;
+        with_check: string | null;
+      }>
+    ).map((p) => ({
+      name: p.policyname,
+      command: p.cmd,
+      roles: p.roles,
+      permissive: p.permissive === 'PERMISSIVE',
+      using: p.qual,
+      withCheck: p.with_check,
+    }));
+
+    // Get row count (a materialized view created WITH NO DATA cannot be read)
+    let rowCount: number | undefined;
+    if (relation?.populated !== false) {
+      const countResult = await this.runQuery(
+        conn,
+        `SELECT COUNT(*) as count FROM "${schema}"."${tableName}"`
+      );
+      rowCount = Number((countResult.rows[0] as { count: string }).count);
+    }
 
     return {
       name: tableName,
@@ -599,6 +1042,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
       triggers,
       rowCount,
       sql: '', // Would need to reconstruct CREATE TABLE
+      rowLevelSecurity,
+      policies,
     };
   }
 
@@ -618,7 +1063,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
   async executeAsync(
     connectionId: string,
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options?: SessionOptions
   ): Promise<
     | { success: true; changes: number; lastInsertRowid: number }
     | { success: false; error: string; errorCode?: ErrorCode }
@@ -630,7 +1076,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     const startTime = performance.now();
     try {
-      const result = await conn.client.query(sql, params);
+      const result = await this.runQuery(conn, sql, params, options);
       const durationMs = performance.now() - startTime;
 
       sqlLogger.logExecute({
@@ -681,7 +1127,8 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
   async queryAsync(
     connectionId: string,
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options?: SessionOptions
   ): Promise<
     | { success: true; columns: string[]; rows: unknown[][] }
     | { success: false; error: string }
@@ -693,7 +1140,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     const startTime = performance.now();
     try {
-      const result = await conn.client.query(sql, params);
+      const result = await this.runQuery(conn, sql, params, options);
       const durationMs = performance.now() - startTime;
 
       const rows = result.rows as Array<Record<string, unknown>>;
@@ -819,7 +1266,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
       // Get count
       const countSql = sql.replace(/SELECT \*/, 'SELECT COUNT(*)');
-      const countResult = await conn.client.query(countSql, params);
+      const countResult = await this.runQuery(conn, countSql, params);
       const totalRows = Number(
         (countResult.rows[0] as { count: string }).count
       );
@@ -829,7 +1276,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
       params.push(pageSize, offset);
       sql += ` LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
 
-      const result = await conn.client.query(sql, params);
+      const result = await this.runQuery(conn, sql, params);
 
       // Get column info
       const tableInfo = await this.getTableInfoAsync(conn, schemaName, table);
@@ -856,9 +1303,281 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     };
   }
 
+  /**
+   * Cancel the statement of an execution, or every statement running on the
+   * connection, with pg_cancel_backend sent from a short-lived side session.
+   * Behind a transaction-mode pooler the backend can change between
+   * statements, so this is best effort there.
+   */
+  async cancelQueryAsync(
+    connectionId: string,
+    executionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const results = await Promise.all(
+      conn.sessions
+        .processIds(executionId)
+        .map((pid) => this.cancelBackend(conn.clientConfig, pid))
+    );
+    return results.find((result) => !result.success) ?? { success: true };
+  }
+
+  /**
+   * Close the session pinned to a query tab
+   */
+  async releaseSessionAsync(
+    connectionId: string,
+    sessionId: string
+  ): Promise<
+    { success: true; released: boolean } | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      return {
+        success: true,
+        released: await conn.sessions.release(sessionId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to release session',
+      };
+    }
+  }
+
+  getPoolStatus(
+    connectionId: string
+  ): { success: true; status: PoolStatus } | { success: false; error: string } {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const { pool } = conn;
+    return {
+      success: true,
+      status: conn.sessions.status({
+        size: conn.config.poolSize || DEFAULT_POOL_SIZE,
+        open: pool.totalCount,
+        idle: pool.idleCount,
+        waiting: pool.waitingCount,
+      }),
+    };
+  }
+
+  /**
+   * Transaction state of a query tab's session. A failed transaction rejects
+   * every statement until it is rolled back.
+   */
+  async getTransactionStateAsync(
+    connectionId: string,
+    sessionId?: string
+  ): Promise<
+    | { success: true; transactionState: TransactionState }
+    | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      // Statements after BEGIN run later than the transaction started
+      const result = await this.withSession(
+        conn,
+        (client) =>
+          client.query(
+            'SELECT transaction_timestamp() <> statement_timestamp() AS in_transaction'
+          ),
+        { sessionId }
+      );
+      const row = result.rows[0] as { in_transaction: boolean } | undefined;
+      return {
+        success: true,
+        transactionState: row?.in_transaction ? 'active' : 'idle',
+      };
+    } catch (error) {
+      if ((error as { code?: string }).code === PG_TRANSACTION_ABORTED) {
+        return { success: true, transactionState: 'failed' };
+      }
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to read transaction state',
+      };
+    }
+  }
+
+  async beginTransactionAsync(
+    connectionId: string,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    return this.runTransactionStatement(connectionId, 'BEGIN', sessionId);
+  }
+
+  async endTransactionAsync(
+    connectionId: string,
+    action: TransactionAction,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    return this.runTransactionStatement(
+      connectionId,
+      action === 'commit' ? 'COMMIT' : 'ROLLBACK',
+      sessionId
+    );
+  }
+
+  private async runTransactionStatement(
+    connectionId: string,
+    sql: string,
+    sessionId?: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      await this.withSession(conn, (client) => client.query(sql), {
+        sessionId,
+      });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${sql} failed`,
+      };
+    }
+  }
+
+  private async cancelBackend(
+    clientConfig: import('pg').ClientConfig,
+    backendPid: number
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const pg = await this.getPG();
+    const client = new pg.Client(clientConfig);
+    try {
+      await client.connect();
+      await client.query('SELECT pg_cancel_backend($1)', [backendPid]);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to cancel query',
+      };
+    } finally {
+      await client.end().catch(() => {});
+    }
+  }
+
+  /**
+   * Open a server-side cursor (DECLARE ... CURSOR) on a session checked out
+   * of the pool until the cursor is closed, so the connection stays usable
+   * while the result is paged with FETCH FORWARD. Closing the cursor during
+   * a fetch cancels the fetch.
+   */
+  async openCursorAsync(
+    connectionId: string,
+    sql: string
+  ): Promise<OpenCursorResult> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const { clientConfig, filename } = conn;
+    const query = sql.trim().replace(/;+$/, '');
+    const startTime = performance.now();
+
+    let pooled: PGClient | null = null;
+    try {
+      pooled = await conn.pool.connect();
+      await this.prepareSession(conn, pooled);
+      await pooled.query('BEGIN');
+      await pooled.query(`DECLARE sqlpro_cursor NO SCROLL CURSOR FOR ${query}`);
+    } catch (error) {
+      pooled?.release?.(true);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      sqlLogger.logQuery({
+        connectionId,
+        dbPath: filename,
+        sql,
+        durationMs: performance.now() - startTime,
+        success: false,
+        error: errorMessage,
+      });
+
+      return { success: false, error: errorMessage };
+    }
+
+    const client = pooled;
+    const backendPid = this.sessionStates.get(client)?.backendPid ?? null;
+    let columns: string[] = [];
+    let rowCount = 0;
+    let reading = false;
+    let closed = false;
+
+    const cursor: RowCursor = {
+      get columns() {
+        return columns;
+      },
+      read: async (count) => {
+        reading = true;
+        try {
+          const result = await client.query(
+            `FETCH FORWARD ${Math.max(1, Math.floor(count))} FROM sqlpro_cursor`
+          );
+          columns = (result.fields ?? []).map((field) => field.name);
+          rowCount += result.rows.length;
+          return result.rows as Record<string, unknown>[];
+        } finally {
+          reading = false;
+        }
+      },
+      close: async () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        if (reading && backendPid !== null) {
+          await this.cancelBackend(clientConfig, backendPid);
+        }
+        // Closing the session drops the cursor and its transaction and
+        // frees its place in the pool
+        client.release?.(true);
+
+        sqlLogger.logQuery({
+          connectionId,
+          dbPath: filename,
+          sql,
+          durationMs: performance.now() - startTime,
+          success: true,
+          rowCount,
+        });
+      },
+    };
+
+    return { success: true, cursor };
+  }
+
   async executeQueryAsync(
     connectionId: string,
-    query: string
+    query: string,
+    options?: ExecuteQueryOptions
   ): Promise<
     | {
         success: true;
@@ -867,7 +1586,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         changes?: number;
         lastInsertRowid?: number;
       }
-    | { success: false; error: string }
+    | { success: false; error: string; errorPosition?: ErrorPosition }
   > {
     const conn = this.connections.get(connectionId);
     if (!conn) {
@@ -878,7 +1597,11 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     const isSelect = trimmed.startsWith('SELECT') || trimmed.startsWith('WITH');
 
     try {
-      const result = await conn.client.query(query);
+      const result = await this.withSession(
+        conn,
+        (client) => client.query(query, options?.params),
+        options
+      );
 
       if (isSelect) {
         const rows = result.rows as Array<Record<string, unknown>>;
@@ -898,9 +1621,13 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         };
       }
     } catch (error) {
+      // Server errors carry the 1-based character position of the problem
+      const position = Number((error as { position?: string }).position);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorPosition:
+          position > 0 ? offsetToLineColumn(query, position - 1) : undefined,
       };
     }
   }
@@ -921,9 +1648,15 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     };
   }
 
+  /**
+   * Plan of a query. With analyze the query runs under EXPLAIN ANALYZE, so
+   * only a single read-only statement is accepted, and it runs in a read-only
+   * transaction that is rolled back.
+   */
   async explainQueryAsync(
     connectionId: string,
-    sql: string
+    sql: string,
+    analyze = false
   ): Promise<
     | { success: true; plan: QueryPlanNode; stats: QueryPlanStats }
     | { success: false; error: string }
@@ -932,30 +1665,29 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     if (!conn) {
       return { success: false, error: 'Connection not found' };
     }
+    if (analyze && !isReadOnlyStatement(sql, 'postgresql')) {
+      return { success: false, error: EXPLAIN_ANALYZE_READ_ONLY_ERROR };
+    }
 
     try {
-      const result = await conn.client.query(`EXPLAIN (FORMAT JSON) ${sql}`);
-      const planJson = (result.rows[0] as { 'QUERY PLAN': unknown })[
-        'QUERY PLAN'
-      ];
-
-      const plan: QueryPlanNode = {
-        id: 1,
-        parent: 0,
-        notUsed: 0,
-        detail: JSON.stringify(planJson),
-        children: [],
-      };
+      const planJson = await this.withSession(conn, async (client) => {
+        if (!analyze) {
+          const result = await client.query(`EXPLAIN (FORMAT JSON) ${sql}`);
+          return (result.rows[0] as { 'QUERY PLAN': unknown })['QUERY PLAN'];
+        }
 
-      const stats: QueryPlanStats = {
-        totalNodes: 1,
-        depth: 1,
-        hasScan: JSON.stringify(planJson).includes('Seq Scan'),
-        hasSort: JSON.stringify(planJson).includes('Sort'),
-        hasIndex: JSON.stringify(planJson).includes('Index'),
-      };
+        await client.query('BEGIN READ ONLY');
+        try {
+          const result = await client.query(
+            `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) ${sql}`
+          );
+          return (result.rows[0] as { 'QUERY PLAN': unknown })['QUERY PLAN'];
+        } finally {
+          await client.query('ROLLBACK');
+        }
+      });
 
-      return { success: true, plan, stats };
+      return { success: true, ...parsePostgresPlan(planJson) };
     } catch (error) {
       return {
         success: false,
@@ -1002,7 +1734,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
           const values = Object.values(change.newValues);
           const placeholders = columns.map((_, i) => `$${i + 1}`).join(', ');
           const sql = `INSERT INTO "${schema}"."${change.table}" ("${columns.join('", "')}") VALUES (${placeholders})`;
-          await conn.client.query(sql, values);
+          await this.runQuery(conn, sql, values);
           appliedCount++;
         } else if (
           change.type === 'update' &&
@@ -1016,11 +1748,11 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
             .join(', ');
           values.push(change.rowId);
           const sql = `UPDATE "${schema}"."${change.table}" SET ${setClause} WHERE "${change.primaryKeyColumn}" = $${values.length}`;
-          await conn.client.query(sql, values);
+          await this.runQuery(conn, sql, values);
           appliedCount++;
         } else if (change.type === 'delete' && change.primaryKeyColumn) {
           const sql = `DELETE FROM "${schema}"."${change.table}" WHERE "${change.primaryKeyColumn}" = $1`;
-          await conn.client.query(sql, [change.rowId]);
+          await this.runQuery(conn, sql, [change.rowId]);
           appliedCount++;
         }
       }
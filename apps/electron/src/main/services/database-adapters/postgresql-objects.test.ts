@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMaterializedViewSql,
+  toCustomTypeInfo,
+  toExtensionInfo,
+  toRoutineInfo,
+  toSequenceInfo,
+} from './postgresql-objects';
+
+describe('postgresql-objects', () => {
+  it('should keep function definitions and describe aggregates', () => {
+    const fn = toRoutineInfo('public', {
+      name: 'touch',
+      kind: 'f',
+      arguments: '',
+      return_type: 'trigger',
+      language: 'plpgsql',
+      definition: 'CREATE OR REPLACE FUNCTION public.touch()\n ...\n',
+    });
+    const agg = toRoutineInfo('public', {
+      name: 'median',
+      kind: 'a',
+      arguments: 'numeric',
+      return_type: 'numeric',
+      language: 'internal',
+      definition: null,
+    });
+
+    expect(fn).toMatchObject({ kind: 'function', returnType: 'trigger' });
+    expect(fn.sql).toBe('CREATE OR REPLACE FUNCTION public.touch()\n ...');
+    expect(agg.kind).toBe('aggregate');
+    expect(agg.sql).toBe(
+      '-- aggregate "public"."median"(numeric): definition not available'
+    );
+  });
+
+  it('should build sequence DDL with its owning column', () => {
+    const sequence = toSequenceInfo('app', {
+      name: 'orders_id_seq',
+      data_type: 'integer',
+      start_value: '1',
+      min_value: '1',
+      max_value: '2147483647',
+      increment: '1',
+      cycle: false,
+      owner_table: 'app.orders',
+      owner_column: 'id',
+    });
+
+    expect(sequence.ownedBy).toBe('app.orders."id"');
+    expect(sequence.sql).toBe(
+      [
+        'CREATE SEQUENCE "app"."orders_id_seq"',
+        '  AS integer',
+        '  INCREMENT BY 1',
+        '  MINVALUE 1',
+        '  MAXVALUE 2147483647',
+        '  START WITH 1',
+        '  NO CYCLE;',
+        '',
+        'ALTER SEQUENCE "app"."orders_id_seq" OWNED BY app.orders."id";',
+      ].join('\n')
+    );
+  });
+
+  it('should build enum and domain DDL', () => {
+    const mood = toCustomTypeInfo('public', {
+      name: 'mood',
+      kind: 'e',
+      enum_values: ['sad', "it's ok"],
+      base_type: null,
+      not_null: false,
+      default_value: null,
+      constraints: null,
+    });
+    const email = toCustomTypeInfo('public', {
+      name: 'email',
+      kind: 'd',
+      enum_values: null,
+      base_type: 'text',
+      not_null: true,
+      default_value: null,
+      constraints: [{ name: 'email_check', definition: "CHECK (VALUE ~ '@')" }],
+    });
+
+    expect(mood.values).toEqual(['sad', "it's ok"]);
+    expect(mood.sql).toBe(
+      `CREATE TYPE "public"."mood" AS ENUM ('sad', 'it''s ok');`
+    );
+    expect(email.sql).toBe(
+      [
+        'CREATE DOMAIN "public"."email" AS text',
+        '  NOT NULL',
+        `  CONSTRAINT "email_check" CHECK (VALUE ~ '@');`,
+      ].join('\n')
+    );
+  });
+
+  it('should build extension and materialized view DDL', () => {
+    expect(
+      toExtensionInfo('extensions', { name: 'pgcrypto', version: '1.3' }).sql
+    ).toBe(
+      `CREATE EXTENSION IF NOT EXISTS "pgcrypto" WITH SCHEMA "extensions" VERSION '1.3';`
+    );
+    expect(
+      buildMaterializedViewSql(
+        'public',
+        'daily_totals',
+        ' SELECT day, sum(total) AS total\n   FROM orders\n  GROUP BY day;',
+        false
+      )
+    ).toBe(
+      'CREATE MATERIALIZED VIEW "public"."daily_totals" AS\nSELECT day, sum(total) AS total\n   FROM orders\n  GROUP BY day\nWITH NO DATA;'
+    );
+  });
+});
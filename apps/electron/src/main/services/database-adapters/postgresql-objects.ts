@@ -0,0 +1,179 @@
+/**
+ * PostgreSQL schema objects beyond tables and views
+ * Maps catalog rows for routines, sequences, enum and domain types and
+ * extensions to schema info, including DDL to recreate each object.
+ */
+
+import type {
+  CustomTypeInfo,
+  ExtensionInfo,
+  RoutineInfo,
+  SequenceInfo,
+} from '@shared/types';
+import {
+  qualifyTableName,
+  quoteIdentifier,
+  quoteString,
+} from '@/lib/sql-dialect';
+
+export interface RoutineRow {
+  name: string;
+  /** pg_proc.prokind */
+  kind: 'f' | 'p' | 'a' | 'w';
+  arguments: string;
+  return_type: string | null;
+  language: string;
+  /** pg_get_functiondef, which is not available for aggregates */
+  definition: string | null;
+}
+
+export interface SequenceRow {
+  name: string;
+  data_type: string;
+  start_value: string;
+  min_value: string;
+  max_value: string;
+  increment: string;
+  cycle: boolean;
+  /** Owning table as regclass text, quoted and qualified as needed */
+  owner_table: string | null;
+  owner_column: string | null;
+}
+
+export interface CustomTypeRow {
+  name: string;
+  /** pg_type.typtype */
+  kind: 'e' | 'd';
+  enum_values: string[] | null;
+  base_type: string | null;
+  not_null: boolean;
+  default_value: string | null;
+  /** CHECK constraints of a domain */
+  constraints: Array<{ name: string; definition: string }> | null;
+}
+
+export interface ExtensionRow {
+  name: string;
+  version: string;
+}
+
+const ROUTINE_KINDS = {
+  f: 'function',
+  p: 'procedure',
+  a: 'aggregate',
+  w: 'window',
+} as const;
+
+export function toRoutineInfo(schema: string, row: RoutineRow): RoutineInfo {
+  const kind = ROUTINE_KINDS[row.kind] ?? 'function';
+  return {
+    name: row.name,
+    schema,
+    kind,
+    arguments: row.arguments,
+    returnType: row.return_type,
+    language: row.language,
+    sql:
+      row.definition?.trim() ??
+      `-- ${kind} ${qualifyTableName(row.name, schema, 'postgresql')}(${row.arguments}): definition not available`,
+  };
+}
+
+export function toSequenceInfo(schema: string, row: SequenceRow): SequenceInfo {
+  const name = qualifyTableName(row.name, schema, 'postgresql');
+  let sql = [
+    `CREATE SEQUENCE ${name}`,
+    `  AS ${row.data_type}`,
+    `  INCREMENT BY ${row.increment}`,
+    `  MINVALUE ${row.min_value}`,
+    `  MAXVALUE ${row.max_value}`,
+    `  START WITH ${row.start_value}`,
+    `  ${row.cycle ? 'CYCLE' : 'NO CYCLE'};`,
+  ].join('\n');
+
+  const ownedBy =
+    row.owner_table && row.owner_column
+      ? `${row.owner_table}.${quoteIdentifier(row.owner_column, 'postgresql')}`
+      : null;
+  if (ownedBy) {
+    sql += `\n\nALTER SEQUENCE ${name} OWNED BY ${ownedBy};`;
+  }
+
+  return {
+    name: row.name,
+    schema,
+    dataType: row.data_type,
+    startValue: row.start_value,
+    increment: row.increment,
+    minValue: row.min_value,
+    maxValue: row.max_value,
+    cycle: row.cycle,
+    ownedBy,
+    sql,
+  };
+}
+
+export function toCustomTypeInfo(
+  schema: string,
+  row: CustomTypeRow
+): CustomTypeInfo {
+  const name = qualifyTableName(row.name, schema, 'postgresql');
+
+  if (row.kind === 'e') {
+    const values = row.enum_values ?? [];
+    return {
+      name: row.name,
+      schema,
+      kind: 'enum',
+      values,
+      sql: `CREATE TYPE ${name} AS ENUM (${values.map((v) => quoteString(v, 'postgresql')).join(', ')});`,
+    };
+  }
+
+  const baseType = row.base_type ?? 'text';
+  const lines = [`CREATE DOMAIN ${name} AS ${baseType}`];
+  if (row.default_value !== null) {
+    lines.push(`  DEFAULT ${row.default_value}`);
+  }
+  if (row.not_null) {
+    lines.push('  NOT NULL');
+  }
+  for (const constraint of row.constraints ?? []) {
+    lines.push(
+      `  CONSTRAINT ${quoteIdentifier(constraint.name, 'postgresql')} ${constraint.definition}`
+    );
+  }
+
+  return {
+    name: row.name,
+    schema,
+    kind: 'domain',
+    baseType,
+    sql: `${lines.join('\n')};`,
+  };
+}
+
+export function toExtensionInfo(
+  schema: string,
+  row: ExtensionRow
+): ExtensionInfo {
+  return {
+    name: row.name,
+    schema,
+    version: row.version,
+    sql: `CREATE EXTENSION IF NOT EXISTS ${quoteIdentifier(row.name, 'postgresql')} WITH SCHEMA ${quoteIdentifier(schema, 'postgresql')} VERSION ${quoteString(row.version, 'postgresql')};`,
+  };
+}
+
+/**
+ * CREATE statement of a materialized view from its pg_matviews definition.
+ */
+export function buildMaterializedViewSql(
+  schema: string,
+  name: string,
+  definition: string,
+  isPopulated: boolean
+): string {
+  const query = definition.trim().replace(/;$/, '');
+  return `CREATE MATERIALIZED VIEW ${qualifyTableName(name, schema, 'postgresql')} AS\n${query}${isPopulated ? '' : '\nWITH NO DATA'};`;
+}
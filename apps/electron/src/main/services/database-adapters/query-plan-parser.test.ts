@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { parseMySqlTreePlan, parsePostgresPlan } from './query-plan-parser';
+
+describe('query-plan-parser', () => {
+  describe('parsePostgresPlan', () => {
+    const analyzed = [
+      {
+        Plan: {
+          'Node Type': 'Hash Join',
+          'Join Type': 'Left',
+          'Total Cost': 35.5,
+          'Plan Rows': 100,
+          'Actual Total Time': 4.2,
+          'Actual Rows': 980,
+          'Actual Loops': 1,
+          'Hash Cond': '(o.user_id = u.id)',
+          'Shared Hit Blocks': 12,
+          'Shared Read Blocks': 3,
+          Plans: [
+            {
+              'Node Type': 'Seq Scan',
+              'Relation Name': 'orders',
+              Alias: 'o',
+              'Total Cost': 20,
+              'Plan Rows': 1000,
+              'Actual Total Time': 1.5,
+              'Actual Rows': 990,
+              'Actual Loops': 1,
+              Filter: '(total > 10)',
+              'Rows Removed by Filter': 10,
+            },
+            {
+              'Node Type': 'Index Scan',
+              'Relation Name': 'users',
+              Alias: 'users',
+              'Index Name': 'users_pkey',
+              'Total Cost': 0.3,
+              'Plan Rows': 1,
+              'Actual Total Time': 0.01,
+              'Actual Rows': 1,
+              'Actual Loops': 50,
+            },
+          ],
+        },
+        'Planning Time': 0.3,
+        'Execution Time': 4.5,
+      },
+    ];
+
+    it('should map nodes depth-first with their parents', () => {
+      const { plan } = parsePostgresPlan(analyzed);
+
+      expect(plan).toMatchObject({
+        id: 1,
+        parent: 0,
+        operation: 'Hash Left Join',
+        detail: 'Hash Left Join [Hash Cond: (o.user_id = u.id)]',
+      });
+      expect(plan.children?.map((c) => [c.id, c.parent, c.detail])).toEqual([
+        [2, 1, 'Seq Scan on orders o [Filter: (total > 10)]'],
+        [3, 1, 'Index Scan using users_pkey on users'],
+      ]);
+    });
+
+    it('should keep actual metrics with time across all loops', () => {
+      const { plan, stats } = parsePostgresPlan(analyzed);
+      const indexScan = plan.children![1];
+
+      expect(plan).toMatchObject({
+        estimatedRows: 100,
+        actualRows: 980,
+        sharedHitBlocks: 12,
+        sharedReadBlocks: 3,
+      });
+      expect(indexScan.loops).toBe(50);
+      expect(indexScan.actualTimeMs).toBeCloseTo(0.5);
+      expect(stats).toMatchObject({
+        analyzed: true,
+        executionTime: 4.5,
+        planningTime: 0.3,
+        rowsReturned: 980,
+        rowsExamined: 1050,
+        indexesUsed: ['users_pkey'],
+        tablesAccessed: ['orders', 'users'],
+        totalNodes: 3,
+        depth: 2,
+        hasScan: true,
+        hasIndex: true,
+      });
+    });
+
+    it('should leave actual metrics out of estimated plans', () => {
+      const { plan, stats } = parsePostgresPlan([
+        {
+          Plan: {
+            'Node Type': 'Nested Loop',
+            'Join Type': 'Anti',
+            'Total Cost': 8,
+            'Plan Rows': 2,
+          },
+        },
+      ]);
+
+      expect(plan.detail).toBe('Nested Loop Anti Join');
+      expect(plan.actualRows).toBeUndefined();
+      expect(plan.actualTimeMs).toBeUndefined();
+      expect(stats.analyzed).toBe(false);
+      expect(stats.rowsExamined).toBeUndefined();
+    });
+
+    it('should reject output without a plan', () => {
+      expect(() => parsePostgresPlan([])).toThrow('Unexpected EXPLAIN output');
+    });
+  });
+
+  describe('parseMySqlTreePlan', () => {
+    const analyzed = [
+      '-> Nested loop inner join  (cost=4.70 rows=3) (actual time=0.071..0.094 rows=3 loops=1)',
+      '    -> Filter: (o.total > 100)  (cost=1.55 rows=3) (actual time=0.045..0.056 rows=3 loops=1)',
+      '        -> Table scan on o  (cost=1.55 rows=9) (actual time=0.042..0.051 rows=9 loops=1)',
+      '    -> Single-row index lookup on u using PRIMARY (id=o.user_id)  (cost=0.92 rows=1) (actual time=0.011..0.011 rows=1 loops=3)',
+      '',
+    ].join('\n');
+
+    it('should nest nodes by indentation', () => {
+      const { plan } = parseMySqlTreePlan(analyzed);
+
+      expect(plan).toMatchObject({
+        id: 1,
+        parent: 0,
+        operation: 'Nested loop inner join',
+      });
+      expect(plan.children?.map((c) => [c.id, c.parent, c.operation])).toEqual([
+        [2, 1, 'Filter'],
+        [4, 1, 'Single-row index lookup'],
+      ]);
+      expect(plan.children![0].children![0]).toMatchObject({
+        id: 3,
+        parent: 2,
+        detail: 'Table scan on o',
+        estimatedCost: 1.55,
+        estimatedRows: 9,
+      });
+    });
+
+    it('should keep actual metrics with time across all loops', () => {
+      const { plan, stats } = parseMySqlTreePlan(analyzed);
+      const lookup = plan.children![1];
+
+      expect(lookup).toMatchObject({ actualRows: 1, loops: 3 });
+      expect(lookup.actualTimeMs).toBeCloseTo(0.033);
+      expect(stats).toMatchObject({
+        analyzed: true,
+        executionTime: 0.094,
+        rowsReturned: 3,
+        rowsExamined: 12,
+        indexesUsed: ['PRIMARY'],
+        tablesAccessed: ['o', 'u'],
+        totalNodes: 4,
+        depth: 3,
+        hasScan: true,
+        hasIndex: true,
+      });
+    });
+
+    it('should parse nodes that were never executed', () => {
+      const { plan, stats } = parseMySqlTreePlan(
+        [
+          '-> Filter: (t.a > 1)  (cost=0.35 rows=1) (actual time=0.01..0.01 rows=0 loops=1)',
+          '    -> Index range scan on t using idx_a over (1 < a)  (cost=0.35 rows=1) (never executed)',
+        ].join('\n')
+      );
+
+      expect(plan.children![0]).toMatchObject({
+        operation: 'Index range scan',
+        estimatedRows: 1,
+        actualRows: undefined,
+      });
+      expect(stats.analyzed).toBe(true);
+    });
+
+    it('should reject text without plan lines', () => {
+      expect(() => parseMySqlTreePlan('')).toThrow('Unexpected EXPLAIN output');
+    });
+  });
+});
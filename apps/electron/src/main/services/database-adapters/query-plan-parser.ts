@@ -0,0 +1,301 @@
+/**
+ * Server query plan parsing
+ * Maps PostgreSQL `EXPLAIN (FORMAT JSON)` output and MySQL `FORMAT=TREE`
+ * output to plan nodes, including the actual metrics of EXPLAIN ANALYZE.
+ */
+
+import type { QueryPlanNode, QueryPlanStats } from '@shared/types';
+
+export interface PostgresPlanNode {
+  'Node Type': string;
+  'Join Type'?: string;
+  'Relation Name'?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Index Cond'?: string;
+  'Hash Cond'?: string;
+  'Merge Cond'?: string;
+  'Join Filter'?: string;
+  Filter?: string;
+  'Total Cost'?: number;
+  'Plan Rows'?: number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Rows Removed by Filter'?: number;
+  'Shared Hit Blocks'?: number;
+  'Shared Read Blocks'?: number;
+  Plans?: PostgresPlanNode[];
+}
+
+export interface PostgresExplainOutput {
+  Plan: PostgresPlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+}
+
+export interface ParsedQueryPlan {
+  plan: QueryPlanNode;
+  stats: QueryPlanStats;
+}
+
+const POSTGRES_CONDITIONS = [
+  'Index Cond',
+  'Hash Cond',
+  'Merge Cond',
+  'Join Filter',
+  'Filter',
+] as const;
+
+const NUMBER = String.raw`\d+(?:\.\d+)?(?:e[+-]?\d+)?`;
+
+// "-> Table scan on t  (cost=1.15 rows=9) (actual time=0.03..0.04 rows=9 loops=1)"
+const MYSQL_ARROW = /^( *)-> /;
+const MYSQL_METRICS = /\s+\((?:cost=|actual time=|never executed\))/;
+const MYSQL_COST = new RegExp(
+  String.raw`\(cost=(?:${NUMBER}\.\.)?(${NUMBER}) rows=(${NUMBER})\)`
+);
+const MYSQL_ACTUAL = new RegExp(
+  String.raw`\(actual time=${NUMBER}\.\.(${NUMBER}) rows=(${NUMBER}) loops=(\d+)\)`
+);
+
+// MySQL operators that read rows from a table
+const MYSQL_TABLE_ACCESS = /\b(?:scan|lookup)\b.* on (\w+)/i;
+
+function planDepth(node: QueryPlanNode): number {
+  const children = node.children ?? [];
+  return 1 + Math.max(0, ...children.map(planDepth));
+}
+
+function flattenNodes(node: QueryPlanNode): QueryPlanNode[] {
+  return [node, ...(node.children ?? []).flatMap(flattenNodes)];
+}
+
+function unique(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((v): v is string => !!v))];
+}
+
+function describePostgresOperation(node: PostgresPlanNode): string {
+  const type = node['Node Type'];
+  const joinType = node['Join Type'];
+  if (!joinType || joinType === 'Inner') {
+    return type;
+  }
+  // Same labels as the text format, e.g. "Hash Left Join"
+  return type.endsWith('Join')
+    ? `${type.slice(0, -'Join'.length)}${joinType} Join`
+    : `${type} ${joinType} Join`;
+}
+
+function describePostgresNode(node: PostgresPlanNode): string {
+  let detail = describePostgresOperation(node);
+  if (node['Index Name']) {
+    detail += ` using ${node['Index Name']}`;
+  }
+  const relation = node['Relation Name'];
+  if (relation) {
+    detail += ` on ${relation}`;
+    if (node.Alias && node.Alias !== relation) {
+      detail += ` ${node.Alias}`;
+    }
+  }
+
+  const conditions = POSTGRES_CONDITIONS.filter((key) => node[key]).map(
+    (key) => `${key}: ${node[key]}`
+  );
+  if (conditions.length > 0) {
+    detail += ` [${conditions.join('; ')}]`;
+  }
+  return detail;
+}
+
+/**
+ * Parse the JSON document of `EXPLAIN (FORMAT JSON)`, with or without
+ * ANALYZE and BUFFERS. Nodes are numbered depth-first from 1.
+ */
+export function parsePostgresPlan(output: unknown): ParsedQueryPlan {
+  const explain = (
+    Array.isArray(output) ? output[0] : output
+  ) as PostgresExplainOutput;
+  if (!explain?.Plan) {
+    throw new Error('Unexpected EXPLAIN output');
+  }
+
+  let nextId = 1;
+  // Rows read by each table access, including those removed by its filter
+  const examined: number[] = [];
+  const indexes: Array<string | undefined> = [];
+  const tables: Array<string | undefined> = [];
+
+  const toNode = (source: PostgresPlanNode, parent: number): QueryPlanNode => {
+    const id = nextId++;
+    const loops = source['Actual Loops'];
+    const node: QueryPlanNode = {
+      id,
+      parent,
+      notUsed: 0,
+      detail: describePostgresNode(source),
+      operation: describePostgresOperation(source),
+      estimatedCost: source['Total Cost'],
+      estimatedRows: source['Plan Rows'],
+      actualRows: source['Actual Rows'],
+      loops,
+      actualTimeMs:
+        source['Actual Total Time'] !== undefined
+          ? source['Actual Total Time'] * (loops ?? 1)
+          : undefined,
+      sharedHitBlocks: source['Shared Hit Blocks'],
+      sharedReadBlocks: source['Shared Read Blocks'],
+    };
+
+    indexes.push(source['Index Name']);
+    tables.push(source['Relation Name']);
+    if (source['Relation Name'] && source['Actual Rows'] !== undefined) {
+      examined.push(
+        (source['Actual Rows'] + (source['Rows Removed by Filter'] ?? 0)) *
+          (loops ?? 1)
+      );
+    }
+
+    node.children = (source.Plans ?? []).map((child) => toNode(child, id));
+    return node;
+  };
+
+  const plan = toNode(explain.Plan, 0);
+  const nodes = flattenNodes(plan);
+  const analyzed = explain['Execution Time'] !== undefined;
+  const indexesUsed = unique(indexes);
+
+  const stats: QueryPlanStats = {
+    analyzed,
+    executionTime: explain['Execution Time'],
+    planningTime: explain['Planning Time'],
+    rowsReturned: analyzed ? plan.actualRows : undefined,
+    rowsExamined: analyzed
+      ? examined.reduce((sum, rows) => sum + rows, 0)
+      : undefined,
+    indexesUsed,
+    tablesAccessed: unique(tables),
+    totalNodes: nodes.length,
+    depth: planDepth(plan),
+    hasScan: nodes.some((n) => n.operation === 'Seq Scan'),
+    hasSort: nodes.some((n) => n.operation?.endsWith('Sort')),
+    hasIndex: indexesUsed.length > 0,
+  };
+
+  return { plan, stats };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Operator of a tree line, e.g. "Filter" for "Filter: (t.a > 1)" and
+ * "Table scan" for "Table scan on t"
+ */
+function describeMySqlOperation(detail: string): string {
+  return detail.split(/: | on | \(/)[0].trim();
+}
+
+/**
+ * Parse the text of MySQL `EXPLAIN FORMAT=TREE` or `EXPLAIN ANALYZE`, where
+ * each node is a "->" line indented four spaces per level. Lines without an
+ * arrow continue the detail of the node above them.
+ */
+export function parseMySqlTreePlan(text: string): ParsedQueryPlan {
+  const roots: QueryPlanNode[] = [];
+  // Innermost open node at each indentation level
+  const stack: Array<{ indent: number; node: QueryPlanNode }> = [];
+  let nextId = 1;
+  let analyzed = false;
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+
+    const arrow = MYSQL_ARROW.exec(line);
+    if (!arrow) {
+      const last = stack[stack.length - 1];
+      if (last) last.node.detail += ` ${line.trim()}`;
+      continue;
+    }
+
+    const indent = arrow[1];
+    const body = line.slice(arrow[0].length);
+    const metricsAt = body.search(MYSQL_METRICS);
+    const detail = (metricsAt >= 0 ? body.slice(0, metricsAt) : body).trim();
+    const [, cost, rows] = MYSQL_COST.exec(body) ?? [];
+    const [, lastRowTime, actualRows, loops] = MYSQL_ACTUAL.exec(body) ?? [];
+
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].indent >= indent.length
+    ) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1]?.node;
+
+    const loopCount = toNumber(loops);
+    const node: QueryPlanNode = {
+      id: nextId++,
+      parent: parent?.id ?? 0,
+      notUsed: 0,
+      detail,
+      operation: describeMySqlOperation(detail),
+      estimatedCost: toNumber(cost),
+      estimatedRows: toNumber(rows),
+      actualRows: toNumber(actualRows),
+      loops: loopCount,
+      // The second actual time is when the last row came, averaged per loop
+      actualTimeMs:
+        lastRowTime !== undefined
+          ? Number(lastRowTime) * (loopCount ?? 1)
+          : undefined,
+      children: [],
+    };
+    if (actualRows !== undefined || line.includes('(never executed)')) {
+      analyzed = true;
+    }
+
+    if (parent) {
+      parent.children!.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ indent: indent.length, node });
+  }
+
+  const plan = roots[0];
+  if (!plan) {
+    throw new Error('Unexpected EXPLAIN output');
+  }
+
+  const nodes = flattenNodes(plan);
+  const tableAccesses = nodes.filter((n) => MYSQL_TABLE_ACCESS.test(n.detail));
+  const indexesUsed = unique(
+    nodes.map((n) => /\busing (\w+)/i.exec(n.detail)?.[1])
+  );
+
+  const stats: QueryPlanStats = {
+    analyzed,
+    executionTime: analyzed ? plan.actualTimeMs : undefined,
+    rowsReturned: analyzed ? plan.actualRows : undefined,
+    rowsExamined: analyzed
+      ? tableAccesses.reduce(
+          (sum, n) => sum + (n.actualRows ?? 0) * (n.loops ?? 0),
+          0
+        )
+      : undefined,
+    indexesUsed,
+    tablesAccessed: unique(
+      tableAccesses.map((n) => MYSQL_TABLE_ACCESS.exec(n.detail)?.[1])
+    ),
+    totalNodes: nodes.length,
+    depth: planDepth(plan),
+    hasScan: nodes.some((n) => n.operation === 'Table scan'),
+    hasSort: nodes.some((n) => n.operation?.startsWith('Sort')),
+    hasIndex: indexesUsed.length > 0,
+  };
+
+  return { plan, stats };
+}
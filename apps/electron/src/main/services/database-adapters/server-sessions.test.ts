@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ServerSessions } from './server-sessions';
+
+interface FakeSession {
+  pid: number;
+}
+
+/**
+ * Driver handing out numbered sessions from its pool.
+ */
+function createDriver() {
+  let nextPid = 100;
+  return {
+    acquire: vi.fn(async () => ({ pid: nextPid++ })),
+    release: vi.fn(),
+    close: vi.fn(async () => {}),
+    processId: (session: FakeSession) => session.pid,
+  };
+}
+
+describe('serverSessions', () => {
+  it('should check pooled sessions out for a single run', async () => {
+    const driver = createDriver();
+    const sessions = new ServerSessions(driver);
+
+    const pid = await sessions.run(async (session) => session.pid);
+
+    expect(pid).toBe(100);
+    expect(driver.release).toHaveBeenCalledWith({ pid: 100 });
+    expect(sessions.processIds()).toEqual([]);
+  });
+
+  it('should keep a pinned session out of the pool until it is released', async () => {
+    const driver = createDriver();
+    const sessions = new ServerSessions(driver);
+
+    const first = await sessions.run(async (s) => s, { sessionId: 'tab-1' });
+    const second = await sessions.run(async (s) => s, { sessionId: 'tab-1' });
+
+    expect(second).toBe(first);
+    expect(driver.acquire).toHaveBeenCalledTimes(1);
+    expect(driver.release).not.toHaveBeenCalled();
+
+    expect(await sessions.release('tab-1')).toBe(true);
+    expect(driver.close).toHaveBeenCalledWith(first);
+    expect(await sessions.release('tab-1')).toBe(false);
+  });
+
+  it('should find the process running an execution', async () => {
+    const driver = createDriver();
+    const sessions = new ServerSessions(driver);
+    let finish = () => {};
+    const blocked = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+
+    const running = Promise.all([
+      sessions.run(() => blocked, { executionId: 'exec-1' }),
+      sessions.run(() => blocked, { executionId: 'exec-2' }),
+    ]);
+    await vi.waitFor(() => expect(sessions.processIds()).toHaveLength(2));
+
+    expect(sessions.processIds('exec-2')).toEqual([101]);
+    finish();
+    await running;
+    expect(sessions.processIds('exec-2')).toEqual([]);
+  });
+
+  it('should retry a pinned session that failed to open', async () => {
+    const driver = createDriver();
+    driver.acquire.mockRejectedValueOnce(new Error('too many connections'));
+    const sessions = new ServerSessions(driver);
+
+    await expect(
+      sessions.run(async (s) => s, { sessionId: 'tab-1' })
+    ).rejects.toThrow('too many connections');
+    const session = await sessions.run(async (s) => s, { sessionId: 'tab-1' });
+
+    expect(session.pid).toBe(100);
+  });
+
+  it('should release a pinned session that failed to open', async () => {
+    const driver = createDriver();
+    let fail: (error: Error) => void = () => {};
+    driver.acquire.mockReturnValueOnce(
+      new Promise((_resolve, reject) => {
+        fail = reject;
+      })
+    );
+    const sessions = new ServerSessions(driver);
+
+    const running = sessions.run(async (s) => s, { sessionId: 'tab-1' });
+    const released = sessions.release('tab-1');
+    fail(new Error('too many connections'));
+
+    await expect(running).rejects.toThrow('too many connections');
+    expect(await released).toBe(false);
+    expect(driver.close).not.toHaveBeenCalled();
+  });
+
+  it('should report pinned sessions idle between their queries', async () => {
+    const driver = createDriver();
+    const sessions = new ServerSessions(driver);
+    await sessions.run(async () => {}, { sessionId: 'tab-1' });
+    await sessions.run(async () => {}, { sessionId: 'tab-2' });
+
+    let status;
+    await sessions.run(
+      async () => {
+        status = sessions.status({ size: 5, open: 3, idle: 1, waiting: 0 });
+      },
+      { sessionId: 'tab-1' }
+    );
+
+    // The pool counts both pinned sessions as checked out
+    expect(status).toEqual({
+      size: 5,
+      active: 1,
+      idle: 2,
+      pinned: 2,
+      waiting: 0,
+    });
+
+    await sessions.closeAll();
+    expect(driver.close).toHaveBeenCalledTimes(2);
+  });
+});
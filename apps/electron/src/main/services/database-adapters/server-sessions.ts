@@ -0,0 +1,162 @@
+/**
+ * Server sessions
+ * Bookkeeping for the pooled sessions of a MySQL or PostgreSQL connection:
+ * query tabs pinned to a dedicated session, and the server process running
+ * each query so it can be cancelled without knowing which session ran it.
+ * Every session comes out of the pool, so its size bounds the connection.
+ */
+
+import type { PoolStatus } from '@shared/types';
+
+export interface SessionOptions {
+  /** Run on the dedicated session of this query tab */
+  sessionId?: string;
+  /** Query Editor execution, used to find the session to cancel */
+  executionId?: string;
+}
+
+export interface SessionDriver<T> {
+  /** Check a session out of the pool */
+  acquire: () => Promise<T>;
+  /** Return a session to the pool */
+  release: (session: T) => void;
+  /**
+   * Remove a pinned session from the pool and close it, dropping its temp
+   * tables, variables and transaction instead of handing them on
+   */
+  close: (session: T) => Promise<void>;
+  /** Server process of the session, null while it is unknown */
+  processId: (session: T) => number | null;
+}
+
+/** Session counts reported by the driver's pool */
+export interface PoolCounts {
+  size: number;
+  open: number;
+  idle: number;
+  waiting: number;
+}
+
+interface RunningQuery<T> {
+  session: T;
+  executionId: string | undefined;
+  sessionId: string | undefined;
+}
+
+/**
+ * Sessions of one pooled connection. Pinned sessions stay checked out of the
+ * pool until they are released, so once every session is pinned or busy,
+ * further queries wait for one to be returned.
+ */
+export class ServerSessions<T> {
+  private pinned: Map<string, Promise<T>> = new Map();
+  private running: Set<RunningQuery<T>> = new Set();
+
+  constructor(private driver: SessionDriver<T>) {}
+
+  /**
+   * Run work on the pinned session of options.sessionId, opening it on first
+   * use, or on a session checked out of the pool for the duration.
+   */
+  async run<R>(
+    work: (session: T) => Promise<R>,
+    options: SessionOptions = {}
+  ): Promise<R> {
+    const { sessionId, executionId } = options;
+    const session = sessionId
+      ? await this.getPinned(sessionId)
+      : await this.driver.acquire();
+
+    const query: RunningQuery<T> = { session, executionId, sessionId };
+    this.running.add(query);
+    try {
+      return await work(session);
+    } finally {
+      this.running.delete(query);
+      if (!sessionId) {
+        this.driver.release(session);
+      }
+    }
+  }
+
+  private getPinned(sessionId: string): Promise<T> {
+    let session = this.pinned.get(sessionId);
+    if (!session) {
+      session = this.driver.acquire();
+      this.pinned.set(sessionId, session);
+      // Let the next query try again
+      session.catch(() => this.pinned.delete(sessionId));
+    }
+    return session;
+  }
+
+  /**
+   * Server processes running the query of an execution, or every running
+   * query without one.
+   */
+  processIds(executionId?: string): number[] {
+    const ids: number[] = [];
+    for (const query of this.running) {
+      if (executionId && query.executionId !== executionId) {
+        continue;
+      }
+      const id = this.driver.processId(query.session);
+      if (id !== null) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Close the pinned session of a query tab. Returns false when the tab had
+   * no session.
+   */
+  async release(sessionId: string): Promise<boolean> {
+    const session = this.pinned.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    this.pinned.delete(sessionId);
+
+    let opened: T;
+    try {
+      opened = await session;
+    } catch {
+      // The session failed to open, so there is nothing to close
+      return false;
+    }
+    await this.driver.close(opened);
+    return true;
+  }
+
+  /**
+   * Close every pinned session.
+   */
+  async closeAll(): Promise<void> {
+    const sessions = [...this.pinned.values()];
+    this.pinned.clear();
+    await Promise.allSettled(
+      sessions.map(async (session) => this.driver.close(await session))
+    );
+  }
+
+  /**
+   * Active and idle sessions. The pool counts pinned sessions as checked out;
+   * they are reported idle between their queries.
+   */
+  status(pool: PoolCounts): PoolStatus {
+    const busyPinned = new Set(
+      [...this.running].map((query) => query.sessionId).filter(Boolean)
+    ).size;
+    const pinned = this.pinned.size;
+
+    return {
+      size: pool.size,
+      active: pool.open - pool.idle - pinned + busyPinned,
+      idle: pool.idle + pinned - busyPinned,
+      pinned,
+      waiting: pool.waiting,
+    };
+  }
+}
@@ -1,6 +1,8 @@
 /**
  * SQLite database adapter
- * Refactored from the original database.ts to implement the adapter interface
+ * Refactored from the original database.ts to implement the adapter interface.
+ * Runs inside the SQLite worker threads (see sqlite-worker.ts), so it must not
+ * import Electron main-process services.
  */
 
 import type {
@@ -16,19 +18,25 @@ import type {
   QueryPlanStats,
   SchemaInfo,
   TableInfo,
+  TransactionAction,
+  TransactionState,
   TriggerInfo,
   ValidationResult,
 } from '@shared/types';
+import type { SqlLogWriter } from '../sql-logger';
 import type {
   AdapterConnectionInfo,
   DatabaseAdapter,
   OpenResult,
 } from './types';
+import type { SqliteOpenOptions } from '@/lib/sqlite-query';
 import { Buffer } from 'node:buffer';
+import { randomUUID } from 'node:crypto';
 import { readFileSync } from 'node:fs';
+import { findQueryPlaceholders } from '@shared/query-parameters';
 import Database from 'better-sqlite3-multiple-ciphers';
 import { enhanceConnectionError, enhanceQueryError } from '@/lib/error-parser';
-import { sqlLogger } from '../sql-logger';
+import { openSqliteDatabase, splitSqlStatements } from '@/lib/sqlite-query';
 
 interface SQLiteConnectionInfo {
   id: string;
@@ -37,6 +45,19 @@ interface SQLiteConnectionInfo {
   filename: string;
   isEncrypted: boolean;
   isReadOnly: boolean;
+  /** Cipher and key pragmas that unlock the database (empty if unencrypted) */
+  keyPragmas: string[];
+}
+
+interface SQLiteCursorInfo {
+  connectionId: string;
+  /** Read-only handle dedicated to the cursor */
+  db: Database.Database;
+  dbPath: string;
+  sql: string;
+  rows: IterableIterator<Record<string, unknown>>;
+  rowCount: number;
+  startTime: number;
 }
 
 // Simple ID generator
@@ -95,6 +116,39 @@ const CIPHER_CONFIGS: CipherConfig[] = [
   { cipher: 'sqlcipher', legacy: 4 },
 ];
 
+/**
+ * Pragmas that select the cipher and set the key for an encrypted database.
+ * Kept on the connection so cursors and a replacement worker can open it too.
+ */
+function getCipherPragmas(config: CipherConfig, password: string): string[] {
+  const pragmas = [`cipher = '${config.cipher}'`];
+  if (config.legacy !== undefined) {
+    pragmas.push(`legacy = ${config.legacy}`);
+  }
+  if (config.kdfIter !== undefined) {
+    pragmas.push(`kdf_iter = ${config.kdfIter}`);
+  }
+  if (config.pageSize !== undefined) {
+    pragmas.push(`cipher_page_size = ${config.pageSize}`);
+  }
+  if (config.plaintextHeader !== undefined) {
+    pragmas.push(`cipher_plaintext_header_size = ${config.plaintextHeader}`);
+  }
+
+  // Set the key (hex format if specified)
+  if (config.rawKey) {
+    // Treat password as already being a hex key
+    pragmas.push(`key = "x'${password}'"`);
+  } else if (config.hexKey) {
+    // Convert password to hex string
+    const hexKey = Buffer.from(password, 'utf8').toString('hex');
+    pragmas.push(`key = "x'${hexKey}'"`);
+  } else {
+    pragmas.push(`key = '${password}'`);
+  }
+  return pragmas;
+}
+
 // Helper functions
 function calculateDepth(nodes: QueryPlanNode[], currentDepth = 0): number {
   if (nodes.length === 0) return currentDepth;
@@ -114,6 +168,9 @@ function calculateDepth(nodes: QueryPlanNode[], currentDepth = 0): number {
 export class SQLiteAdapter implements DatabaseAdapter {
   readonly type = 'sqlite' as const;
   private connections: Map<string, SQLiteConnectionInfo> = new Map();
+  private cursors: Map<string, SQLiteCursorInfo> = new Map();
+
+  constructor(private readonly logger: SqlLogWriter) {}
 
   async open(config: DatabaseConnectionConfig): Promise<OpenResult> {
     const path = config.path;
@@ -154,31 +211,10 @@ export class SQLiteAdapter implements DatabaseAdapter {
           try {
             db = new Database(path, { readonly: readOnly });
 
-            // Set cipher configuration
-            db.pragma(`cipher = '${cipherConfig.cipher}'`);
-            if (cipherConfig.legacy !== undefined) {
-              db.pragma(`legacy = ${cipherConfig.legacy}`);
-            }
-            if (cipherConfig.kdfIter !== undefined) {
-              db.pragma(`kdf_iter = ${cipherConfig.kdfIter}`);
-            }
-            if (cipherConfig.pageSize !== undefined) {
-              db.pragma(`cipher_page_size = ${cipherConfig.pageSize}`);
-            }
-            if (cipherConfig.plaintextHeader !== undefined) {
-              db.pragma(
-                `cipher_plaintext_header_size = ${cipherConfig.plaintextHeader}`
-              );
-            }
-
-            // Set the key (hex format if specified)
-            if (cipherConfig.rawKey) {
-              db.pragma(`key = "x'${password}'"`);
-            } else if (cipherConfig.hexKey) {
-              const hexKey = Buffer.from(password, 'utf8').toString('hex');
-              db.pragma(`key = "x'${hexKey}'"`);
-            } else {
-              db.pragma(`key = '${password}'`);
+            // Set cipher configuration and key
+            const keyPragmas = getCipherPragmas(cipherConfig, password);
+            for (const pragma of keyPragmas) {
+              db.pragma(pragma);
             }
 
             // Test if we can read from the database
@@ -195,12 +231,13 @@ export class SQLiteAdapter implements DatabaseAdapter {
               filename,
               isEncrypted: true,
               isReadOnly: readOnly,
+              keyPragmas,
             };
 
             this.connections.set(id, connectionInfo);
 
             // Log successful open
-            sqlLogger.logOpen({
+            this.logger.logOpen({
               connectionId: id,
               dbPath: path,
               success: true,
@@ -264,12 +301,13 @@ export class SQLiteAdapter implements DatabaseAdapter {
         filename,
         isEncrypted: false,
         isReadOnly: readOnly,
+        keyPragmas: [],
       };
 
       this.connections.set(id, connectionInfo);
 
       // Log successful open
-      sqlLogger.logOpen({
+      this.logger.logOpen({
         connectionId: id,
         dbPath: path,
         success: true,
@@ -291,7 +329,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         error instanceof Error ? error.message : 'Failed to open database';
 
       // Log failed open
-      sqlLogger.logOpen({
+      this.logger.logOpen({
         connectionId: 'unknown',
         dbPath: path,
         success: false,
@@ -336,12 +374,18 @@ export class SQLiteAdapter implements DatabaseAdapter {
       return { success: false, error: 'Connection not found' };
     }
 
+    for (const [cursorId, cursor] of this.cursors) {
+      if (cursor.connectionId === connectionId) {
+        this.closeCursor(cursorId);
+      }
+    }
+
     try {
       conn.db.close();
       this.connections.delete(connectionId);
 
       // Log successful close
-      sqlLogger.logClose({
+      this.logger.logClose({
         connectionId,
         dbPath: conn.path,
         success: true,
@@ -353,7 +397,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         error instanceof Error ? error.message : 'Failed to close database';
 
       // Log failed close
-      sqlLogger.logClose({
+      this.logger.logClose({
         connectionId,
         dbPath: conn.path,
         success: false,
@@ -383,6 +427,185 @@ export class SQLiteAdapter implements DatabaseAdapter {
     };
   }
 
+  /**
+   * Get what a new handle needs to reopen the same database, used to restore
+   * the connection after its worker thread is replaced.
+   */
+  getOpenOptions(connectionId: string): SqliteOpenOptions | null {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return null;
+    }
+
+    return {
+      path: conn.path,
+      readOnly: conn.isReadOnly,
+      keyPragmas: conn.keyPragmas,
+    };
+  }
+
+  /**
+   * Reopen a connection under its existing ID.
+   */
+  restore(
+    connectionId: string,
+    options: SqliteOpenOptions
+  ): { success: true } | { success: false; error: string } {
+    try {
+      const db = openSqliteDatabase(options);
+      this.connections.set(connectionId, {
+        id: connectionId,
+        db,
+        path: options.path,
+        filename: options.path.split('/').pop() || options.path,
+        isEncrypted: options.keyPragmas.length > 0,
+        isReadOnly: options.readOnly,
+        keyPragmas: options.keyPragmas,
+      });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to reopen database',
+      };
+    }
+  }
+
+  /**
+   * Start iterating the rows of a query. The cursor gets its own read-only
+   * handle: better-sqlite3 keeps a connection busy while an iterator is open,
+   * and the connection must stay usable while the result is paged.
+   */
+  openCursor(
+    connectionId: string,
+    sql: string
+  ):
+    | { success: true; cursorId: string; columns: string[] }
+    | { success: false; error: string } {
+    const options = this.getOpenOptions(connectionId);
+    if (!options) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const startTime = performance.now();
+    let db: Database.Database | null = null;
+    try {
+      db = openSqliteDatabase({ ...options, readOnly: true });
+      const stmt = db.prepare(sql);
+      if (!stmt.reader) {
+        db.close();
+        return {
+          success: false,
+          error: 'Only statements that return rows can be streamed',
+        };
+      }
+
+      const cursorId = randomUUID();
+      this.cursors.set(cursorId, {
+        connectionId,
+        db,
+        dbPath: options.path,
+        sql,
+        rows: stmt.iterate() as IterableIterator<Record<string, unknown>>,
+        rowCount: 0,
+        startTime,
+      });
+
+      return {
+        success: true,
+        cursorId,
+        columns: stmt.columns().map((column) => column.name),
+      };
+    } catch (error) {
+      db?.close();
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const enhanced = enhanceQueryError(errorMessage, sql);
+
+      this.logger.logQuery({
+        connectionId,
+        dbPath: options.path,
+        sql,
+        durationMs: performance.now() - startTime,
+        success: false,
+        error: enhanced.error,
+      });
+
+      return { success: false, error: enhanced.error };
+    }
+  }
+
+  /**
+   * Read up to `count` rows from a cursor. Fewer rows means it is exhausted.
+   */
+  readCursor(
+    cursorId: string,
+    count: number
+  ):
+    | { success: true; rows: Record<string, unknown>[] }
+    | { success: false; error: string } {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) {
+      return { success: false, error: 'Cursor not found' };
+    }
+
+    const rows: Record<string, unknown>[] = [];
+    try {
+      while (rows.length < count) {
+        const next = cursor.rows.next();
+        if (next.done) {
+          break;
+        }
+        rows.push(next.value);
+      }
+      cursor.rowCount += rows.length;
+      return { success: true, rows };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const enhanced = enhanceQueryError(errorMessage, cursor.sql);
+
+      this.logger.logQuery({
+        connectionId: cursor.connectionId,
+        dbPath: cursor.dbPath,
+        sql: cursor.sql,
+        durationMs: performance.now() - cursor.startTime,
+        success: false,
+        error: enhanced.error,
+      });
+      this.cursors.delete(cursorId);
+      cursor.db.close();
+
+      return { success: false, error: enhanced.error };
+    }
+  }
+
+  /**
+   * Close a cursor and its handle, logging the query with the rows read.
+   */
+  closeCursor(cursorId: string): { success: true } {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) {
+      return { success: true };
+    }
+
+    this.cursors.delete(cursorId);
+    cursor.rows.return?.();
+    cursor.db.close();
+
+    this.logger.logQuery({
+      connectionId: cursor.connectionId,
+      dbPath: cursor.dbPath,
+      sql: cursor.sql,
+      durationMs: performance.now() - cursor.startTime,
+      success: true,
+      rowCount: cursor.rowCount,
+    });
+
+    return { success: true };
+  }
+
   getSchema(connectionId: string):
     | {
         success: true;
@@ -403,7 +626,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         .all() as Array<{ seq: number; name: string; file: string }>;
       const durationMs = performance.now() - startTime;
 
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath: conn.path,
         sql: 'PRAGMA database_list',
@@ -472,7 +695,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const durationMs = performance.now() - startTime;
 
     if (connectionId) {
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath,
         sql: sql.replace('?', `'${sqliteType}'`),
@@ -681,7 +904,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       const result = stmt.run(...(params || []));
       const durationMs = performance.now() - startTime;
 
-      sqlLogger.logExecute({
+      this.logger.logExecute({
         connectionId,
         dbPath: conn.path,
         sql,
@@ -704,7 +927,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         error instanceof Error ? error.message : 'Unknown error';
       const enhanced = enhanceQueryError(errorMessage, sql);
 
-      sqlLogger.logExecute({
+      this.logger.logExecute({
         connectionId,
         dbPath: conn.path,
         sql,
@@ -752,7 +975,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       const durationMs = performance.now() - startTime;
 
       if (rows.length === 0) {
-        sqlLogger.logQuery({
+        this.logger.logQuery({
           connectionId,
           dbPath: conn.path,
           sql,
@@ -771,7 +994,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       const columns = Object.keys(rows[0]);
       const rowsArray = rows.map((row) => columns.map((col) => row[col]));
 
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath: conn.path,
         sql,
@@ -791,7 +1014,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         error instanceof Error ? error.message : 'Unknown error';
       const enhanced = enhanceQueryError(errorMessage, sql);
 
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath: conn.path,
         sql,
@@ -883,7 +1106,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       const countDurationMs = performance.now() - countStartTime;
       const totalRows = countResult.count;
 
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath: conn.path,
         sql: countSql,
@@ -902,7 +1125,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       >;
       const dataDurationMs = performance.now() - dataStartTime;
 
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath: conn.path,
         sql,
@@ -923,7 +1146,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       const errorMessage =
         error instanceof Error ? error.message : 'Failed to get table data';
 
-      sqlLogger.logQuery({
+      this.logger.logQuery({
         connectionId,
         dbPath: conn.path,
         sql,
@@ -939,91 +1162,33 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
   }
 
-  private splitStatements(sql: string): string[] {
-    const statements: string[] = [];
-    let current = '';
-    let inString: string | null = null;
-    let inLineComment = false;
-    let inBlockComment = false;
-
-    for (let i = 0; i < sql.length; i++) {
-      const char = sql[i];
-      const nextChar = sql[i + 1];
-
-      if (!inString && !inBlockComment && char === '-' && nextChar === '-') {
-        inLineComment = true;
-        current += char;
-        continue;
-      }
-
-      if (inLineComment && char === '\n') {
-        inLineComment = false;
-        current += char;
-        continue;
-      }
-
-      if (!inString && !inLineComment && char === '/' && nextChar === '*') {
-        inBlockComment = true;
-        current += char;
-        continue;
-      }
-
-      if (inBlockComment && char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        current += char + nextChar;
-        i++;
-        continue;
-      }
-
-      if (!inLineComment && !inBlockComment) {
-        if (!inString && (char === "'" || char === '"')) {
-          inString = char;
-        } else if (inString === char) {
-          if (nextChar === char) {
-            current += char + nextChar;
-            i++;
-            continue;
-          }
-          inString = null;
-        }
-      }
-
-      if (!inString && !inLineComment && !inBlockComment && char === ';') {
-        const stmt = current.trim();
-        if (stmt) {
-          statements.push(stmt);
-        }
-        current = '';
-        continue;
-      }
-
-      current += char;
-    }
-
-    const lastStmt = current.trim();
-    if (lastStmt) {
-      statements.push(lastStmt);
-    }
-
-    return statements;
-  }
-
-  executeQuery(connectionId: string, query: string) {
+  /**
+   * Execute one or more statements. `params` bind the `?` placeholders of
+   * all statements in order; each statement takes the values of its own.
+   */
+  executeQuery(connectionId: string, query: string, params: unknown[] = []) {
     const conn = this.connections.get(connectionId);
     if (!conn) {
       return { success: false as const, error: 'Connection not found' };
     }
 
-    const statements = this.splitStatements(query);
+    const statements = splitSqlStatements(query);
 
     if (statements.length === 0) {
       return { success: false as const, error: 'No SQL statements to execute' };
     }
 
     if (statements.length === 1) {
-      return this.executeSingleStatement(connectionId, statements[0]);
+      return this.executeSingleStatement(connectionId, statements[0], params);
     }
 
+    let paramOffset = 0;
+    const statementParams = statements.map((stmt) => {
+      const count = findQueryPlaceholders(stmt, 'sqlite').length;
+      paramOffset += count;
+      return params.slice(paramOffset - count, paramOffset);
+    });
+
     const resultSets: Array<{
       columns: string[];
       rows: Record<string, unknown>[];
@@ -1042,15 +1207,20 @@ export class SQLiteAdapter implements DatabaseAdapter {
       );
     });
 
-    const useAutoTransaction = !hasUserTransaction;
+    // Statements of a transaction opened by the user join it
+    const useAutoTransaction = !hasUserTransaction && !conn.db.inTransaction;
 
     try {
       if (useAutoTransaction) {
         conn.db.exec('BEGIN TRANSACTION');
       }
 
-      for (const stmt of statements) {
-        const result = this.executeSingleStatement(connectionId, stmt);
+      for (const [index, stmt] of statements.entries()) {
+        const result = this.executeSingleStatement(
+          connectionId,
+          stmt,
+          statementParams[index]
+        );
 
         if (!result.success) {
           if (useAutoTransaction) {
@@ -1134,9 +1304,64 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
   }
 
+  /**
+   * Whether the connection has an open transaction. SQLite connections have
+   * a single session shared by every query tab.
+   */
+  getTransactionState(
+    connectionId: string
+  ):
+    | { success: true; transactionState: TransactionState }
+    | { success: false; error: string } {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+    return {
+      success: true,
+      transactionState: conn.db.inTransaction ? 'active' : 'idle',
+    };
+  }
+
+  beginTransaction(
+    connectionId: string
+  ): { success: true } | { success: false; error: string } {
+    return this.runTransactionStatement(connectionId, 'BEGIN');
+  }
+
+  endTransaction(
+    connectionId: string,
+    action: TransactionAction
+  ): { success: true } | { success: false; error: string } {
+    return this.runTransactionStatement(
+      connectionId,
+      action === 'commit' ? 'COMMIT' : 'ROLLBACK'
+    );
+  }
+
+  private runTransactionStatement(
+    connectionId: string,
+    sql: string
+  ): { success: true } | { success: false; error: string } {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+    try {
+      conn.db.exec(sql);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${sql} failed`,
+      };
+    }
+  }
+
   private executeSingleStatement(
     connectionId: string,
-    query: string
+    query: string,
+    params?: unknown[]
   ):
     | {
         success: true;
@@ -1163,7 +1388,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       trimmed.startsWith('EXPLAIN') ||
       trimmed.startsWith('WITH')
     ) {
-      const result = this.query(connectionId, query);
+      const result = this.query(connectionId, query, params);
       if (result.success) {
         const rows = result.rows.map((row) => {
           const record: Record<string, unknown> = {};
@@ -1180,7 +1405,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       }
       return result;
     } else {
-      return this.execute(connectionId, query);
+      return this.execute(connectionId, query, params);
     }
   }
 
@@ -1398,6 +1623,3 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
   }
 }
-
-// Export singleton instance
-export const sqliteAdapter = new SQLiteAdapter();
@@ -0,0 +1,391 @@
+/**
+ * SQLite worker adapter
+ * Main-thread side of the SQLite adapter. Connections live on worker threads
+ * (see sqlite-worker-pool.ts), so like the MySQL and PostgreSQL adapters the
+ * synchronous interface methods point to their async counterparts.
+ */
+
+import type {
+  DatabaseConnectionConfig,
+  GetTableDataResponse,
+  PendingChangeInfo,
+  QueryPlanNode,
+  QueryPlanStats,
+  SchemaInfo,
+  SessionResetEvent,
+  TableInfo,
+  TransactionAction,
+  ValidationResult,
+} from '@shared/types';
+import type { SQLiteAdapter } from './sqlite-adapter';
+import type { SqliteWorkerMethod } from './sqlite-worker';
+import type { WorkerResult } from './sqlite-worker-pool';
+import type {
+  AdapterConnectionInfo,
+  DatabaseAdapter,
+  ExecuteQueryOptions,
+  OpenCursorResult,
+  OpenResult,
+  RowCursor,
+} from './types';
+import { IPC_CHANNELS } from '@shared/types';
+import { BrowserWindow } from 'electron';
+import { DEFAULT_POOL_SIZE, SqliteWorkerPool } from './sqlite-worker-pool';
+
+/**
+ * Tell the renderer windows that a connection was reopened, so tabs drop
+ * the transaction state its old session had
+ */
+function notifySessionReset(connectionId: string, reason: string): void {
+  const event: SessionResetEvent = { connectionId, reason };
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send(IPC_CHANNELS.DB_SESSION_RESET, event);
+    }
+  }
+}
+
+/**
+ * SQLite adapter running every database call on a worker thread
+ */
+export class SQLiteWorkerAdapter implements DatabaseAdapter {
+  readonly type = 'sqlite' as const;
+  private connections: Map<string, AdapterConnectionInfo> = new Map();
+
+  constructor(
+    private readonly pool = new SqliteWorkerPool(
+      DEFAULT_POOL_SIZE,
+      notifySessionReset
+    )
+  ) {}
+
+  async open(config: DatabaseConnectionConfig): Promise<OpenResult> {
+    try {
+      const result = await this.pool.open(config);
+      if (result.success) {
+        this.connections.set(result.connection.id, result.connection);
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to open database',
+        errorCode: 'CONNECTION_ERROR',
+      };
+    }
+  }
+
+  close(
+    connectionId: string
+  ): { success: true } | { success: false; error: string } {
+    if (!this.connections.delete(connectionId)) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    // The worker logs the outcome of the close
+    void this.pool.close(connectionId).catch(() => {});
+    return { success: true };
+  }
+
+  getConnection(connectionId: string): AdapterConnectionInfo | null {
+    return this.connections.get(connectionId) ?? null;
+  }
+
+  getSchema(_connectionId: string):
+    | {
+        success: true;
+        schemas: SchemaInfo[];
+        tables: TableInfo[];
+        views: TableInfo[];
+      }
+    | { success: false; error: string } {
+    return {
+      success: false,
+      error: 'Use getSchemaAsync for SQLite connections',
+    };
+  }
+
+  async getSchemaAsync(connectionId: string) {
+    return this.run(connectionId, 'getSchema', connectionId);
+  }
+
+  execute(_connectionId: string, _sql: string, _params?: unknown[]) {
+    return {
+      success: false as const,
+      error: 'Use executeAsync for SQLite connections',
+    };
+  }
+
+  async executeAsync(connectionId: string, sql: string, params?: unknown[]) {
+    return this.run(connectionId, 'execute', connectionId, sql, params);
+  }
+
+  query(
+    _connectionId: string,
+    _sql: string,
+    _params?: unknown[]
+  ):
+    | { success: true; columns: string[]; rows: unknown[][] }
+    | { success: false; error: string } {
+    return {
+      success: false,
+      error: 'Use queryAsync for SQLite connections',
+    };
+  }
+
+  async queryAsync(connectionId: string, sql: string, params?: unknown[]) {
+    return this.run(connectionId, 'query', connectionId, sql, params);
+  }
+
+  getTableData(
+    _connectionId: string,
+    _table: string,
+    _page: number,
+    _pageSize: number,
+    _sortColumn?: string,
+    _sortDirection?: 'asc' | 'desc',
+    _filters?: Array<{ column: string; operator: string; value: string }>,
+    _schema?: string
+  ): GetTableDataResponse {
+    return {
+      success: false,
+      error: 'Use getTableDataAsync for SQLite connections',
+    };
+  }
+
+  async getTableDataAsync(
+    connectionId: string,
+    table: string,
+    page: number,
+    pageSize: number,
+    sortColumn?: string,
+    sortDirection?: 'asc' | 'desc',
+    filters?: Array<{ column: string; operator: string; value: string }>,
+    schema?: string
+  ): Promise<GetTableDataResponse> {
+    return this.run(
+      connectionId,
+      'getTableData',
+      connectionId,
+      table,
+      page,
+      pageSize,
+      sortColumn,
+      sortDirection,
+      filters,
+      schema
+    );
+  }
+
+  executeQuery(_connectionId: string, _query: string) {
+    return {
+      success: false as const,
+      error: 'Use executeQueryAsync for SQLite connections',
+    };
+  }
+
+  async executeQueryAsync(
+    connectionId: string,
+    query: string,
+    options?: ExecuteQueryOptions
+  ) {
+    return this.run(
+      connectionId,
+      'executeQuery',
+      connectionId,
+      query,
+      options?.params
+    );
+  }
+
+  /**
+   * Cancel the call running on a connection by replacing its worker
+   */
+  async cancelQueryAsync(
+    connectionId: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    if (!this.connections.has(connectionId)) {
+      return { success: false, error: 'Connection not found' };
+    }
+    return this.pool.interrupt(connectionId)
+      ? { success: true }
+      : { success: false, error: 'No query is running' };
+  }
+
+  /**
+   * Whether the connection has an open transaction. Replacing the worker to
+   * cancel a query rolls back the transactions of all its connections, which
+   * is broadcast on DB_SESSION_RESET.
+   */
+  async getTransactionStateAsync(connectionId: string) {
+    return this.run(connectionId, 'getTransactionState', connectionId);
+  }
+
+  async beginTransactionAsync(connectionId: string) {
+    return this.run(connectionId, 'beginTransaction', connectionId);
+  }
+
+  async endTransactionAsync(connectionId: string, action: TransactionAction) {
+    return this.run(connectionId, 'endTransaction', connectionId, action);
+  }
+
+  /**
+   * Open a cursor on the connection's worker. Each read is one call to the
+   * worker; closing the cursor during a read replaces the worker.
+   */
+  async openCursorAsync(
+    connectionId: string,
+    sql: string
+  ): Promise<OpenCursorResult> {
+    const opened = await this.run(
+      connectionId,
+      'openCursor',
+      connectionId,
+      sql
+    );
+    if (!opened.success) {
+      return { success: false, error: opened.error };
+    }
+
+    const { cursorId, columns } = opened;
+    let reading = false;
+    let closed = false;
+
+    const cursor: RowCursor = {
+      columns,
+      read: async (count) => {
+        reading = true;
+        try {
+          const result = await this.pool.call(
+            connectionId,
+            'readCursor',
+            cursorId,
+            count
+          );
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+          return result.rows;
+        } finally {
+          reading = false;
+        }
+      },
+      close: async () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        if (reading) {
+          this.pool.interrupt(connectionId);
+          return;
+        }
+        await this.run(connectionId, 'closeCursor', cursorId);
+      },
+    };
+
+    return { success: true, cursor };
+  }
+
+  validateQuery(_connectionId: string, _sql: string): ValidationResult {
+    // Preparing the statement needs the worker; errors surface on execution
+    return { isValid: true };
+  }
+
+  explainQuery(
+    _connectionId: string,
+    _sql: string
+  ):
+    | { success: true; plan: QueryPlanNode; stats: QueryPlanStats }
+    | { success: false; error: string } {
+    return {
+      success: false,
+      error: 'Use explainQueryAsync for SQLite connections',
+    };
+  }
+
+  async explainQueryAsync(connectionId: string, sql: string) {
+    return this.run(connectionId, 'explainQuery', connectionId, sql);
+  }
+
+  validateChanges(connectionId: string, changes: PendingChangeInfo[]) {
+    if (!this.connections.has(connectionId)) {
+      return { success: false as const, error: 'Connection not found' };
+    }
+
+    const results: ValidationResult[] = changes.map((c) => ({
+      changeId: c.id,
+      isValid: true,
+    }));
+    return { success: true as const, results };
+  }
+
+  applyChanges(_connectionId: string, _changes: PendingChangeInfo[]) {
+    return {
+      success: false as const,
+      error: 'Use applyChangesAsync for SQLite connections',
+    };
+  }
+
+  async applyChangesAsync(connectionId: string, changes: PendingChangeInfo[]) {
+    return this.run(connectionId, 'applyChanges', connectionId, changes);
+  }
+
+  closeAll(): void {
+    this.connections.clear();
+    void this.pool.closeAll();
+  }
+
+  getTableStructure(
+    _connectionId: string,
+    _tableName: string,
+    _schema?: string
+  ):
+    | { success: true; structure: TableInfo }
+    | { success: false; error: string } {
+    return {
+      success: false,
+      error: 'Use getTableStructureAsync for SQLite connections',
+    };
+  }
+
+  async getTableStructureAsync(
+    connectionId: string,
+    tableName: string,
+    schema?: string
+  ) {
+    return this.run(
+      connectionId,
+      'getTableStructure',
+      connectionId,
+      tableName,
+      schema
+    );
+  }
+
+  getPendingChanges(connectionId: string) {
+    if (!this.connections.has(connectionId)) {
+      return { success: false as const, error: 'Connection not found' };
+    }
+    return { success: true as const, changes: [] as PendingChangeInfo[] };
+  }
+
+  /**
+   * Run an adapter method on the connection's worker. Interrupted or failed
+   * workers produce an error result.
+   */
+  private async run<M extends SqliteWorkerMethod>(
+    connectionId: string,
+    method: M,
+    ...args: Parameters<SQLiteAdapter[M]>
+  ): Promise<WorkerResult<M> | { success: false; error: string }> {
+    try {
+      return await this.pool.call(connectionId, method, ...args);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SQLite worker failed',
+      };
+    }
+  }
+}
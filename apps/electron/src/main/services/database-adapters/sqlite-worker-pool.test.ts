@@ -0,0 +1,176 @@
+import type { SqliteWorkerRequest } from './sqlite-worker';
+import { EventEmitter } from 'node:events';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SqliteWorkerPool } from './sqlite-worker-pool';
+
+const { logQuery } = vi.hoisted(() => ({ logQuery: vi.fn() }));
+
+vi.mock('../sql-logger', () => ({
+  sqlLogger: {
+    logQuery,
+    logExecute: vi.fn(),
+    logOpen: vi.fn(),
+    logClose: vi.fn(),
+  },
+}));
+
+/**
+ * Stand-in for a SQLite worker thread. Calls are answered on the next tick,
+ * except queries containing SLOW, which never finish.
+ */
+class FakeWorker extends EventEmitter {
+  private static openCount = 0;
+  requests: SqliteWorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(request: SqliteWorkerRequest): void {
+    this.requests.push(request);
+    if (
+      request.method === 'executeQuery' &&
+      /SLOW/.test(String(request.args[1]))
+    ) {
+      return;
+    }
+    setImmediate(() => {
+      this.emit('message', {
+        type: 'result',
+        id: request.id,
+        result: this.answer(request),
+      });
+    });
+  }
+
+  async terminate(): Promise<number> {
+    this.terminated = true;
+    return 1;
+  }
+
+  private answer(request: SqliteWorkerRequest): unknown {
+    switch (request.method) {
+      case 'open':
+        FakeWorker.openCount += 1;
+        return {
+          success: true,
+          connection: { id: `sqlite_${FakeWorker.openCount}` },
+        };
+      case 'getOpenOptions':
+        return { path: '/tmp/app.db', readOnly: false, keyPragmas: [] };
+      default:
+        return { success: true, method: request.method, args: request.args };
+    }
+  }
+}
+
+const workers: FakeWorker[] = [];
+
+vi.mock('./sqlite-worker?nodeWorker', () => ({
+  default: () => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker;
+  },
+}));
+
+describe('sqliteWorkerPool', () => {
+  beforeEach(() => {
+    workers.length = 0;
+    logQuery.mockClear();
+  });
+
+  it('should open connections on separate workers up to the pool size', async () => {
+    const pool = new SqliteWorkerPool(2);
+
+    await pool.open({ type: 'sqlite', path: '/tmp/a.db' });
+    await pool.open({ type: 'sqlite', path: '/tmp/b.db' });
+    await pool.open({ type: 'sqlite', path: '/tmp/c.db' });
+
+    expect(workers).toHaveLength(2);
+    expect(workers[0].requests.filter((r) => r.method === 'open')).toHaveLength(
+      2
+    );
+  });
+
+  it('should route calls to the worker hosting the connection', async () => {
+    const pool = new SqliteWorkerPool(2);
+    await pool.open({ type: 'sqlite', path: '/tmp/a.db' });
+    const second = await pool.open({ type: 'sqlite', path: '/tmp/b.db' });
+    if (!second.success) throw new Error('open failed');
+
+    const result = await pool.call(
+      second.connection.id,
+      'query',
+      second.connection.id,
+      'SELECT 1'
+    );
+
+    expect(result).toMatchObject({ success: true, method: 'query' });
+    expect(workers[1].requests.at(-1)).toMatchObject({
+      method: 'query',
+      args: [second.connection.id, 'SELECT 1'],
+    });
+  });
+
+  it('should reject calls for unknown connections', async () => {
+    const pool = new SqliteWorkerPool(2);
+
+    await expect(pool.call('missing', 'getSchema', 'missing')).rejects.toThrow(
+      'Connection not found'
+    );
+  });
+
+  it('should replace the worker and reopen its connections on interrupt', async () => {
+    const pool = new SqliteWorkerPool(2);
+    const opened = await pool.open({ type: 'sqlite', path: '/tmp/app.db' });
+    if (!opened.success) throw new Error('open failed');
+    const id = opened.connection.id;
+
+    const running = pool.call(id, 'executeQuery', id, 'SELECT SLOW()');
+    expect(pool.interrupt(id)).toBe(true);
+
+    await expect(running).rejects.toThrow('Query cancelled');
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].requests[0]).toMatchObject({
+      method: 'restore',
+      args: [id, { path: '/tmp/app.db', readOnly: false, keyPragmas: [] }],
+    });
+
+    await expect(pool.call(id, 'getSchema', id)).resolves.toMatchObject({
+      success: true,
+    });
+    expect(pool.interrupt(id)).toBe(false);
+  });
+
+  it('should report every connection reopened by an interrupt', async () => {
+    const onSessionReset = vi.fn();
+    const pool = new SqliteWorkerPool(1, onSessionReset);
+    const first = await pool.open({ type: 'sqlite', path: '/tmp/a.db' });
+    const second = await pool.open({ type: 'sqlite', path: '/tmp/b.db' });
+    if (!first.success || !second.success) throw new Error('open failed');
+    const id = first.connection.id;
+
+    const running = pool.call(id, 'executeQuery', id, 'SELECT SLOW()');
+    pool.interrupt(id);
+    await expect(running).rejects.toThrow('Query cancelled');
+
+    expect(onSessionReset.mock.calls).toEqual([
+      [id, 'Query cancelled'],
+      [second.connection.id, 'Query cancelled'],
+    ]);
+  });
+
+  it('should forward worker log entries to the SQL logger', async () => {
+    const pool = new SqliteWorkerPool(1);
+    await pool.open({ type: 'sqlite', path: '/tmp/app.db' });
+
+    const params = {
+      connectionId: 'sqlite_1',
+      sql: 'SELECT 1',
+      durationMs: 1,
+      success: true,
+    };
+    workers[0].emit('message', { type: 'log', method: 'logQuery', params });
+
+    expect(logQuery).toHaveBeenCalledWith(params);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * SQLite Worker Pool
+ * Hosts SQLite connections on worker threads. Each connection is pinned to
+ * one worker for its lifetime and new connections prefer an idle worker, so
+ * a long query, VACUUM or export only blocks its own connection.
+ */
+
+import type { DatabaseConnectionConfig } from '@shared/types';
+import type { Worker } from 'node:worker_threads';
+import type { SqlLogWriter } from '../sql-logger';
+import type { SQLiteAdapter } from './sqlite-adapter';
+import type {
+  SqliteWorkerMethod,
+  SqliteWorkerRequest,
+  SqliteWorkerResponse,
+} from './sqlite-worker';
+import type { OpenResult } from './types';
+import type { SqliteOpenOptions } from '@/lib/sqlite-query';
+import { availableParallelism } from 'node:os';
+import { sqlLogger } from '../sql-logger';
+import createSqliteWorker from './sqlite-worker?nodeWorker';
+
+export type WorkerResult<M extends SqliteWorkerMethod> = Awaited<
+  ReturnType<SQLiteAdapter[M]>
+>;
+
+interface PendingCall {
+  connectionId: string | null;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  pending: Map<number, PendingCall>;
+  /** Hosted connections with the options needed to reopen them */
+  connections: Map<string, SqliteOpenOptions | null>;
+}
+
+/**
+ * Called for each connection reopened on a replacement worker
+ */
+export type SessionResetListener = (
+  connectionId: string,
+  reason: string
+) => void;
+
+/**
+ * Default number of worker threads
+ */
+export const DEFAULT_POOL_SIZE = Math.min(
+  Math.max(availableParallelism(), 2),
+  4
+);
+
+/**
+ * Pool of worker threads running SQLiteAdapter calls
+ */
+export class SqliteWorkerPool {
+  private workers: PoolWorker[] = [];
+  private connectionWorkers: Map<string, PoolWorker> = new Map();
+  private nextCallId = 0;
+
+  constructor(
+    private readonly maxWorkers = DEFAULT_POOL_SIZE,
+    private readonly onSessionReset: SessionResetListener = () => {}
+  ) {}
+
+  /**
+   * Open a connection on an idle worker, or on the least busy one when the
+   * pool is full.
+   */
+  async open(config: DatabaseConnectionConfig): Promise<OpenResult> {
+    const poolWorker = this.acquireWorker();
+    const result = await this.send(poolWorker, 'open', [config]);
+
+    if (result.success) {
+      const connectionId = result.connection.id;
+      const options = await this.send(poolWorker, 'getOpenOptions', [
+        connectionId,
+      ]);
+      poolWorker.connections.set(connectionId, options);
+      this.connectionWorkers.set(connectionId, poolWorker);
+    }
+
+    return result;
+  }
+
+  /**
+   * Call an adapter method on the worker hosting the connection.
+   * Rejects when the worker is interrupted or fails.
+   */
+  call<M extends SqliteWorkerMethod>(
+    connectionId: string,
+    method: M,
+    ...args: Parameters<SQLiteAdapter[M]>
+  ): Promise<WorkerResult<M>> {
+    const poolWorker = this.connectionWorkers.get(connectionId);
+    if (!poolWorker) {
+      return Promise.reject(new Error('Connection not found'));
+    }
+    return this.send(poolWorker, method, args, connectionId);
+  }
+
+  /**
+   * Close a connection and release it from its worker.
+   */
+  async close(
+    connectionId: string
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const poolWorker = this.connectionWorkers.get(connectionId);
+    if (!poolWorker) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    this.connectionWorkers.delete(connectionId);
+    poolWorker.connections.delete(connectionId);
+    return this.send(poolWorker, 'close', [connectionId]);
+  }
+
+  /**
+   * Stop the call running on a connection. better-sqlite3 can't interrupt a
+   * statement, so the worker is replaced and its connections are reopened on
+   * the new one. Other calls in flight on the same worker fail as well, and
+   * every connection on it is reported to the session reset listener.
+   * Returns false when the connection had nothing running.
+   */
+  interrupt(connectionId: string, reason = 'Query cancelled'): boolean {
+    const poolWorker = this.connectionWorkers.get(connectionId);
+    if (!poolWorker) {
+      return false;
+    }
+
+    const isRunning = [...poolWorker.pending.values()].some(
+      (call) => call.connectionId === connectionId
+    );
+    if (!isRunning) {
+      return false;
+    }
+
+    this.replaceWorker(poolWorker, reason);
+    return true;
+  }
+
+  /**
+   * Close every connection and stop all workers.
+   */
+  async closeAll(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.connectionWorkers.clear();
+
+    await Promise.all(
+      workers.map(async (poolWorker) => {
+        try {
+          await this.send(poolWorker, 'closeAll', []);
+        } catch {
+          // The worker is stopped below either way
+        }
+        poolWorker.worker.removeAllListeners();
+        await poolWorker.worker.terminate();
+      })
+    );
+  }
+
+  private acquireWorker(): PoolWorker {
+    const idle = this.workers.find(
+      (poolWorker) =>
+        poolWorker.connections.size === 0 && poolWorker.pending.size === 0
+    );
+    if (idle) {
+      return idle;
+    }
+
+    if (this.workers.length < this.maxWorkers) {
+      const poolWorker = this.createWorker();
+      this.workers.push(poolWorker);
+      return poolWorker;
+    }
+
+    return this.workers.reduce((least, poolWorker) =>
+      poolWorker.connections.size < least.connections.size ? poolWorker : least
+    );
+  }
+
+  private createWorker(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: createSqliteWorker({}),
+      pending: new Map(),
+      connections: new Map(),
+    };
+
+    poolWorker.worker.on('message', (message: SqliteWorkerResponse) => {
+      this.handleMessage(poolWorker, message);
+    });
+    poolWorker.worker.on('error', (error: Error) => {
+      this.replaceWorker(poolWorker, error.message);
+    });
+    poolWorker.worker.on('exit', () => {
+      this.replaceWorker(poolWorker, 'SQLite worker exited');
+    });
+
+    return poolWorker;
+  }
+
+  /**
+   * Swap a worker for a fresh one, reopening its connections under the same
+   * IDs. Session state such as open transactions and temporary tables is
+   * lost, so each reopened connection is reported to the listener.
+   */
+  private replaceWorker(poolWorker: PoolWorker, reason: string): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) {
+      return;
+    }
+
+    if (poolWorker.connections.size === 0) {
+      this.workers.splice(index, 1);
+    } else {
+      const replacement = this.createWorker();
+      this.workers[index] = replacement;
+
+      for (const [connectionId, options] of poolWorker.connections) {
+        replacement.connections.set(connectionId, options);
+        this.connectionWorkers.set(connectionId, replacement);
+        if (options) {
+          this.restore(replacement, connectionId, options);
+        }
+        this.onSessionReset(connectionId, reason);
+      }
+    }
+
+    for (const call of poolWorker.pending.values()) {
+      call.reject(new Error(reason));
+    }
+    poolWorker.pending.clear();
+    poolWorker.worker.removeAllListeners();
+    void poolWorker.worker.terminate();
+  }
+
+  private restore(
+    poolWorker: PoolWorker,
+    connectionId: string,
+    options: SqliteOpenOptions
+  ): void {
+    this.send(poolWorker, 'restore', [connectionId, options])
+      .then((result) => {
+        if (!result.success) {
+          sqlLogger.logOpen({
+            connectionId,
+            dbPath: options.path,
+            success: false,
+            error: result.error,
+          });
+        }
+      })
+      .catch(() => {
+        // The replacement failed too and has been replaced again
+      });
+  }
+
+  private send<M extends SqliteWorkerMethod>(
+    poolWorker: PoolWorker,
+    method: M,
+    args: Parameters<SQLiteAdapter[M]>,
+    connectionId: string | null = null
+  ): Promise<WorkerResult<M>> {
+    const id = ++this.nextCallId;
+
+    return new Promise((resolve, reject) => {
+      poolWorker.pending.set(id, {
+        connectionId,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      const request: SqliteWorkerRequest<M> = { id, method, args };
+      poolWorker.worker.postMessage(request);
+    });
+  }
+
+  private handleMessage(
+    poolWorker: PoolWorker,
+    message: SqliteWorkerResponse
+  ): void {
+    if (message.type === 'log') {
+      const logger: SqlLogWriter = sqlLogger;
+      logger[message.method](message.params as never);
+      return;
+    }
+
+    const call = poolWorker.pending.get(message.id);
+    if (!call) {
+      return;
+    }
+    poolWorker.pending.delete(message.id);
+
+    if (message.type === 'result') {
+      call.resolve(message.result);
+    } else {
+      call.reject(new Error(message.error));
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * SQLite Worker
+ * Entry point of the SQLite worker threads. Each worker hosts a SQLiteAdapter
+ * and runs the adapter methods requested by SqliteWorkerPool, so synchronous
+ * better-sqlite3 calls never block the Electron main thread.
+ */
+
+import type { SqlLogWriter } from '../sql-logger';
+import { Buffer } from 'node:buffer';
+import { parentPort } from 'node:worker_threads';
+import { SQLiteAdapter } from './sqlite-adapter';
+
+/**
+ * Adapter methods that can be called through the worker
+ */
+export type SqliteWorkerMethod = Exclude<keyof SQLiteAdapter, 'type'>;
+
+/**
+ * Call of an adapter method, sent by the pool
+ */
+export interface SqliteWorkerRequest<
+  M extends SqliteWorkerMethod = SqliteWorkerMethod,
+> {
+  id: number;
+  method: M;
+  args: Parameters<SQLiteAdapter[M]>;
+}
+
+/**
+ * SQL log entry forwarded to the main-process logger
+ */
+export type SqliteWorkerLogMessage = {
+  [M in keyof SqlLogWriter]: {
+    type: 'log';
+    method: M;
+    params: Parameters<SqlLogWriter[M]>[0];
+  };
+}[keyof SqlLogWriter];
+
+/**
+ * Message sent by the worker: the outcome of a call or a log entry
+ */
+export type SqliteWorkerResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: string }
+  | SqliteWorkerLogMessage;
+
+function forwardLog<M extends keyof SqlLogWriter>(method: M) {
+  return (params: Parameters<SqlLogWriter[M]>[0]) => {
+    parentPort?.postMessage({ type: 'log', method, params });
+  };
+}
+
+/**
+ * Buffers lose their prototype when posted between threads. Turn the byte
+ * arrays in call arguments back into Buffers so they bind as BLOBs.
+ */
+function restoreBuffers(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return Buffer.isBuffer(value)
+      ? value
+      : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+  if (Array.isArray(value)) {
+    return value.map(restoreBuffers);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restoreBuffers(item)])
+    );
+  }
+  return value;
+}
+
+const adapter = new SQLiteAdapter({
+  logQuery: forwardLog('logQuery'),
+  logExecute: forwardLog('logExecute'),
+  logOpen: forwardLog('logOpen'),
+  logClose: forwardLog('logClose'),
+});
+
+parentPort?.on('message', async (request: SqliteWorkerRequest) => {
+  let response: SqliteWorkerResponse;
+
+  try {
+    const method = adapter[request.method] as (...args: unknown[]) => unknown;
+    const args = request.args.map(restoreBuffers);
+    const result = await method.apply(adapter, args);
+    response = { type: 'result', id: request.id, result };
+  } catch (error) {
+    response = {
+      type: 'error',
+      id: request.id,
+      error: error instanceof Error ? error.message : 'SQLite worker failed',
+    };
+  }
+
+  parentPort?.postMessage(response);
+});
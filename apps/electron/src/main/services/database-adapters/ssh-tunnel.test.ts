@@ -0,0 +1,149 @@
+import type { AddressInfo } from 'node:net';
+import type { TcpipRequestInfo } from 'ssh2';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { Server, utils } from 'ssh2';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { openSshTunnel } from './ssh-tunnel';
+
+/**
+ * Local stand-in for a bastion host: an in-process SSH server that accepts
+ * one password and forwards direct-tcpip channels to local ports.
+ */
+function startBastion(password: string) {
+  const hostKey = utils.generateKeyPairSync('ed25519');
+  const requests: TcpipRequestInfo[] = [];
+
+  const server = new Server({ hostKeys: [hostKey.private] }, (client) => {
+    client.on('authentication', (ctx) => {
+      if (ctx.method === 'password' && ctx.password === password) {
+        ctx.accept();
+      } else {
+        ctx.reject(['password']);
+      }
+    });
+    client.on('ready', () => {
+      client.on('tcpip', (accept, _reject, info) => {
+        requests.push(info);
+        const channel = accept();
+        const upstream = net.connect(info.destPort, info.destIP);
+        channel.pipe(upstream).pipe(channel);
+      });
+    });
+    client.on('error', () => {});
+  });
+
+  return { server, hostKey, requests };
+}
+
+describe('openSshTunnel', () => {
+  const bastion = startBastion('secret');
+  const echo = net.createServer((socket) => socket.pipe(socket));
+  let bastionPort = 0;
+  let echoPort = 0;
+  let knownHostsPath = '';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) =>
+      bastion.server.listen(0, '127.0.0.1', resolve)
+    );
+    await new Promise<void>((resolve) =>
+      echo.listen(0, '127.0.0.1', () => resolve())
+    );
+    bastionPort = (bastion.server.address() as AddressInfo).port;
+    echoPort = (echo.address() as AddressInfo).port;
+
+    const publicKey = utils.parseKey(bastion.hostKey.public);
+    if (publicKey instanceof Error) throw publicKey;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlpro-ssh-'));
+    knownHostsPath = path.join(dir, 'known_hosts');
+    fs.writeFileSync(
+      knownHostsPath,
+      `[127.0.0.1]:${bastionPort} ${publicKey.type} ${publicKey
+        .getPublicSSH()
+        .toString('base64')}\n`
+    );
+  });
+
+  afterAll(() => {
+    bastion.server.close();
+    echo.close();
+    fs.rmSync(path.dirname(knownHostsPath), { recursive: true, force: true });
+  });
+
+  it('should forward a local port through the bastion', async () => {
+    const tunnel = await openSshTunnel(
+      {
+        host: '127.0.0.1',
+        port: bastionPort,
+        username: 'ops',
+        authMethod: 'password',
+        password: 'secret',
+        hostKeyVerification: 'known-hosts',
+        knownHostsPath,
+      },
+      '127.0.0.1',
+      echoPort
+    );
+
+    try {
+      const reply = await new Promise<string>((resolve, reject) => {
+        const socket = net.connect(tunnel.localPort, tunnel.localHost, () => {
+          socket.write('ping');
+        });
+        socket.once('data', (data) => {
+          resolve(data.toString());
+          socket.end();
+        });
+        socket.once('error', reject);
+      });
+
+      expect(reply).toBe('ping');
+      expect(bastion.requests.at(-1)).toMatchObject({
+        destIP: '127.0.0.1',
+        destPort: echoPort,
+      });
+    } finally {
+      tunnel.close();
+    }
+  });
+
+  it('should reject a bastion missing from known_hosts', async () => {
+    fs.writeFileSync(`${knownHostsPath}.empty`, '');
+
+    await expect(
+      openSshTunnel(
+        {
+          host: '127.0.0.1',
+          port: bastionPort,
+          username: 'ops',
+          authMethod: 'password',
+          password: 'secret',
+          hostKeyVerification: 'known-hosts',
+          knownHostsPath: `${knownHostsPath}.empty`,
+        },
+        '127.0.0.1',
+        echoPort
+      )
+    ).rejects.toThrow('the bastion host is not in known_hosts');
+  });
+
+  it('should report failed authentication', async () => {
+    await expect(
+      openSshTunnel(
+        {
+          host: '127.0.0.1',
+          port: bastionPort,
+          username: 'ops',
+          authMethod: 'password',
+          password: 'wrong',
+          hostKeyVerification: 'none',
+        },
+        '127.0.0.1',
+        echoPort
+      )
+    ).rejects.toThrow('SSH connection failed');
+  });
+});
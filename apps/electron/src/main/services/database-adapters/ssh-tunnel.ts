@@ -0,0 +1,186 @@
+/**
+ * SSH tunnels for server connections
+ * Opens an SSH session to a bastion host and forwards a local port to the
+ * database server through it, so drivers connect to 127.0.0.1 instead.
+ */
+
+import type { SshTunnelConfig } from '@shared/types';
+import type { Buffer } from 'node:buffer';
+import type { AddressInfo } from 'node:net';
+import type { ConnectConfig } from 'ssh2';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { checkHostKey, parseKnownHosts } from '@/lib/known-hosts';
+
+/**
+ * Local end of an open tunnel
+ */
+export interface SshTunnel {
+  localHost: string;
+  localPort: number;
+  /** Stop forwarding and end the SSH session */
+  close: () => void;
+}
+
+const HOST_KEY_ERRORS = {
+  mismatch:
+    'SSH host key verification failed: the key of the bastion host does not match known_hosts',
+  revoked: 'SSH host key verification failed: the bastion host key is revoked',
+  unknown:
+    'SSH host key verification failed: the bastion host is not in known_hosts',
+} as const;
+
+/** How long to wait for the SSH handshake and authentication */
+const READY_TIMEOUT_MS = 20000;
+
+/** Keepalive interval so idle tunnels are not dropped by firewalls */
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+let ssh2: typeof import('ssh2') | null = null;
+
+async function getSsh2() {
+  if (!ssh2) {
+    try {
+      ssh2 = await import('ssh2');
+    } catch {
+      throw new Error(
+        'SSH client not installed. Please install ssh2 package: npm install ssh2'
+      );
+    }
+  }
+  return ssh2;
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~')
+    ? path.join(os.homedir(), filePath.slice(1))
+    : filePath;
+}
+
+/**
+ * Build the ssh2 options for a tunnel config. Host key verification failures
+ * are reported through onHostKeyError since ssh2 only surfaces a generic error.
+ */
+async function buildConnectConfig(
+  ssh: SshTunnelConfig,
+  onHostKeyError: (message: string) => void
+): Promise<ConnectConfig> {
+  const port = ssh.port || 22;
+  const connectConfig: ConnectConfig = {
+    host: ssh.host,
+    port,
+    username: ssh.username,
+    readyTimeout: READY_TIMEOUT_MS,
+    keepaliveInterval: KEEPALIVE_INTERVAL_MS,
+  };
+
+  if (ssh.authMethod === 'privateKey') {
+    if (!ssh.privateKeyPath) {
+      throw new Error('SSH private key file is required');
+    }
+    connectConfig.privateKey = await fs.promises.readFile(
+      expandHome(ssh.privateKeyPath)
+    );
+    connectConfig.passphrase = ssh.passphrase || undefined;
+  } else {
+    connectConfig.password = ssh.password;
+  }
+
+  if (ssh.hostKeyVerification === 'known-hosts') {
+    const knownHostsPath = expandHome(
+      ssh.knownHostsPath || '~/.ssh/known_hosts'
+    );
+    let content: string;
+    try {
+      content = await fs.promises.readFile(knownHostsPath, 'utf-8');
+    } catch {
+      throw new Error(`Cannot read known_hosts file: ${knownHostsPath}`);
+    }
+    const entries = parseKnownHosts(content);
+
+    connectConfig.hostVerifier = (key: Buffer) => {
+      const status = checkHostKey(entries, ssh.host, port, key);
+      if (status === 'match') {
+        return true;
+      }
+      onHostKeyError(HOST_KEY_ERRORS[status]);
+      return false;
+    };
+  }
+
+  return connectConfig;
+}
+
+/**
+ * Connect to the bastion host and forward a local port to
+ * targetHost:targetPort. The target is resolved from the bastion.
+ */
+export async function openSshTunnel(
+  ssh: SshTunnelConfig,
+  targetHost: string,
+  targetPort: number
+): Promise<SshTunnel> {
+  const { Client } = await getSsh2();
+
+  let hostKeyError: string | null = null;
+  const connectConfig = await buildConnectConfig(ssh, (message) => {
+    hostKeyError = message;
+  });
+
+  const client = new Client();
+  await new Promise<void>((resolve, reject) => {
+    client.once('ready', () => resolve());
+    client.once('error', (err) => {
+      reject(
+        new Error(hostKeyError ?? `SSH connection failed: ${err.message}`)
+      );
+    });
+    client.connect(connectConfig);
+  });
+
+  const server = net.createServer((socket) => {
+    client.forwardOut(
+      socket.remoteAddress ?? '127.0.0.1',
+      socket.remotePort ?? 0,
+      targetHost,
+      targetPort,
+      (err, stream) => {
+        if (err) {
+          socket.destroy(err);
+          return;
+        }
+        socket.on('error', () => stream.destroy());
+        stream.on('error', () => socket.destroy());
+        socket.pipe(stream).pipe(socket);
+      }
+    );
+  });
+
+  // Errors after the handshake (e.g. the bastion going away) end the tunnel;
+  // the database driver then reports its connection as lost
+  client.on('error', () => server.close());
+  client.on('close', () => server.close());
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+  } catch (error) {
+    client.end();
+    throw error;
+  }
+
+  const { port: localPort } = server.address() as AddressInfo;
+
+  return {
+    localHost: '127.0.0.1',
+    localPort,
+    close: () => {
+      server.close();
+      client.end();
+    },
+  };
+}
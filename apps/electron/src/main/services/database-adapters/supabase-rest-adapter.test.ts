@@ -0,0 +1,330 @@
+import type { PostgRestOpenApi } from './supabase-rest-adapter';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  parseOpenApiTables,
+  SupabaseRestAdapter,
+  toPostgRestFilter,
+} from './supabase-rest-adapter';
+
+vi.mock('../sql-logger', () => ({
+  sqlLogger: {
+    logOpen: vi.fn(),
+    logClose: vi.fn(),
+  },
+}));
+
+const spec: PostgRestOpenApi = {
+  paths: {
+    '/posts': { get: {}, post: {}, patch: {}, delete: {} },
+    '/post_stats': { get: {} },
+  },
+  definitions: {
+    posts: {
+      required: ['id', 'title'],
+      properties: {
+        id: {
+          type: 'integer',
+          format: 'bigint',
+          description: 'Note:\nThis is a Primary Key.<pk/>',
+        },
+        title: { type: 'string', format: 'text' },
+        author_id: {
+          type: 'string',
+          format: 'uuid',
+          description:
+            "Note:\nThis is a Foreign Key to `authors.id`.<fk table='authors' column='id'/>",
+        },
+      },
+    },
+    post_stats: {
+      properties: { views: { type: 'integer', format: 'bigint' } },
+    },
+  },
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Stand-in for the Supabase API: serves the OpenAPI description, two pages
+ * of posts and the auth admin user list, lets only the first post be
+ * updated, and records every request.
+ */
+function stubSupabaseApi() {
+  const requests: RecordedRequest[] = [];
+
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      requests.push({
+        url,
+        method: init.method ?? 'GET',
+        headers,
+        body: init.body as string | undefined,
+      });
+
+      const { pathname } = new URL(url);
+      if (pathname === '/rest/v1/') {
+        return Response.json(spec);
+      }
+      if (pathname === '/rest/v1/posts' && init.method === 'GET') {
+        return Response.json([{ id: 3, title: 'Third' }], {
+          headers: { 'Content-Range': '2-2/3' },
+        });
+      }
+      if (pathname === '/auth/v1/admin/users') {
+        return Response.json(
+          { users: [{ id: 'u1', email: 'a@example.com', factors: [] }] },
+          { headers: { 'x-total-count': '1' } }
+        );
+      }
+      if (pathname === '/rest/v1/posts' && init.method === 'DELETE') {
+        return Response.json(
+          { message: 'permission denied for table posts' },
+          { status: 403 }
+        );
+      }
+      if (pathname === '/rest/v1/posts' && init.method === 'PATCH') {
+        // Row-level security hides every post but the first
+        const matched = new URL(url).searchParams.get('id') === 'eq.1';
+        return new Response(null, {
+          status: 204,
+          headers: { 'Content-Range': matched ? '*/1' : '*/0' },
+        });
+      }
+      return new Response(null, { status: 204 });
+    })
+  );
+
+  return requests;
+}
+
+describe('parseOpenApiTables', () => {
+  it('should read keys from the column descriptions', () => {
+    const [postStats, posts] = parseOpenApiTables(spec);
+
+    expect(posts).toMatchObject({
+      name: 'posts',
+      schema: 'public',
+      type: 'table',
+      primaryKey: ['id'],
+      foreignKeys: [
+        {
+          column: 'author_id',
+          referencedTable: 'authors',
+          referencedColumn: 'id',
+        },
+      ],
+    });
+    expect(posts.columns.map((c) => [c.name, c.type, c.nullable])).toEqual([
+      ['id', 'bigint', false],
+      ['title', 'text', false],
+      ['author_id', 'uuid', true],
+    ]);
+    expect(postStats.type).toBe('view');
+  });
+});
+
+describe('toPostgRestFilter', () => {
+  it('should translate grid filters', () => {
+    expect(toPostgRestFilter('eq', 'a')).toBe('eq.a');
+    expect(toPostgRestFilter('gte', '5')).toBe('gte.5');
+    expect(toPostgRestFilter('like', 'foo')).toBe('ilike.*foo*');
+    expect(toPostgRestFilter('notnull', '')).toBe('not.is.null');
+  });
+});
+
+describe('supabaseRestAdapter', () => {
+  let adapter: SupabaseRestAdapter;
+  let requests: RecordedRequest[];
+
+  beforeEach(() => {
+    adapter = new SupabaseRestAdapter();
+    requests = stubSupabaseApi();
+  });
+
+  afterEach(() => {
+    adapter.closeAll();
+    vi.unstubAllGlobals();
+  });
+
+  async function open(role?: 'service_role' | 'anon') {
+    const result = await adapter.open({
+      type: 'supabase',
+      supabaseUrl: 'https://abc.supabase.co/',
+      supabaseServiceKey: 'service-key',
+      supabaseAnonKey: 'anon-key',
+      supabaseRole: role,
+    });
+    if (!result.success) throw new Error(result.error);
+    return result.connection;
+  }
+
+  it('should require an API key', async () => {
+    const result = await adapter.open({
+      type: 'supabase',
+      supabaseUrl: 'https://abc.supabase.co',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should list tables and auth users for the service role', async () => {
+    const connection = await open();
+    expect(connection.supabase).toEqual({
+      mode: 'rest',
+      role: 'service_role',
+      roles: ['service_role', 'anon'],
+    });
+
+    const schema = await adapter.getSchemaAsync(connection.id);
+    if (!schema.success) throw new Error(schema.error);
+    expect(schema.schemas.map((s) => s.name)).toEqual(['auth', 'public']);
+    expect(schema.views.map((v) => v.name)).toEqual(['post_stats']);
+    expect(requests[0].headers.apikey).toBe('service-key');
+
+    const users = await adapter.getTableDataAsync(
+      connection.id,
+      'users',
+      1,
+      50,
+      undefined,
+      undefined,
+      undefined,
+      'auth'
+    );
+    expect(users).toMatchObject({ success: true, totalRows: 1 });
+    expect(users.rows?.[0]).toMatchObject({ id: 'u1', email: 'a@example.com' });
+    expect(users.rows?.[0]).not.toHaveProperty('factors');
+    expect(requests.at(-1)?.url).toBe(
+      'https://abc.supabase.co/auth/v1/admin/users?page=1&per_page=50'
+    );
+  });
+
+  it('should page, sort and filter table data with the anon key', async () => {
+    const connection = await open('anon');
+
+    const schema = await adapter.getSchemaAsync(connection.id);
+    if (!schema.success) throw new Error(schema.error);
+    expect(schema.schemas.map((s) => s.name)).toEqual(['public']);
+
+    const data = await adapter.getTableDataAsync(
+      connection.id,
+      'posts',
+      2,
+      2,
+      'title',
+      'desc',
+      [{ column: 'title', operator: 'like', value: 'T' }]
+    );
+
+    expect(data).toMatchObject({ success: true, totalRows: 3 });
+    const request = requests.at(-1)!;
+    const url = new URL(request.url);
+    expect(url.searchParams.get('title')).toBe('ilike.*T*');
+    expect(url.searchParams.get('order')).toBe('title.desc');
+    expect(url.searchParams.get('offset')).toBe('2');
+    expect(request.headers.apikey).toBe('anon-key');
+    expect(request.headers.Prefer).toBe('count=exact');
+  });
+
+  it('should switch roles', async () => {
+    const connection = await open();
+
+    const result = await adapter.setSupabaseRoleAsync(connection.id, 'anon');
+
+    expect(result).toMatchObject({ success: true, supabase: { role: 'anon' } });
+    expect(requests.at(-1)?.headers.Authorization).toBe('Bearer anon-key');
+  });
+
+  it('should apply changes by primary key and report partial failures', async () => {
+    const connection = await open();
+
+    const result = await adapter.applyChangesAsync(connection.id, [
+      {
+        id: 'c1',
+        table: 'posts',
+        schema: 'public',
+        rowId: 1,
+        type: 'update',
+        oldValues: { title: 'Old' },
+        newValues: { title: 'New' },
+        primaryKeyColumn: 'id',
+      },
+      {
+        id: 'c2',
+        table: 'posts',
+        schema: 'public',
+        rowId: 2,
+        type: 'delete',
+        oldValues: null,
+        newValues: null,
+        primaryKeyColumn: 'id',
+      },
+    ]);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'permission denied for table posts (1 of 2 changes were applied)',
+    });
+    const [update, remove] = requests.slice(-2);
+    expect(update).toMatchObject({
+      url: 'https://abc.supabase.co/rest/v1/posts?id=eq.1',
+      method: 'PATCH',
+      body: '{"title":"New"}',
+    });
+    expect(remove).toMatchObject({
+      url: 'https://abc.supabase.co/rest/v1/posts?id=eq.2',
+      method: 'DELETE',
+    });
+  });
+
+  it('should report updates filtered out by row-level security', async () => {
+    const connection = await open();
+
+    const result = await adapter.applyChangesAsync(connection.id, [
+      {
+        id: 'c1',
+        table: 'posts',
+        schema: 'public',
+        rowId: 7,
+        type: 'update',
+        oldValues: { title: 'Old' },
+        newValues: { title: 'New' },
+        primaryKeyColumn: 'id',
+      },
+    ]);
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        'Row id = 7 of posts was not updated: it no longer exists or row-level security does not allow the change',
+    });
+    expect(requests.at(-1)?.headers.Prefer).toBe('return=minimal, count=exact');
+  });
+
+  it('should reject edits outside the public schema', async () => {
+    const connection = await open();
+
+    const result = await adapter.applyChangesAsync(connection.id, [
+      {
+        id: 'c1',
+        table: 'users',
+        schema: 'auth',
+        rowId: 'u1',
+        type: 'delete',
+        oldValues: null,
+        newValues: null,
+        primaryKeyColumn: 'id',
+      },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(requests.every((r) => r.method === 'GET')).toBe(true);
+  });
+});
@@ -0,0 +1,829 @@
+/**
+ * Supabase REST adapter
+ * Browses and edits a Supabase project through PostgREST with an API key,
+ * for users without direct Postgres access. Tables come from the PostgREST
+ * OpenAPI description, and the service_role key also exposes auth users
+ * through the Auth admin API. SQL needs a direct database connection.
+ */
+
+import type {
+  ColumnInfo,
+  DatabaseConnectionConfig,
+  ErrorCode,
+  ForeignKeyInfo,
+  GetTableDataResponse,
+  PendingChangeInfo,
+  QueryPlanNode,
+  QueryPlanStats,
+  SchemaInfo,
+  SupabaseRole,
+  SupabaseSessionInfo,
+  TableInfo,
+  ValidationResult,
+} from '@shared/types';
+import type {
+  AdapterConnectionInfo,
+  DatabaseAdapter,
+  OpenCursorResult,
+  OpenResult,
+} from './types';
+import { sqlLogger } from '../sql-logger';
+
+/**
+ * Subset of the Swagger 2.0 document PostgREST serves at /rest/v1/
+ */
+export interface PostgRestOpenApi {
+  paths?: Record<string, Record<string, unknown>>;
+  definitions?: Record<
+    string,
+    {
+      required?: string[];
+      properties?: Record<
+        string,
+        {
+          type?: string;
+          format?: string;
+          default?: unknown;
+          description?: string;
+        }
+      >;
+    }
+  >;
+}
+
+interface SupabaseRestConnectionInfo {
+  id: string;
+  config: DatabaseConnectionConfig;
+  /** Project URL without a trailing slash */
+  projectUrl: string;
+  keys: Partial<Record<SupabaseRole, string>>;
+  role: SupabaseRole;
+  filename: string;
+  isReadOnly: boolean;
+  /** Tables and views of the last loaded OpenAPI description, by name */
+  tables: Map<string, TableInfo>;
+}
+
+/** Schema PostgREST exposes by default */
+const REST_SCHEMA = 'public';
+
+const SQL_UNAVAILABLE =
+  'SQL is not available over the Supabase REST API. Add the database password to the connection to run queries.';
+
+/**
+ * Columns of auth.users returned by the Auth admin API
+ */
+const AUTH_USER_COLUMNS: ColumnInfo[] = [
+  ['id', 'uuid'],
+  ['email', 'text'],
+  ['phone', 'text'],
+  ['role', 'text'],
+  ['aud', 'text'],
+  ['created_at', 'timestamp with time zone'],
+  ['updated_at', 'timestamp with time zone'],
+  ['last_sign_in_at', 'timestamp with time zone'],
+  ['email_confirmed_at', 'timestamp with time zone'],
+  ['app_metadata', 'jsonb'],
+  ['user_metadata', 'jsonb'],
+].map(([name, type]) => ({
+  name,
+  type,
+  nullable: name !== 'id',
+  defaultValue: null,
+  isPrimaryKey: name === 'id',
+}));
+
+const AUTH_USERS_TABLE: TableInfo = {
+  name: 'users',
+  schema: 'auth',
+  type: 'table',
+  columns: AUTH_USER_COLUMNS,
+  primaryKey: ['id'],
+  foreignKeys: [],
+  indexes: [],
+  triggers: [],
+  sql: '',
+};
+
+// Simple ID generator
+let idCounter = 0;
+function generateId(): string {
+  idCounter += 1;
+  return `supabase_rest_${idCounter}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Build tables and views from the PostgREST OpenAPI description. Primary and
+ * foreign keys are only reported in the column descriptions, as `<pk/>` and
+ * `<fk table='...' column='...'/>` markers. Relations that accept POST are
+ * tables, the rest are views.
+ */
+export function parseOpenApiTables(spec: PostgRestOpenApi): TableInfo[] {
+  const tables: TableInfo[] = [];
+
+  for (const [name, definition] of Object.entries(spec.definitions ?? {})) {
+    const required = new Set(definition.required ?? []);
+    const columns: ColumnInfo[] = [];
+    const foreignKeys: ForeignKeyInfo[] = [];
+
+    for (const [column, property] of Object.entries(
+      definition.properties ?? {}
+    )) {
+      const description = property.description ?? '';
+      columns.push({
+        name: column,
+        type: property.format ?? property.type ?? 'unknown',
+        nullable: !required.has(column),
+        defaultValue:
+          property.default === undefined ? null : String(property.default),
+        isPrimaryKey: description.includes('<pk/>'),
+      });
+
+      const fk = description.match(/<fk table='([^']+)' column='([^']+)'\/>/);
+      if (fk) {
+        foreignKeys.push({
+          column,
+          referencedTable: fk[1],
+          referencedColumn: fk[2],
+        });
+      }
+    }
+
+    const path = spec.paths?.[`/${name}`];
+    tables.push({
+      name,
+      schema: REST_SCHEMA,
+      type: path && 'post' in path ? 'table' : 'view',
+      columns,
+      primaryKey: columns.filter((c) => c.isPrimaryKey).map((c) => c.name),
+      foreignKeys,
+      indexes: [],
+      triggers: [],
+      sql: '',
+    });
+  }
+
+  return tables.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Translate a grid filter into a PostgREST query parameter value.
+ */
+export function toPostgRestFilter(operator: string, value: string): string {
+  switch (operator) {
+    case 'neq':
+    case 'gt':
+    case 'lt':
+    case 'gte':
+    case 'lte':
+      return `${operator}.${value}`;
+    case 'like':
+      return `ilike.*${value}*`;
+    case 'isnull':
+      return 'is.null';
+    case 'notnull':
+      return 'not.is.null';
+    default:
+      return `eq.${value}`;
+  }
+}
+
+/**
+ * Total row count from a `Content-Range: 0-49/1234` header.
+ */
+function parseContentRangeTotal(header: string | null): number | undefined {
+  const total = header?.split('/')[1];
+  return total && total !== '*' ? Number(total) : undefined;
+}
+
+/**
+ * Error message from a PostgREST or Auth API error response.
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text) as {
+      message?: string;
+      msg?: string;
+      hint?: string;
+    };
+    const message = body.message ?? body.msg ?? text;
+    return body.hint ? `${message} (${body.hint})` : message;
+  } catch {
+    return text || `${response.status} ${response.statusText}`;
+  }
+}
+
+/**
+ * Supabase adapter over the REST API
+ */
+export class SupabaseRestAdapter implements DatabaseAdapter {
+  readonly type = 'supabase' as const;
+  private connections: Map<string, SupabaseRestConnectionInfo> = new Map();
+
+  /**
+   * Send a request with the API key of the connection's role.
+   */
+  private async request(
+    conn: SupabaseRestConnectionInfo,
+    path: string,
+    init: {
+      method?: string;
+      headers?: Record<string, string>;
+      body?: unknown;
+    } = {},
+    role: SupabaseRole = conn.role
+  ): Promise<Response> {
+    const key = conn.keys[role];
+    if (!key) {
+      throw new Error(`No ${role} key is configured for this connection`);
+    }
+
+    const response = await fetch(`${conn.projectUrl}${path}`, {
+      method: init.method ?? 'GET',
+      headers: {
+        apikey: key,
+        Authorization: `Bearer ${key}`,
+        ...(init.body === undefined
+          ? {}
+          : { 'Content-Type': 'application/json' }),
+        ...init.headers,
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+    return response;
+  }
+
+  /**
+   * Load the tables the role can see from the PostgREST OpenAPI description.
+   */
+  private async loadTables(
+    conn: SupabaseRestConnectionInfo,
+    role: SupabaseRole = conn.role
+  ): Promise<Map<string, TableInfo>> {
+    const response = await this.request(
+      conn,
+      '/rest/v1/',
+      { headers: { Accept: 'application/openapi+json' } },
+      role
+    );
+    const spec = (await response.json()) as PostgRestOpenApi;
+    return new Map(parseOpenApiTables(spec).map((t) => [t.name, t]));
+  }
+
+  private getSupabaseSession(
+    conn: SupabaseRestConnectionInfo
+  ): SupabaseSessionInfo {
+    return {
+      mode: 'rest',
+      role: conn.role,
+      roles: (['service_role', 'anon'] as const).filter(
+        (role) => !!conn.keys[role]
+      ),
+    };
+  }
+
+  async open(config: DatabaseConnectionConfig): Promise<OpenResult> {
+    let projectUrl: string;
+    try {
+      const url = new URL(config.supabaseUrl ?? '');
+      projectUrl = url.origin;
+    } catch {
+      return {
+        success: false,
+        error:
+          'Invalid Supabase URL format. Expected format: https://your-project.supabase.co',
+        errorCode: 'CONNECTION_ERROR',
+      };
+    }
+
+    const keys: Partial<Record<SupabaseRole, string>> = {
+      service_role: config.supabaseServiceKey || undefined,
+      anon: config.supabaseAnonKey || undefined,
+    };
+    const role: SupabaseRole =
+      config.supabaseRole && keys[config.supabaseRole]
+        ? config.supabaseRole
+        : keys.service_role
+          ? 'service_role'
+          : 'anon';
+
+    if (!keys[role]) {
+      return {
+        success: false,
+        error: 'A Supabase service_role or anon API key is required',
+        errorCode: 'CONNECTION_ERROR',
+      };
+    }
+
+    const id = generateId();
+    const filename = config.name || new URL(projectUrl).hostname;
+    const conn: SupabaseRestConnectionInfo = {
+      id,
+      config,
+      projectUrl,
+      keys,
+      role,
+      filename,
+      isReadOnly: config.readOnly ?? false,
+      tables: new Map(),
+    };
+
+    try {
+      conn.tables = await this.loadTables(conn);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : 'Failed to reach the Supabase REST API';
+
+      sqlLogger.logOpen({
+        connectionId: 'unknown',
+        dbPath: projectUrl,
+        success: false,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+        errorCode: 'CONNECTION_ERROR',
+        troubleshootingSteps: [
+          'Verify the Supabase project URL is correct',
+          'Check the API keys in Project Settings > API',
+          'Ensure the Supabase project is running',
+        ],
+      };
+    }
+
+    this.connections.set(id, conn);
+
+    sqlLogger.logOpen({
+      connectionId: id,
+      dbPath: filename,
+      success: true,
+    });
+
+    return {
+      success: true,
+      connection: {
+        id,
+        path: filename,
+        filename,
+        isEncrypted: true,
+        isReadOnly: conn.isReadOnly,
+        databaseType: 'supabase',
+        supabase: this.getSupabaseSession(conn),
+      },
+    };
+  }
+
+  close(
+    connectionId: string
+  ): { success: true } | { success: false; error: string } {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    // Nothing to release: every call is a stateless HTTP request
+    this.connections.delete(connectionId);
+    sqlLogger.logClose({
+      connectionId,
+      dbPath: conn.filename,
+      success: true,
+    });
+    return { success: true };
+  }
+
+  getConnection(connectionId: string): AdapterConnectionInfo | null {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return null;
+    }
+
+    return {
+      id: conn.id,
+      path: conn.filename,
+      filename: conn.filename,
+      isEncrypted: true,
+      isReadOnly: conn.isReadOnly,
+      databaseType: 'supabase',
+      supabase: this.getSupabaseSession(conn),
+    };
+  }
+
+  /**
+   * Switch between the service_role and anon keys. The table list is
+   * reloaded since it depends on the privileges of the role.
+   */
+  async setSupabaseRoleAsync(
+    connectionId: string,
+    role: SupabaseRole
+  ): Promise<
+    | { success: true; supabase: SupabaseSessionInfo }
+    | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      conn.tables = await this.loadTables(conn, role);
+      conn.role = role;
+      return { success: true, supabase: this.getSupabaseSession(conn) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to switch role',
+      };
+    }
+  }
+
+  async getSchemaAsync(connectionId: string): Promise<
+    | {
+        success: true;
+        schemas: SchemaInfo[];
+        tables: TableInfo[];
+        views: TableInfo[];
+      }
+    | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      conn.tables = await this.loadTables(conn);
+      const relations = [...conn.tables.values()];
+      const tables = relations.filter((t) => t.type === 'table');
+      const views = relations.filter((t) => t.type === 'view');
+      const schemas: SchemaInfo[] = [{ name: REST_SCHEMA, tables, views }];
+
+      // Only the service_role key may use the Auth admin API
+      if (conn.role === 'service_role') {
+        schemas.unshift({
+          name: 'auth',
+          tables: [AUTH_USERS_TABLE],
+          views: [],
+        });
+        tables.unshift(AUTH_USERS_TABLE);
+      }
+
+      return { success: true, schemas, tables, views };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get schema',
+      };
+    }
+  }
+
+  getSchema(_connectionId: string):
+    | {
+        success: true;
+        schemas: SchemaInfo[];
+        tables: TableInfo[];
+        views: TableInfo[];
+      }
+    | { success: false; error: string } {
+    return {
+      success: false,
+      error: 'Use getSchemaAsync for Supabase connections',
+    };
+  }
+
+  execute(
+    _connectionId: string,
+    _sql: string,
+    _params?: unknown[]
+  ):
+    | { success: true; changes: number; lastInsertRowid: number }
+    | { success: false; error: string; errorCode?: ErrorCode } {
+    return { success: false, error: SQL_UNAVAILABLE };
+  }
+
+  query(
+    _connectionId: string,
+    _sql: string,
+    _params?: unknown[]
+  ):
+    | { success: true; columns: string[]; rows: unknown[][] }
+    | { success: false; error: string; errorCode?: ErrorCode } {
+    return { success: false, error: SQL_UNAVAILABLE };
+  }
+
+  executeQuery(
+    _connectionId: string,
+    _query: string
+  ):
+    | { success: true; columns?: string[]; rows?: Record<string, unknown>[] }
+    | { success: false; error: string; errorCode?: ErrorCode } {
+    return { success: false, error: SQL_UNAVAILABLE };
+  }
+
+  async openCursorAsync(
+    _connectionId: string,
+    _sql: string
+  ): Promise<OpenCursorResult> {
+    return { success: false, error: SQL_UNAVAILABLE };
+  }
+
+  getTableData(
+    _connectionId: string,
+    _table: string,
+    _page: number,
+    _pageSize: number
+  ): GetTableDataResponse {
+    return {
+      success: false,
+      error: 'Use getTableDataAsync for Supabase connections',
+    };
+  }
+
+  async getTableDataAsync(
+    connectionId: string,
+    table: string,
+    page: number,
+    pageSize: number,
+    sortColumn?: string,
+    sortDirection?: 'asc' | 'desc',
+    filters?: Array<{ column: string; operator: string; value: string }>,
+    schema?: string
+  ): Promise<GetTableDataResponse> {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    try {
+      if (schema === 'auth' && table === 'users') {
+        return await this.getAuthUsers(
+          conn,
+          page,
+          pageSize,
+          !!sortColumn || !!filters?.length
+        );
+      }
+
+      const params = new URLSearchParams({ select: '*' });
+      for (const f of filters ?? []) {
+        params.append(f.column, toPostgRestFilter(f.operator, f.value));
+      }
+      if (sortColumn) {
+        params.set(
+          'order',
+          `${sortColumn}.${sortDirection === 'desc' ? 'desc' : 'asc'}`
+        );
+      }
+      params.set('limit', String(pageSize));
+      params.set('offset', String((page - 1) * pageSize));
+
+      const response = await this.request(
+        conn,
+        `/rest/v1/${encodeURIComponent(table)}?${params}`,
+        {
+          headers: {
+            Prefer: 'count=exact',
+            'Accept-Profile': schema || REST_SCHEMA,
+          },
+        }
+      );
+      const rows = (await response.json()) as Record<string, unknown>[];
+
+      return {
+        success: true,
+        columns: conn.tables.get(table)?.columns ?? [],
+        rows,
+        totalRows:
+          parseContentRangeTotal(response.headers.get('content-range')) ??
+          rows.length,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to get table data',
+      };
+    }
+  }
+
+  /**
+   * Page through auth users with the Auth admin API.
+   */
+  private async getAuthUsers(
+    conn: SupabaseRestConnectionInfo,
+    page: number,
+    pageSize: number,
+    isSortedOrFiltered: boolean
+  ): Promise<GetTableDataResponse> {
+    if (conn.role !== 'service_role') {
+      return {
+        success: false,
+        error: 'Auth users are only available with the service_role key',
+      };
+    }
+    if (isSortedOrFiltered) {
+      return {
+        success: false,
+        error:
+          'Sorting and filtering auth users needs a direct database connection',
+      };
+    }
+
+    const response = await this.request(
+      conn,
+      `/auth/v1/admin/users?page=${page}&per_page=${pageSize}`
+    );
+    const body = (await response.json()) as {
+      users?: Record<string, unknown>[];
+    };
+    const users = (body.users ?? []).map((user) =>
+      Object.fromEntries(
+        AUTH_USER_COLUMNS.map((c) => [c.name, user[c.name] ?? null])
+      )
+    );
+    const total = response.headers.get('x-total-count');
+
+    return {
+      success: true,
+      columns: AUTH_USER_COLUMNS,
+      rows: users,
+      totalRows: total ? Number(total) : users.length,
+    };
+  }
+
+  validateQuery(_connectionId: string, _sql: string): ValidationResult {
+    return { isValid: false, error: SQL_UNAVAILABLE };
+  }
+
+  explainQuery(
+    _connectionId: string,
+    _sql: string
+  ):
+    | { success: true; plan: QueryPlanNode; stats: QueryPlanStats }
+    | { success: false; error: string } {
+    return { success: false, error: SQL_UNAVAILABLE };
+  }
+
+  validateChanges(connectionId: string, changes: PendingChangeInfo[]) {
+    const results: ValidationResult[] = changes.map((c) => {
+      if ((c.schema || REST_SCHEMA) !== REST_SCHEMA) {
+        return {
+          changeId: c.id,
+          isValid: false,
+          error: `Only tables in the ${REST_SCHEMA} schema can be edited over the REST API`,
+        };
+      }
+      if (c.type !== 'insert' && !c.primaryKeyColumn) {
+        return {
+          changeId: c.id,
+          isValid: false,
+          error: 'Rows without a primary key cannot be edited',
+        };
+      }
+      return { changeId: c.id, isValid: this.connections.has(connectionId) };
+    });
+    return { success: true as const, results };
+  }
+
+  applyChanges(_connectionId: string, _changes: PendingChangeInfo[]) {
+    return {
+      success: false as const,
+      error: 'Use applyChangesAsync for Supabase connections',
+    };
+  }
+
+  /**
+   * Apply changes with one request each. PostgREST cannot group requests into
+   * a transaction, so changes before a failed one stay applied. Row-level
+   * security filters rows out of updates and deletes without an error, so
+   * each must report exactly the one row its primary key matches.
+   */
+  async applyChangesAsync(
+    connectionId: string,
+    changes: PendingChangeInfo[]
+  ): Promise<
+    { success: true; appliedCount: number } | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const invalid = this.validateChanges(connectionId, changes).results.find(
+      (r) => !r.isValid
+    );
+    if (invalid) {
+      return { success: false, error: invalid.error ?? 'Invalid change' };
+    }
+
+    let appliedCount = 0;
+    try {
+      for (const change of changes) {
+        const path = `/rest/v1/${encodeURIComponent(change.table)}`;
+
+        if (change.type === 'insert' && change.newValues) {
+          await this.request(conn, path, {
+            method: 'POST',
+            headers: { Prefer: 'return=minimal' },
+            body: change.newValues,
+          });
+        } else {
+          const match = new URLSearchParams({
+            [change.primaryKeyColumn!]: `eq.${change.rowId}`,
+          });
+          const headers = { Prefer: 'return=minimal, count=exact' };
+          let response: Response;
+          if (change.type === 'update' && change.newValues) {
+            response = await this.request(conn, `${path}?${match}`, {
+              method: 'PATCH',
+              headers,
+              body: change.newValues,
+            });
+          } else if (change.type === 'delete') {
+            response = await this.request(conn, `${path}?${match}`, {
+              method: 'DELETE',
+              headers,
+            });
+          } else {
+            continue;
+          }
+
+          const affectedRows = parseContentRangeTotal(
+            response.headers.get('content-range')
+          );
+          if (affectedRows !== 1) {
+            throw new Error(
+              `Row ${change.primaryKeyColumn} = ${change.rowId} of ${change.table} was not ${change.type === 'update' ? 'updated' : 'deleted'}: it no longer exists or row-level security does not allow the change`
+            );
+          }
+        }
+        appliedCount++;
+      }
+
+      return { success: true, appliedCount };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Failed to apply changes';
+      return {
+        success: false,
+        error:
+          appliedCount > 0
+            ? `${message} (${appliedCount} of ${changes.length} changes were applied)`
+            : message,
+      };
+    }
+  }
+
+  closeAll(): void {
+    for (const [id] of this.connections) {
+      this.close(id);
+    }
+  }
+
+  getTableStructure(
+    _connectionId: string,
+    _tableName: string,
+    _schema?: string
+  ):
+    | { success: true; structure: TableInfo }
+    | { success: false; error: string } {
+    return {
+      success: false,
+      error: 'Use getTableStructureAsync for Supabase connections',
+    };
+  }
+
+  async getTableStructureAsync(
+    connectionId: string,
+    tableName: string,
+    schema?: string
+  ): Promise<
+    { success: true; structure: TableInfo } | { success: false; error: string }
+  > {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const structure =
+      schema === 'auth' && tableName === 'users'
+        ? AUTH_USERS_TABLE
+        : conn.tables.get(tableName);
+    if (!structure) {
+      return { success: false, error: `Table not found: ${tableName}` };
+    }
+    return { success: true, structure };
+  }
+
+  getPendingChanges(_connectionId: string) {
+    return { success: true as const, changes: [] as PendingChangeInfo[] };
+  }
+}
@@ -12,9 +12,11 @@ import type {
   QueryPlanNode,
   QueryPlanStats,
   SchemaInfo,
+  SupabaseSessionInfo,
   TableInfo,
   ValidationResult,
 } from '@shared/types';
+import type { SessionOptions } from './server-sessions';
 
 /**
  * Connection information returned by adapters
@@ -26,6 +28,8 @@ export interface AdapterConnectionInfo {
   isEncrypted: boolean;
   isReadOnly: boolean;
   databaseType: DatabaseType;
+  /** Supabase connections: access mode and active role */
+  supabase?: SupabaseSessionInfo;
 }
 
 /**
@@ -72,6 +76,34 @@ export interface ExecuteResult {
   lastInsertRowid: number;
 }
 
+/**
+ * Server-side cursor over the rows of a query, read one page at a time so
+ * the full result is never held in memory
+ */
+export interface RowCursor {
+  /** Column names, known once the first page has been read */
+  readonly columns: string[];
+  /** Read up to `count` rows; fewer rows means the result is exhausted */
+  read: (count: number) => Promise<Record<string, unknown>[]>;
+  /** Release the cursor, stopping a read that is still running */
+  close: () => Promise<void>;
+}
+
+/**
+ * Open cursor result
+ */
+export type OpenCursorResult =
+  | { success: true; cursor: RowCursor }
+  | { success: false; error: string };
+
+/**
+ * Options of an adapter's executeQueryAsync
+ */
+export interface ExecuteQueryOptions extends SessionOptions {
+  /** Values bound to the query's placeholders, in order */
+  params?: unknown[];
+}
+
 /**
  * Abstract database adapter interface
  * All database-specific adapters must implement this interface
@@ -163,11 +195,13 @@ export interface DatabaseAdapter {
   ) => GetTableDataResponse;
 
   /**
-   * Execute one or more SQL statements
+   * Execute one or more SQL statements, binding `params` to their
+   * placeholders in order
    */
   executeQuery: (
     connectionId: string,
-    query: string
+    query: string,
+    params?: unknown[]
   ) => | {
         success: true;
         columns?: string[];
@@ -256,6 +290,18 @@ export const DEFAULT_PORTS: Record<DatabaseType, number> = {
   supabase: 5432, // Supabase uses PostgreSQL
 };
 
+/**
+ * Sessions a MySQL or PostgreSQL connection pools when the config sets none
+ */
+export const DEFAULT_POOL_SIZE = 5;
+
+/**
+ * EXPLAIN ANALYZE executes the query, so it is refused for anything else
+ * than a single read-only statement
+ */
+export const EXPLAIN_ANALYZE_READ_ONLY_ERROR =
+  'EXPLAIN ANALYZE runs the query, so it is only available for a single read-only statement. Analyze without executing instead.';
+
 /**
  * Display names for database types
  */
@@ -1,19 +1,57 @@
 import type {
   AnalyzeQueryPlanRequest,
+  AnalyzeQueryPlanResponse,
   ApplyChangesRequest,
+  CancelQueryRequest,
+  CloseCursorRequest,
   CloseDatabaseRequest,
+  EndTransactionRequest,
   ExecuteQueryRequest,
+  FetchCursorRequest,
+  GetPoolStatusRequest,
   GetSchemaRequest,
   GetTableDataRequest,
   OpenDatabaseRequest,
+  QueryPlanNode,
+  ReleaseSessionRequest,
+  SetSupabaseRoleRequest,
   ValidateChangesRequest,
 } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
-import { databaseManager, databaseService } from '../database';
+import {
+  restoreConnectionSecrets,
+  saveConnectionSecrets,
+  stripConnectionSecrets,
+} from '../connection-secrets';
+import { databaseManager } from '../database';
 import { fileWatcherService } from '../file-watcher';
+import { queryCursorService } from '../query-cursor';
+import { queryExecutionService } from '../query-execution';
 import { addRecentConnection } from '../store';
 
+/**
+ * Stop the file watcher from reporting our own writes to a SQLite file.
+ */
+function ignoreOwnWrites(connectionId: string): void {
+  if (databaseManager.getConnectionType(connectionId) !== 'sqlite') {
+    return;
+  }
+  const connection = databaseManager.getConnection(connectionId);
+  if (connection) {
+    fileWatcherService.ignoreChanges(connection.path);
+  }
+}
+
+/**
+ * Flatten a plan tree to the list the renderer expects, where each node
+ * refers to its parent by id.
+ */
+function flattenPlan(node: QueryPlanNode): QueryPlanNode[] {
+  const { children = [], ...rest } = node;
+  return [rest, ...children.flatMap(flattenPlan)];
+}
+
 export function setupDatabaseHandlers(): void {
   // Database: Open
   ipcMain.handle(
@@ -21,14 +59,23 @@ export function setupDatabaseHandlers(): void {
     async (_event, request: OpenDatabaseRequest) => {
       // Check if this is a new-style connection with config
       if (request.config) {
-        const result = await databaseManager.open(request.config);
+        const config = restoreConnectionSecrets(request.config);
+        const result = await databaseManager.open(config);
 
         if (result.success && result.connection) {
+          if (request.rememberPassword !== false) {
+            saveConnectionSecrets(config);
+          }
+          // Keep the config so the connection can be reopened; passwords
+          // live in password storage only
           addRecentConnection(
             result.connection.path,
             result.connection.filename,
             result.connection.isEncrypted,
-            result.connection.databaseType
+            result.connection.databaseType,
+            undefined,
+            undefined,
+            stripConnectionSecrets(config)
           );
         }
 
@@ -44,7 +91,7 @@ export function setupDatabaseHandlers(): void {
         };
       }
 
-      const result = await databaseService.open(
+      const result = await databaseManager.open(
         request.path,
         request.password,
         request.readOnly
@@ -72,15 +119,9 @@ export function setupDatabaseHandlers(): void {
     async (_event, request: CloseDatabaseRequest) => {
       // Stop watching the file before closing the connection
       fileWatcherService.unwatch(request.connectionId);
+      await queryCursorService.closeForConnection(request.connectionId);
 
-      // Try database manager first (for new connections)
-      const managerResult = databaseManager.close(request.connectionId);
-      if (managerResult.success) {
-        return managerResult;
-      }
-
-      // Fall back to legacy database service
-      return databaseService.close(request.connectionId);
+      return databaseManager.close(request.connectionId);
     }
   );
 
@@ -88,22 +129,7 @@ export function setupDatabaseHandlers(): void {
   ipcMain.handle(
     IPC_CHANNELS.DB_GET_SCHEMA,
     async (_event, request: GetSchemaRequest) => {
-      // Check if connection is async (MySQL/PostgreSQL)
-      if (databaseManager.isAsyncConnection(request.connectionId)) {
-        return databaseManager.getSchemaAsync(request.connectionId);
-      }
-
-      // Try database manager for new connections
-      const managerResult = databaseManager.getSchema(request.connectionId);
-      if (
-        managerResult.success ||
-        managerResult.error !== 'Connection not found'
-      ) {
-        return managerResult;
-      }
-
-      // Fall back to legacy database service
-      return databaseService.getSchema(request.connectionId);
+      return databaseManager.getSchemaAsync(request.connectionId);
     }
   );
 
@@ -111,37 +137,7 @@ export function setupDatabaseHandlers(): void {
   ipcMain.handle(
     IPC_CHANNELS.DB_GET_TABLE_DATA,
     async (_event, request: GetTableDataRequest) => {
-      // Check if connection is async (MySQL/PostgreSQL)
-      if (databaseManager.isAsyncConnection(request.connectionId)) {
-        return databaseManager.getTableDataAsync(
-          request.connectionId,
-          request.table,
-          request.page,
-          request.pageSize,
-          request.sortColumn,
-          request.sortDirection,
-          request.filters,
-          request.schema
-        );
-      }
-
-      // Try database manager for new connections
-      const conn = databaseManager.getConnection(request.connectionId);
-      if (conn) {
-        return databaseManager.getTableData(
-          request.connectionId,
-          request.table,
-          request.page,
-          request.pageSize,
-          request.sortColumn,
-          request.sortDirection,
-          request.filters,
-          request.schema
-        );
-      }
-
-      // Fall back to legacy database service
-      return databaseService.getTableData(
+      return databaseManager.getTableDataAsync(
         request.connectionId,
         request.table,
         request.page,
@@ -165,40 +161,32 @@ export function setupDatabaseHandlers(): void {
 
       // Ignore file changes during our own writes
       if (isModifying) {
-        const connection = databaseService.getConnection(request.connectionId);
-        if (connection) {
-          fileWatcherService.ignoreChanges(connection.path);
-        }
+        ignoreOwnWrites(request.connectionId);
       }
 
       const startTime = Date.now();
 
-      // Check if connection is async (MySQL/PostgreSQL)
-      let result;
-      if (databaseManager.isAsyncConnection(request.connectionId)) {
-        result = await databaseManager.executeQueryAsync(
-          request.connectionId,
-          request.query
-        );
-      } else {
-        // Try database manager for new connections
-        const conn = databaseManager.getConnection(request.connectionId);
-        if (conn) {
-          result = databaseManager.executeQuery(
-            request.connectionId,
-            request.query
-          );
-        } else {
-          // Fall back to legacy database service
-          result = databaseService.executeQuery(
-            request.connectionId,
-            request.query
-          );
-        }
-      }
+      const { result, cancelReason, timeoutSeconds, transactionState } =
+        await queryExecutionService.execute(request);
 
       const executionTime = Date.now() - startTime;
 
+      // A cancelled query may still have completed before the cancel arrived
+      if (cancelReason && !result.success) {
+        return {
+          success: false,
+          error:
+            cancelReason === 'timeout'
+              ? `Query timed out after ${timeoutSeconds}s`
+              : 'Query cancelled',
+          cancelled: cancelReason === 'cancelled',
+          timedOut: cancelReason === 'timeout',
+          executionTime,
+          transactionState,
+          statements: 'statements' in result ? result.statements : undefined,
+        };
+      }
+
       // Map internal field names to API response format
       if (result.success) {
         return {
@@ -216,6 +204,10 @@ export function setupDatabaseHandlers(): void {
               : undefined,
           totalChanges:
             'totalChanges' in result ? result.totalChanges : undefined,
+          cursorId: 'cursorId' in result ? result.cursorId : undefined,
+          hasMore: 'hasMore' in result ? result.hasMore : undefined,
+          transactionState,
+          statements: 'statements' in result ? result.statements : undefined,
         };
       }
 
@@ -232,25 +224,102 @@ export function setupDatabaseHandlers(): void {
         documentationUrl:
           'documentationUrl' in result ? result.documentationUrl : undefined,
         executionTime,
+        transactionState,
+        statements: 'statements' in result ? result.statements : undefined,
       };
     }
   );
 
-  // Database: Validate Changes
+  // Database: Cancel Query
   ipcMain.handle(
-    IPC_CHANNELS.DB_VALIDATE_CHANGES,
-    async (_event, request: ValidateChangesRequest) => {
-      // Try database manager first
-      const conn = databaseManager.getConnection(request.connectionId);
-      if (conn) {
-        return databaseManager.validateChanges(
-          request.connectionId,
-          request.changes
+    IPC_CHANNELS.DB_CANCEL_QUERY,
+    async (_event, request: CancelQueryRequest) => {
+      try {
+        const cancelled = await queryExecutionService.cancel(
+          request.executionId
         );
+        return { success: true, cancelled };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Failed to cancel query',
+        };
+      }
+    }
+  );
+
+  // Database: Fetch the next page of a streamed result
+  ipcMain.handle(
+    IPC_CHANNELS.DB_FETCH_CURSOR,
+    async (_event, request: FetchCursorRequest) => {
+      return queryCursorService.fetch(request.cursorId, request.count);
+    }
+  );
+
+  // Database: Close a streamed result
+  ipcMain.handle(
+    IPC_CHANNELS.DB_CLOSE_CURSOR,
+    async (_event, request: CloseCursorRequest) => {
+      try {
+        await queryCursorService.close(request.cursorId);
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Failed to close cursor',
+        };
       }
+    }
+  );
+
+  // Database: Switch the role of a Supabase connection
+  ipcMain.handle(
+    IPC_CHANNELS.DB_SET_SUPABASE_ROLE,
+    async (_event, request: SetSupabaseRoleRequest) => {
+      return databaseManager.setSupabaseRoleAsync(
+        request.connectionId,
+        request.role
+      );
+    }
+  );
+
+  // Database: Close the session pinned to a query tab
+  ipcMain.handle(
+    IPC_CHANNELS.DB_RELEASE_SESSION,
+    async (_event, request: ReleaseSessionRequest) => {
+      return databaseManager.releaseSessionAsync(
+        request.connectionId,
+        request.sessionId
+      );
+    }
+  );
+
+  // Database: Commit or roll back the transaction of a query tab
+  ipcMain.handle(
+    IPC_CHANNELS.DB_END_TRANSACTION,
+    async (_event, request: EndTransactionRequest) => {
+      // Ignore file changes during our own writes
+      ignoreOwnWrites(request.connectionId);
+
+      return queryExecutionService.endTransaction(request);
+    }
+  );
+
+  // Database: Active and idle sessions of a pooled connection
+  ipcMain.handle(
+    IPC_CHANNELS.DB_GET_POOL_STATUS,
+    async (_event, request: GetPoolStatusRequest) => {
+      return databaseManager.getPoolStatus(request.connectionId);
+    }
+  );
 
-      // Fall back to legacy database service
-      return databaseService.validateChanges(
+  // Database: Validate Changes
+  ipcMain.handle(
+    IPC_CHANNELS.DB_VALIDATE_CHANGES,
+    async (_event, request: ValidateChangesRequest) => {
+      return databaseManager.validateChanges(
         request.connectionId,
         request.changes
       );
@@ -261,32 +330,10 @@ export function setupDatabaseHandlers(): void {
   ipcMain.handle(
     IPC_CHANNELS.DB_APPLY_CHANGES,
     async (_event, request: ApplyChangesRequest) => {
-      // Get the connection to find the database path (for file watcher)
-      const connection = databaseService.getConnection(request.connectionId);
-      if (connection) {
-        // Ignore file changes during our own writes
-        fileWatcherService.ignoreChanges(connection.path);
-      }
-
-      // Check if connection is async (MySQL/PostgreSQL)
-      if (databaseManager.isAsyncConnection(request.connectionId)) {
-        return databaseManager.applyChangesAsync(
-          request.connectionId,
-          request.changes
-        );
-      }
-
-      // Try database manager first
-      const conn = databaseManager.getConnection(request.connectionId);
-      if (conn) {
-        return databaseManager.applyChanges(
-          request.connectionId,
-          request.changes
-        );
-      }
+      // Ignore file changes during our own writes
+      ignoreOwnWrites(request.connectionId);
 
-      // Fall back to legacy database service
-      return databaseService.applyChanges(
+      return databaseManager.applyChangesAsync(
         request.connectionId,
         request.changes
       );
@@ -296,29 +343,23 @@ export function setupDatabaseHandlers(): void {
   // Database: Analyze Query Plan
   ipcMain.handle(
     IPC_CHANNELS.DB_ANALYZE_PLAN,
-    async (_event, request: AnalyzeQueryPlanRequest) => {
-      // Check if connection is async (MySQL/PostgreSQL)
-      if (databaseManager.isAsyncConnection(request.connectionId)) {
-        return databaseManager.explainQueryAsync(
-          request.connectionId,
-          request.query
-        );
-      }
-
-      // Try database manager first
-      const conn = databaseManager.getConnection(request.connectionId);
-      if (conn) {
-        return databaseManager.explainQuery(
-          request.connectionId,
-          request.query
-        );
-      }
-
-      // Fall back to legacy database service
-      return databaseService.analyzeQueryPlan(
+    async (
+      _event,
+      request: AnalyzeQueryPlanRequest
+    ): Promise<AnalyzeQueryPlanResponse> => {
+      const result = await databaseManager.explainQueryAsync(
         request.connectionId,
-        request.query
+        request.query,
+        request.analyze
       );
+      if (!result.success) {
+        return result;
+      }
+      return {
+        success: true,
+        plan: flattenPlan(result.plan),
+        stats: result.stats,
+      };
     }
   );
 }
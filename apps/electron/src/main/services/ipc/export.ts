@@ -1,5 +1,4 @@
 import type {
-  ColumnInfo,
   ExportBundleRequest,
   ExportComparisonReportRequest,
   ExportQueryRequest,
@@ -7,7 +6,6 @@ import type {
   ExportSchemaRequest,
   SchemaComparisonResult,
 } from '@shared/types';
-import type { Buffer } from 'node:buffer';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
 import {
@@ -15,19 +13,13 @@ import {
   generateJSONReport,
   generateMarkdownReport,
 } from '@/lib/comparison-report-generators';
-import {
-  generateCSV,
-  generateExcel,
-  generateJSON,
-  generateSQL,
-} from '@/lib/export-generators';
-import { databaseService } from '../database';
 import {
   exportBundle,
   exportQuery,
   exportSchema,
 } from '../query-schema-sharing';
 import { getSavedQueries, getSchemaSnapshot } from '../store';
+import { tableExportService } from '../table-export';
 import { createHandler } from './utils';
 
 export function setupExportHandlers(): void {
@@ -36,39 +28,11 @@ export function setupExportHandlers(): void {
     IPC_CHANNELS.EXPORT_DATA,
     async (_event, request: ExportRequest) => {
       try {
-        let columns: ColumnInfo[] = [];
-        let rows: Record<string, unknown>[] = [];
-
-        const tableData = await databaseService.getTableData(
-          request.connectionId,
-          request.table,
-          1,
-          999999,
-          undefined,
-          undefined,
-          undefined,
-          request.schema
-        );
-
-        if (tableData.success) {
-          columns = tableData.columns || [];
-          rows = (tableData.rows || []) as Record<string, unknown>[];
-        }
-
-        let output: Buffer | string = '';
-        if (request.format === 'csv') {
-          output = generateCSV(rows, columns);
-        } else if (request.format === 'json') {
-          output = generateJSON(rows, columns);
-        } else if (request.format === 'sql') {
-          output = generateSQL(rows, columns, { tableName: request.table });
-        } else if (request.format === 'xlsx') {
-          output = generateExcel(rows, columns, { sheetName: request.table });
-        }
+        const { rowsExported } = await tableExportService.exportToFile(request);
 
         return {
           success: true,
-          data: output,
+          rowsExported,
           format: request.format,
         };
       } catch (error) {
@@ -97,6 +61,10 @@ export function setupExportHandlers(): void {
   ipcMain.handle(
     IPC_CHANNELS.EXPORT_QUERY,
     createHandler(async (request: ExportQueryRequest) => {
+      if (request.query) {
+        const { data } = await exportQuery(request.query);
+        return { success: true, data };
+      }
       const savedQueries = getSavedQueries();
       const queryData = savedQueries.find((q) => q.id === request.queryId);
       if (!queryData) {
@@ -108,6 +76,7 @@ export function setupExportHandlers(): void {
         databaseContext: queryData.connectionPath,
         tags: queryData.tags,
         description: queryData.description,
+        parameters: queryData.parameters,
       });
       return { success: true, data };
     })
@@ -4,15 +4,11 @@ import type {
   GetQueryHistoryRequest,
   QueryHistoryEntry,
   SaveQueryHistoryRequest,
+  SearchQueryHistoryRequest,
 } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
-import {
-  clearQueryHistory,
-  deleteQueryHistoryEntry,
-  getQueryHistory,
-  saveQueryHistoryEntry,
-} from '../store';
+import { queryHistoryStore } from '../query-history-store';
 import { createHandler } from './utils';
 
 export function setupHistoryHandlers(): void {
@@ -21,8 +17,8 @@ export function setupHistoryHandlers(): void {
     IPC_CHANNELS.QUERY_HISTORY_GET,
     createHandler(async (request: GetQueryHistoryRequest) => {
       const dbPath = request.dbPath || '';
-      const history = getQueryHistory(dbPath);
-      return { success: true, history };
+      const { entries } = queryHistoryStore.search({ dbPath });
+      return { success: true, history: entries };
     })
   );
 
@@ -37,7 +33,7 @@ export function setupHistoryHandlers(): void {
         timestamp: request.timestamp || new Date().toISOString(),
         description: request.description,
       };
-      saveQueryHistoryEntry(entry);
+      queryHistoryStore.add(entry);
       return { success: true, entry };
     })
   );
@@ -48,7 +44,7 @@ export function setupHistoryHandlers(): void {
     createHandler(async (request: DeleteQueryHistoryRequest) => {
       const dbPath = request.dbPath || '';
       const entryId = request.id || request.entryId || '';
-      deleteQueryHistoryEntry(dbPath, entryId);
+      queryHistoryStore.delete(dbPath, entryId);
       return { success: true };
     })
   );
@@ -58,8 +54,26 @@ export function setupHistoryHandlers(): void {
     IPC_CHANNELS.QUERY_HISTORY_CLEAR,
     createHandler(async (request: ClearQueryHistoryRequest) => {
       const dbPath = request.dbPath || '';
-      clearQueryHistory(dbPath);
+      queryHistoryStore.clear(dbPath);
       return { success: true };
     })
   );
+
+  // Query History: Search
+  ipcMain.handle(
+    IPC_CHANNELS.QUERY_HISTORY_SEARCH,
+    createHandler(async (request: SearchQueryHistoryRequest) => {
+      const { entries, total } = queryHistoryStore.search(request);
+      return { success: true, entries, total };
+    })
+  );
+
+  // Query History: Databases with history
+  ipcMain.handle(
+    IPC_CHANNELS.QUERY_HISTORY_CONNECTIONS,
+    createHandler(async () => {
+      const connections = queryHistoryStore.getConnections();
+      return { success: true, connections };
+    })
+  );
 }
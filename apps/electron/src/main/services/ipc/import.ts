@@ -1,10 +1,13 @@
 import type {
   ImportBundleRequest,
+  ImportDataRequest,
+  ImportPreviewRequest,
   ImportQueryRequest,
   ImportSchemaRequest,
 } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
+import { dataImportService } from '../data-import';
 import {
   importBundle,
   importQuery,
@@ -13,6 +16,36 @@ import {
 import { createHandler } from './utils';
 
 export function setupImportHandlers(): void {
+  // Import: Preview data file
+  ipcMain.handle(
+    IPC_CHANNELS.IMPORT_PREVIEW,
+    createHandler(async (request: ImportPreviewRequest) => {
+      if (!request.filePath) {
+        throw new Error('File path is required');
+      }
+      return dataImportService.preview(request);
+    })
+  );
+
+  // Import: Data file into a table
+  ipcMain.handle(
+    IPC_CHANNELS.IMPORT_DATA,
+    async (event, request: ImportDataRequest) => {
+      try {
+        return await dataImportService.importData(request, (progress) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_CHANNELS.IMPORT_PROGRESS, progress);
+          }
+        });
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Import failed',
+        };
+      }
+    }
+  );
+
   // Import: Bundle
   ipcMain.handle(
     IPC_CHANNELS.IMPORT_BUNDLE,
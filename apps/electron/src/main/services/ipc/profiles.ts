@@ -31,6 +31,11 @@ export function setupProfilesHandlers(): void {
   // Profiles: Save
   ipcMain.handle(IPC_CHANNELS.PROFILES_SAVE, async (_event, request) => {
     try {
+      // SaveProfileRequest sends the whole profile
+      if (request.profile) {
+        return saveProfile(request.profile);
+      }
+
       const result = saveProfile({
         path: request.path || '',
         filename: request.filename || request.name || '',
@@ -54,10 +59,14 @@ export function setupProfilesHandlers(): void {
   // Profiles: Update
   ipcMain.handle(IPC_CHANNELS.PROFILES_UPDATE, async (_event, request) => {
     try {
-      const result = updateProfile(request.id, {
-        displayName: request.name,
-        ...request.config,
-      });
+      // UpdateProfileRequest sends a partial profile in updates
+      const result = updateProfile(
+        request.id,
+        request.updates ?? {
+          displayName: request.name,
+          ...request.config,
+        }
+      );
       return result;
     } catch (error) {
       return {
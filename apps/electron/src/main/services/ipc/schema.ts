@@ -1,4 +1,7 @@
 import type {
+  ApplySchemaDesignRequest,
+  ApplySyncSQLRequest,
+  CancelTableDiffRequest,
   CompareConnectionsRequest,
   CompareConnectionToSnapshotRequest,
   CompareSnapshotsRequest,
@@ -7,22 +10,28 @@ import type {
   GenerateMigrationSQLRequest,
   GenerateSyncSQLRequest,
   GetSchemaSnapshotRequest,
+  PreviewSchemaDesignRequest,
   SaveSchemaSnapshotRequest,
   SchemaSnapshot,
+  StreamTableDiffRequest,
+  VerifyRelationshipsRequest,
 } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
 import { dataDiffService } from '../data-diff';
 import { dataDiffSyncGeneratorService } from '../data-diff-sync-generator';
-import { databaseService } from '../database';
+import { databaseManager } from '../database';
 import { migrationGeneratorService } from '../migration-generator';
+import { relationshipInferenceService } from '../relationship-inference';
 import { schemaComparisonService } from '../schema-comparison';
+import { schemaDesignService } from '../schema-design';
 import {
   deleteSchemaSnapshot,
   getSchemaSnapshot,
   getSchemaSnapshots,
   saveSchemaSnapshot,
 } from '../store';
+import { tableReaderService } from '../table-reader';
 import { createHandler } from './utils';
 
 export function setupSchemaHandlers(): void {
@@ -48,11 +57,28 @@ export function setupSchemaHandlers(): void {
   ipcMain.handle(
     IPC_CHANNELS.SCHEMA_SAVE_SNAPSHOT,
     createHandler(async (request: SaveSchemaSnapshotRequest) => {
+      let schemas = request.schema;
+      let connectionPath = request.connectionPath;
+      // Capture the live schema, including PostgreSQL routines, sequences,
+      // types, extensions and materialized views
+      if (!schemas && request.connectionId) {
+        const liveSchema = await databaseManager.getSchemaAsync(
+          request.connectionId
+        );
+        if (!liveSchema.success) {
+          throw new Error(liveSchema.error);
+        }
+        schemas = liveSchema.schemas;
+        connectionPath ??= databaseManager.getConnection(
+          request.connectionId
+        )?.path;
+      }
+
       const snapshotData: SchemaSnapshot = {
         id: crypto.randomUUID(),
         name: request.name || 'Unnamed Snapshot',
-        schemas: request.schema || [],
-        connectionPath: request.connectionPath || '',
+        schemas: schemas || [],
+        connectionPath: connectionPath || '',
         description: request.description,
         createdAt: new Date().toISOString(),
       };
@@ -105,8 +131,8 @@ export function setupSchemaHandlers(): void {
         request.connectionId1 || request.sourceConnectionId || '';
       const connectionId2 =
         request.connectionId2 || request.targetConnectionId || '';
-      const schema1 = await databaseService.getSchema(connectionId1);
-      const schema2 = await databaseService.getSchema(connectionId2);
+      const schema1 = await databaseManager.getSchemaAsync(connectionId1);
+      const schema2 = await databaseManager.getSchemaAsync(connectionId2);
 
       if (!schema1.success || !schema2.success) {
         throw new Error('Failed to fetch schemas');
@@ -122,6 +148,10 @@ export function setupSchemaHandlers(): void {
         connectionId2,
         'connection'
       );
+      comparison.sourceDatabaseType =
+        tableReaderService.getConnectionType(connectionId1) ?? undefined;
+      comparison.targetDatabaseType =
+        tableReaderService.getConnectionType(connectionId2) ?? undefined;
       return { success: true, comparison };
     })
   );
@@ -132,7 +162,7 @@ export function setupSchemaHandlers(): void {
     createHandler(async (request: CompareConnectionToSnapshotRequest) => {
       const connectionId = request.connectionId || '';
       const snapshotId = request.snapshotId || '';
-      const liveSchema = await databaseService.getSchema(connectionId);
+      const liveSchema = await databaseManager.getSchemaAsync(connectionId);
       const snapshot = getSchemaSnapshot(snapshotId);
 
       if (!liveSchema.success || !snapshot) {
@@ -149,6 +179,12 @@ export function setupSchemaHandlers(): void {
         snapshot.name,
         'snapshot'
       );
+      // Snapshots do not record their database type, so both sides are
+      // assumed to share the live connection's dialect
+      const databaseType =
+        tableReaderService.getConnectionType(connectionId) ?? undefined;
+      comparison.sourceDatabaseType = databaseType;
+      comparison.targetDatabaseType = databaseType;
       return { success: true, comparison };
     })
   );
@@ -179,6 +215,37 @@ export function setupSchemaHandlers(): void {
     })
   );
 
+  // Table: Stream keyed diff
+  ipcMain.handle(
+    IPC_CHANNELS.DATA_DIFF_STREAM,
+    async (event, request: StreamTableDiffRequest) => {
+      try {
+        return await dataDiffService.streamTableDiff(request, (progress) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_CHANNELS.DATA_DIFF_PROGRESS, progress);
+          }
+        });
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Failed to compare tables',
+        };
+      }
+    }
+  );
+
+  // Table: Cancel streamed diff
+  ipcMain.handle(
+    IPC_CHANNELS.DATA_DIFF_CANCEL,
+    createHandler(async (request: CancelTableDiffRequest) => {
+      return {
+        success: true,
+        cancelled: dataDiffService.cancel(request.diffId),
+      };
+    })
+  );
+
   // Migration: Generate SQL
   ipcMain.handle(
     IPC_CHANNELS.MIGRATION_GENERATE_SQL,
@@ -192,8 +259,64 @@ export function setupSchemaHandlers(): void {
   ipcMain.handle(
     IPC_CHANNELS.MIGRATION_GENERATE_SYNC_SQL,
     createHandler(async (request: GenerateSyncSQLRequest) => {
+      const { comparisonResult } = request;
+      if (!request.columnTypes && comparisonResult) {
+        // Column types select PostgreSQL array/json/bytea literals
+        const structure = await tableReaderService.getTableStructure(
+          comparisonResult.targetId,
+          comparisonResult.targetTable,
+          comparisonResult.targetSchema || undefined
+        );
+        if (structure) {
+          request = {
+            ...request,
+            columnTypes: Object.fromEntries(
+              structure.columns.map((column) => [column.name, column.type])
+            ),
+          };
+        }
+      }
       const result = dataDiffSyncGeneratorService.generateSyncSQL(request);
       return result;
     })
   );
+
+  // Data Diff: Apply Sync SQL
+  ipcMain.handle(
+    IPC_CHANNELS.DATA_DIFF_APPLY_SYNC_SQL,
+    createHandler(async (request: ApplySyncSQLRequest) => {
+      return dataDiffSyncGeneratorService.applySyncSQL(
+        request.connectionId,
+        request.statements
+      );
+    })
+  );
+
+  // Schema Design: Preview DDL
+  ipcMain.handle(
+    IPC_CHANNELS.SCHEMA_DESIGN_PREVIEW,
+    createHandler(async (request: PreviewSchemaDesignRequest) => {
+      return schemaDesignService.preview(request.connectionId, request.changes);
+    })
+  );
+
+  // Schema Design: Apply
+  ipcMain.handle(
+    IPC_CHANNELS.SCHEMA_DESIGN_APPLY,
+    createHandler(async (request: ApplySchemaDesignRequest) => {
+      return schemaDesignService.apply(request.connectionId, request.changes);
+    })
+  );
+
+  // Inferred Relationships: Verify by sampling values
+  ipcMain.handle(
+    IPC_CHANNELS.RELATIONSHIPS_VERIFY,
+    createHandler(async (request: VerifyRelationshipsRequest) => {
+      return relationshipInferenceService.verify(
+        request.connectionId,
+        request.relationships,
+        request.sampleSize
+      );
+    })
+  );
 }
@@ -2,9 +2,17 @@
  * IPC handlers for SQL logging operations
  */
 
-import type { ClearSqlLogsRequest, GetSqlLogsRequest } from '@shared/types';
+import type {
+  ClearSqlLogsRequest,
+  ExportSqlLogsRequest,
+  GetAuditLogsRequest,
+  GetSqlLogsRequest,
+} from '@shared/types';
+import fs from 'node:fs/promises';
+import { matchesSqlLogFilter } from '@shared/sql-log';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
+import { formatSqlLogEntries, sqlAuditLog } from '../sql-audit-log';
 import { sqlLogger } from '../sql-logger';
 
 export function setupSqlLogHandlers(): void {
@@ -45,9 +53,58 @@ export function setupSqlLogHandlers(): void {
       }
     }
   );
+
+  // SQL Log: Read a profile's audit log
+  ipcMain.handle(
+    IPC_CHANNELS.SQL_LOG_GET_AUDIT,
+    async (_event, request: GetAuditLogsRequest) => {
+      try {
+        const { profileId, limit, ...filter } = request;
+        const logs = sqlAuditLog.read(profileId, filter, limit);
+        return { success: true, logs };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Failed to read audit log',
+        };
+      }
+    }
+  );
+
+  // SQL Log: Export the session log or a profile's audit log
+  ipcMain.handle(
+    IPC_CHANNELS.SQL_LOG_EXPORT,
+    async (_event, request: ExportSqlLogsRequest) => {
+      try {
+        const { profileId, format, filePath, ...filter } = request;
+        const entries = profileId
+          ? sqlAuditLog.read(profileId, filter)
+          : sqlLogger
+              .getLogs()
+              .filter((entry) => matchesSqlLogFilter(entry, filter));
+        // Logs are read newest first; exports run in time order
+        entries.reverse();
+        await fs.writeFile(
+          filePath,
+          formatSqlLogEntries(entries, format),
+          'utf-8'
+        );
+        return { success: true, count: entries.length };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Failed to export SQL log',
+        };
+      }
+    }
+  );
 }
 
 export function cleanupSqlLogHandlers(): void {
   ipcMain.removeHandler(IPC_CHANNELS.SQL_LOG_GET);
   ipcMain.removeHandler(IPC_CHANNELS.SQL_LOG_CLEAR);
+  ipcMain.removeHandler(IPC_CHANNELS.SQL_LOG_GET_AUDIT);
+  ipcMain.removeHandler(IPC_CHANNELS.SQL_LOG_EXPORT);
 }
@@ -202,6 +202,26 @@ export function createApplicationMenu(): void {
           accelerator: getAccelerator('action.execute-query'),
           click: () => sendMenuAction('execute-query'),
         },
+        {
+          label: 'Run Statement at Cursor',
+          accelerator: getAccelerator('action.execute-statement'),
+          click: () => sendMenuAction('execute-statement'),
+        },
+        {
+          label: 'Run Selection',
+          accelerator: getAccelerator('action.execute-selection'),
+          click: () => sendMenuAction('execute-selection'),
+        },
+        {
+          label: 'Commit Transaction',
+          accelerator: getAccelerator('action.commit-transaction'),
+          click: () => sendMenuAction('commit-transaction'),
+        },
+        {
+          label: 'Rollback Transaction',
+          accelerator: getAccelerator('action.rollback-transaction'),
+          click: () => sendMenuAction('rollback-transaction'),
+        },
         { type: 'separator' },
         {
           label: 'View Unsaved Changes',
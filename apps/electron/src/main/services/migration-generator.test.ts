@@ -613,6 +613,63 @@ describe('migrationGeneratorService', () => {
       expect(result.sql).toContain('DROP TABLE users');
       expect(result.sql).toContain('ALTER TABLE users_new RENAME TO users');
     });
+
+    it('should recreate SQLite tables to add a foreign key, keeping their indexes and triggers', () => {
+      const columns = [
+        createColumn('id', 'INTEGER', false, true),
+        createColumn('user_id', 'INTEGER'),
+      ];
+      const fk: ForeignKeyInfo = {
+        column: 'user_id',
+        referencedTable: 'users',
+        referencedColumn: 'id',
+      };
+      const index: IndexInfo = {
+        name: 'idx_orders_user',
+        columns: ['user_id'],
+        isUnique: false,
+        sql: 'CREATE INDEX idx_orders_user ON orders (user_id)',
+      };
+      const trigger: TriggerInfo = {
+        name: 'trg_orders_insert',
+        tableName: 'orders',
+        timing: 'AFTER',
+        event: 'INSERT',
+        sql: 'CREATE TRIGGER trg_orders_insert AFTER INSERT ON orders BEGIN SELECT 1; END',
+      };
+      const tableDiff: TableDiff = {
+        name: 'orders',
+        schema: 'main',
+        diffType: 'modified',
+        source: createTable('orders', 'main', columns, [index], [], [trigger]),
+        target: createTable(
+          'orders',
+          'main',
+          columns,
+          [index],
+          [fk],
+          [trigger]
+        ),
+        foreignKeyDiffs: [
+          { column: 'user_id', diffType: 'added', source: null, target: fk },
+        ],
+      };
+
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: createComparisonResult([tableDiff]),
+      });
+
+      expect(result.success).toBe(true);
+      const statements = result.statements!;
+      expect(statements.some((s) => s.includes('REFERENCES users'))).toBe(true);
+      const renamePos = statements.indexOf(
+        'ALTER TABLE orders_new RENAME TO orders'
+      );
+      expect(renamePos).toBeGreaterThanOrEqual(0);
+      expect(statements.indexOf(index.sql)).toBeGreaterThan(renamePos);
+      expect(statements.filter((s) => s === trigger.sql)).toHaveLength(1);
+      expect(statements.indexOf(trigger.sql)).toBeGreaterThan(renamePos);
+    });
   });
 
   describe('generateMigrationSQL - Reverse Migrations', () => {
@@ -915,4 +972,188 @@ describe('migrationGeneratorService', () => {
       expect(alterPos).toBeLessThan(createPos);
     });
   });
+
+  describe('generateMigrationSQL - MySQL and PostgreSQL', () => {
+    const modifiedAgeDiff = (): TableDiff => ({
+      name: 'users',
+      schema: 'public',
+      diffType: 'modified',
+      source: createTable('users', 'public', [createColumn('age', 'text')]),
+      target: createTable('users', 'public', [
+        createColumn('age', 'integer', false),
+      ]),
+      columnDiffs: [
+        {
+          name: 'age',
+          diffType: 'modified',
+          source: createColumn('age', 'text'),
+          target: createColumn('age', 'integer', false),
+          changes: {
+            type: { from: 'text', to: 'integer' },
+            nullable: { from: true, to: false },
+          },
+        },
+      ],
+    });
+
+    it('should alter PostgreSQL columns in place instead of recreating the table', () => {
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: createComparisonResult([modifiedAgeDiff()]),
+        databaseType: 'postgresql',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.sql).toContain(
+        'ALTER TABLE "public"."users" ALTER COLUMN "age" TYPE integer USING "age"::integer'
+      );
+      expect(result.sql).toContain(
+        'ALTER TABLE "public"."users" ALTER COLUMN "age" SET NOT NULL'
+      );
+      expect(result.sql).not.toContain('users_new');
+      expect(result.warnings!.join('\n')).not.toContain('SQLite limitation');
+    });
+
+    it('should use MODIFY COLUMN and unqualified names for MySQL', () => {
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: {
+          ...createComparisonResult([modifiedAgeDiff()]),
+          sourceDatabaseType: 'mysql',
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.sql).toContain(
+        'ALTER TABLE `users` MODIFY COLUMN `age` integer NOT NULL'
+      );
+    });
+
+    it('should pick the dialect of the target database for reverse migrations', () => {
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: {
+          ...createComparisonResult([modifiedAgeDiff()]),
+          sourceDatabaseType: 'sqlite',
+          targetDatabaseType: 'postgresql',
+        },
+        reverse: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.sql).toContain(
+        'ALTER TABLE "public"."users" ALTER COLUMN "age" TYPE text USING "age"::text'
+      );
+    });
+
+    it('should create sequences for PostgreSQL serial columns', () => {
+      const table = createTable(
+        'orders',
+        'public',
+        [
+          createColumn(
+            'id',
+            'integer',
+            false,
+            true,
+            "nextval('orders_id_seq'::regclass)"
+          ),
+        ],
+        [],
+        [],
+        [],
+        ['id']
+      );
+      const tableDiff: TableDiff = {
+        name: 'orders',
+        schema: 'public',
+        diffType: 'added',
+        source: null,
+        target: table,
+      };
+
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: createComparisonResult([tableDiff]),
+        databaseType: 'postgresql',
+      });
+
+      expect(result.success).toBe(true);
+      const sql = result.sql!;
+      const sequencePos = sql.indexOf(
+        'CREATE SEQUENCE IF NOT EXISTS "public".orders_id_seq'
+      );
+      const createPos = sql.indexOf('CREATE TABLE "public"."orders"');
+      expect(sequencePos).toBeGreaterThanOrEqual(0);
+      expect(sequencePos).toBeLessThan(createPos);
+      expect(sql).toContain(
+        'ALTER SEQUENCE "public".orders_id_seq OWNED BY "public"."orders"."id"'
+      );
+    });
+
+    it('should drop and add foreign keys by constraint name', () => {
+      const oldFk: ForeignKeyInfo = {
+        name: 'fk_orders_user',
+        column: 'user_id',
+        referencedTable: 'users',
+        referencedColumn: 'id',
+      };
+      const newFk: ForeignKeyInfo = { ...oldFk, onDelete: 'CASCADE' };
+      const tableDiff: TableDiff = {
+        name: 'orders',
+        schema: 'shop',
+        diffType: 'modified',
+        source: createTable('orders', 'shop', [], [], [oldFk]),
+        target: createTable('orders', 'shop', [], [], [newFk]),
+        foreignKeyDiffs: [
+          {
+            column: 'user_id',
+            diffType: 'modified',
+            source: oldFk,
+            target: newFk,
+          },
+        ],
+      };
+
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: createComparisonResult([tableDiff]),
+        databaseType: 'mysql',
+      });
+
+      expect(result.success).toBe(true);
+      const sql = result.sql!;
+      const dropPos = sql.indexOf(
+        'ALTER TABLE `orders` DROP FOREIGN KEY `fk_orders_user`'
+      );
+      const addPos = sql.indexOf(
+        'ALTER TABLE `orders` ADD CONSTRAINT `fk_orders_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE'
+      );
+      expect(dropPos).toBeGreaterThanOrEqual(0);
+      expect(dropPos).toBeLessThan(addPos);
+    });
+
+    it('should warn when a foreign key without a name cannot be dropped', () => {
+      const fk: ForeignKeyInfo = {
+        column: 'user_id',
+        referencedTable: 'users',
+        referencedColumn: 'id',
+      };
+      const tableDiff: TableDiff = {
+        name: 'orders',
+        schema: 'public',
+        diffType: 'modified',
+        source: createTable('orders', 'public', [], [], [fk]),
+        target: createTable('orders', 'public'),
+        foreignKeyDiffs: [
+          { column: 'user_id', diffType: 'removed', source: fk, target: null },
+        ],
+      };
+
+      const result = migrationGeneratorService.generateMigrationSQL({
+        comparisonResult: createComparisonResult([tableDiff]),
+        databaseType: 'postgresql',
+        includeDropStatements: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.sql).not.toContain('DROP CONSTRAINT');
+      expect(result.warnings!.some((w) => w.includes('user_id'))).toBe(true);
+    });
+  });
 });
@@ -2,19 +2,31 @@ import type {
   ColumnDiff,
   ColumnInfo,
   ForeignKeyDiff,
+  ForeignKeyInfo,
   GenerateMigrationSQLRequest,
   GenerateMigrationSQLResponse,
   IndexDiff,
   IndexInfo,
+  SqlDialect,
   TableDiff,
   TableInfo,
   TriggerDiff,
   TriggerInfo,
 } from '@shared/types';
+import {
+  getDialect,
+  qualifyTableName,
+  quoteIdentifier,
+} from '@/lib/sql-dialect';
+
+/** Matches PostgreSQL serial defaults, e.g. nextval('users_id_seq'::regclass) */
+const NEXTVAL_PATTERN = /nextval\('([^']+)'(?:::regclass)?\)/i;
 
 /**
  * Service for generating migration SQL from schema comparison results.
- * Handles SQLite-specific limitations and dependencies between statements.
+ * Emits DDL for the dialect of the migrated database: SQLite changes that
+ * ALTER TABLE cannot express are applied by recreating the table, while
+ * MySQL and PostgreSQL alter columns and constraints in place.
  */
 class MigrationGeneratorService {
   /**
@@ -34,6 +46,15 @@ class MigrationGeneratorService {
       const statements: string[] = [];
       const warnings: string[] = [];
 
+      // The migration runs against the source database, or the target
+      // database when reversed
+      const dialect = getDialect(
+        request.databaseType ??
+          (reverse
+            ? comparisonResult?.targetDatabaseType
+            : comparisonResult?.sourceDatabaseType)
+      );
+
       // Get table diffs, potentially reversed
       const tableDiffs = comparisonResult
         ? reverse
@@ -58,7 +79,9 @@ class MigrationGeneratorService {
           // Drop all triggers from removed table
           if (tableDiff.source?.triggers) {
             for (const trigger of tableDiff.source.triggers) {
-              statements.push(this.generateDropTrigger(trigger.name));
+              statements.push(
+                this.generateDropTrigger(trigger, tableDiff.schema, dialect)
+              );
             }
           }
         } else if (
@@ -69,12 +92,20 @@ class MigrationGeneratorService {
           for (const triggerDiff of tableDiff.triggerDiffs) {
             if (triggerDiff.diffType === 'removed' && includeDropStatements) {
               statements.push(
-                this.generateDropTrigger(triggerDiff.source!.name)
+                this.generateDropTrigger(
+                  triggerDiff.source!,
+                  tableDiff.schema,
+                  dialect
+                )
               );
             } else if (triggerDiff.diffType === 'modified') {
               // Drop and recreate modified triggers
               statements.push(
-                this.generateDropTrigger(triggerDiff.source!.name)
+                this.generateDropTrigger(
+                  triggerDiff.source!,
+                  tableDiff.schema,
+                  dialect
+                )
               );
             }
           }
@@ -87,7 +118,33 @@ class MigrationGeneratorService {
       const tablesNeedingRecreation: TableDiff[] = [];
 
       for (const tableDiff of tableDiffs) {
-        if (tableDiff.diffType === 'modified') {
+        if (
+          dialect !== 'sqlite' &&
+          tableDiff.diffType === 'modified' &&
+          tableDiff.foreignKeyDiffs
+        ) {
+          for (const fkDiff of tableDiff.foreignKeyDiffs) {
+            if (
+              fkDiff.diffType === 'modified' ||
+              (fkDiff.diffType === 'removed' && includeDropStatements)
+            ) {
+              const statement = this.generateDropForeignKey(
+                tableDiff.name,
+                tableDiff.schema,
+                fkDiff.source!,
+                dialect
+              );
+              if (statement) {
+                statements.push(statement);
+              } else {
+                warnings.push(
+                  `Cannot drop the foreign key on "${tableDiff.name}.${fkDiff.column}" - ` +
+                    `its constraint name is unknown. Drop it manually before running this migration.`
+                );
+              }
+            }
+          }
+        } else if (tableDiff.diffType === 'modified' && dialect === 'sqlite') {
           const needsRecreation = this.checkIfTableNeedsRecreation(
             tableDiff,
             includeDropStatements
@@ -107,18 +164,42 @@ class MigrationGeneratorService {
         if (tableDiff.diffType === 'removed' && includeDropStatements) {
           // Drop all indexes from removed table
           if (tableDiff.source?.indexes) {
-            for (const index of tableDiff.source.indexes) {
-              statements.push(this.generateDropIndex(index.name));
+            for (const index of this.getSecondaryIndexes(
+              tableDiff.source,
+              dialect
+            )) {
+              statements.push(
+                this.generateDropIndex(
+                  index.name,
+                  tableDiff.name,
+                  tableDiff.schema,
+                  dialect
+                )
+              );
             }
           }
         } else if (tableDiff.diffType === 'modified' && tableDiff.indexDiffs) {
           // Drop removed/modified indexes
           for (const indexDiff of tableDiff.indexDiffs) {
-            if (indexDiff.diffType === 'removed' && includeDropStatements) {
-              statements.push(this.generateDropIndex(indexDiff.source!.name));
-            } else if (indexDiff.diffType === 'modified') {
-              // Drop and recreate modified indexes
-              statements.push(this.generateDropIndex(indexDiff.source!.name));
+            if (
+              dialect !== 'sqlite' &&
+              this.isPrimaryKeyIndex(indexDiff.source, tableDiff.source)
+            ) {
+              continue;
+            }
+            if (
+              (indexDiff.diffType === 'removed' && includeDropStatements) ||
+              indexDiff.diffType === 'modified'
+            ) {
+              // Modified indexes are dropped and recreated
+              statements.push(
+                this.generateDropIndex(
+                  indexDiff.source!.name,
+                  tableDiff.name,
+                  tableDiff.schema,
+                  dialect
+                )
+              );
             }
           }
         }
@@ -131,7 +212,8 @@ class MigrationGeneratorService {
             statements.push(
               this.generateDropTable(
                 tableDiff.source!.name,
-                tableDiff.source!.schema
+                tableDiff.source!.schema,
+                dialect
               )
             );
             warnings.push(
@@ -144,7 +226,15 @@ class MigrationGeneratorService {
 
       // Phase 5: Modify existing tables (add columns only - SQLite limitation)
       for (const tableDiff of tableDiffs) {
-        if (
+        if (tableDiff.diffType === 'modified' && dialect !== 'sqlite') {
+          const alter = this.generateAlterTable(
+            tableDiff,
+            includeDropStatements,
+            dialect
+          );
+          statements.push(...alter.statements);
+          warnings.push(...alter.warnings);
+        } else if (
           tableDiff.diffType === 'modified' &&
           !tablesNeedingRecreation.includes(tableDiff)
         ) {
@@ -155,7 +245,8 @@ class MigrationGeneratorService {
                   this.generateAddColumn(
                     tableDiff.name,
                     columnDiff.target!,
-                    tableDiff.schema
+                    tableDiff.schema,
+                    dialect
                   )
                 );
               } else if (
@@ -189,7 +280,16 @@ class MigrationGeneratorService {
       // Phase 7: Create new tables
       for (const tableDiff of tableDiffs) {
         if (tableDiff.diffType === 'added') {
-          statements.push(this.generateCreateTable(tableDiff.target!));
+          const table = tableDiff.target!;
+          statements.push(
+            ...this.generateCreateSequences(
+              table.columns,
+              table.schema,
+              dialect
+            )
+          );
+          statements.push(this.generateCreateTable(table, undefined, dialect));
+          statements.push(...this.generateSequenceOwnership(table, dialect));
         }
       }
 
@@ -198,8 +298,13 @@ class MigrationGeneratorService {
         if (tableDiff.diffType === 'added') {
           // Create all indexes for new table
           if (tableDiff.target?.indexes) {
-            for (const index of tableDiff.target.indexes) {
-              statements.push(this.generateCreateIndex(index));
+            for (const index of this.getSecondaryIndexes(
+              tableDiff.target,
+              dialect
+            )) {
+              statements.push(
+                this.generateCreateIndex(index, tableDiff.target, dialect)
+              );
             }
           }
         } else if (
@@ -209,28 +314,70 @@ class MigrationGeneratorService {
         ) {
           // Create new/modified indexes for existing table
           for (const indexDiff of tableDiff.indexDiffs) {
+            if (
+              dialect !== 'sqlite' &&
+              this.isPrimaryKeyIndex(indexDiff.target, tableDiff.target)
+            ) {
+              continue;
+            }
             if (
               indexDiff.diffType === 'added' ||
               indexDiff.diffType === 'modified'
             ) {
-              statements.push(this.generateCreateIndex(indexDiff.target!));
+              statements.push(
+                this.generateCreateIndex(
+                  indexDiff.target!,
+                  tableDiff.target!,
+                  dialect
+                )
+              );
             }
           }
         }
       }
 
+      // Phase 8b: Create foreign keys (SQLite declares them in CREATE TABLE)
+      if (dialect !== 'sqlite') {
+        for (const tableDiff of tableDiffs) {
+          const foreignKeys =
+            tableDiff.diffType === 'added'
+              ? tableDiff.target!.foreignKeys
+              : tableDiff.diffType === 'modified'
+                ? (tableDiff.foreignKeyDiffs ?? [])
+                    .filter(
+                      (d) => d.diffType === 'added' || d.diffType === 'modified'
+                    )
+                    .map((d) => d.target!)
+                : [];
+
+          for (const fk of foreignKeys) {
+            statements.push(
+              this.generateAddForeignKey(
+                tableDiff.name,
+                tableDiff.schema,
+                fk,
+                dialect
+              )
+            );
+          }
+        }
+      }
+
       // Phase 9: Create new triggers
       for (const tableDiff of tableDiffs) {
         if (tableDiff.diffType === 'added') {
           // Create all triggers for new table
           if (tableDiff.target?.triggers) {
             for (const trigger of tableDiff.target.triggers) {
-              statements.push(this.generateCreateTrigger(trigger));
+              statements.push(
+                this.generateCreateTrigger(trigger, tableDiff.schema, dialect)
+              );
             }
           }
         } else if (
           tableDiff.diffType === 'modified' &&
-          tableDiff.triggerDiffs
+          tableDiff.triggerDiffs &&
+          !tablesNeedingRecreation.includes(tableDiff)
         ) {
           // Create new/modified triggers for existing table
           for (const triggerDiff of tableDiff.triggerDiffs) {
@@ -238,7 +385,13 @@ class MigrationGeneratorService {
               triggerDiff.diffType === 'added' ||
               triggerDiff.diffType === 'modified'
             ) {
-              statements.push(this.generateCreateTrigger(triggerDiff.target!));
+              statements.push(
+                this.generateCreateTrigger(
+                  triggerDiff.target!,
+                  tableDiff.schema,
+                  dialect
+                )
+              );
             }
           }
         }
@@ -485,10 +638,14 @@ class MigrationGeneratorService {
       return true;
     }
 
-    // Check if foreign keys changed (requires recreation)
+    // Check if foreign keys changed (requires recreation, as SQLite cannot
+    // add or drop constraints on an existing table)
     if (
       tableDiff.foreignKeyDiffs?.some(
-        (d) => d.diffType === 'removed' || d.diffType === 'modified'
+        (d) =>
+          d.diffType === 'added' ||
+          d.diffType === 'removed' ||
+          d.diffType === 'modified'
       )
     ) {
       return true;
@@ -546,38 +703,205 @@ class MigrationGeneratorService {
     // Step 4: Rename new table to original name
     statements.push(`ALTER TABLE ${fullTempTableName} RENAME TO ${tableName}`);
 
+    // Step 5: Restore the indexes and triggers dropped with the old table
+    for (const index of targetTable.indexes) {
+      statements.push(this.generateCreateIndex(index, targetTable));
+    }
+    for (const trigger of targetTable.triggers) {
+      statements.push(this.generateCreateTrigger(trigger, schema));
+    }
+
     return statements;
   }
 
+  /**
+   * Generate ALTER TABLE statements that bring an existing MySQL or
+   * PostgreSQL table in line with the target structure.
+   */
+  private generateAlterTable(
+    tableDiff: TableDiff,
+    includeDropStatements: boolean,
+    dialect: SqlDialect
+  ): { statements: string[]; warnings: string[] } {
+    const statements: string[] = [];
+    const warnings: string[] = [];
+    const fullTableName = this.formatTableName(
+      tableDiff.name,
+      tableDiff.schema,
+      dialect
+    );
+
+    // Drop the old primary key before columns it covers are changed
+    const pkChanges = tableDiff.primaryKeyChanges;
+    if (pkChanges && pkChanges.from.length > 0) {
+      if (dialect === 'mysql') {
+        statements.push(`ALTER TABLE ${fullTableName} DROP PRIMARY KEY`);
+      } else {
+        const constraintName = `${tableDiff.name}_pkey`;
+        statements.push(
+          `ALTER TABLE ${fullTableName} DROP CONSTRAINT ${quoteIdentifier(constraintName, dialect)}`
+        );
+        warnings.push(
+          `Assuming the primary key of "${tableDiff.name}" uses the default constraint name "${constraintName}".`
+        );
+      }
+    }
+
+    for (const columnDiff of tableDiff.columnDiffs ?? []) {
+      const columnName = this.formatIdentifier(columnDiff.name, dialect);
+
+      if (columnDiff.diffType === 'added') {
+        statements.push(
+          ...this.generateCreateSequences(
+            [columnDiff.target!],
+            tableDiff.schema,
+            dialect
+          ),
+          this.generateAddColumn(
+            tableDiff.name,
+            columnDiff.target!,
+            tableDiff.schema,
+            dialect
+          )
+        );
+      } else if (columnDiff.diffType === 'removed' && includeDropStatements) {
+        statements.push(
+          `ALTER TABLE ${fullTableName} DROP COLUMN ${columnName}`
+        );
+        warnings.push(
+          `Dropping column "${columnDiff.name}" from table "${tableDiff.name}" will permanently delete its data.`
+        );
+      } else if (columnDiff.diffType === 'modified' && columnDiff.changes) {
+        const { changes } = columnDiff;
+        const target = columnDiff.target!;
+
+        if (changes.type) {
+          warnings.push(
+            `Changing the type of "${tableDiff.name}.${columnDiff.name}" from ${changes.type.from} to ${changes.type.to} ` +
+              `fails if existing values cannot be converted.`
+          );
+        }
+
+        if (dialect === 'mysql') {
+          // MODIFY COLUMN restates the full definition in one statement
+          if (changes.type || changes.nullable || changes.defaultValue) {
+            statements.push(
+              `ALTER TABLE ${fullTableName} MODIFY COLUMN ${this.generateColumnDefinition(target, dialect, false)}`
+            );
+          }
+          continue;
+        }
+
+        const alterColumn = `ALTER TABLE ${fullTableName} ALTER COLUMN ${columnName}`;
+        if (changes.type) {
+          statements.push(
+            `${alterColumn} TYPE ${target.type} USING ${columnName}::${target.type}`
+          );
+        }
+        if (changes.nullable) {
+          statements.push(
+            `${alterColumn} ${target.nullable ? 'DROP NOT NULL' : 'SET NOT NULL'}`
+          );
+        }
+        if (changes.defaultValue) {
+          if (target.defaultValue === null) {
+            statements.push(`${alterColumn} DROP DEFAULT`);
+          } else {
+            statements.push(
+              ...this.generateCreateSequences(
+                [target],
+                tableDiff.schema,
+                dialect
+              ),
+              `${alterColumn} SET DEFAULT ${target.defaultValue}`
+            );
+          }
+        }
+      }
+    }
+
+    if (pkChanges && pkChanges.to.length > 0) {
+      statements.push(
+        `ALTER TABLE ${fullTableName} ADD PRIMARY KEY (${pkChanges.to
+          .map((c) => this.formatIdentifier(c, dialect))
+          .join(', ')})`
+      );
+    }
+
+    return { statements, warnings };
+  }
+
+  /**
+   * Format a table name for the dialect. SQLite names are left unquoted and
+   * skip the main schema; MySQL names are left unqualified so the migration
+   * applies to whichever database it is run against.
+   */
+  private formatTableName(
+    tableName: string,
+    schema: string | undefined,
+    dialect: SqlDialect
+  ): string {
+    if (dialect === 'sqlite') {
+      return schema && schema !== 'main' ? `${schema}.${tableName}` : tableName;
+    }
+    return qualifyTableName(
+      tableName,
+      dialect === 'mysql' ? undefined : schema,
+      dialect
+    );
+  }
+
+  /**
+   * Format a column or constraint name for the dialect.
+   */
+  private formatIdentifier(name: string, dialect: SqlDialect): string {
+    return dialect === 'sqlite' ? name : quoteIdentifier(name, dialect);
+  }
+
   /**
    * Generate CREATE TABLE statement from table info.
+   * Foreign keys are declared inline for SQLite only; other dialects add them
+   * once all tables exist.
    */
-  private generateCreateTable(table: TableInfo, tableName?: string): string {
+  private generateCreateTable(
+    table: TableInfo,
+    tableName?: string,
+    dialect: SqlDialect = 'sqlite'
+  ): string {
     const name = tableName || table.name;
-    const fullTableName =
-      table.schema && table.schema !== 'main'
-        ? `${table.schema}.${name}`
-        : name;
+    const fullTableName = this.formatTableName(name, table.schema, dialect);
 
     const columnDefs: string[] = [];
 
     // Add columns
     for (const column of table.columns) {
-      columnDefs.push(this.generateColumnDefinition(column));
+      columnDefs.push(
+        this.generateColumnDefinition(
+          column,
+          dialect,
+          table.primaryKey.length <= 1
+        )
+      );
     }
 
     // Add primary key constraint if composite
     if (table.primaryKey.length > 1) {
-      columnDefs.push(`PRIMARY KEY (${table.primaryKey.join(', ')})`);
+      columnDefs.push(
+        `PRIMARY KEY (${table.primaryKey
+          .map((c) => this.formatIdentifier(c, dialect))
+          .join(', ')})`
+      );
     }
 
     // Add foreign key constraints
-    for (const fk of table.foreignKeys) {
-      const onDelete = fk.onDelete ? ` ON DELETE ${fk.onDelete}` : '';
-      const onUpdate = fk.onUpdate ? ` ON UPDATE ${fk.onUpdate}` : '';
-      columnDefs.push(
-        `FOREIGN KEY (${fk.column}) REFERENCES ${fk.referencedTable}(${fk.referencedColumn})${onDelete}${onUpdate}`
-      );
+    if (dialect === 'sqlite') {
+      for (const fk of table.foreignKeys) {
+        const onDelete = fk.onDelete ? ` ON DELETE ${fk.onDelete}` : '';
+        const onUpdate = fk.onUpdate ? ` ON UPDATE ${fk.onUpdate}` : '';
+        columnDefs.push(
+          `FOREIGN KEY (${fk.column}) REFERENCES ${fk.referencedTable}(${fk.referencedColumn})${onDelete}${onUpdate}`
+        );
+      }
     }
 
     return `CREATE TABLE ${fullTableName} (\n  ${columnDefs.join(',\n  ')}\n)`;
@@ -586,14 +910,18 @@ class MigrationGeneratorService {
   /**
    * Generate column definition for CREATE TABLE or ALTER TABLE ADD COLUMN.
    */
-  private generateColumnDefinition(column: ColumnInfo): string {
-    let def = column.name;
+  private generateColumnDefinition(
+    column: ColumnInfo,
+    dialect: SqlDialect = 'sqlite',
+    inlinePrimaryKey = true
+  ): string {
+    let def = this.formatIdentifier(column.name, dialect);
 
     // Add type
     def += ` ${column.type}`;
 
     // Add primary key if single column
-    if (column.isPrimaryKey) {
+    if (column.isPrimaryKey && inlinePrimaryKey) {
       def += ' PRIMARY KEY';
     }
 
@@ -602,21 +930,111 @@ class MigrationGeneratorService {
       def += ' NOT NULL';
     }
 
+    if (dialect === 'mysql' && column.isAutoIncrement) {
+      def += ' AUTO_INCREMENT';
+    }
+
     // Add default value
     if (column.defaultValue !== null) {
-      def += ` DEFAULT ${column.defaultValue}`;
+      def += ` DEFAULT ${this.formatDefaultValue(column.defaultValue, dialect)}`;
     }
 
     return def;
   }
 
+  /**
+   * Format a column default. MySQL reports literal defaults unquoted, so
+   * anything that is not a number, NULL, CURRENT_TIMESTAMP or an expression
+   * default is quoted as a string.
+   */
+  private formatDefaultValue(value: string, dialect: SqlDialect): string {
+    if (dialect !== 'mysql') {
+      return value;
+    }
+    if (
+      /^-?\d+(?:\.\d+)?$/.test(value) ||
+      /^(?:NULL|CURRENT_TIMESTAMP(?:\(\d*\))?)$/i.test(value) ||
+      value.startsWith('(') ||
+      value.startsWith("'")
+    ) {
+      return value;
+    }
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Generate CREATE SEQUENCE statements for PostgreSQL columns whose default
+   * draws from a sequence (serial columns), so the default resolves.
+   */
+  private generateCreateSequences(
+    columns: ColumnInfo[],
+    schema: string | undefined,
+    dialect: SqlDialect
+  ): string[] {
+    if (dialect !== 'postgresql') {
+      return [];
+    }
+
+    return columns.flatMap((column) => {
+      const name = this.getSequenceName(column, schema);
+      return name ? [`CREATE SEQUENCE IF NOT EXISTS ${name}`] : [];
+    });
+  }
+
+  /**
+   * Generate ALTER SEQUENCE ... OWNED BY statements that tie serial sequences
+   * to their column, so they are dropped together with the table.
+   */
+  private generateSequenceOwnership(
+    table: TableInfo,
+    dialect: SqlDialect
+  ): string[] {
+    if (dialect !== 'postgresql') {
+      return [];
+    }
+
+    const fullTableName = this.formatTableName(
+      table.name,
+      table.schema,
+      dialect
+    );
+    return table.columns.flatMap((column) => {
+      const name = this.getSequenceName(column, table.schema);
+      return name
+        ? [
+            `ALTER SEQUENCE ${name} OWNED BY ${fullTableName}.${quoteIdentifier(column.name, dialect)}`,
+          ]
+        : [];
+    });
+  }
+
+  /**
+   * Get the sequence a column's default draws from, qualified with the
+   * table's schema. The name is kept as PostgreSQL printed it in the
+   * default, which already quotes it where needed.
+   */
+  private getSequenceName(
+    column: ColumnInfo,
+    schema: string | undefined
+  ): string | null {
+    const sequence = column.defaultValue?.match(NEXTVAL_PATTERN)?.[1];
+    if (!sequence) {
+      return null;
+    }
+    return sequence.includes('.')
+      ? sequence
+      : `${quoteIdentifier(schema || 'public', 'postgresql')}.${sequence}`;
+  }
+
   /**
    * Generate DROP TABLE statement.
    */
-  private generateDropTable(tableName: string, schema: string): string {
-    const fullTableName =
-      schema && schema !== 'main' ? `${schema}.${tableName}` : tableName;
-    return `DROP TABLE ${fullTableName}`;
+  private generateDropTable(
+    tableName: string,
+    schema: string,
+    dialect: SqlDialect = 'sqlite'
+  ): string {
+    return `DROP TABLE ${this.formatTableName(tableName, schema, dialect)}`;
   }
 
   /**
@@ -625,17 +1043,99 @@ class MigrationGeneratorService {
   private generateAddColumn(
     tableName: string,
     column: ColumnInfo,
-    schema: string
+    schema: string,
+    dialect: SqlDialect = 'sqlite'
   ): string {
-    const fullTableName =
-      schema && schema !== 'main' ? `${schema}.${tableName}` : tableName;
-    return `ALTER TABLE ${fullTableName} ADD COLUMN ${this.generateColumnDefinition(column)}`;
+    const fullTableName = this.formatTableName(tableName, schema, dialect);
+    return `ALTER TABLE ${fullTableName} ADD COLUMN ${this.generateColumnDefinition(column, dialect, dialect === 'sqlite')}`;
+  }
+
+  /**
+   * Generate ALTER TABLE ... ADD FOREIGN KEY statement (MySQL/PostgreSQL).
+   * The referenced table is assumed to live in the same schema.
+   */
+  private generateAddForeignKey(
+    tableName: string,
+    schema: string,
+    fk: ForeignKeyInfo,
+    dialect: SqlDialect
+  ): string {
+    const constraint = fk.name
+      ? ` CONSTRAINT ${quoteIdentifier(fk.name, dialect)}`
+      : '';
+    const onDelete = fk.onDelete ? ` ON DELETE ${fk.onDelete}` : '';
+    const onUpdate = fk.onUpdate ? ` ON UPDATE ${fk.onUpdate}` : '';
+    return (
+      `ALTER TABLE ${this.formatTableName(tableName, schema, dialect)} ADD${constraint} ` +
+      `FOREIGN KEY (${quoteIdentifier(fk.column, dialect)}) ` +
+      `REFERENCES ${this.formatTableName(fk.referencedTable, schema, dialect)} (${quoteIdentifier(fk.referencedColumn, dialect)})` +
+      `${onDelete}${onUpdate}`
+    );
+  }
+
+  /**
+   * Generate the statement dropping a foreign key (MySQL/PostgreSQL).
+   * Returns null when the constraint name is unknown.
+   */
+  private generateDropForeignKey(
+    tableName: string,
+    schema: string,
+    fk: ForeignKeyInfo,
+    dialect: SqlDialect
+  ): string | null {
+    if (!fk.name) {
+      return null;
+    }
+    const drop = dialect === 'mysql' ? 'DROP FOREIGN KEY' : 'DROP CONSTRAINT';
+    return `ALTER TABLE ${this.formatTableName(tableName, schema, dialect)} ${drop} ${quoteIdentifier(fk.name, dialect)}`;
+  }
+
+  /**
+   * Check whether an index is the one backing the table's primary key.
+   * MySQL and PostgreSQL report these alongside regular indexes, but they are
+   * created and dropped through the primary key itself.
+   */
+  private isPrimaryKeyIndex(
+    index: IndexInfo | null | undefined,
+    table: TableInfo | null | undefined
+  ): boolean {
+    if (!index || !table) {
+      return false;
+    }
+    if (index.name === 'PRIMARY' || index.name === `${table.name}_pkey`) {
+      return true;
+    }
+    return (
+      index.isUnique &&
+      table.primaryKey.length > 0 &&
+      index.columns.length === table.primaryKey.length &&
+      index.columns.every((c) => table.primaryKey.includes(c))
+    );
+  }
+
+  /**
+   * Get the indexes of a table that are not managed through its primary key.
+   */
+  private getSecondaryIndexes(
+    table: TableInfo,
+    dialect: SqlDialect
+  ): IndexInfo[] {
+    if (dialect === 'sqlite') {
+      return table.indexes;
+    }
+    return table.indexes.filter(
+      (index) => !this.isPrimaryKeyIndex(index, table)
+    );
   }
 
   /**
    * Generate CREATE INDEX statement.
    */
-  private generateCreateIndex(index: IndexInfo): string {
+  private generateCreateIndex(
+    index: IndexInfo,
+    table?: TableInfo,
+    dialect: SqlDialect = 'sqlite'
+  ): string {
     // If we have the original SQL, use it
     if (index.sql && index.sql.trim()) {
       return index.sql;
@@ -643,22 +1143,54 @@ class MigrationGeneratorService {
 
     // Otherwise construct it
     const unique = index.isUnique ? 'UNIQUE ' : '';
-    const columns = index.columns.join(', ');
-    return `CREATE ${unique}INDEX ${index.name} ON ${index.columns[0]} (${columns})`;
+    if (dialect === 'sqlite' || !table) {
+      const columns = index.columns.join(', ');
+      return `CREATE ${unique}INDEX ${index.name} ON ${index.columns[0]} (${columns})`;
+    }
+
+    const columns = index.columns
+      .map((c) => quoteIdentifier(c, dialect))
+      .join(', ');
+    return `CREATE ${unique}INDEX ${quoteIdentifier(index.name, dialect)} ON ${this.formatTableName(table.name, table.schema, dialect)} (${columns})`;
   }
 
   /**
    * Generate DROP INDEX statement.
+   * MySQL indexes belong to a table, PostgreSQL indexes to a schema.
    */
-  private generateDropIndex(indexName: string): string {
+  private generateDropIndex(
+    indexName: string,
+    tableName?: string,
+    schema?: string,
+    dialect: SqlDialect = 'sqlite'
+  ): string {
+    if (dialect === 'mysql' && tableName) {
+      return `DROP INDEX ${quoteIdentifier(indexName, dialect)} ON ${this.formatTableName(tableName, schema, dialect)}`;
+    }
+    if (dialect === 'postgresql') {
+      return `DROP INDEX ${qualifyTableName(indexName, schema, dialect)}`;
+    }
     return `DROP INDEX ${indexName}`;
   }
 
   /**
    * Generate CREATE TRIGGER statement.
    */
-  private generateCreateTrigger(trigger: TriggerInfo): string {
+  private generateCreateTrigger(
+    trigger: TriggerInfo,
+    schema?: string,
+    dialect: SqlDialect = 'sqlite'
+  ): string {
     // If we have the original SQL, use it
+    if (trigger.sql && /^\s*CREATE\b/i.test(trigger.sql)) {
+      return trigger.sql;
+    }
+
+    // MySQL only reports the trigger body
+    if (dialect === 'mysql' && trigger.sql && trigger.sql.trim()) {
+      return `CREATE TRIGGER ${quoteIdentifier(trigger.name, dialect)} ${trigger.timing} ${trigger.event} ON ${this.formatTableName(trigger.tableName, schema, dialect)} FOR EACH ROW ${trigger.sql}`;
+    }
+
     if (trigger.sql && trigger.sql.trim()) {
       return trigger.sql;
     }
@@ -669,9 +1201,20 @@ class MigrationGeneratorService {
 
   /**
    * Generate DROP TRIGGER statement.
+   * PostgreSQL triggers are scoped to their table.
    */
-  private generateDropTrigger(triggerName: string): string {
-    return `DROP TRIGGER ${triggerName}`;
+  private generateDropTrigger(
+    trigger: TriggerInfo,
+    schema?: string,
+    dialect: SqlDialect = 'sqlite'
+  ): string {
+    if (dialect === 'postgresql') {
+      return `DROP TRIGGER ${quoteIdentifier(trigger.name, dialect)} ON ${this.formatTableName(trigger.tableName, schema, dialect)}`;
+    }
+    if (dialect === 'mysql') {
+      return `DROP TRIGGER ${quoteIdentifier(trigger.name, dialect)}`;
+    }
+    return `DROP TRIGGER ${trigger.name}`;
   }
 }
 
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryCursorService } from './query-cursor';
+
+const { databaseManager } = vi.hoisted(() => ({
+  databaseManager: {
+    openCursorAsync: vi.fn(),
+    getConnectionType: vi.fn(() => 'postgresql'),
+  },
+}));
+
+vi.mock('./database', () => ({ databaseManager }));
+
+/**
+ * Cursor over `total` generated rows
+ */
+function createCursor(total: number) {
+  let position = 0;
+  return {
+    columns: ['n'],
+    read: vi.fn(async (count: number) => {
+      const rows: Array<{ n: number }> = [];
+      while (rows.length < count && position < total) {
+        position += 1;
+        rows.push({ n: position });
+      }
+      return rows;
+    }),
+    close: vi.fn(async () => {}),
+  };
+}
+
+describe('queryCursorService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only stream single read statements', () => {
+    const canStream = (query: string) =>
+      queryCursorService.canStream('conn', query);
+
+    expect(canStream('SELECT * FROM users')).toBe(true);
+    expect(canStream('WITH t AS (SELECT 1) SELECT * FROM t;')).toBe(true);
+    expect(canStream('SELECT 1; SELECT 2')).toBe(false);
+    expect(canStream('UPDATE users SET a = 1')).toBe(false);
+    expect(
+      canStream(
+        'WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone'
+      )
+    ).toBe(false);
+  });
+
+  it('should split statements in the dialect of the connection', () => {
+    databaseManager.getConnectionType.mockReturnValueOnce('postgresql');
+    expect(queryCursorService.canStream('conn', 'SELECT $$a;b$$ AS body')).toBe(
+      true
+    );
+
+    databaseManager.getConnectionType.mockReturnValueOnce('mysql');
+    expect(
+      queryCursorService.canStream('conn', "SELECT 'it\\'s; fine' AS s")
+    ).toBe(true);
+  });
+
+  it('should keep the cursor open while more rows follow', async () => {
+    const cursor = createCursor(250);
+    databaseManager.openCursorAsync.mockResolvedValue({
+      success: true,
+      cursor,
+    });
+
+    const page = await queryCursorService.open('conn', 'SELECT n', 100);
+    if (!page.success || !page.cursorId) throw new Error('open failed');
+    expect(page.rows).toHaveLength(100);
+    expect(page.columns).toEqual(['n']);
+    expect(page.hasMore).toBe(true);
+
+    const second = await queryCursorService.fetch(page.cursorId, 100);
+    expect(second).toMatchObject({ success: true, rowCount: 200 });
+    expect(cursor.close).not.toHaveBeenCalled();
+
+    const last = await queryCursorService.fetch(page.cursorId, 100);
+    expect(last).toMatchObject({
+      success: true,
+      rowCount: 250,
+      hasMore: false,
+    });
+    expect(cursor.close).toHaveBeenCalledTimes(1);
+    expect(await queryCursorService.fetch(page.cursorId, 100)).toEqual({
+      success: false,
+      error: 'Cursor not found',
+    });
+  });
+
+  it('should close the cursor when the first page holds every row', async () => {
+    const cursor = createCursor(10);
+    databaseManager.openCursorAsync.mockResolvedValue({
+      success: true,
+      cursor,
+    });
+
+    const page = await queryCursorService.open('conn', 'SELECT n', 100);
+
+    expect(page).toMatchObject({ success: true, hasMore: false });
+    expect(page).not.toHaveProperty('cursorId');
+    expect(cursor.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close the cursor when the signal is aborted', async () => {
+    const cursor = createCursor(1000);
+    databaseManager.openCursorAsync.mockResolvedValue({
+      success: true,
+      cursor,
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    const page = await queryCursorService.open(
+      'conn',
+      'SELECT n',
+      100,
+      controller.signal
+    );
+
+    expect(page.success).toBe(false);
+    expect(cursor.read).not.toHaveBeenCalled();
+    expect(cursor.close).toHaveBeenCalled();
+  });
+
+  it('should close the cursors of a connection', async () => {
+    const cursor = createCursor(1000);
+    databaseManager.openCursorAsync.mockResolvedValue({
+      success: true,
+      cursor,
+    });
+    const page = await queryCursorService.open('conn-a', 'SELECT n', 100);
+    if (!page.success || !page.cursorId) throw new Error('open failed');
+
+    await queryCursorService.closeForConnection('conn-b');
+    expect(cursor.close).not.toHaveBeenCalled();
+
+    await queryCursorService.closeForConnection('conn-a');
+    expect(cursor.close).toHaveBeenCalledTimes(1);
+    expect(await queryCursorService.close(page.cursorId)).toBe(false);
+  });
+
+  it('should read the whole result in batches', async () => {
+    const cursor = createCursor(2500);
+    databaseManager.openCursorAsync.mockResolvedValue({
+      success: true,
+      cursor,
+    });
+
+    const sizes: number[] = [];
+    for await (const batch of queryCursorService.readBatches(
+      'conn',
+      'SELECT n'
+    )) {
+      sizes.push(batch.length);
+    }
+
+    expect(sizes).toEqual([1000, 1000, 500]);
+    expect(cursor.close).toHaveBeenCalledTimes(1);
+  });
+});
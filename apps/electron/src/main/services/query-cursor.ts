@@ -0,0 +1,205 @@
+/**
+ * Query Cursors
+ * Streams large Query Editor results. A row-returning query is read through
+ * a server-side cursor one page at a time: the first page is returned with
+ * the query, later pages are fetched as the results grid scrolls, and exports
+ * read the whole result in batches without holding it in memory.
+ */
+
+import type { RowCursor } from './database-adapters';
+import { randomUUID } from 'node:crypto';
+import { isReadOnlyStatement } from '@shared/sql-statements';
+import { getDialect } from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+
+/** Rows read per batch when exporting a query result */
+const EXPORT_BATCH_SIZE = 1000;
+
+interface OpenCursor {
+  connectionId: string;
+  cursor: RowCursor;
+  rowCount: number;
+}
+
+/**
+ * First page of a streamed query
+ */
+export interface CursorPage {
+  success: true;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  hasMore: boolean;
+  /** Set while more rows may follow */
+  cursorId?: string;
+}
+
+/**
+ * Service for paging through query results with server-side cursors.
+ */
+class QueryCursorService {
+  private cursors: Map<string, OpenCursor> = new Map();
+
+  /**
+   * Whether a query is a single read statement that can be streamed.
+   * Anything that might write runs normally instead.
+   */
+  canStream(connectionId: string, query: string): boolean {
+    return isReadOnlyStatement(
+      query,
+      getDialect(databaseManager.getConnectionType(connectionId))
+    );
+  }
+
+  /**
+   * Open a cursor and read its first page. The cursor stays open under the
+   * returned cursorId while more rows may follow. Aborting the signal closes
+   * the cursor, which stops the read.
+   */
+  async open(
+    connectionId: string,
+    query: string,
+    pageSize: number,
+    signal?: AbortSignal
+  ): Promise<CursorPage | { success: false; error: string }> {
+    const opened = await databaseManager.openCursorAsync(connectionId, query);
+    if (!opened.success) {
+      return opened;
+    }
+
+    const { cursor } = opened;
+    if (signal?.aborted) {
+      await cursor.close();
+      return { success: false, error: 'Query cancelled' };
+    }
+
+    const onAbort = () => {
+      void cursor.close();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const rows = await cursor.read(pageSize);
+      const hasMore = rows.length === pageSize;
+      const page: CursorPage = {
+        success: true,
+        columns: cursor.columns,
+        rows,
+        hasMore,
+      };
+
+      if (!hasMore) {
+        await cursor.close();
+        return page;
+      }
+
+      const cursorId = randomUUID();
+      this.cursors.set(cursorId, {
+        connectionId,
+        cursor,
+        rowCount: rows.length,
+      });
+      return { ...page, cursorId };
+    } catch (error) {
+      await cursor.close();
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read rows',
+      };
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Read the next page of a cursor. The cursor is closed once the result is
+   * exhausted or a read fails.
+   */
+  async fetch(
+    cursorId: string,
+    count: number
+  ): Promise<
+    | {
+        success: true;
+        rows: Record<string, unknown>[];
+        rowCount: number;
+        hasMore: boolean;
+      }
+    | { success: false; error: string }
+  > {
+    const entry = this.cursors.get(cursorId);
+    if (!entry) {
+      return { success: false, error: 'Cursor not found' };
+    }
+
+    try {
+      const rows = await entry.cursor.read(count);
+      entry.rowCount += rows.length;
+      const hasMore = rows.length === count;
+      if (!hasMore) {
+        await this.close(cursorId);
+      }
+      return { success: true, rows, rowCount: entry.rowCount, hasMore };
+    } catch (error) {
+      await this.close(cursorId);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read rows',
+      };
+    }
+  }
+
+  /**
+   * Close a cursor. Returns false when it was already closed.
+   */
+  async close(cursorId: string): Promise<boolean> {
+    const entry = this.cursors.get(cursorId);
+    if (!entry) {
+      return false;
+    }
+    this.cursors.delete(cursorId);
+    await entry.cursor.close();
+    return true;
+  }
+
+  /**
+   * Close every cursor of a connection, before the connection closes.
+   */
+  async closeForConnection(connectionId: string): Promise<void> {
+    const cursorIds = [...this.cursors.entries()]
+      .filter(([, entry]) => entry.connectionId === connectionId)
+      .map(([cursorId]) => cursorId);
+    await Promise.all(cursorIds.map((cursorId) => this.close(cursorId)));
+  }
+
+  /**
+   * Read the full result of a query in batches through its own cursor.
+   */
+  async *readBatches(
+    connectionId: string,
+    query: string,
+    batchSize = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<Record<string, unknown>[]> {
+    const opened = await databaseManager.openCursorAsync(connectionId, query);
+    if (!opened.success) {
+      throw new Error(opened.error);
+    }
+
+    try {
+      while (true) {
+        const rows = await opened.cursor.read(batchSize);
+        if (rows.length > 0) {
+          yield rows;
+        }
+        if (rows.length < batchSize) {
+          return;
+        }
+      }
+    } finally {
+      await opened.cursor.close();
+    }
+  }
+}
+
+// Export singleton instance
+export const queryCursorService = new QueryCursorService();
+export default queryCursorService;
@@ -0,0 +1,392 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryExecutionService } from './query-execution';
+
+const { databaseManager, getProfiles } = vi.hoisted(() => ({
+  databaseManager: {
+    executeQueryAsync: vi.fn(),
+    cancelQueryAsync: vi.fn(),
+    openCursorAsync: vi.fn(),
+    getTransactionStateAsync: vi.fn(),
+    beginTransactionAsync: vi.fn(),
+    endTransactionAsync: vi.fn(),
+    releaseSessionAsync: vi.fn(),
+    getConnection: vi.fn(() => ({ path: 'db.example.com:5432/app' })),
+    getConnectionType: vi.fn(() => 'postgresql'),
+  },
+  getProfiles: vi.fn(() => [] as unknown[]),
+}));
+
+vi.mock('./database', () => ({ databaseManager }));
+
+vi.mock('./store', () => ({ getProfiles }));
+
+/**
+ * Make executeQueryAsync hang until cancelQueryAsync is called.
+ */
+function mockLongRunningQuery() {
+  let finish: (result: unknown) => void = () => {};
+  databaseManager.executeQueryAsync.mockReturnValue(
+    new Promise((resolve) => {
+      finish = resolve;
+    })
+  );
+  databaseManager.cancelQueryAsync.mockImplementation(async () => {
+    finish({
+      success: false,
+      error: 'canceling statement due to user request',
+    });
+  });
+}
+
+describe('queryExecutionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getProfiles.mockReturnValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the result of a finished query', async () => {
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: true,
+      rows: [{ n: 1 }],
+    });
+
+    const { result, cancelReason } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT 1 AS n',
+      executionId: 'exec-1',
+    });
+
+    expect(result).toEqual({ success: true, rows: [{ n: 1 }] });
+    expect(cancelReason).toBeNull();
+    expect(await queryExecutionService.cancel('exec-1')).toBe(false);
+  });
+
+  it('should cancel a running query by execution id', async () => {
+    mockLongRunningQuery();
+
+    const execution = queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT pg_sleep(60)',
+      executionId: 'exec-2',
+    });
+
+    expect(await queryExecutionService.cancel('exec-2')).toBe(true);
+    expect(databaseManager.cancelQueryAsync).toHaveBeenCalledWith(
+      'conn',
+      'exec-2'
+    );
+
+    const { result, cancelReason } = await execution;
+    expect(result.success).toBe(false);
+    expect(cancelReason).toBe('cancelled');
+  });
+
+  it('should stop queries that exceed the profile statement timeout', async () => {
+    vi.useFakeTimers();
+    getProfiles.mockReturnValue([
+      { path: 'db.example.com:5432/app', statementTimeout: 5 },
+    ]);
+    mockLongRunningQuery();
+
+    const execution = queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT pg_sleep(60)',
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const { cancelReason, timeoutSeconds } = await execution;
+    expect(cancelReason).toBe('timeout');
+    expect(timeoutSeconds).toBe(5);
+    // Requests without an execution ID get one, so only this query is stopped
+    const [, , { executionId }] =
+      databaseManager.executeQueryAsync.mock.calls[0];
+    expect(executionId).toEqual(expect.any(String));
+    expect(databaseManager.cancelQueryAsync).toHaveBeenCalledWith(
+      'conn',
+      executionId
+    );
+  });
+
+  it('should stream read queries and close the cursor on cancel', async () => {
+    let finishRead: (rows: unknown[]) => void = () => {};
+    const cursor = {
+      columns: ['n'],
+      read: vi.fn(
+        () =>
+          new Promise((resolve) => {
+            finishRead = resolve;
+          })
+      ),
+      close: vi.fn(async () => {
+        finishRead([]);
+      }),
+    };
+    databaseManager.openCursorAsync.mockResolvedValue({
+      success: true,
+      cursor,
+    });
+
+    const execution = queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT n FROM big',
+      executionId: 'exec-3',
+      pageSize: 500,
+    });
+    await vi.waitFor(() => expect(cursor.read).toHaveBeenCalledWith(500));
+
+    expect(await queryExecutionService.cancel('exec-3')).toBe(true);
+    expect(cursor.close).toHaveBeenCalled();
+    expect(databaseManager.cancelQueryAsync).not.toHaveBeenCalled();
+    expect(databaseManager.executeQueryAsync).not.toHaveBeenCalled();
+
+    const { cancelReason } = await execution;
+    expect(cancelReason).toBe('cancelled');
+  });
+
+  it('should run queries of a pinned tab on its session without streaming', async () => {
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: true,
+      rows: [],
+    });
+
+    await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT * FROM pg_temp.scratch',
+      executionId: 'exec-4',
+      pageSize: 500,
+      sessionId: 'tab-1',
+    });
+
+    expect(databaseManager.openCursorAsync).not.toHaveBeenCalled();
+    expect(databaseManager.executeQueryAsync).toHaveBeenCalledWith(
+      'conn',
+      'SELECT * FROM pg_temp.scratch',
+      { sessionId: 'tab-1', executionId: 'exec-4' }
+    );
+  });
+
+  it('should bind parameters in the connection dialect without streaming', async () => {
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: true,
+      rows: [],
+    });
+
+    await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT * FROM users WHERE id = :id OR manager_id = :id',
+      executionId: 'exec-5',
+      pageSize: 500,
+      parameters: { ':id': 7 },
+    });
+
+    expect(databaseManager.openCursorAsync).not.toHaveBeenCalled();
+    expect(databaseManager.executeQueryAsync).toHaveBeenCalledWith(
+      'conn',
+      'SELECT * FROM users WHERE id = $1 OR manager_id = $1',
+      { sessionId: undefined, executionId: 'exec-5', params: [7] }
+    );
+  });
+
+  it('should fail without running when a parameter has no value', async () => {
+    const { result } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT * FROM users WHERE id = :id',
+      parameters: {},
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'No value provided for parameter :id',
+    });
+    expect(databaseManager.executeQueryAsync).not.toHaveBeenCalled();
+  });
+
+  it('should run each statement of a script on a temporary session', async () => {
+    databaseManager.executeQueryAsync
+      .mockResolvedValueOnce({ success: true, changes: 2 })
+      .mockResolvedValueOnce({
+        success: false,
+        error: 'column "nope" does not exist',
+        errorPosition: { line: 2, column: 3 },
+      });
+
+    const { result } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'UPDATE t SET a = 1;\nSELECT\n  nope FROM t;\nSELECT 3;',
+      executionId: 'exec-6',
+      pageSize: 500,
+      splitStatements: true,
+    });
+
+    const [[, , first], [, , second]] =
+      databaseManager.executeQueryAsync.mock.calls;
+    expect(first.sessionId).toMatch(/^script:/);
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(databaseManager.executeQueryAsync).toHaveBeenCalledTimes(2);
+    expect(databaseManager.openCursorAsync).not.toHaveBeenCalled();
+    expect(databaseManager.releaseSessionAsync).toHaveBeenCalledWith(
+      'conn',
+      first.sessionId
+    );
+    expect(result).toMatchObject({
+      success: false,
+      error: 'column "nope" does not exist',
+      errorPosition: { line: 3, column: 3 },
+      statements: [
+        { sql: 'UPDATE t SET a = 1', start: 0, success: true, rowsAffected: 2 },
+        { sql: 'SELECT\n  nope FROM t', start: 20, success: false },
+        { sql: 'SELECT 3', success: false, skipped: true },
+      ],
+    });
+  });
+
+  it('should release the temporary session when a statement throws', async () => {
+    databaseManager.executeQueryAsync.mockRejectedValueOnce(
+      new Error('Connection terminated')
+    );
+
+    await expect(
+      queryExecutionService.execute({
+        connectionId: 'conn',
+        query: 'SELECT 1; SELECT 2;',
+        executionId: 'exec-7',
+        pageSize: 500,
+        splitStatements: true,
+      })
+    ).rejects.toThrow('Connection terminated');
+
+    const [[, , options]] = databaseManager.executeQueryAsync.mock.calls;
+    expect(databaseManager.releaseSessionAsync).toHaveBeenCalledWith(
+      'conn',
+      options.sessionId
+    );
+  });
+
+  it('should bind positional parameters of a script per statement', async () => {
+    databaseManager.getConnectionType.mockReturnValueOnce('sqlite');
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: true,
+      columns: ['a'],
+      rows: [{ a: 1 }],
+    });
+
+    const { result } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT ?; SELECT ?, :a',
+      parameters: { '?1': 1, '?2': 2, ':a': 'x' },
+      splitStatements: true,
+    });
+
+    expect(databaseManager.executeQueryAsync).toHaveBeenNthCalledWith(
+      2,
+      'conn',
+      'SELECT ?, ?',
+      expect.objectContaining({ params: [2, 'x'] })
+    );
+    expect(result).toMatchObject({
+      success: true,
+      executedStatements: 2,
+      resultSets: [
+        { columns: ['a'], rows: [{ a: 1 }] },
+        { columns: ['a'], rows: [{ a: 1 }] },
+      ],
+    });
+  });
+
+  it('should run a single split statement without its delimiter', async () => {
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: false,
+      error: 'syntax error',
+      errorPosition: { line: 1, column: 8 },
+    });
+
+    const { result } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: '\n  SELECT FROM;',
+      splitStatements: true,
+    });
+
+    expect(databaseManager.executeQueryAsync).toHaveBeenCalledWith(
+      'conn',
+      'SELECT FROM',
+      {
+        sessionId: undefined,
+        executionId: expect.any(String),
+        params: undefined,
+      }
+    );
+    expect(result).toMatchObject({ errorPosition: { line: 2, column: 10 } });
+  });
+
+  it('should open a transaction before the first manual-commit query', async () => {
+    databaseManager.getTransactionStateAsync
+      .mockResolvedValueOnce({ success: true, transactionState: 'idle' })
+      .mockResolvedValueOnce({ success: true, transactionState: 'active' });
+    databaseManager.beginTransactionAsync.mockResolvedValue({ success: true });
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: true,
+      changes: 1,
+    });
+
+    const { result, transactionState } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'DELETE FROM users WHERE id = 1',
+      pageSize: 500,
+      sessionId: 'tab-1',
+      manualCommit: true,
+    });
+
+    expect(databaseManager.beginTransactionAsync).toHaveBeenCalledWith(
+      'conn',
+      'tab-1'
+    );
+    expect(result).toEqual({ success: true, changes: 1 });
+    expect(transactionState).toBe('active');
+  });
+
+  it('should join the transaction already open on the session', async () => {
+    databaseManager.getTransactionStateAsync.mockResolvedValue({
+      success: true,
+      transactionState: 'failed',
+    });
+    databaseManager.executeQueryAsync.mockResolvedValue({
+      success: false,
+      error: 'current transaction is aborted',
+    });
+
+    const { transactionState } = await queryExecutionService.execute({
+      connectionId: 'conn',
+      query: 'SELECT 1',
+      sessionId: 'tab-1',
+      manualCommit: true,
+    });
+
+    expect(databaseManager.beginTransactionAsync).not.toHaveBeenCalled();
+    expect(transactionState).toBe('failed');
+  });
+
+  it('should report the transaction state after a rollback', async () => {
+    databaseManager.endTransactionAsync.mockResolvedValue({ success: true });
+    databaseManager.getTransactionStateAsync.mockResolvedValue({
+      success: true,
+      transactionState: 'idle',
+    });
+
+    const response = await queryExecutionService.endTransaction({
+      connectionId: 'conn',
+      sessionId: 'tab-1',
+      action: 'rollback',
+    });
+
+    expect(databaseManager.endTransactionAsync).toHaveBeenCalledWith(
+      'conn',
+      'rollback',
+      'tab-1'
+    );
+    expect(response).toEqual({ success: true, transactionState: 'idle' });
+  });
+});
@@ -0,0 +1,474 @@
+/**
+ * Query Execution
+ * Runs Query Editor queries with an execution ID so they can be cancelled
+ * from the renderer, and enforces the connection profile's statement
+ * timeout. MySQL and PostgreSQL statements are cancelled on the server
+ * (KILL QUERY / pg_cancel_backend); SQLite queries are stopped by replacing
+ * the worker thread that runs them, and streamed queries by closing their
+ * cursor.
+ */
+
+import type { SqlStatementRange } from '@shared/sql-statements';
+import type {
+  EndTransactionRequest,
+  EndTransactionResponse,
+  ExecuteQueryRequest,
+  SqlDialect,
+  StatementResult,
+  TransactionState,
+} from '@shared/types';
+import type { DatabaseAdapter } from './database-adapters/types';
+import { randomUUID } from 'node:crypto';
+import {
+  bindQueryParameters,
+  findQueryPlaceholders,
+} from '@shared/query-parameters';
+import {
+  mapErrorPosition,
+  splitSqlStatementRanges,
+} from '@shared/sql-statements';
+import { getDialect } from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+import { queryCursorService } from './query-cursor';
+import { getProfiles } from './store';
+
+export type CancelReason = 'cancelled' | 'timeout';
+
+type StatementOutcome = ReturnType<DatabaseAdapter['executeQuery']>;
+
+interface ActiveExecution {
+  connectionId: string;
+  /** The request's execution ID, or one generated to cancel by */
+  executionId: string;
+  reason: CancelReason | null;
+  /** Closes the cursor of a streamed query */
+  cursorAbort: AbortController | null;
+}
+
+/**
+ * Service for running cancellable queries.
+ */
+class QueryExecutionService {
+  private executions: Map<string, ActiveExecution> = new Map();
+
+  /**
+   * Execute a query as the request's options describe. cancelReason is set
+   * when the query was stopped by the user or by the statement timeout.
+   */
+  async execute(request: ExecuteQueryRequest) {
+    const {
+      connectionId,
+      pageSize,
+      sessionId,
+      manualCommit,
+      parameters,
+      splitStatements,
+    } = request;
+    const dialect = getDialect(databaseManager.getConnectionType(connectionId));
+    // Cancelling without an ID would stop every query on the connection
+    const executionId = request.executionId ?? randomUUID();
+
+    let query = request.query;
+    // Offset of the single statement run from a split query
+    let statement: SqlStatementRange | undefined;
+    if (splitStatements) {
+      const statements = splitSqlStatementRanges(query, dialect);
+      if (statements.length > 1) {
+        return this.executeScript(request, statements, dialect);
+      }
+      statement = statements[0];
+      query = statement?.sql ?? query;
+    }
+
+    let params: unknown[] | undefined;
+    if (parameters) {
+      try {
+        ({ sql: query, params } = bindQueryParameters(
+          query,
+          parameters,
+          dialect
+        ));
+      } catch (error) {
+        return {
+          result: {
+            success: false as const,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          cancelReason: null,
+          timeoutSeconds: 0,
+          transactionState: undefined,
+        };
+      }
+    }
+
+    if (manualCommit) {
+      const begun = await this.ensureTransaction(connectionId, sessionId);
+      if (!begun.success) {
+        return {
+          result: begun,
+          cancelReason: null,
+          timeoutSeconds: 0,
+          transactionState: undefined,
+        };
+      }
+    }
+
+    // Cursors read on a session of their own, which would not see the temp
+    // tables and open transaction of a pinned session
+    const cursorAbort =
+      pageSize &&
+      !sessionId &&
+      !manualCommit &&
+      !params &&
+      queryCursorService.canStream(connectionId, query)
+        ? new AbortController()
+        : null;
+    const result =
+      pageSize && cursorAbort
+        ? queryCursorService.open(
+            connectionId,
+            query,
+            pageSize,
+            cursorAbort.signal
+          )
+        : databaseManager.executeQueryAsync(connectionId, query, {
+            sessionId,
+            executionId,
+            params,
+          });
+
+    const execution: ActiveExecution = {
+      connectionId,
+      executionId,
+      reason: null,
+      cursorAbort,
+    };
+    this.executions.set(executionId, execution);
+
+    const timeoutSeconds = this.getStatementTimeout(connectionId);
+    const timer =
+      timeoutSeconds > 0
+        ? setTimeout(() => {
+            void this.stop(execution, 'timeout');
+          }, timeoutSeconds * 1000)
+        : null;
+
+    let outcome: Awaited<typeof result>;
+    try {
+      outcome = await result;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      this.executions.delete(executionId);
+    }
+
+    if (statement && !outcome.success && outcome.errorPosition) {
+      outcome = {
+        ...outcome,
+        errorPosition: mapErrorPosition(
+          request.query,
+          statement.start,
+          statement.sql,
+          outcome.errorPosition
+        ),
+      };
+    }
+
+    return {
+      result: outcome,
+      cancelReason: execution.reason,
+      timeoutSeconds,
+      // The query may have committed, rolled back or failed the transaction
+      transactionState: manualCommit
+        ? await this.readTransactionState(connectionId, sessionId)
+        : undefined,
+    };
+  }
+
+  /**
+   * Run the statements of a script in order, stopping at the first error or
+   * when the execution is cancelled. Pooled connections would run each
+   * statement on whichever session is free, so scripts without a tab
+   * session get a temporary one. The statement timeout applies to each
+   * statement. Rows of every statement are returned in full.
+   */
+  private async executeScript(
+    request: ExecuteQueryRequest,
+    statements: SqlStatementRange[],
+    dialect: SqlDialect
+  ) {
+    const { connectionId, manualCommit, parameters } = request;
+    const executionId = request.executionId ?? randomUUID();
+    // A manual-commit transaction must outlive the script, so it keeps the
+    // session the tab would use for a single statement
+    const temporarySession = !request.sessionId && !manualCommit;
+    const sessionId = temporarySession
+      ? `script:${randomUUID()}`
+      : request.sessionId;
+
+    if (manualCommit) {
+      const begun = await this.ensureTransaction(connectionId, sessionId);
+      if (!begun.success) {
+        return {
+          result: begun,
+          cancelReason: null,
+          timeoutSeconds: 0,
+          transactionState: undefined,
+        };
+      }
+    }
+
+    const execution: ActiveExecution = {
+      connectionId,
+      executionId,
+      reason: null,
+      cursorAbort: null,
+    };
+    this.executions.set(executionId, execution);
+
+    const timeoutSeconds = this.getStatementTimeout(connectionId);
+    const results: StatementResult[] = [];
+    let positional = 0;
+
+    try {
+      for (const statement of statements) {
+        const placeholders = findQueryPlaceholders(
+          statement.sql,
+          dialect,
+          positional
+        );
+        const positionalOffset = positional;
+        positional += placeholders.filter((p) => p.key.startsWith('?')).length;
+
+        const range = {
+          sql: statement.sql,
+          start: statement.start,
+          end: statement.end,
+        };
+        if (execution.reason || results.some((r) => !r.success)) {
+          results.push({
+            ...range,
+            success: false,
+            skipped: true,
+            executionTime: 0,
+          });
+          continue;
+        }
+
+        let sql = statement.sql;
+        let params: unknown[] | undefined;
+        if (parameters && placeholders.length > 0) {
+          try {
+            ({ sql, params } = bindQueryParameters(
+              sql,
+              parameters,
+              dialect,
+              positionalOffset
+            ));
+          } catch (error) {
+            results.push({
+              ...range,
+              success: false,
+              executionTime: 0,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            continue;
+          }
+        }
+
+        const timer =
+          timeoutSeconds > 0
+            ? setTimeout(() => {
+                void this.stop(execution, 'timeout');
+              }, timeoutSeconds * 1000)
+            : null;
+        const startTime = Date.now();
+        let outcome: StatementOutcome;
+        try {
+          outcome = await databaseManager.executeQueryAsync(connectionId, sql, {
+            sessionId,
+            executionId,
+            params,
+          });
+        } finally {
+          if (timer) {
+            clearTimeout(timer);
+          }
+        }
+        const executionTime = Date.now() - startTime;
+
+        results.push(
+          outcome.success
+            ? {
+                ...range,
+                success: true,
+                columns: outcome.columns,
+                rows: outcome.rows,
+                rowsAffected: outcome.changes ?? outcome.totalChanges,
+                lastInsertRowId: outcome.lastInsertRowid,
+                executionTime,
+              }
+            : {
+                ...range,
+                success: false,
+                executionTime,
+                error: outcome.error,
+                errorCode: outcome.errorCode,
+                errorPosition: outcome.errorPosition
+                  ? mapErrorPosition(
+                      request.query,
+                      statement.start,
+                      statement.sql,
+                      outcome.errorPosition
+                    )
+                  : undefined,
+              }
+        );
+      }
+    } finally {
+      this.executions.delete(executionId);
+      if (temporarySession && sessionId) {
+        await databaseManager.releaseSessionAsync(connectionId, sessionId);
+      }
+    }
+
+    const transactionState = manualCommit
+      ? await this.readTransactionState(connectionId, sessionId)
+      : undefined;
+
+    const failed = results.find((r) => !r.success && !r.skipped);
+    if (failed) {
+      return {
+        result: {
+          success: false as const,
+          error: failed.error ?? 'Query failed',
+          errorCode: failed.errorCode,
+          errorPosition: failed.errorPosition,
+          statements: results,
+        },
+        cancelReason: execution.reason,
+        timeoutSeconds,
+        transactionState,
+      };
+    }
+
+    const resultSets = results.flatMap((r) =>
+      r.columns && r.rows ? [{ columns: r.columns, rows: r.rows }] : []
+    );
+    const lastSet = resultSets.at(-1);
+    return {
+      result: {
+        success: true as const,
+        columns: lastSet?.columns,
+        rows: lastSet?.rows,
+        resultSets,
+        executedStatements: results.length,
+        totalChanges: results.reduce(
+          (sum, r) => sum + (r.rowsAffected ?? 0),
+          0
+        ),
+        statements: results,
+      },
+      cancelReason: execution.reason,
+      timeoutSeconds,
+      transactionState,
+    };
+  }
+
+  /**
+   * Commit or roll back the transaction of a manual-commit query tab.
+   */
+  async endTransaction(
+    request: EndTransactionRequest
+  ): Promise<EndTransactionResponse> {
+    const { connectionId, sessionId, action } = request;
+    const ended = await databaseManager.endTransactionAsync(
+      connectionId,
+      action,
+      sessionId
+    );
+    const transactionState = await this.readTransactionState(
+      connectionId,
+      sessionId
+    );
+    return ended.success
+      ? { success: true, transactionState }
+      : { success: false, error: ended.error, transactionState };
+  }
+
+  private async ensureTransaction(
+    connectionId: string,
+    sessionId: string | undefined
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const state = await databaseManager.getTransactionStateAsync(
+      connectionId,
+      sessionId
+    );
+    if (!state.success) {
+      return state;
+    }
+    // A failed transaction stays open so the query reports why
+    if (state.transactionState !== 'idle') {
+      return { success: true };
+    }
+    return databaseManager.beginTransactionAsync(connectionId, sessionId);
+  }
+
+  private async readTransactionState(
+    connectionId: string,
+    sessionId: string | undefined
+  ): Promise<TransactionState | undefined> {
+    const state = await databaseManager.getTransactionStateAsync(
+      connectionId,
+      sessionId
+    );
+    return state.success ? state.transactionState : undefined;
+  }
+
+  /**
+   * Cancel a running query. Returns false when it is no longer running.
+   */
+  async cancel(executionId: string): Promise<boolean> {
+    const execution = this.executions.get(executionId);
+    if (!execution) {
+      return false;
+    }
+    await this.stop(execution, 'cancelled');
+    return true;
+  }
+
+  private async stop(
+    execution: ActiveExecution,
+    reason: CancelReason
+  ): Promise<void> {
+    if (execution.reason) {
+      return;
+    }
+    execution.reason = reason;
+    if (execution.cursorAbort) {
+      execution.cursorAbort.abort();
+      return;
+    }
+    await databaseManager.cancelQueryAsync(
+      execution.connectionId,
+      execution.executionId
+    );
+  }
+
+  /**
+   * Statement timeout in seconds from the saved profile of the connection.
+   */
+  private getStatementTimeout(connectionId: string): number {
+    const path = databaseManager.getConnection(connectionId)?.path;
+    if (!path) {
+      return 0;
+    }
+    const profile = getProfiles().find((p) => p.path === path);
+    return profile?.statementTimeout ?? 0;
+  }
+}
+
+// Export singleton instance
+export const queryExecutionService = new QueryExecutionService();
+export default queryExecutionService;
@@ -0,0 +1,170 @@
+import type { QueryHistoryEntry } from '@shared/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '/tmp' },
+}));
+
+vi.mock('./store', () => ({
+  getLegacyQueryHistory: () => [],
+  clearLegacyQueryHistory: () => {},
+}));
+
+const { QueryHistoryStore, toFtsQuery } = await import('./query-history-store');
+
+function entry(
+  id: string,
+  overrides: Partial<QueryHistoryEntry> = {}
+): QueryHistoryEntry {
+  return {
+    id,
+    dbPath: '/db/app.sqlite',
+    queryText: 'SELECT 1',
+    executedAt: `2026-01-0${id}T10:00:00.000Z`,
+    durationMs: 5,
+    success: true,
+    ...overrides,
+  };
+}
+
+describe('queryHistoryStore', () => {
+  let store: InstanceType<typeof QueryHistoryStore>;
+
+  beforeEach(() => {
+    store = new QueryHistoryStore(() => ':memory:', {
+      load: () => [],
+      clear: () => {},
+    });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should quote search words as prefixes', () => {
+    expect(toFtsQuery('  user "id"  ')).toBe('"user"* """id"""*');
+    expect(toFtsQuery(' ')).toBeNull();
+  });
+
+  it('should search query text and errors by word prefix', () => {
+    store.add(entry('1', { queryText: 'SELECT * FROM customers' }));
+    store.add(
+      entry('2', {
+        queryText: 'SELECT nme FROM orders',
+        success: false,
+        error: 'no such column: nme',
+      })
+    );
+    store.add(entry('3', { queryText: 'UPDATE orders SET paid = 1' }));
+
+    expect(store.search({ text: 'custom' }).entries.map((e) => e.id)).toEqual([
+      '1',
+    ]);
+    expect(store.search({ text: 'orders' }).entries.map((e) => e.id)).toEqual([
+      '3',
+      '2',
+    ]);
+    expect(store.search({ text: 'column' }).entries[0]).toMatchObject({
+      id: '2',
+      success: false,
+      error: 'no such column: nme',
+    });
+  });
+
+  it('should filter by database, status and date and page the results', () => {
+    store.add(entry('1', { rowCount: 3, tabTitle: 'Report' }));
+    store.add(entry('2', { success: false, error: 'syntax error' }));
+    store.add(entry('3', { dbPath: '/db/other.sqlite' }));
+    store.add(entry('4', { connectionName: 'Production' }));
+
+    expect(store.search({ status: 'error' }).entries.map((e) => e.id)).toEqual([
+      '2',
+    ]);
+    expect(
+      store
+        .search({ dbPath: '/db/app.sqlite', from: '2026-01-02T00:00:00.000Z' })
+        .entries.map((e) => e.id)
+    ).toEqual(['4', '2']);
+
+    const page = store.search({ limit: 2, offset: 2 });
+    expect(page.total).toBe(4);
+    expect(page.entries.map((e) => e.id)).toEqual(['2', '1']);
+    expect(page.entries[1]).toMatchObject({ rowCount: 3, tabTitle: 'Report' });
+
+    expect(store.getConnections()).toEqual([
+      {
+        dbPath: '/db/app.sqlite',
+        connectionName: 'Production',
+        count: 3,
+        lastExecutedAt: '2026-01-04T10:00:00.000Z',
+      },
+      {
+        dbPath: '/db/other.sqlite',
+        count: 1,
+        lastExecutedAt: '2026-01-03T10:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should drop deleted entries from the search index', () => {
+    store.add(entry('1', { queryText: 'SELECT * FROM invoices' }));
+    store.add(entry('2', { queryText: 'SELECT * FROM invoices' }));
+
+    store.delete('/db/app.sqlite', '1');
+    expect(store.search({ text: 'invoices' }).total).toBe(1);
+
+    store.clear('/db/app.sqlite');
+    expect(store.search({ text: 'invoices' }).total).toBe(0);
+  });
+
+  it('should keep the search index current when an entry is replaced', () => {
+    store.add(entry('1', { queryText: 'SELECT * FROM customers' }));
+    store.add(entry('1', { queryText: 'SELECT * FROM invoices' }));
+    expect(store.search({ text: 'invoices' }).total).toBe(1);
+
+    // A new entry in the emptied table reuses the replaced row's rowid,
+    // where a stale index would still hold the replaced text
+    store.delete('/db/app.sqlite', '1');
+    store.add(entry('2', { queryText: 'SELECT * FROM orders' }));
+    expect(store.search({ text: 'customers' }).total).toBe(0);
+  });
+
+  it('should move history saved by earlier versions into the database', () => {
+    const clear = vi.fn();
+    const legacyStore = new QueryHistoryStore(() => ':memory:', {
+      load: () => [
+        {
+          id: 'legacy',
+          dbPath: '/db/app.sqlite',
+          query: 'SELECT legacy',
+          timestamp: '2025-06-01T00:00:00.000Z',
+        },
+      ],
+      clear,
+    });
+
+    expect(legacyStore.search({ text: 'legacy' }).entries).toEqual([
+      {
+        id: 'legacy',
+        dbPath: '/db/app.sqlite',
+        queryText: 'SELECT legacy',
+        executedAt: '2025-06-01T00:00:00.000Z',
+      },
+    ]);
+    expect(clear).toHaveBeenCalledOnce();
+    legacyStore.close();
+  });
+
+  it('should keep the legacy history when importing it fails', () => {
+    const clear = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const legacyStore = new QueryHistoryStore(() => ':memory:', {
+      load: () => [entry('1', { dbPath: undefined as unknown as string })],
+      clear,
+    });
+
+    expect(legacyStore.search().total).toBe(0);
+    expect(clear).not.toHaveBeenCalled();
+    legacyStore.close();
+  });
+});
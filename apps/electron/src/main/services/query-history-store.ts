@@ -0,0 +1,312 @@
+/**
+ * Query history, kept in a SQLite database of its own in the user data
+ * directory. The query text and error message are indexed with FTS5 so the
+ * history browser can search every database's history at once.
+ */
+
+import type {
+  QueryHistoryConnection,
+  QueryHistoryEntry,
+  SearchQueryHistoryRequest,
+} from '@shared/types';
+import path from 'node:path';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { app } from 'electron';
+import { clearLegacyQueryHistory, getLegacyQueryHistory } from './store';
+
+const SCHEMA_VERSION = 2;
+const DEFAULT_PAGE_SIZE = 100;
+/** Oldest entries of a database beyond this are dropped */
+const MAX_ENTRIES_PER_DATABASE = 10000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS query_history (
+    id TEXT PRIMARY KEY,
+    db_path TEXT NOT NULL,
+    query_text TEXT NOT NULL,
+    executed_at TEXT NOT NULL,
+    duration_ms REAL,
+    row_count INTEGER,
+    success INTEGER,
+    error TEXT,
+    connection_name TEXT,
+    tab_id TEXT,
+    tab_title TEXT,
+    description TEXT
+  );
+  CREATE INDEX IF NOT EXISTS query_history_executed_at
+    ON query_history (executed_at);
+  CREATE INDEX IF NOT EXISTS query_history_db_path
+    ON query_history (db_path, executed_at);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS query_history_fts USING fts5(
+    query_text, error, content='query_history', content_rowid='rowid'
+  );
+  CREATE TRIGGER IF NOT EXISTS query_history_ai AFTER INSERT ON query_history
+  BEGIN
+    INSERT INTO query_history_fts (rowid, query_text, error)
+    VALUES (new.rowid, new.query_text, new.error);
+  END;
+  CREATE TRIGGER IF NOT EXISTS query_history_ad AFTER DELETE ON query_history
+  BEGIN
+    INSERT INTO query_history_fts (query_history_fts, rowid, query_text, error)
+    VALUES ('delete', old.rowid, old.query_text, old.error);
+  END;
+`;
+
+interface QueryHistoryRow {
+  id: string;
+  db_path: string;
+  query_text: string;
+  executed_at: string;
+  duration_ms: number | null;
+  row_count: number | null;
+  success: number | null;
+  error: string | null;
+  connection_name: string | null;
+  tab_id: string | null;
+  tab_title: string | null;
+  description: string | null;
+}
+
+/** History saved by earlier versions outside the database */
+export interface LegacyQueryHistory {
+  load: () => QueryHistoryEntry[];
+  /** Drop the legacy history once it has been imported */
+  clear: () => void;
+}
+
+function toEntry(row: QueryHistoryRow): QueryHistoryEntry {
+  return {
+    id: row.id,
+    dbPath: row.db_path,
+    queryText: row.query_text,
+    executedAt: row.executed_at,
+    durationMs: row.duration_ms ?? undefined,
+    rowCount: row.row_count ?? undefined,
+    success: row.success === null ? undefined : row.success === 1,
+    error: row.error ?? undefined,
+    connectionName: row.connection_name ?? undefined,
+    tabId: row.tab_id ?? undefined,
+    tabTitle: row.tab_title ?? undefined,
+    description: row.description ?? undefined,
+  };
+}
+
+/**
+ * Turns search input into an FTS5 query matching entries that contain every
+ * word, each as a prefix. Words are quoted so SQL punctuation such as `*` or
+ * `(` is searched for rather than read as query syntax.
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replaceAll('"', '""')}"*`);
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+export class QueryHistoryStore {
+  private db: Database.Database | null = null;
+
+  constructor(
+    private readonly resolvePath: () => string,
+    private readonly legacyHistory: LegacyQueryHistory
+  ) {}
+
+  private getDb(): Database.Database {
+    if (this.db) return this.db;
+
+    const db = new Database(this.resolvePath());
+    try {
+      db.pragma('journal_mode = WAL');
+      // INSERT OR REPLACE only fires the delete trigger that keeps the FTS
+      // index in step with recursive triggers on
+      db.pragma('recursive_triggers = ON');
+      if (db.pragma('user_version', { simple: true }) !== SCHEMA_VERSION) {
+        db.exec(SCHEMA);
+        // Version 1 replaced entries without removing their old text from
+        // the search index
+        db.exec(
+          `INSERT INTO query_history_fts (query_history_fts) VALUES ('rebuild')`
+        );
+        db.pragma(`user_version = ${SCHEMA_VERSION}`);
+      }
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+    this.db = db;
+
+    // The legacy history is only dropped once it is in the database, so a
+    // failed import is tried again on the next start
+    const legacy = this.legacyHistory.load();
+    if (legacy.length > 0) {
+      try {
+        this.insertMany(legacy);
+        this.legacyHistory.clear();
+      } catch (error) {
+        console.error('Failed to import legacy query history:', error);
+      }
+    }
+    return db;
+  }
+
+  private insertMany(entries: QueryHistoryEntry[]): void {
+    const db = this.getDb();
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO query_history (
+        id, db_path, query_text, executed_at, duration_ms, row_count,
+        success, error, connection_name, tab_id, tab_title, description
+      ) VALUES (
+        @id, @dbPath, @queryText, @executedAt, @durationMs, @rowCount,
+        @success, @error, @connectionName, @tabId, @tabTitle, @description
+      )
+    `);
+    db.transaction(() => {
+      for (const entry of entries) {
+        insert.run({
+          id: entry.id,
+          dbPath: entry.dbPath,
+          // Entries saved by earlier versions may use the legacy properties
+          queryText: entry.queryText ?? entry.query ?? '',
+          executedAt:
+            entry.executedAt ?? entry.timestamp ?? new Date().toISOString(),
+          durationMs: entry.durationMs ?? null,
+          rowCount: entry.rowCount ?? null,
+          success: entry.success === undefined ? null : Number(entry.success),
+          error: entry.error ?? null,
+          connectionName: entry.connectionName ?? null,
+          tabId: entry.tabId ?? null,
+          tabTitle: entry.tabTitle ?? null,
+          description: entry.description ?? null,
+        });
+      }
+    })();
+  }
+
+  /**
+   * Record an executed query, dropping the database's oldest entries past
+   * the limit.
+   */
+  add(entry: QueryHistoryEntry): void {
+    this.insertMany([entry]);
+    this.getDb()
+      .prepare(
+        `DELETE FROM query_history WHERE db_path = ? AND id NOT IN (
+          SELECT id FROM query_history WHERE db_path = ?
+          ORDER BY executed_at DESC LIMIT ?
+        )`
+      )
+      .run(entry.dbPath, entry.dbPath, MAX_ENTRIES_PER_DATABASE);
+  }
+
+  /**
+   * Entries matching the request, most recent first.
+   */
+  search(request: SearchQueryHistoryRequest = {}): {
+    entries: QueryHistoryEntry[];
+    total: number;
+  } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const match = request.text ? toFtsQuery(request.text) : null;
+    if (match) {
+      conditions.push(
+        'rowid IN (SELECT rowid FROM query_history_fts WHERE query_history_fts MATCH ?)'
+      );
+      params.push(match);
+    }
+    if (request.dbPath) {
+      conditions.push('db_path = ?');
+      params.push(request.dbPath);
+    }
+    if (request.status) {
+      conditions.push('success = ?');
+      params.push(request.status === 'success' ? 1 : 0);
+    }
+    if (request.from) {
+      conditions.push('executed_at >= ?');
+      params.push(request.from);
+    }
+    if (request.to) {
+      conditions.push('executed_at <= ?');
+      params.push(request.to);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const db = this.getDb();
+    const { total } = db
+      .prepare(`SELECT count(*) AS total FROM query_history ${where}`)
+      .get(...params) as { total: number };
+    const rows = db
+      .prepare(
+        `SELECT * FROM query_history ${where}
+         ORDER BY executed_at DESC LIMIT ? OFFSET ?`
+      )
+      .all(
+        ...params,
+        request.limit ?? DEFAULT_PAGE_SIZE,
+        request.offset ?? 0
+      ) as QueryHistoryRow[];
+
+    return { entries: rows.map(toEntry), total };
+  }
+
+  /**
+   * Databases with recorded history, most recently used first.
+   */
+  getConnections(): QueryHistoryConnection[] {
+    const rows = this.getDb()
+      .prepare(
+        `SELECT db_path, count(*) AS count, max(executed_at) AS last_executed_at,
+          (SELECT connection_name FROM query_history AS named
+            WHERE named.db_path = query_history.db_path
+              AND connection_name IS NOT NULL
+            ORDER BY executed_at DESC LIMIT 1) AS connection_name
+         FROM query_history
+         GROUP BY db_path
+         ORDER BY last_executed_at DESC`
+      )
+      .all() as {
+      db_path: string;
+      count: number;
+      last_executed_at: string;
+      connection_name: string | null;
+    }[];
+
+    return rows.map((row) => ({
+      dbPath: row.db_path,
+      connectionName: row.connection_name ?? undefined,
+      count: row.count,
+      lastExecutedAt: row.last_executed_at,
+    }));
+  }
+
+  delete(dbPath: string, entryId: string): void {
+    this.getDb()
+      .prepare('DELETE FROM query_history WHERE db_path = ? AND id = ?')
+      .run(dbPath, entryId);
+  }
+
+  clear(dbPath: string): void {
+    this.getDb()
+      .prepare('DELETE FROM query_history WHERE db_path = ?')
+      .run(dbPath);
+  }
+
+  /**
+   * Close the database; it is reopened when next used.
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+}
+
+export const queryHistoryStore = new QueryHistoryStore(
+  () => path.join(app.getPath('userData'), 'query-history.db'),
+  { load: getLegacyQueryHistory, clear: clearLegacyQueryHistory }
+);
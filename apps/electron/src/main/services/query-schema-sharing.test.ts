@@ -524,6 +524,22 @@ describe('query and Schema Sharing Service', () => {
       expect(result.query.sql).toBe('SELECT * FROM users');
     });
 
+    it('should keep parameter definitions', async () => {
+      const parameters: ShareableQuery['parameters'] = [
+        { name: ':status', type: 'text', value: 'active' },
+        { name: ':limit', type: 'number', value: '10' },
+      ];
+      const { data } = await exportQuery({
+        name: 'Users by status',
+        sql: 'SELECT * FROM users WHERE status = :status LIMIT :limit',
+        parameters,
+      });
+
+      const result = await importQuery(JSON.stringify(data));
+
+      expect(result.query.parameters).toEqual(parameters);
+    });
+
     it('should reject invalid JSON', async () => {
       await expect(importQuery('invalid json')).rejects.toThrow(
         'Invalid JSON format'
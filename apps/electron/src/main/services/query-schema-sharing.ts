@@ -136,6 +136,15 @@ const ShareableMetadataSchema = z.object({
   compressed: z.boolean().optional(),
 });
 
+/**
+ * Zod schema for validating query parameter definitions.
+ */
+const QueryParameterDefinitionSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['text', 'number', 'boolean', 'date', 'null']),
+  value: z.string(),
+});
+
 /**
  * Zod schema for validating ShareableQuery.
  */
@@ -151,6 +160,7 @@ const ShareableQuerySchema = z.object({
   createdAt: z.string(),
   modifiedAt: z.string().optional(),
   author: z.string().optional(),
+  parameters: z.array(QueryParameterDefinitionSchema).optional(),
   metadata: ShareableMetadataSchema,
 });
 
@@ -197,6 +207,7 @@ const BundleQuerySchema = z.object({
   notes: z.string().optional(),
   tags: z.array(z.string()).optional(),
   order: z.number().optional(),
+  parameters: z.array(QueryParameterDefinitionSchema).optional(),
 });
 
 /**
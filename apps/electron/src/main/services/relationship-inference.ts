@@ -0,0 +1,94 @@
+/**
+ * Relationship Inference
+ * Verifies relationships inferred from naming conventions by sampling
+ * distinct values of the referencing column and counting how many exist in
+ * the referenced column.
+ */
+
+import type {
+  InferredRelationship,
+  RelationshipVerification,
+  SqlDialect,
+  VerifyRelationshipsResponse,
+} from '@shared/types';
+import {
+  applyRelationshipVerification,
+  DEFAULT_VERIFICATION_SAMPLE_SIZE,
+} from '@shared/relationship-inference';
+import {
+  getDialect,
+  qualifyTableName,
+  quoteIdentifier,
+} from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+
+class RelationshipInferenceService {
+  /**
+   * Check each relationship against the data and update its confidence. A
+   * relationship that cannot be checked keeps its confidence and records
+   * the error.
+   */
+  async verify(
+    connectionId: string,
+    relationships: InferredRelationship[],
+    sampleSize = DEFAULT_VERIFICATION_SAMPLE_SIZE
+  ): Promise<VerifyRelationshipsResponse> {
+    const type = databaseManager.getConnectionType(connectionId);
+    if (!type) {
+      return { success: false, error: 'Connection not found' };
+    }
+    const dialect = getDialect(type);
+    const limit = Math.max(1, Math.floor(sampleSize));
+
+    const verified: InferredRelationship[] = [];
+    for (const relationship of relationships) {
+      const verification = await this.sample(
+        connectionId,
+        relationship,
+        dialect,
+        limit
+      );
+      verified.push(applyRelationshipVerification(relationship, verification));
+    }
+    return { success: true, relationships: verified };
+  }
+
+  private async sample(
+    connectionId: string,
+    relationship: InferredRelationship,
+    dialect: SqlDialect,
+    limit: number
+  ): Promise<RelationshipVerification> {
+    const table = qualifyTableName(
+      relationship.table,
+      relationship.schema,
+      dialect
+    );
+    const referencedTable = qualifyTableName(
+      relationship.referencedTable,
+      relationship.schema,
+      dialect
+    );
+    const column = quoteIdentifier(relationship.column, dialect);
+    const referencedColumn = quoteIdentifier(
+      relationship.referencedColumn,
+      dialect
+    );
+
+    const sql = `SELECT COUNT(*), COALESCE(SUM(CASE WHEN EXISTS (SELECT 1 FROM ${referencedTable} r WHERE r.${referencedColumn} = s.v) THEN 1 ELSE 0 END), 0) FROM (SELECT DISTINCT ${column} AS v FROM ${table} WHERE ${column} IS NOT NULL LIMIT ${limit}) s`;
+    const result = await databaseManager.queryAsync(connectionId, sql);
+    if (!result.success) {
+      return { sampledValues: 0, matchedValues: 0, error: result.error };
+    }
+
+    // PostgreSQL and MySQL return counts as strings
+    const [sampled, matched] = result.rows[0] ?? [];
+    return {
+      sampledValues: Number(sampled ?? 0),
+      matchedValues: Number(matched ?? 0),
+    };
+  }
+}
+
+// Export singleton instance
+export const relationshipInferenceService = new RelationshipInferenceService();
@@ -80,6 +80,7 @@ describe('renderer-store Service', () => {
       expect(state).toEqual({
         nodePositionsMap: {},
         viewportMap: {},
+        savedViewsMap: {},
         showColumns: true,
         showTypes: true,
       });
@@ -142,6 +143,49 @@ describe('renderer-store Service', () => {
     });
   });
 
+  describe('query tabs operations', () => {
+    it('should get no saved profiles by default', async () => {
+      const { getQueryTabsState } = await import('./renderer-store');
+
+      expect(getQueryTabsState()).toEqual({ profiles: {} });
+    });
+
+    it('should set and get saved tabs per profile', async () => {
+      const { getQueryTabsState, setQueryTabsState } =
+        await import('./renderer-store');
+
+      setQueryTabsState({
+        profiles: {
+          '/path/to/db.sqlite': {
+            tabs: [
+              {
+                id: 'tab-1',
+                title: 'Query 1',
+                query: 'SELECT 1',
+                isDirty: true,
+                createdAt: 1,
+              },
+            ],
+            activeTabId: 'tab-1',
+            splitLayout: {
+              direction: null,
+              panes: [{ id: 'pane-main', activeTabId: 'tab-1' }],
+            },
+            activePaneId: 'pane-main',
+            recentlyClosed: [],
+            savedAt: 2,
+          },
+        },
+      });
+
+      const state = getQueryTabsState();
+      expect(Object.keys(state.profiles)).toEqual(['/path/to/db.sqlite']);
+      expect(state.profiles['/path/to/db.sqlite'].tabs[0].query).toBe(
+        'SELECT 1'
+      );
+    });
+  });
+
   describe('generic operations', () => {
     it('should reset state to defaults', async () => {
       const { getRendererState, setRendererState, resetRendererState } =
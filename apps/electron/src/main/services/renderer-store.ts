@@ -10,6 +10,7 @@ import type {
   RendererConnectionState,
   RendererDiagramState,
   RendererPanelWidths,
+  RendererQueryTabsState,
   RendererSettingsState,
   RendererStoreSchema,
 } from '@shared/types/renderer-store';
@@ -35,6 +36,7 @@ const DEFAULT_SETTINGS: RendererSettingsState = {
 const DEFAULT_DIAGRAM: RendererDiagramState = {
   nodePositionsMap: {},
   viewportMap: {},
+  savedViewsMap: {},
   showColumns: true,
   showTypes: true,
 };
@@ -48,6 +50,10 @@ const DEFAULT_CONNECTION_UI: RendererConnectionState = {
   connectionColors: {},
 };
 
+const DEFAULT_QUERY_TABS: RendererQueryTabsState = {
+  profiles: {},
+};
+
 // ============ Store Instance ============
 
 let _rendererStore: Store<RendererStoreSchema> | null = null;
@@ -61,6 +67,7 @@ function getRendererStore(): Store<RendererStoreSchema> {
         diagram: DEFAULT_DIAGRAM,
         panelWidths: DEFAULT_PANEL_WIDTHS,
         connectionUi: DEFAULT_CONNECTION_UI,
+        queryTabs: DEFAULT_QUERY_TABS,
       },
       // Enable schema migration for future updates
       migrations: {
@@ -88,6 +95,7 @@ export function getRendererState<K extends keyof RendererStoreSchema>(
     diagram: DEFAULT_DIAGRAM,
     panelWidths: DEFAULT_PANEL_WIDTHS,
     connectionUi: DEFAULT_CONNECTION_UI,
+    queryTabs: DEFAULT_QUERY_TABS,
   };
   const result = getRendererStore().get(key, defaults[key]);
   return result;
@@ -125,6 +133,7 @@ export function resetRendererState<K extends keyof RendererStoreSchema>(
     diagram: DEFAULT_DIAGRAM,
     panelWidths: DEFAULT_PANEL_WIDTHS,
     connectionUi: DEFAULT_CONNECTION_UI,
+    queryTabs: DEFAULT_QUERY_TABS,
   };
   getRendererStore().set(key, defaults[key]);
 }
@@ -190,6 +199,16 @@ export function updateConnectionUiState(
   updateRendererState('connectionUi', updates);
 }
 
+// ============ Query Tabs Operations ============
+
+export function getQueryTabsState(): RendererQueryTabsState {
+  return getRendererState('queryTabs');
+}
+
+export function setQueryTabsState(state: RendererQueryTabsState): void {
+  setRendererState('queryTabs', state);
+}
+
 // ============ Utility Functions ============
 
 export function clearAllRendererState(): void {
@@ -209,4 +228,5 @@ export const RENDERER_STORE_DEFAULTS = {
   diagram: DEFAULT_DIAGRAM,
   panelWidths: DEFAULT_PANEL_WIDTHS,
   connectionUi: DEFAULT_CONNECTION_UI,
+  queryTabs: DEFAULT_QUERY_TABS,
 } as const;
@@ -1138,4 +1138,80 @@ describe('schemaComparisonService', () => {
       });
     });
   });
+
+  describe('compareSchemas - PostgreSQL Schema Objects', () => {
+    it('should compare routines, sequences, types and extensions by DDL', () => {
+      const routine = {
+        name: 'touch',
+        schema: 'public',
+        kind: 'function' as const,
+        arguments: 'ts timestamptz',
+        returnType: 'trigger',
+        language: 'plpgsql',
+        sql: 'CREATE OR REPLACE FUNCTION public.touch() ...',
+      };
+      const sourceSchemas: SchemaInfo[] = [
+        {
+          ...createSchema('public'),
+          routines: [routine],
+          types: [
+            {
+              name: 'mood',
+              schema: 'public',
+              kind: 'enum',
+              values: ['sad', 'happy'],
+              sql: 'CREATE TYPE "public"."mood" AS ENUM (\'sad\', \'happy\');',
+            },
+          ],
+          extensions: [
+            {
+              name: 'pgcrypto',
+              schema: 'public',
+              version: '1.3',
+              sql: 'CREATE EXTENSION pgcrypto VERSION 1.3',
+            },
+          ],
+        },
+      ];
+      const targetSchemas: SchemaInfo[] = [
+        {
+          ...createSchema('public'),
+          routines: [
+            routine,
+            { ...routine, arguments: '', sql: 'CREATE FUNCTION touch()' },
+          ],
+          extensions: [
+            {
+              name: 'pgcrypto',
+              schema: 'public',
+              version: '1.4',
+              sql: 'CREATE EXTENSION pgcrypto VERSION 1.4',
+            },
+          ],
+        },
+      ];
+
+      const result = schemaComparisonService.compareSchemas(
+        sourceSchemas,
+        targetSchemas,
+        'source-id',
+        'Source',
+        'connection',
+        'target-id',
+        'Target',
+        'connection'
+      );
+
+      expect(
+        result.objectDiffs?.map((d) => [d.kind, d.name, d.diffType])
+      ).toEqual([
+        ['routine', 'touch(ts timestamptz)', 'unchanged'],
+        ['type', 'mood', 'removed'],
+        ['extension', 'pgcrypto', 'modified'],
+        ['routine', 'touch()', 'added'],
+      ]);
+      expect(result.summary.totalObjectChanges).toBe(3);
+      expect(result.tableDiffs).toHaveLength(0);
+    });
+  });
 });
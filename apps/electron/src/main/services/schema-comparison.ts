@@ -7,12 +7,18 @@ import type {
   IndexInfo,
   SchemaComparisonResult,
   SchemaInfo,
+  SchemaObjectDiff,
   TableDiff,
   TableInfo,
   TriggerDiff,
   TriggerInfo,
 } from '@shared/types';
 
+/** Schema object other than a table, keyed for comparison */
+type SchemaObject = Pick<SchemaObjectDiff, 'kind' | 'name' | 'schema'> & {
+  sql: string;
+};
+
 /**
  * Service for comparing database schemas and generating diffs.
  * Supports comparing live connections, snapshots, and connection-to-snapshot.
@@ -38,18 +44,23 @@ class SchemaComparisonService {
     const sourceTablesMap = new Map<string, TableInfo>();
     const targetTablesMap = new Map<string, TableInfo>();
 
+    // MySQL schemas are named after the database, so when each side has a
+    // single schema, tables are matched by name alone
+    const matchByName =
+      sourceSchemas.length === 1 && targetSchemas.length === 1;
+    const tableKey = (table: TableInfo) =>
+      matchByName ? table.name : `${table.schema}.${table.name}`;
+
     // Collect all tables from all schemas
     for (const schema of sourceSchemas) {
       for (const table of [...schema.tables, ...schema.views]) {
-        const key = `${table.schema}.${table.name}`;
-        sourceTablesMap.set(key, table);
+        sourceTablesMap.set(tableKey(table), table);
       }
     }
 
     for (const schema of targetSchemas) {
       for (const table of [...schema.tables, ...schema.views]) {
-        const key = `${table.schema}.${table.name}`;
-        targetTablesMap.set(key, table);
+        targetTablesMap.set(tableKey(table), table);
       }
     }
 
@@ -89,8 +100,17 @@ class SchemaComparisonService {
       }
     }
 
+    const objectDiffs = this.compareSchemaObjects(
+      sourceSchemas,
+      targetSchemas,
+      matchByName
+    );
+
     // Calculate summary statistics
     const summary = this.calculateSummary(tableDiffs);
+    summary.totalObjectChanges = objectDiffs.filter(
+      (d) => d.diffType !== 'unchanged'
+    ).length;
 
     return {
       sourceId,
@@ -101,10 +121,98 @@ class SchemaComparisonService {
       targetType,
       comparedAt: new Date().toISOString(),
       tableDiffs,
+      objectDiffs,
       summary,
     };
   }
 
+  /**
+   * Collect routines, sequences, types, extensions and materialized views of
+   * the given schemas by key, with the DDL they are compared by.
+   */
+  private collectSchemaObjects(
+    schemas: SchemaInfo[],
+    matchByName: boolean
+  ): Map<string, SchemaObject> {
+    const objects = new Map<string, SchemaObject>();
+    const add = (
+      kind: SchemaObjectDiff['kind'],
+      schema: string,
+      name: string,
+      sql: string
+    ) => {
+      const key = matchByName ? `${kind}:${name}` : `${kind}:${schema}.${name}`;
+      objects.set(key, { kind, name, schema, sql });
+    };
+
+    for (const schema of schemas) {
+      for (const view of schema.materializedViews ?? []) {
+        add('materializedView', schema.name, view.name, view.sql);
+      }
+      for (const routine of schema.routines ?? []) {
+        add(
+          'routine',
+          schema.name,
+          `${routine.name}(${routine.arguments})`,
+          routine.sql
+        );
+      }
+      for (const sequence of schema.sequences ?? []) {
+        add('sequence', schema.name, sequence.name, sequence.sql);
+      }
+      for (const type of schema.types ?? []) {
+        add('type', schema.name, type.name, type.sql);
+      }
+      for (const extension of schema.extensions ?? []) {
+        add('extension', schema.name, extension.name, extension.sql);
+      }
+    }
+
+    return objects;
+  }
+
+  /**
+   * Compare schema objects other than tables and views by their DDL.
+   */
+  private compareSchemaObjects(
+    sourceSchemas: SchemaInfo[],
+    targetSchemas: SchemaInfo[],
+    matchByName: boolean
+  ): SchemaObjectDiff[] {
+    const sourceObjects = this.collectSchemaObjects(sourceSchemas, matchByName);
+    const targetObjects = this.collectSchemaObjects(targetSchemas, matchByName);
+    const diffs: SchemaObjectDiff[] = [];
+
+    for (const key of new Set([
+      ...sourceObjects.keys(),
+      ...targetObjects.keys(),
+    ])) {
+      const source = sourceObjects.get(key);
+      const target = targetObjects.get(key);
+      const object = (source ?? target)!;
+
+      let diffType: SchemaObjectDiff['diffType'];
+      if (!source) {
+        diffType = 'added';
+      } else if (!target) {
+        diffType = 'removed';
+      } else {
+        diffType = source.sql === target.sql ? 'unchanged' : 'modified';
+      }
+
+      diffs.push({
+        kind: object.kind,
+        name: object.name,
+        schema: object.schema,
+        diffType,
+        sourceSql: source?.sql ?? null,
+        targetSql: target?.sql ?? null,
+      });
+    }
+
+    return diffs;
+  }
+
   /**
    * Compare two tables and generate a detailed diff.
    */
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { schemaDesignService } from './schema-design';
+
+const { executeAsync, queryAsync, getConnectionType, withSessionAsync } =
+  vi.hoisted(() => ({
+    executeAsync: vi.fn(),
+    queryAsync: vi.fn(),
+    getConnectionType: vi.fn(),
+    withSessionAsync: vi.fn(),
+  }));
+
+vi.mock('./database', () => ({
+  databaseManager: {
+    executeAsync,
+    queryAsync,
+    getConnectionType,
+    withSessionAsync,
+  },
+}));
+
+describe('schemaDesignService.apply', () => {
+  beforeEach(() => {
+    executeAsync.mockReset();
+    getConnectionType.mockReturnValue('postgresql');
+    let sessions = 0;
+    withSessionAsync.mockImplementation(
+      async (_id: string, work: (sessionId: string) => Promise<unknown>) =>
+        work(`session-${++sessions}`)
+    );
+    vi.spyOn(schemaDesignService, 'preview').mockResolvedValue({
+      success: true,
+      sql: '',
+      statements: ['CREATE TABLE a (id int)', 'ALTER TABLE b ADD c int'],
+    });
+  });
+
+  it('should run the DDL in one transaction on one session', async () => {
+    executeAsync.mockResolvedValue({ success: true });
+
+    const result = await schemaDesignService.apply('conn', []);
+
+    expect(result).toEqual({ success: true, statementsExecuted: 2 });
+    expect(executeAsync.mock.calls.map((call) => call[1])).toEqual([
+      'BEGIN',
+      'CREATE TABLE a (id int)',
+      'ALTER TABLE b ADD c int',
+      'COMMIT',
+    ]);
+    expect(
+      new Set(executeAsync.mock.calls.map((call) => call[3]?.sessionId))
+    ).toEqual(new Set(['session-1']));
+  });
+
+  it('should roll back on the same session when a statement fails', async () => {
+    executeAsync.mockImplementation(async (_id: string, sql: string) =>
+      sql.startsWith('ALTER')
+        ? { success: false, error: 'column "c" already exists' }
+        : { success: true }
+    );
+
+    const result = await schemaDesignService.apply('conn', []);
+
+    expect(result).toEqual({
+      success: false,
+      statementsExecuted: 1,
+      failedStatement: 2,
+      error: 'column "c" already exists',
+    });
+    expect(executeAsync.mock.calls.at(-1)).toEqual([
+      'conn',
+      'ROLLBACK',
+      undefined,
+      { sessionId: 'session-1' },
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Schema Design
+ * Turns the changes made in the ER diagram's design mode into DDL and
+ * applies it. The changes are applied to the live schema to get the designed
+ * one, and the two are diffed and migrated like in a schema comparison.
+ */
+
+import type {
+  ApplySchemaDesignResponse,
+  PreviewSchemaDesignResponse,
+  SchemaDesignChange,
+  SchemaInfo,
+  SqlDialect,
+} from '@shared/types';
+import { applySchemaDesignChanges } from '@shared/schema-design';
+import { getDialect } from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+import { migrationGeneratorService } from './migration-generator';
+import { schemaComparisonService } from './schema-comparison';
+
+const BEGIN_STATEMENTS: Record<SqlDialect, string> = {
+  sqlite: 'BEGIN',
+  mysql: 'START TRANSACTION',
+  postgresql: 'BEGIN',
+};
+
+class SchemaDesignService {
+  /**
+   * Generate the DDL that applies design changes to a connection.
+   */
+  async preview(
+    connectionId: string,
+    changes: SchemaDesignChange[]
+  ): Promise<PreviewSchemaDesignResponse> {
+    const type = databaseManager.getConnectionType(connectionId);
+    if (!type) {
+      return { success: false, error: 'Connection not found' };
+    }
+
+    const live = await databaseManager.getSchemaAsync(connectionId);
+    if (!live.success) {
+      return { success: false, error: live.error };
+    }
+
+    const designed = applySchemaDesignChanges(
+      live.schemas.flatMap((schema) => [...schema.tables, ...schema.views]),
+      changes
+    );
+    if (!designed.success) {
+      return { success: false, error: designed.error };
+    }
+
+    // Regroup the designed tables into the live schemas, so only the
+    // designed changes show up in the comparison
+    const designedSchemas: SchemaInfo[] = live.schemas.map((schema) => ({
+      ...schema,
+      tables: designed.tables.filter(
+        (t) => t.schema === schema.name && t.type === 'table'
+      ),
+      views: designed.tables.filter(
+        (t) => t.schema === schema.name && t.type === 'view'
+      ),
+    }));
+
+    const comparison = schemaComparisonService.compareSchemas(
+      live.schemas,
+      designedSchemas,
+      connectionId,
+      'Current schema',
+      'connection',
+      connectionId,
+      'Designed schema',
+      'connection'
+    );
+    const migration = migrationGeneratorService.generateMigrationSQL({
+      comparisonResult: comparison,
+      databaseType: type,
+    });
+    if (!migration.success) {
+      return migration;
+    }
+
+    const warnings = [...(migration.warnings ?? [])];
+    if (getDialect(type) === 'mysql' && migration.statements?.length) {
+      warnings.push(
+        'MySQL commits each schema change on its own, so changes applied before a failing statement are kept.'
+      );
+    }
+    return { ...migration, warnings };
+  }
+
+  /**
+   * Apply design changes to a connection in one transaction. The DDL is
+   * generated again from the live schema rather than taken from the
+   * preview, so it matches the database it runs on.
+   */
+  async apply(
+    connectionId: string,
+    changes: SchemaDesignChange[]
+  ): Promise<ApplySchemaDesignResponse> {
+    const preview = await this.preview(connectionId, changes);
+    if (!preview.success) {
+      return { success: false, error: preview.error };
+    }
+    const statements = preview.statements ?? [];
+    if (statements.length === 0) {
+      return { success: true, statementsExecuted: 0 };
+    }
+
+    const dialect = getDialect(databaseManager.getConnectionType(connectionId));
+    // Every statement must reach the session that ran BEGIN, so that
+    // PostgreSQL runs the DDL in the transaction and a failure rolls back
+    // all of it
+    return databaseManager.withSessionAsync(connectionId, async (sessionId) => {
+      const run = (sql: string) =>
+        databaseManager.executeAsync(connectionId, sql, undefined, {
+          sessionId,
+        });
+
+      // SQLite recreates tables to change columns and constraints, which
+      // would trip foreign keys pointing at them. Enforcement can only be
+      // switched outside a transaction, so it is off for the whole run and
+      // the keys are checked before committing.
+      const foreignKeysOn =
+        dialect === 'sqlite' &&
+        (await this.isForeignKeyEnforcementOn(connectionId, sessionId));
+      if (foreignKeysOn) {
+        await run('PRAGMA foreign_keys = OFF');
+      }
+
+      try {
+        const begin = await run(BEGIN_STATEMENTS[dialect]);
+        if (!begin.success) {
+          return { success: false, error: begin.error };
+        }
+
+        for (let i = 0; i < statements.length; i++) {
+          const result = await run(statements[i]);
+          if (!result.success) {
+            await run('ROLLBACK');
+            return {
+              success: false,
+              statementsExecuted: i,
+              failedStatement: i + 1,
+              error: result.error,
+            };
+          }
+        }
+
+        if (dialect === 'sqlite') {
+          const check = await databaseManager.queryAsync(
+            connectionId,
+            'PRAGMA foreign_key_check',
+            undefined,
+            { sessionId }
+          );
+          if (!check.success || check.rows.length > 0) {
+            await run('ROLLBACK');
+            return {
+              success: false,
+              statementsExecuted: statements.length,
+              error: check.success
+                ? 'Some rows do not match their foreign keys after these changes'
+                : check.error,
+            };
+          }
+        }
+
+        const commit = await run('COMMIT');
+        if (!commit.success) {
+          await run('ROLLBACK');
+          return { success: false, error: commit.error };
+        }
+        return { success: true, statementsExecuted: statements.length };
+      } finally {
+        if (foreignKeysOn) {
+          await run('PRAGMA foreign_keys = ON');
+        }
+      }
+    });
+  }
+
+  private async isForeignKeyEnforcementOn(
+    connectionId: string,
+    sessionId: string
+  ): Promise<boolean> {
+    const result = await databaseManager.queryAsync(
+      connectionId,
+      'PRAGMA foreign_keys',
+      undefined,
+      { sessionId }
+    );
+    return result.success && result.rows[0]?.[0] === 1;
+  }
+}
+
+// Export singleton instance
+export const schemaDesignService = new SchemaDesignService();
@@ -0,0 +1,187 @@
+import type { AuditLogSettings, SqlLogEntry } from '@shared/types';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+}));
+
+vi.mock('./store', () => ({
+  getProfiles: () => [],
+  onProfilesChange: vi.fn(),
+}));
+
+const { SqlAuditLogService, formatSqlLogEntries } =
+  await import('./sql-audit-log');
+
+const SETTINGS: AuditLogSettings = {
+  enabled: true,
+  redactLiterals: true,
+  maxFileSizeMb: 1,
+  retentionDays: 30,
+};
+
+function entry(
+  timestamp: string,
+  overrides: Partial<SqlLogEntry> = {}
+): SqlLogEntry {
+  return {
+    id: timestamp,
+    timestamp,
+    connectionId: 'conn-1',
+    dbPath: '/db/prod.sqlite',
+    operation: 'query',
+    sql: "SELECT * FROM users WHERE email = 'a@b.com'",
+    success: true,
+    level: 'info',
+    ...overrides,
+  };
+}
+
+describe('sqlAuditLogService', () => {
+  let dir: string;
+  let settings: AuditLogSettings;
+
+  const createService = () =>
+    new SqlAuditLogService(
+      () => dir,
+      () => [{ id: 'profile-1', dbPath: '/db/prod.sqlite', settings }]
+    );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sql-audit-'));
+    settings = { ...SETTINGS };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep redacted entries of audited profiles across sessions', () => {
+    const service = createService();
+    service.write(entry('2026-03-01T10:00:00.000Z'));
+    service.write(entry('2026-03-01T11:00:00.000Z', { dbPath: '/db/dev.db' }));
+
+    const logs = createService().read('profile-1', {});
+    expect(logs).toHaveLength(1);
+    expect(logs[0].sql).toBe('SELECT * FROM users WHERE email = ?');
+    expect(fs.readdirSync(path.join(dir, 'profile-1'))).toEqual([
+      'audit-2026-03-01.ndjson',
+    ]);
+  });
+
+  it('should redact error messages and drop their details', () => {
+    const service = createService();
+    service.write(
+      entry('2026-03-01T10:00:00.000Z', {
+        success: false,
+        level: 'error',
+        error:
+          "Duplicate entry 'a@b.com' for key 'email'\nKey (email)=(a@b.com) already exists.",
+      })
+    );
+
+    expect(service.read('profile-1', {})[0].error).toBe(
+      'Duplicate entry ? for key ?'
+    );
+  });
+
+  it('should load profiles once and reload them when they change', () => {
+    const loadProfiles = vi.fn(() => [
+      { id: 'profile-1', dbPath: '/db/prod.sqlite', settings },
+    ]);
+    let onChange = () => {};
+    const service = new SqlAuditLogService(
+      () => dir,
+      loadProfiles,
+      (listener) => {
+        onChange = listener;
+      }
+    );
+
+    service.write(entry('2026-03-01T10:00:00.000Z'));
+    service.write(entry('2026-03-01T11:00:00.000Z', { dbPath: '/db/dev.db' }));
+    expect(loadProfiles).toHaveBeenCalledTimes(1);
+
+    settings.enabled = false;
+    onChange();
+    service.write(entry('2026-03-01T12:00:00.000Z'));
+
+    expect(loadProfiles).toHaveBeenCalledTimes(2);
+    expect(service.read('profile-1', {})).toHaveLength(1);
+  });
+
+  it('should roll over to a new file past the size limit', () => {
+    settings.maxFileSizeMb = 200 / (1024 * 1024);
+    const service = createService();
+    service.write(entry('2026-03-01T10:00:00.000Z'));
+    service.write(entry('2026-03-01T10:01:00.000Z'));
+    service.write(entry('2026-03-02T10:00:00.000Z'));
+
+    expect(fs.readdirSync(path.join(dir, 'profile-1')).sort()).toEqual([
+      'audit-2026-03-01.1.ndjson',
+      'audit-2026-03-01.ndjson',
+      'audit-2026-03-02.ndjson',
+    ]);
+    expect(service.read('profile-1', {}).map((log) => log.timestamp)).toEqual([
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-01T10:01:00.000Z',
+      '2026-03-01T10:00:00.000Z',
+    ]);
+  });
+
+  it('should delete files past the retention period', () => {
+    const service = createService();
+    service.write(entry('2026-01-01T10:00:00.000Z'));
+    service.write(entry('2026-03-01T10:00:00.000Z'));
+
+    expect(fs.readdirSync(path.join(dir, 'profile-1'))).toEqual([
+      'audit-2026-03-01.ndjson',
+    ]);
+  });
+
+  it('should filter by operation, level and time range', () => {
+    const service = createService();
+    service.write(entry('2026-03-01T10:00:00.000Z'));
+    service.write(
+      entry('2026-03-02T10:00:00.000Z', {
+        operation: 'execute',
+        success: false,
+        level: 'error',
+      })
+    );
+    service.write(entry('2026-03-03T10:00:00.000Z', { operation: 'execute' }));
+
+    expect(
+      service
+        .read('profile-1', { operation: 'execute' })
+        .map((log) => log.timestamp)
+    ).toEqual(['2026-03-03T10:00:00.000Z', '2026-03-02T10:00:00.000Z']);
+    expect(service.read('profile-1', { level: 'error' })).toHaveLength(1);
+    expect(
+      service
+        .read('profile-1', {
+          from: '2026-03-01T12:00:00.000Z',
+          to: '2026-03-02T23:59:59.999Z',
+        })
+        .map((log) => log.timestamp)
+    ).toEqual(['2026-03-02T10:00:00.000Z']);
+  });
+
+  it('should format entries as NDJSON and CSV', () => {
+    const logs = [
+      entry('2026-03-01T10:00:00.000Z', {
+        sql: 'SELECT 1, "a,b"',
+        durationMs: 2,
+      }),
+    ];
+
+    expect(JSON.parse(formatSqlLogEntries(logs, 'ndjson'))).toEqual(logs[0]);
+    expect(formatSqlLogEntries(logs, 'csv')).toBe(
+      'timestamp,operation,level,success,durationMs,rowCount,connectionId,dbPath,sql,error\n' +
+        '2026-03-01T10:00:00.000Z,query,info,true,2,,conn-1,/db/prod.sqlite,"SELECT 1, ""a,b""",'
+    );
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Persistent SQL audit log for connection profiles that opt in. Entries of
+ * the session log are appended to NDJSON files under the user data
+ * directory, one folder per profile and one file per day. A day's file rolls
+ * over to a numbered one past the profile's size limit, and files older
+ * than its retention period are deleted.
+ */
+
+import type {
+  AuditLogSettings,
+  SqlLogEntry,
+  SqlLogExportFormat,
+  SqlLogFilter,
+} from '@shared/types';
+import { Buffer } from 'node:buffer';
+import fs from 'node:fs';
+import path from 'node:path';
+import { matchesSqlLogFilter } from '@shared/sql-log';
+import { app } from 'electron';
+import Papa from 'papaparse';
+import { redactSqlLiterals } from '@/lib/sql-redaction';
+import { getProfiles, onProfilesChange } from './store';
+
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.ndjson$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CSV_COLUMNS: (keyof SqlLogEntry)[] = [
+  'timestamp',
+  'operation',
+  'level',
+  'success',
+  'durationMs',
+  'rowCount',
+  'connectionId',
+  'dbPath',
+  'sql',
+  'error',
+];
+
+/** A profile with an enabled audit log */
+export interface AuditLogProfile {
+  id: string;
+  /** Database path of the profile's connections */
+  dbPath: string;
+  settings: AuditLogSettings;
+}
+
+interface AuditLogFile {
+  name: string;
+  day: string;
+  index: number;
+}
+
+function fileName(day: string, index: number): string {
+  return index === 0 ? `audit-${day}.ndjson` : `audit-${day}.${index}.ndjson`;
+}
+
+/**
+ * Format log entries for export, oldest first as given.
+ */
+export function formatSqlLogEntries(
+  entries: SqlLogEntry[],
+  format: SqlLogExportFormat
+): string {
+  if (format === 'ndjson') {
+    return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  }
+  return Papa.unparse(
+    {
+      fields: CSV_COLUMNS,
+      data: entries.map((entry) =>
+        CSV_COLUMNS.map((column) => entry[column] ?? '')
+      ),
+    },
+    { newline: '\n' }
+  );
+}
+
+/**
+ * Entry with the literals of its SQL and error message replaced. Error
+ * details past the first line, such as the key values PostgreSQL reports,
+ * are dropped.
+ */
+function redactEntry(entry: SqlLogEntry): SqlLogEntry {
+  return {
+    ...entry,
+    sql: entry.sql && redactSqlLiterals(entry.sql),
+    error: entry.error && redactSqlLiterals(entry.error.split('\n')[0]),
+  };
+}
+
+export class SqlAuditLogService {
+  /** File written last and its size, per profile, to avoid a stat per entry */
+  private current = new Map<
+    string,
+    { day: string; index: number; size: number }
+  >();
+
+  /** Audited profiles by database path, loaded on first use */
+  private profiles: Map<string, AuditLogProfile> | null = null;
+  private watchingProfiles = false;
+
+  constructor(
+    private readonly resolveDir: () => string,
+    private readonly loadProfiles: () => AuditLogProfile[],
+    private readonly watchProfiles?: (onChange: () => void) => void
+  ) {}
+
+  /**
+   * Audited profile of a database path. Profiles are cached, so entries of
+   * connections without an audit log cost a map lookup; the cache is
+   * dropped when profiles are saved.
+   */
+  private findProfile(dbPath: string): AuditLogProfile | undefined {
+    if (!this.profiles) {
+      if (!this.watchingProfiles && this.watchProfiles) {
+        this.watchProfiles(() => this.refreshProfiles());
+        this.watchingProfiles = true;
+      }
+      this.profiles = new Map();
+      for (const profile of this.loadProfiles()) {
+        if (profile.settings.enabled && !this.profiles.has(profile.dbPath)) {
+          this.profiles.set(profile.dbPath, profile);
+        }
+      }
+    }
+    return this.profiles.get(dbPath);
+  }
+
+  /**
+   * Reload the audited profiles on the next write.
+   */
+  refreshProfiles(): void {
+    this.profiles = null;
+  }
+
+  private profileDir(profileId: string): string {
+    return path.join(this.resolveDir(), profileId);
+  }
+
+  /**
+   * Audit log files of a profile, newest first.
+   */
+  private listFiles(profileId: string): AuditLogFile[] {
+    const dir = this.profileDir(profileId);
+    if (!fs.existsSync(dir)) return [];
+    return fs
+      .readdirSync(dir)
+      .flatMap((name) => {
+        const match = FILE_PATTERN.exec(name);
+        return match
+          ? [{ name, day: match[1], index: Number(match[2] ?? 0) }]
+          : [];
+      })
+      .sort((a, b) =>
+        a.day === b.day ? b.index - a.index : b.day.localeCompare(a.day)
+      );
+  }
+
+  /**
+   * Delete files older than the retention period.
+   */
+  private prune(profile: AuditLogProfile, now: Date): void {
+    const cutoff = new Date(
+      now.getTime() - profile.settings.retentionDays * DAY_MS
+    )
+      .toISOString()
+      .slice(0, 10);
+    for (const file of this.listFiles(profile.id)) {
+      if (file.day < cutoff) {
+        fs.rmSync(path.join(this.profileDir(profile.id), file.name), {
+          force: true,
+        });
+      }
+    }
+  }
+
+  /**
+   * Append an entry to the audit log of its connection's profile, if the
+   * profile keeps one. Failures are reported but never break the logged
+   * operation.
+   */
+  write(entry: SqlLogEntry): void {
+    if (!entry.dbPath) return;
+    try {
+      const profile = this.findProfile(entry.dbPath);
+      if (!profile) return;
+
+      const record: SqlLogEntry = profile.settings.redactLiterals
+        ? redactEntry(entry)
+        : entry;
+      const line = `${JSON.stringify(record)}\n`;
+      const bytes = Buffer.byteLength(line);
+      const day = entry.timestamp.slice(0, 10);
+      const maxBytes = profile.settings.maxFileSizeMb * 1024 * 1024;
+      const dir = this.profileDir(profile.id);
+
+      let current = this.current.get(profile.id);
+      if (!current || current.day !== day) {
+        fs.mkdirSync(dir, { recursive: true });
+        this.prune(profile, new Date(entry.timestamp));
+        const latest = this.listFiles(profile.id).find((f) => f.day === day);
+        const index = latest?.index ?? 0;
+        const filePath = path.join(dir, fileName(day, index));
+        current = {
+          day,
+          index,
+          size: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0,
+        };
+      }
+      if (current.size > 0 && current.size + bytes > maxBytes) {
+        current = { day, index: current.index + 1, size: 0 };
+      }
+
+      fs.appendFileSync(path.join(dir, fileName(day, current.index)), line);
+      this.current.set(profile.id, { ...current, size: current.size + bytes });
+    } catch (error) {
+      console.error('Failed to write SQL audit log:', error);
+    }
+  }
+
+  /**
+   * Entries of a profile's audit log that pass the filter, most recent
+   * first.
+   */
+  read(profileId: string, filter: SqlLogFilter, limit?: number): SqlLogEntry[] {
+    const entries: SqlLogEntry[] = [];
+    const fromDay = filter.from?.slice(0, 10);
+    const toDay = filter.to?.slice(0, 10);
+
+    for (const file of this.listFiles(profileId)) {
+      if (toDay && file.day > toDay) continue;
+      if (fromDay && file.day < fromDay) break;
+
+      const lines = fs
+        .readFileSync(path.join(this.profileDir(profileId), file.name), 'utf-8')
+        .split('\n');
+      for (let i = lines.length - 1; i >= 0; i--) {
+        if (!lines[i]) continue;
+        let entry: SqlLogEntry;
+        try {
+          entry = JSON.parse(lines[i]);
+        } catch {
+          // A line cut short by a crash
+          continue;
+        }
+        if (!matchesSqlLogFilter(entry, filter)) continue;
+        entries.push(entry);
+        if (limit && entries.length >= limit) return entries;
+      }
+    }
+    return entries;
+  }
+}
+
+export const sqlAuditLog = new SqlAuditLogService(
+  () => path.join(app.getPath('userData'), 'audit-logs'),
+  () =>
+    getProfiles().flatMap((profile) =>
+      profile.auditLog
+        ? [{ id: profile.id, dbPath: profile.path, settings: profile.auditLog }]
+        : []
+    ),
+  onProfilesChange
+);
@@ -1,6 +1,7 @@
 import type { SqlLogEntry, SqlLogLevel } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
 import { BrowserWindow } from 'electron';
+import { sqlAuditLog } from './sql-audit-log';
 
 const MAX_LOG_ENTRIES = 1000;
 
@@ -33,20 +34,19 @@ class SqlLoggerService {
    * Log a SQL operation
    */
   log(entry: Omit<SqlLogEntry, 'id' | 'timestamp'>): SqlLogEntry {
-    if (!this.enabled) {
-      return {
-        ...entry,
-        id: '',
-        timestamp: new Date().toISOString(),
-      };
-    }
-
     const fullEntry: SqlLogEntry = {
       ...entry,
       id: generateLogId(),
       timestamp: new Date().toISOString(),
     };
 
+    // Profiles with an audit log keep it even while session logging is off
+    sqlAuditLog.write(fullEntry);
+
+    if (!this.enabled) {
+      return { ...fullEntry, id: '' };
+    }
+
     // Add to in-memory log
     this.logs.unshift(fullEntry);
 
@@ -221,5 +221,15 @@ class SqlLoggerService {
   }
 }
 
+/**
+ * Logging methods used by the database adapters. Adapters running on worker
+ * threads receive a writer that forwards entries to the main process.
+ */
+export type SqlLogWriter = {
+  [M in 'logQuery' | 'logExecute' | 'logOpen' | 'logClose']: (
+    params: Parameters<SqlLoggerService[M]>[0]
+  ) => void;
+};
+
 // Singleton instance
 export const sqlLogger = new SqlLoggerService();
@@ -1,5 +1,6 @@
 import type {
   AISettings,
+  AuditLogSettings,
   DatabaseConnectionConfig,
   DatabaseType,
   ProFeatureType,
@@ -42,6 +43,10 @@ export interface StoredConnectionProfile extends StoredRecentConnection {
   tags?: string[];
   notes?: string;
   isSaved: boolean;
+  /** Query Editor statement timeout in seconds */
+  statementTimeout?: number;
+  /** Persistent audit log of the SQL run on this connection */
+  auditLog?: AuditLogSettings;
 }
 
 export interface StoredProfileFolder {
@@ -73,6 +78,7 @@ interface CollectionStore {
 interface StoreSchema {
   preferences: StoredPreferences;
   recentConnections: StoredRecentConnection[];
+  /** Moved to the query history database; emptied on first start */
   queryHistory: QueryHistoryStore;
   aiSettings: AISettings | null;
   proStatus: ProStatus | null;
@@ -255,52 +261,24 @@ export function removeRecentConnection(filePath: string): {
 
 // ============ Query History ============
 
-export function getQueryHistory(dbPath: string): QueryHistoryEntry[] {
+/**
+ * History kept in this document by earlier versions, to be moved into the
+ * query history database. Entries are keyed by database path, which older
+ * entries do not repeat.
+ */
+export function getLegacyQueryHistory(): QueryHistoryEntry[] {
   const allHistory = getStore().get('queryHistory', {});
-  return allHistory[dbPath] || [];
-}
-
-export function saveQueryHistoryEntry(entry: QueryHistoryEntry): void {
-  const allHistory = getStore().get('queryHistory', {});
-  const dbHistory = allHistory[entry.dbPath] || [];
-
-  // Add new entry at the beginning (most recent first)
-  dbHistory.unshift(entry);
-
-  allHistory[entry.dbPath] = dbHistory;
-  getStore().set('queryHistory', allHistory);
-}
-
-export function deleteQueryHistoryEntry(
-  dbPath: string,
-  entryId: string
-): { success: boolean; error?: string } {
-  const allHistory = getStore().get('queryHistory', {});
-  const dbHistory = allHistory[dbPath] || [];
-
-  const filtered = dbHistory.filter((entry) => entry.id !== entryId);
-
-  if (filtered.length === dbHistory.length) {
-    // Entry not found, but not an error
-    return { success: true };
-  }
-
-  allHistory[dbPath] = filtered;
-  getStore().set('queryHistory', allHistory);
-  return { success: true };
+  return Object.entries(allHistory).flatMap(([dbPath, entries]) =>
+    entries.map((entry) => ({ ...entry, dbPath: entry.dbPath || dbPath }))
+  );
 }
 
-export function clearQueryHistory(dbPath: string): {
-  success: boolean;
-  error?: string;
-} {
-  const allHistory = getStore().get('queryHistory', {});
-
-  // Remove history for this database
-  delete allHistory[dbPath];
-
-  getStore().set('queryHistory', allHistory);
-  return { success: true };
+/**
+ * Removes the history kept in this document by earlier versions, once it
+ * has been moved into the query history database.
+ */
+export function clearLegacyQueryHistory(): void {
+  getStore().set('queryHistory', {});
 }
 
 // ============ AI Settings ============
@@ -355,6 +333,14 @@ export function getProfiles(): StoredConnectionProfile[] {
   return getStore().get('connectionProfiles', []);
 }
 
+/**
+ * Call `listener` whenever the saved profiles change. Returns a function that
+ * stops listening.
+ */
+export function onProfilesChange(listener: () => void): () => void {
+  return getStore().onDidChange('connectionProfiles', () => listener());
+}
+
 export function saveProfile(
   profile: Omit<StoredConnectionProfile, 'id' | 'createdAt'> & {
     id?: string;
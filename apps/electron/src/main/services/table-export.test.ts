@@ -0,0 +1,140 @@
+import type { ExportRequest } from '@shared/types';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { tableExportService } from './table-export';
+
+const { tableReaderService } = vi.hoisted(() => ({
+  tableReaderService: {
+    getTableStructure: vi.fn(),
+    readBatches: vi.fn(),
+  },
+}));
+
+vi.mock('./table-reader', () => ({ tableReaderService }));
+vi.mock('./query-cursor', () => ({ queryCursorService: {} }));
+
+const COLUMNS = ['id', 'name'].map((name) => ({
+  name,
+  type: '',
+  nullable: true,
+  defaultValue: null,
+  isPrimaryKey: name === 'id',
+}));
+
+/**
+ * Make the table reader yield the given batches
+ */
+function feed(...batches: Record<string, unknown>[][]) {
+  tableReaderService.readBatches.mockImplementation(async function* () {
+    yield* batches;
+  });
+}
+
+describe('tableExportService', () => {
+  let dir: string;
+
+  const exportTable = async (overrides: Partial<ExportRequest>) => {
+    const filePath = path.join(dir, 'out');
+    const result = await tableExportService.exportToFile({
+      connectionId: 'conn',
+      table: 'items',
+      format: 'csv',
+      filePath,
+      ...overrides,
+    });
+    return { ...result, content: fs.readFileSync(filePath, 'utf8') };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'table-export-'));
+    tableReaderService.getTableStructure.mockResolvedValue({
+      columns: COLUMNS,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write one JSON array across batches', async () => {
+    feed(
+      [{ id: 1, name: 'a' }],
+      [{ id: 2, name: 'b' }],
+      [{ id: 3, name: 'c' }]
+    );
+
+    const { rowsExported, content } = await exportTable({ format: 'json' });
+
+    expect(rowsExported).toBe(3);
+    expect(JSON.parse(content)).toEqual([
+      { id: 1, name: 'a' },
+      { id: 2, name: 'b' },
+      { id: 3, name: 'c' },
+    ]);
+  });
+
+  it('should write one pretty-printed JSON array across batches', async () => {
+    feed([{ id: 1, name: 'a' }], [{ id: 2, name: 'b' }]);
+
+    const { content } = await exportTable({
+      format: 'json',
+      prettyPrint: true,
+    });
+
+    expect(content).toBe(
+      '[\n  {\n    "id": 1,\n    "name": "a"\n  },\n  {\n    "id": 2,\n    "name": "b"\n  }\n]'
+    );
+  });
+
+  it('should write the CSV header once', async () => {
+    feed(
+      [
+        { id: 1, name: 'a' },
+        { id: 2, name: 'b' },
+      ],
+      [{ id: 3, name: 'c,d' }]
+    );
+
+    const { content } = await exportTable({ format: 'csv' });
+
+    expect(content.split(/\r?\n/)).toEqual([
+      'id,name',
+      '1,a',
+      '2,b',
+      '3,"c,d"',
+    ]);
+  });
+
+  it('should write valid output for an empty table', async () => {
+    feed();
+
+    const json = await exportTable({ format: 'json' });
+    expect(json.rowsExported).toBe(0);
+    expect(JSON.parse(json.content)).toEqual([]);
+
+    const csv = await exportTable({ format: 'csv' });
+    expect(csv.content.trim()).toBe('id,name');
+
+    const headless = await exportTable({
+      format: 'csv',
+      includeHeaders: false,
+    });
+    expect(headless.content).toBe('');
+  });
+
+  it('should refuse XLSX exports beyond the worksheet row limit', async () => {
+    const row = { id: 1, name: 'a' };
+    feed(
+      [row],
+      Array.from({ length: 1_048_575 }, () => row)
+    );
+
+    await expect(exportTable({ format: 'xlsx' })).rejects.toThrow(
+      'Excel worksheets are limited to 1,048,575 rows'
+    );
+    expect(fs.existsSync(path.join(dir, 'out'))).toBe(false);
+  });
+});
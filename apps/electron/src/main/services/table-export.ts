@@ -0,0 +1,245 @@
+/**
+ * Table Export
+ * Writes table data to CSV, JSON, SQL or Excel files. Whole-table and query
+ * result exports are streamed from the connection in batches and appended to
+ * the output file, so results with millions of rows never have to be held in
+ * memory.
+ */
+
+import type { ColumnInfo, ExportRequest } from '@shared/types';
+import type { WriteStream } from 'node:fs';
+import { createWriteStream } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import {
+  generateCSV,
+  generateExcel,
+  generateJSON,
+  generateSQL,
+} from '@/lib/export-generators';
+import { queryCursorService } from './query-cursor';
+import { tableReaderService } from './table-reader';
+
+/** Maximum number of data rows an Excel worksheet can hold (plus header) */
+const XLSX_MAX_ROWS = 1_048_575;
+
+/**
+ * Write a chunk to a stream, waiting for the buffer to drain when needed.
+ */
+function writeChunk(stream: WriteStream, chunk: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error) => reject(error);
+    stream.once('error', onError);
+    const flushed = stream.write(chunk, () => {
+      stream.off('error', onError);
+    });
+    if (flushed) {
+      resolve();
+    } else {
+      stream.once('drain', () => resolve());
+    }
+  });
+}
+
+/**
+ * Close a stream and wait until all data has been flushed to disk.
+ */
+function closeStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(() => resolve());
+  });
+}
+
+/**
+ * Service for exporting table data to files.
+ */
+class TableExportService {
+  /**
+   * Export the rows described by the request to request.filePath.
+   * Uses request.rows when provided, then the result of request.query,
+   * otherwise reads the whole table.
+   */
+  async exportToFile(
+    request: ExportRequest
+  ): Promise<{ rowsExported: number }> {
+    const batches = request.rows
+      ? this.fromRows(request.rows)
+      : request.query
+        ? queryCursorService.readBatches(request.connectionId, request.query)
+        : tableReaderService.readBatches(request.connectionId, request.table, {
+            schema: request.schema,
+          });
+
+    let columns = await this.resolveColumns(request);
+
+    if (request.format === 'xlsx') {
+      const rows: Record<string, unknown>[] = [];
+      for await (const batch of batches) {
+        if (rows.length + batch.length > XLSX_MAX_ROWS) {
+          throw new Error(
+            `Excel worksheets are limited to ${XLSX_MAX_ROWS.toLocaleString()} rows. Export to CSV instead.`
+          );
+        }
+        columns = columns.length > 0 ? columns : this.columnsFromRow(batch[0]);
+        rows.push(...batch);
+      }
+
+      const output = generateExcel(rows, columns, {
+        columns: request.columns,
+        sheetName: request.sheetName || request.table,
+      });
+      await writeFile(request.filePath, output);
+      return { rowsExported: rows.length };
+    }
+
+    const stream = createWriteStream(request.filePath, { encoding: 'utf8' });
+    let rowsExported = 0;
+
+    try {
+      for await (const batch of batches) {
+        if (batch.length === 0) continue;
+        columns = columns.length > 0 ? columns : this.columnsFromRow(batch[0]);
+
+        const chunk = this.encodeBatch(request, batch, columns, rowsExported);
+        await writeChunk(stream, chunk);
+        rowsExported += batch.length;
+      }
+
+      await writeChunk(
+        stream,
+        this.encodeTrailer(request, columns, rowsExported)
+      );
+    } finally {
+      await closeStream(stream);
+    }
+
+    return { rowsExported };
+  }
+
+  /**
+   * Wrap pre-fetched rows as a single batch.
+   */
+  private async *fromRows(
+    rows: Record<string, unknown>[]
+  ): AsyncGenerator<Record<string, unknown>[]> {
+    yield rows;
+  }
+
+  /**
+   * Resolve column definitions from the table structure, or from the
+   * requested columns of a query result.
+   * Returns an empty list when the structure is unavailable (e.g. views),
+   * in which case columns are derived from the first batch of rows.
+   */
+  private async resolveColumns(request: ExportRequest): Promise<ColumnInfo[]> {
+    if (request.rows) {
+      return request.rows.length > 0
+        ? this.columnsFromRow(request.rows[0])
+        : [];
+    }
+
+    if (request.query) {
+      return this.columnsFromNames(request.columns ?? []);
+    }
+
+    const structure = await tableReaderService.getTableStructure(
+      request.connectionId,
+      request.table,
+      request.schema
+    );
+    return structure?.columns ?? [];
+  }
+
+  private columnsFromRow(row: Record<string, unknown>): ColumnInfo[] {
+    return this.columnsFromNames(Object.keys(row));
+  }
+
+  private columnsFromNames(names: string[]): ColumnInfo[] {
+    return names.map((name) => ({
+      name,
+      type: '',
+      nullable: true,
+      defaultValue: null,
+      isPrimaryKey: false,
+    }));
+  }
+
+  /**
+   * Encode one batch of rows. `rowsBefore` is the number of rows already
+   * written, used to emit headers and separators only once.
+   */
+  private encodeBatch(
+    request: ExportRequest,
+    rows: Record<string, unknown>[],
+    columns: ColumnInfo[],
+    rowsBefore: number
+  ): string {
+    const isFirst = rowsBefore === 0;
+
+    switch (request.format) {
+      case 'csv': {
+        const csv = generateCSV(rows, columns, {
+          columns: request.columns,
+          delimiter: request.delimiter,
+          includeHeaders: isFirst && request.includeHeaders !== false,
+        });
+        return isFirst ? csv : `\n${csv}`;
+      }
+      case 'json': {
+        // Strip the surrounding brackets so batches can be concatenated
+        // into a single JSON array
+        const json = generateJSON(rows, columns, {
+          columns: request.columns,
+          prettyPrint: request.prettyPrint,
+        });
+        const body = request.prettyPrint
+          ? json.slice(2, -2)
+          : json.slice(1, -1);
+        const separator = request.prettyPrint ? ',\n' : ',';
+        const opening = request.prettyPrint ? '[\n' : '[';
+        return isFirst ? `${opening}${body}` : `${separator}${body}`;
+      }
+      case 'sql': {
+        const sql = generateSQL(rows, columns, {
+          columns: request.columns,
+          tableName: request.table,
+        });
+        return isFirst ? sql : `\n${sql}`;
+      }
+      default:
+        throw new Error(`Unsupported export format: ${request.format}`);
+    }
+  }
+
+  /**
+   * Encode the content that closes the file once all batches are written.
+   */
+  private encodeTrailer(
+    request: ExportRequest,
+    columns: ColumnInfo[],
+    rowsExported: number
+  ): string {
+    if (request.format === 'json') {
+      if (rowsExported === 0) return '[]';
+      return request.prettyPrint ? '\n]' : ']';
+    }
+
+    // An empty CSV export still gets its header row
+    if (
+      request.format === 'csv' &&
+      rowsExported === 0 &&
+      request.includeHeaders !== false
+    ) {
+      return generateCSV([], columns, {
+        columns: request.columns,
+        delimiter: request.delimiter,
+      });
+    }
+
+    return '';
+  }
+}
+
+// Export singleton instance
+export const tableExportService = new TableExportService();
+export default tableExportService;
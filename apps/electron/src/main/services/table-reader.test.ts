@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { tableReaderService } from './table-reader';
+
+const { databaseManager } = vi.hoisted(() => ({
+  databaseManager: {
+    getConnectionType: vi.fn(() => 'postgresql'),
+    getTableStructureAsync: vi.fn(),
+    queryAsync: vi.fn(),
+  },
+}));
+
+vi.mock('./database', () => ({ databaseManager }));
+
+/**
+ * Serve `total` rows of (a, b) ordered by a, b, answering each page query
+ * from its bound key or OFFSET.
+ */
+function serveRows(total: number) {
+  const rows = Array.from({ length: total }, (_, i) => [i + 1, i % 2]);
+  databaseManager.queryAsync.mockImplementation(
+    async (_id: string, sql: string, params: unknown[] = []) => {
+      const limit = Number(/LIMIT (\d+)/.exec(sql)![1]);
+      const offset = Number(/OFFSET (\d+)/.exec(sql)?.[1] ?? 0);
+      const after = (params[0] as number | undefined) ?? 0;
+      return {
+        success: true,
+        columns: ['a', 'b'],
+        rows: rows.filter(([a]) => a > after).slice(offset, offset + limit),
+      };
+    }
+  );
+}
+
+async function readAll(primaryKey: string[], total: number) {
+  databaseManager.getTableStructureAsync.mockResolvedValue({
+    success: true,
+    structure: { primaryKey },
+  });
+  serveRows(total);
+
+  const batches: Record<string, unknown>[][] = [];
+  for await (const batch of tableReaderService.readBatches('conn', 'items', {
+    schema: 'public',
+    batchSize: 2,
+  })) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+describe('tableReaderService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should page a single-column key with keyset pagination', async () => {
+    const batches = await readAll(['a'], 5);
+
+    expect(batches.map((b) => b.map((row) => row.a))).toEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+    expect(databaseManager.queryAsync.mock.calls).toEqual([
+      ['conn', 'SELECT * FROM "public"."items" ORDER BY "a" LIMIT 2', []],
+      [
+        'conn',
+        'SELECT * FROM "public"."items" WHERE "a" > $1 ORDER BY "a" LIMIT 2',
+        [2],
+      ],
+      [
+        'conn',
+        'SELECT * FROM "public"."items" WHERE "a" > $1 ORDER BY "a" LIMIT 2',
+        [4],
+      ],
+    ]);
+  });
+
+  it('should fall back to OFFSET for composite keys', async () => {
+    const batches = await readAll(['a', 'b'], 4);
+
+    expect(batches.flat().map((row) => row.a)).toEqual([1, 2, 3, 4]);
+    expect(databaseManager.queryAsync.mock.calls.map(([, sql]) => sql)).toEqual(
+      [
+        'SELECT * FROM "public"."items" ORDER BY "a", "b" LIMIT 2 OFFSET 0',
+        'SELECT * FROM "public"."items" ORDER BY "a", "b" LIMIT 2 OFFSET 2',
+        'SELECT * FROM "public"."items" ORDER BY "a", "b" LIMIT 2 OFFSET 4',
+      ]
+    );
+  });
+});
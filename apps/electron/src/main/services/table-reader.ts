@@ -0,0 +1,161 @@
+/**
+ * Table Reader
+ * Reads table rows from any open connection in fixed-size batches so large
+ * tables can be processed without materializing them in memory.
+ *
+ * Tables with a single-column primary key are paged with keyset pagination
+ * (WHERE pk > last ORDER BY pk), everything else falls back to LIMIT/OFFSET.
+ */
+
+import type { DatabaseType, SqlDialect, TableInfo } from '@shared/types';
+import {
+  bindPlaceholder,
+  getDialect,
+  qualifyTableName,
+  quoteIdentifier,
+} from '@/lib/sql-dialect';
+import { databaseManager } from './database';
+
+export interface ReadTableOptions {
+  /** Database schema (defaults to the connection's default schema) */
+  schema?: string;
+  /** Rows per batch (defaults to DEFAULT_BATCH_SIZE) */
+  batchSize?: number;
+  /** Columns to order by (defaults to the table's primary key) */
+  orderBy?: string[];
+}
+
+export const DEFAULT_BATCH_SIZE = 5000;
+
+/**
+ * Service for reading table data through the database manager.
+ */
+class TableReaderService {
+  /**
+   * Get the database type of an open connection, or null if it is unknown.
+   */
+  getConnectionType(connectionId: string): DatabaseType | null {
+    return databaseManager.getConnectionType(connectionId);
+  }
+
+  /**
+   * Get the SQL dialect of an open connection.
+   */
+  getConnectionDialect(connectionId: string): SqlDialect {
+    return getDialect(this.getConnectionType(connectionId));
+  }
+
+  /**
+   * Get the structure of a table, or null when it cannot be resolved
+   * (for example for views on SQLite).
+   */
+  async getTableStructure(
+    connectionId: string,
+    table: string,
+    schema?: string
+  ): Promise<TableInfo | null> {
+    const result = await databaseManager.getTableStructureAsync(
+      connectionId,
+      table,
+      schema
+    );
+    return result.success ? result.structure : null;
+  }
+
+  /**
+   * Run a SELECT statement and return the rows as records.
+   */
+  async query(
+    connectionId: string,
+    sql: string,
+    params: unknown[] = []
+  ): Promise<Record<string, unknown>[]> {
+    const result = await databaseManager.queryAsync(connectionId, sql, params);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const columns = result.columns as string[];
+    return (result.rows as unknown[][]).map((values) => {
+      const row: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        row[column] = values[index];
+      });
+      return row;
+    });
+  }
+
+  /**
+   * Read a table in batches. Yields each non-empty batch of rows in order.
+   */
+  async *readBatches(
+    connectionId: string,
+    table: string,
+    options: ReadTableOptions = {}
+  ): AsyncGenerator<Record<string, unknown>[]> {
+    const dialect = this.getConnectionDialect(connectionId);
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    let orderBy = options.orderBy;
+    if (!orderBy) {
+      const structure = await this.getTableStructure(
+        connectionId,
+        table,
+        options.schema
+      );
+      orderBy = structure?.primaryKey ?? [];
+    }
+
+    const tableName = qualifyTableName(table, options.schema, dialect);
+    const orderClause =
+      orderBy.length > 0
+        ? ` ORDER BY ${orderBy.map((c) => quoteIdentifier(c, dialect)).join(', ')}`
+        : '';
+
+    // Keyset pagination needs a single, totally ordered key column
+    const keyColumn = orderBy.length === 1 ? orderBy[0] : null;
+    let lastKey: unknown;
+    let offset = 0;
+
+    while (true) {
+      let rows: Record<string, unknown>[];
+
+      if (keyColumn) {
+        const where =
+          lastKey === undefined
+            ? ''
+            : ` WHERE ${quoteIdentifier(keyColumn, dialect)} > ${bindPlaceholder(1, dialect)}`;
+        rows = await this.query(
+          connectionId,
+          `SELECT * FROM ${tableName}${where}${orderClause} LIMIT ${batchSize}`,
+          lastKey === undefined ? [] : [lastKey]
+        );
+      } else {
+        rows = await this.query(
+          connectionId,
+          `SELECT * FROM ${tableName}${orderClause} LIMIT ${batchSize} OFFSET ${offset}`
+        );
+      }
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      yield rows;
+
+      if (rows.length < batchSize) {
+        return;
+      }
+
+      offset += rows.length;
+      if (keyColumn) {
+        lastKey = rows[rows.length - 1][keyColumn];
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const tableReaderService = new TableReaderService();
+export default tableReaderService;
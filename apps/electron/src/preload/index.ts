@@ -15,12 +15,21 @@ import type {
   AnalyzeQueryPlanResponse,
   ApplyChangesRequest,
   ApplyChangesResponse,
+  ApplySchemaDesignRequest,
+  ApplySchemaDesignResponse,
+  ApplySyncSQLRequest,
+  ApplySyncSQLResponse,
+  CancelQueryRequest,
+  CancelQueryResponse,
+  CancelTableDiffRequest,
   CheckUnsavedChangesRequest,
   CheckUnsavedChangesResponse,
   ClearQueryHistoryRequest,
   ClearQueryHistoryResponse,
   ClearSqlLogsRequest,
   ClearSqlLogsResponse,
+  CloseCursorRequest,
+  CloseCursorResponse,
   CloseDatabaseRequest,
   CloseDatabaseResponse,
   CloseWindowRequest,
@@ -36,6 +45,7 @@ import type {
   CreateFolderRequest,
   CreateFolderResponse,
   CreateWindowResponse,
+  DataDiffProgressEvent,
   DeleteCollectionRequest,
   DeleteCollectionResponse,
   DeleteFolderRequest,
@@ -48,6 +58,8 @@ import type {
   DeleteSavedQueryResponse,
   DeleteSchemaSnapshotRequest,
   DeleteSchemaSnapshotResponse,
+  EndTransactionRequest,
+  EndTransactionResponse,
   ExecuteQueryRequest,
   ExecuteQueryResponse,
   ExportBundleRequest,
@@ -64,6 +76,10 @@ import type {
   ExportResponse,
   ExportSchemaRequest,
   ExportSchemaResponse,
+  ExportSqlLogsRequest,
+  ExportSqlLogsResponse,
+  FetchCursorRequest,
+  FetchCursorResponse,
   FileChangeEvent,
   FocusWindowRequest,
   FocusWindowResponse,
@@ -73,6 +89,8 @@ import type {
   GenerateSyncSQLResponse,
   GetAISettingsResponse,
   GetAllWindowsResponse,
+  GetAuditLogsRequest,
+  GetAuditLogsResponse,
   GetClaudeCodePathsResponse,
   GetCollectionsResponse,
   GetCurrentWindowResponse,
@@ -80,9 +98,12 @@ import type {
   GetFoldersResponse,
   GetPasswordRequest,
   GetPasswordResponse,
+  GetPoolStatusRequest,
+  GetPoolStatusResponse,
   GetPreferencesResponse,
   GetProfilesRequest,
   GetProfilesResponse,
+  GetQueryHistoryConnectionsResponse,
   GetQueryHistoryRequest,
   GetQueryHistoryResponse,
   GetRecentConnectionsResponse,
@@ -103,8 +124,13 @@ import type {
   ImportBundleResponse,
   ImportCollectionsRequest,
   ImportCollectionsResponse,
+  ImportDataRequest,
+  ImportDataResponse,
+  ImportPreviewRequest,
+  ImportPreviewResponse,
   ImportProfilesRequest,
   ImportProfilesResponse,
+  ImportProgressEvent,
   ImportQueryRequest,
   ImportQueryResponse,
   ImportSchemaRequest,
@@ -115,10 +141,14 @@ import type {
   OpenDatabaseResponse,
   OpenFileDialogRequest,
   OpenFileDialogResponse,
+  PreviewSchemaDesignRequest,
+  PreviewSchemaDesignResponse,
   ProActivateRequest,
   ProActivateResponse,
   ProDeactivateResponse,
   ProGetStatusResponse,
+  ReleaseSessionRequest,
+  ReleaseSessionResponse,
   RemoveConnectionRequest,
   RemoveConnectionResponse,
   RemovePasswordRequest,
@@ -141,10 +171,17 @@ import type {
   SaveSavedQueryResponse,
   SaveSchemaSnapshotRequest,
   SaveSchemaSnapshotResponse,
+  SearchQueryHistoryRequest,
+  SearchQueryHistoryResponse,
+  SessionResetEvent,
   SetPreferencesRequest,
   SetPreferencesResponse,
+  SetSupabaseRoleRequest,
+  SetSupabaseRoleResponse,
   ShortcutsUpdatePayload,
   SqlLogEntry,
+  StreamTableDiffRequest,
+  StreamTableDiffResponse,
   ToggleFavoriteRequest,
   ToggleFavoriteResponse,
   UpdateCollectionRequest,
@@ -159,6 +196,8 @@ import type {
   UpdateSavedQueryResponse,
   ValidateChangesRequest,
   ValidateChangesResponse,
+  VerifyRelationshipsRequest,
+  VerifyRelationshipsResponse,
 } from '@shared/types';
 import type {
   CheckUpdatesRequest,
@@ -213,6 +252,28 @@ const sqlProAPI = {
       request: ExecuteQueryRequest
     ): Promise<ExecuteQueryResponse> =>
       ipcRenderer.invoke(IPC_CHANNELS.DB_EXECUTE_QUERY, request),
+    cancelQuery: (request: CancelQueryRequest): Promise<CancelQueryResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_CANCEL_QUERY, request),
+    fetchCursor: (request: FetchCursorRequest): Promise<FetchCursorResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_FETCH_CURSOR, request),
+    closeCursor: (request: CloseCursorRequest): Promise<CloseCursorResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_CLOSE_CURSOR, request),
+    setSupabaseRole: (
+      request: SetSupabaseRoleRequest
+    ): Promise<SetSupabaseRoleResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_SET_SUPABASE_ROLE, request),
+    releaseSession: (
+      request: ReleaseSessionRequest
+    ): Promise<ReleaseSessionResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_RELEASE_SESSION, request),
+    getPoolStatus: (
+      request: GetPoolStatusRequest
+    ): Promise<GetPoolStatusResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_GET_POOL_STATUS, request),
+    endTransaction: (
+      request: EndTransactionRequest
+    ): Promise<EndTransactionResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DB_END_TRANSACTION, request),
     validateChanges: (
       request: ValidateChangesRequest
     ): Promise<ValidateChangesResponse> =>
@@ -235,6 +296,16 @@ const sqlProAPI = {
       ipcRenderer.on(IPC_CHANNELS.DB_FILE_CHANGED, handler);
       return () => ipcRenderer.off(IPC_CHANNELS.DB_FILE_CHANGED, handler);
     },
+    onSessionReset: (
+      callback: (event: SessionResetEvent) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        sessionResetEvent: SessionResetEvent
+      ) => callback(sessionResetEvent);
+      ipcRenderer.on(IPC_CHANNELS.DB_SESSION_RESET, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.DB_SESSION_RESET, handler);
+    },
   },
 
   // Dialog operations
@@ -255,6 +326,24 @@ const sqlProAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.EXPORT_DATA, request),
   },
 
+  // Data import operations
+  import: {
+    preview: (request: ImportPreviewRequest): Promise<ImportPreviewResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.IMPORT_PREVIEW, request),
+    data: (request: ImportDataRequest): Promise<ImportDataResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.IMPORT_DATA, request),
+    onProgress: (
+      callback: (progress: ImportProgressEvent) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        progress: ImportProgressEvent
+      ) => callback(progress);
+      ipcRenderer.on(IPC_CHANNELS.IMPORT_PROGRESS, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.IMPORT_PROGRESS, handler);
+    },
+  },
+
   // App operations
   app: {
     getRecentConnections: (): Promise<GetRecentConnectionsResponse> =>
@@ -357,6 +446,12 @@ const sqlProAPI = {
       request: ClearQueryHistoryRequest
     ): Promise<ClearQueryHistoryResponse> =>
       ipcRenderer.invoke(IPC_CHANNELS.HISTORY_CLEAR, request),
+    search: (
+      request: SearchQueryHistoryRequest
+    ): Promise<SearchQueryHistoryResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.HISTORY_SEARCH, request),
+    getConnections: (): Promise<GetQueryHistoryConnectionsResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.HISTORY_CONNECTIONS),
   },
 
   // SQL log operations
@@ -365,6 +460,10 @@ const sqlProAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.SQL_LOG_GET, request),
     clear: (request: ClearSqlLogsRequest): Promise<ClearSqlLogsResponse> =>
       ipcRenderer.invoke(IPC_CHANNELS.SQL_LOG_CLEAR, request),
+    getAudit: (request: GetAuditLogsRequest): Promise<GetAuditLogsResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SQL_LOG_GET_AUDIT, request),
+    export: (request: ExportSqlLogsRequest): Promise<ExportSqlLogsResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SQL_LOG_EXPORT, request),
     onEntry: (callback: (entry: SqlLogEntry) => void): (() => void) => {
       const handler = (_event: Electron.IpcRendererEvent, entry: SqlLogEntry) =>
         callback(entry);
@@ -529,6 +628,24 @@ const sqlProAPI = {
       request: CompareTablesRequest
     ): Promise<CompareTablesResponse> =>
       ipcRenderer.invoke(IPC_CHANNELS.COMPARISON_COMPARE_TABLES, request),
+    streamTableDiff: (
+      request: StreamTableDiffRequest
+    ): Promise<StreamTableDiffResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DATA_DIFF_STREAM, request),
+    cancelTableDiff: (
+      request: CancelTableDiffRequest
+    ): Promise<{ success: boolean; cancelled?: boolean; error?: string }> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DATA_DIFF_CANCEL, request),
+    onTableDiffProgress: (
+      callback: (progress: DataDiffProgressEvent) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        progress: DataDiffProgressEvent
+      ) => callback(progress);
+      ipcRenderer.on(IPC_CHANNELS.DATA_DIFF_PROGRESS, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.DATA_DIFF_PROGRESS, handler);
+    },
     exportComparisonReport: (
       request: ExportComparisonReportRequest
     ): Promise<ExportComparisonReportResponse> =>
@@ -545,6 +662,30 @@ const sqlProAPI = {
       request: GenerateSyncSQLRequest
     ): Promise<GenerateSyncSQLResponse> =>
       ipcRenderer.invoke(IPC_CHANNELS.MIGRATION_GENERATE_SYNC_SQL, request),
+    applySyncSQL: (
+      request: ApplySyncSQLRequest
+    ): Promise<ApplySyncSQLResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.DATA_DIFF_APPLY_SYNC_SQL, request),
+  },
+
+  // Schema design operations (ER diagram design mode)
+  schemaDesign: {
+    preview: (
+      request: PreviewSchemaDesignRequest
+    ): Promise<PreviewSchemaDesignResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SCHEMA_DESIGN_PREVIEW, request),
+    apply: (
+      request: ApplySchemaDesignRequest
+    ): Promise<ApplySchemaDesignResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SCHEMA_DESIGN_APPLY, request),
+  },
+
+  // Inferred relationship operations (ER diagram)
+  relationships: {
+    verify: (
+      request: VerifyRelationshipsRequest
+    ): Promise<VerifyRelationshipsResponse> =>
+      ipcRenderer.invoke(IPC_CHANNELS.RELATIONSHIPS_VERIFY, request),
   },
 
   // Query operations
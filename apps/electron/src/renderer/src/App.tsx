@@ -29,8 +29,10 @@ function App(): React.JSX.Element {
     activeConnectionId,
     getAllConnections,
   } = useConnectionStore();
-  const { setActiveConnectionId: setTabsActiveConnection } =
-    useQueryTabsStore();
+  const {
+    setActiveConnectionId: setTabsActiveConnection,
+    countOpenTransactions,
+  } = useQueryTabsStore();
   const { setActiveConnectionId: setTableDataActiveConnection } =
     useTableDataStore();
   const { loadTheme } = useThemeStore();
@@ -54,6 +56,7 @@ function App(): React.JSX.Element {
       deletes: number;
     }>
   >([]);
+  const [openTransactions, setOpenTransactions] = useState(0);
 
   // Load theme and AI settings from main process on mount
   useEffect(() => {
@@ -137,9 +140,16 @@ function App(): React.JSX.Element {
           };
         });
 
-      if (connectionsWithUnsavedChanges.length > 0) {
+      // Quitting rolls back the transactions of manual-commit tabs
+      const tabsWithTransactions = countOpenTransactions();
+
+      if (
+        connectionsWithUnsavedChanges.length > 0 ||
+        tabsWithTransactions > 0
+      ) {
         // Show dialog to user
         setConnectionsWithChanges(connectionsWithUnsavedChanges);
+        setOpenTransactions(tabsWithTransactions);
         setShowQuitDialog(true);
       } else {
         // No unsaved changes, allow quit
@@ -152,6 +162,7 @@ function App(): React.JSX.Element {
     getAllConnections,
     hasChangesForConnection,
     getChangesForConnection,
+    countOpenTransactions,
     showQuitDialog,
   ]);
 
@@ -220,6 +231,7 @@ function App(): React.JSX.Element {
             onSave={handleSaveAndQuit}
             onDiscard={handleDiscardAndQuit}
             onCancel={handleCancelQuit}
+            openTransactions={openTransactions}
           />
         </TooltipProvider>
       </QueryClientProvider>
@@ -13,6 +13,7 @@ import {
 import { Button } from '@sqlpro/ui/button';
 import { AlertTriangle, Edit3, Plus, Trash2 } from 'lucide-react';
 import { useEffect, useMemo, useState } from 'react';
+import { OpenTransactionsWarning } from './OpenTransactionsWarning';
 
 interface ConnectionChanges {
   connectionId: string;
@@ -30,6 +31,8 @@ interface AppQuitDialogProps {
   onSave: () => Promise<void>;
   onDiscard: () => void;
   onCancel: () => void;
+  /** Query tabs with a transaction that will be rolled back on quit */
+  openTransactions?: number;
 }
 
 export function AppQuitDialog({
@@ -39,19 +42,26 @@ export function AppQuitDialog({
   onSave,
   onDiscard,
   onCancel,
+  openTransactions = 0,
 }: AppQuitDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Edge case: If all changes are cleared between check and display, skip dialog
   useEffect(() => {
-    if (open && connectionsWithChanges.length === 0) {
+    if (open && connectionsWithChanges.length === 0 && openTransactions === 0) {
       // No connections with changes exist, proceed with quit by calling onDiscard
       // This is safe because discarding empty changes is a no-op and just proceeds
       onDiscard();
       onOpenChange(false);
     }
-  }, [open, connectionsWithChanges.length, onDiscard, onOpenChange]);
+  }, [
+    open,
+    connectionsWithChanges.length,
+    openTransactions,
+    onDiscard,
+    onOpenChange,
+  ]);
 
   // Calculate total changes across all connections
   const totalChanges = useMemo(() => {
@@ -95,16 +105,32 @@ export function AppQuitDialog({
           <AlertDialogMedia>
             <AlertTriangle className="text-amber-600" />
           </AlertDialogMedia>
-          <AlertDialogTitle>Quit with Unsaved Changes?</AlertDialogTitle>
+          <AlertDialogTitle>
+            {totalChanges > 0
+              ? 'Quit with Unsaved Changes?'
+              : 'Quit with Open Transactions?'}
+          </AlertDialogTitle>
           <AlertDialogDescription>
-            You have {totalChanges} unsaved{' '}
-            {totalChanges === 1 ? 'change' : 'changes'} across{' '}
-            {connectionsWithChanges.length}{' '}
-            {connectionsWithChanges.length === 1 ? 'connection' : 'connections'}
-            . What would you like to do?
+            {totalChanges > 0 ? (
+              <>
+                You have {totalChanges} unsaved{' '}
+                {totalChanges === 1 ? 'change' : 'changes'} across{' '}
+                {connectionsWithChanges.length}{' '}
+                {connectionsWithChanges.length === 1
+                  ? 'connection'
+                  : 'connections'}
+                . What would you like to do?
+              </>
+            ) : (
+              'You have uncommitted queries. What would you like to do?'
+            )}
           </AlertDialogDescription>
         </AlertDialogHeader>
 
+        {openTransactions > 0 && (
+          <OpenTransactionsWarning count={openTransactions} />
+        )}
+
         {/* Change Summary by Connection */}
         <div className="max-h-75 space-y-3 overflow-y-auto">
           {connectionsWithChanges.map((connection) => (
@@ -164,11 +190,13 @@ export function AppQuitDialog({
             onClick={handleDiscard}
             disabled={isLoading}
           >
-            Discard All Changes
+            {totalChanges > 0 ? 'Discard All Changes' : 'Roll Back and Quit'}
           </Button>
-          <AlertDialogAction onClick={handleSave} disabled={isLoading}>
-            {isLoading ? 'Saving...' : 'Save All Changes'}
-          </AlertDialogAction>
+          {totalChanges > 0 && (
+            <AlertDialogAction onClick={handleSave} disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save All Changes'}
+            </AlertDialogAction>
+          )}
         </AlertDialogFooter>
       </AlertDialogContent>
     </AlertDialog>
@@ -14,7 +14,12 @@ import { Check, ChevronDown, Clock, Database, Plus, X } from 'lucide-react';
 import { useCallback, useState } from 'react';
 import { UnsavedChangesDialog } from '@/components/UnsavedChangesDialog';
 import { cn } from '@/lib/utils';
-import { useChangesStore, useConnectionStore, useTableFont } from '@/stores';
+import {
+  useChangesStore,
+  useConnectionStore,
+  useQueryTabsStore,
+  useTableFont,
+} from '@/stores';
 
 interface ConnectionSelectorProps {
   onOpenDatabase?: () => void;
@@ -45,6 +50,9 @@ export function ConnectionSelector({
     getChangesForConnection,
     clearChangesForConnection,
   } = useChangesStore();
+  const countOpenTransactions = useQueryTabsStore(
+    (s) => s.countOpenTransactions
+  );
   const tableFont = useTableFont();
   const [isOpen, setIsOpen] = useState(false);
   const [pendingSwitchId, setPendingSwitchId] = useState<string | null>(null);
@@ -223,8 +231,11 @@ export function ConnectionSelector({
       // Guard: prevent showing multiple dialogs on rapid clicks
       if (showCloseDialog) return;
 
-      // Check if connection has unsaved changes
-      if (hasChangesForConnection(connectionId)) {
+      // Check if connection has unsaved changes or open transactions
+      if (
+        hasChangesForConnection(connectionId) ||
+        countOpenTransactions(connectionId) > 0
+      ) {
         setPendingCloseId(connectionId);
         setShowCloseDialog(true);
         return;
@@ -233,7 +244,12 @@ export function ConnectionSelector({
       // No unsaved changes, proceed with closing
       removeConnection(connectionId);
     },
-    [hasChangesForConnection, removeConnection, showCloseDialog]
+    [
+      hasChangesForConnection,
+      countOpenTransactions,
+      removeConnection,
+      showCloseDialog,
+    ]
   );
 
   const handleOpenDatabase = useCallback(() => {
@@ -455,6 +471,7 @@ export function ConnectionSelector({
           onSave={handleSaveAndClose}
           onDiscard={handleDiscardAndClose}
           onCancel={handleCancelClose}
+          openTransactions={countOpenTransactions(pendingCloseId)}
         />
       )}
     </>
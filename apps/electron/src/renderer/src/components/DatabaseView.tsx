@@ -1,4 +1,6 @@
 import type { SavedQuery } from '@shared/types';
+import type { SchemaObjectTarget } from '@/lib/monaco-sql-config';
+import type { TableSchema } from '@/types/database';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@sqlpro/ui/tabs';
 import { ArrowLeftRight, Code, GitCompare, GitFork, Table } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
@@ -40,7 +42,7 @@ export function DatabaseView({
   onOpenDatabase,
   onOpenRecentConnection,
 }: DatabaseViewProps) {
-  const { selectedTable, activeConnectionId, setSelectedTable } =
+  const { selectedTable, activeConnectionId, setSelectedTable, schema } =
     useConnectionStore();
   const { hasChanges } = useChangesStore();
   const {
@@ -50,12 +52,20 @@ export function DatabaseView({
   } = useDataTabsStore();
   const { sidebarCollapsed, toggleSidebar } = useSettingsStore();
   const { setCurrentQuery } = useQueryStore();
-  const { getActiveTab: getActiveQueryTab, updateTabQuery } =
-    useQueryTabsStore();
+  const {
+    getActiveTab: getActiveQueryTab,
+    updateTabQuery,
+    setTabSavedQuery,
+  } = useQueryTabsStore();
 
   const [activeTab, setActiveTab] = useState<TabValue>('data');
   const [showChangesPanel, setShowChangesPanel] = useState(false);
   const [showDetailsPanel, setShowDetailsPanel] = useState(false);
+  // Table or column revealed by go-to-definition in the query editor
+  const [revealedObject, setRevealedObject] = useState<{
+    table: TableSchema;
+    column?: string;
+  } | null>(null);
 
   // Get the active data tab for current connection
   const activeDataTab = activeConnectionId
@@ -91,6 +101,10 @@ export function DatabaseView({
 
   // The table to display - from active data tab or selected table
   const displayTable = activeDataTab?.table || selectedTable;
+  const detailsTable =
+    activeTab === 'query' && revealedObject
+      ? revealedObject.table
+      : displayTable;
 
   // Keyboard shortcuts for tab switching
   useEffect(() => {
@@ -149,6 +163,23 @@ export function DatabaseView({
     }
   }, [sidebarCollapsed, toggleSidebar]);
 
+  // Handler to show a table or column from the query editor in the details panel
+  const handleRevealSchemaObject = useCallback(
+    (target: SchemaObjectTarget) => {
+      const table = schema?.tables
+        .concat(schema.views)
+        .find(
+          (t) =>
+            t.name === target.table &&
+            (!target.schema || t.schema === target.schema)
+        );
+      if (!table) return;
+      setRevealedObject({ table, column: target.column });
+      setShowDetailsPanel(true);
+    },
+    [schema]
+  );
+
   // Handler to load a favorite query from toolbar
   const handleLoadFavoriteQuery = useCallback(
     (query: SavedQuery) => {
@@ -165,10 +196,17 @@ export function DatabaseView({
             activeQueryTab.id,
             query.queryText ?? ''
           );
+          setTabSavedQuery(activeConnectionId, activeQueryTab.id, query);
         }
       }
     },
-    [activeConnectionId, getActiveQueryTab, setCurrentQuery, updateTabQuery]
+    [
+      activeConnectionId,
+      getActiveQueryTab,
+      setCurrentQuery,
+      updateTabQuery,
+      setTabSavedQuery,
+    ]
   );
 
   return (
@@ -343,7 +381,7 @@ export function DatabaseView({
             value="query"
             className="h-full min-h-0 flex-1 data-[state=inactive]:hidden"
           >
-            <QueryEditor />
+            <QueryEditor onRevealSchemaObject={handleRevealSchemaObject} />
           </TabsContent>
 
           <TabsContent
@@ -391,8 +429,16 @@ export function DatabaseView({
             storageKey="schema-details-panel"
           >
             <SchemaDetailsPanel
-              table={displayTable}
-              onClose={() => setShowDetailsPanel(false)}
+              table={detailsTable}
+              highlightColumn={
+                detailsTable === revealedObject?.table
+                  ? revealedObject.column
+                  : undefined
+              }
+              onClose={() => {
+                setShowDetailsPanel(false);
+                setRevealedObject(null);
+              }}
             />
           </ResizablePanel>
         )}
@@ -44,7 +44,11 @@ interface ExportDialogProps {
   columns: ColumnInfo[];
   rows: Record<string, unknown>[];
   connectionId: string;
-  onExport: (options: ExportOptions) => void;
+  /** Database schema of the table */
+  schema?: string;
+  /** Total rows in the table; enables exporting the entire table */
+  totalRows?: number;
+  onExport: (options: ExportOptions) => void | Promise<void>;
 }
 
 export interface ExportOptions {
@@ -53,6 +57,9 @@ export interface ExportOptions {
   tableName: string;
   rows: Record<string, unknown>[];
   connectionId: string;
+  schema?: string;
+  /** Stream the whole table from the database instead of exporting `rows` */
+  entireTable?: boolean;
   // Format-specific options
   delimiter?: string;
   includeHeaders?: boolean;
@@ -99,9 +106,18 @@ export function ExportDialog({
   columns,
   rows,
   connectionId,
+  schema,
+  totalRows,
   onExport,
 }: ExportDialogProps) {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('csv');
+  const [entireTable, setEntireTable] = useState<boolean>(false);
+
+  // Only offer a whole-table export when it covers more than what's loaded
+  const canExportEntireTable =
+    totalRows !== undefined && totalRows > rows.length;
+  const exportEntireTable = canExportEntireTable && entireTable;
+  const exportRowCount = exportEntireTable ? totalRows : rows.length;
 
   // Derive column names for dependency tracking
   const columnNames = useMemo(
@@ -174,7 +190,7 @@ export function ExportDialog({
 
   // Threshold for showing progress indicator (per spec: >1000 rows)
   const LARGE_EXPORT_THRESHOLD = 1000;
-  const isLargeExport = rows.length > LARGE_EXPORT_THRESHOLD;
+  const isLargeExport = exportRowCount > LARGE_EXPORT_THRESHOLD;
 
   const handleExport = useCallback(async () => {
     const columnNames = Array.from(selectedColumns);
@@ -192,18 +208,20 @@ export function ExportDialog({
             return prev; // Cap at 90% until actually complete
           }
           // Slower progress for larger datasets
-          const increment = Math.max(1, 10 - Math.floor(rows.length / 5000));
+          const increment = Math.max(1, 10 - Math.floor(exportRowCount / 5000));
           return Math.min(90, prev + increment);
         });
       }, 100);
 
       try {
-        onExport({
+        await onExport({
           format: selectedFormat,
           columns: columnNames,
           tableName,
           rows,
           connectionId,
+          schema,
+          entireTable: exportEntireTable,
           delimiter,
           includeHeaders,
           prettyPrint,
@@ -228,6 +246,8 @@ export function ExportDialog({
         tableName,
         rows,
         connectionId,
+        schema,
+        entireTable: exportEntireTable,
         delimiter,
         includeHeaders,
         prettyPrint,
@@ -242,6 +262,9 @@ export function ExportDialog({
     tableName,
     rows,
     connectionId,
+    schema,
+    exportEntireTable,
+    exportRowCount,
     delimiter,
     includeHeaders,
     prettyPrint,
@@ -256,7 +279,7 @@ export function ExportDialog({
   );
   const FormatIcon = selectedFormatInfo?.icon ?? FileText;
 
-  const isExportDisabled = rows.length === 0 || noneSelected || isExporting;
+  const isExportDisabled = exportRowCount === 0 || noneSelected || isExporting;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -267,8 +290,8 @@ export function ExportDialog({
             Export Data
           </DialogTitle>
           <DialogDescription>
-            Export {rows.length.toLocaleString()} rows from &quot;{tableName}
-            &quot;
+            Export {exportRowCount.toLocaleString()} rows from &quot;
+            {tableName}&quot;
           </DialogDescription>
         </DialogHeader>
 
@@ -313,6 +336,30 @@ export function ExportDialog({
             </Select>
           </div>
 
+          {/* Row Scope */}
+          {canExportEntireTable && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Rows</Label>
+              <div className="space-y-3 rounded-md border p-3">
+                <label className="flex cursor-pointer items-center gap-2">
+                  <Checkbox
+                    checked={entireTable}
+                    onCheckedChange={(checked) =>
+                      setEntireTable(checked === true)
+                    }
+                  />
+                  <span className="text-sm">
+                    Export entire table ({totalRows.toLocaleString()} rows)
+                  </span>
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  Reads all rows from the database in batches. Filters and
+                  search in the grid are not applied.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Column Selection */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -455,7 +502,7 @@ export function ExportDialog({
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground flex items-center gap-2">
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Exporting {rows.length.toLocaleString()} rows...
+                  Exporting {exportRowCount.toLocaleString()} rows...
                 </span>
                 <span className="text-muted-foreground">
                   {Math.round(exportProgress)}%
@@ -1,9 +1,12 @@
 import type { BeforeMount, OnMount } from '@monaco-editor/react';
-import type { ErrorPosition } from '@shared/types';
+import type { ErrorPosition, SqlDialect } from '@shared/types';
 import type * as Monaco from 'monaco-editor';
 import type { VimMode } from 'monaco-vim';
+import type { SchemaObjectTarget } from '@/lib/monaco-sql-config';
+import type { EditorSelectionOffsets } from '@/lib/query-run';
 import type { DatabaseSchema } from '@/types/database';
 import Editor, { loader } from '@monaco-editor/react';
+import { findQueryPlaceholders } from '@shared/query-parameters';
 // Configure Monaco to use local package with Vite worker
 import * as monaco from 'monaco-editor';
 import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
@@ -11,10 +14,14 @@ import { initVimMode } from 'monaco-vim';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   createSqlCompletionProvider,
+  createSqlDefinitionProvider,
   createSqlHoverProvider,
+  createSqlReferenceProvider,
+  createSqlRenameProvider,
   createSqlValidator,
   defineCustomThemes,
   formatSql,
+  parseSchemaObjectUri,
 } from '@/lib/monaco-sql-config';
 
 import { cn } from '@/lib/utils';
@@ -33,6 +40,30 @@ globalThis.MonacoEnvironment = {
 
 loader.config({ monaco });
 
+/**
+ * Registers go-to-definition, find references and rename for SQL.
+ */
+function registerNavigationProviders(
+  monacoInstance: typeof Monaco,
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect
+): Monaco.IDisposable[] {
+  return [
+    monacoInstance.languages.registerDefinitionProvider(
+      'sql',
+      createSqlDefinitionProvider(monacoInstance, schema, dialect)
+    ),
+    monacoInstance.languages.registerReferenceProvider(
+      'sql',
+      createSqlReferenceProvider(schema, dialect)
+    ),
+    monacoInstance.languages.registerRenameProvider(
+      'sql',
+      createSqlRenameProvider(schema, dialect)
+    ),
+  ];
+}
+
 /**
  * Error information for highlighting execution errors in the editor.
  * This is passed from the parent component (QueryPane) when a query execution fails.
@@ -49,6 +80,8 @@ interface MonacoSqlEditorProps {
   onChange: (value: string) => void;
   onExecute: () => void;
   schema: DatabaseSchema | null;
+  /** Dialect of the connection, for completion, hover docs and validation */
+  dialect?: SqlDialect;
   height?: string;
   minHeight?: number;
   maxHeight?: number;
@@ -65,6 +98,14 @@ interface MonacoSqlEditorProps {
   onCursorPositionChange?: (position: { line: number; column: number }) => void;
   /** Callback when scroll position changes */
   onScrollPositionChange?: (scrollTop: number) => void;
+  /** Callback when go-to-definition targets a table or column */
+  onRevealSchemaObject?: (target: SchemaObjectTarget) => void;
+  /** Runs the statement under the cursor, from the editor context menu */
+  onExecuteStatement?: () => void;
+  /** Runs the selected SQL, from the editor context menu */
+  onExecuteSelection?: () => void;
+  /** Callback when the selection or cursor moves, with buffer offsets */
+  onSelectionChange?: (selection: EditorSelectionOffsets) => void;
 }
 
 /**
@@ -75,12 +116,16 @@ interface MonacoSqlEditorProps {
  * - US2: Theme-aware editor (light/dark sync)
  * - US3: SQL syntax highlighting
  * - US4: Cmd/Ctrl+Enter to execute queries
+ * - Run the statement under the cursor or the selection
+ * - Go to definition, find references and rename for aliases and CTEs
+ * - Highlighting of `:name`, `$1` and `?` query parameters
  */
 export function MonacoSqlEditor({
   value,
   onChange,
   onExecute,
   schema,
+  dialect = 'sqlite',
   height = '150px',
   minHeight = 100,
   maxHeight = 500,
@@ -89,6 +134,10 @@ export function MonacoSqlEditor({
   initialScrollPosition,
   onCursorPositionChange,
   onScrollPositionChange,
+  onRevealSchemaObject,
+  onExecuteStatement,
+  onExecuteSelection,
+  onSelectionChange,
 }: MonacoSqlEditorProps) {
   const { theme } = useThemeStore();
   const { editorVimMode, tabSize } = useSettingsStore();
@@ -96,9 +145,16 @@ export function MonacoSqlEditor({
   const editorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(null);
   const monacoRef = useRef<typeof Monaco | null>(null);
   const onExecuteRef = useRef(onExecute);
+  const dialectRef = useRef(dialect);
   const onCursorPositionChangeRef = useRef(onCursorPositionChange);
   const onScrollPositionChangeRef = useRef(onScrollPositionChange);
+  const onRevealSchemaObjectRef = useRef(onRevealSchemaObject);
+  const onExecuteStatementRef = useRef(onExecuteStatement);
+  const onExecuteSelectionRef = useRef(onExecuteSelection);
+  const onSelectionChangeRef = useRef(onSelectionChange);
   const completionDisposableRef = useRef<Monaco.IDisposable | null>(null);
+  const navigationDisposablesRef = useRef<Monaco.IDisposable[]>([]);
+  const editorOpenerRef = useRef<Monaco.IDisposable | null>(null);
   const hoverDisposableRef = useRef<Monaco.IDisposable | null>(null);
   const validatorRef = useRef<{
     validate: (model: Monaco.editor.ITextModel) => void;
@@ -107,6 +163,9 @@ export function MonacoSqlEditor({
   const modelChangeListenerRef = useRef<Monaco.IDisposable | null>(null);
   const blurListenerRef = useRef<Monaco.IDisposable | null>(null);
   const scrollListenerRef = useRef<Monaco.IDisposable | null>(null);
+  const selectionListenerRef = useRef<Monaco.IDisposable | null>(null);
+  const parameterDecorationsRef =
+    useRef<Monaco.editor.IEditorDecorationsCollection | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const vimModeRef = useRef<VimMode | null>(null);
   const vimStatusRef = useRef<HTMLDivElement | null>(null);
@@ -137,6 +196,10 @@ export function MonacoSqlEditor({
     onExecuteRef.current = onExecute;
   }, [onExecute]);
 
+  useEffect(() => {
+    dialectRef.current = dialect;
+  }, [dialect]);
+
   useEffect(() => {
     onCursorPositionChangeRef.current = onCursorPositionChange;
   }, [onCursorPositionChange]);
@@ -145,6 +208,22 @@ export function MonacoSqlEditor({
     onScrollPositionChangeRef.current = onScrollPositionChange;
   }, [onScrollPositionChange]);
 
+  useEffect(() => {
+    onRevealSchemaObjectRef.current = onRevealSchemaObject;
+  }, [onRevealSchemaObject]);
+
+  useEffect(() => {
+    onExecuteStatementRef.current = onExecuteStatement;
+  }, [onExecuteStatement]);
+
+  useEffect(() => {
+    onExecuteSelectionRef.current = onExecuteSelection;
+  }, [onExecuteSelection]);
+
+  useEffect(() => {
+    onSelectionChangeRef.current = onSelectionChange;
+  }, [onSelectionChange]);
+
   // Configure Monaco before mount - define custom themes (US2, US3)
   const handleBeforeMount: BeforeMount = useCallback((monacoInstance) => {
     defineCustomThemes(monacoInstance);
@@ -162,6 +241,23 @@ export function MonacoSqlEditor({
         () => onExecuteRef.current()
       );
 
+      // Partial runs; their shortcuts are menu accelerators
+      editor.addAction({
+        id: 'sql-run-statement',
+        label: 'Run Statement at Cursor',
+        contextMenuGroupId: '0_run',
+        contextMenuOrder: 1,
+        run: () => onExecuteStatementRef.current?.(),
+      });
+      editor.addAction({
+        id: 'sql-run-selection',
+        label: 'Run Selection',
+        precondition: 'editorHasSelection',
+        contextMenuGroupId: '0_run',
+        contextMenuOrder: 2,
+        run: () => onExecuteSelectionRef.current?.(),
+      });
+
       // Register Cmd/Ctrl+Option/Alt+F shortcut for SQL formatting
       // Note: Cmd+Shift+F on macOS types special character 'Ï', so we use Option/Alt instead
       editor.addAction({
@@ -181,7 +277,7 @@ export function MonacoSqlEditor({
           const cursorPosition = ed.getPosition();
 
           // Format the SQL
-          const formattedValue = formatSql(currentValue);
+          const formattedValue = formatSql(currentValue, dialectRef.current);
 
           // Only update if the value changed
           if (formattedValue !== currentValue) {
@@ -213,18 +309,38 @@ export function MonacoSqlEditor({
       completionDisposableRef.current =
         monacoInstance.languages.registerCompletionItemProvider(
           'sql',
-          createSqlCompletionProvider(monacoInstance, schema)
+          createSqlCompletionProvider(monacoInstance, schema, dialect)
         );
 
+      // Register definition, reference and rename providers
+      navigationDisposablesRef.current = registerNavigationProviders(
+        monacoInstance,
+        schema,
+        dialect
+      );
+
+      // Tables and columns are defined in the schema: reveal them in the
+      // schema details panel instead of opening another model
+      editorOpenerRef.current = monacoInstance.editor.registerEditorOpener({
+        openCodeEditor: (source, resource) => {
+          const target = parseSchemaObjectUri(resource);
+          if (source !== editor || !target) {
+            return false;
+          }
+          onRevealSchemaObjectRef.current?.(target);
+          return true;
+        },
+      });
+
       // Register hover provider for SQL documentation
       hoverDisposableRef.current =
         monacoInstance.languages.registerHoverProvider(
           'sql',
-          createSqlHoverProvider(monacoInstance)
+          createSqlHoverProvider(monacoInstance, dialect)
         );
 
       // Create SQL validator and set up model change listener for live validation
-      validatorRef.current = createSqlValidator(monacoInstance);
+      validatorRef.current = createSqlValidator(monacoInstance, dialect);
       const model = editor.getModel();
       if (model) {
         // Perform initial validation
@@ -269,7 +385,7 @@ export function MonacoSqlEditor({
       // Mark editor as ready for vim mode initialization
       setEditorReady(true);
     },
-    [schema, initialCursorPosition, initialScrollPosition]
+    [schema, dialect, initialCursorPosition, initialScrollPosition]
   );
 
   // Capture and save cursor position when editor loses focus
@@ -319,22 +435,109 @@ export function MonacoSqlEditor({
     };
   }, [editorReady]);
 
-  // US1: Update completion provider when schema changes
+  // Report the selection and cursor for partial runs
+  useEffect(() => {
+    if (!editorRef.current) return;
+
+    selectionListenerRef.current = editorRef.current.onDidChangeCursorSelection(
+      (e) => {
+        const model = editorRef.current?.getModel();
+        if (!model || !onSelectionChangeRef.current) return;
+
+        onSelectionChangeRef.current({
+          start: model.getOffsetAt(e.selection.getStartPosition()),
+          end: model.getOffsetAt(e.selection.getEndPosition()),
+          cursor: model.getOffsetAt(e.selection.getPosition()),
+        });
+      }
+    );
+
+    return () => {
+      if (selectionListenerRef.current) {
+        selectionListenerRef.current.dispose();
+        selectionListenerRef.current = null;
+      }
+    };
+  }, [editorReady]);
+
+  // Highlight query parameter placeholders
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!editorReady || !editorRef.current || !model) return;
+
+    const decorations = findQueryPlaceholders(model.getValue(), dialect).map(
+      (placeholder): Monaco.editor.IModelDeltaDecoration => {
+        const start = model.getPositionAt(placeholder.start);
+        const end = model.getPositionAt(placeholder.end);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          options: {
+            inlineClassName: 'text-primary font-semibold',
+            hoverMessage: { value: `Query parameter \`${placeholder.key}\`` },
+          },
+        };
+      }
+    );
+
+    if (parameterDecorationsRef.current) {
+      parameterDecorationsRef.current.set(decorations);
+    } else {
+      parameterDecorationsRef.current =
+        editorRef.current.createDecorationsCollection(decorations);
+    }
+  }, [value, dialect, editorReady]);
+
+  // US1: Update completion and navigation providers when schema or dialect changes
   useEffect(() => {
     if (!monacoRef.current) return;
 
-    // Dispose old provider
+    // Dispose old providers
     if (completionDisposableRef.current) {
       completionDisposableRef.current.dispose();
     }
+    navigationDisposablesRef.current.forEach((d) => d.dispose());
 
-    // Register new provider with updated schema
+    // Register new providers with updated schema
     completionDisposableRef.current =
       monacoRef.current.languages.registerCompletionItemProvider(
         'sql',
-        createSqlCompletionProvider(monacoRef.current, schema)
+        createSqlCompletionProvider(monacoRef.current, schema, dialect)
       );
-  }, [schema]);
+    navigationDisposablesRef.current = registerNavigationProviders(
+      monacoRef.current,
+      schema,
+      dialect
+    );
+  }, [schema, dialect]);
+
+  // Switch hover docs and validation when the dialect changes
+  useEffect(() => {
+    if (!monacoRef.current || !editorRef.current) return;
+
+    if (hoverDisposableRef.current) {
+      hoverDisposableRef.current.dispose();
+    }
+    hoverDisposableRef.current =
+      monacoRef.current.languages.registerHoverProvider(
+        'sql',
+        createSqlHoverProvider(monacoRef.current, dialect)
+      );
+
+    // The model change listener reads the validator from the ref
+    if (validatorRef.current) {
+      validatorRef.current.dispose();
+    }
+    validatorRef.current = createSqlValidator(monacoRef.current, dialect);
+    const model = editorRef.current.getModel();
+    if (model) {
+      validatorRef.current.validate(model);
+    }
+  }, [dialect]);
 
   // Handle execution error highlighting
   // Sets markers in the editor when a query execution error occurs with position info
@@ -348,7 +551,12 @@ export function MonacoSqlEditor({
     monacoRef.current.editor.setModelMarkers(model, 'sql-execution-error', []);
 
     // If there's an execution error with position info, create a marker
-    if (executionError && executionError.position) {
+    // The query may have been edited since it ran
+    if (
+      executionError &&
+      executionError.position &&
+      executionError.position.line <= model.getLineCount()
+    ) {
       const { line, column } = executionError.position;
 
       // Calculate end column - try to highlight a reasonable range
@@ -427,6 +635,11 @@ export function MonacoSqlEditor({
       if (hoverDisposableRef.current) {
         hoverDisposableRef.current.dispose();
       }
+      navigationDisposablesRef.current.forEach((d) => d.dispose());
+      navigationDisposablesRef.current = [];
+      if (editorOpenerRef.current) {
+        editorOpenerRef.current.dispose();
+      }
       if (modelChangeListenerRef.current) {
         modelChangeListenerRef.current.dispose();
       }
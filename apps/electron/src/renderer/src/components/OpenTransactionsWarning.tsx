@@ -0,0 +1,25 @@
+import { GitCommitHorizontal } from 'lucide-react';
+
+interface OpenTransactionsWarningProps {
+  /** Query tabs with a transaction that has not been committed */
+  count: number;
+}
+
+/**
+ * Notice in the unsaved changes dialogs that closing rolls back the open
+ * transactions of manual-commit query tabs.
+ */
+export function OpenTransactionsWarning({
+  count,
+}: OpenTransactionsWarningProps) {
+  return (
+    <div className="flex items-start gap-2 rounded-md bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+      <GitCommitHorizontal className="mt-0.5 h-4 w-4 shrink-0" />
+      <span>
+        {count} query {count === 1 ? 'tab has' : 'tabs have'} an open
+        transaction that will be rolled back. Commit it from the query editor to
+        keep its changes.
+      </span>
+    </div>
+  );
+}
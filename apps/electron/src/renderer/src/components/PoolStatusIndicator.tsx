@@ -0,0 +1,49 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@sqlpro/ui/tooltip';
+import { Activity, Link2 } from 'lucide-react';
+import { usePoolStatus } from '@/hooks/usePoolStatus';
+import { cn } from '@/lib/utils';
+import { useConnectionStore } from '@/stores';
+
+/**
+ * Shows the active, idle and pinned sessions of the active server
+ * connection's pool.
+ */
+export function PoolStatusIndicator() {
+  const { connection } = useConnectionStore();
+  const status = usePoolStatus(connection);
+
+  if (!status) {
+    return null;
+  }
+
+  const { size, active, idle, pinned, waiting } = status;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger>
+        <div className="text-muted-foreground flex items-center gap-3 text-xs">
+          <span className="flex items-center gap-1">
+            <Activity
+              className={cn('h-3 w-3', active > 0 && 'text-green-500')}
+            />
+            {active} active
+          </span>
+          <span>{idle} idle</span>
+          {pinned > 0 && (
+            <span className="flex items-center gap-1">
+              <Link2 className="h-3 w-3" />
+              {pinned} pinned
+            </span>
+          )}
+          {waiting > 0 && (
+            <span className="text-amber-500">{waiting} waiting</span>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        Pool of up to {size} sessions for browsing and queries; pinned query
+        tabs hold one of them until they are closed
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -1,4 +1,7 @@
 import type { SavedQuery } from '@shared/types';
+import type { SchemaObjectTarget } from '@/lib/monaco-sql-config';
+import type { EditorSelectionOffsets, QueryRunMode } from '@/lib/query-run';
+import type { QueryHistoryDetails } from '@/stores';
 import { Button } from '@sqlpro/ui/button';
 import {
   ContextMenu,
@@ -31,6 +34,7 @@ import {
   FileUp,
   Folder,
   History,
+  ListFilter,
   Loader2,
   Play,
   Save,
@@ -38,6 +42,8 @@ import {
   Share2,
   Sparkles,
   Square,
+  TextCursorInput,
+  TextSelect,
   Trash2,
   Wand2,
   X,
@@ -70,8 +76,23 @@ import {
 } from '@/components/ui/dialog';
 import { ShortcutKbd } from '@/components/ui/kbd';
 import { SqlHighlight } from '@/components/ui/sql-highlight';
+import { isPooledConnection } from '@/hooks/usePoolStatus';
+import { useQueryParameters } from '@/hooks/useQueryParameters';
+import {
+  RESULT_PAGE_SIZE,
+  useStreamedResults,
+} from '@/hooks/useStreamedResults';
 import { sqlPro } from '@/lib/api';
+import { getResultRowCount } from '@/lib/query-history';
 import { generateSuggestions } from '@/lib/query-plan-analyzer';
+import {
+  getQueryRunTarget,
+  getRunError,
+  getTargetParameterValues,
+  toBufferPosition,
+  toQueryRunResult,
+} from '@/lib/query-run';
+import { getDialect } from '@/lib/sql-dialect-catalogs';
 import { cn } from '@/lib/utils';
 import {
   useAIStore,
@@ -81,9 +102,13 @@ import {
 } from '@/stores';
 import { QueryOptimizerPanel } from './data-tools/QueryOptimizerPanel';
 import { MonacoSqlEditor } from './MonacoSqlEditor';
+import { PinnedResultsControls } from './query-editor/PinnedResultsControls';
+import { QueryHistoryDialog } from './query-editor/QueryHistoryDialog';
 import { QueryPane } from './query-editor/QueryPane';
+import { QueryParametersPanel } from './query-editor/QueryParametersPanel';
 import { QueryTabBar } from './query-editor/QueryTabBar';
 import { QueryTemplatesPicker } from './query-editor/QueryTemplatesPicker';
+import { TransactionControls } from './query-editor/TransactionControls';
 import { QueryResults } from './QueryResults';
 import { ResizablePanel } from './ResizablePanel';
 
@@ -99,7 +124,12 @@ function formatDuration(ms: number): string {
   return `${(ms / 1000).toFixed(1)}s`;
 }
 
-export function QueryEditor() {
+interface QueryEditorProps {
+  /** Reveals a table or column targeted by go-to-definition */
+  onRevealSchemaObject?: (target: SchemaObjectTarget) => void;
+}
+
+export function QueryEditor({ onRevealSchemaObject }: QueryEditorProps) {
   const { connection, schema, activeConnectionId } = useConnectionStore();
   const {
     currentQuery,
@@ -122,10 +152,16 @@ export function QueryEditor() {
   // Multi-tab state - now connection-aware
   const {
     getActiveTab,
+    createTab,
     updateTabQuery,
+    updateTabCursorPosition,
+    updateTabScrollTop,
     updateTabResults,
     updateTabError,
     setTabExecuting,
+    setTabTransactionState,
+    setTabSavedQuery,
+    setTabParameters,
     setActiveConnectionId: setTabsActiveConnection,
     isSplit,
     closeSplit,
@@ -152,6 +188,7 @@ export function QueryEditor() {
     'history'
   );
   const [historySearch, setHistorySearch] = useState('');
+  const [showHistoryBrowser, setShowHistoryBrowser] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showTemplates, setShowTemplates] = useState(false);
   const [showOptimizer, setShowOptimizer] = useState(false);
@@ -168,6 +205,13 @@ export function QueryEditor() {
   const [showSaveQuery, setShowSaveQuery] = useState(false);
   const [queryToSave, setQueryToSave] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Execution ID of the running query, used to cancel it
+  const executionIdRef = useRef<string | null>(null);
+  // Editor selection and cursor, for running part of the query
+  const selectionRef = useRef<EditorSelectionOffsets | null>(null);
+  const [hasSelection, setHasSelection] = useState(false);
+  // Tab opened from the history browser to run once it is active
+  const pendingRunTabIdRef = useRef<string | null>(null);
 
   // AI store
   const { isConfigured: isAIConfigured } = useAIStore();
@@ -182,6 +226,20 @@ export function QueryEditor() {
   const tabError = activeTab?.error ?? error;
   const tabIsExecuting = activeTab?.isExecuting ?? isExecuting;
   const tabExecutionTime = activeTab?.executionTime ?? executionTime;
+  // Pinned tabs run on a server session of their own
+  const pinnedSessionId = activeTab?.pinnedSession ? activeTab.id : undefined;
+  const manualCommit = !!activeTab?.manualCommit;
+  const resultStream = useStreamedResults(
+    activeConnectionId,
+    activeTab?.id ?? null,
+    tabResults
+  );
+  const dialect = getDialect(connection?.databaseType);
+  const parameters = useQueryParameters(activeConnectionId, activeTab, dialect);
+  const runError = useMemo(
+    () => getRunError(tabError, activeTab?.errorPosition, activeTab?.results),
+    [tabError, activeTab?.errorPosition, activeTab?.results]
+  );
 
   // Initialize tabs when connection changes
   useEffect(() => {
@@ -256,77 +314,182 @@ export function QueryEditor() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [tabQuery, showSidePanel, sidePanelTab]);
 
-  const handleExecute = useCallback(async () => {
-    if (!connection || !activeConnectionId || !tabQuery.trim() || !activeTabId)
-      return;
+  const runQuery = useCallback(
+    async (mode: QueryRunMode) => {
+      if (!connection || !activeConnectionId || !activeTabId) return;
 
-    setTabExecuting(activeConnectionId, activeTabId, true);
-    setIsExecuting(true);
-    setError(null);
-    setResults(null);
-    updateTabError(activeConnectionId, activeTabId, null);
+      const target = getQueryRunTarget(
+        tabQuery,
+        mode,
+        selectionRef.current,
+        dialect
+      );
+      if (!target) return;
 
-    try {
-      const result = await sqlPro.db.executeQuery({
-        connectionId: connection.id,
-        query: tabQuery.trim(),
-      });
+      const historyDetails: QueryHistoryDetails = {
+        connectionName: connection.filename,
+        tabId: activeTabId,
+        tabTitle: activeTab?.title,
+      };
 
-      if (result.success) {
-        const queryResult = {
-          columns: result.columns || [],
-          rows: result.rows || [],
-          rowsAffected: result.rowsAffected || result.totalChanges || 0,
-          lastInsertRowId: result.lastInsertRowId,
-          executedStatements: result.executedStatements,
-          resultSets: result.resultSets,
-        };
-        setResults(queryResult);
-        setExecutionTime(result.executionTime || 0);
-        updateTabResults(
-          activeConnectionId,
-          activeTabId,
-          queryResult,
-          result.executionTime || 0
-        );
+      const resolved = parameters.resolveValues();
+      if ('error' in resolved) {
+        setError(resolved.error);
+        updateTabError(activeConnectionId, activeTabId, resolved.error);
+        return;
+      }
+
+      const executionId = crypto.randomUUID();
+      executionIdRef.current = executionId;
+      setTabExecuting(activeConnectionId, activeTabId, true);
+      setIsExecuting(true);
+      setError(null);
+      setResults(null);
+      updateTabError(activeConnectionId, activeTabId, null);
+
+      try {
+        const result = await sqlPro.db.executeQuery({
+          connectionId: connection.id,
+          query: target.sql,
+          executionId,
+          pageSize: RESULT_PAGE_SIZE,
+          sessionId: pinnedSessionId,
+          manualCommit,
+          parameters: getTargetParameterValues(
+            resolved.values,
+            tabQuery,
+            target,
+            dialect
+          ),
+          splitStatements: target.splitStatements,
+        });
+
+        if (manualCommit) {
+          setTabTransactionState(
+            activeConnectionId,
+            activeTabId,
+            result.transactionState
+          );
+        }
+
+        if (result.success || result.statements) {
+          // Scripts keep the results of their statements when one fails
+          const queryResult = toQueryRunResult(result, tabQuery, target);
+          setResults(queryResult);
+          setExecutionTime(result.executionTime || 0);
+          updateTabResults(
+            activeConnectionId,
+            activeTabId,
+            queryResult,
+            result.executionTime || 0
+          );
+          if (result.success) {
+            parameters.rememberValues();
+          }
+          addToHistory(
+            connection.path,
+            target.sql,
+            result.success,
+            result.executionTime || 0,
+            result.error,
+            { ...historyDetails, rowCount: getResultRowCount(queryResult) }
+          );
+        } else {
+          setError(result.error || 'Query failed');
+          updateTabError(
+            activeConnectionId,
+            activeTabId,
+            result.error || 'Query failed',
+            result.errorPosition
+              ? toBufferPosition(tabQuery, target, result.errorPosition)
+              : undefined
+          );
+          addToHistory(
+            connection.path,
+            target.sql,
+            false,
+            result.executionTime || 0,
+            result.error,
+            historyDetails
+          );
+        }
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : 'Unknown error';
+        setError(errorMessage);
+        updateTabError(activeConnectionId, activeTabId, errorMessage);
         addToHistory(
           connection.path,
-          tabQuery.trim(),
-          true,
-          result.executionTime || 0
+          target.sql,
+          false,
+          0,
+          errorMessage,
+          historyDetails
         );
-      } else {
-        setError(result.error || 'Query failed');
-        updateTabError(
-          activeConnectionId,
-          activeTabId,
-          result.error || 'Query failed'
-        );
-        addToHistory(connection.path, tabQuery.trim(), false, 0, result.error);
+      } finally {
+        if (executionIdRef.current === executionId) {
+          executionIdRef.current = null;
+        }
+        setTabExecuting(activeConnectionId, activeTabId, false);
+        setIsExecuting(false);
       }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-      updateTabError(activeConnectionId, activeTabId, errorMessage);
-      addToHistory(connection.path, tabQuery.trim(), false, 0, errorMessage);
-    } finally {
-      setTabExecuting(activeConnectionId, activeTabId, false);
-      setIsExecuting(false);
+    },
+    [
+      connection,
+      activeConnectionId,
+      tabQuery,
+      activeTabId,
+      activeTab?.title,
+      dialect,
+      pinnedSessionId,
+      manualCommit,
+      parameters,
+      setTabExecuting,
+      setTabTransactionState,
+      setIsExecuting,
+      setError,
+      setResults,
+      updateTabError,
+      setExecutionTime,
+      updateTabResults,
+      addToHistory,
+    ]
+  );
+
+  const handleExecute = useCallback(() => runQuery('all'), [runQuery]);
+
+  // Run a query reopened from the history browser once its tab is active
+  useEffect(() => {
+    if (activeTabId && pendingRunTabIdRef.current === activeTabId) {
+      pendingRunTabIdRef.current = null;
+      runQuery('all');
     }
-  }, [
-    connection,
-    activeConnectionId,
-    tabQuery,
-    activeTabId,
-    setTabExecuting,
-    setIsExecuting,
-    setError,
-    setResults,
-    updateTabError,
-    setExecutionTime,
-    updateTabResults,
-    addToHistory,
-  ]);
+  }, [activeTabId, runQuery]);
+
+  const handleExecuteStatement = useCallback(
+    () => runQuery('statement'),
+    [runQuery]
+  );
+
+  const handleExecuteSelection = useCallback(
+    () => runQuery('selection'),
+    [runQuery]
+  );
+
+  const handleSelectionChange = useCallback(
+    (selection: EditorSelectionOffsets) => {
+      selectionRef.current = selection;
+      setHasSelection(selection.start !== selection.end);
+    },
+    []
+  );
+
+  const handleCancel = useCallback(async () => {
+    const executionId = executionIdRef.current;
+    if (!executionId) return;
+
+    await sqlPro.db.cancelQuery({ executionId });
+  }, []);
 
   const handleQueryChange = useCallback(
     (query: string) => {
@@ -338,6 +501,24 @@ export function QueryEditor() {
     [activeConnectionId, activeTabId, setCurrentQuery, updateTabQuery]
   );
 
+  const handleCursorPositionChange = useCallback(
+    (position: { line: number; column: number }) => {
+      if (activeConnectionId && activeTabId) {
+        updateTabCursorPosition(activeConnectionId, activeTabId, position);
+      }
+    },
+    [activeConnectionId, activeTabId, updateTabCursorPosition]
+  );
+
+  const handleScrollPositionChange = useCallback(
+    (scrollTop: number) => {
+      if (activeConnectionId && activeTabId) {
+        updateTabScrollTop(activeConnectionId, activeTabId, scrollTop);
+      }
+    },
+    [activeConnectionId, activeTabId, updateTabScrollTop]
+  );
+
   const handleTemplateSelect = useCallback(
     (query: string) => {
       handleQueryChange(query);
@@ -347,11 +528,26 @@ export function QueryEditor() {
 
   const handleHistorySelect = (query: string) => {
     handleQueryChange(query);
+    if (activeConnectionId && activeTabId) {
+      setTabSavedQuery(activeConnectionId, activeTabId, null);
+    }
+    setShowSidePanel(false);
+  };
+
+  const handleOpenHistoryQuery = (query: string, run: boolean) => {
+    if (!activeConnectionId) return;
+    const tabId = createTab(activeConnectionId, undefined, query);
+    if (run) {
+      pendingRunTabIdRef.current = tabId;
+    }
     setShowSidePanel(false);
   };
 
   const handleSavedQueryLoad = (query: SavedQuery) => {
     handleQueryChange(query.queryText ?? '');
+    if (activeConnectionId && activeTabId) {
+      setTabSavedQuery(activeConnectionId, activeTabId, query);
+    }
     setShowSidePanel(false);
   };
 
@@ -409,8 +605,11 @@ export function QueryEditor() {
     setShowSaveQuery(true);
   };
 
+  // EXPLAIN ANALYZE runs on the sessions of server connections
+  const canExplainAnalyze = isPooledConnection(connection);
+
   const handleAnalyze = useCallback(
-    async (query: string) => {
+    async (query: string, options: { analyze: boolean }) => {
       if (!connection) {
         throw new Error('No database connection');
       }
@@ -418,6 +617,7 @@ export function QueryEditor() {
       const result = await sqlPro.db.analyzeQueryPlan({
         connectionId: connection.id,
         query: query.trim(),
+        analyze: options.analyze,
       });
 
       if (!result.success || !result.plan || !result.stats) {
@@ -549,20 +749,60 @@ export function QueryEditor() {
             <Zap className="h-4 w-4" />
             Analyze
           </Button>
-          <Button
-            size="sm"
-            onClick={handleExecute}
-            disabled={tabIsExecuting || !tabQuery.trim()}
-            className="gap-1"
-            data-action="execute-query"
-          >
-            {tabIsExecuting ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Play className="h-4 w-4" />
-            )}
-            Execute
-          </Button>
+          <TransactionControls
+            connectionId={activeConnectionId || ''}
+            tab={activeTab}
+          />
+          {tabIsExecuting ? (
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={handleCancel}
+              className="gap-1"
+              data-action="cancel-query"
+              title="Cancel the running query"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleExecuteStatement}
+                disabled={!tabQuery.trim() || isSplitView}
+                className="gap-1"
+                data-action="execute-statement"
+                title="Run the statement under the cursor"
+              >
+                <TextCursorInput className="h-4 w-4" />
+                Statement
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleExecuteSelection}
+                disabled={!hasSelection || isSplitView}
+                className="gap-1"
+                data-action="execute-selection"
+                title="Run the selected SQL"
+              >
+                <TextSelect className="h-4 w-4" />
+                Selection
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleExecute}
+                disabled={!tabQuery.trim()}
+                className="gap-1"
+                data-action="execute-query"
+              >
+                <Play className="h-4 w-4" />
+                Execute
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -581,6 +821,8 @@ export function QueryEditor() {
                     pane={pane}
                     connectionId={connection?.id || ''}
                     schema={schema}
+                    dialect={dialect}
+                    canExplainAnalyze={canExplainAnalyze}
                     isActive={pane.id === activePaneId}
                     onActivate={() =>
                       activeConnectionId &&
@@ -593,6 +835,7 @@ export function QueryEditor() {
                         : undefined
                     }
                     showCloseButton={index > 0}
+                    onRevealSchemaObject={onRevealSchemaObject}
                   />
                 </ResizablePanelUI>
               </React.Fragment>
@@ -608,10 +851,29 @@ export function QueryEditor() {
                   value={tabQuery}
                   onChange={handleQueryChange}
                   onExecute={handleExecute}
+                  onExecuteStatement={handleExecuteStatement}
+                  onExecuteSelection={handleExecuteSelection}
+                  onSelectionChange={handleSelectionChange}
+                  executionError={runError}
                   schema={schema}
+                  dialect={dialect}
+                  initialCursorPosition={activeTab?.cursorPosition}
+                  initialScrollPosition={activeTab?.scrollTop}
+                  onCursorPositionChange={handleCursorPositionChange}
+                  onScrollPositionChange={handleScrollPositionChange}
+                  onRevealSchemaObject={onRevealSchemaObject}
                 />
               </div>
 
+              {/* Placeholder values */}
+              <QueryParametersPanel
+                definitions={parameters.definitions}
+                onChange={parameters.updateParameter}
+                onExecute={handleExecute}
+                disabled={tabIsExecuting}
+                className="shrink-0"
+              />
+
               {/* Results Area */}
               <div className="min-w-0 flex-1 overflow-hidden">
                 {tabIsExecuting ? (
@@ -636,8 +898,17 @@ export function QueryEditor() {
                   <div className="flex h-full flex-col">
                     {/* Results Header */}
                     <div className="text-muted-foreground flex items-center gap-4 border-b px-4 py-2 text-sm">
-                      {tabResults.resultSets &&
-                      tabResults.resultSets.length > 1 ? (
+                      {tabResults.statements &&
+                      tabResults.statements.length > 1 ? (
+                        <span>
+                          {
+                            tabResults.statements.filter((s) => s.success)
+                              .length
+                          }{' '}
+                          of {tabResults.statements.length} statements succeeded
+                        </span>
+                      ) : tabResults.resultSets &&
+                        tabResults.resultSets.length > 1 ? (
                         <span>
                           {tabResults.resultSets.length} result sets
                           {tabResults.executedStatements &&
@@ -653,7 +924,7 @@ export function QueryEditor() {
                       ) : (
                         <span>
                           {tabResults.rows.length > 0
-                            ? `${tabResults.rows.length} rows`
+                            ? `${tabResults.rows.length}${tabResults.hasMore ? '+' : ''} rows`
                             : tabResults.rowsAffected > 0
                               ? `${tabResults.rowsAffected} rows affected`
                               : 'Query executed'}
@@ -671,10 +942,24 @@ export function QueryEditor() {
                             Last Insert ID: {tabResults.lastInsertRowId}
                           </span>
                         )}
+                      {activeConnectionId && (
+                        <PinnedResultsControls
+                          connectionId={activeConnectionId}
+                          tab={activeTab}
+                          className="ml-auto"
+                        />
+                      )}
                     </div>
                     {/* Results Table */}
                     <div className="h-0 min-w-0 flex-1 overflow-hidden">
-                      <QueryResults results={tabResults} />
+                      <QueryResults
+                        results={tabResults}
+                        onLoadMore={resultStream.loadMore}
+                        isLoadingMore={resultStream.isLoadingMore}
+                        onExportAll={resultStream.exportAll}
+                        isExporting={resultStream.isExporting}
+                        streamError={resultStream.error}
+                      />
                     </div>
                   </div>
                 ) : (
@@ -813,6 +1098,15 @@ export function QueryEditor() {
                             </>
                           ) : (
                             <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setShowHistoryBrowser(true)}
+                                title="Browse and search all history"
+                              >
+                                <ListFilter className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -1041,6 +1335,8 @@ export function QueryEditor() {
         open={showOptimizer}
         onOpenChange={setShowOptimizer}
         query={tabQuery}
+        canExplainAnalyze={canExplainAnalyze}
+        dialect={dialect}
         onAnalyze={handleAnalyze}
       />
 
@@ -1076,6 +1372,7 @@ export function QueryEditor() {
         open={showQueryExport}
         onOpenChange={setShowQueryExport}
         sql={tabQuery}
+        parameters={parameters.definitions}
         initialDatabaseContext={connection?.filename || connection?.path || ''}
         onExportComplete={() => {
           setShowQueryExport(false);
@@ -1088,6 +1385,16 @@ export function QueryEditor() {
         onOpenChange={setShowQueryImport}
         onImportComplete={(query) => {
           handleQueryChange(query.sql);
+          if (activeConnectionId && activeTabId) {
+            setTabSavedQuery(activeConnectionId, activeTabId, null);
+            if (query.parameters) {
+              setTabParameters(
+                activeConnectionId,
+                activeTabId,
+                query.parameters
+              );
+            }
+          }
           setShowQueryImport(false);
         }}
       />
@@ -1117,8 +1424,16 @@ export function QueryEditor() {
           }
         }}
         queryText={queryToSave || tabQuery}
+        parameters={queryToSave ? undefined : parameters.definitions}
         dbPath={connection?.path}
       />
+
+      <QueryHistoryDialog
+        open={showHistoryBrowser}
+        onOpenChange={setShowHistoryBrowser}
+        dbPath={connection?.path ?? null}
+        onOpenQuery={handleOpenHistoryQuery}
+      />
     </div>
   );
 }
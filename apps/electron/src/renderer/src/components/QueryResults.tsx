@@ -1,23 +1,60 @@
+import type { ExportFormat, StatementResult } from '@shared/types';
 import type { TableRowData } from './data-table';
 import type {
   ColumnSchema,
   QueryResult,
   QueryResultSet,
 } from '@/types/database';
+import { Button } from '@sqlpro/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@sqlpro/ui/dropdown-menu';
+import {
+  AlertCircle,
+  CheckCircle2,
+  CircleMinus,
+  Clock,
+  FileDown,
+  Loader2,
+  XCircle,
+} from 'lucide-react';
 import { useMemo, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { DataTable } from './data-table';
 
+/** Formats offered for exporting a full streamed result */
+const STREAM_EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'sql', label: 'SQL' },
+];
+
 interface QueryResultsProps {
   results: QueryResult;
+  /** Fetches the next page of a streamed result */
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  /** Exports the full result of a streamed query to a file */
+  onExportAll?: (format: ExportFormat) => void;
+  isExporting?: boolean;
+  /** Error from loading more rows or exporting */
+  streamError?: string | null;
 }
 
 interface SingleResultTableProps {
   columns: string[];
   rows: Record<string, unknown>[];
+  onEndReached?: () => void;
 }
 
-function SingleResultTable({ columns, rows }: SingleResultTableProps) {
+function SingleResultTable({
+  columns,
+  rows,
+  onEndReached,
+}: SingleResultTableProps) {
   // Convert simple column names to ColumnSchema objects for DataTable
   const tableColumns = useMemo<ColumnSchema[]>(() => {
     return columns.map((colName) => ({
@@ -51,11 +88,201 @@ function SingleResultTable({ columns, rows }: SingleResultTableProps) {
       data={data}
       editable={false}
       className="h-full"
+      onEndReached={onEndReached}
     />
   );
 }
 
-export function QueryResults({ results }: QueryResultsProps) {
+interface StreamStatusBarProps {
+  rowCount: number;
+  hasMore: boolean;
+  isLoadingMore?: boolean;
+  onExportAll?: (format: ExportFormat) => void;
+  isExporting?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Footer of a streamed result: rows loaded so far and the full export.
+ */
+function StreamStatusBar({
+  rowCount,
+  hasMore,
+  isLoadingMore,
+  onExportAll,
+  isExporting,
+  error,
+}: StreamStatusBarProps) {
+  return (
+    <div className="text-muted-foreground flex items-center gap-3 border-t px-4 py-1.5 text-xs">
+      <span data-testid="streamed-row-count">
+        {rowCount.toLocaleString()} rows loaded
+        {hasMore && ', scroll for more'}
+      </span>
+      {isLoadingMore && <Loader2 className="h-3 w-3 animate-spin" />}
+      {error && <span className="text-destructive truncate">{error}</span>}
+      {onExportAll && (
+        <DropdownMenu>
+          <DropdownMenuTrigger className="ml-auto">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 text-xs"
+              disabled={isExporting}
+              data-action="export-query-result"
+            >
+              {isExporting ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <FileDown className="h-3 w-3" />
+              )}
+              Export all
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {STREAM_EXPORT_FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onClick={() => onExportAll(format.value)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Summary of a statement's outcome for its tab header.
+ */
+function describeStatement(statement: StatementResult): string {
+  if (statement.skipped) return 'Not run';
+  if (!statement.success) return 'Failed';
+  if (statement.columns && statement.columns.length > 0) {
+    const count = statement.rows?.length ?? 0;
+    return `${count} ${count === 1 ? 'row' : 'rows'}`;
+  }
+  const affected = statement.rowsAffected ?? 0;
+  return `${affected} ${affected === 1 ? 'row' : 'rows'} affected`;
+}
+
+interface StatementResultsProps {
+  statements: StatementResult[];
+}
+
+/**
+ * Results of a script with one tab per statement, showing its SQL, duration,
+ * rows and error. The failed statement is shown first.
+ */
+function StatementResults({ statements }: StatementResultsProps) {
+  // The selection belongs to one run and resets with the next
+  const [selection, setSelection] = useState<{
+    statements: StatementResult[];
+    index: number;
+  } | null>(null);
+
+  const failedIndex = statements.findIndex((s) => !s.success && !s.skipped);
+  const activeIndex =
+    selection?.statements === statements
+      ? selection.index
+      : Math.max(failedIndex, 0);
+  const active = statements[activeIndex] ?? statements[0];
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Statement Tabs */}
+      <div className="bg-muted/30 flex items-center gap-1 overflow-x-auto border-b px-2 py-1">
+        {statements.map((statement, index) => (
+          <button
+            key={`statement-${statement.start}`}
+            onClick={() => setSelection({ statements, index })}
+            title={statement.sql}
+            className={cn(
+              'flex shrink-0 items-center gap-1.5 rounded px-3 py-1 text-xs font-medium transition-colors',
+              activeIndex === index
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:bg-background/50 hover:text-foreground'
+            )}
+          >
+            {statement.skipped ? (
+              <CircleMinus className="text-muted-foreground h-3 w-3" />
+            ) : statement.success ? (
+              <CheckCircle2 className="h-3 w-3 text-green-600" />
+            ) : (
+              <XCircle className="text-destructive h-3 w-3" />
+            )}
+            <span>Statement {index + 1}</span>
+            <span className="text-muted-foreground/70">
+              ({describeStatement(statement)})
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Statement Details */}
+      <div className="space-y-1 border-b px-4 py-2">
+        <pre className="bg-muted/50 max-h-24 overflow-auto rounded px-2 py-1 font-mono text-xs whitespace-pre-wrap">
+          {active.sql}
+        </pre>
+        <div className="text-muted-foreground flex items-center gap-4 text-xs">
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {active.executionTime.toFixed(2)}ms
+          </span>
+          <span>{describeStatement(active)}</span>
+          {active.lastInsertRowId !== undefined &&
+            active.lastInsertRowId > 0 && (
+              <span>Last Insert ID: {active.lastInsertRowId}</span>
+            )}
+        </div>
+      </div>
+
+      {/* Statement Outcome */}
+      <div className="min-h-0 flex-1">
+        {active.skipped ? (
+          <div className="text-muted-foreground flex h-full items-center justify-center">
+            <p>Not run because an earlier statement failed or was stopped</p>
+          </div>
+        ) : !active.success ? (
+          <div className="flex h-full items-center justify-center p-4">
+            <div className="border-destructive/50 bg-destructive/10 flex max-w-md items-start gap-3 rounded-lg border p-4">
+              <AlertCircle className="text-destructive h-5 w-5 shrink-0" />
+              <div>
+                <p className="text-destructive font-medium">Statement Error</p>
+                <p className="text-destructive/80 mt-1 text-sm">
+                  {active.error}
+                </p>
+                {active.errorPosition && (
+                  <p className="text-destructive/70 mt-1 text-xs">
+                    Line {active.errorPosition.line}, column{' '}
+                    {active.errorPosition.column}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <SingleResultTable
+            columns={active.columns ?? []}
+            rows={active.rows ?? []}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function QueryResults({
+  results,
+  onLoadMore,
+  isLoadingMore,
+  onExportAll,
+  isExporting,
+  streamError,
+}: QueryResultsProps) {
   const [activeResultIndex, setActiveResultIndex] = useState(0);
 
   // Check if we have multiple result sets
@@ -71,6 +298,11 @@ export function QueryResults({ results }: QueryResultsProps) {
     return [{ columns: results.columns, rows: results.rows }];
   }, [results]);
 
+  // Script - one tab per statement
+  if (results.statements && results.statements.length > 1) {
+    return <StatementResults statements={results.statements} />;
+  }
+
   // Handle case where no results
   if (
     resultSets.length === 0 ||
@@ -83,6 +315,29 @@ export function QueryResults({ results }: QueryResultsProps) {
     );
   }
 
+  // Streamed result - load pages as the grid scrolls
+  if (results.query) {
+    return (
+      <div className="flex h-full flex-col">
+        <div className="min-h-0 flex-1">
+          <SingleResultTable
+            columns={results.columns}
+            rows={results.rows}
+            onEndReached={results.hasMore ? onLoadMore : undefined}
+          />
+        </div>
+        <StreamStatusBar
+          rowCount={results.rows.length}
+          hasMore={results.hasMore ?? false}
+          isLoadingMore={isLoadingMore}
+          onExportAll={onExportAll}
+          isExporting={isExporting}
+          error={streamError}
+        />
+      </div>
+    );
+  }
+
   // Single result set - show directly
   if (!hasMultipleResults) {
     return (
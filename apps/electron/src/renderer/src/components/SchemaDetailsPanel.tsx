@@ -2,6 +2,7 @@ import type {
   ColumnSchema,
   ForeignKeySchema,
   IndexSchema,
+  PolicySchema,
   TableSchema,
   TriggerSchema,
 } from '@/types/database';
@@ -15,23 +16,33 @@ import {
   Eye,
   Key,
   Link2,
+  ShieldCheck,
   Table,
   X,
   Zap,
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { SqlHighlight } from '@/components/ui/sql-highlight';
 import { cn } from '@/lib/utils';
 
 interface SchemaDetailsPanelProps {
   table: TableSchema | null;
+  /** Column to highlight and scroll into view */
+  highlightColumn?: string;
   onClose: () => void;
 }
 
-type SectionKey = 'columns' | 'indexes' | 'foreignKeys' | 'triggers' | 'sql';
+type SectionKey =
+  | 'columns'
+  | 'indexes'
+  | 'foreignKeys'
+  | 'triggers'
+  | 'policies'
+  | 'sql';
 
 export function SchemaDetailsPanel({
   table,
+  highlightColumn,
   onClose,
 }: SchemaDetailsPanelProps) {
   const [expandedSections, setExpandedSections] = useState<
@@ -41,6 +52,7 @@ export function SchemaDetailsPanel({
     indexes: true,
     foreignKeys: true,
     triggers: true,
+    policies: true,
     sql: true,
   });
 
@@ -82,7 +94,12 @@ export function SchemaDetailsPanel({
           <div>
             <h2 className="font-semibold">{table.name}</h2>
             <p className="text-muted-foreground text-sm">
-              {isView ? 'View' : 'Table'} in {table.schema}
+              {table.materialized
+                ? 'Materialized view'
+                : isView
+                  ? 'View'
+                  : 'Table'}{' '}
+              in {table.schema}
             </p>
           </div>
         </div>
@@ -105,6 +122,7 @@ export function SchemaDetailsPanel({
             <ColumnsTable
               columns={table.columns}
               primaryKey={table.primaryKey}
+              highlightColumn={highlightColumn}
             />
           </Section>
 
@@ -147,6 +165,22 @@ export function SchemaDetailsPanel({
             </Section>
           )}
 
+          {/* Row Level Security Section (PostgreSQL tables) */}
+          {!isView && table.rowLevelSecurity !== undefined && (
+            <Section
+              title="Row Level Security"
+              icon={<ShieldCheck className="h-4 w-4" />}
+              count={table.policies?.length ?? 0}
+              isExpanded={expandedSections.policies}
+              onToggle={() => toggleSection('policies')}
+            >
+              <PoliciesList
+                enabled={table.rowLevelSecurity}
+                policies={table.policies ?? []}
+              />
+            </Section>
+          )}
+
           {/* CREATE Statement Section */}
           {table.sql && (
             <Section
@@ -208,9 +242,20 @@ function Section({
 interface ColumnsTableProps {
   columns: ColumnSchema[];
   primaryKey: string[];
+  highlightColumn?: string;
 }
 
-function ColumnsTable({ columns, primaryKey }: ColumnsTableProps) {
+function ColumnsTable({
+  columns,
+  primaryKey,
+  highlightColumn,
+}: ColumnsTableProps) {
+  const highlightedRowRef = useRef<HTMLTableRowElement | null>(null);
+
+  useEffect(() => {
+    highlightedRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [highlightColumn, columns]);
+
   if (columns.length === 0) {
     return (
       <div className="text-muted-foreground py-2 text-sm">
@@ -236,7 +281,18 @@ function ColumnsTable({ columns, primaryKey }: ColumnsTableProps) {
             const isPK =
               primaryKey.includes(column.name) || column.isPrimaryKey;
             return (
-              <tr key={column.name} className="border-b last:border-0">
+              <tr
+                key={column.name}
+                ref={
+                  column.name === highlightColumn
+                    ? highlightedRowRef
+                    : undefined
+                }
+                className={cn(
+                  'border-b last:border-0',
+                  column.name === highlightColumn && 'bg-primary/10'
+                )}
+              >
                 <td className="py-2 pr-4 font-mono text-xs">{column.name}</td>
                 <td className="py-2 pr-4">
                   <span className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs">
@@ -382,6 +438,59 @@ function TriggersList({ triggers }: TriggersListProps) {
   );
 }
 
+interface PoliciesListProps {
+  enabled: boolean;
+  policies: PolicySchema[];
+}
+
+function PoliciesList({ enabled, policies }: PoliciesListProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-muted-foreground text-xs">
+        {enabled
+          ? 'RLS is enabled: only rows allowed by a policy are visible to non-bypassing roles.'
+          : 'RLS is disabled: every role with table privileges sees all rows.'}
+      </p>
+      {policies.map((policy) => (
+        <div key={policy.name} className="bg-background rounded border p-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-xs font-medium">{policy.name}</span>
+            <span className="rounded bg-blue-100 px-1.5 py-0.5 text-xs text-blue-700 dark:bg-blue-950 dark:text-blue-300">
+              {policy.command}
+            </span>
+            {!policy.permissive && (
+              <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-700 dark:bg-amber-950 dark:text-amber-300">
+                RESTRICTIVE
+              </span>
+            )}
+            <span className="text-muted-foreground text-xs">
+              TO {policy.roles.join(', ')}
+            </span>
+          </div>
+          {policy.using && (
+            <div className="mt-2">
+              <span className="text-muted-foreground text-xs">USING</span>
+              <SqlHighlight
+                code={policy.using}
+                className="bg-muted rounded p-2"
+              />
+            </div>
+          )}
+          {policy.withCheck && (
+            <div className="mt-2">
+              <span className="text-muted-foreground text-xs">WITH CHECK</span>
+              <SqlHighlight
+                code={policy.withCheck}
+                className="bg-muted rounded p-2"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface SqlBlockProps {
   sql: string;
 }
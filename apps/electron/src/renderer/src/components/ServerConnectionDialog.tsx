@@ -3,11 +3,23 @@
  * Dialog for configuring MySQL, PostgreSQL, and Supabase connections
  */
 
-import type { DatabaseConnectionConfig, DatabaseType } from '@shared/types';
+import type {
+  DatabaseConnectionConfig,
+  DatabaseType,
+  SshTunnelConfig,
+  SupabaseRole,
+} from '@shared/types';
 import { Button } from '@sqlpro/ui/button';
 import { Checkbox } from '@sqlpro/ui/checkbox';
 import { Input } from '@sqlpro/ui/input';
 import { Label } from '@sqlpro/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@sqlpro/ui/select';
 import { useEffect, useState } from 'react';
 import {
   Dialog,
@@ -36,7 +48,10 @@ interface ServerConnectionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   databaseType: DatabaseType;
-  onConnect: (config: DatabaseConnectionConfig) => void;
+  onConnect: (
+    config: DatabaseConnectionConfig,
+    rememberPassword: boolean
+  ) => void;
   isConnecting?: boolean;
   error?: string | null;
 }
@@ -60,10 +75,29 @@ export function ServerConnectionDialog({
   const [displayName, setDisplayName] = useState('');
   const [useSSL, setUseSSL] = useState(isSupabase); // Supabase always uses SSL
   const [readOnly, setReadOnly] = useState(false);
+  const [poolSize, setPoolSize] = useState('');
+  const [rememberPassword, setRememberPassword] = useState(true);
+
+  // SSH tunnel (MySQL/PostgreSQL)
+  const [useSsh, setUseSsh] = useState(false);
+  const [sshHost, setSshHost] = useState('');
+  const [sshPort, setSshPort] = useState('22');
+  const [sshUsername, setSshUsername] = useState('');
+  const [sshAuthMethod, setSshAuthMethod] =
+    useState<SshTunnelConfig['authMethod']>('password');
+  const [sshPassword, setSshPassword] = useState('');
+  const [sshKeyPath, setSshKeyPath] = useState('');
+  const [sshPassphrase, setSshPassphrase] = useState('');
+  const [verifyHostKey, setVerifyHostKey] = useState(true);
+  const [knownHostsPath, setKnownHostsPath] = useState('');
 
   // Supabase-specific
   const [supabaseUrl, setSupabaseUrl] = useState('');
   const [supabaseKey, setSupabaseKey] = useState('');
+  const [supabaseServiceKey, setSupabaseServiceKey] = useState('');
+  const [supabaseAnonKey, setSupabaseAnonKey] = useState('');
+  const [supabaseRole, setSupabaseRole] =
+    useState<SupabaseRole>('service_role');
 
   // Reset form when dialog opens or database type changes
   useEffect(() => {
@@ -76,8 +110,23 @@ export function ServerConnectionDialog({
       setDisplayName('');
       setUseSSL(databaseType === 'supabase');
       setReadOnly(false);
+      setPoolSize('');
+      setRememberPassword(true);
+      setUseSsh(false);
+      setSshHost('');
+      setSshPort('22');
+      setSshUsername('');
+      setSshAuthMethod('password');
+      setSshPassword('');
+      setSshKeyPath('');
+      setSshPassphrase('');
+      setVerifyHostKey(true);
+      setKnownHostsPath('');
       setSupabaseUrl('');
       setSupabaseKey('');
+      setSupabaseServiceKey('');
+      setSupabaseAnonKey('');
+      setSupabaseRole('service_role');
     }
   }, [open, databaseType]);
 
@@ -92,9 +141,21 @@ export function ServerConnectionDialog({
       readOnly,
     };
 
+    const sessions = Number.parseInt(poolSize, 10);
+    if (sessions > 0) {
+      config.poolSize = sessions;
+    }
+
     if (isSupabase) {
       config.supabaseUrl = supabaseUrl;
-      config.supabaseKey = supabaseKey;
+      config.supabaseKey = supabaseKey || undefined;
+      config.supabaseServiceKey = supabaseServiceKey || undefined;
+      config.supabaseAnonKey = supabaseAnonKey || undefined;
+      // Start as anon only when asked to, or when no service key is available
+      config.supabaseRole =
+        supabaseRole === 'anon' || (!supabaseServiceKey && supabaseAnonKey)
+          ? 'anon'
+          : 'service_role';
       config.ssl = true;
       // Pass host if user provided one (for pooler connections)
       if (host) {
@@ -115,14 +176,35 @@ export function ServerConnectionDialog({
       config.username = username;
       config.password = password;
       config.ssl = useSSL;
+
+      if (useSsh) {
+        config.ssh = {
+          host: sshHost,
+          port: Number.parseInt(sshPort, 10) || 22,
+          username: sshUsername,
+          authMethod: sshAuthMethod,
+          hostKeyVerification: verifyHostKey ? 'known-hosts' : 'none',
+          knownHostsPath: knownHostsPath || undefined,
+        };
+        if (sshAuthMethod === 'privateKey') {
+          config.ssh.privateKeyPath = sshKeyPath;
+          config.ssh.passphrase = sshPassphrase || undefined;
+        } else {
+          config.ssh.password = sshPassword;
+        }
+      }
     }
 
-    onConnect(config);
+    onConnect(config, rememberPassword);
   };
 
+  const isSshValid =
+    !useSsh ||
+    (sshHost && sshUsername && (sshAuthMethod === 'password' || sshKeyPath));
+
   const isFormValid = isSupabase
-    ? supabaseUrl && supabaseKey
-    : host && database;
+    ? supabaseUrl && (supabaseKey || supabaseServiceKey || supabaseAnonKey)
+    : host && database && isSshValid;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -232,22 +314,69 @@ export function ServerConnectionDialog({
 
                 {/* Supabase Key/Password */}
                 <div className="space-y-2">
-                  <Label htmlFor="supabaseKey">
-                    Database Password{' '}
-                    <span className="text-destructive">*</span>
-                  </Label>
+                  <Label htmlFor="supabaseKey">Database Password</Label>
                   <Input
                     id="supabaseKey"
                     type="password"
                     placeholder="Your database password"
                     value={supabaseKey}
                     onChange={(e) => setSupabaseKey(e.target.value)}
-                    required
                   />
                   <p className="text-muted-foreground text-xs">
-                    The password you set when creating the project
+                    The password you set when creating the project. Without it,
+                    tables are browsed through the REST API using the keys
+                    below.
                   </p>
                 </div>
+
+                {/* API keys for the REST fallback */}
+                <div className="space-y-2">
+                  <Label htmlFor="supabaseServiceKey">Service Role Key</Label>
+                  <Input
+                    id="supabaseServiceKey"
+                    type="password"
+                    placeholder="eyJhbGciOi..."
+                    value={supabaseServiceKey}
+                    onChange={(e) => setSupabaseServiceKey(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="supabaseAnonKey">Anon Key</Label>
+                  <Input
+                    id="supabaseAnonKey"
+                    type="password"
+                    placeholder="eyJhbGciOi..."
+                    value={supabaseAnonKey}
+                    onChange={(e) => setSupabaseAnonKey(e.target.value)}
+                  />
+                  <p className="text-muted-foreground text-xs">
+                    Found under Project Settings → API. The service role key
+                    bypasses Row Level Security; the anon key does not.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="supabaseRole">Connect As</Label>
+                  <Select
+                    value={supabaseRole}
+                    onValueChange={(value) =>
+                      setSupabaseRole(
+                        value === 'anon' ? 'anon' : 'service_role'
+                      )
+                    }
+                  >
+                    <SelectTrigger id="supabaseRole" className="w-full">
+                      <SelectValue>
+                        {supabaseRole === 'anon' ? 'Anon' : 'Service role'}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="service_role">Service role</SelectItem>
+                      <SelectItem value="anon">Anon</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </>
             ) : (
               <>
@@ -327,9 +456,175 @@ export function ServerConnectionDialog({
                     Use SSL/TLS
                   </Label>
                 </div>
+
+                {/* SSH tunnel */}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="useSsh"
+                    checked={useSsh}
+                    onCheckedChange={(checked) => setUseSsh(checked === true)}
+                  />
+                  <Label htmlFor="useSsh" className="font-normal">
+                    Connect through SSH tunnel
+                  </Label>
+                </div>
+
+                {useSsh && (
+                  <div className="space-y-4 rounded-md border p-3">
+                    <div className="flex gap-2">
+                      <div className="flex-1 space-y-2">
+                        <Label htmlFor="sshHost">
+                          SSH Host <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                          id="sshHost"
+                          placeholder="bastion.example.com"
+                          value={sshHost}
+                          onChange={(e) => setSshHost(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <div className="w-24 space-y-2">
+                        <Label htmlFor="sshPort">Port</Label>
+                        <Input
+                          id="sshPort"
+                          type="number"
+                          placeholder="22"
+                          value={sshPort}
+                          onChange={(e) => setSshPort(e.target.value)}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="sshUsername">
+                        SSH User <span className="text-destructive">*</span>
+                      </Label>
+                      <Input
+                        id="sshUsername"
+                        placeholder="ubuntu"
+                        value={sshUsername}
+                        onChange={(e) => setSshUsername(e.target.value)}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="sshAuthMethod">Authentication</Label>
+                      <Select
+                        value={sshAuthMethod}
+                        onValueChange={(value) =>
+                          setSshAuthMethod(
+                            value === 'privateKey' ? 'privateKey' : 'password'
+                          )
+                        }
+                      >
+                        <SelectTrigger id="sshAuthMethod" className="w-full">
+                          <SelectValue>
+                            {sshAuthMethod === 'privateKey'
+                              ? 'Private key'
+                              : 'Password'}
+                          </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="password">Password</SelectItem>
+                          <SelectItem value="privateKey">
+                            Private key
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {sshAuthMethod === 'privateKey' ? (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="sshKeyPath">
+                            Private Key File{' '}
+                            <span className="text-destructive">*</span>
+                          </Label>
+                          <Input
+                            id="sshKeyPath"
+                            placeholder="~/.ssh/id_ed25519"
+                            value={sshKeyPath}
+                            onChange={(e) => setSshKeyPath(e.target.value)}
+                            required
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="sshPassphrase">Passphrase</Label>
+                          <Input
+                            id="sshPassphrase"
+                            type="password"
+                            placeholder="Leave empty if the key is not encrypted"
+                            value={sshPassphrase}
+                            onChange={(e) => setSshPassphrase(e.target.value)}
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="sshPassword">SSH Password</Label>
+                        <Input
+                          id="sshPassword"
+                          type="password"
+                          placeholder="••••••••"
+                          value={sshPassword}
+                          onChange={(e) => setSshPassword(e.target.value)}
+                        />
+                      </div>
+                    )}
+
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="verifyHostKey"
+                        checked={verifyHostKey}
+                        onCheckedChange={(checked) =>
+                          setVerifyHostKey(checked === true)
+                        }
+                      />
+                      <Label htmlFor="verifyHostKey" className="font-normal">
+                        Verify host key against known_hosts
+                      </Label>
+                    </div>
+
+                    {verifyHostKey && (
+                      <div className="space-y-2">
+                        <Label htmlFor="knownHostsPath">
+                          known_hosts File{' '}
+                          <span className="text-muted-foreground text-xs">
+                            (optional)
+                          </span>
+                        </Label>
+                        <Input
+                          id="knownHostsPath"
+                          placeholder="~/.ssh/known_hosts"
+                          value={knownHostsPath}
+                          onChange={(e) => setKnownHostsPath(e.target.value)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
               </>
             )}
 
+            {/* Pool size */}
+            <div className="space-y-2">
+              <Label htmlFor="poolSize">Pool Size</Label>
+              <Input
+                id="poolSize"
+                type="number"
+                min={1}
+                placeholder="5"
+                value={poolSize}
+                onChange={(e) => setPoolSize(e.target.value)}
+              />
+              <p className="text-muted-foreground text-xs">
+                Most sessions open on the server at once. Pinned query tabs and
+                streamed results hold one of them until they are done.
+              </p>
+            </div>
+
             {/* Read-only */}
             <div className="flex items-center gap-2">
               <Checkbox
@@ -342,6 +637,20 @@ export function ServerConnectionDialog({
               </Label>
             </div>
 
+            {/* Remember passwords */}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="rememberPassword"
+                checked={rememberPassword}
+                onCheckedChange={(checked) =>
+                  setRememberPassword(checked === true)
+                }
+              />
+              <Label htmlFor="rememberPassword" className="font-normal">
+                Remember passwords securely
+              </Label>
+            </div>
+
             {/* Error message */}
             {error && (
               <div className="border-destructive/50 bg-destructive/10 text-destructive rounded-md border p-3 text-sm">
@@ -1,3 +1,9 @@
+import type {
+  CustomTypeInfo,
+  ExtensionInfo,
+  RoutineInfo,
+  SequenceInfo,
+} from '@shared/types';
 import type { SchemaInfo, TableSchema, TriggerSchema } from '@/types/database';
 import {
   AlertDialog,
@@ -45,11 +51,18 @@ import {
   FileDown,
   FileSearch,
   Filter,
+  Layers,
+  ListOrdered,
   Pin,
   PinOff,
+  Puzzle,
+  RefreshCw,
   Search,
   Settings,
+  Shapes,
+  ShieldCheck,
   SortAsc,
+  SquareFunction,
   Table,
   Tag,
   Trash2,
@@ -71,8 +84,10 @@ import {
   useTableOrganizationStore,
 } from '@/stores';
 import { ConnectionSelector } from './ConnectionSelector';
+import { PoolStatusIndicator } from './PoolStatusIndicator';
 import { SettingsDialog } from './SettingsDialog';
 import { SchemaExportDialog } from './sharing/SchemaExportDialog';
+import { SupabaseRoleSwitcher } from './SupabaseRoleSwitcher';
 
 interface SidebarProps {
   onOpenDatabase?: () => void;
@@ -306,6 +321,42 @@ export function Sidebar({
     [activeConnectionId, createTab, onSwitchToQuery]
   );
 
+  const handleOpenDefinition = useCallback(
+    (title: string, sql: string) => {
+      if (!activeConnectionId) return;
+      createTab(activeConnectionId, title, sql);
+      onSwitchToQuery?.();
+    },
+    [activeConnectionId, createTab, onSwitchToQuery]
+  );
+
+  const handleRefreshMaterializedView = useCallback(
+    async (table: TableSchema) => {
+      if (!connection) return;
+      const query = `REFRESH MATERIALIZED VIEW "${table.schema}"."${table.name}";`;
+      try {
+        const result = await sqlPro.db.executeQuery({
+          connectionId: connection.id,
+          query,
+        });
+        if (!result.success) {
+          console.error('Failed to refresh materialized view:', result.error);
+          return;
+        }
+        // Show the refreshed rows if the view is open
+        if (
+          selectedTable?.name === table.name &&
+          selectedTable?.schema === table.schema
+        ) {
+          handleSelectTable(table);
+        }
+      } catch (err) {
+        console.error('Failed to refresh materialized view:', err);
+      }
+    },
+    [connection, selectedTable, handleSelectTable]
+  );
+
   // Show schema export dialog
   const handleExportSchema = useCallback(() => {
     setShowSchemaExport(true);
@@ -356,7 +407,11 @@ export function Sidebar({
     if (!table || !connection || !activeConnectionId) return;
     const schemaPrefix =
       table.schema && table.schema !== 'main' ? `"${table.schema}".` : '';
-    const objectType = table.type === 'view' ? 'VIEW' : 'TABLE';
+    const objectType = table.materialized
+      ? 'MATERIALIZED VIEW'
+      : table.type === 'view'
+        ? 'VIEW'
+        : 'TABLE';
     const query = `DROP ${objectType} ${schemaPrefix}"${table.name}";`;
     try {
       await sqlPro.db.executeQuery({
@@ -467,6 +522,15 @@ export function Sidebar({
         const triggers = allTriggers.filter((tr) =>
           tr.name.toLowerCase().includes(searchQuery.toLowerCase())
         );
+        const matchesSearch = (o: { name: string }) =>
+          o.name.toLowerCase().includes(searchQuery.toLowerCase());
+        const materializedViews = sortTables(
+          filterByTag((s.materializedViews ?? []).filter(matchesSearch))
+        );
+        const routines = (s.routines ?? []).filter(matchesSearch);
+        const sequences = (s.sequences ?? []).filter(matchesSearch);
+        const types = (s.types ?? []).filter(matchesSearch);
+        const extensions = (s.extensions ?? []).filter(matchesSearch);
 
         // Filter by active tag
         tables = filterByTag(tables);
@@ -481,6 +545,11 @@ export function Sidebar({
           tables,
           views,
           triggers,
+          materializedViews,
+          routines,
+          sequences,
+          types,
+          extensions,
         };
       })
       .filter(
@@ -488,6 +557,11 @@ export function Sidebar({
           s.tables.length > 0 ||
           s.views.length > 0 ||
           s.triggers.length > 0 ||
+          s.materializedViews.length > 0 ||
+          s.routines.length > 0 ||
+          s.sequences.length > 0 ||
+          s.types.length > 0 ||
+          s.extensions.length > 0 ||
           !searchQuery
       );
   }, [
@@ -672,11 +746,13 @@ export function Sidebar({
       onKeyDown={handleKeyDown}
     >
       {/* Connection Selector */}
-      <div className="border-b p-2">
+      <div className="space-y-2 border-b p-2">
         <ConnectionSelector
           onOpenDatabase={onOpenDatabase}
           onOpenRecentConnection={onOpenRecentConnection}
         />
+        {connection?.supabase && <SupabaseRoleSwitcher />}
+        <PoolStatusIndicator />
       </div>
 
       {/* Search */}
@@ -874,6 +950,8 @@ export function Sidebar({
                   onExportSchema={handleExportSchema}
                   onTruncateTable={handleTruncateTableRequest}
                   onDropTable={handleDropTableRequest}
+                  onRefreshMaterializedView={handleRefreshMaterializedView}
+                  onOpenDefinition={handleOpenDefinition}
                   connectionPath={connection?.path || ''}
                   availableTags={availableTags}
                   getTableMetadata={getTableMetadata}
@@ -992,7 +1070,14 @@ export function Sidebar({
 }
 
 interface SchemaSectionProps {
-  schemaInfo: SchemaInfo & { triggers: TriggerSchema[] };
+  schemaInfo: SchemaInfo & {
+    triggers: TriggerSchema[];
+    materializedViews: TableSchema[];
+    routines: RoutineInfo[];
+    sequences: SequenceInfo[];
+    types: CustomTypeInfo[];
+    extensions: ExtensionInfo[];
+  };
   showSchemaHeader: boolean;
   isSchemaExpanded: boolean;
   onToggleSchema: () => void;
@@ -1013,6 +1098,8 @@ interface SchemaSectionProps {
   onExportSchema: () => void;
   onTruncateTable: (table: TableSchema) => void;
   onDropTable: (table: TableSchema) => void;
+  onRefreshMaterializedView: (table: TableSchema) => void;
+  onOpenDefinition: (title: string, sql: string) => void;
   // Tag and organization props
   connectionPath: string;
   availableTags: string[];
@@ -1045,6 +1132,8 @@ function SchemaSection({
   onExportSchema,
   onTruncateTable,
   onDropTable,
+  onRefreshMaterializedView,
+  onOpenDefinition,
   connectionPath,
   availableTags,
   getTableMetadata,
@@ -1059,6 +1148,9 @@ function SchemaSection({
   const tablesExpanded = expandedSections[tablesKey] !== false;
   const viewsExpanded = expandedSections[viewsKey] !== false;
   const triggersExpanded = expandedSections[triggersKey] !== false;
+  const materializedViewsKey = `${schemaInfo.name}:materializedViews`;
+  const materializedViewsExpanded =
+    expandedSections[materializedViewsKey] !== false;
 
   return (
     <div className="mb-2 min-w-0 overflow-hidden">
@@ -1200,6 +1292,129 @@ function SchemaSection({
             </div>
           )}
 
+          {/* Materialized Views Section (PostgreSQL) */}
+          {schemaInfo.materializedViews.length > 0 && (
+            <div className="mb-1">
+              <button
+                onClick={() => onToggleSection(materializedViewsKey)}
+                className="text-muted-foreground hover:bg-accent flex w-full items-center gap-1 rounded px-2 py-1 font-medium"
+              >
+                {materializedViewsExpanded ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+                Materialized Views ({schemaInfo.materializedViews.length})
+              </button>
+              {materializedViewsExpanded && (
+                <div className="mt-1 space-y-0.5">
+                  {schemaInfo.materializedViews.map((view) => {
+                    const tableKey = getTableKey(
+                      connectionPath,
+                      view.schema,
+                      view.name
+                    );
+                    const metadata = getTableMetadata(tableKey);
+                    return (
+                      <TableItem
+                        key={`${view.schema}:${view.name}`}
+                        table={view}
+                        isSelected={
+                          selectedTable?.name === view.name &&
+                          selectedTable?.schema === view.schema
+                        }
+                        onClick={() => onSelectTable(view)}
+                        onCopyTableName={() => onCopyTableName(view)}
+                        onCopyCreateStatement={() =>
+                          onCopyCreateStatement(view)
+                        }
+                        onOpenInQueryEditor={() => onOpenInQueryEditor(view)}
+                        onExportSchema={onExportSchema}
+                        onTruncateTable={() => onTruncateTable(view)}
+                        onDropTable={() => onDropTable(view)}
+                        onRefreshMaterializedView={() =>
+                          onRefreshMaterializedView(view)
+                        }
+                        isView
+                        tableKey={tableKey}
+                        tags={metadata.tags}
+                        isPinned={metadata.pinned}
+                        availableTags={availableTags}
+                        onAddTag={(tag) => onAddTableTag(tableKey, tag)}
+                        onRemoveTag={(tag) => onRemoveTableTag(tableKey, tag)}
+                        onTogglePinned={() =>
+                          onTogglePinned(tableKey, !metadata.pinned)
+                        }
+                      />
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Routines, Sequences, Types and Extensions (PostgreSQL) */}
+          <SchemaObjectList
+            title="Routines"
+            icon={SquareFunction}
+            sectionKey={`${schemaInfo.name}:routines`}
+            expandedSections={expandedSections}
+            onToggleSection={onToggleSection}
+            onOpenDefinition={onOpenDefinition}
+            items={schemaInfo.routines.map((r) => ({
+              key: `${r.name}(${r.arguments})`,
+              name: r.name,
+              detail: r.kind === 'function' ? r.returnType : r.kind,
+              title: `${r.name}(${r.arguments})`,
+              sql: r.sql,
+            }))}
+          />
+          <SchemaObjectList
+            title="Sequences"
+            icon={ListOrdered}
+            sectionKey={`${schemaInfo.name}:sequences`}
+            expandedSections={expandedSections}
+            onToggleSection={onToggleSection}
+            onOpenDefinition={onOpenDefinition}
+            items={schemaInfo.sequences.map((seq) => ({
+              key: seq.name,
+              name: seq.name,
+              detail: seq.ownedBy,
+              title: seq.name,
+              sql: seq.sql,
+            }))}
+          />
+          <SchemaObjectList
+            title="Types"
+            icon={Shapes}
+            sectionKey={`${schemaInfo.name}:types`}
+            expandedSections={expandedSections}
+            onToggleSection={onToggleSection}
+            onOpenDefinition={onOpenDefinition}
+            items={schemaInfo.types.map((t) => ({
+              key: t.name,
+              name: t.name,
+              detail: t.kind === 'enum' ? 'enum' : t.baseType,
+              title: t.kind === 'enum' ? t.values?.join(', ') : t.baseType,
+              sql: t.sql,
+            }))}
+          />
+          <SchemaObjectList
+            title="Extensions"
+            icon={Puzzle}
+            sectionKey={`${schemaInfo.name}:extensions`}
+            expandedSections={expandedSections}
+            onToggleSection={onToggleSection}
+            onOpenDefinition={onOpenDefinition}
+            items={schemaInfo.extensions.map((e) => ({
+              key: e.name,
+              name: e.name,
+              detail: e.version,
+              title: `${e.name} ${e.version}`,
+              sql: e.sql,
+            }))}
+          />
+
           {/* Triggers Section */}
           {schemaInfo.triggers.length > 0 && (
             <div>
@@ -1243,6 +1458,8 @@ interface TableItemProps {
   onExportSchema: () => void;
   onTruncateTable: () => void;
   onDropTable: () => void;
+  /** Only passed for materialized views */
+  onRefreshMaterializedView?: () => void;
   isView?: boolean;
   // Tag and organization props
   tableKey: string;
@@ -1265,6 +1482,7 @@ function TableItem({
   onExportSchema,
   onTruncateTable,
   onDropTable,
+  onRefreshMaterializedView,
   isView,
   tags,
   isPinned,
@@ -1296,7 +1514,9 @@ function TableItem({
           )}
         >
           {isPinned && <Pin className="text-primary h-3 w-3 shrink-0" />}
-          {isView ? (
+          {table.materialized ? (
+            <Layers className="text-muted-foreground h-4 w-4 shrink-0" />
+          ) : isView ? (
             <Eye className="text-muted-foreground h-4 w-4 shrink-0" />
           ) : (
             <Table className="text-muted-foreground h-4 w-4 shrink-0" />
@@ -1304,6 +1524,16 @@ function TableItem({
           <span className="min-w-0 flex-1 truncate text-left">
             {table.name}
           </span>
+          {table.rowLevelSecurity && (
+            <Tooltip>
+              <TooltipTrigger>
+                <ShieldCheck className="h-3 w-3 shrink-0 text-green-600 dark:text-green-400" />
+              </TooltipTrigger>
+              <TooltipContent>
+                Row Level Security ({table.policies?.length ?? 0} policies)
+              </TooltipContent>
+            </Tooltip>
+          )}
           {tags.length > 0 && (
             <div className="flex shrink-0 gap-0.5">
               {tags.slice(0, 2).map((tag) => (
@@ -1334,6 +1564,12 @@ function TableItem({
           <FileSearch className="size-4" />
           Open in Query Editor
         </ContextMenuItem>
+        {onRefreshMaterializedView && (
+          <ContextMenuItem onClick={onRefreshMaterializedView}>
+            <RefreshCw className="size-4" />
+            Refresh Materialized View
+          </ContextMenuItem>
+        )}
         <ContextMenuSeparator />
         <ContextMenuItem onClick={onTogglePinned}>
           {isPinned ? (
@@ -1438,13 +1674,111 @@ function TableItem({
         )}
         <ContextMenuItem variant="destructive" onClick={onDropTable}>
           <Trash2 className="size-4" />
-          Drop {isView ? 'View' : 'Table'}
+          Drop{' '}
+          {table.materialized ? 'Materialized View' : isView ? 'View' : 'Table'}
         </ContextMenuItem>
       </ContextMenuContent>
     </ContextMenu>
   );
 }
 
+interface SchemaObjectListProps {
+  title: string;
+  icon: React.ElementType;
+  sectionKey: string;
+  expandedSections: Record<string, boolean>;
+  onToggleSection: (key: string) => void;
+  onOpenDefinition: (title: string, sql: string) => void;
+  items: Array<{
+    key: string;
+    name: string;
+    /** Short text shown to the right, e.g. a return type or version */
+    detail?: string | null;
+    /** Tooltip text */
+    title?: string;
+    sql: string;
+  }>;
+}
+
+/**
+ * Collapsible list of routines, sequences, types or extensions. Clicking an
+ * item opens its definition in the query editor.
+ */
+function SchemaObjectList({
+  title,
+  icon: Icon,
+  sectionKey,
+  expandedSections,
+  onToggleSection,
+  onOpenDefinition,
+  items,
+}: SchemaObjectListProps) {
+  if (items.length === 0) return null;
+  const isExpanded = expandedSections[sectionKey] !== false;
+
+  return (
+    <div className="mb-1">
+      <button
+        onClick={() => onToggleSection(sectionKey)}
+        className="text-muted-foreground hover:bg-accent flex w-full items-center gap-1 rounded px-2 py-1 font-medium"
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        {title} ({items.length})
+      </button>
+      {isExpanded && (
+        <div className="mt-1 space-y-0.5">
+          {items.map((item) => (
+            <ContextMenu key={item.key}>
+              <ContextMenuTrigger>
+                <button
+                  onClick={() => onOpenDefinition(item.name, item.sql)}
+                  title={item.title}
+                  className="text-foreground hover:bg-accent/50 flex w-full items-center gap-2 overflow-hidden rounded px-2 py-1.5 transition-colors"
+                >
+                  <Icon className="text-muted-foreground h-4 w-4 shrink-0" />
+                  <span className="min-w-0 flex-1 truncate text-left">
+                    {item.name}
+                  </span>
+                  {item.detail && (
+                    <span className="text-muted-foreground max-w-[40%] shrink-0 truncate">
+                      {item.detail}
+                    </span>
+                  )}
+                </button>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <ContextMenuItem
+                  onClick={() => onOpenDefinition(item.name, item.sql)}
+                >
+                  <FileSearch className="size-4" />
+                  Open Definition in Query Editor
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem
+                  onClick={() => navigator.clipboard.writeText(item.name)}
+                >
+                  <Copy className="size-4" />
+                  Copy Name
+                </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={() => navigator.clipboard.writeText(item.sql)}
+                >
+                  <Code className="size-4" />
+                  Copy Definition
+                </ContextMenuItem>
+              </ContextMenuContent>
+            </ContextMenu>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface TriggerItemProps {
   trigger: TriggerSchema;
 }
@@ -1,6 +1,18 @@
-import type { SqlLogEntry, SqlLogLevel } from '@/types/sql-log';
+import type { SqlLogTimeRange } from '@/stores/sql-log-store';
+import type {
+  SqlLogEntry,
+  SqlLogExportFormat,
+  SqlLogLevel,
+  SqlLogOperation,
+} from '@/types/sql-log';
 import { Badge } from '@sqlpro/ui/badge';
 import { Button } from '@sqlpro/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@sqlpro/ui/dropdown-menu';
 import { Input } from '@sqlpro/ui/input';
 import {
   Select,
@@ -15,15 +27,21 @@ import {
   CheckCircle2,
   Clock,
   Database,
+  Download,
   Filter,
+  History,
   Pause,
   Play,
+  RefreshCw,
   Search,
   Trash2,
   X,
 } from 'lucide-react';
 import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { sqlPro } from '@/lib/api';
 import { cn } from '@/lib/utils';
+import { useConnectionStore } from '@/stores/connection-store';
 import {
   cleanupSqlLogListener,
   initSqlLogListener,
@@ -37,13 +55,45 @@ const LOG_LEVEL_COLORS: Record<SqlLogLevel, string> = {
   debug: 'bg-gray-500/10 text-gray-500',
 };
 
+const SESSION_SOURCE = 'session';
+
+const TIME_RANGE_LABELS: Record<SqlLogTimeRange, string> = {
+  any: 'Any time',
+  '1h': 'Last hour',
+  '24h': 'Last 24 hours',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+};
+
+const OPERATION_LABELS: Record<SqlLogOperation, string> = {
+  query: 'Query',
+  execute: 'Execute',
+  open: 'Open',
+  close: 'Close',
+  schema: 'Schema',
+  other: 'Other',
+};
+
+const EXPORT_FORMATS: Record<
+  SqlLogExportFormat,
+  { label: string; extension: string }
+> = {
+  ndjson: { label: 'NDJSON', extension: 'ndjson' },
+  csv: { label: 'CSV', extension: 'csv' },
+};
+
 interface SqlLogItemProps {
   entry: SqlLogEntry;
+  /** Show the date too, for logs spanning several days */
+  showDate?: boolean;
 }
 
-function SqlLogItem({ entry }: SqlLogItemProps) {
+function SqlLogItem({ entry, showDate }: SqlLogItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const timestamp = new Date(entry.timestamp).toLocaleTimeString();
+  const date = new Date(entry.timestamp);
+  const timestamp = showDate
+    ? date.toLocaleString()
+    : date.toLocaleTimeString();
 
   return (
     <div
@@ -146,16 +196,31 @@ export function SqlLogPanel() {
     filter,
     isVisible,
     isPaused,
+    auditProfileId,
+    auditLogs,
     loadLogs,
     clearLogs,
+    setAuditProfile,
+    loadAuditLogs,
+    exportLogs,
     setFilter,
     setVisible,
     togglePaused,
     getFilteredLogs,
   } = useSqlLogStore();
+  const profiles = useConnectionStore((state) => state.profiles);
 
   const [searchText, setSearchText] = useState('');
 
+  const auditProfiles = useMemo(
+    () =>
+      Array.from(profiles.values())
+        .filter((profile) => profile.auditLog?.enabled)
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    [profiles]
+  );
+  const auditProfile = auditProfiles.find((p) => p.id === auditProfileId);
+
   // Initialize listener on mount
   useEffect(() => {
     initSqlLogListener();
@@ -173,16 +238,49 @@ export function SqlLogPanel() {
     return () => clearTimeout(timer);
   }, [searchText, setFilter]);
 
+  // Fall back to the session log when the selected profile stops auditing
+  useEffect(() => {
+    if (auditProfileId && !auditProfile) setAuditProfile(null);
+  }, [auditProfileId, auditProfile, setAuditProfile]);
+
+  // Audit logs are read from disk with the current filter
+  useEffect(() => {
+    if (isVisible && auditProfileId) loadAuditLogs();
+  }, [isVisible, auditProfileId, filter, loadAuditLogs]);
+
   const filteredLogs = useMemo(
     () => getFilteredLogs(),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [logs, filter]
+    [logs, auditLogs, auditProfileId, filter]
   );
 
   const handleClearLogs = async () => {
     await clearLogs();
   };
 
+  const handleExport = async (format: SqlLogExportFormat) => {
+    const { label, extension } = EXPORT_FORMATS[format];
+    const name = auditProfile
+      ? `${auditProfile.displayName}-audit-log`
+      : 'sql-log';
+    const dialogResult = await sqlPro.dialog.saveFile({
+      title: 'Export SQL Log',
+      filters: [{ name: label, extensions: [extension] }],
+      defaultPath: `${name}-${new Date().toISOString().slice(0, 10)}.${extension}`,
+    });
+    if (!dialogResult.success || dialogResult.canceled) return;
+    if (!dialogResult.filePath) return;
+
+    const result = await exportLogs(format, dialogResult.filePath);
+    if (result.success) {
+      toast.success(
+        `Exported ${result.count ?? 0} log entr${result.count === 1 ? 'y' : 'ies'}`
+      );
+    } else {
+      toast.error(`Failed to export SQL log: ${result.error}`);
+    }
+  };
+
   return (
     <Sheet open={isVisible} onOpenChange={setVisible}>
       <SheetContent
@@ -212,7 +310,34 @@ export function SqlLogPanel() {
           </SheetHeader>
 
           {/* Toolbar */}
-          <div className="flex shrink-0 items-center gap-2 border-b px-4 py-2">
+          <div className="flex shrink-0 flex-wrap items-center gap-2 border-b px-4 py-2">
+            {/* Source: the session log or a profile's audit log */}
+            <Select
+              value={auditProfileId ?? SESSION_SOURCE}
+              onValueChange={(value) =>
+                setAuditProfile(
+                  !value || value === SESSION_SOURCE ? null : value
+                )
+              }
+            >
+              <SelectTrigger className="h-8 w-44">
+                <History className="mr-1 h-3 w-3" />
+                <SelectValue>
+                  {auditProfile
+                    ? `Audit: ${auditProfile.displayName}`
+                    : 'This session'}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SESSION_SOURCE}>This session</SelectItem>
+                {auditProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    Audit: {profile.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             {/* Search */}
             <div className="relative max-w-xs flex-1">
               <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
@@ -246,36 +371,120 @@ export function SqlLogPanel() {
               </SelectContent>
             </Select>
 
-            {/* Pause/Resume button */}
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={togglePaused}
-              className="h-8"
+            {/* Operation filter */}
+            <Select
+              value={filter.operation || 'all'}
+              onValueChange={(value) =>
+                setFilter({
+                  operation:
+                    !value || value === 'all'
+                      ? undefined
+                      : (value as SqlLogOperation),
+                })
+              }
             >
-              {isPaused ? (
-                <>
-                  <Play className="mr-1 h-4 w-4" />
-                  Resume
-                </>
-              ) : (
-                <>
-                  <Pause className="mr-1 h-4 w-4" />
-                  Pause
-                </>
-              )}
-            </Button>
-
-            {/* Clear button */}
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleClearLogs}
-              className="h-8"
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue>
+                  {filter.operation
+                    ? OPERATION_LABELS[filter.operation]
+                    : 'All operations'}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All operations</SelectItem>
+                {Object.entries(OPERATION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Time range filter */}
+            <Select
+              value={filter.timeRange}
+              onValueChange={(value) =>
+                setFilter({ timeRange: (value as SqlLogTimeRange) || 'any' })
+              }
             >
-              <Trash2 className="mr-1 h-4 w-4" />
-              Clear
-            </Button>
+              <SelectTrigger className="h-8 w-34">
+                <Clock className="mr-1 h-3 w-3" />
+                <SelectValue>{TIME_RANGE_LABELS[filter.timeRange]}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TIME_RANGE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {auditProfileId ? (
+              /* Reload the audit log, which is not streamed */
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => loadAuditLogs()}
+                className="h-8"
+              >
+                <RefreshCw className="mr-1 h-4 w-4" />
+                Refresh
+              </Button>
+            ) : (
+              <>
+                {/* Pause/Resume button */}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={togglePaused}
+                  className="h-8"
+                >
+                  {isPaused ? (
+                    <>
+                      <Play className="mr-1 h-4 w-4" />
+                      Resume
+                    </>
+                  ) : (
+                    <>
+                      <Pause className="mr-1 h-4 w-4" />
+                      Pause
+                    </>
+                  )}
+                </Button>
+
+                {/* Clear button */}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleClearLogs}
+                  className="h-8"
+                >
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Clear
+                </Button>
+              </>
+            )}
+
+            {/* Export the filtered log */}
+            <DropdownMenu>
+              <DropdownMenuTrigger>
+                <Button variant="outline" size="sm" className="h-8">
+                  <Download className="mr-1 h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+                  <DropdownMenuItem
+                    key={format}
+                    onClick={() => handleExport(format as SqlLogExportFormat)}
+                  >
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
           {/* Log list */}
@@ -291,7 +500,11 @@ export function SqlLogPanel() {
             ) : (
               <div className="divide-y">
                 {filteredLogs.map((entry) => (
-                  <SqlLogItem key={entry.id} entry={entry} />
+                  <SqlLogItem
+                    key={entry.id}
+                    entry={entry}
+                    showDate={!!auditProfileId}
+                  />
                 ))}
               </div>
             )}
@@ -0,0 +1,121 @@
+import type { SupabaseRole } from '@shared/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@sqlpro/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@sqlpro/ui/tooltip';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { sqlPro } from '@/lib/api';
+import { useConnectionStore } from '@/stores';
+
+const ROLE_LABELS: Record<SupabaseRole, string> = {
+  service_role: 'Service role',
+  anon: 'Anon',
+};
+
+/**
+ * Switches the active Supabase connection between the service role and the
+ * anon role so data can be browsed as an anonymous client (RLS applied).
+ */
+export function SupabaseRoleSwitcher() {
+  const {
+    connection,
+    updateConnection,
+    setSchema,
+    setSelectedTable,
+    setIsLoadingSchema,
+    setError,
+  } = useConnectionStore();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const handleRoleChange = useCallback(
+    async (value: string | null) => {
+      if (!connection?.supabase || !value) return;
+      const role = value as SupabaseRole;
+      if (role === connection.supabase.role) return;
+
+      setIsSwitching(true);
+      try {
+        const result = await sqlPro.db.setSupabaseRole({
+          connectionId: connection.id,
+          role,
+        });
+        if (!result.success || !result.supabase) {
+          setError(result.error || 'Failed to switch Supabase role');
+          return;
+        }
+        updateConnection(connection.id, { supabase: result.supabase });
+
+        // Visible tables and rows depend on the role, so reload the schema
+        setSelectedTable(null);
+        setIsLoadingSchema(true);
+        const schemaResult = await sqlPro.db.getSchema({
+          connectionId: connection.id,
+        });
+        if (schemaResult.success) {
+          setSchema(connection.id, {
+            schemas: schemaResult.schemas || [],
+            tables: schemaResult.tables || [],
+            views: schemaResult.views || [],
+          });
+        }
+        setIsLoadingSchema(false);
+      } finally {
+        setIsSwitching(false);
+      }
+    },
+    [
+      connection,
+      updateConnection,
+      setSchema,
+      setSelectedTable,
+      setIsLoadingSchema,
+      setError,
+    ]
+  );
+
+  if (!connection?.supabase) {
+    return null;
+  }
+
+  const { mode, role, roles } = connection.supabase;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Tooltip>
+        <TooltipTrigger>
+          <span className="text-muted-foreground flex items-center gap-1 text-xs">
+            <KeyRound className="h-3 w-3" />
+            {mode === 'rest' ? 'REST' : 'Postgres'}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          {mode === 'rest'
+            ? 'Connected through the Supabase REST API (PostgREST); SQL queries are unavailable'
+            : 'Connected directly to the Supabase Postgres database'}
+        </TooltipContent>
+      </Tooltip>
+      <Select
+        value={role}
+        onValueChange={handleRoleChange}
+        disabled={isSwitching || roles.length < 2}
+      >
+        <SelectTrigger className="h-7 flex-1 text-xs">
+          <SelectValue>{ROLE_LABELS[role]}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {roles.map((r) => (
+            <SelectItem key={r} value={r}>
+              {ROLE_LABELS[r]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {isSwitching && <Loader2 className="h-3 w-3 animate-spin" />}
+    </div>
+  );
+}
@@ -456,7 +456,8 @@ export function TableView({
         format: options.format,
         tableName: options.tableName,
         connectionId: options.connectionId,
-        rows: options.rows,
+        schema: options.schema,
+        rows: options.entireTable ? undefined : options.rows,
         columns: options.columns,
         delimiter: options.delimiter,
         includeHeaders: options.includeHeaders,
@@ -886,6 +887,8 @@ export function TableView({
           return data;
         })}
         connectionId={connection?.id || ''}
+        schema={selectedTable.schema}
+        totalRows={totalRows}
         onExport={handleExport}
       />
 
@@ -21,6 +21,7 @@ import { sqlPro } from '@/lib/api';
 import {
   useChangesStore,
   useConnectionStore,
+  useQueryTabsStore,
   useTableDataStore,
   useThemeStore,
 } from '@/stores';
@@ -52,6 +53,9 @@ export function Toolbar({ onOpenChanges, onLoadFavoriteQuery }: ToolbarProps) {
   const { theme, setTheme } = useThemeStore();
   const { toggleVisible: toggleSqlLog } = useSqlLogStore();
 
+  const openTransactions = useQueryTabsStore((s) =>
+    activeConnectionId ? s.countOpenTransactions(activeConnectionId) : 0
+  );
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
 
   const performDisconnect = async () => {
@@ -70,8 +74,8 @@ export function Toolbar({ onOpenChanges, onLoadFavoriteQuery }: ToolbarProps) {
     // Guard: prevent showing multiple dialogs on rapid clicks
     if (showUnsavedDialog) return;
 
-    // Check for unsaved changes before disconnecting
-    if (hasChangesForConnection(activeConnectionId)) {
+    // Check for unsaved changes and open transactions before disconnecting
+    if (hasChangesForConnection(activeConnectionId) || openTransactions > 0) {
       setShowUnsavedDialog(true);
       return;
     }
@@ -308,6 +312,7 @@ export function Toolbar({ onOpenChanges, onLoadFavoriteQuery }: ToolbarProps) {
           onSave={handleSaveAndDisconnect}
           onDiscard={handleDiscardAndDisconnect}
           onCancel={handleCancelDisconnect}
+          openTransactions={openTransactions}
         />
       )}
     </>
@@ -760,4 +760,46 @@ describe('unsavedChangesDialog', () => {
       expect(mockOnCancel).not.toHaveBeenCalled();
     });
   });
+
+  describe('open transactions', () => {
+    it('should warn about transactions next to unsaved changes', () => {
+      render(
+        <UnsavedChangesDialog
+          open={true}
+          onOpenChange={mockOnOpenChange}
+          changes={[createMockChange()]}
+          connectionId="test-conn"
+          onSave={mockOnSave}
+          onDiscard={mockOnDiscard}
+          onCancel={mockOnCancel}
+          openTransactions={2}
+        />
+      );
+
+      expect(
+        screen.getByText(/2 query tabs have an open transaction/i)
+      ).toBeInTheDocument();
+      expect(screen.getByText('Save Changes')).toBeInTheDocument();
+    });
+
+    it('should stay open with only an open transaction', () => {
+      render(
+        <UnsavedChangesDialog
+          open={true}
+          onOpenChange={mockOnOpenChange}
+          changes={[]}
+          connectionId="test-conn"
+          onSave={mockOnSave}
+          onDiscard={mockOnDiscard}
+          onCancel={mockOnCancel}
+          openTransactions={1}
+        />
+      );
+
+      expect(screen.getByText('Open Transaction')).toBeInTheDocument();
+      expect(screen.getByText('Roll Back')).toBeInTheDocument();
+      expect(screen.queryByText('Save Changes')).not.toBeInTheDocument();
+      expect(mockOnDiscard).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -13,6 +13,7 @@ import {
 import { Button } from '@sqlpro/ui/button';
 import { AlertTriangle, Edit3, Plus, Trash2 } from 'lucide-react';
 import { useEffect, useMemo, useState } from 'react';
+import { OpenTransactionsWarning } from './OpenTransactionsWarning';
 
 interface UnsavedChangesDialogProps {
   open: boolean;
@@ -22,6 +23,8 @@ interface UnsavedChangesDialogProps {
   onSave: () => Promise<void>;
   onDiscard: () => void;
   onCancel: () => void;
+  /** Query tabs of the connection with a transaction that will be rolled back */
+  openTransactions?: number;
 }
 
 interface ChangeSummary {
@@ -39,19 +42,20 @@ export function UnsavedChangesDialog({
   onSave,
   onDiscard,
   onCancel,
+  openTransactions = 0,
 }: UnsavedChangesDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Edge case: If changes are cleared between check and display, skip dialog
   useEffect(() => {
-    if (open && changes.length === 0) {
+    if (open && changes.length === 0 && openTransactions === 0) {
       // No changes exist, proceed with action by calling onDiscard
       // This is safe because discarding empty changes is a no-op and just proceeds
       onDiscard();
       onOpenChange(false);
     }
-  }, [open, changes.length, onDiscard, onOpenChange]);
+  }, [open, changes.length, openTransactions, onDiscard, onOpenChange]);
 
   // Group changes by table and count by type
   const summaries = useMemo(() => {
@@ -116,14 +120,26 @@ export function UnsavedChangesDialog({
           <AlertDialogMedia>
             <AlertTriangle className="text-amber-600" />
           </AlertDialogMedia>
-          <AlertDialogTitle>Unsaved Changes</AlertDialogTitle>
+          <AlertDialogTitle>
+            {totalChanges > 0 ? 'Unsaved Changes' : 'Open Transaction'}
+          </AlertDialogTitle>
           <AlertDialogDescription>
-            You have {totalChanges} unsaved{' '}
-            {totalChanges === 1 ? 'change' : 'changes'}. What would you like to
-            do?
+            {totalChanges > 0 ? (
+              <>
+                You have {totalChanges} unsaved{' '}
+                {totalChanges === 1 ? 'change' : 'changes'}. What would you like
+                to do?
+              </>
+            ) : (
+              'You have uncommitted queries. What would you like to do?'
+            )}
           </AlertDialogDescription>
         </AlertDialogHeader>
 
+        {openTransactions > 0 && (
+          <OpenTransactionsWarning count={openTransactions} />
+        )}
+
         {/* Change Summary */}
         <div className="space-y-2">
           {summaries.map((summary) => (
@@ -181,11 +197,13 @@ export function UnsavedChangesDialog({
             onClick={handleDiscard}
             disabled={isLoading}
           >
-            Discard Changes
+            {totalChanges > 0 ? 'Discard Changes' : 'Roll Back'}
           </Button>
-          <AlertDialogAction onClick={handleSave} disabled={isLoading}>
-            {isLoading ? 'Saving...' : 'Save Changes'}
-          </AlertDialogAction>
+          {totalChanges > 0 && (
+            <AlertDialogAction onClick={handleSave} disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Changes'}
+            </AlertDialogAction>
+          )}
         </AlertDialogFooter>
       </AlertDialogContent>
     </AlertDialog>
@@ -139,6 +139,8 @@ export function WelcomeScreen() {
     path: string;
     filename: string;
     isEncrypted: boolean;
+    databaseType?: DatabaseType;
+    connectionConfig?: DatabaseConnectionConfig;
   } | null>(null);
 
   // Database type selector state
@@ -441,6 +443,73 @@ export function WelcomeScreen() {
     }
   };
 
+  // Handle server database connection
+  const handleServerConnect = useCallback(
+    async (config: DatabaseConnectionConfig, rememberPassword = true) => {
+      setIsConnecting(true);
+      setError(null);
+
+      try {
+        const result = await sqlPro.db.open({ config, rememberPassword });
+
+        if (!result.success) {
+          setError(result.error || 'Failed to connect to database');
+          setIsConnecting(false);
+          return;
+        }
+
+        if (result.connection) {
+          addConnection({
+            id: result.connection.id,
+            path: result.connection.path,
+            filename: result.connection.filename,
+            isEncrypted: result.connection.isEncrypted,
+            isReadOnly: result.connection.isReadOnly,
+            status: 'connected',
+            databaseType: result.connection.databaseType || config.type,
+            supabase: result.connection.supabase,
+          });
+
+          // Load schema
+          setIsLoadingSchema(true);
+          const schemaResult = await sqlPro.db.getSchema({
+            connectionId: result.connection.id,
+          });
+
+          if (schemaResult.success) {
+            setSchema(result.connection.id, {
+              schemas: schemaResult.schemas || [],
+              tables: schemaResult.tables || [],
+              views: schemaResult.views || [],
+            });
+          }
+          setIsLoadingSchema(false);
+
+          // Refresh recent connections
+          const connectionsResult = await sqlPro.app.getRecentConnections();
+          if (connectionsResult.success && connectionsResult.connections) {
+            setRecentConnections(connectionsResult.connections);
+          }
+
+          // Close the dialog
+          setServerConnectionOpen(false);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setIsConnecting(false);
+      }
+    },
+    [
+      setIsConnecting,
+      setError,
+      addConnection,
+      setSchema,
+      setIsLoadingSchema,
+      setRecentConnections,
+    ]
+  );
+
   const handleRecentClick = useCallback(
     async (path: string, isEncrypted: boolean, readOnly?: boolean) => {
       if (isEncrypted) {
@@ -515,13 +584,17 @@ export function WelcomeScreen() {
   // Handle connecting from a profile
   const handleConnectFromProfile = useCallback(
     async (profile: ConnectionProfile) => {
+      if (profile.connectionConfig) {
+        await handleServerConnect(profile.connectionConfig);
+        return;
+      }
       await handleRecentClick(
         profile.path,
         profile.isEncrypted,
         profile.readOnly
       );
     },
-    [handleRecentClick]
+    [handleRecentClick, handleServerConnect]
   );
 
   // Handle save as profile
@@ -530,6 +603,8 @@ export function WelcomeScreen() {
       path: conn.path,
       filename: conn.filename,
       isEncrypted: conn.isEncrypted,
+      databaseType: conn.databaseType,
+      connectionConfig: conn.connectionConfig,
     });
     setSaveProfileDialogOpen(true);
   }, []);
@@ -546,10 +621,14 @@ export function WelcomeScreen() {
           filename: profileToSave.filename,
           displayName: data.displayName,
           isEncrypted: profileToSave.isEncrypted,
+          databaseType: profileToSave.databaseType,
+          connectionConfig: profileToSave.connectionConfig,
           folderId: data.folderId,
           tags: data.tags,
           notes: data.notes,
           readOnly: data.readOnly,
+          statementTimeout: data.statementTimeout,
+          auditLog: data.auditLog,
           isSaved: true,
           lastOpened: new Date().toISOString(),
           createdAt: new Date().toISOString(),
@@ -589,72 +668,6 @@ export function WelcomeScreen() {
     [setError]
   );
 
-  // Handle server database connection
-  const handleServerConnect = useCallback(
-    async (config: DatabaseConnectionConfig) => {
-      setIsConnecting(true);
-      setError(null);
-
-      try {
-        const result = await sqlPro.db.open({ config });
-
-        if (!result.success) {
-          setError(result.error || 'Failed to connect to database');
-          setIsConnecting(false);
-          return;
-        }
-
-        if (result.connection) {
-          addConnection({
-            id: result.connection.id,
-            path: result.connection.path,
-            filename: result.connection.filename,
-            isEncrypted: result.connection.isEncrypted,
-            isReadOnly: result.connection.isReadOnly,
-            status: 'connected',
-            databaseType: result.connection.databaseType || config.type,
-          });
-
-          // Load schema
-          setIsLoadingSchema(true);
-          const schemaResult = await sqlPro.db.getSchema({
-            connectionId: result.connection.id,
-          });
-
-          if (schemaResult.success) {
-            setSchema(result.connection.id, {
-              schemas: schemaResult.schemas || [],
-              tables: schemaResult.tables || [],
-              views: schemaResult.views || [],
-            });
-          }
-          setIsLoadingSchema(false);
-
-          // Refresh recent connections
-          const connectionsResult = await sqlPro.app.getRecentConnections();
-          if (connectionsResult.success && connectionsResult.connections) {
-            setRecentConnections(connectionsResult.connections);
-          }
-
-          // Close the dialog
-          setServerConnectionOpen(false);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setIsConnecting(false);
-      }
-    },
-    [
-      setIsConnecting,
-      setError,
-      addConnection,
-      setSchema,
-      setIsLoadingSchema,
-      setRecentConnections,
-    ]
-  );
-
   const cycleTheme = () => {
     const themes: Array<'light' | 'dark' | 'system'> = [
       'light',
@@ -816,11 +829,13 @@ export function WelcomeScreen() {
                           variant="ghost"
                           className="h-auto min-w-0 flex-1 justify-start px-2 py-1.5 text-left"
                           onClick={() =>
-                            handleRecentClick(
-                              conn.path,
-                              conn.isEncrypted,
-                              conn.readOnly
-                            )
+                            conn.connectionConfig
+                              ? handleServerConnect(conn.connectionConfig)
+                              : handleRecentClick(
+                                  conn.path,
+                                  conn.isEncrypted,
+                                  conn.readOnly
+                                )
                           }
                           disabled={isConnecting}
                         >
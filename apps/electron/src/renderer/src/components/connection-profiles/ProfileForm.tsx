@@ -1,4 +1,9 @@
-import type { ConnectionProfile, ProfileFolder } from '@shared/types.ts';
+import type {
+  AuditLogSettings,
+  ConnectionProfile,
+  ProfileFolder,
+} from '@shared/types.ts';
+import { DEFAULT_AUDIT_LOG_SETTINGS } from '@shared/types';
 import { Button } from '@sqlpro/ui/button';
 import {
   Select,
@@ -21,6 +26,10 @@ export interface ProfileFormData {
   notes?: string;
   readOnly: boolean;
   rememberPassword: boolean;
+  /** Statement timeout in seconds (undefined = no timeout) */
+  statementTimeout?: number;
+  /** Persistent SQL audit log (undefined = never configured) */
+  auditLog?: AuditLogSettings;
 }
 
 export interface ProfileFormProps {
@@ -44,6 +53,9 @@ export interface ProfileFormProps {
 
 const MAX_DISPLAY_NAME_LENGTH = 100;
 const MAX_NOTES_LENGTH = 500;
+const MAX_STATEMENT_TIMEOUT = 86400;
+const MAX_AUDIT_LOG_FILE_SIZE_MB = 1024;
+const MAX_AUDIT_LOG_RETENTION_DAYS = 3650;
 
 export function ProfileForm({
   mode = 'new',
@@ -65,6 +77,24 @@ export function ProfileForm({
   const [tags, setTags] = useState(initialValues?.tags?.join(', ') ?? '');
   const [notes, setNotes] = useState(initialValues?.notes ?? '');
   const [readOnly, setReadOnly] = useState(initialValues?.readOnly ?? false);
+  const [statementTimeout, setStatementTimeout] = useState(
+    initialValues?.statementTimeout
+      ? String(initialValues.statementTimeout)
+      : ''
+  );
+  const initialAuditLog = initialValues?.auditLog ?? DEFAULT_AUDIT_LOG_SETTINGS;
+  const [auditLogEnabled, setAuditLogEnabled] = useState(
+    initialAuditLog.enabled
+  );
+  const [redactLiterals, setRedactLiterals] = useState(
+    initialAuditLog.redactLiterals
+  );
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState(
+    String(initialAuditLog.maxFileSizeMb)
+  );
+  const [retentionDays, setRetentionDays] = useState(
+    String(initialAuditLog.retentionDays)
+  );
   const [rememberPassword, setRememberPassword] = useState(
     initialValues?.rememberPassword ?? false
   );
@@ -72,6 +102,9 @@ export function ProfileForm({
   const [validationErrors, setValidationErrors] = useState<{
     displayName?: string;
     notes?: string;
+    statementTimeout?: string;
+    maxFileSizeMb?: string;
+    retentionDays?: string;
   }>({});
 
   // Check if password storage is available
@@ -105,6 +138,69 @@ export function ProfileForm({
     return null;
   };
 
+  const validateStatementTimeout = (value: string): string | null => {
+    if (value.trim() === '') {
+      return null;
+    }
+    const seconds = Number(value);
+    if (
+      !Number.isInteger(seconds) ||
+      seconds < 0 ||
+      seconds > MAX_STATEMENT_TIMEOUT
+    ) {
+      return `Timeout must be a whole number of seconds up to ${MAX_STATEMENT_TIMEOUT}`;
+    }
+    return null;
+  };
+
+  const validatePositiveInteger = (
+    value: string,
+    max: number,
+    unit: string
+  ): string | null => {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isInteger(number) || number < 1) {
+      return `Must be a whole number of ${unit}`;
+    }
+    if (number > max) {
+      return `Cannot exceed ${max} ${unit}`;
+    }
+    return null;
+  };
+
+  const validateMaxFileSize = (value: string) =>
+    validatePositiveInteger(value, MAX_AUDIT_LOG_FILE_SIZE_MB, 'MB');
+
+  const validateRetentionDays = (value: string) =>
+    validatePositiveInteger(value, MAX_AUDIT_LOG_RETENTION_DAYS, 'days');
+
+  const handleMaxFileSizeChange = (value: string) => {
+    setMaxFileSizeMb(value);
+    const error = validateMaxFileSize(value);
+    setValidationErrors((prev) => ({
+      ...prev,
+      maxFileSizeMb: error ?? undefined,
+    }));
+  };
+
+  const handleRetentionDaysChange = (value: string) => {
+    setRetentionDays(value);
+    const error = validateRetentionDays(value);
+    setValidationErrors((prev) => ({
+      ...prev,
+      retentionDays: error ?? undefined,
+    }));
+  };
+
+  const handleStatementTimeoutChange = (value: string) => {
+    setStatementTimeout(value);
+    const error = validateStatementTimeout(value);
+    setValidationErrors((prev) => ({
+      ...prev,
+      statementTimeout: error ?? undefined,
+    }));
+  };
+
   const handleDisplayNameChange = (value: string) => {
     setDisplayName(value);
     const error = validateDisplayName(value);
@@ -129,11 +225,28 @@ export function ProfileForm({
     // Validate all fields
     const displayNameError = validateDisplayName(displayName);
     const notesError = validateNotes(notes);
+    const statementTimeoutError = validateStatementTimeout(statementTimeout);
+    // Audit log limits only matter while the log is kept
+    const maxFileSizeError = auditLogEnabled
+      ? validateMaxFileSize(maxFileSizeMb)
+      : null;
+    const retentionDaysError = auditLogEnabled
+      ? validateRetentionDays(retentionDays)
+      : null;
 
-    if (displayNameError || notesError) {
+    if (
+      displayNameError ||
+      notesError ||
+      statementTimeoutError ||
+      maxFileSizeError ||
+      retentionDaysError
+    ) {
       setValidationErrors({
         displayName: displayNameError ?? undefined,
         notes: notesError ?? undefined,
+        statementTimeout: statementTimeoutError ?? undefined,
+        maxFileSizeMb: maxFileSizeError ?? undefined,
+        retentionDays: retentionDaysError ?? undefined,
       });
       return;
     }
@@ -151,10 +264,27 @@ export function ProfileForm({
       notes: notes.trim() || undefined,
       readOnly,
       rememberPassword: isEncrypted && rememberPassword && isStorageAvailable,
+      statementTimeout: Number(statementTimeout) || undefined,
+      auditLog:
+        auditLogEnabled || initialValues?.auditLog
+          ? {
+              enabled: auditLogEnabled,
+              redactLiterals,
+              maxFileSizeMb:
+                Number(maxFileSizeMb) || initialAuditLog.maxFileSizeMb,
+              retentionDays:
+                Number(retentionDays) || initialAuditLog.retentionDays,
+            }
+          : undefined,
     });
   };
 
-  const isValid = !validationErrors.displayName && !validationErrors.notes;
+  const isValid =
+    !validationErrors.displayName &&
+    !validationErrors.notes &&
+    !validationErrors.statementTimeout &&
+    (!auditLogEnabled ||
+      (!validationErrors.maxFileSizeMb && !validationErrors.retentionDays));
   const submitLabel = mode === 'new' ? 'Save Profile' : 'Save Changes';
 
   // Build folder hierarchy for display
@@ -285,6 +415,39 @@ export function ProfileForm({
         </p>
       </div>
 
+      {/* Statement Timeout */}
+      <div className="space-y-2">
+        <label htmlFor="statementTimeout" className="text-sm font-medium">
+          Statement Timeout{' '}
+          <span className="text-muted-foreground">(optional)</span>
+        </label>
+        <input
+          id="statementTimeout"
+          type="number"
+          min={0}
+          max={MAX_STATEMENT_TIMEOUT}
+          value={statementTimeout}
+          onChange={(e) => handleStatementTimeoutChange(e.target.value)}
+          placeholder="No timeout"
+          className={cn(
+            'bg-background w-full rounded-md border px-3 py-2 text-sm',
+            'placeholder:text-muted-foreground',
+            'focus:ring-ring focus:ring-2 focus:ring-offset-2 focus:outline-none',
+            validationErrors.statementTimeout
+              ? 'border-destructive'
+              : 'border-input'
+          )}
+        />
+        {validationErrors.statementTimeout && (
+          <p className="text-destructive text-xs">
+            {validationErrors.statementTimeout}
+          </p>
+        )}
+        <p className="text-muted-foreground text-xs">
+          Seconds before a Query Editor query is cancelled automatically
+        </p>
+      </div>
+
       {/* Read-Only Checkbox */}
       <label className="border-input hover:bg-accent/50 flex cursor-pointer items-center gap-3 rounded-md border p-3">
         <input
@@ -301,6 +464,96 @@ export function ProfileForm({
         </div>
       </label>
 
+      {/* Audit Log */}
+      <div className="border-input space-y-3 rounded-md border p-3">
+        <label className="flex cursor-pointer items-center gap-3">
+          <input
+            type="checkbox"
+            checked={auditLogEnabled}
+            onChange={(e) => setAuditLogEnabled(e.target.checked)}
+            className="border-input h-4 w-4 rounded"
+          />
+          <div className="flex-1">
+            <span className="text-sm font-medium">Keep an SQL audit log</span>
+            <p className="text-muted-foreground text-xs">
+              Saves every statement run on this connection to disk, across
+              restarts
+            </p>
+          </div>
+        </label>
+
+        {auditLogEnabled && (
+          <div className="space-y-3 pl-7">
+            <label className="flex cursor-pointer items-center gap-3">
+              <input
+                type="checkbox"
+                checked={redactLiterals}
+                onChange={(e) => setRedactLiterals(e.target.checked)}
+                className="border-input h-4 w-4 rounded"
+              />
+              <span className="text-sm">Redact string and number literals</span>
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="auditLogMaxFileSize" className="text-xs">
+                  Max file size (MB)
+                </label>
+                <input
+                  id="auditLogMaxFileSize"
+                  type="number"
+                  min={1}
+                  max={MAX_AUDIT_LOG_FILE_SIZE_MB}
+                  value={maxFileSizeMb}
+                  onChange={(e) => handleMaxFileSizeChange(e.target.value)}
+                  className={cn(
+                    'bg-background w-full rounded-md border px-3 py-2 text-sm',
+                    'focus:ring-ring focus:ring-2 focus:ring-offset-2 focus:outline-none',
+                    validationErrors.maxFileSizeMb
+                      ? 'border-destructive'
+                      : 'border-input'
+                  )}
+                />
+                {validationErrors.maxFileSizeMb && (
+                  <p className="text-destructive text-xs">
+                    {validationErrors.maxFileSizeMb}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="auditLogRetention" className="text-xs">
+                  Keep for (days)
+                </label>
+                <input
+                  id="auditLogRetention"
+                  type="number"
+                  min={1}
+                  max={MAX_AUDIT_LOG_RETENTION_DAYS}
+                  value={retentionDays}
+                  onChange={(e) => handleRetentionDaysChange(e.target.value)}
+                  className={cn(
+                    'bg-background w-full rounded-md border px-3 py-2 text-sm',
+                    'focus:ring-ring focus:ring-2 focus:ring-offset-2 focus:outline-none',
+                    validationErrors.retentionDays
+                      ? 'border-destructive'
+                      : 'border-input'
+                  )}
+                />
+                {validationErrors.retentionDays && (
+                  <p className="text-destructive text-xs">
+                    {validationErrors.retentionDays}
+                  </p>
+                )}
+              </div>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              A day&apos;s log rolls over to a new file past the size limit.
+              Older files are deleted.
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* Remember Password Checkbox - Only for encrypted databases */}
       {isEncrypted && (
         <label
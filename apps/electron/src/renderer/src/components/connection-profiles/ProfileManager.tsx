@@ -283,6 +283,8 @@ export function ProfileManager({
             notes: data.notes,
             readOnly: data.readOnly,
             rememberPassword: data.rememberPassword,
+            statementTimeout: data.statementTimeout,
+            auditLog: data.auditLog,
             isSaved: true, // Mark as saved when edited
           },
         });
@@ -540,6 +542,8 @@ export function ProfileManager({
           tags: data.tags,
           notes: data.notes,
           readOnly: data.readOnly,
+          statementTimeout: data.statementTimeout,
+          auditLog: data.auditLog,
           isSaved: true,
           lastOpened: new Date().toISOString(),
           createdAt: new Date().toISOString(),
@@ -1,6 +1,7 @@
 import { Alert, AlertDescription, AlertTitle } from '@sqlpro/ui/alert';
 import { Button } from '@sqlpro/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@sqlpro/ui/card';
+import { Progress } from '@sqlpro/ui/progress';
 import { ScrollArea } from '@sqlpro/ui/scroll-area';
 import {
   Select,
@@ -18,11 +19,16 @@ import {
   GitCompare,
   Keyboard,
   Loader2,
+  Square,
   Table2,
 } from 'lucide-react';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ShortcutKbd } from '@/components/ui/kbd';
 import { useConnectionStore, useDataDiffStore } from '@/stores';
+import { RowDiffCard } from './RowDiffCard';
+
+/** Maximum number of row diff cards rendered at once */
+const MAX_VISIBLE_ROW_DIFFS = 200;
 
 interface DataDiffPanelProps {
   className?: string;
@@ -39,13 +45,17 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
     comparisonResult,
     isComparing,
     comparisonError,
+    comparisonProgress,
+    comparisonTruncated,
     filters,
+    expandedRows,
     setSource,
     setTarget,
     setIsComparing,
     setComparisonError,
     setShowOnlyDifferences,
     resetFilters,
+    toggleRowExpanded,
   } = useDataDiffStore();
 
   const { getAllConnections, getSchemaByConnectionId } = useConnectionStore();
@@ -146,22 +156,28 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
       return;
     }
 
+    const diffId = crypto.randomUUID();
+    const store = useDataDiffStore.getState();
     setIsComparing(true);
-    setComparisonError(null);
+    store.startComparisonProgress(diffId);
 
+    let unsubscribe: (() => void) | undefined;
     try {
-      const response = await window.sqlPro.comparison.compareTables({
+      // Row diffs arrive through progress events while both tables are read
+      unsubscribe = window.sqlPro.comparison.onTableDiffProgress(
+        store.applyComparisonProgress
+      );
+
+      const response = await window.sqlPro.comparison.streamTableDiff({
+        diffId,
         sourceConnectionId: source.connectionId,
         sourceTable: source.tableName,
-        sourceSchema: source.schemaName || 'main',
+        sourceSchema: source.schemaName,
         targetConnectionId: target.connectionId,
         targetTable: target.tableName,
-        targetSchema: target.schemaName || 'main',
+        targetSchema: target.schemaName,
         primaryKeys: [], // Auto-detect primary keys
-        pagination: {
-          offset: 0,
-          limit: 1000,
-        },
+        useChunkHashes: true,
       });
 
       if (!response.success) {
@@ -170,17 +186,49 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
       }
 
       if (response.result) {
-        useDataDiffStore.getState().setComparisonResult(response.result);
+        const { comparisonProgress: progress } = useDataDiffStore.getState();
+        store.setComparisonResult({
+          ...response.result,
+          rowDiffs: progress?.rowDiffs ?? [],
+        });
+        store.setComparisonTruncated(response.truncated ?? false);
       }
     } catch (error) {
       setComparisonError(
         error instanceof Error ? error.message : 'An unexpected error occurred'
       );
     } finally {
+      unsubscribe?.();
       setIsComparing(false);
     }
   }, [source, target, setIsComparing, setComparisonError]);
 
+  const handleCancel = useCallback(() => {
+    const diffId = useDataDiffStore.getState().comparisonProgress?.diffId;
+    if (diffId) {
+      window.sqlPro.comparison.cancelTableDiff({ diffId });
+    }
+  }, []);
+
+  // Row diffs matching the current filters
+  const visibleRowDiffs = useMemo(() => {
+    if (!comparisonResult) return [];
+    return comparisonResult.rowDiffs.filter(
+      (diff) =>
+        filters.diffTypes[diff.diffType] &&
+        !(filters.showOnlyDifferences && diff.diffType === 'unchanged')
+    );
+  }, [comparisonResult, filters]);
+
+  const progressPercent =
+    comparisonProgress && comparisonProgress.totalRows > 0
+      ? Math.min(
+          100,
+          (comparisonProgress.rowsProcessed / comparisonProgress.totalRows) *
+            100
+        )
+      : 0;
+
   // Store handleCompare in ref for keyboard shortcuts
   useEffect(() => {
     handleCompareRef.current = handleCompare;
@@ -329,6 +377,9 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
                       setSource({
                         ...source,
                         tableName,
+                        schemaName: sourceTables.find(
+                          (t) => t.name === tableName
+                        )?.schema,
                       });
                     }}
                     disabled={
@@ -425,6 +476,9 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
                       setTarget({
                         ...target,
                         tableName,
+                        schemaName: targetTables.find(
+                          (t) => t.name === tableName
+                        )?.schema,
                       });
                     }}
                     disabled={
@@ -478,8 +532,43 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
                 </>
               )}
             </Button>
+            {isComparing && (
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={handleCancel}
+                className="ml-2"
+              >
+                <Square className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
           </div>
 
+          {/* Streaming Progress */}
+          {isComparing && comparisonProgress && (
+            <Card>
+              <CardContent className="space-y-2 pt-6">
+                <Progress value={progressPercent} />
+                <div className="text-muted-foreground flex justify-between text-xs">
+                  <span>
+                    {comparisonProgress.rowsProcessed.toLocaleString()} of{' '}
+                    {comparisonProgress.totalRows.toLocaleString()} rows read
+                    {comparisonProgress.chunksSkipped > 0 &&
+                      ` (${comparisonProgress.chunksSkipped} unchanged chunks skipped)`}
+                  </span>
+                  {comparisonProgress.summary && (
+                    <span>
+                      +{comparisonProgress.summary.rowsAdded} −
+                      {comparisonProgress.summary.rowsRemoved} ~
+                      {comparisonProgress.summary.rowsModified}
+                    </span>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Error Display */}
           {comparisonError && (
             <Alert variant="destructive">
@@ -555,16 +644,44 @@ export function DataDiffPanel({ className }: DataDiffPanelProps) {
                 </CardContent>
               </Card>
 
-              {/* Detailed Diff View - Placeholder for future components */}
+              {/* Detailed Diff View */}
               <Card>
                 <CardHeader>
                   <CardTitle>Row Differences</CardTitle>
                 </CardHeader>
-                <CardContent>
-                  <p className="text-muted-foreground text-sm">
-                    Detailed diff view will be implemented in subsequent
-                    subtasks.
-                  </p>
+                <CardContent className="space-y-2">
+                  {visibleRowDiffs.length === 0 ? (
+                    <p className="text-muted-foreground text-sm">
+                      No row differences found.
+                    </p>
+                  ) : (
+                    visibleRowDiffs
+                      .slice(0, MAX_VISIBLE_ROW_DIFFS)
+                      .map((rowDiff) => {
+                        const rowKey = JSON.stringify(rowDiff.primaryKey);
+                        return (
+                          <RowDiffCard
+                            key={rowKey}
+                            rowDiff={rowDiff}
+                            isExpanded={expandedRows.rows.get(rowKey) ?? false}
+                            onToggle={() => toggleRowExpanded(rowKey)}
+                            showOnlyDifferences={filters.showOnlyDifferences}
+                          />
+                        );
+                      })
+                  )}
+                  {(visibleRowDiffs.length > MAX_VISIBLE_ROW_DIFFS ||
+                    comparisonTruncated) && (
+                    <p className="text-muted-foreground text-xs">
+                      Showing{' '}
+                      {Math.min(
+                        visibleRowDiffs.length,
+                        MAX_VISIBLE_ROW_DIFFS
+                      ).toLocaleString()}{' '}
+                      of {comparisonTruncated ? 'more than ' : ''}
+                      {visibleRowDiffs.length.toLocaleString()} row differences.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -1,5 +1,18 @@
-import type { GenerateSyncSQLResponse } from '@shared/types';
+import type {
+  ApplySyncSQLResponse,
+  GenerateSyncSQLResponse,
+} from '@shared/types';
 import { Alert, AlertDescription, AlertTitle } from '@sqlpro/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@sqlpro/ui/alert-dialog';
 import { Badge } from '@sqlpro/ui/badge';
 import { Button } from '@sqlpro/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@sqlpro/ui/card';
@@ -15,6 +28,7 @@ import {
   FileDown,
   FileText,
   Loader2,
+  Play,
   Sparkles,
 } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
@@ -34,7 +48,8 @@ interface DataDiffSQLGeneratorProps {
 /**
  * Component to display and manage generated sync SQL for data differences.
  * Supports generating INSERT/UPDATE/DELETE statements for selected rows,
- * copy to clipboard, save to file, and insert into query editor.
+ * copy to clipboard, save to file, insert into query editor, and applying
+ * the script to the target in a single transaction.
  */
 export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
   const { comparisonResult, selectedRowKeys } = useDataDiffStore();
@@ -46,7 +61,13 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
   const [includeInserts, setIncludeInserts] = useState(true);
   const [includeUpdates, setIncludeUpdates] = useState(true);
   const [includeDeletes, setIncludeDeletes] = useState(false);
+  const [useUpsert, setUseUpsert] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [applyDialogOpen, setApplyDialogOpen] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyResult, setApplyResult] = useState<ApplySyncSQLResponse | null>(
+    null
+  );
   const [showWarnings, setShowWarnings] = useState(true);
 
   // Generate sync SQL when comparison result or options change
@@ -57,6 +78,9 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
       return;
     }
 
+    // eslint-disable-next-line react-hooks-extra/no-direct-set-state-in-use-effect -- Previous result no longer matches the script
+    setApplyResult(null);
+
     let cancelled = false;
 
     const generateSQL = async () => {
@@ -67,12 +91,13 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
           JSON.parse(key)
         );
 
-        const response = await sqlPro.dataDiff.generateSyncSQL({
+        const response = await sqlPro.migration.generateSyncSQL({
           comparisonResult,
           selectedRows,
           includeInserts,
           includeUpdates,
           includeDeletes,
+          useUpsert,
         });
 
         if (!cancelled) {
@@ -106,6 +131,7 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
     includeInserts,
     includeUpdates,
     includeDeletes,
+    useUpsert,
   ]);
 
   const handleCopyToClipboard = useCallback(async () => {
@@ -157,6 +183,26 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
     createTab(activeConnectionId, syncSQL.sql);
   }, [syncSQL?.sql, activeConnectionId, createTab]);
 
+  const handleApplyToTarget = useCallback(async () => {
+    if (!comparisonResult || !syncSQL?.statements?.length) return;
+
+    setIsApplying(true);
+    try {
+      const result = await sqlPro.migration.applySyncSQL({
+        connectionId: comparisonResult.targetId,
+        statements: syncSQL.statements,
+      });
+      setApplyResult(result);
+    } catch (err) {
+      setApplyResult({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to apply sync SQL',
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  }, [comparisonResult, syncSQL?.statements]);
+
   if (!comparisonResult) {
     return null;
   }
@@ -174,9 +220,9 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
     });
 
     return {
-      inserts: selectedDiffs.filter((d) => d.diffType === 'added').length,
+      inserts: selectedDiffs.filter((d) => d.sourceRow && !d.targetRow).length,
       updates: selectedDiffs.filter((d) => d.diffType === 'modified').length,
-      deletes: selectedDiffs.filter((d) => d.diffType === 'removed').length,
+      deletes: selectedDiffs.filter((d) => d.targetRow && !d.sourceRow).length,
     };
   };
 
@@ -325,6 +371,25 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
                   </p>
                 </Label>
               </div>
+
+              <div className="bg-border h-8 w-px" />
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="use-upsert"
+                  checked={useUpsert}
+                  onCheckedChange={setUseUpsert}
+                  disabled={
+                    isGenerating || !includeInserts || counts.inserts === 0
+                  }
+                />
+                <Label htmlFor="use-upsert" className="cursor-pointer text-sm">
+                  <div className="flex items-center gap-1.5">Use Upserts</div>
+                  <p className="text-muted-foreground mt-0.5 text-xs font-normal">
+                    Update rows inserted into the target since the comparison
+                  </p>
+                </Label>
+              </div>
             </div>
 
             {/* Loading State */}
@@ -438,8 +503,48 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
                         Open in Query Editor
                       </Button>
                     )}
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setApplyDialogOpen(true)}
+                      disabled={!syncSQL.statements?.length || isApplying}
+                    >
+                      {isApplying ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Play className="mr-2 h-4 w-4" />
+                      )}
+                      Apply to Target
+                    </Button>
                   </div>
 
+                  {/* Apply Result */}
+                  {applyResult?.success && (
+                    <Alert>
+                      <Check className="h-4 w-4" />
+                      <AlertTitle>Sync Applied</AlertTitle>
+                      <AlertDescription>
+                        {applyResult.statementsExecuted} statement
+                        {applyResult.statementsExecuted !== 1 ? 's' : ''}{' '}
+                        executed on {comparisonResult.targetName}. Run the
+                        comparison again to refresh the results.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {applyResult && !applyResult.success && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>Sync Rolled Back</AlertTitle>
+                      <AlertDescription>
+                        {applyResult.failedStatement
+                          ? `Statement ${applyResult.failedStatement} failed: `
+                          : ''}
+                        {applyResult.error}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* SQL Display */}
                   {syncSQL.sql && (
                     <div className="space-y-2">
@@ -473,6 +578,26 @@ export function DataDiffSQLGenerator({ className }: DataDiffSQLGeneratorProps) {
           </>
         )}
       </CardContent>
+
+      <AlertDialog open={applyDialogOpen} onOpenChange={setApplyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Apply Sync SQL?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {syncSQL?.statements?.length ?? 0} statement
+              {syncSQL?.statements?.length !== 1 ? 's' : ''} will run on{' '}
+              {comparisonResult.targetName} in a single transaction. If any
+              statement fails, all changes are rolled back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleApplyToTarget}>
+              Apply
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
@@ -76,6 +76,10 @@ export interface DataTableProps {
   hasActiveSearch?: boolean;
   onClearFilters?: () => void;
   onClearSearch?: () => void;
+
+  // Incremental loading
+  /** Called when the last rows scroll into view, to load more data */
+  onEndReached?: () => void;
 }
 
 export interface DataTableRef {
@@ -113,6 +117,7 @@ export const DataTable = function DataTable({
   hasActiveSearch,
   onClearFilters,
   onClearSearch,
+  onEndReached,
 }: DataTableProps & { ref?: React.RefObject<DataTableRef | null> }) {
   const containerRef = useRef<HTMLDivElement>(null);
   const tableFont = useTableFont();
@@ -279,6 +284,19 @@ export const DataTable = function DataTable({
     estimateSize: () => ROW_HEIGHT,
     overscan: 10,
   });
+  const virtualItems = rowVirtualizer.getVirtualItems();
+  const lastRenderedIndex = virtualItems.at(-1)?.index ?? -1;
+
+  // Ask for more rows once the end of the data is about to scroll into view
+  useEffect(() => {
+    if (
+      onEndReached &&
+      rows.length > 0 &&
+      lastRenderedIndex >= rows.length - 1
+    ) {
+      onEndReached();
+    }
+  }, [onEndReached, lastRenderedIndex, rows.length]);
 
   return (
     <ScrollArea
@@ -337,7 +355,7 @@ export const DataTable = function DataTable({
         {/* Virtualized table body */}
         <TableBody
           rows={rows}
-          virtualItems={rowVirtualizer.getVirtualItems()}
+          virtualItems={virtualItems}
           totalSize={rowVirtualizer.getTotalSize()}
           editable={editable}
           onCellClick={handleCellClick}
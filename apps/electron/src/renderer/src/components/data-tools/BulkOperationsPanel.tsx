@@ -1,3 +1,8 @@
+import type {
+  ImportDataResponse,
+  ImportPreviewResponse,
+  ImportProgressEvent,
+} from '@shared/types';
 import { Badge } from '@sqlpro/ui/badge';
 import { Button, buttonVariants } from '@sqlpro/ui/button';
 import { Input } from '@sqlpro/ui/input';
@@ -22,7 +27,7 @@ import {
   Upload,
   X,
 } from 'lucide-react';
-import { memo, useCallback, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -31,6 +36,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { sqlPro } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
 export type ExportFormat = 'csv' | 'json' | 'sql';
@@ -40,8 +46,12 @@ interface BulkOperationsPanelProps {
   onOpenChange: (open: boolean) => void;
   tableName?: string;
   columns?: string[];
+  /** Connection to import into (import is disabled without it) */
+  connectionId?: string;
+  /** Schema of tableName */
+  schema?: string;
   onExport?: (format: ExportFormat, options: ExportOptions) => Promise<void>;
-  onImport?: (file: File, options: ImportOptions) => Promise<ImportResult>;
+  onImportComplete?: (result: ImportDataResponse) => void;
 }
 
 interface ExportOptions {
@@ -58,12 +68,21 @@ interface ImportOptions {
   batchSize: number;
 }
 
-interface ImportResult {
-  success: boolean;
-  rowsImported: number;
-  rowsFailed: number;
-  errors: string[];
-}
+/** Target column for each source column ('' skips the column) */
+type ColumnMappingState = Record<string, string>;
+
+const IMPORT_FILE_EXTENSIONS = [
+  'csv',
+  'tsv',
+  'txt',
+  'json',
+  'ndjson',
+  'jsonl',
+  'xlsx',
+  'xls',
+];
+
+const SKIP_COLUMN = '__skip__';
 
 const FORMAT_INFO = {
   csv: {
@@ -92,8 +111,10 @@ export const BulkOperationsPanel = memo(
     onOpenChange,
     tableName,
     columns = [],
+    connectionId,
+    schema,
     onExport,
-    onImport,
+    onImportComplete,
   }: BulkOperationsPanelProps) => {
     const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
 
@@ -109,15 +130,23 @@ export const BulkOperationsPanel = memo(
 
     // Import state
     const [importFile, setImportFile] = useState<File | null>(null);
+    const [importFilePath, setImportFilePath] = useState<string | null>(null);
     const [importOptions, setImportOptions] = useState<ImportOptions>({
       hasHeaders: true,
       delimiter: ',',
       skipRows: 0,
       batchSize: 1000,
     });
+    const [createTable, setCreateTable] = useState(!tableName);
+    const [newTableName, setNewTableName] = useState('');
+    const [stopOnError, setStopOnError] = useState(false);
+    const [preview, setPreview] = useState<ImportPreviewResponse | null>(null);
+    const [columnMapping, setColumnMapping] = useState<ColumnMappingState>({});
     const [isImporting, setIsImporting] = useState(false);
     const [importProgress, setImportProgress] = useState(0);
-    const [importResult, setImportResult] = useState<ImportResult | null>(null);
+    const [importResult, setImportResult] = useState<ImportDataResponse | null>(
+      null
+    );
 
     const handleExport = useCallback(async () => {
       if (!onExport) return;
@@ -129,53 +158,148 @@ export const BulkOperationsPanel = memo(
       }
     }, [exportFormat, exportOptions, onExport]);
 
+    // Parse the selected file whenever it or the parse options change
+    const { hasHeaders, delimiter, skipRows } = importOptions;
+    useEffect(() => {
+      if (!importFilePath) return;
+
+      let cancelled = false;
+      sqlPro.import
+        .preview({
+          filePath: importFilePath,
+          hasHeaders,
+          delimiter,
+          skipRows,
+          previewRows: 5,
+        })
+        .then((response: ImportPreviewResponse) => {
+          if (cancelled) return;
+          setPreview(response);
+
+          // Map source columns to target columns with the same name
+          const lowerColumns = columns.map((c) => c.toLowerCase());
+          const mapping: ColumnMappingState = {};
+          for (const column of response.columns ?? []) {
+            const index = lowerColumns.indexOf(column.name.toLowerCase());
+            mapping[column.name] = index >= 0 ? columns[index] : '';
+          }
+          setColumnMapping(mapping);
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [importFilePath, hasHeaders, delimiter, skipRows, columns]);
+
+    const targetTable = createTable ? newTableName.trim() : tableName;
+    const mappedColumns = useMemo(
+      () =>
+        Object.entries(columnMapping).filter(([source, target]) =>
+          createTable ? source : target
+        ),
+      [columnMapping, createTable]
+    );
+
     const handleImport = useCallback(async () => {
-      if (!onImport || !importFile) return;
+      if (!connectionId || !importFilePath || !targetTable) return;
       setIsImporting(true);
       setImportProgress(0);
       setImportResult(null);
 
-      try {
-        // Simulate progress updates
-        const progressInterval = setInterval(() => {
-          setImportProgress((prev) => Math.min(prev + 10, 90));
-        }, 200);
+      const importId = crypto.randomUUID();
+      const unsubscribe = sqlPro.import.onProgress(
+        (progress: ImportProgressEvent) => {
+          if (progress.importId !== importId || progress.totalRows === 0) {
+            return;
+          }
+          setImportProgress(
+            Math.round((progress.rowsProcessed / progress.totalRows) * 100)
+          );
+        }
+      );
 
-        const result = await onImport(importFile, importOptions);
-        clearInterval(progressInterval);
+      try {
+        const result: ImportDataResponse = await sqlPro.import.data({
+          connectionId,
+          filePath: importFilePath,
+          table: targetTable,
+          schema,
+          createTable,
+          hasHeaders: importOptions.hasHeaders,
+          delimiter: importOptions.delimiter,
+          skipRows: importOptions.skipRows,
+          batchSize: importOptions.batchSize,
+          onError: stopOnError ? 'abort' : 'skip',
+          columnMappings: mappedColumns.map(([source, target]) => ({
+            source,
+            target: createTable ? target || source : target,
+          })),
+          importId,
+        });
         setImportProgress(100);
         setImportResult(result);
+        onImportComplete?.(result);
       } catch {
         setImportResult({
           success: false,
-          rowsImported: 0,
-          rowsFailed: 0,
-          errors: ['Import failed. Please check your file format.'],
+          error: 'Import failed. Please check your file format.',
         });
       } finally {
+        unsubscribe();
         setIsImporting(false);
       }
-    }, [importFile, importOptions, onImport]);
+    }, [
+      connectionId,
+      importFilePath,
+      targetTable,
+      schema,
+      createTable,
+      importOptions,
+      stopOnError,
+      mappedColumns,
+      onImportComplete,
+    ]);
+
+    const selectFile = useCallback((file: File) => {
+      setImportFile(file);
+      setImportFilePath(sqlPro.file.getPathForFile(file));
+      setImportResult(null);
+    }, []);
+
+    const clearFile = useCallback(() => {
+      setImportFile(null);
+      setImportFilePath(null);
+      setPreview(null);
+      setImportResult(null);
+    }, []);
 
     const handleFileSelect = useCallback(
       (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
-          setImportFile(file);
-          setImportResult(null);
+          selectFile(file);
         }
       },
-      []
+      [selectFile]
     );
 
-    const handleDrop = useCallback((e: React.DragEvent) => {
-      e.preventDefault();
-      const file = e.dataTransfer.files[0];
-      if (file) {
-        setImportFile(file);
-        setImportResult(null);
-      }
-    }, []);
+    const handleDrop = useCallback(
+      (e: React.DragEvent) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) {
+          selectFile(file);
+        }
+      },
+      [selectFile]
+    );
+
+    const isDelimited = importFile
+      ? /\.(?:csv|txt)$/i.test(importFile.name)
+      : false;
+    const isTabular = importFile
+      ? !/\.(?:json|ndjson|jsonl)$/i.test(importFile.name)
+      : false;
 
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -324,11 +448,7 @@ export const BulkOperationsPanel = memo(
                         {(importFile.size / 1024).toFixed(1)} KB
                       </p>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setImportFile(null)}
-                    >
+                    <Button variant="ghost" size="sm" onClick={clearFile}>
                       <X className="mr-1 h-4 w-4" />
                       Remove
                     </Button>
@@ -344,7 +464,9 @@ export const BulkOperationsPanel = memo(
                     </div>
                     <Input
                       type="file"
-                      accept=".csv,.json,.sql"
+                      accept={IMPORT_FILE_EXTENSIONS.map((e) => `.${e}`).join(
+                        ','
+                      )}
                       onChange={handleFileSelect}
                       className="hidden"
                       id="file-upload"
@@ -365,26 +487,70 @@ export const BulkOperationsPanel = memo(
               {/* Import Options */}
               {importFile && (
                 <div className="grid gap-4 sm:grid-cols-2">
-                  <div className="grid gap-2">
-                    <Label htmlFor="hasHeaders">First Row as Headers</Label>
-                    <Select
-                      value={importOptions.hasHeaders ? 'yes' : 'no'}
-                      onValueChange={(v) =>
-                        setImportOptions({
-                          ...importOptions,
-                          hasHeaders: v === 'yes',
-                        })
-                      }
-                    >
-                      <SelectTrigger id="hasHeaders">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="yes">Yes</SelectItem>
-                        <SelectItem value="no">No</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {isTabular && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="hasHeaders">First Row as Headers</Label>
+                      <Select
+                        value={importOptions.hasHeaders ? 'yes' : 'no'}
+                        onValueChange={(v) =>
+                          setImportOptions({
+                            ...importOptions,
+                            hasHeaders: v === 'yes',
+                          })
+                        }
+                      >
+                        <SelectTrigger id="hasHeaders">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="yes">Yes</SelectItem>
+                          <SelectItem value="no">No</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {isDelimited && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="importDelimiter">Delimiter</Label>
+                      <Select
+                        value={importOptions.delimiter}
+                        onValueChange={(v) =>
+                          v &&
+                          setImportOptions({ ...importOptions, delimiter: v })
+                        }
+                      >
+                        <SelectTrigger id="importDelimiter">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value=",">Comma (,)</SelectItem>
+                          <SelectItem value=";">Semicolon (;)</SelectItem>
+                          <SelectItem value="\t">Tab</SelectItem>
+                          <SelectItem value="|">Pipe (|)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {isTabular && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="skipRows">Skip Rows</Label>
+                      <Input
+                        id="skipRows"
+                        type="number"
+                        min={0}
+                        value={importOptions.skipRows}
+                        onChange={(e) =>
+                          setImportOptions({
+                            ...importOptions,
+                            skipRows: Math.max(
+                              0,
+                              Number.parseInt(e.target.value) || 0
+                            ),
+                          })
+                        }
+                      />
+                    </div>
+                  )}
                   <div className="grid gap-2">
                     <Label htmlFor="batchSize">Batch Size</Label>
                     <Input
@@ -399,6 +565,114 @@ export const BulkOperationsPanel = memo(
                       }
                     />
                   </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="importTarget">Target</Label>
+                    <Select
+                      value={createTable ? 'new' : 'existing'}
+                      onValueChange={(v) => setCreateTable(v === 'new')}
+                    >
+                      <SelectTrigger id="importTarget">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tableName && (
+                          <SelectItem value="existing">
+                            Existing table ({tableName})
+                          </SelectItem>
+                        )}
+                        <SelectItem value="new">New table</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {createTable && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="newTableName">Table Name</Label>
+                      <Input
+                        id="newTableName"
+                        value={newTableName}
+                        onChange={(e) => setNewTableName(e.target.value)}
+                        placeholder="imported_data"
+                      />
+                    </div>
+                  )}
+                  <div className="grid gap-2">
+                    <Label htmlFor="onError">On Row Error</Label>
+                    <Select
+                      value={stopOnError ? 'abort' : 'skip'}
+                      onValueChange={(v) => setStopOnError(v === 'abort')}
+                    >
+                      <SelectTrigger id="onError">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip row</SelectItem>
+                        <SelectItem value="abort">Stop import</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {/* Column Mapping */}
+              {preview && !preview.success && (
+                <p className="text-sm text-red-600">{preview.error}</p>
+              )}
+              {preview?.success && preview.columns && (
+                <div className="grid gap-2">
+                  <Label>
+                    Column Mapping ({preview.totalRows?.toLocaleString()} rows)
+                  </Label>
+                  <div className="bg-muted/50 max-h-48 space-y-1 overflow-auto rounded-lg p-2">
+                    {preview.columns.map((column) => (
+                      <div
+                        key={column.name}
+                        className="grid grid-cols-2 items-center gap-2"
+                      >
+                        <div className="flex items-center gap-2 truncate text-sm">
+                          <span className="truncate">{column.name}</span>
+                          <Badge variant="secondary" className="text-xs">
+                            {column.inferredType}
+                          </Badge>
+                        </div>
+                        {createTable ? (
+                          <Input
+                            value={columnMapping[column.name] ?? ''}
+                            placeholder={column.name}
+                            onChange={(e) =>
+                              setColumnMapping({
+                                ...columnMapping,
+                                [column.name]: e.target.value,
+                              })
+                            }
+                          />
+                        ) : (
+                          <Select
+                            value={columnMapping[column.name] || SKIP_COLUMN}
+                            onValueChange={(v) =>
+                              setColumnMapping({
+                                ...columnMapping,
+                                [column.name]: !v || v === SKIP_COLUMN ? '' : v,
+                              })
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={SKIP_COLUMN}>
+                                Skip column
+                              </SelectItem>
+                              {columns.map((col) => (
+                                <SelectItem key={col} value={col}>
+                                  {col}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                 </div>
               )}
 
@@ -435,14 +709,21 @@ export const BulkOperationsPanel = memo(
                         : 'Import Failed'}
                     </p>
                     <p className="text-muted-foreground text-sm">
-                      {importResult.rowsImported} rows imported
-                      {importResult.rowsFailed > 0 &&
+                      {importResult.rowsImported ?? 0} rows imported
+                      {(importResult.rowsFailed ?? 0) > 0 &&
                         `, ${importResult.rowsFailed} failed`}
                     </p>
-                    {importResult.errors.length > 0 && (
+                    {importResult.error && (
+                      <p className="mt-2 text-sm text-red-600">
+                        {importResult.error}
+                      </p>
+                    )}
+                    {importResult.errors && importResult.errors.length > 0 && (
                       <ul className="mt-2 text-sm text-red-600">
                         {importResult.errors.slice(0, 3).map((err) => (
-                          <li key={`error-${err.slice(0, 50)}`}>{err}</li>
+                          <li key={`error-${err.row}`}>
+                            Row {err.row}: {err.error}
+                          </li>
                         ))}
                       </ul>
                     )}
@@ -468,7 +749,14 @@ export const BulkOperationsPanel = memo(
             ) : (
               <Button
                 onClick={handleImport}
-                disabled={isImporting || !importFile}
+                disabled={
+                  isImporting ||
+                  !importFilePath ||
+                  !connectionId ||
+                  !targetTable ||
+                  !preview?.success ||
+                  mappedColumns.length === 0
+                }
               >
                 {isImporting ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -4,13 +4,17 @@ import { Handle, Position } from '@xyflow/react';
 import {
   AlertTriangle,
   Database,
+  Flame,
   HardDrive,
   Search,
   Table,
   Zap,
 } from 'lucide-react';
 import { memo } from 'react';
-import { getWarningMessage } from '@/lib/query-plan-analyzer';
+import {
+  formatEstimateError,
+  getWarningMessage,
+} from '@/lib/query-plan-analyzer';
 import { cn } from '@/lib/utils';
 
 interface ExecutionPlanNodeProps {
@@ -71,6 +75,12 @@ function ExecutionPlanNodeComponent({
     warningType,
     tableName,
     indexName,
+    actualRows,
+    loops,
+    actualTimeMs,
+    sharedHitBlocks,
+    sharedReadBlocks,
+    insight,
   } = data;
 
   const Icon = getOperationIcon(operation);
@@ -85,7 +95,11 @@ function ExecutionPlanNodeComponent({
         'bg-card text-card-foreground min-w-[280px] rounded-lg border shadow-sm',
         'dark:border-zinc-700 dark:bg-zinc-900',
         selected && 'ring-primary ring-2',
-        hasWarning && [warningStyle.border, warningStyle.bg]
+        hasWarning && [warningStyle.border, warningStyle.bg],
+        insight?.isHottest && 'border-2 border-red-500 dark:border-red-600',
+        insight?.isWorstEstimate &&
+          !insight.isHottest &&
+          'border-2 border-amber-500 dark:border-amber-600'
       )}
     >
       {/* Target handle (incoming connections from parent nodes) */}
@@ -169,6 +183,49 @@ function ExecutionPlanNodeComponent({
             )}
           </div>
         )}
+        {/* Actual metrics of EXPLAIN ANALYZE */}
+        {actualRows !== undefined && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+            <div className="flex items-center gap-1">
+              <span className="text-muted-foreground">Actual:</span>
+              <span className="font-medium">
+                {actualRows}
+                {loops !== undefined && loops !== 1 && ` × ${loops}`}
+              </span>
+            </div>
+            {actualTimeMs !== undefined && (
+              <div className="flex items-center gap-1">
+                <span className="text-muted-foreground">Time:</span>
+                <span className="font-medium">{actualTimeMs.toFixed(2)}ms</span>
+              </div>
+            )}
+            {sharedHitBlocks !== undefined && (
+              <div className="flex items-center gap-1">
+                <span className="text-muted-foreground">Buffers:</span>
+                <span className="font-medium">
+                  {sharedHitBlocks} hit / {sharedReadBlocks ?? 0} read
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Estimate error and time hotspot */}
+        {(insight?.isWorstEstimate || insight?.isHottest) && (
+          <div className="flex flex-wrap gap-1">
+            {insight.isHottest && (
+              <span className="inline-flex items-center gap-1 rounded bg-red-500/15 px-1.5 py-0.5 text-xs font-medium text-red-700 dark:text-red-400">
+                <Flame className="h-3 w-3" />
+                {Math.round((insight.timeShare ?? 0) * 100)}% of time
+              </span>
+            )}
+            {insight.isWorstEstimate && (
+              <span className="inline-flex items-center gap-1 rounded bg-amber-500/15 px-1.5 py-0.5 text-xs font-medium text-amber-700 dark:text-amber-400">
+                Rows {formatEstimateError(insight)}estimated
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Source handle (outgoing connections to child nodes) */}
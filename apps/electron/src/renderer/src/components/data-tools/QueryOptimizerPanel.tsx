@@ -1,12 +1,15 @@
-import type { QueryPlanNode, QueryPlanStats } from '@shared/types';
+import type { QueryPlanNode, QueryPlanStats, SqlDialect } from '@shared/types';
 import type { ColorMode } from '@xyflow/react';
 import type { ErrorInfo, ReactNode } from 'react';
 import type {
   ExecutionPlanFlowEdge,
   ExecutionPlanFlowNode,
+  PlanNodeInsight,
 } from '@/lib/query-plan-analyzer';
+import { isReadOnlyStatement } from '@shared/sql-statements';
 import { Badge } from '@sqlpro/ui/badge';
 import { Button } from '@sqlpro/ui/button';
+import { Label } from '@sqlpro/ui/label';
 import { ScrollArea } from '@sqlpro/ui/scroll-area';
 import {
   Sheet,
@@ -16,6 +19,7 @@ import {
   SheetHeader,
   SheetTitle,
 } from '@sqlpro/ui/sheet';
+import { Switch } from '@sqlpro/ui/switch';
 import {
   Background,
   Controls,
@@ -33,11 +37,13 @@ import {
   Database,
   Download,
   FileText,
+  Flame,
   HardDrive,
   LayoutList,
   Lightbulb,
   Loader2,
   Network,
+  Play,
   Search,
   Table,
   X,
@@ -53,7 +59,12 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { SqlHighlight } from '@/components/ui/sql-highlight';
-import { convertPlanToFlow, exportPlanAsText } from '@/lib/query-plan-analyzer';
+import {
+  analyzePlanInsights,
+  convertPlanToFlow,
+  exportPlanAsText,
+  formatEstimateError,
+} from '@/lib/query-plan-analyzer';
 import { cn } from '@/lib/utils';
 import { exportDiagramAsPng } from '../er-diagram/utils/export-diagram';
 import { ExecutionPlanNode as ExecutionPlanNodeComponent } from './ExecutionPlanNode';
@@ -115,7 +126,14 @@ interface QueryOptimizerPanelProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   query?: string;
-  onAnalyze?: (query: string) => Promise<{
+  /** Whether the database can measure the plan with EXPLAIN ANALYZE */
+  canExplainAnalyze?: boolean;
+  /** Dialect the query is written in */
+  dialect?: SqlDialect;
+  onAnalyze?: (
+    query: string,
+    options: { analyze: boolean }
+  ) => Promise<{
     plan: QueryPlanNode[];
     stats: QueryPlanStats;
     suggestions: Suggestion[];
@@ -142,13 +160,16 @@ const getOperationIcon = (detail: string): React.ElementType => {
 interface PlanNodeProps {
   node: QueryPlanNode;
   depth: number;
-  children?: QueryPlanNode[];
+  /** Child nodes keyed by parent id */
+  tree: Map<number, QueryPlanNode[]>;
+  insights: Map<number, PlanNodeInsight>;
 }
 
 const PlanNode = memo(function PlanNode({
   node,
   depth,
-  children = [],
+  tree,
+  insights,
 }: PlanNodeProps) {
   const [isExpanded, setIsExpanded] = useState(true);
 
@@ -158,14 +179,18 @@ const PlanNode = memo(function PlanNode({
   }
 
   const Icon = getOperationIcon(node.detail);
+  const children = tree.get(node.id) ?? [];
   const hasChildren = children.length > 0;
+  const insight = insights.get(node.id);
 
   return (
     <div className="space-y-1">
       <div
         className={cn(
           'hover:bg-muted/50 flex items-center gap-2 rounded-md p-2 transition-colors',
-          depth > 0 && 'ml-4 border-l pl-4'
+          depth > 0 && 'ml-4 border-l pl-4',
+          insight?.isHottest && 'bg-red-500/10',
+          insight?.isWorstEstimate && !insight.isHottest && 'bg-amber-500/10'
         )}
         style={{ marginLeft: depth * 16 }}
       >
@@ -192,39 +217,91 @@ const PlanNode = memo(function PlanNode({
             <div className="text-muted-foreground flex gap-4 text-xs">
               {node.estimatedCost && <span>Cost: {node.estimatedCost}</span>}
               {node.estimatedRows && <span>Rows: ~{node.estimatedRows}</span>}
+              {node.actualRows !== undefined && (
+                <span>
+                  Actual: {node.actualRows}
+                  {node.loops !== undefined &&
+                    node.loops !== 1 &&
+                    ` × ${node.loops} loops`}
+                </span>
+              )}
+              {node.actualTimeMs !== undefined && (
+                <span>Time: {node.actualTimeMs.toFixed(2)}ms</span>
+              )}
             </div>
           )}
         </div>
+        {insight?.isHottest && (
+          <Badge variant="destructive" className="shrink-0 gap-1 text-xs">
+            <Flame className="h-3 w-3" />
+            {Math.round((insight.timeShare ?? 0) * 100)}% of time
+          </Badge>
+        )}
+        {insight?.isWorstEstimate && (
+          <Badge
+            variant="outline"
+            className="shrink-0 border-amber-500 text-xs text-amber-700 dark:text-amber-400"
+          >
+            Rows {formatEstimateError(insight)}
+          </Badge>
+        )}
       </div>
       {isExpanded &&
         children.map((child) => (
-          <PlanNode key={child.id} node={child} depth={depth + 1} />
+          <PlanNode
+            key={child.id}
+            node={child}
+            depth={depth + 1}
+            tree={tree}
+            insights={insights}
+          />
         ))}
     </div>
   );
 });
 
 export const QueryOptimizerPanel = memo(
-  ({ open, onOpenChange, query = '', onAnalyze }: QueryOptimizerPanelProps) => {
+  ({
+    open,
+    onOpenChange,
+    query = '',
+    canExplainAnalyze = false,
+    dialect = 'sqlite',
+    onAnalyze,
+  }: QueryOptimizerPanelProps) => {
     const { resolvedTheme } = useTheme();
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [plan, setPlan] = useState<QueryPlanNode[]>([]);
     const [stats, setStats] = useState<QueryPlanStats | null>(null);
     const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [explainAnalyze, setExplainAnalyze] = useState(false);
     const [viewMode, setViewMode] = useState<ViewMode>('tree');
     const [selectedNode, setSelectedNode] =
       useState<ExecutionPlanFlowNode | null>(null);
     const [isExporting, setIsExporting] = useState(false);
 
+    // EXPLAIN ANALYZE executes the query, so it is held back for anything
+    // that could change data
+    const isAnalyzeBlocked = useMemo(
+      () =>
+        canExplainAnalyze &&
+        explainAnalyze &&
+        !!query.trim() &&
+        !isReadOnlyStatement(query, dialect),
+      [canExplainAnalyze, explainAnalyze, query, dialect]
+    );
+
     const handleAnalyze = useCallback(async () => {
-      if (!onAnalyze || !query.trim()) return;
+      if (!onAnalyze || !query.trim() || isAnalyzeBlocked) return;
 
       setIsAnalyzing(true);
       setError(null);
 
       try {
-        const result = await onAnalyze(query);
+        const result = await onAnalyze(query, {
+          analyze: canExplainAnalyze && explainAnalyze,
+        });
         setPlan(result.plan);
         setStats(result.stats);
         setSuggestions(result.suggestions);
@@ -233,7 +310,7 @@ export const QueryOptimizerPanel = memo(
       } finally {
         setIsAnalyzing(false);
       }
-    }, [onAnalyze, query]);
+    }, [onAnalyze, query, canExplainAnalyze, explainAnalyze, isAnalyzeBlocked]);
 
     // Build tree structure from flat plan
     const buildTree = (nodes: QueryPlanNode[]) => {
@@ -249,6 +326,7 @@ export const QueryOptimizerPanel = memo(
 
     const tree = buildTree(plan);
     const rootNodes = tree.get(0) || [];
+    const insights = useMemo(() => analyzePlanInsights(plan), [plan]);
 
     // Convert plan to React Flow nodes and edges
     const { flowNodes, flowEdges } = useMemo(() => {
@@ -344,18 +422,38 @@ export const QueryOptimizerPanel = memo(
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <span className="text-muted-foreground text-sm">Query</span>
-              <Button
-                size="sm"
-                onClick={handleAnalyze}
-                disabled={isAnalyzing || !query.trim()}
-              >
-                {isAnalyzing ? (
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                ) : (
-                  <Search className="mr-2 h-4 w-4" />
+              <div className="flex items-center gap-4">
+                {canExplainAnalyze && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="explain-analyze"
+                      checked={explainAnalyze}
+                      onCheckedChange={setExplainAnalyze}
+                      disabled={isAnalyzing}
+                    />
+                    <Label
+                      htmlFor="explain-analyze"
+                      className="cursor-pointer text-sm"
+                      title="Runs the query and rolls back its transaction to measure actual rows, loops and time"
+                    >
+                      <Play className="h-3.5 w-3.5" />
+                      Run EXPLAIN ANALYZE
+                    </Label>
+                  </div>
                 )}
-                Analyze
-              </Button>
+                <Button
+                  size="sm"
+                  onClick={handleAnalyze}
+                  disabled={isAnalyzing || !query.trim() || isAnalyzeBlocked}
+                >
+                  {isAnalyzing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Search className="mr-2 h-4 w-4" />
+                  )}
+                  Analyze
+                </Button>
+              </div>
             </div>
             {query ? (
               <SqlHighlight
@@ -370,6 +468,23 @@ export const QueryOptimizerPanel = memo(
             )}
           </div>
 
+          {/* EXPLAIN ANALYZE warning */}
+          {isAnalyzeBlocked && (
+            <div className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900 dark:bg-amber-950">
+              <AlertTriangle className="h-5 w-5 shrink-0 text-amber-600" />
+              <div>
+                <p className="font-medium text-amber-600">
+                  Query may change data
+                </p>
+                <p className="text-muted-foreground text-sm">
+                  EXPLAIN ANALYZE executes the query, so it only runs a single
+                  read-only statement. Turn it off to see the estimated plan
+                  instead.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Error */}
           {error && (
             <div className="border-destructive/50 bg-destructive/10 flex items-start gap-3 rounded-lg border p-4">
@@ -407,6 +522,13 @@ export const QueryOptimizerPanel = memo(
                 </p>
                 <p className="text-muted-foreground text-xs">Indexes Used</p>
               </div>
+              {stats.analyzed && (
+                <p className="text-muted-foreground col-span-4 text-center text-xs">
+                  Measured with EXPLAIN ANALYZE in a rolled-back transaction
+                  {stats.planningTime !== undefined &&
+                    ` · Planning ${stats.planningTime.toFixed(2)}ms`}
+                </p>
+              )}
             </div>
           )}
 
@@ -470,7 +592,8 @@ export const QueryOptimizerPanel = memo(
                           key={node.id}
                           node={node}
                           depth={0}
-                          children={tree.get(node.id)}
+                          tree={tree}
+                          insights={insights}
                         />
                       ))
                     )}
@@ -677,6 +800,77 @@ export const QueryOptimizerPanel = memo(
                     </div>
                   )}
 
+                  {/* Actual Metrics */}
+                  {selectedNode.data.actualRows !== undefined && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium">Actual Metrics</h3>
+                      <div className="bg-muted/50 grid grid-cols-3 gap-4 rounded-lg p-4">
+                        <div className="text-center">
+                          <p className="text-2xl font-bold">
+                            {selectedNode.data.actualRows}
+                          </p>
+                          <p className="text-muted-foreground text-xs">
+                            Rows per Loop
+                          </p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-2xl font-bold">
+                            {selectedNode.data.loops ?? 1}
+                          </p>
+                          <p className="text-muted-foreground text-xs">Loops</p>
+                        </div>
+                        {selectedNode.data.actualTimeMs !== undefined && (
+                          <div className="text-center">
+                            <p className="text-2xl font-bold">
+                              {selectedNode.data.actualTimeMs.toFixed(2)}ms
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              Total Time
+                            </p>
+                          </div>
+                        )}
+                        {selectedNode.data.insight?.selfTimeMs !==
+                          undefined && (
+                          <div className="text-center">
+                            <p className="text-2xl font-bold">
+                              {selectedNode.data.insight.selfTimeMs.toFixed(2)}
+                              ms
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              Own Time (
+                              {Math.round(
+                                (selectedNode.data.insight.timeShare ?? 0) * 100
+                              )}
+                              %)
+                            </p>
+                          </div>
+                        )}
+                        {selectedNode.data.insight?.estimateError !==
+                          undefined && (
+                          <div className="text-center">
+                            <p className="text-2xl font-bold">
+                              {formatEstimateError(selectedNode.data.insight)}
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              Row Estimate
+                            </p>
+                          </div>
+                        )}
+                        {selectedNode.data.sharedHitBlocks !== undefined && (
+                          <div className="text-center">
+                            <p className="text-2xl font-bold">
+                              {selectedNode.data.sharedHitBlocks} /{' '}
+                              {selectedNode.data.sharedReadBlocks ?? 0}
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              Buffers Hit / Read
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Warnings */}
                   {selectedNode.data.hasWarning && (
                     <div className="space-y-2">
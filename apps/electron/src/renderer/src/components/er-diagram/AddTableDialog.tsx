@@ -0,0 +1,178 @@
+import type { SchemaDesignChange } from '@shared/types';
+import { Button } from '@sqlpro/ui/button';
+import { Checkbox } from '@sqlpro/ui/checkbox';
+import { Input } from '@sqlpro/ui/input';
+import { Label } from '@sqlpro/ui/label';
+import { Table } from 'lucide-react';
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface AddTableDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Schema the new table is created in */
+  schema: string;
+  /** Record the new table. Returns why it was rejected, or null. */
+  onAddTable: (
+    change: Extract<SchemaDesignChange, { type: 'addTable' }>
+  ) => string | null;
+}
+
+const DEFAULT_FORM = {
+  tableName: '',
+  columnName: 'id',
+  columnType: 'INTEGER',
+  isPrimaryKey: true,
+};
+
+/**
+ * Dialog for adding a table in the ER diagram's design mode. A table starts
+ * with one column; more are added on the canvas.
+ */
+export function AddTableDialog({
+  open,
+  onOpenChange,
+  schema,
+  onAddTable,
+}: AddTableDialogProps) {
+  const [form, setForm] = useState(DEFAULT_FORM);
+  const [error, setError] = useState('');
+
+  // Start from an empty form each time the dialog opens
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setForm(DEFAULT_FORM);
+      setError('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rejection = onAddTable({
+      type: 'addTable',
+      schema,
+      table: form.tableName.trim(),
+      columns: [
+        {
+          name: form.columnName.trim(),
+          type: form.columnType.trim(),
+          nullable: !form.isPrimaryKey,
+          defaultValue: null,
+          isPrimaryKey: form.isPrimaryKey,
+        },
+      ],
+    });
+    if (rejection) {
+      setError(rejection);
+      return;
+    }
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Table className="h-5 w-5" />
+              Add Table
+            </DialogTitle>
+            <DialogDescription>
+              The table is added to the pending changes in {schema}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="design-table-name">
+                Table name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="design-table-name"
+                value={form.tableName}
+                onChange={(e) => {
+                  setForm((prev) => ({ ...prev, tableName: e.target.value }));
+                  setError('');
+                }}
+                placeholder="e.g., orders"
+                autoFocus
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="design-column-name">First column</Label>
+                <Input
+                  id="design-column-name"
+                  value={form.columnName}
+                  onChange={(e) => {
+                    setForm((prev) => ({
+                      ...prev,
+                      columnName: e.target.value,
+                    }));
+                    setError('');
+                  }}
+                />
+              </div>
+              <div className="w-32 space-y-2">
+                <Label htmlFor="design-column-type">Type</Label>
+                <Input
+                  id="design-column-type"
+                  value={form.columnType}
+                  onChange={(e) => {
+                    setForm((prev) => ({
+                      ...prev,
+                      columnType: e.target.value,
+                    }));
+                    setError('');
+                  }}
+                  className="font-mono"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="design-column-pk"
+                checked={form.isPrimaryKey}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    isPrimaryKey: checked === true,
+                  }))
+                }
+              />
+              <Label htmlFor="design-column-pk" className="font-normal">
+                Primary key
+              </Label>
+            </div>
+
+            {error && <p className="text-destructive text-xs">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!form.tableName.trim()}>
+              Add Table
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,20 +1,71 @@
+import type { DiagramTextFormat } from './utils/export-text';
+import type { DiagramFocus } from '@/stores/diagram-store';
+import type { ERTableNode } from '@/types/er-diagram';
 import { Button } from '@sqlpro/ui/button';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@sqlpro/ui/dropdown-menu';
 import { Panel, useReactFlow } from '@xyflow/react';
-import { Download, ImageIcon, LayoutGrid, Maximize } from 'lucide-react';
-import { useCallback, useState } from 'react';
+import {
+  Crosshair,
+  Download,
+  FileText,
+  ImageIcon,
+  LayoutGrid,
+  Loader2,
+  Maximize,
+  PencilRuler,
+  Plus,
+  SearchCheck,
+  Spline,
+} from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useDiagramStore } from '@/stores/diagram-store';
+import { ERViewsMenu } from './ERViewsMenu';
 import { exportDiagramAsPng, exportDiagramAsSvg } from './utils/export-diagram';
+import { DIAGRAM_TEXT_FORMATS } from './utils/export-text';
+
+const FOCUS_HOPS = [1, 2, 3];
 
 interface ERControlsProps {
+  dbPath: string;
+  /** Nodes currently on the canvas */
+  nodes: ERTableNode[];
   onResetLayout: () => void;
+  isDesignMode: boolean;
+  onToggleDesignMode: () => void;
+  onAddTable: () => void;
+  focus: DiagramFocus | null;
+  /** Focus on the selected table, showing tables up to `hops` away */
+  onFocus: (hops: number) => void;
+  onExitFocus: () => void;
+  /** Export the shown tables as diagram source text */
+  onExportText: (format: DiagramTextFormat) => void;
+  /** Number of inferred relationships shown */
+  inferredCount: number;
+  /** Check the shown inferred relationships against the data */
+  onVerifyInferred: () => void;
 }
 
-export function ERControls({ onResetLayout }: ERControlsProps) {
+export function ERControls({
+  dbPath,
+  nodes,
+  onResetLayout,
+  isDesignMode,
+  onToggleDesignMode,
+  onAddTable,
+  focus,
+  onFocus,
+  onExitFocus,
+  onExportText,
+  inferredCount,
+  onVerifyInferred,
+}: ERControlsProps) {
   const { fitView } = useReactFlow();
   const [isExporting, setIsExporting] = useState(false);
 
@@ -48,12 +99,122 @@ export function ERControls({ onResetLayout }: ERControlsProps) {
     }
   }, []);
 
+  const selectedCount = nodes.filter((n) => n.selected).length;
+  const activeViewId = useDiagramStore((s) => s.activeViewIdMap[dbPath]);
+  const {
+    showInferredRelationships,
+    setShowInferredRelationships,
+    isVerifyingRelationships,
+  } = useDiagramStore();
+  const isFirstRender = useRef(true);
+
+  // Frame the tables whenever another set of them is shown
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    const frame = requestAnimationFrame(() =>
+      fitView({ padding: 0.2, duration: 200 })
+    );
+    return () => cancelAnimationFrame(frame);
+  }, [focus, activeViewId, fitView]);
+
   const handleFitView = useCallback(() => {
     fitView({ padding: 0.2, duration: 200 });
   }, [fitView]);
 
   return (
     <Panel position="top-right" className="flex items-center gap-2">
+      {/* Design Mode */}
+      {isDesignMode && (
+        <Button variant="outline" size="sm" onClick={onAddTable}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add table
+        </Button>
+      )}
+      <Button
+        variant={isDesignMode ? 'default' : 'outline'}
+        size="sm"
+        onClick={onToggleDesignMode}
+        title={isDesignMode ? 'Leave design mode' : 'Design schema changes'}
+      >
+        <PencilRuler className="mr-1 h-4 w-4" />
+        Design
+      </Button>
+
+      {/* Saved Views */}
+      <ERViewsMenu dbPath={dbPath} nodes={nodes} />
+
+      {/* Focus */}
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          <Button
+            variant={focus ? 'default' : 'outline'}
+            size="sm"
+            title="Show a table with its related tables"
+          >
+            <Crosshair className="mr-1 h-4 w-4" />
+            {focus ? `Focus: ${focus.hops}` : 'Focus'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {FOCUS_HOPS.map((hops) => (
+            <DropdownMenuItem
+              key={hops}
+              onClick={() => onFocus(hops)}
+              disabled={!focus && selectedCount !== 1}
+            >
+              {hops === 1
+                ? 'Direct relationships'
+                : `Relationships up to ${hops} hops`}
+            </DropdownMenuItem>
+          ))}
+          {focus && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onExitFocus}>
+                Show all tables
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Inferred Relationships */}
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          <Button
+            variant="outline"
+            size="sm"
+            title="Relationships inferred from column names"
+          >
+            {isVerifyingRelationships ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Spline className="mr-1 h-4 w-4" />
+            )}
+            Relationships
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuCheckboxItem
+            checked={showInferredRelationships}
+            onCheckedChange={setShowInferredRelationships}
+          >
+            Show inferred relationships
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuItem
+            onClick={onVerifyInferred}
+            disabled={inferredCount === 0 || isVerifyingRelationships}
+          >
+            <SearchCheck className="mr-2 h-4 w-4" />
+            Verify {inferredCount > 0 ? `${inferredCount} ` : ''}inferred
+            relationships
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
       {/* Fit View */}
       <Button
         variant="outline"
@@ -91,6 +252,16 @@ export function ERControls({ onResetLayout }: ERControlsProps) {
             <ImageIcon className="mr-2 h-4 w-4" />
             Export as SVG
           </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {Object.entries(DIAGRAM_TEXT_FORMATS).map(([format, { label }]) => (
+            <DropdownMenuItem
+              key={format}
+              onClick={() => onExportText(format as DiagramTextFormat)}
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Export as {label}
+            </DropdownMenuItem>
+          ))}
         </DropdownMenuContent>
       </DropdownMenu>
     </Panel>
@@ -0,0 +1,226 @@
+import type { PreviewSchemaDesignResponse, TableInfo } from '@shared/types';
+import { describeSchemaDesignChange } from '@shared/schema-design';
+import { Button } from '@sqlpro/ui/button';
+import { ScrollArea } from '@sqlpro/ui/scroll-area';
+import { Panel } from '@xyflow/react';
+import {
+  AlertTriangle,
+  FileCode,
+  Loader2,
+  Play,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SqlHighlight } from '@/components/ui/sql-highlight';
+import { sqlPro } from '@/lib/api';
+import { useConnectionStore } from '@/stores';
+import { useSchemaDesignStore } from '@/stores/schema-design-store';
+
+interface ERDesignPanelProps {
+  connectionId: string;
+  /** Live tables and views the pending changes apply to */
+  tables: TableInfo[];
+}
+
+/**
+ * Lists the pending design changes and previews and applies their DDL.
+ */
+export function ERDesignPanel({ connectionId, tables }: ERDesignPanelProps) {
+  const changes = useSchemaDesignStore((s) => s.getChanges(connectionId));
+  const removeChange = useSchemaDesignStore((s) => s.removeChange);
+  const clearChanges = useSchemaDesignStore((s) => s.clearChanges);
+  const setSchema = useConnectionStore((s) => s.setSchema);
+
+  const [preview, setPreview] = useState<PreviewSchemaDesignResponse | null>(
+    null
+  );
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const result = await sqlPro.schemaDesign.preview({
+        connectionId,
+        changes,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to generate DDL');
+        return;
+      }
+      setPreview(result);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const refreshSchema = async () => {
+    const result = await sqlPro.db.getSchema({ connectionId });
+    if (result.success) {
+      setSchema(connectionId, {
+        schemas: result.schemas || [],
+        tables: result.tables || [],
+        views: result.views || [],
+      });
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const result = await sqlPro.schemaDesign.apply({
+        connectionId,
+        changes,
+      });
+      if (!result.success) {
+        toast.error(
+          result.failedStatement
+            ? `Statement ${result.failedStatement} failed: ${result.error}`
+            : result.error || 'Failed to apply changes',
+          { description: 'No changes were committed.' }
+        );
+        return;
+      }
+      clearChanges(connectionId);
+      setPreview(null);
+      await refreshSchema();
+      toast.success(
+        `Applied ${result.statementsExecuted} statement${result.statementsExecuted === 1 ? '' : 's'}`
+      );
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <>
+      <Panel
+        position="top-left"
+        className="bg-background w-72 rounded-lg border shadow-sm"
+      >
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">
+            Pending changes ({changes.length})
+          </span>
+          {changes.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => clearChanges(connectionId)}
+              title="Discard all changes"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="text-muted-foreground px-3 py-2 text-xs">
+            Add tables and columns, click a type to change it, or drag between
+            columns to add a foreign key.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-60">
+            <ul className="py-1">
+              {changes.map((change, index) => (
+                <li
+                  // Changes have no identity of their own and are only
+                  // removed by position
+                  // eslint-disable-next-line react/no-array-index-key
+                  key={index}
+                  className="hover:bg-accent/50 flex items-center gap-2 px-3 py-1 text-xs"
+                >
+                  <span className="flex-1 truncate font-mono">
+                    {describeSchemaDesignChange(change)}
+                  </span>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground shrink-0"
+                    onClick={() => removeChange(connectionId, tables, index)}
+                    title="Remove change"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <div className="border-t px-3 py-2">
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={changes.length === 0 || isPreviewing}
+            onClick={handlePreview}
+          >
+            {isPreviewing ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <FileCode className="mr-1 h-4 w-4" />
+            )}
+            Preview DDL
+          </Button>
+        </div>
+      </Panel>
+
+      <Dialog
+        open={preview !== null}
+        onOpenChange={(open) => !open && setPreview(null)}
+      >
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Schema Changes</DialogTitle>
+            <DialogDescription>
+              These statements run in one transaction.
+            </DialogDescription>
+          </DialogHeader>
+
+          {preview?.warnings?.map((warning) => (
+            <div
+              key={warning}
+              className="flex items-start gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-xs"
+            >
+              <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0 text-amber-500" />
+              {warning}
+            </div>
+          ))}
+
+          <ScrollArea className="max-h-96 rounded-md border">
+            <SqlHighlight
+              code={preview?.sql || '-- No changes'}
+              className="p-3 text-xs"
+            />
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApply}
+              disabled={isApplying || !preview?.statements?.length}
+            >
+              {isApplying ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-1 h-4 w-4" />
+              )}
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
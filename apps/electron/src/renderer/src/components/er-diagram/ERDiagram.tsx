@@ -1,5 +1,32 @@
-import type { ColorMode, NodeChange, OnNodesChange } from '@xyflow/react';
-import type { ERRelationshipEdge, ERTableNode } from '@/types/er-diagram';
+import type {
+  InferredRelationship,
+  SchemaDesignChange,
+  TableInfo,
+} from '@shared/types';
+import type {
+  ColorMode,
+  Connection,
+  NodeChange,
+  OnNodesChange,
+  XYPosition,
+} from '@xyflow/react';
+import type { DiagramTextFormat } from './utils/export-text';
+import type { DatabaseSchema } from '@/types/database';
+import type {
+  ERRelationshipEdge,
+  ERTableNode,
+  NodePosition,
+} from '@/types/er-diagram';
+import {
+  getRelationshipKey,
+  inferRelationships,
+  toForeignKeyChange,
+} from '@shared/relationship-inference';
+import {
+  applySchemaDesignChanges,
+  pruneSchemaDesignChanges,
+} from '@shared/schema-design';
+import { Button } from '@sqlpro/ui/button';
 import {
   Background,
   Controls,
@@ -9,16 +36,35 @@ import {
   useNodesState,
 } from '@xyflow/react';
 import { useTheme } from 'next-themes';
-import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
 import { useConnectionStore } from '@/stores';
 import { useDiagramStore } from '@/stores/diagram-store';
+import { useSchemaDesignStore } from '@/stores/schema-design-store';
+import { AddTableDialog } from './AddTableDialog';
 import { ERControls } from './ERControls';
+import { ERDesignPanel } from './ERDesignPanel';
 import { ERRelationshipEdge as ERRelationshipEdgeComponent } from './ERRelationshipEdge';
 import { ERTableNode as ERTableNodeComponent } from './ERTableNode';
+import { InferredRelationshipDialog } from './InferredRelationshipDialog';
+import { exportDiagramAsText } from './utils/export-text';
 import { applyAutoLayout } from './utils/layout-algorithm';
-import { schemaToNodesAndEdges } from './utils/schema-to-diagram';
+import {
+  getRelatedTableIds,
+  getTableNodeId,
+  inferredRelationshipsToEdges,
+  schemaToNodesAndEdges,
+} from './utils/schema-to-diagram';
 import '@xyflow/react/dist/style.css';
 
+// Horizontal gap between a new table and the rightmost table
+const NEW_TABLE_OFFSET_X = 320;
+
+// Focused tables are always laid out afresh
+const NO_POSITIONS: Record<string, NodePosition> = {};
+
+const NO_VERIFIED: Record<string, InferredRelationship> = {};
+
 // Register custom node and edge types
 const nodeTypes = {
   erTable: ERTableNodeComponent,
@@ -38,16 +84,97 @@ export function ERDiagram() {
     viewportMap,
     setViewport,
     resetLayout,
+    savedViewsMap,
+    activeViewIdMap,
+    updateView,
+    focus,
+    setFocus,
+    showInferredRelationships,
+    verifiedRelationshipsMap,
+    isVerifyingRelationships,
+    verifyRelationships,
   } = useDiagramStore();
+  const { isDesignMode, setDesignMode, changesMap, addChange } =
+    useSchemaDesignStore();
+  const [isAddTableOpen, setIsAddTableOpen] = useState(false);
+  const [openRelationshipKey, setOpenRelationshipKey] = useState<string | null>(
+    null
+  );
 
   const dbPath = connection?.path || '';
+  const connectionId = connection?.id || '';
   const hasAppliedInitialLayout = useRef(false);
 
+  // Live tables and views that design changes apply to
+  const baseTables = useMemo<TableInfo[]>(
+    () => (schema ? [...schema.tables, ...schema.views] : []),
+    [schema]
+  );
+
+  // Pending changes that still fit the live schema, which may have changed
+  // since they were made
+  const changes = useMemo(
+    () => pruneSchemaDesignChanges(baseTables, changesMap[connectionId] ?? []),
+    [baseTables, changesMap, connectionId]
+  );
+
+  // Schema with the pending changes applied
+  const designedSchema = useMemo<DatabaseSchema | null>(() => {
+    if (!schema || changes.length === 0) {
+      return schema;
+    }
+    const result = applySchemaDesignChanges(baseTables, changes);
+    if (!result.success) {
+      return schema;
+    }
+    return {
+      schemas: schema.schemas,
+      tables: result.tables.filter((t) => t.type === 'table'),
+      views: result.tables.filter((t) => t.type === 'view'),
+    };
+  }, [schema, baseTables, changes]);
+
+  // Relationships suggested by column names, with their verification.
+  // Inferring from the designed schema drops those made into foreign keys.
+  const verifiedRelationships =
+    verifiedRelationshipsMap[connectionId] ?? NO_VERIFIED;
+  const inferredRelationships = useMemo(() => {
+    if (!showInferredRelationships || !designedSchema) {
+      return [];
+    }
+    return inferRelationships(designedSchema.tables).map(
+      (relationship) =>
+        verifiedRelationships[getRelationshipKey(relationship)] ?? relationship
+    );
+  }, [showInferredRelationships, designedSchema, verifiedRelationships]);
+
+  const openRelationship =
+    inferredRelationships.find(
+      (r) => getRelationshipKey(r) === openRelationshipKey
+    ) ?? null;
+
+  const handleDesignChange = useCallback(
+    (change: SchemaDesignChange) => addChange(connectionId, baseTables, change),
+    [addChange, connectionId, baseTables]
+  );
+
   // Get stored positions for current database
   const storedPositions = useMemo(() => {
     return nodePositionsMap[dbPath] || {};
   }, [nodePositionsMap, dbPath]);
 
+  // Get the open saved view for current database
+  const activeView = useMemo(() => {
+    const viewId = activeViewIdMap[dbPath];
+    return savedViewsMap[dbPath]?.find((v) => v.id === viewId);
+  }, [savedViewsMap, activeViewIdMap, dbPath]);
+
+  // Positions of the shown tables: none while focused, the saved view's
+  // own layout, or the database's layout
+  const layoutPositions = focus
+    ? NO_POSITIONS
+    : (activeView?.nodePositions ?? storedPositions);
+
   // Get stored viewport for current database
   const storedViewport = useMemo(() => {
     return viewportMap[dbPath];
@@ -55,55 +182,139 @@ export function ERDiagram() {
 
   // Convert schema to nodes and edges
   const { rawNodes, rawEdges } = useMemo(() => {
-    if (!schema) {
+    if (!designedSchema) {
       return { rawNodes: [], rawEdges: [] };
     }
-    const { nodes, edges } = schemaToNodesAndEdges(schema);
-    return { rawNodes: nodes, rawEdges: edges };
-  }, [schema]);
+    const { nodes, edges: foreignKeyEdges } =
+      schemaToNodesAndEdges(designedSchema);
+    const edges = [
+      ...foreignKeyEdges,
+      ...inferredRelationshipsToEdges(designedSchema, inferredRelationships),
+    ];
+    if (!isDesignMode) {
+      return { rawNodes: nodes, rawEdges: edges };
+    }
+
+    // Mark what the pending changes add or modify
+    const pendingTables = new Set<string>();
+    const pendingColumns = new Map<string, string[]>();
+    for (const change of changes) {
+      const id = `${change.schema}.${change.table}`;
+      if (change.type === 'addTable') {
+        pendingTables.add(id);
+      } else if (change.type !== 'addForeignKey') {
+        const column =
+          change.type === 'addColumn' ? change.column.name : change.column;
+        pendingColumns.set(id, [...(pendingColumns.get(id) ?? []), column]);
+      }
+    }
+    const designNodes = nodes.map((node) => ({
+      ...node,
+      data: {
+        ...node.data,
+        isPending: pendingTables.has(node.id),
+        pendingColumns: pendingColumns.get(node.id),
+        onDesignChange: handleDesignChange,
+      },
+    }));
+    return { rawNodes: designNodes, rawEdges: edges };
+  }, [
+    designedSchema,
+    inferredRelationships,
+    isDesignMode,
+    changes,
+    handleDesignChange,
+  ]);
+
+  // Narrow down to the focused table's neighbourhood or the open saved
+  // view, and colour the view's groups
+  const { viewNodes, viewEdges } = useMemo(() => {
+    const shownIds = focus
+      ? getRelatedTableIds(rawEdges, focus.tableId, focus.hops)
+      : activeView
+        ? new Set(activeView.tableIds)
+        : null;
+    if (!shownIds) {
+      return { viewNodes: rawNodes, viewEdges: rawEdges };
+    }
+
+    const groupColors = new Map(
+      (activeView?.colorGroups ?? []).flatMap((group) =>
+        group.tableIds.map((id) => [id, group.color] as const)
+      )
+    );
+    return {
+      viewNodes: rawNodes
+        .filter((node) => shownIds.has(node.id))
+        .map((node) =>
+          groupColors.has(node.id)
+            ? {
+                ...node,
+                data: { ...node.data, color: groupColors.get(node.id) },
+              }
+            : node
+        ),
+      viewEdges: rawEdges.filter(
+        (edge) => shownIds.has(edge.source) && shownIds.has(edge.target)
+      ),
+    };
+  }, [rawNodes, rawEdges, focus, activeView]);
 
   // Apply layout to nodes
   const layoutedNodes = useMemo(() => {
-    if (rawNodes.length === 0) {
+    if (viewNodes.length === 0) {
       return [];
     }
 
-    const hasStoredPositions = Object.keys(storedPositions).length > 0;
+    const hasStoredPositions = Object.keys(layoutPositions).length > 0;
 
     // Check if all nodes have stored positions
     const allNodesHavePositions =
       hasStoredPositions &&
-      rawNodes.every((node) => {
-        const pos = storedPositions[node.id];
+      viewNodes.every((node) => {
+        const pos = layoutPositions[node.id];
         return pos && typeof pos.x === 'number' && typeof pos.y === 'number';
       });
 
     if (allNodesHavePositions) {
       // Use stored positions
-      return rawNodes.map((node) => ({
+      return viewNodes.map((node) => ({
         ...node,
-        position: storedPositions[node.id],
+        position: layoutPositions[node.id],
       }));
     }
 
     // Apply auto-layout for all nodes
-    return applyAutoLayout(rawNodes, rawEdges, 'LR');
-  }, [rawNodes, rawEdges, storedPositions]);
+    return applyAutoLayout(viewNodes, viewEdges, 'LR');
+  }, [viewNodes, viewEdges, layoutPositions]);
 
   const [nodes, setNodes, onNodesChange] =
     useNodesState<ERTableNode>(layoutedNodes);
   const [edges, setEdges, onEdgesChange] =
-    useEdgesState<ERRelationshipEdge>(rawEdges);
+    useEdgesState<ERRelationshipEdge>(viewEdges);
 
   // Update nodes when schema or layout changes
   useEffect(() => {
     if (layoutedNodes.length > 0) {
-      setNodes(layoutedNodes);
-      setEdges(rawEdges);
+      // Keep the selection, which saved views and focus work on
+      setNodes((current) => {
+        const selectedIds = new Set(
+          current.filter((n) => n.selected).map((n) => n.id)
+        );
+        return layoutedNodes.map((node) =>
+          selectedIds.has(node.id) ? { ...node, selected: true } : node
+        );
+      });
+      setEdges(viewEdges);
 
       // Save positions if this is a fresh layout (no stored positions)
       const hasStoredPositions = Object.keys(storedPositions).length > 0;
-      if (!hasStoredPositions && !hasAppliedInitialLayout.current) {
+      if (
+        !hasStoredPositions &&
+        !focus &&
+        !activeView &&
+        !hasAppliedInitialLayout.current
+      ) {
         hasAppliedInitialLayout.current = true;
         const newPositions: Record<string, { x: number; y: number }> = {};
         layoutedNodes.forEach((node) => {
@@ -114,10 +325,12 @@ export function ERDiagram() {
     }
   }, [
     layoutedNodes,
-    rawEdges,
+    viewEdges,
     setNodes,
     setEdges,
     storedPositions,
+    focus,
+    activeView,
     dbPath,
     setNodePositions,
   ]);
@@ -132,18 +345,33 @@ export function ERDiagram() {
     (changes: NodeChange<ERTableNode>[]) => {
       onNodesChange(changes);
 
+      // Focused tables are laid out on the fly and not kept
+      if (focus) return;
+
       // Persist position changes
+      const moved: Record<string, NodePosition> = {};
       changes.forEach((change) => {
         if (
           change.type === 'position' &&
           change.position &&
           change.dragging === false
         ) {
-          setNodePosition(dbPath, change.id, change.position);
+          moved[change.id] = change.position;
         }
       });
+      if (Object.keys(moved).length === 0) return;
+
+      if (activeView) {
+        updateView(dbPath, activeView.id, {
+          nodePositions: { ...activeView.nodePositions, ...moved },
+        });
+      } else {
+        Object.entries(moved).forEach(([id, position]) =>
+          setNodePosition(dbPath, id, position)
+        );
+      }
     },
-    [onNodesChange, dbPath, setNodePosition]
+    [onNodesChange, focus, activeView, dbPath, updateView, setNodePosition]
   );
 
   // Handle viewport changes
@@ -156,28 +384,108 @@ export function ERDiagram() {
 
   // Handle reset layout
   const handleResetLayout = useCallback(() => {
-    if (!schema) return;
-
-    resetLayout(dbPath);
+    if (viewNodes.length === 0) return;
 
-    const { nodes: freshNodes, edges: freshEdges } =
-      schemaToNodesAndEdges(schema);
-    const layoutedNewNodes = applyAutoLayout(freshNodes, freshEdges, 'LR');
+    const layoutedNewNodes = applyAutoLayout(viewNodes, viewEdges, 'LR');
 
     // Save new positions
     const newPositions: Record<string, { x: number; y: number }> = {};
     layoutedNewNodes.forEach((node) => {
       newPositions[node.id] = node.position;
     });
-    setNodePositions(dbPath, newPositions);
+    if (activeView && !focus) {
+      updateView(dbPath, activeView.id, { nodePositions: newPositions });
+    } else if (!focus) {
+      resetLayout(dbPath);
+      setNodePositions(dbPath, newPositions);
+    }
 
     setNodes(layoutedNewNodes);
-    setEdges(freshEdges);
-  }, [schema, dbPath, resetLayout, setNodePositions, setNodes, setEdges]);
+    setEdges(viewEdges);
+  }, [
+    viewNodes,
+    viewEdges,
+    activeView,
+    focus,
+    dbPath,
+    updateView,
+    resetLayout,
+    setNodePositions,
+    setNodes,
+    setEdges,
+  ]);
+
+  // Focus on the focused or selected table
+  const handleFocus = useCallback(
+    (hops: number) => {
+      const tableId =
+        focus?.tableId ?? nodes.find((n) => n.selected)?.id ?? null;
+      if (tableId) {
+        setFocus({ tableId, hops });
+      }
+    },
+    [focus, nodes, setFocus]
+  );
+
+  // Export the shown tables as diagram source text
+  const handleExportText = useCallback(
+    (format: DiagramTextFormat) => {
+      if (!designedSchema) return;
+      const shownIds = new Set(nodes.map((n) => n.id));
+      exportDiagramAsText(
+        [...designedSchema.tables, ...designedSchema.views].filter((t) =>
+          shownIds.has(getTableNodeId(t))
+        ),
+        format
+      );
+    },
+    [designedSchema, nodes]
+  );
+
+  // Check inferred relationships against the data
+  const handleVerifyRelationships = useCallback(
+    async (relationships: InferredRelationship[]) => {
+      const error = await verifyRelationships(connectionId, relationships);
+      if (error) {
+        toast.error(error);
+      }
+    },
+    [connectionId, verifyRelationships]
+  );
+
+  // Turn an inferred relationship into a pending foreign key, previewed and
+  // applied from the design panel
+  const handleCreateForeignKey = useCallback(
+    (relationship: InferredRelationship) => {
+      const error = handleDesignChange(toForeignKeyChange(relationship));
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setDesignMode(true);
+      setOpenRelationshipKey(null);
+      toast.success(
+        `Foreign key on ${relationship.table}.${relationship.column} added to the design changes`
+      );
+    },
+    [handleDesignChange, setDesignMode]
+  );
+
+  // Clicking an inferred relationship shows its details
+  const handleEdgeClick = useCallback(
+    (_event: React.MouseEvent, edge: ERRelationshipEdge) => {
+      if (edge.data?.inferred) {
+        setOpenRelationshipKey(getRelationshipKey(edge.data.inferred));
+      }
+    },
+    []
+  );
 
   // Handle node click - navigate to table
   const handleNodeClick = useCallback(
     (_event: React.MouseEvent, node: ERTableNode) => {
+      // Clicks edit the table while designing
+      if (isDesignMode) return;
       const table = schema?.tables.find(
         (t) => t.name === node.data.tableName && t.schema === node.data.schema
       );
@@ -185,9 +493,76 @@ export function ERDiagram() {
         setSelectedTable(table);
       }
     },
-    [schema, setSelectedTable]
+    [schema, isDesignMode, setSelectedTable]
+  );
+
+  // Drawing from a column to another adds a foreign key on the source table
+  const handleConnect = useCallback(
+    (params: Connection) => {
+      const source = nodes.find((n) => n.id === params.source);
+      const target = nodes.find((n) => n.id === params.target);
+      if (!source || !target || !params.sourceHandle || !params.targetHandle) {
+        return;
+      }
+      const error = handleDesignChange({
+        type: 'addForeignKey',
+        schema: source.data.schema,
+        table: source.data.tableName,
+        foreignKey: {
+          column: params.sourceHandle.replace(/-source$/, ''),
+          referencedTable: target.data.tableName,
+          referencedColumn: params.targetHandle.replace(/-target$/, ''),
+        },
+      });
+      if (error) {
+        toast.error(error);
+      }
+    },
+    [nodes, handleDesignChange]
   );
 
+  // Place a new table right of the others, so it does not trigger a layout
+  // of the whole diagram
+  const handleAddTable = useCallback(
+    (change: Extract<SchemaDesignChange, { type: 'addTable' }>) => {
+      const rightmost = nodes.reduce<XYPosition | null>(
+        (max, node) => (!max || node.position.x > max.x ? node.position : max),
+        null
+      );
+      const id = `${change.schema}.${change.table}`;
+      const position = rightmost
+        ? { x: rightmost.x + NEW_TABLE_OFFSET_X, y: rightmost.y }
+        : { x: 0, y: 0 };
+      const error = handleDesignChange(change);
+      if (error) return error;
+
+      // Show the new table in the open saved view
+      setFocus(null);
+      if (activeView) {
+        updateView(dbPath, activeView.id, {
+          tableIds: [...activeView.tableIds, id],
+          nodePositions: { ...activeView.nodePositions, [id]: position },
+        });
+      } else {
+        setNodePosition(dbPath, id, position);
+      }
+      return null;
+    },
+    [
+      nodes,
+      activeView,
+      dbPath,
+      setFocus,
+      updateView,
+      setNodePosition,
+      handleDesignChange,
+    ]
+  );
+
+  // Schema the new table is created in
+  const designSchemaName =
+    schema?.tables[0]?.schema ?? schema?.schemas[0]?.name ?? 'main';
+
   // Get initial viewport
   const defaultViewport = storedViewport || { x: 0, y: 0, zoom: 1 };
 
@@ -199,10 +574,13 @@ export function ERDiagram() {
     );
   }
 
-  if (nodes.length === 0) {
+  if (rawNodes.length === 0 && !isDesignMode) {
     return (
-      <div className="text-muted-foreground flex h-full items-center justify-center">
+      <div className="text-muted-foreground flex h-full flex-col items-center justify-center gap-3">
         No tables in database
+        <Button variant="outline" size="sm" onClick={() => setDesignMode(true)}>
+          Design tables
+        </Button>
       </div>
     );
   }
@@ -215,6 +593,10 @@ export function ERDiagram() {
         onNodesChange={handleNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={handleNodeClick}
+        onEdgeClick={handleEdgeClick}
+        onConnect={isDesignMode ? handleConnect : undefined}
+        nodesConnectable={isDesignMode}
+        deleteKeyCode={null}
         onMoveEnd={handleMoveEnd}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
@@ -234,8 +616,39 @@ export function ERDiagram() {
           pannable
           className="bg-background! border-border!"
         />
-        <ERControls onResetLayout={handleResetLayout} />
+        <ERControls
+          dbPath={dbPath}
+          nodes={nodes}
+          onResetLayout={handleResetLayout}
+          isDesignMode={isDesignMode}
+          onToggleDesignMode={() => setDesignMode(!isDesignMode)}
+          onAddTable={() => setIsAddTableOpen(true)}
+          focus={focus}
+          onFocus={handleFocus}
+          onExitFocus={() => setFocus(null)}
+          onExportText={handleExportText}
+          inferredCount={inferredRelationships.length}
+          onVerifyInferred={() =>
+            handleVerifyRelationships(inferredRelationships)
+          }
+        />
+        {isDesignMode && connectionId && (
+          <ERDesignPanel connectionId={connectionId} tables={baseTables} />
+        )}
       </ReactFlow>
+      <AddTableDialog
+        open={isAddTableOpen}
+        onOpenChange={setIsAddTableOpen}
+        schema={designSchemaName}
+        onAddTable={handleAddTable}
+      />
+      <InferredRelationshipDialog
+        relationship={openRelationship}
+        onClose={() => setOpenRelationshipKey(null)}
+        isVerifying={isVerifyingRelationships}
+        onVerify={(relationship) => handleVerifyRelationships([relationship])}
+        onCreateForeignKey={handleCreateForeignKey}
+      />
     </div>
   );
 }
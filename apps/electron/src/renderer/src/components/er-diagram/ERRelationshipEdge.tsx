@@ -57,6 +57,7 @@ function ERRelationshipEdgeComponent({
   });
 
   const cardinality = data?.cardinality || '1:N';
+  const inferred = data?.inferred;
 
   return (
     <>
@@ -68,6 +69,8 @@ function ERRelationshipEdgeComponent({
             ? 'var(--color-primary)'
             : 'var(--color-muted-foreground)',
           strokeWidth: selected ? 2 : 1.5,
+          // Inferred relationships are dashed to tell them from foreign keys
+          strokeDasharray: inferred ? '6 4' : undefined,
         }}
       />
       <EdgeLabelRenderer>
@@ -79,10 +82,20 @@ function ERRelationshipEdgeComponent({
             transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
           }}
         >
-          <div className="bg-background/90 flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs shadow-sm">
+          <div
+            className={`bg-background/90 flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs shadow-sm ${
+              inferred ? 'border-dashed' : ''
+            }`}
+            title={inferred?.reason}
+          >
             <CardinalityMarker cardinality={cardinality} position="source" />
             <span className="text-muted-foreground">:</span>
             <CardinalityMarker cardinality={cardinality} position="target" />
+            {inferred && (
+              <span className="text-muted-foreground ml-1 font-mono">
+                ~{Math.round(inferred.confidence * 100)}%
+              </span>
+            )}
           </div>
         </div>
       </EdgeLabelRenderer>
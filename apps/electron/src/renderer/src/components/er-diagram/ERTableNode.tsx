@@ -1,7 +1,8 @@
 import type { ERTableNodeData } from '@/types/er-diagram';
 import { Handle, Position } from '@xyflow/react';
-import { Eye, Key, Link2, Table } from 'lucide-react';
-import { memo } from 'react';
+import { Eye, Key, Link2, Plus, Table } from 'lucide-react';
+import { memo, useState } from 'react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
 interface ERTableNodeProps {
@@ -9,17 +10,149 @@ interface ERTableNodeProps {
   selected?: boolean;
 }
 
+const DESIGN_INPUT_CLASS =
+  'nodrag bg-background border-input rounded border px-1 font-mono text-xs focus:outline-none';
+
+interface ColumnTypeEditorProps {
+  type: string;
+  onCommit: (type: string) => boolean;
+  onCancel: () => void;
+}
+
+/**
+ * Inline input for a column type. Enter or leaving the field commits,
+ * Escape cancels.
+ */
+function ColumnTypeEditor({ type, onCommit, onCancel }: ColumnTypeEditorProps) {
+  const [value, setValue] = useState(type);
+
+  const commit = () => {
+    const next = value.trim();
+    if (!next || next === type) {
+      onCancel();
+    } else if (!onCommit(next)) {
+      setValue(type);
+    }
+  };
+
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') onCancel();
+      }}
+      className={cn(DESIGN_INPUT_CLASS, 'w-24 shrink-0')}
+    />
+  );
+}
+
+interface AddColumnFormProps {
+  onAdd: (name: string, type: string) => boolean;
+  onCancel: () => void;
+}
+
+function AddColumnForm({ onAdd, onCancel }: AddColumnFormProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState('TEXT');
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && name.trim() && type.trim()) {
+      if (onAdd(name.trim(), type.trim())) {
+        setName('');
+      }
+    }
+    if (e.key === 'Escape') onCancel();
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-3 py-1">
+      <input
+        autoFocus
+        placeholder="column"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className={cn(DESIGN_INPUT_CLASS, 'min-w-0 flex-1')}
+      />
+      <input
+        placeholder="type"
+        value={type}
+        onChange={(e) => setType(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className={cn(DESIGN_INPUT_CLASS, 'w-20')}
+      />
+    </div>
+  );
+}
+
 function ERTableNodeComponent({ data, selected }: ERTableNodeProps) {
-  const { tableName, columns, primaryKey, foreignKeys, isView } = data;
+  const {
+    tableName,
+    schema,
+    columns,
+    primaryKey,
+    foreignKeys,
+    isView,
+    color,
+    isPending,
+    pendingColumns,
+    onDesignChange,
+  } = data;
+  const [editingColumn, setEditingColumn] = useState<string | null>(null);
+  const [isAddingColumn, setIsAddingColumn] = useState(false);
 
   // Get set of FK column names for quick lookup
   const fkColumns = new Set(foreignKeys.map((fk) => fk.column));
+  // Views cannot be designed
+  const isDesigning = !!onDesignChange && !isView;
+
+  const recordChange = (
+    change: Parameters<NonNullable<typeof onDesignChange>>[0]
+  ): boolean => {
+    const error = onDesignChange?.(change) ?? null;
+    if (error) {
+      toast.error(error);
+      return false;
+    }
+    return true;
+  };
+
+  const handleSetColumnType = (column: string, columnType: string) => {
+    const accepted = recordChange({
+      type: 'setColumnType',
+      schema,
+      table: tableName,
+      column,
+      columnType,
+    });
+    if (accepted) setEditingColumn(null);
+    return accepted;
+  };
+
+  const handleAddColumn = (name: string, type: string) =>
+    recordChange({
+      type: 'addColumn',
+      schema,
+      table: tableName,
+      column: {
+        name,
+        type,
+        nullable: true,
+        defaultValue: null,
+        isPrimaryKey: false,
+      },
+    });
 
   return (
     <div
       className={cn(
         'bg-card text-card-foreground relative min-w-50 rounded-lg border shadow-sm',
         'dark:border-zinc-700 dark:bg-zinc-900',
+        isPending && 'border-dashed border-green-500 dark:border-green-500',
         selected && 'ring-primary ring-2'
       )}
     >
@@ -28,8 +161,10 @@ function ERTableNodeComponent({ data, selected }: ERTableNodeProps) {
         className={cn(
           'flex items-center gap-2 rounded-t-lg border-b px-3 py-2',
           'bg-muted/50 dark:bg-zinc-800/50',
-          isView ? 'text-blue-600 dark:text-blue-400' : 'text-foreground'
+          isView ? 'text-blue-600 dark:text-blue-400' : 'text-foreground',
+          color && 'border-t-4'
         )}
+        style={color ? { borderTopColor: color } : undefined}
       >
         {isView ? (
           <Eye className="h-4 w-4 shrink-0" />
@@ -44,13 +179,15 @@ function ERTableNodeComponent({ data, selected }: ERTableNodeProps) {
         {columns.map((column) => {
           const isPK = primaryKey.includes(column.name);
           const isFK = fkColumns.has(column.name);
+          const isPendingColumn = pendingColumns?.includes(column.name);
 
           return (
             <div
               key={column.name}
               className={cn(
                 'flex items-center gap-2 px-3 py-1 text-sm',
-                'hover:bg-accent/50'
+                'hover:bg-accent/50',
+                isPendingColumn && 'bg-green-500/10'
               )}
             >
               {/* PK/FK indicators */}
@@ -79,12 +216,33 @@ function ERTableNodeComponent({ data, selected }: ERTableNodeProps) {
                 {column.name}
               </span>
 
-              {/* Column type */}
-              <span className="text-muted-foreground shrink-0 font-mono text-xs">
-                {column.type}
-              </span>
+              {/* Column type, editable in design mode */}
+              {isDesigning && editingColumn === column.name ? (
+                <ColumnTypeEditor
+                  type={column.type}
+                  onCommit={(type) => handleSetColumnType(column.name, type)}
+                  onCancel={() => setEditingColumn(null)}
+                />
+              ) : (
+                <span
+                  className={cn(
+                    'text-muted-foreground shrink-0 font-mono text-xs',
+                    isDesigning &&
+                      'hover:text-foreground cursor-text hover:underline'
+                  )}
+                  title={isDesigning ? 'Click to change the type' : undefined}
+                  onClick={(e) => {
+                    if (!isDesigning) return;
+                    e.stopPropagation();
+                    setEditingColumn(column.name);
+                  }}
+                >
+                  {column.type}
+                </span>
+              )}
 
-              {/* Source handle (right side) - for FK columns */}
+              {/* Source handle (right side) - for FK columns, or any column
+                  while designing to draw a new relationship */}
               <Handle
                 type="source"
                 position={Position.Right}
@@ -93,12 +251,15 @@ function ERTableNodeComponent({ data, selected }: ERTableNodeProps) {
                   'h-2! w-2!',
                   isFK
                     ? 'border-blue-600! bg-blue-500!'
-                    : 'border-transparent! bg-transparent!'
+                    : isDesigning
+                      ? 'border-muted-foreground! bg-muted!'
+                      : 'border-transparent! bg-transparent!'
                 )}
-                isConnectable={isFK}
+                isConnectable={isFK || isDesigning}
               />
 
-              {/* Target handle (left side) - for PK columns */}
+              {/* Target handle (left side) - for PK columns, or any column
+                  while designing */}
               <Handle
                 type="target"
                 position={Position.Left}
@@ -107,13 +268,36 @@ function ERTableNodeComponent({ data, selected }: ERTableNodeProps) {
                   'h-2! w-2!',
                   isPK
                     ? 'border-amber-600! bg-amber-500!'
-                    : 'border-transparent! bg-transparent!'
+                    : isDesigning
+                      ? 'border-muted-foreground! bg-muted!'
+                      : 'border-transparent! bg-transparent!'
                 )}
-                isConnectable={isPK}
+                isConnectable={isPK || isDesigning}
               />
             </div>
           );
         })}
+
+        {/* Add column (design mode) */}
+        {isDesigning &&
+          (isAddingColumn ? (
+            <AddColumnForm
+              onAdd={handleAddColumn}
+              onCancel={() => setIsAddingColumn(false)}
+            />
+          ) : (
+            <button
+              type="button"
+              className="nodrag text-muted-foreground hover:text-foreground flex w-full items-center gap-1 px-3 py-1 text-xs"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsAddingColumn(true);
+              }}
+            >
+              <Plus className="h-3 w-3" />
+              Add column
+            </button>
+          ))}
       </div>
     </div>
   );
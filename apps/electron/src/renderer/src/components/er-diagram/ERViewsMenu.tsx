@@ -0,0 +1,256 @@
+import type { DiagramSavedView } from '@shared/types/renderer-store';
+import type { ERTableNode } from '@/types/er-diagram';
+import { Button } from '@sqlpro/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@sqlpro/ui/dropdown-menu';
+import { Input } from '@sqlpro/ui/input';
+import { Label } from '@sqlpro/ui/label';
+import { Check, Layers, Palette, Plus, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDiagramStore } from '@/stores/diagram-store';
+
+const GROUP_COLORS = [
+  '#3b82f6', // blue
+  '#10b981', // green
+  '#f59e0b', // amber
+  '#ef4444', // red
+  '#8b5cf6', // purple
+  '#ec4899', // pink
+  '#6366f1', // indigo
+  '#14b8a6', // teal
+];
+
+const EMPTY_VIEWS: DiagramSavedView[] = [];
+
+interface ERViewsMenuProps {
+  dbPath: string;
+  /** Nodes currently on the canvas, with their positions */
+  nodes: ERTableNode[];
+}
+
+type NameDialog = 'saveView' | 'colorGroup' | null;
+
+/**
+ * Saved views menu: switch between views, save the shown or selected tables
+ * as a view, and put tables of a view into colour groups.
+ */
+export function ERViewsMenu({ dbPath, nodes }: ERViewsMenuProps) {
+  const views = useDiagramStore((s) => s.savedViewsMap[dbPath] ?? EMPTY_VIEWS);
+  const activeViewId = useDiagramStore((s) => s.activeViewIdMap[dbPath]);
+  const {
+    saveView,
+    deleteView,
+    setActiveView,
+    setColorGroup,
+    deleteColorGroup,
+  } = useDiagramStore();
+
+  const [dialog, setDialog] = useState<NameDialog>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(GROUP_COLORS[0]);
+
+  const activeView = views.find((v) => v.id === activeViewId);
+  const selectedNodes = nodes.filter((n) => n.selected);
+  // A selection of several tables is saved on its own, otherwise
+  // everything shown
+  const nodesToSave = selectedNodes.length > 1 ? selectedNodes : nodes;
+
+  const openDialog = (next: NameDialog) => {
+    setName('');
+    setColor(GROUP_COLORS[0]);
+    setDialog(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (dialog === 'saveView') {
+      saveView(
+        dbPath,
+        trimmed,
+        Object.fromEntries(nodesToSave.map((n) => [n.id, n.position]))
+      );
+    } else if (dialog === 'colorGroup' && activeView) {
+      setColorGroup(dbPath, activeView.id, {
+        name: trimmed,
+        color,
+        tableIds: selectedNodes.map((n) => n.id),
+      });
+    }
+    setDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger>
+          <Button variant="outline" size="sm">
+            <Layers className="mr-1 h-4 w-4" />
+            {activeView?.name ?? 'All tables'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuItem onClick={() => setActiveView(dbPath, null)}>
+            <Check
+              className={`mr-2 h-4 w-4 ${activeView ? 'invisible' : ''}`}
+            />
+            All tables
+          </DropdownMenuItem>
+          {views.map((view) => (
+            <DropdownMenuItem
+              key={view.id}
+              onClick={() => setActiveView(dbPath, view.id)}
+            >
+              <Check
+                className={`mr-2 h-4 w-4 ${view.id === activeViewId ? '' : 'invisible'}`}
+              />
+              <span className="flex-1 truncate">{view.name}</span>
+              <span className="text-muted-foreground text-xs">
+                {view.tableIds.length}
+              </span>
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => openDialog('saveView')}
+            disabled={nodesToSave.length === 0}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {selectedNodes.length > 1
+              ? `Save ${selectedNodes.length} selected tables as view…`
+              : 'Save shown tables as view…'}
+          </DropdownMenuItem>
+
+          {activeView && (
+            <>
+              <DropdownMenuItem
+                onClick={() => openDialog('colorGroup')}
+                disabled={selectedNodes.length === 0}
+              >
+                <Palette className="mr-2 h-4 w-4" />
+                Color selected tables…
+              </DropdownMenuItem>
+              {activeView.colorGroups.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-muted-foreground text-xs font-normal">
+                    Color groups
+                  </DropdownMenuLabel>
+                  {activeView.colorGroups.map((group) => (
+                    <DropdownMenuItem
+                      key={group.id}
+                      onClick={() =>
+                        deleteColorGroup(dbPath, activeView.id, group.id)
+                      }
+                      title="Remove group"
+                    >
+                      <span
+                        className="mr-2 h-3 w-3 shrink-0 rounded-full"
+                        style={{ backgroundColor: group.color }}
+                      />
+                      <span className="flex-1 truncate">{group.name}</span>
+                      <X className="text-muted-foreground h-3 w-3" />
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => deleteView(dbPath, activeView.id)}
+                className="text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+      >
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>
+                {dialog === 'saveView' ? 'Save View' : 'Color Tables'}
+              </DialogTitle>
+              <DialogDescription>
+                {dialog === 'saveView'
+                  ? `Save ${nodesToSave.length} tables and their layout as a view.`
+                  : `Put ${selectedNodes.length} selected tables into a color group. Using the name of an existing group adds them to it.`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="diagram-name">Name</Label>
+                <Input
+                  id="diagram-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={
+                    dialog === 'saveView' ? 'e.g., Billing' : 'e.g., Core'
+                  }
+                  autoFocus
+                />
+              </div>
+
+              {dialog === 'colorGroup' && (
+                <div className="space-y-2">
+                  <Label>Color</Label>
+                  <div className="flex gap-2">
+                    {GROUP_COLORS.map((c) => (
+                      <button
+                        key={c}
+                        type="button"
+                        className={`h-8 w-8 rounded-full transition-transform hover:scale-110 ${
+                          color === c ? 'ring-primary ring-2 ring-offset-2' : ''
+                        }`}
+                        style={{ backgroundColor: c }}
+                        onClick={() => setColor(c)}
+                        aria-label={`Select color ${c}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialog(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
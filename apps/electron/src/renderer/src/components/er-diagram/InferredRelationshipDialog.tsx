@@ -0,0 +1,102 @@
+import type { InferredRelationship } from '@shared/types';
+import { Button } from '@sqlpro/ui/button';
+import { KeyRound, Loader2, SearchCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface InferredRelationshipDialogProps {
+  /** Relationship to show; the dialog is closed without one */
+  relationship: InferredRelationship | null;
+  onClose: () => void;
+  isVerifying: boolean;
+  onVerify: (relationship: InferredRelationship) => void;
+  /** Add a foreign key for the relationship to the design changes */
+  onCreateForeignKey: (relationship: InferredRelationship) => void;
+}
+
+function describeVerification(relationship: InferredRelationship): string {
+  const { verification } = relationship;
+  if (!verification) {
+    return 'Not verified against the data yet.';
+  }
+  if (verification.error) {
+    return `Could not be verified: ${verification.error}`;
+  }
+  if (verification.sampledValues === 0) {
+    return `"${relationship.column}" has no values to check.`;
+  }
+  return `${verification.matchedValues} of ${verification.sampledValues} sampled values exist in ${relationship.referencedTable}.${relationship.referencedColumn}.`;
+}
+
+/**
+ * Details of an inferred relationship, with actions to check it against the
+ * data and to turn it into a foreign key.
+ */
+export function InferredRelationshipDialog({
+  relationship,
+  onClose,
+  isVerifying,
+  onVerify,
+  onCreateForeignKey,
+}: InferredRelationshipDialogProps) {
+  return (
+    <Dialog
+      open={relationship !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogContent className="sm:max-w-md">
+        {relationship && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Inferred Relationship</DialogTitle>
+              <DialogDescription>
+                {relationship.reason}. No foreign key is declared for it.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3 py-2 text-sm">
+              <div className="bg-muted rounded px-3 py-2 font-mono text-xs">
+                {relationship.table}.{relationship.column} →{' '}
+                {relationship.referencedTable}.{relationship.referencedColumn}
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Confidence</span>
+                <span className="font-mono">
+                  {Math.round(relationship.confidence * 100)}%
+                </span>
+              </div>
+              <p className="text-muted-foreground">
+                {describeVerification(relationship)}
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => onVerify(relationship)}
+                disabled={isVerifying}
+              >
+                {isVerifying ? (
+                  <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                ) : (
+                  <SearchCheck className="mr-1 h-4 w-4" />
+                )}
+                Verify
+              </Button>
+              <Button onClick={() => onCreateForeignKey(relationship)}>
+                <KeyRound className="mr-1 h-4 w-4" />
+                Create foreign key
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
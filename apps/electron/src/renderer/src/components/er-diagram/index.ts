@@ -1,4 +1,8 @@
+export { AddTableDialog } from './AddTableDialog';
 export { ERControls } from './ERControls';
+export { ERDesignPanel } from './ERDesignPanel';
 export { ERDiagram } from './ERDiagram';
 export { ERRelationshipEdge } from './ERRelationshipEdge';
 export { ERTableNode } from './ERTableNode';
+export { ERViewsMenu } from './ERViewsMenu';
+export { InferredRelationshipDialog } from './InferredRelationshipDialog';
@@ -0,0 +1,117 @@
+import type { ColumnSchema, TableSchema } from '@/types/database';
+import { describe, expect, it } from 'vitest';
+import { diagramToText } from './export-text';
+
+const column = (
+  name: string,
+  type: string,
+  nullable = true,
+  isPrimaryKey = false
+): ColumnSchema => ({
+  name,
+  type,
+  nullable,
+  defaultValue: null,
+  isPrimaryKey,
+});
+
+const table = (
+  name: string,
+  columns: ColumnSchema[],
+  foreignKeys: TableSchema['foreignKeys'] = []
+): TableSchema => ({
+  name,
+  schema: 'main',
+  type: 'table',
+  columns,
+  primaryKey: columns.filter((c) => c.isPrimaryKey).map((c) => c.name),
+  foreignKeys,
+  indexes: [],
+  triggers: [],
+  sql: '',
+});
+
+const users = table('users', [
+  column('id', 'INTEGER', false, true),
+  column('email', 'VARCHAR(255)', false),
+]);
+
+const orders = table(
+  'orders',
+  [
+    column('id', 'INTEGER', false, true),
+    column('user_id', 'INTEGER', false),
+    column('total', 'NUMERIC(10, 2)'),
+    column('weight', 'DOUBLE PRECISION'),
+  ],
+  [
+    {
+      column: 'user_id',
+      referencedTable: 'users',
+      referencedColumn: 'id',
+      onDelete: 'CASCADE',
+      onUpdate: 'NO ACTION',
+    },
+  ]
+);
+
+describe('diagramToText', () => {
+  it('should write a Mermaid erDiagram with keys and relationships', () => {
+    expect(diagramToText([users, orders], 'mermaid')).toBe(
+      [
+        'erDiagram',
+        '    users {',
+        '        INTEGER id PK',
+        '        VARCHAR(255) email',
+        '    }',
+        '    orders {',
+        '        INTEGER id PK',
+        '        INTEGER user_id FK',
+        '        NUMERIC(10-2) total',
+        '        DOUBLE_PRECISION weight',
+        '    }',
+        '    users ||--o{ orders : "user_id"',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should write DBML tables and refs with referential actions', () => {
+    const dbml = diagramToText([users, orders], 'dbml');
+
+    expect(dbml).toContain('Table users {\n  id INTEGER [pk]\n');
+    expect(dbml).toContain('  email VARCHAR(255) [not null]\n');
+    expect(dbml).toContain('  total NUMERIC(10, 2)\n');
+    expect(dbml).toContain('  weight "DOUBLE PRECISION"\n');
+    expect(dbml).toContain(
+      'Ref: orders.user_id > users.id [delete: cascade]\n'
+    );
+  });
+
+  it('should write PlantUML entities with key columns first', () => {
+    const plantUml = diagramToText([users, orders], 'plantuml');
+
+    expect(plantUml.startsWith('@startuml\n')).toBe(true);
+    expect(plantUml).toContain(
+      'entity "orders" as orders {\n  * id : INTEGER <<PK>>\n  --\n  * user_id : INTEGER <<FK>>\n  total : NUMERIC(10, 2)\n  weight : DOUBLE PRECISION\n}'
+    );
+    expect(plantUml).toContain('users ||--o{ orders : user_id\n@enduml\n');
+  });
+
+  it('should leave out relationships to tables that are not exported', () => {
+    for (const format of ['mermaid', 'dbml', 'plantuml'] as const) {
+      expect(diagramToText([orders], format)).not.toContain('users');
+    }
+  });
+
+  it('should qualify tables whose name appears in more than one schema', () => {
+    const audit = { ...users, schema: 'audit' };
+
+    expect(diagramToText([users, audit], 'dbml')).toContain(
+      'Table audit.users {'
+    );
+    expect(diagramToText([users, audit], 'mermaid')).toContain(
+      '"main.users" {'
+    );
+  });
+});
@@ -0,0 +1,291 @@
+import type {
+  ColumnSchema,
+  ForeignKeySchema,
+  TableSchema,
+} from '@/types/database';
+
+export type DiagramTextFormat = 'mermaid' | 'dbml' | 'plantuml';
+
+export const DIAGRAM_TEXT_FORMATS: Record<
+  DiagramTextFormat,
+  { label: string; extension: string }
+> = {
+  mermaid: { label: 'Mermaid', extension: 'mmd' },
+  dbml: { label: 'DBML', extension: 'dbml' },
+  plantuml: { label: 'PlantUML', extension: 'puml' },
+};
+
+interface Relationship {
+  table: TableSchema;
+  referenced: TableSchema;
+  foreignKey: ForeignKeySchema;
+}
+
+const PLAIN_NAME = /^[A-Z_]\w*$/i;
+
+/**
+ * Names to write tables under. Tables are qualified with their schema only
+ * when the same name appears in more than one schema.
+ */
+function getTableNames(tables: TableSchema[]): Map<TableSchema, string> {
+  const counts = new Map<string, number>();
+  for (const table of tables) {
+    counts.set(table.name, (counts.get(table.name) ?? 0) + 1);
+  }
+  return new Map(
+    tables.map((table) => [
+      table,
+      (counts.get(table.name) ?? 0) > 1
+        ? `${table.schema}.${table.name}`
+        : table.name,
+    ])
+  );
+}
+
+/**
+ * Foreign keys between the exported tables. A referenced table is looked up
+ * in the same schema first, like the diagram does.
+ */
+function getRelationships(tables: TableSchema[]): Relationship[] {
+  const relationships: Relationship[] = [];
+  for (const table of tables) {
+    for (const foreignKey of table.foreignKeys) {
+      const referenced =
+        tables.find(
+          (t) =>
+            t.name === foreignKey.referencedTable && t.schema === table.schema
+        ) ?? tables.find((t) => t.name === foreignKey.referencedTable);
+      if (referenced) {
+        relationships.push({ table, referenced, foreignKey });
+      }
+    }
+  }
+  return relationships;
+}
+
+function isOneToOne(table: TableSchema, column: string): boolean {
+  return (
+    table.primaryKey.includes(column) ||
+    table.indexes.some(
+      (idx) =>
+        idx.isUnique && idx.columns.length === 1 && idx.columns[0] === column
+    )
+  );
+}
+
+function isNullable(table: TableSchema, column: string): boolean {
+  return table.columns.find((c) => c.name === column)?.nullable ?? true;
+}
+
+// ============ Mermaid ============
+
+function mermaidName(name: string): string {
+  return /^[A-Z_][\w-]*$/i.test(name) ? name : `"${name}"`;
+}
+
+/** Mermaid attribute types are single words */
+function mermaidType(type: string): string {
+  return (
+    type
+      .trim()
+      .replace(/\s*,\s*/g, '-')
+      .replace(/[^\w()[\]-]+/g, '_') || 'unknown'
+  );
+}
+
+function toMermaid(tables: TableSchema[]): string {
+  const names = getTableNames(tables);
+  const lines = ['erDiagram'];
+
+  for (const table of tables) {
+    const fkColumns = new Set(table.foreignKeys.map((fk) => fk.column));
+    lines.push(`    ${mermaidName(names.get(table)!)} {`);
+    for (const column of table.columns) {
+      const keys = [
+        table.primaryKey.includes(column.name) && 'PK',
+        fkColumns.has(column.name) && 'FK',
+      ].filter(Boolean);
+      lines.push(
+        `        ${mermaidType(column.type)} ${column.name}${keys.length ? ` ${keys.join(', ')}` : ''}`
+      );
+    }
+    lines.push('    }');
+  }
+
+  for (const { table, referenced, foreignKey } of getRelationships(tables)) {
+    const parent = isNullable(table, foreignKey.column) ? '|o' : '||';
+    const child = isOneToOne(table, foreignKey.column) ? 'o|' : 'o{';
+    lines.push(
+      `    ${mermaidName(names.get(referenced)!)} ${parent}--${child} ${mermaidName(names.get(table)!)} : "${foreignKey.column}"`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// ============ DBML ============
+
+function dbmlName(name: string): string {
+  return name
+    .split('.')
+    .map((part) => (PLAIN_NAME.test(part) ? part : `"${part}"`))
+    .join('.');
+}
+
+function dbmlType(type: string): string {
+  const trimmed = type.trim() || 'unknown';
+  return /^\w+(?:\(\d+(?:,\s*\d+)?\))?$/.test(trimmed)
+    ? trimmed
+    : `"${trimmed}"`;
+}
+
+function dbmlColumnSettings(table: TableSchema, column: ColumnSchema): string {
+  const settings: string[] = [];
+  if (table.primaryKey.length === 1 && table.primaryKey[0] === column.name) {
+    settings.push('pk');
+  } else if (!column.nullable) {
+    settings.push('not null');
+  }
+  if (column.defaultValue !== null && column.defaultValue !== undefined) {
+    settings.push(`default: \`${column.defaultValue}\``);
+  }
+  return settings.length ? ` [${settings.join(', ')}]` : '';
+}
+
+function dbmlReferentialAction(action: string | undefined): string | null {
+  if (!action || /^no action$/i.test(action)) return null;
+  return action.toLowerCase();
+}
+
+function toDbml(tables: TableSchema[]): string {
+  const names = getTableNames(tables);
+  const blocks: string[] = [];
+
+  for (const table of tables) {
+    const lines = [`Table ${dbmlName(names.get(table)!)} {`];
+    for (const column of table.columns) {
+      lines.push(
+        `  ${dbmlName(column.name)} ${dbmlType(column.type)}${dbmlColumnSettings(table, column)}`
+      );
+    }
+    if (table.primaryKey.length > 1) {
+      lines.push('', '  indexes {');
+      lines.push(
+        `    (${table.primaryKey.map(dbmlName).join(', ')}) [pk]`,
+        '  }'
+      );
+    }
+    if (table.type === 'view') {
+      lines.push('', "  Note: 'View'");
+    }
+    lines.push('}');
+    blocks.push(lines.join('\n'));
+  }
+
+  const refs = getRelationships(tables).map(
+    ({ table, referenced, foreignKey }) => {
+      const actions = [
+        dbmlReferentialAction(foreignKey.onDelete) &&
+          `delete: ${dbmlReferentialAction(foreignKey.onDelete)}`,
+        dbmlReferentialAction(foreignKey.onUpdate) &&
+          `update: ${dbmlReferentialAction(foreignKey.onUpdate)}`,
+      ].filter(Boolean);
+      const relation = isOneToOne(table, foreignKey.column) ? '-' : '>';
+      return `Ref: ${dbmlName(names.get(table)!)}.${dbmlName(foreignKey.column)} ${relation} ${dbmlName(names.get(referenced)!)}.${dbmlName(foreignKey.referencedColumn)}${actions.length ? ` [${actions.join(', ')}]` : ''}`;
+    }
+  );
+  if (refs.length > 0) {
+    blocks.push(refs.join('\n'));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// ============ PlantUML ============
+
+/** PlantUML aliases are plain identifiers */
+function plantUmlAlias(name: string): string {
+  return name.replace(/\W/g, '_');
+}
+
+function toPlantUml(tables: TableSchema[]): string {
+  const names = getTableNames(tables);
+  const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+
+  for (const table of tables) {
+    const name = names.get(table)!;
+    const fkColumns = new Set(table.foreignKeys.map((fk) => fk.column));
+    const keyColumns = table.columns.filter((c) =>
+      table.primaryKey.includes(c.name)
+    );
+    const otherColumns = table.columns.filter(
+      (c) => !table.primaryKey.includes(c.name)
+    );
+    const columnLine = (column: ColumnSchema) => {
+      const stereotypes = [
+        table.primaryKey.includes(column.name) && '<<PK>>',
+        fkColumns.has(column.name) && '<<FK>>',
+      ].filter(Boolean);
+      return `  ${column.nullable ? '' : '* '}${column.name} : ${column.type || 'unknown'}${stereotypes.length ? ` ${stereotypes.join(' ')}` : ''}`;
+    };
+
+    lines.push(
+      `entity "${name}" as ${plantUmlAlias(name)}${table.type === 'view' ? ' <<view>>' : ''} {`
+    );
+    lines.push(...keyColumns.map(columnLine));
+    if (keyColumns.length > 0) {
+      lines.push('  --');
+    }
+    lines.push(...otherColumns.map(columnLine));
+    lines.push('}', '');
+  }
+
+  for (const { table, referenced, foreignKey } of getRelationships(tables)) {
+    const parent = isNullable(table, foreignKey.column) ? '|o' : '||';
+    const child = isOneToOne(table, foreignKey.column) ? 'o|' : 'o{';
+    lines.push(
+      `${plantUmlAlias(names.get(referenced)!)} ${parent}--${child} ${plantUmlAlias(names.get(table)!)} : ${foreignKey.column}`
+    );
+  }
+
+  lines.push('@enduml');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes tables and the foreign keys between them as diagram source text
+ */
+export function diagramToText(
+  tables: TableSchema[],
+  format: DiagramTextFormat
+): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(tables);
+    case 'dbml':
+      return toDbml(tables);
+    case 'plantuml':
+      return toPlantUml(tables);
+  }
+}
+
+/**
+ * Downloads tables as a Mermaid, DBML or PlantUML file
+ */
+export function exportDiagramAsText(
+  tables: TableSchema[],
+  format: DiagramTextFormat,
+  filename = `er-diagram-${Date.now()}.${DIAGRAM_TEXT_FORMATS[format].extension}`
+): void {
+  const blob = new Blob([diagramToText(tables, format)], {
+    type: 'text/plain',
+  });
+  const url = URL.createObjectURL(blob);
+
+  // Trigger download
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,88 @@
+import type { DatabaseSchema, TableSchema } from '@/types/database';
+import type { ERRelationshipEdge } from '@/types/er-diagram';
+import { describe, expect, it } from 'vitest';
+import {
+  getRelatedTableIds,
+  inferredRelationshipsToEdges,
+} from './schema-to-diagram';
+
+const edge = (source: string, target: string): ERRelationshipEdge => ({
+  id: `${source}->${target}`,
+  source,
+  target,
+});
+
+// orders -> users -> teams, order_items -> orders, tags unrelated
+const edges = [
+  edge('main.orders', 'main.users'),
+  edge('main.users', 'main.teams'),
+  edge('main.order_items', 'main.orders'),
+];
+
+describe('getRelatedTableIds', () => {
+  it('should follow foreign keys in both directions up to the hop limit', () => {
+    expect(getRelatedTableIds(edges, 'main.orders', 1)).toEqual(
+      new Set(['main.orders', 'main.users', 'main.order_items'])
+    );
+    expect(getRelatedTableIds(edges, 'main.orders', 2)).toEqual(
+      new Set(['main.orders', 'main.users', 'main.order_items', 'main.teams'])
+    );
+  });
+
+  it('should return only the table itself with no hops or no relationships', () => {
+    expect(getRelatedTableIds(edges, 'main.orders', 0)).toEqual(
+      new Set(['main.orders'])
+    );
+    expect(getRelatedTableIds(edges, 'main.tags', 3)).toEqual(
+      new Set(['main.tags'])
+    );
+  });
+});
+
+describe('inferredRelationshipsToEdges', () => {
+  const posts: TableSchema = {
+    name: 'posts',
+    schema: 'main',
+    type: 'table',
+    columns: [],
+    primaryKey: [],
+    foreignKeys: [],
+    indexes: [],
+    triggers: [],
+    sql: '',
+  };
+  const schema: DatabaseSchema = {
+    schemas: [],
+    tables: [posts, { ...posts, name: 'users' }],
+    views: [],
+  };
+
+  it('should draw inferred relationships between column handles', () => {
+    const relationship = {
+      schema: 'main',
+      table: 'posts',
+      column: 'user_id',
+      referencedTable: 'users',
+      referencedColumn: 'id',
+      confidence: 0.85,
+      reason: 'Column "user_id" is named after table "users"',
+    };
+
+    expect(inferredRelationshipsToEdges(schema, [relationship])).toEqual([
+      {
+        id: 'inferred:main.posts.user_id->main.users.id',
+        source: 'main.posts',
+        target: 'main.users',
+        sourceHandle: 'user_id-source',
+        targetHandle: 'id-target',
+        type: 'erRelationship',
+        data: {
+          sourceColumn: 'user_id',
+          targetColumn: 'id',
+          cardinality: '1:N',
+          inferred: relationship,
+        },
+      },
+    ]);
+  });
+});
@@ -1,3 +1,4 @@
+import type { InferredRelationship } from '@shared/types';
 import type { DatabaseSchema, TableSchema } from '@/types/database';
 import type {
   Cardinality,
@@ -116,6 +117,45 @@ export function schemaToEdges(schema: DatabaseSchema): ERRelationshipEdge[] {
   return edges;
 }
 
+/**
+ * Converts inferred relationships to React Flow edges, drawn like foreign
+ * keys but marked as inferred
+ */
+export function inferredRelationshipsToEdges(
+  schema: DatabaseSchema,
+  relationships: InferredRelationship[]
+): ERRelationshipEdge[] {
+  return relationships.flatMap((relationship) => {
+    const table = schema.tables.find(
+      (t) => t.name === relationship.table && t.schema === relationship.schema
+    );
+    if (!table) {
+      return [];
+    }
+    const sourceId = getTableNodeId(table);
+    const targetId = `${relationship.schema}.${relationship.referencedTable}`;
+
+    const edgeData: EREdgeData = {
+      sourceColumn: relationship.column,
+      targetColumn: relationship.referencedColumn,
+      cardinality: determineCardinality(table, relationship.column),
+      inferred: relationship,
+    };
+
+    return [
+      {
+        id: `inferred:${sourceId}.${relationship.column}->${targetId}.${relationship.referencedColumn}`,
+        source: sourceId,
+        target: targetId,
+        sourceHandle: `${relationship.column}-source`,
+        targetHandle: `${relationship.referencedColumn}-target`,
+        type: 'erRelationship',
+        data: edgeData,
+      },
+    ];
+  });
+}
+
 /**
  * Finds the full table ID for a referenced table name
  * Searches in the same schema first, then in other schemas
@@ -156,3 +196,34 @@ export function schemaToNodesAndEdges(schema: DatabaseSchema): {
     edges: schemaToEdges(schema),
   };
 }
+
+/**
+ * Finds the tables within a number of foreign key hops of a table, in
+ * either direction. The table itself is included.
+ */
+export function getRelatedTableIds(
+  edges: ERRelationshipEdge[],
+  tableId: string,
+  hops: number
+): Set<string> {
+  const related = new Set([tableId]);
+  let frontier = [tableId];
+
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [from, to] of [
+        [edge.source, edge.target],
+        [edge.target, edge.source],
+      ]) {
+        if (frontier.includes(from) && !related.has(to)) {
+          related.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return related;
+}
@@ -0,0 +1,86 @@
+import type { QueryTab } from '@/stores';
+import { Button } from '@sqlpro/ui/button';
+import { ArrowLeftRight, Pin } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useQueryTabsStore } from '@/stores';
+import { ResultComparisonDialog } from './ResultComparisonDialog';
+
+interface PinnedResultsControlsProps {
+  connectionId: string;
+  tab: QueryTab | undefined;
+  /** Icon-sized buttons for the header of a split pane */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Pin button for the tab's current result and the entry point to comparing
+ * pinned results, shown in the results header.
+ */
+export const PinnedResultsControls = memo(
+  ({
+    connectionId,
+    tab,
+    compact = false,
+    className,
+  }: PinnedResultsControlsProps) => {
+    const pinTabResult = useQueryTabsStore((s) => s.pinTabResult);
+    const [compareOpen, setCompareOpen] = useState(false);
+    const [initialLeftId, setInitialLeftId] = useState<string>();
+
+    const handlePin = useCallback(() => {
+      if (!tab) return;
+      const pinnedResultId = pinTabResult(connectionId, tab.id);
+      if (pinnedResultId) {
+        setInitialLeftId(pinnedResultId);
+      }
+    }, [connectionId, tab, pinTabResult]);
+
+    if (!tab) {
+      return null;
+    }
+
+    const canPin = !!tab.results && tab.results.columns.length > 0;
+    const pinnedCount = tab.pinnedResults?.length ?? 0;
+    const buttonClass = compact ? 'h-6 gap-1 px-1.5 text-xs' : 'h-7 gap-1';
+    const iconClass = compact ? 'h-3 w-3' : 'h-3.5 w-3.5';
+
+    return (
+      <div className={cn('flex items-center gap-1', className)}>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={buttonClass}
+          onClick={handlePin}
+          disabled={!canPin}
+          title="Keep this result to compare later runs with it"
+        >
+          <Pin className={iconClass} />
+          Pin
+        </Button>
+        {pinnedCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className={buttonClass}
+            onClick={() => setCompareOpen(true)}
+            title="Compare pinned results"
+          >
+            <ArrowLeftRight className={iconClass} />
+            Compare ({pinnedCount})
+          </Button>
+        )}
+        {compareOpen && (
+          <ResultComparisonDialog
+            open={compareOpen}
+            onOpenChange={setCompareOpen}
+            connectionId={connectionId}
+            tab={tab}
+            initialLeftId={initialLeftId}
+          />
+        )}
+      </div>
+    );
+  }
+);
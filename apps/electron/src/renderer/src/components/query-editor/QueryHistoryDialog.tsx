@@ -0,0 +1,390 @@
+import type {
+  QueryHistoryConnection,
+  QueryHistoryEntry,
+  QueryHistoryStatus,
+} from '@shared/types';
+import type { HistoryDateRange } from '@/lib/query-history';
+import { Button } from '@sqlpro/ui/button';
+import { Input } from '@sqlpro/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@sqlpro/ui/select';
+import {
+  CheckCircle2,
+  FilePlus,
+  Loader2,
+  Play,
+  Search,
+  XCircle,
+} from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SqlHighlight } from '@/components/ui/sql-highlight';
+import { sqlPro } from '@/lib/api';
+import {
+  getHistoryConnectionLabel,
+  getHistoryDateFrom,
+} from '@/lib/query-history';
+import { cn } from '@/lib/utils';
+
+/** Entries fetched per page */
+const PAGE_SIZE = 50;
+
+/** Delay before a search runs while typing */
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Connection filter values besides a database path */
+const CURRENT_CONNECTION = 'current';
+const ALL_CONNECTIONS = 'all';
+
+type StatusFilter = QueryHistoryStatus | 'all';
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+const DATE_RANGE_OPTIONS: FilterOption[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+];
+
+const STATUS_OPTIONS: FilterOption[] = [
+  { value: 'all', label: 'Any status' },
+  { value: 'success', label: 'Succeeded' },
+  { value: 'error', label: 'Failed' },
+];
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+interface QueryHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Database of the active connection */
+  dbPath: string | null;
+  /** Opens the query in a new tab, running it when `run` is set */
+  onOpenQuery: (query: string, run: boolean) => void;
+}
+
+export function QueryHistoryDialog({
+  open,
+  onOpenChange,
+  dbPath,
+  onOpenQuery,
+}: QueryHistoryDialogProps) {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [dateRange, setDateRange] = useState<HistoryDateRange>('any');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [connectionFilter, setConnectionFilter] = useState(CURRENT_CONNECTION);
+  const [connections, setConnections] = useState<QueryHistoryConnection[]>([]);
+  const [entries, setEntries] = useState<QueryHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses of superseded searches are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setSearch(searchInput.trim()),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (!open) return;
+    sqlPro.history
+      .getConnections()
+      .then((response) => setConnections(response.connections ?? []))
+      .catch(() => setConnections([]));
+  }, [open]);
+
+  const filterDbPath =
+    connectionFilter === ALL_CONNECTIONS
+      ? undefined
+      : connectionFilter === CURRENT_CONNECTION
+        ? (dbPath ?? undefined)
+        : connectionFilter;
+
+  const loadEntries = useCallback(
+    async (offset: number) => {
+      const requestId = ++requestIdRef.current;
+      setIsLoading(true);
+      try {
+        const response = await sqlPro.history.search({
+          text: search || undefined,
+          dbPath: filterDbPath,
+          status: status === 'all' ? undefined : status,
+          from: getHistoryDateFrom(dateRange),
+          limit: PAGE_SIZE,
+          offset,
+        });
+        if (requestId !== requestIdRef.current) return;
+        if (!response.success) {
+          setError(response.error || 'Failed to search history');
+          return;
+        }
+        setError(null);
+        setEntries((prev) => [
+          ...(offset > 0 ? prev : []),
+          ...(response.entries ?? []),
+        ]);
+        setTotal(response.total ?? 0);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        setError(
+          err instanceof Error ? err.message : 'Failed to search history'
+        );
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [search, filterDbPath, status, dateRange]
+  );
+
+  useEffect(() => {
+    if (open) {
+      loadEntries(0);
+    }
+  }, [open, loadEntries]);
+
+  const handleOpenQuery = (entry: QueryHistoryEntry, run: boolean) => {
+    onOpenQuery(entry.queryText ?? '', run);
+    onOpenChange(false);
+  };
+
+  const connectionOptions: FilterOption[] = [
+    { value: CURRENT_CONNECTION, label: 'This connection' },
+    { value: ALL_CONNECTIONS, label: 'All connections' },
+    ...connections
+      .filter((connection) => connection.dbPath !== dbPath)
+      .map((connection) => ({
+        value: connection.dbPath,
+        label: `${getHistoryConnectionLabel(connection)} (${connection.count})`,
+      })),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[80vh] flex-col sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Query History</DialogTitle>
+          <DialogDescription>
+            Search every query run in SQL Pro. Re-running opens the query in a
+            new tab of the current connection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative min-w-56 flex-1">
+            <Search className="text-muted-foreground absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2" />
+            <Input
+              type="text"
+              placeholder="Search queries and errors..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="h-8 pl-8 text-sm"
+              autoFocus
+            />
+          </div>
+          <FilterSelect
+            label="Date"
+            className="w-36"
+            value={dateRange}
+            options={DATE_RANGE_OPTIONS}
+            onChange={(value) => setDateRange(value as HistoryDateRange)}
+          />
+          <FilterSelect
+            label="Status"
+            className="w-32"
+            value={status}
+            options={STATUS_OPTIONS}
+            onChange={(value) => setStatus(value as StatusFilter)}
+          />
+          <FilterSelect
+            label="Connection"
+            className="w-48"
+            value={connectionFilter}
+            options={connectionOptions}
+            onChange={setConnectionFilter}
+          />
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+          {error ? (
+            <p className="text-destructive py-8 text-center text-sm">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-muted-foreground py-8 text-center text-sm">
+              {isLoading ? 'Searching...' : 'No matching queries'}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {entries.map((entry) => (
+                <HistoryEntryRow
+                  key={entry.id}
+                  entry={entry}
+                  canRun={entry.dbPath === dbPath}
+                  onOpen={(run) => handleOpenQuery(entry, run)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="text-muted-foreground flex items-center justify-between text-xs">
+          <span>
+            {total === 1 ? '1 query' : `${total.toLocaleString()} queries`}
+          </span>
+          {entries.length < total && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => loadEntries(entries.length)}
+              disabled={isLoading}
+            >
+              {isLoading && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+              Load more
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface FilterSelectProps {
+  label: string;
+  className: string;
+  value: string;
+  options: FilterOption[];
+  onChange: (value: string) => void;
+}
+
+function FilterSelect({
+  label,
+  className,
+  value,
+  options,
+  onChange,
+}: FilterSelectProps) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(next) => {
+        if (typeof next === 'string') onChange(next);
+      }}
+    >
+      <SelectTrigger className={cn('h-8', className)} aria-label={label}>
+        <SelectValue>
+          {options.find((option) => option.value === value)?.label}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface HistoryEntryRowProps {
+  entry: QueryHistoryEntry;
+  /** Whether the entry ran on the current connection's database */
+  canRun: boolean;
+  onOpen: (run: boolean) => void;
+}
+
+function HistoryEntryRow({ entry, canRun, onOpen }: HistoryEntryRowProps) {
+  const executedAt = entry.executedAt ? new Date(entry.executedAt) : null;
+
+  return (
+    <div
+      className={cn(
+        'group flex items-start gap-3 px-3 py-2 text-sm',
+        entry.success === false && 'border-destructive border-l-2'
+      )}
+    >
+      {entry.success === false ? (
+        <XCircle className="text-destructive mt-0.5 h-4 w-4 shrink-0" />
+      ) : (
+        <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="text-muted-foreground flex flex-wrap items-center gap-x-3 text-xs">
+          {executedAt && <span>{executedAt.toLocaleString()}</span>}
+          {entry.durationMs !== undefined && (
+            <span>{formatDuration(entry.durationMs)}</span>
+          )}
+          {entry.rowCount !== undefined && (
+            <span>
+              {entry.rowCount === 1
+                ? '1 row'
+                : `${entry.rowCount.toLocaleString()} rows`}
+            </span>
+          )}
+          <span title={entry.dbPath}>{getHistoryConnectionLabel(entry)}</span>
+          {entry.tabTitle && <span>{entry.tabTitle}</span>}
+        </div>
+        <SqlHighlight
+          code={entry.queryText ?? ''}
+          maxLines={4}
+          className="mt-1"
+        />
+        {entry.error && (
+          <p className="text-destructive mt-1 truncate text-xs">
+            {entry.error}
+          </p>
+        )}
+      </div>
+      <div className="flex shrink-0 gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onOpen(false)}
+          title="Open in new tab"
+        >
+          <FilePlus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onOpen(true)}
+          disabled={!canRun}
+          title={
+            canRun
+              ? 'Re-run in new tab'
+              : 'Ran on another connection; open it to run it here'
+          }
+        >
+          <Play className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
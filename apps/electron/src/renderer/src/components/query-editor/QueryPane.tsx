@@ -1,24 +1,59 @@
-import type { SplitPane } from '@/stores';
+import type { SqlDialect } from '@shared/types';
+import type { SchemaObjectTarget } from '@/lib/monaco-sql-config';
+import type { EditorSelectionOffsets, QueryRunMode } from '@/lib/query-run';
+import type { QueryHistoryDetails, SplitPane } from '@/stores';
 import type { DatabaseSchema } from '@/types/database';
 import { Button } from '@sqlpro/ui/button';
-import { AlertCircle, Clock, Loader2, Play, X, Zap } from 'lucide-react';
-import { memo, useCallback, useState } from 'react';
+import {
+  AlertCircle,
+  Clock,
+  Loader2,
+  Play,
+  Square,
+  TextCursorInput,
+  TextSelect,
+  X,
+  Zap,
+} from 'lucide-react';
+import { memo, useCallback, useMemo, useRef, useState } from 'react';
+import { useQueryParameters } from '@/hooks/useQueryParameters';
+import {
+  RESULT_PAGE_SIZE,
+  useStreamedResults,
+} from '@/hooks/useStreamedResults';
 import { sqlPro } from '@/lib/api';
+import { getResultRowCount } from '@/lib/query-history';
 import { generateSuggestions } from '@/lib/query-plan-analyzer';
+import {
+  getQueryRunTarget,
+  getRunError,
+  getTargetParameterValues,
+  toBufferPosition,
+  toQueryRunResult,
+} from '@/lib/query-run';
 import { cn } from '@/lib/utils';
-import { useQueryTabsStore } from '@/stores';
+import { useConnectionStore, useQueryStore, useQueryTabsStore } from '@/stores';
 import { QueryOptimizerPanel } from '../data-tools/QueryOptimizerPanel';
 import { MonacoSqlEditor } from '../MonacoSqlEditor';
 import { QueryResults } from '../QueryResults';
+import { PinnedResultsControls } from './PinnedResultsControls';
+import { QueryParametersPanel } from './QueryParametersPanel';
+import { TransactionControls } from './TransactionControls';
 
 interface QueryPaneProps {
   pane: SplitPane;
   connectionId: string;
   schema: DatabaseSchema | null;
+  /** SQL dialect of the connection */
+  dialect: SqlDialect;
+  /** Whether the query optimizer can run EXPLAIN ANALYZE */
+  canExplainAnalyze: boolean;
   isActive: boolean;
   onActivate: () => void;
   onClose?: () => void;
   showCloseButton?: boolean;
+  /** Reveals a table or column targeted by go-to-definition */
+  onRevealSchemaObject?: (target: SchemaObjectTarget) => void;
 }
 
 export const QueryPane = memo(
@@ -26,10 +61,13 @@ export const QueryPane = memo(
     pane,
     connectionId,
     schema,
+    dialect,
+    canExplainAnalyze,
     isActive,
     onActivate,
     onClose,
     showCloseButton = false,
+    onRevealSchemaObject,
   }: QueryPaneProps) => {
     const {
       tabsByConnection,
@@ -37,12 +75,22 @@ export const QueryPane = memo(
       updateTabResults,
       updateTabError,
       setTabExecuting,
+      setTabTransactionState,
       setPaneActiveTab,
       updateTabCursorPosition,
       updateTabScrollTop,
     } = useQueryTabsStore();
+    const connection = useConnectionStore((state) =>
+      state.connections.get(connectionId)
+    );
+    const addToHistory = useQueryStore((state) => state.addToHistory);
 
     const [showOptimizer, setShowOptimizer] = useState(false);
+    // Execution IDs of running queries, keyed by tab ID
+    const executionIdsRef = useRef<Map<string, string>>(new Map());
+    // Editor selection and cursor, for running part of the query
+    const selectionRef = useRef<EditorSelectionOffsets | null>(null);
+    const [hasSelection, setHasSelection] = useState(false);
 
     // Get tabs for this connection
     const connectionTabState = tabsByConnection[connectionId];
@@ -50,6 +98,16 @@ export const QueryPane = memo(
 
     // Get the tab for this pane
     const tab = tabs.find((t) => t.id === pane.activeTabId);
+    const resultStream = useStreamedResults(
+      connectionId,
+      tab?.id ?? null,
+      tab?.results ?? null
+    );
+    const parameters = useQueryParameters(connectionId, tab, dialect);
+    const runError = useMemo(
+      () => getRunError(tab?.error, tab?.errorPosition, tab?.results),
+      [tab?.error, tab?.errorPosition, tab?.results]
+    );
 
     const handleQueryChange = useCallback(
       (query: string) => {
@@ -60,48 +118,166 @@ export const QueryPane = memo(
       [tab, connectionId, updateTabQuery]
     );
 
-    const handleExecute = useCallback(async () => {
-      if (!tab || !tab.query.trim()) return;
+    const runQuery = useCallback(
+      async (mode: QueryRunMode) => {
+        if (!tab) return;
 
-      setTabExecuting(connectionId, tab.id, true);
-      updateTabError(connectionId, tab.id, null);
+        const target = getQueryRunTarget(
+          tab.query,
+          mode,
+          selectionRef.current,
+          dialect
+        );
+        if (!target) return;
 
-      try {
-        const result = await sqlPro.db.executeQuery({
-          connectionId,
-          query: tab.query.trim(),
-        });
+        const resolved = parameters.resolveValues();
+        if ('error' in resolved) {
+          updateTabError(connectionId, tab.id, resolved.error);
+          return;
+        }
+
+        const historyDetails: QueryHistoryDetails = {
+          connectionName: connection?.filename,
+          tabId: tab.id,
+          tabTitle: tab.title,
+        };
+        const recordHistory = (
+          success: boolean,
+          durationMs: number,
+          error?: string,
+          rowCount?: number
+        ) => {
+          if (connection) {
+            addToHistory(
+              connection.path,
+              target.sql,
+              success,
+              durationMs,
+              error,
+              {
+                ...historyDetails,
+                rowCount,
+              }
+            );
+          }
+        };
+
+        const executionId = crypto.randomUUID();
+        executionIdsRef.current.set(tab.id, executionId);
+        setTabExecuting(connectionId, tab.id, true);
+        updateTabError(connectionId, tab.id, null);
 
-        if (result.success) {
-          const queryResult = {
-            columns: result.columns || [],
-            rows: result.rows || [],
-            rowsAffected: result.rowsAffected || 0,
-            lastInsertRowId: result.lastInsertRowId,
-          };
-          updateTabResults(
+        try {
+          const result = await sqlPro.db.executeQuery({
             connectionId,
-            tab.id,
-            queryResult,
-            result.executionTime || 0
-          );
-        } else {
-          updateTabError(connectionId, tab.id, result.error || 'Query failed');
+            query: target.sql,
+            executionId,
+            pageSize: RESULT_PAGE_SIZE,
+            sessionId: tab.pinnedSession ? tab.id : undefined,
+            manualCommit: tab.manualCommit,
+            parameters: getTargetParameterValues(
+              resolved.values,
+              tab.query,
+              target,
+              dialect
+            ),
+            splitStatements: target.splitStatements,
+          });
+
+          if (tab.manualCommit) {
+            setTabTransactionState(
+              connectionId,
+              tab.id,
+              result.transactionState
+            );
+          }
+
+          if (result.success || result.statements) {
+            // Scripts keep the results of their statements when one fails
+            if (result.success) {
+              parameters.rememberValues();
+            }
+            const queryResult = toQueryRunResult(result, tab.query, target);
+            updateTabResults(
+              connectionId,
+              tab.id,
+              queryResult,
+              result.executionTime || 0
+            );
+            recordHistory(
+              result.success,
+              result.executionTime || 0,
+              result.error,
+              getResultRowCount(queryResult)
+            );
+          } else {
+            updateTabError(
+              connectionId,
+              tab.id,
+              result.error || 'Query failed',
+              result.errorPosition
+                ? toBufferPosition(tab.query, target, result.errorPosition)
+                : undefined
+            );
+            recordHistory(false, result.executionTime || 0, result.error);
+          }
+        } catch (err) {
+          const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error';
+          updateTabError(connectionId, tab.id, errorMessage);
+          recordHistory(false, 0, errorMessage);
+        } finally {
+          executionIdsRef.current.delete(tab.id);
+          setTabExecuting(connectionId, tab.id, false);
         }
-      } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : 'Unknown error';
-        updateTabError(connectionId, tab.id, errorMessage);
-      } finally {
-        setTabExecuting(connectionId, tab.id, false);
-      }
-    }, [tab, connectionId, setTabExecuting, updateTabError, updateTabResults]);
+      },
+      [
+        tab,
+        connectionId,
+        connection,
+        dialect,
+        parameters,
+        addToHistory,
+        setTabExecuting,
+        setTabTransactionState,
+        updateTabError,
+        updateTabResults,
+      ]
+    );
+
+    const handleExecute = useCallback(() => runQuery('all'), [runQuery]);
+
+    const handleExecuteStatement = useCallback(
+      () => runQuery('statement'),
+      [runQuery]
+    );
+
+    const handleExecuteSelection = useCallback(
+      () => runQuery('selection'),
+      [runQuery]
+    );
+
+    const handleSelectionChange = useCallback(
+      (selection: EditorSelectionOffsets) => {
+        selectionRef.current = selection;
+        setHasSelection(selection.start !== selection.end);
+      },
+      []
+    );
+
+    const handleCancel = useCallback(async () => {
+      const executionId = tab && executionIdsRef.current.get(tab.id);
+      if (!executionId) return;
+
+      await sqlPro.db.cancelQuery({ executionId });
+    }, [tab]);
 
     const handleAnalyze = useCallback(
-      async (query: string) => {
+      async (query: string, options: { analyze: boolean }) => {
         const result = await sqlPro.db.analyzeQueryPlan({
           connectionId,
           query: query.trim(),
+          analyze: options.analyze,
         });
 
         if (!result.success || !result.plan || !result.stats) {
@@ -186,19 +362,55 @@ export const QueryPane = memo(
             >
               <Zap className="h-3.5 w-3.5" />
             </Button>
-            <Button
-              size="sm"
-              className="h-7 gap-1 px-2"
-              onClick={handleExecute}
-              disabled={tab.isExecuting || !tab.query.trim()}
-            >
-              {tab.isExecuting ? (
-                <Loader2 className="h-3.5 w-3.5 animate-spin" />
-              ) : (
-                <Play className="h-3.5 w-3.5" />
-              )}
-              Run
-            </Button>
+            <TransactionControls
+              connectionId={connectionId}
+              tab={tab}
+              compact
+            />
+            {tab.isExecuting ? (
+              <Button
+                variant="destructive"
+                size="sm"
+                className="h-7 gap-1 px-2"
+                onClick={handleCancel}
+                title="Cancel query"
+              >
+                <Square className="h-3.5 w-3.5" />
+                Stop
+              </Button>
+            ) : (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 px-2"
+                  onClick={handleExecuteStatement}
+                  disabled={!tab.query.trim()}
+                  title="Run the statement under the cursor"
+                >
+                  <TextCursorInput className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 px-2"
+                  onClick={handleExecuteSelection}
+                  disabled={!hasSelection}
+                  title="Run the selected SQL"
+                >
+                  <TextSelect className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7 gap-1 px-2"
+                  onClick={handleExecute}
+                  disabled={!tab.query.trim()}
+                >
+                  <Play className="h-3.5 w-3.5" />
+                  Run
+                </Button>
+              </>
+            )}
             {showCloseButton && onClose && (
               <Button
                 variant="ghost"
@@ -222,14 +434,29 @@ export const QueryPane = memo(
             value={tab.query}
             onChange={handleQueryChange}
             onExecute={handleExecute}
+            onExecuteStatement={handleExecuteStatement}
+            onExecuteSelection={handleExecuteSelection}
+            onSelectionChange={handleSelectionChange}
+            executionError={runError}
             schema={schema}
+            dialect={dialect}
             initialCursorPosition={tab.cursorPosition}
             initialScrollPosition={tab.scrollTop}
             onCursorPositionChange={handleCursorPositionChange}
             onScrollPositionChange={handleScrollPositionChange}
+            onRevealSchemaObject={onRevealSchemaObject}
           />
         </div>
 
+        {/* Placeholder values */}
+        <QueryParametersPanel
+          definitions={parameters.definitions}
+          onChange={parameters.updateParameter}
+          onExecute={handleExecute}
+          disabled={tab.isExecuting}
+          className="shrink-0"
+        />
+
         {/* Results Area */}
         <div className="min-w-0 flex-1 overflow-hidden">
           {tab.isExecuting ? (
@@ -252,17 +479,37 @@ export const QueryPane = memo(
             <div className="flex h-full flex-col">
               {/* Results Header */}
               <div className="text-muted-foreground flex items-center gap-4 border-b px-4 py-2 text-sm">
-                <span>{tab.results.rowsAffected} rows</span>
+                {tab.results.statements && tab.results.statements.length > 1 ? (
+                  <span>
+                    {tab.results.statements.filter((s) => s.success).length} of{' '}
+                    {tab.results.statements.length} statements succeeded
+                  </span>
+                ) : (
+                  <span>{tab.results.rowsAffected} rows</span>
+                )}
                 {tab.executionTime !== null && (
                   <span className="flex items-center gap-1">
                     <Clock className="h-3 w-3" />
                     {tab.executionTime.toFixed(2)}ms
                   </span>
                 )}
+                <PinnedResultsControls
+                  connectionId={connectionId}
+                  tab={tab}
+                  compact
+                  className="ml-auto"
+                />
               </div>
               {/* Results Table */}
               <div className="h-0 min-w-0 flex-1 overflow-hidden">
-                <QueryResults results={tab.results} />
+                <QueryResults
+                  results={tab.results}
+                  onLoadMore={resultStream.loadMore}
+                  isLoadingMore={resultStream.isLoadingMore}
+                  onExportAll={resultStream.exportAll}
+                  isExporting={resultStream.isExporting}
+                  streamError={resultStream.error}
+                />
               </div>
             </div>
           ) : (
@@ -277,6 +524,8 @@ export const QueryPane = memo(
           open={showOptimizer}
           onOpenChange={setShowOptimizer}
           query={tab.query}
+          canExplainAnalyze={canExplainAnalyze}
+          dialect={dialect}
           onAnalyze={handleAnalyze}
         />
       </div>
@@ -0,0 +1,130 @@
+import type {
+  QueryParameterDefinition,
+  QueryParameterType,
+} from '@shared/types';
+import { Input } from '@sqlpro/ui/input';
+import { Variable } from 'lucide-react';
+import { memo } from 'react';
+import { cn } from '@/lib/utils';
+
+const PARAMETER_TYPES: { value: QueryParameterType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'null', label: 'NULL' },
+];
+
+interface QueryParametersPanelProps {
+  definitions: QueryParameterDefinition[];
+  onChange: (
+    name: string,
+    changes: Partial<Pick<QueryParameterDefinition, 'type' | 'value'>>
+  ) => void;
+  /** Runs the query when Enter is pressed in a value input */
+  onExecute?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Typed inputs for the `:name`, `$1` and `?` placeholders of a query.
+ * Hidden while the query has no placeholders.
+ */
+export const QueryParametersPanel = memo(
+  ({
+    definitions,
+    onChange,
+    onExecute,
+    disabled = false,
+    className,
+  }: QueryParametersPanelProps) => {
+    if (definitions.length === 0) {
+      return null;
+    }
+
+    return (
+      <div
+        className={cn('bg-muted/20 border-b px-3 py-2', className)}
+        data-testid="query-parameters-panel"
+      >
+        <div className="text-muted-foreground mb-1.5 flex items-center gap-1.5 text-xs font-medium">
+          <Variable className="h-3.5 w-3.5" />
+          Parameters
+        </div>
+        <div className="grid max-h-40 grid-cols-[auto_auto_1fr] items-center gap-x-2 gap-y-1 overflow-y-auto">
+          {definitions.map((def) => (
+            <div key={def.name} className="contents">
+              <label
+                htmlFor={`query-param-${def.name}`}
+                className="font-mono text-xs"
+              >
+                {def.name}
+              </label>
+              <select
+                value={def.type}
+                onChange={(e) => {
+                  const type = e.target.value as QueryParameterType;
+                  // Booleans are picked from a select that has no empty option
+                  onChange(
+                    def.name,
+                    type === 'boolean'
+                      ? { type, value: def.value === 'true' ? 'true' : 'false' }
+                      : { type }
+                  );
+                }}
+                disabled={disabled}
+                className="bg-background h-7 rounded border px-1 text-xs"
+                aria-label={`Type of ${def.name}`}
+              >
+                {PARAMETER_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+              {def.type === 'boolean' ? (
+                <select
+                  id={`query-param-${def.name}`}
+                  value={def.value === 'true' ? 'true' : 'false'}
+                  onChange={(e) =>
+                    onChange(def.name, { value: e.target.value })
+                  }
+                  disabled={disabled}
+                  className="bg-background h-7 rounded border px-1 text-xs"
+                >
+                  <option value="true">true</option>
+                  <option value="false">false</option>
+                </select>
+              ) : (
+                <Input
+                  id={`query-param-${def.name}`}
+                  type={
+                    def.type === 'date'
+                      ? 'date'
+                      : def.type === 'number'
+                        ? 'number'
+                        : 'text'
+                  }
+                  value={def.type === 'null' ? '' : def.value}
+                  placeholder={def.type === 'null' ? 'NULL' : 'Value'}
+                  onChange={(e) =>
+                    onChange(def.name, { value: e.target.value })
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && onExecute) {
+                      e.preventDefault();
+                      onExecute();
+                    }
+                  }}
+                  disabled={disabled || def.type === 'null'}
+                  className="h-7 font-mono text-xs"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+);
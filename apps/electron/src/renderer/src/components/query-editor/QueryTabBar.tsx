@@ -11,6 +11,8 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@sqlpro/ui/dropdown-menu';
 import {
@@ -19,10 +21,26 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@sqlpro/ui/tooltip';
-import { Columns2, Copy, FileCode, Plus, Rows2, X } from 'lucide-react';
+import {
+  Check,
+  Columns2,
+  Copy,
+  FileCode,
+  History,
+  Link2,
+  Link2Off,
+  Plus,
+  Rows2,
+  X,
+} from 'lucide-react';
 import { memo, useCallback, useRef, useState } from 'react';
+import { isPooledConnection } from '@/hooks/usePoolStatus';
 import { cn } from '@/lib/utils';
-import { useConnectionStore, useQueryTabsStore } from '@/stores';
+import {
+  hasOpenTransaction,
+  useConnectionStore,
+  useQueryTabsStore,
+} from '@/stores';
 
 interface QueryTabBarProps {
   className?: string;
@@ -37,9 +55,28 @@ interface TabItemProps {
   onDuplicate: () => void;
   onCloseOthers: () => void;
   onRename: () => void;
+  /** Toggles the tab's dedicated session; unset when the connection has no pool */
+  onTogglePinnedSession?: () => void;
+  /** Toggles manual commit; unset when the connection has no transactions */
+  onToggleManualCommit?: () => void;
   tabsCount: number;
 }
 
+const TRANSACTION_BADGES = {
+  idle: {
+    className: 'bg-muted text-muted-foreground',
+    title: 'Manual commit: the next query opens a transaction',
+  },
+  active: {
+    className: 'bg-amber-500/15 text-amber-600',
+    title: 'Open transaction: commit or roll back to end it',
+  },
+  failed: {
+    className: 'bg-destructive/15 text-destructive',
+    title: 'Failed transaction: roll back to continue',
+  },
+} as const;
+
 const TabItem = memo(
   ({
     tab,
@@ -50,6 +87,8 @@ const TabItem = memo(
     onDuplicate,
     onCloseOthers,
     onRename,
+    onTogglePinnedSession,
+    onToggleManualCommit,
     tabsCount,
   }: TabItemProps) => {
     const [isEditing, setIsEditing] = useState(false);
@@ -110,7 +149,13 @@ const TabItem = memo(
             onClick={onSelect}
             onDoubleClick={handleDoubleClick}
           >
-            <FileCode className="h-3.5 w-3.5 shrink-0 opacity-60" />
+            {tab.pinnedSession ? (
+              <span title="Runs on a session of its own">
+                <Link2 className="text-primary h-3.5 w-3.5 shrink-0" />
+              </span>
+            ) : (
+              <FileCode className="h-3.5 w-3.5 shrink-0 opacity-60" />
+            )}
             {isEditing ? (
               <input
                 ref={inputRef}
@@ -125,6 +170,17 @@ const TabItem = memo(
             ) : (
               <span className="flex-1 truncate">{tab.title}</span>
             )}
+            {tab.manualCommit && (
+              <span
+                className={cn(
+                  'shrink-0 rounded px-1 text-[10px] leading-4 font-medium',
+                  TRANSACTION_BADGES[tab.transactionState ?? 'idle'].className
+                )}
+                title={TRANSACTION_BADGES[tab.transactionState ?? 'idle'].title}
+              >
+                TX
+              </span>
+            )}
             {tab.isDirty && (
               <span className="text-primary h-1.5 w-1.5 shrink-0 rounded-full bg-current" />
             )}
@@ -154,6 +210,37 @@ const TabItem = memo(
             <Copy className="mr-2 h-4 w-4" />
             Duplicate
           </ContextMenuItem>
+          {onToggleManualCommit && (
+            <ContextMenuItem
+              onClick={onToggleManualCommit}
+              // The mode stays until the open transaction has ended
+              disabled={hasOpenTransaction(tab)}
+            >
+              <Check
+                className={cn('mr-2 h-4 w-4', !tab.manualCommit && 'invisible')}
+              />
+              Manual Commit
+            </ContextMenuItem>
+          )}
+          {onTogglePinnedSession && (
+            <ContextMenuItem
+              onClick={onTogglePinnedSession}
+              // Manual-commit tabs keep their transaction on the session
+              disabled={tab.pinnedSession && tab.manualCommit}
+            >
+              {tab.pinnedSession ? (
+                <>
+                  <Link2Off className="mr-2 h-4 w-4" />
+                  Release Session
+                </>
+              ) : (
+                <>
+                  <Link2 className="mr-2 h-4 w-4" />
+                  Pin to Own Session
+                </>
+              )}
+            </ContextMenuItem>
+          )}
           <ContextMenuSeparator />
           <ContextMenuItem onClick={onClose}>Close</ContextMenuItem>
           <ContextMenuItem onClick={onCloseOthers} disabled={tabsCount <= 1}>
@@ -166,14 +253,17 @@ const TabItem = memo(
 );
 
 export const QueryTabBar = memo(({ className }: QueryTabBarProps) => {
-  const { activeConnectionId } = useConnectionStore();
+  const { activeConnectionId, connection } = useConnectionStore();
   const {
     tabsByConnection,
     createTab,
     closeTab,
     closeOtherTabs,
+    reopenClosedTab,
     setActiveTab,
     duplicateTab,
+    setTabPinnedSession,
+    setTabManualCommit,
     splitPane,
     closeSplit,
     isSplit,
@@ -185,6 +275,7 @@ export const QueryTabBar = memo(({ className }: QueryTabBarProps) => {
     : null;
   const tabs = connectionTabState?.tabs || [];
   const activeTabId = connectionTabState?.activeTabId || null;
+  const recentlyClosed = connectionTabState?.recentlyClosed || [];
 
   const handleCreateTab = useCallback(() => {
     if (activeConnectionId) {
@@ -211,6 +302,27 @@ export const QueryTabBar = memo(({ className }: QueryTabBarProps) => {
   }, [activeConnectionId, closeSplit]);
 
   const isSplitView = activeConnectionId ? isSplit(activeConnectionId) : false;
+  const canPinSessions = isPooledConnection(connection);
+  const canManualCommit =
+    canPinSessions || connection?.databaseType === 'sqlite';
+
+  const handleToggleManualCommit = useCallback(
+    (tab: QueryTab) => {
+      if (!activeConnectionId) return;
+      const manualCommit = !tab.manualCommit;
+      // The transaction lives on a session of the tab's own
+      if (manualCommit && canPinSessions) {
+        setTabPinnedSession(activeConnectionId, tab.id, true);
+      }
+      setTabManualCommit(activeConnectionId, tab.id, manualCommit);
+    },
+    [
+      activeConnectionId,
+      canPinSessions,
+      setTabPinnedSession,
+      setTabManualCommit,
+    ]
+  );
 
   if (!activeConnectionId) {
     return null;
@@ -233,6 +345,19 @@ export const QueryTabBar = memo(({ className }: QueryTabBarProps) => {
             onDuplicate={() => duplicateTab(activeConnectionId, tab.id)}
             onCloseOthers={() => closeOtherTabs(activeConnectionId, tab.id)}
             onRename={() => {}}
+            onTogglePinnedSession={
+              canPinSessions
+                ? () =>
+                    setTabPinnedSession(
+                      activeConnectionId,
+                      tab.id,
+                      !tab.pinnedSession
+                    )
+                : undefined
+            }
+            onToggleManualCommit={
+              canManualCommit ? () => handleToggleManualCommit(tab) : undefined
+            }
             tabsCount={tabs.length}
           />
         ))}
@@ -256,6 +381,51 @@ export const QueryTabBar = memo(({ className }: QueryTabBarProps) => {
           </Tooltip>
         </TooltipProvider>
 
+        {recentlyClosed.length > 0 && (
+          <DropdownMenu>
+            <TooltipProvider delay={300}>
+              <Tooltip>
+                <TooltipTrigger>
+                  <DropdownMenuTrigger>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent side="bottom" className="text-xs">
+                  Recently closed tabs
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            <DropdownMenuContent align="end" className="w-72">
+              <DropdownMenuLabel className="text-muted-foreground text-xs font-normal">
+                Recently Closed
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {recentlyClosed.map((closedTab) => (
+                <DropdownMenuItem
+                  key={`${closedTab.id}-${closedTab.closedAt}`}
+                  onClick={() =>
+                    reopenClosedTab(activeConnectionId, closedTab.id)
+                  }
+                >
+                  <FileCode className="mr-2 h-4 w-4 shrink-0 opacity-60" />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate">{closedTab.title}</div>
+                    <div className="text-muted-foreground truncate font-mono text-[10px]">
+                      {closedTab.query.trim().split('\n')[0]}
+                    </div>
+                  </div>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
         {/* Split View Controls */}
         {isSplitView ? (
           <TooltipProvider delay={300}>
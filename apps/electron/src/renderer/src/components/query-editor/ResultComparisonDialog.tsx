@@ -0,0 +1,613 @@
+import type { RowDiff } from '@shared/types';
+import type { ResultSnapshot } from '@/lib/result-diff';
+import type { PinnedResult, QueryTab } from '@/stores';
+import { Button } from '@sqlpro/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@sqlpro/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@sqlpro/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@sqlpro/ui/tabs';
+import {
+  AlertTriangle,
+  ArrowLeftRight,
+  Check,
+  KeyRound,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+import { memo, useCallback, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  diffResults,
+  getDefaultKeyColumns,
+  getSharedColumns,
+} from '@/lib/result-diff';
+import { cn } from '@/lib/utils';
+import { useQueryTabsStore } from '@/stores';
+import { RowDiffCard } from '../data-diff/RowDiffCard';
+
+/** Value of the option comparing with the tab's latest result */
+const LATEST_RESULT = 'latest';
+
+/** Rows rendered per side of the side-by-side view */
+const MAX_COMPARED_ROWS = 1000;
+
+/** Row difference cards rendered at once */
+const MAX_VISIBLE_ROW_DIFFS = 500;
+
+const ROW_STATUS_CLASSES: Record<RowDiff['diffType'], string> = {
+  added: 'bg-green-50 dark:bg-green-950/50',
+  removed: 'bg-red-50 dark:bg-red-950/50',
+  modified: 'bg-amber-50 dark:bg-amber-950/40',
+  unchanged: '',
+};
+
+interface ComparisonSource extends ResultSnapshot {
+  value: string;
+  label: string;
+  partial?: boolean;
+}
+
+interface ResultComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  connectionId: string;
+  tab: QueryTab;
+  /** Pinned result to show on the left when the dialog opens */
+  initialLeftId?: string;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * One side of the side-by-side view, with rows colored by their diff status
+ * and changed cells highlighted.
+ */
+function ComparedResultTable({
+  source,
+  diffByRow,
+}: {
+  source: ComparisonSource;
+  diffByRow: Map<Record<string, unknown>, RowDiff>;
+}) {
+  const rows = source.rows.slice(0, MAX_COMPARED_ROWS);
+
+  return (
+    <div className="flex min-h-0 min-w-0 flex-1 flex-col rounded-md border">
+      <div className="bg-muted/50 flex items-center gap-2 border-b px-3 py-1.5 text-xs">
+        <span className="truncate font-medium">{source.label}</span>
+        <span className="text-muted-foreground ml-auto shrink-0">
+          {source.rows.length.toLocaleString()}
+          {source.partial ? '+' : ''} rows
+        </span>
+      </div>
+      <div className="min-h-0 flex-1 overflow-auto">
+        <table className="w-full border-collapse font-mono text-xs">
+          <thead className="bg-background sticky top-0">
+            <tr>
+              {source.columns.map((column) => (
+                <th
+                  key={column}
+                  className="border-b px-2 py-1 text-left font-medium whitespace-nowrap"
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const diff = diffByRow.get(row);
+              const changed = new Set(
+                diff?.columnChanges?.map((c) => c.columnName)
+              );
+              return (
+                <tr
+                  // Result rows have no identity of their own
+                  // eslint-disable-next-line react/no-array-index-key
+                  key={index}
+                  className={cn(
+                    'border-b last:border-b-0',
+                    diff && ROW_STATUS_CLASSES[diff.diffType]
+                  )}
+                >
+                  {source.columns.map((column) => (
+                    <td
+                      key={column}
+                      className={cn(
+                        'max-w-60 truncate px-2 py-1',
+                        changed.has(column) &&
+                          'bg-amber-200/70 font-semibold dark:bg-amber-800/60'
+                      )}
+                    >
+                      {formatCell(row[column])}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {source.rows.length > MAX_COMPARED_ROWS && (
+          <p className="text-muted-foreground p-2 text-xs">
+            Showing the first {MAX_COMPARED_ROWS.toLocaleString()} rows.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Pinned result with inline rename and unpin controls.
+ */
+function PinnedResultItem({
+  pinnedResult,
+  onRename,
+  onUnpin,
+}: {
+  pinnedResult: PinnedResult;
+  onRename: (name: string) => void;
+  onUnpin: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(pinnedResult.name);
+
+  const finishEdit = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== pinnedResult.name) {
+      onRename(trimmed);
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="group hover:bg-muted/50 flex items-center gap-2 rounded px-2 py-1 text-xs">
+      {isEditing ? (
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={finishEdit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') finishEdit();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          className="bg-background h-6 min-w-0 flex-1 rounded border px-1 outline-none"
+          autoFocus
+        />
+      ) : (
+        <div className="min-w-0 flex-1">
+          <div className="truncate font-medium">{pinnedResult.name}</div>
+          <div className="text-muted-foreground truncate">
+            {pinnedResult.rows.length.toLocaleString()}
+            {pinnedResult.partial ? '+' : ''} rows ·{' '}
+            {new Date(pinnedResult.pinnedAt).toLocaleTimeString()}
+          </div>
+        </div>
+      )}
+      {isEditing ? (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={finishEdit}
+        >
+          <Check className="h-3 w-3" />
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100"
+          onClick={() => {
+            setName(pinnedResult.name);
+            setIsEditing(true);
+          }}
+          title="Rename"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        onClick={onUnpin}
+        title="Unpin"
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Compares two of a tab's results, its pinned snapshots or its latest run,
+ * side by side and as row differences keyed by chosen columns.
+ */
+export const ResultComparisonDialog = memo(
+  ({
+    open,
+    onOpenChange,
+    connectionId,
+    tab,
+    initialLeftId,
+  }: ResultComparisonDialogProps) => {
+    const renamePinnedResult = useQueryTabsStore((s) => s.renamePinnedResult);
+    const unpinTabResult = useQueryTabsStore((s) => s.unpinTabResult);
+
+    const sources = useMemo<ComparisonSource[]>(() => {
+      const pinned: ComparisonSource[] = (tab.pinnedResults ?? []).map((p) => ({
+        value: p.id,
+        label: p.name,
+        columns: p.columns,
+        rows: p.rows,
+        partial: p.partial,
+      }));
+      if (!tab.results || tab.results.columns.length === 0) return pinned;
+      return [
+        ...pinned,
+        {
+          value: LATEST_RESULT,
+          label: 'Latest result',
+          columns: tab.results.columns,
+          rows: tab.results.rows,
+          partial: tab.results.hasMore,
+        },
+      ];
+    }, [tab.pinnedResults, tab.results]);
+
+    const [leftValue, setLeftValue] = useState<string | null>(null);
+    const [rightValue, setRightValue] = useState<string | null>(null);
+    const [keyColumnsByPair, setKeyColumnsByPair] = useState<
+      Record<string, string[]>
+    >({});
+    const [view, setView] = useState<'side-by-side' | 'differences'>(
+      'side-by-side'
+    );
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [expandedRows, setExpandedRows] = useState<Set<number>>(
+      () => new Set()
+    );
+
+    // Fall back to the two latest sources until a side is picked
+    const defaultLeft =
+      initialLeftId && sources.some((s) => s.value === initialLeftId)
+        ? initialLeftId
+        : sources.at(-2)?.value;
+    const left = sources.find((s) => s.value === (leftValue ?? defaultLeft));
+    const right =
+      sources.find((s) => s.value === rightValue) ??
+      sources.findLast((s) => s.value !== left?.value);
+
+    const pairKey = `${left?.value}|${right?.value}`;
+    const sharedColumns = useMemo(
+      () => (left && right ? getSharedColumns(left, right) : []),
+      [left, right]
+    );
+    const keyColumns = useMemo(
+      () =>
+        (
+          keyColumnsByPair[pairKey] ??
+          (left && right ? getDefaultKeyColumns(left, right) : [])
+        ).filter((column) => sharedColumns.includes(column)),
+      [keyColumnsByPair, pairKey, left, right, sharedColumns]
+    );
+
+    const diff = useMemo(
+      () => (left && right ? diffResults(left, right, keyColumns) : null),
+      [left, right, keyColumns]
+    );
+
+    const { leftDiffs, rightDiffs } = useMemo(() => {
+      const leftDiffs = new Map<Record<string, unknown>, RowDiff>();
+      const rightDiffs = new Map<Record<string, unknown>, RowDiff>();
+      for (const rowDiff of diff?.rowDiffs ?? []) {
+        if (rowDiff.sourceRow) leftDiffs.set(rowDiff.sourceRow, rowDiff);
+        if (rowDiff.targetRow) rightDiffs.set(rowDiff.targetRow, rowDiff);
+      }
+      return { leftDiffs, rightDiffs };
+    }, [diff]);
+
+    const visibleDiffs = useMemo(
+      () =>
+        (diff?.rowDiffs ?? []).filter(
+          (d) => showUnchanged || d.diffType !== 'unchanged'
+        ),
+      [diff, showUnchanged]
+    );
+
+    const toggleKeyColumn = useCallback(
+      (column: string, checked: boolean) => {
+        setKeyColumnsByPair((current) => ({
+          ...current,
+          [pairKey]: checked
+            ? sharedColumns.filter(
+                (c) => c === column || keyColumns.includes(c)
+              )
+            : keyColumns.filter((c) => c !== column),
+        }));
+        setExpandedRows(new Set());
+      },
+      [pairKey, sharedColumns, keyColumns]
+    );
+
+    const handleSwap = useCallback(() => {
+      setLeftValue(right?.value ?? null);
+      setRightValue(left?.value ?? null);
+      setExpandedRows(new Set());
+    }, [left, right]);
+
+    const toggleRow = useCallback((index: number) => {
+      setExpandedRows((current) => {
+        const next = new Set(current);
+        if (next.has(index)) {
+          next.delete(index);
+        } else {
+          next.add(index);
+        }
+        return next;
+      });
+    }, []);
+
+    const renderSourceSelect = (
+      value: string | undefined,
+      onChange: (value: string) => void,
+      label: string
+    ) => (
+      <Select
+        value={value ?? ''}
+        onValueChange={(next) => {
+          if (typeof next === 'string') onChange(next);
+          setExpandedRows(new Set());
+        }}
+      >
+        <SelectTrigger className="h-8 w-56" aria-label={label}>
+          <SelectValue>
+            {sources.find((s) => s.value === value)?.label ?? 'Select result'}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {sources.map((source) => (
+            <SelectItem key={source.value} value={source.value}>
+              {source.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="flex h-[85vh] flex-col sm:max-w-6xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Compare Results
+            </DialogTitle>
+            <DialogDescription>
+              Rows are matched by the key columns; the left result is the
+              baseline.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex min-h-0 flex-1 gap-4">
+            {/* Pinned results */}
+            <div className="flex w-52 shrink-0 flex-col gap-1 overflow-y-auto border-r pr-3">
+              <div className="text-muted-foreground px-2 text-xs font-medium">
+                Pinned Results
+              </div>
+              {(tab.pinnedResults ?? []).map((pinnedResult) => (
+                <PinnedResultItem
+                  key={pinnedResult.id}
+                  pinnedResult={pinnedResult}
+                  onRename={(name) =>
+                    renamePinnedResult(
+                      connectionId,
+                      tab.id,
+                      pinnedResult.id,
+                      name
+                    )
+                  }
+                  onUnpin={() =>
+                    unpinTabResult(connectionId, tab.id, pinnedResult.id)
+                  }
+                />
+              ))}
+            </div>
+
+            <div className="flex min-w-0 flex-1 flex-col gap-3">
+              {!left || !right || !diff ? (
+                <div className="text-muted-foreground flex flex-1 items-center justify-center text-sm">
+                  Pin a result and run the query again to compare two results.
+                </div>
+              ) : (
+                <>
+                  {/* Controls */}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {renderSourceSelect(left.value, setLeftValue, 'Left')}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={handleSwap}
+                      title="Swap sides"
+                    >
+                      <ArrowLeftRight className="h-4 w-4" />
+                    </Button>
+                    {renderSourceSelect(right.value, setRightValue, 'Right')}
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 gap-1"
+                        >
+                          <KeyRound className="h-3.5 w-3.5" />
+                          {keyColumns.length > 0
+                            ? keyColumns.join(', ')
+                            : 'Row position'}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start" className="w-56">
+                        <DropdownMenuLabel className="text-muted-foreground text-xs font-normal">
+                          Match rows by
+                        </DropdownMenuLabel>
+                        {sharedColumns.map((column) => (
+                          <DropdownMenuCheckboxItem
+                            key={column}
+                            checked={keyColumns.includes(column)}
+                            onCheckedChange={(checked) =>
+                              toggleKeyColumn(column, checked)
+                            }
+                          >
+                            {column}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+
+                    <Tabs
+                      value={view}
+                      onValueChange={(v) =>
+                        setView(v as 'side-by-side' | 'differences')
+                      }
+                      className="ml-auto"
+                    >
+                      <TabsList className="h-8">
+                        <TabsTrigger value="side-by-side" className="text-xs">
+                          Side by Side
+                        </TabsTrigger>
+                        <TabsTrigger value="differences" className="text-xs">
+                          Differences
+                        </TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+
+                  {/* Summary */}
+                  <div className="flex flex-wrap items-center gap-3 text-xs">
+                    <span className="text-green-600 dark:text-green-400">
+                      +{diff.summary.added} added
+                    </span>
+                    <span className="text-red-600 dark:text-red-400">
+                      −{diff.summary.removed} removed
+                    </span>
+                    <span className="text-amber-600 dark:text-amber-400">
+                      ~{diff.summary.modified} changed
+                    </span>
+                    <span className="text-muted-foreground">
+                      {diff.summary.unchanged} unchanged
+                    </span>
+                    {keyColumns.length > 0 &&
+                      diff.summary.duplicateKeys > 0 && (
+                        <span className="flex items-center gap-1 text-amber-600">
+                          <AlertTriangle className="h-3 w-3" />
+                          {diff.summary.duplicateKeys} rows share a key; they
+                          are matched in order
+                        </span>
+                      )}
+                    {(diff.leftOnlyColumns.length > 0 ||
+                      diff.rightOnlyColumns.length > 0) && (
+                      <span className="text-muted-foreground">
+                        Not compared:{' '}
+                        {[
+                          ...diff.leftOnlyColumns,
+                          ...diff.rightOnlyColumns,
+                        ].join(', ')}
+                      </span>
+                    )}
+                    {(left.partial || right.partial) && (
+                      <span className="flex items-center gap-1 text-amber-600">
+                        <AlertTriangle className="h-3 w-3" />
+                        Only the rows loaded so far are compared
+                      </span>
+                    )}
+                  </div>
+
+                  {view === 'side-by-side' ? (
+                    <div className="flex min-h-0 flex-1 gap-3">
+                      <ComparedResultTable
+                        source={left}
+                        diffByRow={leftDiffs}
+                      />
+                      <ComparedResultTable
+                        source={right}
+                        diffByRow={rightDiffs}
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex min-h-0 flex-1 flex-col gap-2">
+                      <label className="flex items-center gap-2 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={showUnchanged}
+                          onChange={(e) => {
+                            setShowUnchanged(e.target.checked);
+                            setExpandedRows(new Set());
+                          }}
+                        />
+                        Show unchanged rows
+                      </label>
+                      <div className="min-h-0 flex-1 space-y-2 overflow-y-auto">
+                        {visibleDiffs.length === 0 ? (
+                          <p className="text-muted-foreground text-sm">
+                            No row differences found.
+                          </p>
+                        ) : (
+                          visibleDiffs
+                            .slice(0, MAX_VISIBLE_ROW_DIFFS)
+                            .map((rowDiff, index) => (
+                              <RowDiffCard
+                                // Keys can repeat; expansion is tracked by position
+                                // eslint-disable-next-line react/no-array-index-key
+                                key={index}
+                                rowDiff={rowDiff}
+                                isExpanded={expandedRows.has(index)}
+                                onToggle={() => toggleRow(index)}
+                                showOnlyDifferences
+                              />
+                            ))
+                        )}
+                        {visibleDiffs.length > MAX_VISIBLE_ROW_DIFFS && (
+                          <p className="text-muted-foreground text-xs">
+                            Showing {MAX_VISIBLE_ROW_DIFFS.toLocaleString()} of{' '}
+                            {visibleDiffs.length.toLocaleString()} row
+                            differences.
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+);
@@ -0,0 +1,94 @@
+import type { TransactionAction } from '@shared/types';
+import type { QueryTab } from '@/stores';
+import { Button } from '@sqlpro/ui/button';
+import { Check, RotateCcw } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+import { ShortcutKbd } from '@/components/ui/kbd';
+import { cn } from '@/lib/utils';
+import { hasOpenTransaction, useQueryTabsStore } from '@/stores';
+
+interface TransactionControlsProps {
+  connectionId: string;
+  tab: QueryTab | undefined;
+  /** Icon-sized buttons for the header of a split pane */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Commit and Rollback buttons of a manual-commit query tab. The full-size
+ * buttons are the targets of the commit and rollback shortcuts.
+ */
+export const TransactionControls = memo(
+  ({
+    connectionId,
+    tab,
+    compact = false,
+    className,
+  }: TransactionControlsProps) => {
+    const endTabTransaction = useQueryTabsStore((s) => s.endTabTransaction);
+    const [isEnding, setIsEnding] = useState(false);
+
+    const handleEnd = useCallback(
+      async (action: TransactionAction) => {
+        if (!tab) return;
+        setIsEnding(true);
+        try {
+          await endTabTransaction(connectionId, tab.id, action);
+        } finally {
+          setIsEnding(false);
+        }
+      },
+      [connectionId, tab, endTabTransaction]
+    );
+
+    if (!tab?.manualCommit) {
+      return null;
+    }
+
+    const isOpen = hasOpenTransaction(tab);
+    const isFailed = tab.transactionState === 'failed';
+    const disabled = !isOpen || tab.isExecuting || isEnding;
+    const buttonClass = compact ? 'h-7 gap-1 px-2' : 'gap-1';
+    const iconClass = compact ? 'h-3.5 w-3.5' : 'h-4 w-4';
+
+    return (
+      <div className={cn('flex items-center gap-1', className)}>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={buttonClass}
+          onClick={() => handleEnd('commit')}
+          // A failed transaction can only be rolled back
+          disabled={disabled || isFailed}
+          data-action={compact ? undefined : 'commit-transaction'}
+          title="Commit the open transaction"
+        >
+          <Check className={cn(iconClass, 'text-green-600')} />
+          Commit
+          {!compact && (
+            <ShortcutKbd action="action.commit-transaction" className="ml-1" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={buttonClass}
+          onClick={() => handleEnd('rollback')}
+          disabled={disabled}
+          data-action={compact ? undefined : 'rollback-transaction'}
+          title="Roll back the open transaction"
+        >
+          <RotateCcw className={cn(iconClass, 'text-amber-600')} />
+          Rollback
+          {!compact && (
+            <ShortcutKbd
+              action="action.rollback-transaction"
+              className="ml-1"
+            />
+          )}
+        </Button>
+      </div>
+    );
+  }
+);
@@ -1,4 +1,8 @@
+export { PinnedResultsControls } from './PinnedResultsControls';
+export { QueryHistoryDialog } from './QueryHistoryDialog';
 export { QueryPane } from './QueryPane';
 export { QueryTabBar } from './QueryTabBar';
 export { QueryTemplatesPicker } from './QueryTemplatesPicker';
+export { ResultComparisonDialog } from './ResultComparisonDialog';
+export { TransactionControls } from './TransactionControls';
 export { UndoRedoControls } from './UndoRedoControls';
@@ -1,3 +1,4 @@
+import type { QueryParameterDefinition } from '@shared/types';
 import { Button } from '@sqlpro/ui/button';
 import { Checkbox } from '@sqlpro/ui/checkbox';
 import {
@@ -32,6 +33,8 @@ interface SaveQueryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   queryText: string;
+  /** Placeholder definitions saved with the query as its last-used values */
+  parameters?: QueryParameterDefinition[];
   dbPath?: string;
   initialData?: {
     name?: string;
@@ -63,6 +66,7 @@ export function SaveQueryDialog({
   open,
   onOpenChange,
   queryText,
+  parameters,
   dbPath,
   initialData,
 }: SaveQueryDialogProps) {
@@ -150,6 +154,7 @@ export function SaveQueryDialog({
         name: name.trim(),
         queryText,
         description: description.trim() || undefined,
+        parameters: parameters?.length ? parameters : undefined,
         dbPath,
         isFavorite,
         collectionIds: selectedCollectionIds,
@@ -169,6 +174,7 @@ export function SaveQueryDialog({
     name,
     queryText,
     description,
+    parameters,
     dbPath,
     isFavorite,
     selectedCollectionIds,
@@ -10,6 +10,7 @@ import type {
 import { Button } from '@sqlpro/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@sqlpro/ui/card';
 import {
+  Boxes,
   ChevronDown,
   ChevronUp,
   Columns,
@@ -61,8 +62,16 @@ export function DiffSummary({ comparisonResult, className }: DiffSummaryProps) {
       indexes: { added: 0, removed: 0, modified: 0 },
       foreignKeys: { added: 0, removed: 0, modified: 0 },
       triggers: { added: 0, removed: 0, modified: 0 },
+      objects: { added: 0, removed: 0, modified: 0 },
     };
 
+    // Count routine, sequence, type, extension and materialized view changes
+    comparisonResult.objectDiffs?.forEach((objectDiff) => {
+      if (objectDiff.diffType === 'added') result.objects.added++;
+      else if (objectDiff.diffType === 'removed') result.objects.removed++;
+      else if (objectDiff.diffType === 'modified') result.objects.modified++;
+    });
+
     // Iterate through table diffs to count column, index, FK, and trigger changes
     comparisonResult.tableDiffs.forEach((tableDiff: TableDiff) => {
       // Count column changes
@@ -128,6 +137,14 @@ export function DiffSummary({ comparisonResult, className }: DiffSummaryProps) {
     });
   };
 
+  // Other schema objects have no object type filter of their own
+  const handleObjectsClick = (changeType: DiffType) => {
+    resetFilters();
+    (['added', 'removed', 'modified'] as const).forEach((type) => {
+      if (type !== changeType) setChangeTypeFilter(type, false);
+    });
+  };
+
   const isExpanded = expandedSections.summary;
 
   return (
@@ -197,6 +214,14 @@ export function DiffSummary({ comparisonResult, className }: DiffSummaryProps) {
               handleSectionClick('triggers', changeType)
             }
           />
+
+          {/* Routines, sequences, types, extensions, materialized views */}
+          <SummarySection
+            icon={Boxes}
+            title="Other Objects"
+            counts={counts.objects}
+            onClickCount={handleObjectsClick}
+          />
         </CardContent>
       )}
     </Card>
@@ -0,0 +1,99 @@
+import type { SchemaObjectDiff } from '@shared/types';
+import { Badge } from '@sqlpro/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@sqlpro/ui/card';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+
+const KIND_LABELS: Record<SchemaObjectDiff['kind'], string> = {
+  materializedView: 'Materialized view',
+  routine: 'Routine',
+  sequence: 'Sequence',
+  type: 'Type',
+  extension: 'Extension',
+};
+
+const DIFF_STYLES: Record<
+  SchemaObjectDiff['diffType'],
+  { bg: string; badge: string; label: string }
+> = {
+  added: {
+    bg: 'border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950',
+    badge: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+    label: 'Added',
+  },
+  removed: {
+    bg: 'border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950',
+    badge: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+    label: 'Removed',
+  },
+  modified: {
+    bg: 'border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950',
+    badge: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300',
+    label: 'Modified',
+  },
+  unchanged: {
+    bg: 'border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-950',
+    badge: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+    label: 'Unchanged',
+  },
+};
+
+interface ObjectDiffCardProps {
+  objectDiff: SchemaObjectDiff;
+  className?: string;
+}
+
+/**
+ * Card showing the difference of a routine, sequence, type, extension or
+ * materialized view. Expanding it shows the source and target DDL.
+ */
+export function ObjectDiffCard({ objectDiff, className }: ObjectDiffCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { kind, name, schema, diffType, sourceSql, targetSql } = objectDiff;
+  const style = DIFF_STYLES[diffType];
+
+  return (
+    <Card className={cn('overflow-hidden', style.bg, className)}>
+      <CardHeader
+        className="cursor-pointer p-4 hover:bg-black/5 dark:hover:bg-white/5"
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        <div className="flex items-center gap-3">
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 shrink-0" />
+          )}
+          <CardTitle className="flex-1 truncate text-base font-semibold">
+            {name}
+            <span className="text-muted-foreground ml-2 text-sm font-normal">
+              {KIND_LABELS[kind]} in {schema}
+            </span>
+          </CardTitle>
+          <Badge variant="secondary" className={cn('text-xs', style.badge)}>
+            {style.label}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      {isExpanded && (
+        <CardContent className="grid grid-cols-2 gap-3 p-4 pt-0">
+          {[
+            { label: 'Source', sql: sourceSql },
+            { label: 'Target', sql: targetSql },
+          ].map(({ label, sql }) => (
+            <div key={label} className="min-w-0 space-y-1">
+              <div className="text-muted-foreground text-xs font-medium">
+                {label}
+              </div>
+              <pre className="bg-background max-h-64 overflow-auto rounded border p-2 font-mono text-xs whitespace-pre-wrap">
+                {sql ?? '—'}
+              </pre>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { FileQuestion } from 'lucide-react';
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { useSchemaComparisonStore } from '@/stores';
+import { ObjectDiffCard } from './ObjectDiffCard';
 import { TableDiffCard } from './TableDiffCard';
 
 interface SchemaDiffViewProps {
@@ -23,40 +24,51 @@ export function SchemaDiffView({
   const { filters, expandedSections, toggleTableExpanded } =
     useSchemaComparisonStore();
 
-  // Filter tables based on current filters
-  const filteredTables = useMemo(() => {
-    let tables = comparisonResult.tableDiffs;
+  // Filter tables and other schema objects based on current filters
+  const [filteredTables, filteredObjects] = useMemo(() => {
+    const applyFilters = <T extends { name: string; diffType: string }>(
+      diffs: T[]
+    ): T[] => {
+      let result = diffs;
 
-    // Filter by show only differences
-    if (filters.showOnlyDifferences) {
-      tables = tables.filter((t) => t.diffType !== 'unchanged');
-    }
+      // Filter by show only differences
+      if (filters.showOnlyDifferences) {
+        result = result.filter((t) => t.diffType !== 'unchanged');
+      }
 
-    // Filter by change type
-    const hasChangeTypeFilter =
-      !filters.changeTypes.added ||
-      !filters.changeTypes.removed ||
-      !filters.changeTypes.modified;
+      // Filter by change type
+      const hasChangeTypeFilter =
+        !filters.changeTypes.added ||
+        !filters.changeTypes.removed ||
+        !filters.changeTypes.modified;
 
-    if (hasChangeTypeFilter) {
-      tables = tables.filter((t) => {
-        if (t.diffType === 'added') return filters.changeTypes.added;
-        if (t.diffType === 'removed') return filters.changeTypes.removed;
-        if (t.diffType === 'modified') return filters.changeTypes.modified;
-        return true; // unchanged
-      });
-    }
+      if (hasChangeTypeFilter) {
+        result = result.filter((t) => {
+          if (t.diffType === 'added') return filters.changeTypes.added;
+          if (t.diffType === 'removed') return filters.changeTypes.removed;
+          if (t.diffType === 'modified') return filters.changeTypes.modified;
+          return true; // unchanged
+        });
+      }
 
-    // Filter by search text
-    if (filters.searchText.trim()) {
-      const searchLower = filters.searchText.toLowerCase();
-      tables = tables.filter((t) => t.name.toLowerCase().includes(searchLower));
-    }
+      // Filter by search text
+      if (filters.searchText.trim()) {
+        const searchLower = filters.searchText.toLowerCase();
+        result = result.filter((t) =>
+          t.name.toLowerCase().includes(searchLower)
+        );
+      }
 
-    return tables;
-  }, [comparisonResult.tableDiffs, filters]);
+      return result;
+    };
 
-  if (filteredTables.length === 0) {
+    return [
+      applyFilters(comparisonResult.tableDiffs),
+      applyFilters(comparisonResult.objectDiffs ?? []),
+    ] as const;
+  }, [comparisonResult.tableDiffs, comparisonResult.objectDiffs, filters]);
+
+  if (filteredTables.length === 0 && filteredObjects.length === 0) {
     return (
       <div
         className={cn(
@@ -93,6 +105,12 @@ export function SchemaDiffView({
             showTriggers={filters.objectTypes.triggers}
           />
         ))}
+        {filteredObjects.map((objectDiff) => (
+          <ObjectDiffCard
+            key={`${objectDiff.kind}:${objectDiff.schema}.${objectDiff.name}`}
+            objectDiff={objectDiff}
+          />
+        ))}
       </div>
     </ScrollArea>
   );
@@ -1,4 +1,7 @@
-import type { ExportQueryRequest } from '@shared/types';
+import type {
+  ExportQueryRequest,
+  QueryParameterDefinition,
+} from '@shared/types';
 import { Button } from '@sqlpro/ui/button';
 import { Checkbox } from '@sqlpro/ui/checkbox';
 import { Input } from '@sqlpro/ui/input';
@@ -23,6 +26,8 @@ export interface QueryExportDialogProps {
   onOpenChange: (open: boolean) => void;
   /** SQL query text to export */
   sql: string;
+  /** Placeholder definitions exported with the query */
+  parameters?: QueryParameterDefinition[];
   /** Initial query name */
   initialName?: string;
   /** Initial description */
@@ -41,6 +46,7 @@ export function QueryExportDialog({
   open,
   onOpenChange,
   sql,
+  parameters,
   initialName = '',
   initialDescription = '',
   initialDatabaseContext = '',
@@ -91,6 +97,7 @@ export function QueryExportDialog({
           databaseContext: databaseContext.trim() || undefined,
           tags: parsedTags.length > 0 ? parsedTags : undefined,
           documentation: documentation.trim() || undefined,
+          parameters: parameters?.length ? parameters : undefined,
         },
         compress,
       };
@@ -114,6 +121,7 @@ export function QueryExportDialog({
     name,
     description,
     sql,
+    parameters,
     databaseContext,
     parsedTags,
     documentation,
@@ -2,6 +2,7 @@ import type { Command } from '@/stores';
 import { useNavigate } from '@tanstack/react-router';
 import {
   Bookmark,
+  Check,
   Code,
   Database,
   FileDown,
@@ -18,6 +19,7 @@ import {
   PanelLeftClose,
   Plus,
   RefreshCw,
+  RotateCcw,
   Save,
   Search,
   Settings,
@@ -25,6 +27,8 @@ import {
   SkipForward,
   Sun,
   Table,
+  TextCursorInput,
+  TextSelect,
   Trash2,
   Undo2,
   X,
@@ -570,6 +574,84 @@ export function useCommands() {
         },
         disabled: () => !connectionStoreRef.current.connection,
       },
+      {
+        id: 'action.execute-statement',
+        label: 'Run Statement at Cursor',
+        shortcut: getShortcutDisplay('action.execute-statement'),
+        icon: TextCursorInput,
+        category: 'actions',
+        keywords: ['execute', 'run', 'statement', 'cursor', 'sql'],
+        action: () => {
+          document
+            .querySelector<HTMLButtonElement>(
+              'button[data-action="execute-statement"]'
+            )
+            ?.click();
+        },
+        disabled: () =>
+          !document.querySelector(
+            'button[data-action="execute-statement"]:enabled'
+          ),
+      },
+      {
+        id: 'action.execute-selection',
+        label: 'Run Selection',
+        shortcut: getShortcutDisplay('action.execute-selection'),
+        icon: TextSelect,
+        category: 'actions',
+        keywords: ['execute', 'run', 'selection', 'selected', 'sql'],
+        action: () => {
+          document
+            .querySelector<HTMLButtonElement>(
+              'button[data-action="execute-selection"]'
+            )
+            ?.click();
+        },
+        // Enabled while the editor has a selection
+        disabled: () =>
+          !document.querySelector(
+            'button[data-action="execute-selection"]:enabled'
+          ),
+      },
+      {
+        id: 'action.commit-transaction',
+        label: 'Commit Transaction',
+        shortcut: getShortcutDisplay('action.commit-transaction'),
+        icon: Check,
+        category: 'actions',
+        keywords: ['commit', 'transaction', 'manual'],
+        action: () => {
+          document
+            .querySelector<HTMLButtonElement>(
+              'button[data-action="commit-transaction"]'
+            )
+            ?.click();
+        },
+        // Enabled while the active query tab has an open transaction
+        disabled: () =>
+          !document.querySelector(
+            'button[data-action="commit-transaction"]:enabled'
+          ),
+      },
+      {
+        id: 'action.rollback-transaction',
+        label: 'Rollback Transaction',
+        shortcut: getShortcutDisplay('action.rollback-transaction'),
+        icon: RotateCcw,
+        category: 'actions',
+        keywords: ['rollback', 'transaction', 'manual', 'undo'],
+        action: () => {
+          document
+            .querySelector<HTMLButtonElement>(
+              'button[data-action="rollback-transaction"]'
+            )
+            ?.click();
+        },
+        disabled: () =>
+          !document.querySelector(
+            'button[data-action="rollback-transaction"]:enabled'
+          ),
+      },
       {
         id: 'action.save-query',
         label: 'Save Query',
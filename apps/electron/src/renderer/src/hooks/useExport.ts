@@ -9,8 +9,18 @@ export interface ExportDataOptions {
   tableName: string;
   /** Connection ID for database operations */
   connectionId: string;
-  /** Rows to export (pre-filtered from UI) */
-  rows: Record<string, unknown>[];
+  /** Database schema of the table */
+  schema?: string;
+  /**
+   * Rows to export (pre-filtered from UI). When omitted, the entire table is
+   * streamed from the database by the main process.
+   */
+  rows?: Record<string, unknown>[];
+  /**
+   * Query whose full result is exported instead of the table. The result is
+   * streamed to the file by the main process.
+   */
+  query?: string;
   /** Columns to include in export */
   columns: string[];
   /** CSV delimiter character (defaults to ',') */
@@ -75,7 +85,9 @@ export function useExport(): UseExportResult {
         format,
         tableName,
         connectionId,
+        schema,
         rows,
+        query,
         columns,
         delimiter = ',',
         includeHeaders = true,
@@ -84,7 +96,7 @@ export function useExport(): UseExportResult {
       } = options;
 
       // Validate inputs
-      if (rows.length === 0) {
+      if (rows && rows.length === 0) {
         const emptyError = new Error('No data to export');
         setError(emptyError);
         return null;
@@ -125,10 +137,12 @@ export function useExport(): UseExportResult {
         const exportResult = await sqlPro.export.data({
           connectionId,
           table: tableName,
+          schema,
           format,
           filePath: dialogResult.filePath,
           columns,
           rows,
+          query,
           delimiter,
           includeHeaders,
           prettyPrint,
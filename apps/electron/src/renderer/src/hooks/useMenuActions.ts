@@ -176,6 +176,16 @@ export function useMenuActions() {
           break;
         }
 
+        case 'execute-statement':
+        case 'execute-selection':
+        case 'commit-transaction':
+        case 'rollback-transaction': {
+          document
+            .querySelector<HTMLButtonElement>(`button[data-action="${action}"]`)
+            ?.click();
+          break;
+        }
+
         case 'toggle-history': {
           const historyButton =
             document.querySelector<HTMLButtonElement>(
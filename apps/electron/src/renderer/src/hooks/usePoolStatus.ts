@@ -0,0 +1,66 @@
+import type { PoolStatus } from '@shared/types';
+import type { DatabaseConnection } from '@/types/database';
+import { useEffect, useState } from 'react';
+import { sqlPro } from '@/lib/api';
+
+/** How often the session counts of the pool are refreshed */
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Whether the connection runs on a session pool, which lets query tabs pin
+ * a session of their own. Supabase connections over REST have no sessions.
+ */
+export function isPooledConnection(
+  connection: DatabaseConnection | null | undefined
+): boolean {
+  switch (connection?.databaseType) {
+    case 'mysql':
+    case 'postgresql':
+      return true;
+    case 'supabase':
+      return connection.supabase?.mode !== 'rest';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Hook for the active and idle sessions of a pooled connection, polled while
+ * the component is mounted. Null for connections without a pool.
+ */
+export function usePoolStatus(
+  connection: DatabaseConnection | null | undefined
+): PoolStatus | null {
+  // Keyed by connection so a switch never shows the previous pool
+  const [polled, setPolled] = useState<{
+    connectionId: string;
+    status: PoolStatus | null;
+  } | null>(null);
+  const connectionId = isPooledConnection(connection) ? connection!.id : null;
+
+  useEffect(() => {
+    if (!connectionId) return;
+
+    let cancelled = false;
+    const refresh = async () => {
+      const result = await sqlPro.db
+        .getPoolStatus({ connectionId })
+        .catch(() => null);
+      if (!cancelled) {
+        setPolled({
+          connectionId,
+          status: result?.success ? (result.status ?? null) : null,
+        });
+      }
+    };
+
+    void refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [connectionId]);
+
+  return polled && polled.connectionId === connectionId ? polled.status : null;
+}
@@ -0,0 +1,98 @@
+import type {
+  QueryParameterDefinition,
+  QueryParameterValue,
+  SqlDialect,
+} from '@shared/types';
+import type { QueryTab } from '@/stores';
+import {
+  getQueryParameterKeys,
+  resolveQueryParameterValues,
+  syncQueryParameterDefinitions,
+} from '@shared/query-parameters';
+import { useCallback, useMemo } from 'react';
+import { useQueryTabsStore, useSavedQueriesStore } from '@/stores';
+
+export interface UseQueryParametersResult {
+  /** Definitions of the query's placeholders, in order of first use */
+  definitions: QueryParameterDefinition[];
+  /** Changes the type or value of a parameter */
+  updateParameter: (
+    name: string,
+    changes: Partial<Pick<QueryParameterDefinition, 'type' | 'value'>>
+  ) => void;
+  /**
+   * Values to send with the query, undefined when it has no placeholders,
+   * or the error of an input that can't be converted to its type
+   */
+  resolveValues: () =>
+    | { values: Record<string, QueryParameterValue> | undefined }
+    | { error: string };
+  /** Saves the current values on the saved query the tab was loaded from */
+  rememberValues: () => void;
+}
+
+/**
+ * Hook for the `:name`, `$1` and `?` placeholders of a query tab. Their
+ * types and values live on the tab and are kept while a placeholder is
+ * briefly removed from the SQL.
+ */
+export function useQueryParameters(
+  connectionId: string | null,
+  tab: QueryTab | undefined,
+  dialect: SqlDialect
+): UseQueryParametersResult {
+  const setTabParameters = useQueryTabsStore((state) => state.setTabParameters);
+  const updateSavedQuery = useSavedQueriesStore(
+    (state) => state.updateSavedQuery
+  );
+
+  const query = tab?.query ?? '';
+  const tabParameters = tab?.parameters;
+  const keys = useMemo(
+    () => getQueryParameterKeys(query, dialect),
+    [query, dialect]
+  );
+  const definitions = useMemo(
+    () => syncQueryParameterDefinitions(keys, tabParameters),
+    [keys, tabParameters]
+  );
+
+  const updateParameter = useCallback(
+    (
+      name: string,
+      changes: Partial<Pick<QueryParameterDefinition, 'type' | 'value'>>
+    ) => {
+      if (!connectionId || !tab) return;
+
+      const updated = definitions.map((def) =>
+        def.name === name ? { ...def, ...changes } : def
+      );
+      const unused = (tabParameters ?? []).filter(
+        (def) => !keys.includes(def.name)
+      );
+      setTabParameters(connectionId, tab.id, [...updated, ...unused]);
+    },
+    [connectionId, tab, definitions, tabParameters, keys, setTabParameters]
+  );
+
+  const resolveValues = useCallback(() => {
+    if (definitions.length === 0) {
+      return { values: undefined };
+    }
+    try {
+      return { values: resolveQueryParameterValues(definitions) };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [definitions]);
+
+  const rememberValues = useCallback(() => {
+    if (tab?.savedQueryId && definitions.length > 0) {
+      void updateSavedQuery(tab.savedQueryId, { parameters: definitions });
+    }
+  }, [tab?.savedQueryId, definitions, updateSavedQuery]);
+
+  return { definitions, updateParameter, resolveValues, rememberValues };
+}
@@ -0,0 +1,105 @@
+import type { ExportFormat } from '@shared/types';
+import type { QueryResult } from '@/types/database';
+import { useCallback, useRef, useState } from 'react';
+import { sqlPro } from '@/lib/api';
+import { useQueryTabsStore } from '@/stores';
+import { useExport } from './useExport';
+
+/** Rows requested per page of a streamed query result */
+export const RESULT_PAGE_SIZE = 1000;
+
+export interface UseStreamedResultsResult {
+  /** Fetches the next page of the result into the tab */
+  loadMore: () => Promise<void>;
+  /** Whether a page is being fetched */
+  isLoadingMore: boolean;
+  /** Exports the full result of the query to a file */
+  exportAll: (format: ExportFormat) => Promise<void>;
+  /** Whether an export is in progress */
+  isExporting: boolean;
+  /** Error from the last page fetch or export */
+  error: string | null;
+}
+
+/**
+ * Hook for paging through a streamed query result. Pages are read from the
+ * result's server-side cursor and appended to the tab's results, so only
+ * the rows scrolled into view are ever transferred to the renderer.
+ */
+export function useStreamedResults(
+  connectionId: string | null,
+  tabId: string | null,
+  results: QueryResult | null
+): UseStreamedResultsResult {
+  const appendTabResultRows = useQueryTabsStore(
+    (state) => state.appendTabResultRows
+  );
+  const { exportData, isExporting, error: exportError } = useExport();
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Cursor with a fetch in flight, to ignore repeated scroll events
+  const loadingCursorRef = useRef<string | null>(null);
+
+  const cursorId = results?.hasMore ? results.cursorId : undefined;
+
+  const loadMore = useCallback(async () => {
+    if (!connectionId || !tabId || !cursorId) return;
+    if (loadingCursorRef.current === cursorId) return;
+
+    loadingCursorRef.current = cursorId;
+    setIsLoadingMore(true);
+    setLoadError(null);
+
+    try {
+      const page = await sqlPro.db.fetchCursor({
+        cursorId,
+        count: RESULT_PAGE_SIZE,
+      });
+
+      if (page.success) {
+        appendTabResultRows(
+          connectionId,
+          tabId,
+          page.rows ?? [],
+          page.hasMore ?? false
+        );
+      } else {
+        // The cursor is closed after a failed read
+        setLoadError(page.error || 'Failed to load more rows');
+        appendTabResultRows(connectionId, tabId, [], false);
+      }
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+      appendTabResultRows(connectionId, tabId, [], false);
+    } finally {
+      loadingCursorRef.current = null;
+      setIsLoadingMore(false);
+    }
+  }, [connectionId, tabId, cursorId, appendTabResultRows]);
+
+  const query = results?.query;
+  const columns = results?.columns;
+
+  const exportAll = useCallback(
+    async (format: ExportFormat) => {
+      if (!connectionId || !query || !columns) return;
+
+      await exportData({
+        format,
+        tableName: 'query_result',
+        connectionId,
+        query,
+        columns,
+      });
+    },
+    [connectionId, query, columns, exportData]
+  );
+
+  return {
+    loadMore,
+    isLoadingMore,
+    exportAll,
+    isExporting,
+    error: loadError ?? exportError?.message ?? null,
+  };
+}
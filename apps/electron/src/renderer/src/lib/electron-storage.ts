@@ -9,6 +9,7 @@ import type {
   RendererConnectionState,
   RendererDiagramState,
   RendererPanelWidths,
+  RendererQueryTabsState,
   RendererSettingsState,
   RendererStoreSchema,
 } from '@shared/types/renderer-store';
@@ -19,6 +20,7 @@ export type {
   RendererConnectionState,
   RendererDiagramState,
   RendererPanelWidths,
+  RendererQueryTabsState,
   RendererSettingsState,
   RendererStoreSchema,
 };
@@ -30,6 +32,7 @@ interface ElectronStorageCache {
   diagram: RendererDiagramState | null;
   panelWidths: RendererPanelWidths | null;
   connectionUi: RendererConnectionState | null;
+  queryTabs: RendererQueryTabsState | null;
 }
 
 const cache: ElectronStorageCache = {
@@ -37,6 +40,7 @@ const cache: ElectronStorageCache = {
   diagram: null,
   panelWidths: null,
   connectionUi: null,
+  queryTabs: null,
 };
 
 let initialized = false;
@@ -55,6 +59,7 @@ export async function initializeElectronStorage(): Promise<void> {
     'diagram',
     'panelWidths',
     'connectionUi',
+    'queryTabs',
   ];
 
   await Promise.all(
@@ -76,6 +81,9 @@ export async function initializeElectronStorage(): Promise<void> {
             case 'connectionUi':
               cache.connectionUi = response.data as RendererConnectionState;
               break;
+            case 'queryTabs':
+              cache.queryTabs = response.data as RendererQueryTabsState;
+              break;
           }
         }
       } catch (error) {
@@ -131,6 +139,13 @@ export function getCachedConnectionUi(): RendererConnectionState | null {
   return cache.connectionUi;
 }
 
+/**
+ * Get cached query tabs state
+ */
+export function getCachedQueryTabs(): RendererQueryTabsState | null {
+  return cache.queryTabs;
+}
+
 // ============ Persistence Functions ============
 
 /**
@@ -183,6 +198,18 @@ export function persistConnectionUi(
     });
 }
 
+/**
+ * Persist query tabs state to electron-store
+ */
+export function persistQueryTabs(queryTabs: RendererQueryTabsState): void {
+  cache.queryTabs = queryTabs;
+  sqlPro.rendererStore
+    .set({ key: 'queryTabs', value: queryTabs })
+    .catch((error) => {
+      console.error('Failed to persist queryTabs to electron-store:', error);
+    });
+}
+
 // ============ Store Hydration ============
 
 // Store setters - will be registered by each store
@@ -3,7 +3,9 @@ import type {
   AddQueryToCollectionRequest,
   AnalyzeQueryPlanRequest,
   ApplyChangesRequest,
+  CancelQueryRequest,
   ClearQueryHistoryRequest,
+  CloseCursorRequest,
   CloseDatabaseRequest,
   CompareConnectionsRequest,
   CompareConnectionToSnapshotRequest,
@@ -12,12 +14,15 @@ import type {
   DeleteQueryHistoryRequest,
   DeleteSavedQueryRequest,
   DeleteSchemaSnapshotRequest,
+  EndTransactionRequest,
   ExecuteQueryRequest,
   ExportCollectionsRequest,
   ExportComparisonReportRequest,
   ExportRequest,
+  FetchCursorRequest,
   GenerateMigrationSQLRequest,
   GetPasswordRequest,
+  GetPoolStatusRequest,
   GetQueryHistoryRequest,
   GetSavedQueriesRequest,
   GetSchemaRequest,
@@ -25,10 +30,13 @@ import type {
   GetTableDataRequest,
   HasPasswordRequest,
   ImportCollectionsRequest,
+  ImportDataRequest,
+  ImportPreviewRequest,
   OpenDatabaseRequest,
   OpenFileDialogRequest,
   ProActivateRequest,
   QueryCollection,
+  ReleaseSessionRequest,
   RemoveConnectionRequest,
   RemovePasswordRequest,
   RemoveQueryFromCollectionRequest,
@@ -40,7 +48,9 @@ import type {
   SaveQueryHistoryRequest,
   SaveSavedQueryRequest,
   SaveSchemaSnapshotRequest,
+  SearchQueryHistoryRequest,
   SetPreferencesRequest,
+  SetSupabaseRoleRequest,
   TableInfo,
   ToggleFavoriteRequest,
   UpdateCollectionRequest,
@@ -804,6 +814,44 @@ export const mockSqlProAPI: any = {
         totalRows: data.length,
       };
     },
+    cancelQuery: async (_request: CancelQueryRequest): Promise<any> => {
+      await delay(100);
+      return { success: true, cancelled: false };
+    },
+    fetchCursor: async (_request: FetchCursorRequest): Promise<any> => {
+      await delay(100);
+      return { success: true, rows: [], rowCount: 0, hasMore: false };
+    },
+    closeCursor: async (_request: CloseCursorRequest): Promise<any> => {
+      await delay(50);
+      return { success: true };
+    },
+    setSupabaseRole: async (request: SetSupabaseRoleRequest): Promise<any> => {
+      await delay(100);
+      return {
+        success: true,
+        supabase: {
+          mode: 'postgres',
+          role: request.role,
+          roles: ['service_role', 'anon'],
+        },
+      };
+    },
+    releaseSession: async (_request: ReleaseSessionRequest): Promise<any> => {
+      await delay(50);
+      return { success: true, released: true };
+    },
+    getPoolStatus: async (_request: GetPoolStatusRequest): Promise<any> => {
+      await delay(50);
+      return {
+        success: true,
+        status: { size: 5, active: 1, idle: 2, pinned: 0, waiting: 0 },
+      };
+    },
+    endTransaction: async (_request: EndTransactionRequest): Promise<any> => {
+      await delay(50);
+      return { success: true, transactionState: 'idle' };
+    },
   },
   query: {
     execute: async (_request: ExecuteQueryRequest): Promise<any> => {
@@ -834,17 +882,22 @@ export const mockSqlProAPI: any = {
     ): Promise<any> => {
       await delay(300);
       return {
+        success: true,
         plan: [
           {
-            id: 0,
-            parent: -1,
-            notused: 0,
+            id: 1,
+            parent: 0,
+            notUsed: 0,
             detail: 'SCAN TABLE users',
           },
         ],
-        executionTime: 0.5,
+        stats: { executionTime: 0.5, totalNodes: 1, depth: 1, hasScan: true },
       };
     },
+    onSessionReset: (): (() => void) => {
+      // Return a no-op unsubscribe function in mock mode
+      return () => {};
+    },
   },
   history: {
     getQueryHistory: async (_request: GetQueryHistoryRequest): Promise<any> => {
@@ -879,6 +932,21 @@ export const mockSqlProAPI: any = {
         success: true,
       };
     },
+    search: async (_request: SearchQueryHistoryRequest): Promise<any> => {
+      await delay(200);
+      return {
+        success: true,
+        entries: [],
+        total: 0,
+      };
+    },
+    getConnections: async (): Promise<any> => {
+      await delay(100);
+      return {
+        success: true,
+        connections: [],
+      };
+    },
   },
   export: {
     export: async (_request: ExportRequest): Promise<any> => {
@@ -889,6 +957,32 @@ export const mockSqlProAPI: any = {
       };
     },
   },
+  import: {
+    preview: async (_request: ImportPreviewRequest): Promise<any> => {
+      await delay(300);
+      return {
+        success: true,
+        format: 'csv',
+        columns: [],
+        rows: [],
+        totalRows: 0,
+      };
+    },
+    data: async (_request: ImportDataRequest): Promise<any> => {
+      await delay(500);
+      return {
+        success: true,
+        rowsImported: 0,
+        rowsFailed: 0,
+        errors: [],
+        createdTable: false,
+      };
+    },
+    onProgress: (): (() => void) => {
+      // Return a no-op unsubscribe function in mock mode
+      return () => {};
+    },
+  },
   file: {
     openFileDialog: async (_request: OpenFileDialogRequest): Promise<any> => {
       await delay(200);
@@ -1321,6 +1415,41 @@ export const mockSqlProAPI: any = {
         },
       };
     },
+    streamTableDiff: async (_request: any): Promise<any> => {
+      await delay(500);
+      return {
+        success: true,
+        result: {
+          sourceId: _request.sourceConnectionId,
+          sourceName: `${_request.sourceTable}`,
+          sourceTable: _request.sourceTable,
+          sourceSchema: _request.sourceSchema ?? '',
+          targetId: _request.targetConnectionId,
+          targetName: `${_request.targetTable}`,
+          targetTable: _request.targetTable,
+          targetSchema: _request.targetSchema ?? '',
+          primaryKeys: [],
+          rowDiffs: [],
+          comparedAt: new Date().toISOString(),
+          summary: {
+            sourceRows: 0,
+            targetRows: 0,
+            rowsAdded: 0,
+            rowsRemoved: 0,
+            rowsModified: 0,
+            rowsUnchanged: 0,
+          },
+        },
+      };
+    },
+    cancelTableDiff: async (_request: any): Promise<any> => {
+      await delay(100);
+      return { success: true, cancelled: false };
+    },
+    onTableDiffProgress: (): (() => void) => {
+      // Return a no-op unsubscribe function in mock mode
+      return () => {};
+    },
     exportComparisonReport: async (
       _request: ExportComparisonReportRequest
     ): Promise<any> => {
@@ -1332,6 +1461,60 @@ export const mockSqlProAPI: any = {
     },
   },
 
+  // Migration operations (mock)
+  migration: {
+    generateSyncSQL: async (_request: any): Promise<any> => {
+      await delay(200);
+      const sql =
+        '-- Mock sync SQL\nUPDATE "users" SET "name" = \'Alice\' WHERE "id" = 1;';
+      return {
+        success: true,
+        sql,
+        statements: [sql],
+        warnings: [],
+      };
+    },
+    applySyncSQL: async (_request: any): Promise<any> => {
+      await delay(300);
+      return {
+        success: true,
+        statementsExecuted: _request.statements.length,
+      };
+    },
+  },
+
+  // Schema design operations (mock)
+  schemaDesign: {
+    preview: async (_request: any): Promise<any> => {
+      await delay(200);
+      return {
+        success: true,
+        sql: '-- Mock schema design DDL\n-- No changes are applied in mock mode',
+        statements: [],
+        warnings: [],
+      };
+    },
+    apply: async (_request: any): Promise<any> => {
+      await delay(300);
+      return { success: true, statementsExecuted: 0 };
+    },
+  },
+
+  // Inferred relationship operations (mock)
+  relationships: {
+    verify: async (request: any): Promise<any> => {
+      await delay(300);
+      return {
+        success: true,
+        relationships: request.relationships.map((relationship: any) => ({
+          ...relationship,
+          confidence: Math.max(relationship.confidence, 0.95),
+          verification: { sampledValues: 10, matchedValues: 10 },
+        })),
+      };
+    },
+  },
+
   // SQL log operations (mock)
   sqlLog: {
     get: async (): Promise<any> => {
@@ -1342,6 +1525,14 @@ export const mockSqlProAPI: any = {
       await delay(100);
       return { success: true };
     },
+    getAudit: async (): Promise<any> => {
+      await delay(100);
+      return { success: true, logs: [] };
+    },
+    export: async (): Promise<any> => {
+      await delay(100);
+      return { success: true, count: 0 };
+    },
     onEntry: (): (() => void) => {
       // Return a no-op unsubscribe function in mock mode
       return () => {};
@@ -2135,3 +2135,114 @@ describe('parseTableReferences edge cases', () => {
     });
   });
 });
+
+describe('dialect-aware language service', () => {
+  describe('parseTableReferences with schemas', () => {
+    it('should keep the schema of qualified table names', () => {
+      const result = parseTableReferences(
+        'SELECT * FROM public.users u JOIN orders o ON o.user_id = u.id'
+      );
+      expect(result).toEqual([
+        { tableName: 'users', alias: 'u', schema: 'public' },
+        { tableName: 'orders', alias: 'o' },
+      ]);
+    });
+  });
+
+  describe('formatSql', () => {
+    it('should keep PostgreSQL casts tight', () => {
+      const result = formatSql(
+        "select id::text, data->>'name' from users",
+        'postgresql'
+      );
+      expect(result).toContain('id::text');
+      expect(result).toContain("data ->> 'name'");
+    });
+
+    it('should start RETURNING and ON CONFLICT on new lines in PostgreSQL', () => {
+      const result = formatSql(
+        "insert into tags (name) values ('a') on conflict (name) do nothing returning id",
+        'postgresql'
+      );
+      expect(result).toContain('\nON CONFLICT (name) DO NOTHING');
+      expect(result).toContain('\nRETURNING id');
+    });
+
+    it('should keep dollar-quoted bodies intact', () => {
+      const body = '$$ select  1; $$';
+      const result = formatSql(
+        `create function one() returns int as ${body} language sql`,
+        'postgresql'
+      );
+      expect(result).toContain(body);
+    });
+
+    it('should keep MySQL hash comments and backslash escapes', () => {
+      const result = formatSql(
+        "select 'it\\'s' from users # trailing\nwhere id = 1",
+        'mysql'
+      );
+      expect(result).toContain("'it\\'s'");
+      expect(result).toMatch(/# trailing\n+WHERE id = 1/);
+    });
+
+    it('should not space dialect function calls', () => {
+      expect(
+        formatSql('select jsonb_build_object (a, b) from t', 'postgresql')
+      ).toContain('jsonb_build_object(a, b)');
+    });
+  });
+
+  describe('validateSql', () => {
+    it('should warn about syntax of other dialects', () => {
+      const errors = validateSql(
+        "SELECT * FROM users WHERE name ILIKE 'a%'",
+        'mysql'
+      );
+      expect(errors).toEqual([
+        expect.objectContaining({
+          startColumn: 32,
+          endColumn: 37,
+          severity: 'warning',
+          message: expect.stringContaining('MySQL has no ILIKE'),
+        }),
+      ]);
+      expect(
+        validateSql("SELECT * FROM users WHERE name ILIKE 'a%'", 'postgresql')
+      ).toEqual([]);
+    });
+
+    it('should ignore foreign syntax inside strings and comments', () => {
+      expect(
+        validateSql("SELECT 'a::b' FROM users -- id::text", 'sqlite')
+      ).toEqual([]);
+      expect(
+        validateSql('SELECT id::text FROM users', 'sqlite')[0]?.message
+      ).toContain('CAST');
+    });
+
+    it('should accept MySQL backslash escapes and hash comments', () => {
+      expect(
+        validateSql("SELECT 'it\\'s' FROM users # (unclosed", 'mysql')
+      ).toEqual([]);
+    });
+
+    it('should skip PostgreSQL dollar-quoted bodies', () => {
+      expect(
+        validateSql(
+          "CREATE FUNCTION f() RETURNS text AS $body$ SELECT ')' $body$ LANGUAGE sql",
+          'postgresql'
+        )
+      ).toEqual([]);
+      expect(
+        validateSql('SELECT $$ (', 'postgresql').map((e) => e.message)
+      ).toEqual(['Unclosed dollar-quoted string ($$)']);
+    });
+
+    it('should flag backticks in PostgreSQL', () => {
+      const errors = validateSql('SELECT `name` FROM users', 'postgresql');
+      expect(errors.map((e) => e.startColumn)).toEqual([8, 13]);
+      expect(validateSql('SELECT `name` FROM users', 'mysql')).toEqual([]);
+    });
+  });
+});
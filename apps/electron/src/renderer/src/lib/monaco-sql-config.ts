@@ -1,5 +1,22 @@
+import type { SqlDialect } from '@shared/types';
 import type * as Monaco from 'monaco-editor';
+import type {
+  SqlDialectCatalog,
+  SqlDocEntry,
+  SqlOperator,
+} from './sql-dialect-catalogs';
+import type { SqlCte, SqlSource, SqlSpan } from './sql-symbols';
 import type { DatabaseSchema, TableSchema } from '@/types/database';
+import { getDialectCatalog } from './sql-dialect-catalogs';
+import {
+  findSqlReferences,
+  getSqlStatementSymbols,
+  isLocalSqlSymbol,
+  renameSqlSymbol,
+  resolveSqlSymbol,
+} from './sql-symbols';
+
+export type { SqlDocEntry } from './sql-dialect-catalogs';
 
 /**
  * Represents a table reference extracted from SQL query.
@@ -44,6 +61,10 @@ interface SqlContextResult {
   tableRefs: TableReferenceResult[];
   /** If cursor is after a dot, the prefix before the dot */
   dotPrefix: string | null;
+  /** Schema qualifying the dot prefix, as in `schema.table.` */
+  dotSchema: string | null;
+  /** Whether the cursor follows a `::` cast */
+  afterCast: boolean;
   /** The word being typed (for filtering) */
   currentWord: string;
   /** Depth of parentheses at cursor position */
@@ -58,22 +79,6 @@ interface SqlContextResult {
   currentClause: string | null;
 }
 
-/**
- * SQL function definition for autocomplete with documentation.
- */
-interface SqlFunction {
-  name: string;
-  signature: string;
-  description: string;
-  category:
-    | 'aggregate'
-    | 'string'
-    | 'numeric'
-    | 'datetime'
-    | 'conditional'
-    | 'sqlite';
-}
-
 /**
  * SQL snippet definition for common patterns.
  */
@@ -90,19 +95,22 @@ interface SqlSnippet {
  * - FROM users
  * - FROM users u
  * - FROM users AS u
+ * - FROM public.users u (schema is set only when the name is qualified)
  * - JOIN orders o ON ...
  */
 export function parseTableReferences(sql: string): TableReferenceResult[] {
   const references: TableReferenceResult[] = [];
   const normalizedSql = sql.replace(/\s+/g, ' ').trim();
 
-  // Match FROM table [AS] [alias] and JOIN table [AS] [alias]
-  const tablePattern = /(?:FROM|JOIN)\s+(\w+)(?:\s+(?:AS\s+)?(\w+))?/gi;
+  // Match FROM [schema.]table [AS] [alias] and JOIN [schema.]table [AS] [alias]
+  const tablePattern =
+    /(?:FROM|JOIN)\s+(?:(\w+)\.)?(\w+)(?:\s+(?:AS\s+)?(\w+))?/gi;
 
   let match = tablePattern.exec(normalizedSql);
   while (match !== null) {
-    const tableName = match[1];
-    const alias = match[2] || null;
+    const schemaName = match[1];
+    const tableName = match[2];
+    const alias = match[3] || null;
 
     // Skip if the "alias" is actually a SQL keyword
     const keywords = [
@@ -124,17 +132,41 @@ export function parseTableReferences(sql: string): TableReferenceResult[] {
       'SET',
       'VALUES',
     ];
-    if (alias && keywords.includes(alias.toUpperCase())) {
-      references.push({ tableName, alias: null });
-    } else {
-      references.push({ tableName, alias });
+    const reference: TableReferenceResult = {
+      tableName,
+      alias: alias && keywords.includes(alias.toUpperCase()) ? null : alias,
+    };
+    if (schemaName) {
+      reference.schema = schemaName;
     }
+    references.push(reference);
     match = tablePattern.exec(normalizedSql);
   }
 
   return references;
 }
 
+/**
+ * Finds a table by name, preferring the given schema when there is one.
+ */
+function findTable(
+  schema: DatabaseSchema,
+  tableName: string,
+  schemaName?: string
+): TableSchema | null {
+  const lowerName = tableName.toLowerCase();
+  const candidates = schema.tables.filter(
+    (t) => t.name.toLowerCase() === lowerName
+  );
+  if (schemaName) {
+    const lowerSchema = schemaName.toLowerCase();
+    return (
+      candidates.find((t) => t.schema.toLowerCase() === lowerSchema) || null
+    );
+  }
+  return candidates[0] || null;
+}
+
 /**
  * Resolves a prefix (table name or alias) to the actual table info.
  */
@@ -148,18 +180,13 @@ function resolveTableFromPrefix(
   // First check if it matches an alias
   for (const ref of tableRefs) {
     if (ref.alias?.toLowerCase() === lowerPrefix) {
-      return (
-        schema.tables.find(
-          (t) => t.name.toLowerCase() === ref.tableName.toLowerCase()
-        ) || null
-      );
+      return findTable(schema, ref.tableName, ref.schema);
     }
   }
 
-  // Then check if it matches a table name directly
-  return (
-    schema.tables.find((t) => t.name.toLowerCase() === lowerPrefix) || null
-  );
+  // Then check if it matches a table of the query, then any table
+  const ref = tableRefs.find((r) => r.tableName.toLowerCase() === lowerPrefix);
+  return findTable(schema, prefix, ref?.schema) || findTable(schema, prefix);
 }
 
 /**
@@ -172,9 +199,7 @@ function getTablesInScope(
   const inScope: TableSchema[] = [];
 
   for (const ref of tableRefs) {
-    const table = schema.tables.find(
-      (t) => t.name.toLowerCase() === ref.tableName.toLowerCase()
-    );
+    const table = findTable(schema, ref.tableName, ref.schema);
     if (table && !inScope.includes(table)) {
       inScope.push(table);
     }
@@ -243,7 +268,7 @@ interface SqlToken {
   original: string; // Original value before transformation
 }
 
-// SQL Keywords for autocomplete (US1)
+// SQL Keywords for autocomplete (US1), shared by all dialects
 // Defined early since tokenizeSql uses SQL_KEYWORDS_SET
 const SQL_KEYWORDS = [
   'SELECT',
@@ -304,11 +329,7 @@ const SQL_KEYWORDS = [
   'CHECK',
   'CONSTRAINT',
   'CASCADE',
-  'PRAGMA',
   'EXPLAIN',
-  'VACUUM',
-  'ATTACH',
-  'DETACH',
   'BEGIN',
   'COMMIT',
   'ROLLBACK',
@@ -317,306 +338,6 @@ const SQL_KEYWORDS = [
   'RELEASE',
 ];
 
-/**
- * SQL functions catalog with signatures and documentation.
- * Used for intelligent function completion.
- */
-const SQL_FUNCTIONS: SqlFunction[] = [
-  // Aggregate Functions
-  {
-    name: 'COUNT',
-    signature: 'COUNT(expression)',
-    description: 'Returns the number of rows',
-    category: 'aggregate',
-  },
-  {
-    name: 'SUM',
-    signature: 'SUM(expression)',
-    description: 'Returns the sum of values',
-    category: 'aggregate',
-  },
-  {
-    name: 'AVG',
-    signature: 'AVG(expression)',
-    description: 'Returns the average value',
-    category: 'aggregate',
-  },
-  {
-    name: 'MIN',
-    signature: 'MIN(expression)',
-    description: 'Returns the minimum value',
-    category: 'aggregate',
-  },
-  {
-    name: 'MAX',
-    signature: 'MAX(expression)',
-    description: 'Returns the maximum value',
-    category: 'aggregate',
-  },
-  {
-    name: 'GROUP_CONCAT',
-    signature: 'GROUP_CONCAT(expression, separator)',
-    description: 'Concatenates values from a group',
-    category: 'aggregate',
-  },
-  {
-    name: 'TOTAL',
-    signature: 'TOTAL(expression)',
-    description: 'Returns the sum as a floating point',
-    category: 'aggregate',
-  },
-
-  // String Functions
-  {
-    name: 'LENGTH',
-    signature: 'LENGTH(string)',
-    description: 'Returns the length of a string',
-    category: 'string',
-  },
-  {
-    name: 'UPPER',
-    signature: 'UPPER(string)',
-    description: 'Converts string to uppercase',
-    category: 'string',
-  },
-  {
-    name: 'LOWER',
-    signature: 'LOWER(string)',
-    description: 'Converts string to lowercase',
-    category: 'string',
-  },
-  {
-    name: 'SUBSTR',
-    signature: 'SUBSTR(string, start, length)',
-    description: 'Extracts a substring',
-    category: 'string',
-  },
-  {
-    name: 'TRIM',
-    signature: 'TRIM(string)',
-    description: 'Removes leading and trailing whitespace',
-    category: 'string',
-  },
-  {
-    name: 'LTRIM',
-    signature: 'LTRIM(string)',
-    description: 'Removes leading whitespace',
-    category: 'string',
-  },
-  {
-    name: 'RTRIM',
-    signature: 'RTRIM(string)',
-    description: 'Removes trailing whitespace',
-    category: 'string',
-  },
-  {
-    name: 'REPLACE',
-    signature: 'REPLACE(string, from, to)',
-    description: 'Replaces occurrences of a substring',
-    category: 'string',
-  },
-  {
-    name: 'INSTR',
-    signature: 'INSTR(string, substring)',
-    description: 'Returns position of substring',
-    category: 'string',
-  },
-  {
-    name: 'PRINTF',
-    signature: 'PRINTF(format, ...args)',
-    description: 'Formats a string using printf-style format',
-    category: 'string',
-  },
-  {
-    name: 'CHAR',
-    signature: 'CHAR(code, ...)',
-    description: 'Returns character from Unicode code point',
-    category: 'string',
-  },
-  {
-    name: 'UNICODE',
-    signature: 'UNICODE(string)',
-    description: 'Returns Unicode code point of first character',
-    category: 'string',
-  },
-  {
-    name: 'HEX',
-    signature: 'HEX(value)',
-    description: 'Returns hexadecimal representation',
-    category: 'string',
-  },
-  {
-    name: 'QUOTE',
-    signature: 'QUOTE(value)',
-    description: 'Returns SQL literal representation',
-    category: 'string',
-  },
-  {
-    name: 'ZEROBLOB',
-    signature: 'ZEROBLOB(n)',
-    description: 'Returns a blob of N zero bytes',
-    category: 'string',
-  },
-
-  // Numeric Functions
-  {
-    name: 'ABS',
-    signature: 'ABS(number)',
-    description: 'Returns absolute value',
-    category: 'numeric',
-  },
-  {
-    name: 'ROUND',
-    signature: 'ROUND(number, digits)',
-    description: 'Rounds to specified decimal places',
-    category: 'numeric',
-  },
-  {
-    name: 'RANDOM',
-    signature: 'RANDOM()',
-    description: 'Returns a random integer',
-    category: 'numeric',
-  },
-  {
-    name: 'MAX',
-    signature: 'MAX(a, b, ...)',
-    description: 'Returns the maximum value',
-    category: 'numeric',
-  },
-  {
-    name: 'MIN',
-    signature: 'MIN(a, b, ...)',
-    description: 'Returns the minimum value',
-    category: 'numeric',
-  },
-
-  // Date/Time Functions
-  {
-    name: 'DATE',
-    signature: 'DATE(timestring, modifier, ...)',
-    description: 'Returns date in YYYY-MM-DD format',
-    category: 'datetime',
-  },
-  {
-    name: 'TIME',
-    signature: 'TIME(timestring, modifier, ...)',
-    description: 'Returns time in HH:MM:SS format',
-    category: 'datetime',
-  },
-  {
-    name: 'DATETIME',
-    signature: 'DATETIME(timestring, modifier, ...)',
-    description: 'Returns datetime in YYYY-MM-DD HH:MM:SS format',
-    category: 'datetime',
-  },
-  {
-    name: 'JULIANDAY',
-    signature: 'JULIANDAY(timestring, modifier, ...)',
-    description: 'Returns Julian day number',
-    category: 'datetime',
-  },
-  {
-    name: 'UNIXEPOCH',
-    signature: 'UNIXEPOCH(timestring, modifier, ...)',
-    description: 'Returns Unix timestamp',
-    category: 'datetime',
-  },
-  {
-    name: 'STRFTIME',
-    signature: 'STRFTIME(format, timestring, modifier, ...)',
-    description: 'Returns formatted date/time string',
-    category: 'datetime',
-  },
-
-  // Conditional Functions
-  {
-    name: 'COALESCE',
-    signature: 'COALESCE(value1, value2, ...)',
-    description: 'Returns first non-NULL value',
-    category: 'conditional',
-  },
-  {
-    name: 'NULLIF',
-    signature: 'NULLIF(value1, value2)',
-    description: 'Returns NULL if values are equal',
-    category: 'conditional',
-  },
-  {
-    name: 'IFNULL',
-    signature: 'IFNULL(value, default)',
-    description: 'Returns default if value is NULL',
-    category: 'conditional',
-  },
-  {
-    name: 'IIF',
-    signature: 'IIF(condition, true_value, false_value)',
-    description: 'Inline if-then-else',
-    category: 'conditional',
-  },
-  {
-    name: 'TYPEOF',
-    signature: 'TYPEOF(value)',
-    description: 'Returns the data type of value',
-    category: 'conditional',
-  },
-
-  // SQLite Specific
-  {
-    name: 'GLOB',
-    signature: 'GLOB(pattern, string)',
-    description: 'Pattern matching with glob syntax',
-    category: 'sqlite',
-  },
-  {
-    name: 'LIKE',
-    signature: 'LIKE(pattern, string, escape)',
-    description: 'Pattern matching with LIKE syntax',
-    category: 'sqlite',
-  },
-  {
-    name: 'LIKELIHOOD',
-    signature: 'LIKELIHOOD(value, probability)',
-    description: 'Provides hint about probability',
-    category: 'sqlite',
-  },
-  {
-    name: 'LIKELY',
-    signature: 'LIKELY(value)',
-    description: 'Hints that value is probably true',
-    category: 'sqlite',
-  },
-  {
-    name: 'UNLIKELY',
-    signature: 'UNLIKELY(value)',
-    description: 'Hints that value is probably false',
-    category: 'sqlite',
-  },
-  {
-    name: 'LAST_INSERT_ROWID',
-    signature: 'LAST_INSERT_ROWID()',
-    description: 'Returns last inserted rowid',
-    category: 'sqlite',
-  },
-  {
-    name: 'CHANGES',
-    signature: 'CHANGES()',
-    description: 'Returns number of rows changed',
-    category: 'sqlite',
-  },
-  {
-    name: 'TOTAL_CHANGES',
-    signature: 'TOTAL_CHANGES()',
-    description: 'Returns total rows changed since connection',
-    category: 'sqlite',
-  },
-  {
-    name: 'SQLITE_VERSION',
-    signature: 'SQLITE_VERSION()',
-    description: 'Returns SQLite version string',
-    category: 'sqlite',
-  },
-];
-
 /**
  * SQL snippets for common query patterns.
  * Note: The ${n:placeholder} syntax is Monaco Editor snippet syntax, not template literals.
@@ -770,7 +491,6 @@ const CONTEXT_KEYWORDS: Record<SqlContext, string[]> = {
     'CREATE TABLE',
     'DROP TABLE',
     'ALTER TABLE',
-    'PRAGMA',
     'EXPLAIN',
     'BEGIN',
     'COMMIT',
@@ -783,7 +503,8 @@ const CONTEXT_KEYWORDS: Record<SqlContext, string[]> = {
  */
 function analyzeSqlContext(
   model: Monaco.editor.ITextModel,
-  position: Monaco.Position
+  position: Monaco.Position,
+  catalog: SqlDialectCatalog
 ): SqlContextResult {
   const fullText = model.getValue();
   const offset = model.getOffsetAt(position);
@@ -796,8 +517,10 @@ function analyzeSqlContext(
   // Check for dot prefix (table.column pattern)
   const lineContent = model.getLineContent(position.lineNumber);
   const textBeforeOnLine = lineContent.substring(0, position.column - 1);
-  const dotMatch = textBeforeOnLine.match(/(\w+)\.\s*$/);
-  const dotPrefix = dotMatch ? dotMatch[1] : null;
+  const dotMatch = textBeforeOnLine.match(/(?:(\w+)\.)?(\w+)\.\s*$/);
+  const dotPrefix = dotMatch ? dotMatch[2] : null;
+  const dotSchema = dotMatch?.[1] ?? null;
+  const afterCast = /::\w*$/.test(textBeforeOnLine);
 
   // Parse state
   let inString = false;
@@ -831,7 +554,11 @@ function analyzeSqlContext(
     if (inBlockComment) continue;
 
     // Handle line comment
-    if (!inString && char === '-' && nextChar === '-') {
+    if (
+      !inString &&
+      ((char === '-' && nextChar === '-') ||
+        (catalog.hashComments && char === '#'))
+    ) {
       inComment = true;
       continue;
     }
@@ -850,6 +577,11 @@ function analyzeSqlContext(
       continue;
     }
 
+    if (inString && catalog.backslashEscapes && char === '\\') {
+      i++; // Skip escaped character
+      continue;
+    }
+
     if (inString && char === stringChar) {
       if (nextChar === stringChar) {
         i++; // Skip escaped quote
@@ -892,6 +624,8 @@ function analyzeSqlContext(
     context,
     tableRefs,
     dotPrefix,
+    dotSchema,
+    afterCast,
     currentWord,
     parenDepth,
     inString,
@@ -1026,11 +760,49 @@ function findCurrentClause(tokens: string[]): string | null {
  */
 const SQL_KEYWORDS_SET = new Set(SQL_KEYWORDS.map((k) => k.toUpperCase()));
 
+/**
+ * Keyword sets of the dialects, built on first use.
+ */
+const DIALECT_KEYWORD_SETS = new Map<SqlDialect, Set<string>>();
+
+/**
+ * Standard keywords plus each word of the dialect keywords, so that the
+ * formatter can match multi-word dialect keywords token by token.
+ */
+function getKeywordSet(catalog: SqlDialectCatalog): Set<string> {
+  let keywords = DIALECT_KEYWORD_SETS.get(catalog.dialect);
+  if (!keywords) {
+    keywords = new Set(SQL_KEYWORDS_SET);
+    for (const keyword of catalog.keywords) {
+      for (const word of keyword.split(' ')) {
+        keywords.add(word);
+      }
+    }
+    DIALECT_KEYWORD_SETS.set(catalog.dialect, keywords);
+  }
+  return keywords;
+}
+
+/**
+ * Dialect operators, longest first so that `->>` wins over `->`.
+ */
+function getOperatorsBySize(catalog: SqlDialectCatalog): SqlOperator[] {
+  return [...catalog.operators].sort(
+    (a, b) => b.symbol.length - a.symbol.length
+  );
+}
+
+// Opening delimiter of a PostgreSQL dollar-quoted string, e.g. $$ or $body$
+const DOLLAR_QUOTE = /\$(?:[A-Z_]\w*)?\$/iy;
+const POSITIONAL_PARAMETER = /\$\d+/y;
+
 /**
  * Tokenizes SQL string, preserving string literals and comments.
  */
-function tokenizeSql(sql: string): SqlToken[] {
+function tokenizeSql(sql: string, catalog: SqlDialectCatalog): SqlToken[] {
   const tokens: SqlToken[] = [];
+  const keywords = getKeywordSet(catalog);
+  const operators = getOperatorsBySize(catalog);
   let i = 0;
 
   while (i < sql.length) {
@@ -1048,8 +820,11 @@ function tokenizeSql(sql: string): SqlToken[] {
       continue;
     }
 
-    // Line comment --
-    if (char === '-' && nextChar === '-') {
+    // Line comment -- (or # in MySQL)
+    if (
+      (char === '-' && nextChar === '-') ||
+      (catalog.hashComments && char === '#')
+    ) {
       let comment = '';
       while (i < sql.length && sql[i] !== '\n') {
         comment += sql[i];
@@ -1081,6 +856,11 @@ function tokenizeSql(sql: string): SqlToken[] {
       let str = "'";
       i++;
       while (i < sql.length) {
+        if (catalog.backslashEscapes && sql[i] === '\\') {
+          str += sql.slice(i, i + 2);
+          i += 2;
+          continue;
+        }
         if (sql[i] === "'" && sql[i + 1] === "'") {
           str += "''";
           i += 2;
@@ -1098,6 +878,27 @@ function tokenizeSql(sql: string): SqlToken[] {
       continue;
     }
 
+    // Dollar-quoted string ($$ ... $$) or positional parameter ($1)
+    if (catalog.dollarQuotes && char === '$') {
+      DOLLAR_QUOTE.lastIndex = i;
+      const delimiter = DOLLAR_QUOTE.exec(sql)?.[0];
+      if (delimiter) {
+        const end = sql.indexOf(delimiter, i + delimiter.length);
+        const stop = end === -1 ? sql.length : end + delimiter.length;
+        const str = sql.slice(i, stop);
+        tokens.push({ type: 'string', value: str, original: str });
+        i = stop;
+        continue;
+      }
+      POSITIONAL_PARAMETER.lastIndex = i;
+      const param = POSITIONAL_PARAMETER.exec(sql)?.[0];
+      if (param) {
+        tokens.push({ type: 'identifier', value: param, original: param });
+        i += param.length;
+        continue;
+      }
+    }
+
     // Double-quoted identifier
     if (char === '"') {
       let str = '"';
@@ -1147,6 +948,18 @@ function tokenizeSql(sql: string): SqlToken[] {
       continue;
     }
 
+    // Dialect operators such as :: and ->>
+    const operator = operators.find((op) => sql.startsWith(op.symbol, i));
+    if (operator) {
+      tokens.push({
+        type: 'operator',
+        value: operator.symbol,
+        original: operator.symbol,
+      });
+      i += operator.symbol.length;
+      continue;
+    }
+
     // Operators and punctuation
     if (/[(),;*=<>!+\-/%]/.test(char)) {
       // Multi-character operators
@@ -1173,7 +986,7 @@ function tokenizeSql(sql: string): SqlToken[] {
       }
       const upperWord = word.toUpperCase();
       // Check if it's a keyword
-      if (SQL_KEYWORDS_SET.has(upperWord)) {
+      if (keywords.has(upperWord)) {
         tokens.push({ type: 'keyword', value: upperWord, original: word });
       } else {
         tokens.push({ type: 'identifier', value: word, original: word });
@@ -1205,17 +1018,28 @@ function tokenizeSql(sql: string): SqlToken[] {
  * - Indents JOIN clauses
  * - Handles multi-statement queries (separated by semicolons)
  * - Preserves string literals and comments
- * - Adds proper spacing around operators
+ * - Adds proper spacing around operators, except tight ones like `::`
  *
  * @param sql - The SQL string to format
+ * @param dialect - Dialect whose keywords, operators and quoting apply
  * @returns The formatted SQL string
  */
-export function formatSql(sql: string): string {
+export function formatSql(sql: string, dialect: SqlDialect = 'sqlite'): string {
   if (!sql || !sql.trim()) {
     return sql;
   }
 
-  const tokens = tokenizeSql(sql);
+  const catalog = getDialectCatalog(dialect);
+  const tokens = tokenizeSql(sql, catalog);
+  const functionNames = new Set(catalog.functions.map((f) => f.name));
+  const tightOperators = new Set(
+    catalog.operators.filter((op) => op.tight).map((op) => op.symbol)
+  );
+  // Multi-word dialect keywords, longest first, before the standard ones
+  const dialectCompounds = catalog.keywords
+    .filter((k) => k.includes(' '))
+    .map((k) => k.split(' '))
+    .sort((a, b) => b.length - a.length);
   const result: string[] = [];
   let indentLevel = 0;
   const indent = '  '; // 2 spaces
@@ -1230,6 +1054,7 @@ export function formatSql(sql: string): string {
     startIndex: number
   ): { keyword: string; length: number } | null {
     const compounds = [
+      ...dialectCompounds,
       ['ORDER', 'BY'],
       ['GROUP', 'BY'],
       ['INSERT', 'INTO'],
@@ -1284,6 +1109,13 @@ export function formatSql(sql: string): string {
     return null;
   }
 
+  function startsClause(keyword: string): boolean {
+    return (
+      NEWLINE_BEFORE_KEYWORDS.has(keyword) ||
+      catalog.clauseKeywords.includes(keyword)
+    );
+  }
+
   function addNewLine(): void {
     // Remove trailing whitespace
     while (result.length > 0 && result[result.length - 1] === ' ') {
@@ -1321,7 +1153,7 @@ export function formatSql(sql: string): string {
       }
       result.push(token.value);
 
-      if (token.value.startsWith('--')) {
+      if (token.value.startsWith('--') || token.value.startsWith('#')) {
         addNewLine();
       }
 
@@ -1338,7 +1170,7 @@ export function formatSql(sql: string): string {
         const upperKeyword = compound.keyword;
 
         // Handle newline before certain keywords
-        if (!isFirstToken && NEWLINE_BEFORE_KEYWORDS.has(upperKeyword)) {
+        if (!isFirstToken && startsClause(upperKeyword)) {
           // Reset indent for major clauses
           if (parenDepth === 0) {
             indentLevel = 0;
@@ -1367,7 +1199,7 @@ export function formatSql(sql: string): string {
       // Single keyword handling
       const upperKeyword = token.value;
 
-      if (!isFirstToken && NEWLINE_BEFORE_KEYWORDS.has(upperKeyword)) {
+      if (!isFirstToken && startsClause(upperKeyword)) {
         if (parenDepth === 0) {
           indentLevel = 0;
         }
@@ -1394,6 +1226,11 @@ export function formatSql(sql: string): string {
       if (token.value === '(') {
         parenDepth++;
         if (
+          prevNonWhitespaceToken?.type === 'identifier' &&
+          functionNames.has(prevNonWhitespaceToken.value.toUpperCase())
+        ) {
+          // No space before ( for calls of dialect functions
+        } else if (
           prevNonWhitespaceToken?.type === 'keyword' &&
           [
             'COUNT',
@@ -1461,6 +1298,14 @@ export function formatSql(sql: string): string {
 
     // Handle operators - add spaces around them
     if (token.type === 'operator') {
+      if (tightOperators.has(token.value)) {
+        result.push(token.value);
+        prevNonWhitespaceToken = token;
+        i++;
+        isFirstToken = false;
+        continue;
+      }
+
       addSpace();
       result.push(token.value);
 
@@ -1547,18 +1392,10 @@ const SQL_TYPOS: Record<string, string> = {
   HAIVNG: 'HAVING',
 };
 
-/**
- * Documentation entry for SQL keywords and functions.
- */
-export interface SqlDocEntry {
-  syntax: string;
-  description: string;
-  example?: string;
-}
-
 /**
  * Documentation for SQL keywords and functions used by the hover provider.
- * Includes standard SQL keywords, aggregate functions, and SQLite-specific commands.
+ * Includes standard SQL keywords and aggregate functions; the dialect
+ * catalogs document their own commands and functions.
  */
 export const SQL_DOCS: Record<string, SqlDocEntry> = {
   // Query Keywords
@@ -1954,39 +1791,125 @@ export const SQL_DOCS: Record<string, SqlDocEntry> = {
       'Removes a savepoint, making it no longer available for rollback.',
     example: 'RELEASE SAVEPOINT my_savepoint',
   },
-
-  // SQLite-specific Commands
-  PRAGMA: {
-    syntax: 'PRAGMA pragma_name [= value]',
-    description:
-      'SQLite-specific command to query or modify database settings and metadata.',
-    example: 'PRAGMA table_info(users)',
-  },
-  VACUUM: {
-    syntax: 'VACUUM',
-    description:
-      'Rebuilds the database file, reclaiming unused space and defragmenting.',
-    example: 'VACUUM',
-  },
-  ATTACH: {
-    syntax: 'ATTACH DATABASE filename AS schema_name',
-    description: 'Attaches another database file to the current connection.',
-    example: "ATTACH DATABASE 'archive.db' AS archive",
-  },
-  DETACH: {
-    syntax: 'DETACH DATABASE schema_name',
-    description:
-      'Detaches a previously attached database from the current connection.',
-    example: 'DETACH DATABASE archive',
-  },
-  EXPLAIN: {
-    syntax: 'EXPLAIN [QUERY PLAN] statement',
-    description:
-      'Shows how SQLite will execute a query. QUERY PLAN shows the high-level strategy.',
-    example: 'EXPLAIN QUERY PLAN SELECT * FROM users WHERE id = 1',
-  },
 };
 
+/**
+ * Blanks out comments and the contents of strings and quoted identifiers,
+ * keeping line breaks and quote characters so positions still line up.
+ */
+function maskSqlLiterals(sql: string, catalog: SqlDialectCatalog): string {
+  const chars = sql.split('');
+  const blank = (from: number, to: number): void => {
+    for (let k = from; k < to; k++) {
+      if (chars[k] !== '\n') chars[k] = ' ';
+    }
+  };
+
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (sql.startsWith('--', i) || (catalog.hashComments && char === '#')) {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (catalog.dollarQuotes && char === '$') {
+      DOLLAR_QUOTE.lastIndex = i;
+      const delimiter = DOLLAR_QUOTE.exec(sql)?.[0];
+      if (delimiter) {
+        const end = sql.indexOf(delimiter, i + delimiter.length);
+        const stop = end === -1 ? sql.length : end + delimiter.length;
+        blank(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (catalog.backslashEscapes && char !== '`' && sql[j] === '\\') {
+          j += 2;
+        } else if (sql[j] === char && sql[j + 1] === char) {
+          j += 2;
+        } else if (sql[j] === char) {
+          break;
+        } else {
+          j++;
+        }
+      }
+      blank(i + 1, Math.min(j, sql.length));
+      i = j + 1;
+      continue;
+    }
+
+    i++;
+  }
+
+  return chars.join('');
+}
+
+/**
+ * Warns about syntax of other dialects, e.g. ILIKE on MySQL or PRAGMA on
+ * PostgreSQL. Strings and comments are ignored.
+ */
+function findForeignSyntax(
+  sql: string,
+  catalog: SqlDialectCatalog
+): SqlValidationError[] {
+  const warnings: SqlValidationError[] = [];
+  const entries = Object.entries(catalog.foreignSyntax);
+  if (entries.length === 0) {
+    return warnings;
+  }
+
+  const symbols = entries.filter(([key]) => !/^\w+$/.test(key));
+  const lines = maskSqlLiterals(sql, catalog).split('\n');
+
+  lines.forEach((line, lineIdx) => {
+    const lineNumber = lineIdx + 1;
+    const warn = (index: number, length: number, message: string): void => {
+      warnings.push({
+        startLineNumber: lineNumber,
+        startColumn: index + 1,
+        endLineNumber: lineNumber,
+        endColumn: index + 1 + length,
+        message,
+        severity: 'warning',
+      });
+    };
+
+    for (const match of line.matchAll(/\b[A-Z_]\w*\b/gi)) {
+      const message = catalog.foreignSyntax[match[0].toUpperCase()];
+      if (message) {
+        warn(match.index, match[0].length, message);
+      }
+    }
+
+    for (const [symbol, message] of symbols) {
+      let index = line.indexOf(symbol);
+      while (index !== -1) {
+        warn(index, symbol.length, message);
+        index = line.indexOf(symbol, index + symbol.length);
+      }
+    }
+  });
+
+  return warnings;
+}
+
 /**
  * Validates SQL syntax and returns array of validation errors.
  * This is a lightweight validation for common issues, not a full SQL parser.
@@ -1994,13 +1917,18 @@ export const SQL_DOCS: Record<string, SqlDocEntry> = {
  * Checks for:
  * - Empty/whitespace-only input (no errors)
  * - Unclosed parentheses
- * - Unclosed string quotes (single and double)
+ * - Unclosed string quotes (single, double, backtick and dollar quotes)
  * - Common SQL keyword typos
+ * - Syntax of other dialects, such as ILIKE outside PostgreSQL
  *
  * @param sql - The SQL string to validate
+ * @param dialect - Dialect whose comments, escapes and syntax apply
  * @returns Array of validation errors in Monaco marker format
  */
-export function validateSql(sql: string): SqlValidationError[] {
+export function validateSql(
+  sql: string,
+  dialect: SqlDialect = 'sqlite'
+): SqlValidationError[] {
   const errors: SqlValidationError[] = [];
 
   // Return empty array for empty/whitespace-only input
@@ -2008,6 +1936,7 @@ export function validateSql(sql: string): SqlValidationError[] {
     return errors;
   }
 
+  const catalog = getDialectCatalog(dialect);
   const lines = sql.split('\n');
 
   // Track parentheses and quotes state
@@ -2017,6 +1946,10 @@ export function validateSql(sql: string): SqlValidationError[] {
   let singleQuoteStart: { line: number; col: number } | null = null;
   let inDoubleQuote = false;
   let doubleQuoteStart: { line: number; col: number } | null = null;
+  let inBacktick = false;
+  let backtickStart: { line: number; col: number } | null = null;
+  let dollarQuote: string | null = null;
+  let dollarQuoteStart: { line: number; col: number } | null = null;
   let inLineComment = false;
   let inBlockComment = false;
 
@@ -2031,6 +1964,25 @@ export function validateSql(sql: string): SqlValidationError[] {
       const nextChar = line[colIdx + 1];
       const column = colIdx + 1; // Monaco uses 1-based column numbers
 
+      // Skip to the end of a dollar-quoted string
+      if (dollarQuote) {
+        if (line.startsWith(dollarQuote, colIdx)) {
+          colIdx += dollarQuote.length - 1;
+          dollarQuote = null;
+          dollarQuoteStart = null;
+        }
+        continue;
+      }
+
+      // Skip to the end of a backtick-quoted identifier
+      if (inBacktick) {
+        if (char === '`') {
+          inBacktick = false;
+          backtickStart = null;
+        }
+        continue;
+      }
+
       // Handle block comment start
       if (
         !inSingleQuote &&
@@ -2056,12 +2008,12 @@ export function validateSql(sql: string): SqlValidationError[] {
         continue;
       }
 
-      // Handle line comment start
+      // Handle line comment start (-- everywhere, # in MySQL)
       if (
         !inSingleQuote &&
         !inDoubleQuote &&
-        char === '-' &&
-        nextChar === '-'
+        ((char === '-' && nextChar === '-') ||
+          (catalog.hashComments && char === '#'))
       ) {
         inLineComment = true;
         break; // Rest of line is comment
@@ -2072,6 +2024,16 @@ export function validateSql(sql: string): SqlValidationError[] {
         continue;
       }
 
+      // Skip backslash-escaped characters inside strings
+      if (
+        catalog.backslashEscapes &&
+        (inSingleQuote || inDoubleQuote) &&
+        char === '\\'
+      ) {
+        colIdx++;
+        continue;
+      }
+
       // Handle single quotes
       if (char === "'" && !inDoubleQuote) {
         // Check for escaped quote ('')
@@ -2111,6 +2073,25 @@ export function validateSql(sql: string): SqlValidationError[] {
         continue;
       }
 
+      // Handle backtick-quoted identifiers
+      if (char === '`') {
+        inBacktick = true;
+        backtickStart = { line: lineNumber, col: column };
+        continue;
+      }
+
+      // Handle dollar-quoted strings
+      if (catalog.dollarQuotes && char === '$') {
+        DOLLAR_QUOTE.lastIndex = colIdx;
+        const delimiter = DOLLAR_QUOTE.exec(line)?.[0];
+        if (delimiter) {
+          dollarQuote = delimiter;
+          dollarQuoteStart = { line: lineNumber, col: column };
+          colIdx += delimiter.length - 1;
+          continue;
+        }
+      }
+
       // Handle parentheses
       if (char === '(') {
         parenDepth++;
@@ -2157,6 +2138,28 @@ export function validateSql(sql: string): SqlValidationError[] {
     });
   }
 
+  if (inBacktick && backtickStart) {
+    errors.push({
+      startLineNumber: backtickStart.line,
+      startColumn: backtickStart.col,
+      endLineNumber: backtickStart.line,
+      endColumn: backtickStart.col + 1,
+      message: 'Unclosed quoted identifier (backtick)',
+      severity: 'error',
+    });
+  }
+
+  if (dollarQuote && dollarQuoteStart) {
+    errors.push({
+      startLineNumber: dollarQuoteStart.line,
+      startColumn: dollarQuoteStart.col,
+      endLineNumber: dollarQuoteStart.line,
+      endColumn: dollarQuoteStart.col + dollarQuote.length,
+      message: `Unclosed dollar-quoted string (${dollarQuote})`,
+      severity: 'error',
+    });
+  }
+
   // Check for unclosed block comment
   if (inBlockComment) {
     errors.push({
@@ -2217,26 +2220,92 @@ export function validateSql(sql: string): SqlValidationError[] {
     }
   }
 
+  errors.push(...findForeignSyntax(sql, catalog));
+
   return errors;
 }
 
+/**
+ * Looks up the documentation of a keyword or function, preferring the
+ * dialect's own wording over the standard SQL entry.
+ */
+function getSqlDoc(
+  keyword: string,
+  catalog: SqlDialectCatalog
+): SqlDocEntry | undefined {
+  const doc = catalog.docs[keyword] ?? SQL_DOCS[keyword];
+  if (doc) {
+    return doc;
+  }
+  const func = catalog.functions.find((f) => f.name === keyword);
+  return func
+    ? { syntax: func.signature, description: `${func.description}.` }
+    : undefined;
+}
+
+/**
+ * Finds the dialect operator under a 1-based column of a line.
+ */
+function findOperatorAt(
+  lineContent: string,
+  column: number,
+  catalog: SqlDialectCatalog
+): { operator: SqlOperator; startColumn: number } | null {
+  const offset = column - 1;
+  for (const operator of getOperatorsBySize(catalog)) {
+    const from = Math.max(0, offset - operator.symbol.length + 1);
+    const index = lineContent.indexOf(operator.symbol, from);
+    if (index !== -1 && index <= offset) {
+      return { operator, startColumn: index + 1 };
+    }
+  }
+  return null;
+}
+
 /**
  * Creates a SQL hover provider that shows documentation for SQL keywords and functions.
- * When hovering over a keyword, displays syntax, description, and example from SQL_DOCS.
+ * When hovering over a keyword, displays syntax, description, and example from SQL_DOCS
+ * or the dialect catalog.
  *
  * Features:
  * - Case-insensitive keyword matching
  * - Supports compound keywords (e.g., "LEFT JOIN", "ORDER BY", "IS NOT NULL")
+ * - Documents dialect functions and operators such as `->>` and `::`
  * - Formatted markdown output with syntax highlighting
  */
 export function createSqlHoverProvider(
-  _monaco: typeof Monaco
+  _monaco: typeof Monaco,
+  dialect: SqlDialect = 'sqlite'
 ): Monaco.languages.HoverProvider {
+  const catalog = getDialectCatalog(dialect);
+
   return {
     provideHover: (model, position) => {
       const word = model.getWordAtPosition(position);
       if (!word) {
-        return null;
+        const found = findOperatorAt(
+          model.getLineContent(position.lineNumber),
+          position.column,
+          catalog
+        );
+        if (!found) {
+          return null;
+        }
+        const { operator, startColumn } = found;
+        return {
+          contents: [
+            formatHoverContent(operator.symbol, {
+              syntax: operator.example,
+              description: operator.description,
+            }),
+          ],
+          range: {
+            startLineNumber: position.lineNumber,
+            startColumn,
+            endLineNumber: position.lineNumber,
+            endColumn: startColumn + operator.symbol.length,
+          },
+        };
       }
 
       const lineContent = model.getLineContent(position.lineNumber);
@@ -2267,7 +2336,8 @@ export function createSqlHoverProvider(
         'IS NOT NULL',
         'PRIMARY KEY',
         'FOREIGN KEY',
-      ];
+        ...catalog.keywords.filter((k) => k.includes(' ')),
+      ].filter((compound) => getSqlDoc(compound, catalog));
 
       // Get text after the word to check for compound keywords
       const textAfterWord = lineContent.substring(wordEnd).trim();
@@ -2312,7 +2382,9 @@ export function createSqlHoverProvider(
               const startOffset = textBeforeWord.length - match[0].length;
               // We'll use a range that covers the full compound keyword
               return {
-                contents: [formatHoverContent(compound)],
+                contents: [
+                  formatHoverContent(compound, getSqlDoc(compound, catalog)),
+                ],
                 range: {
                   startLineNumber: position.lineNumber,
                   startColumn: startOffset + 1,
@@ -2327,14 +2399,14 @@ export function createSqlHoverProvider(
 
       // If we found a compound keyword, use it
       const lookupKey = matchedKeyword || upperWord;
-      const docEntry = SQL_DOCS[lookupKey];
+      const docEntry = getSqlDoc(lookupKey, catalog);
 
       if (!docEntry) {
         return null;
       }
 
       return {
-        contents: [formatHoverContent(lookupKey)],
+        contents: [formatHoverContent(lookupKey, docEntry)],
         range: {
           startLineNumber: position.lineNumber,
           startColumn: word.startColumn,
@@ -2349,8 +2421,10 @@ export function createSqlHoverProvider(
 /**
  * Formats the hover content for a SQL keyword with markdown.
  */
-function formatHoverContent(keyword: string): Monaco.IMarkdownString {
-  const doc = SQL_DOCS[keyword];
+function formatHoverContent(
+  keyword: string,
+  doc: SqlDocEntry | undefined
+): Monaco.IMarkdownString {
   if (!doc) {
     return { value: '' };
   }
@@ -2392,9 +2466,13 @@ function formatHoverContent(keyword: string): Monaco.IMarkdownString {
  * 3. Dispose when done: validator.dispose()
  *
  * @param monaco - The Monaco editor instance
+ * @param dialect - Dialect the SQL is validated against
  * @returns Object with validate and dispose methods
  */
-export function createSqlValidator(monaco: typeof Monaco): {
+export function createSqlValidator(
+  monaco: typeof Monaco,
+  dialect: SqlDialect = 'sqlite'
+): {
   validate: (model: Monaco.editor.ITextModel) => void;
   dispose: () => void;
 } {
@@ -2425,7 +2503,7 @@ export function createSqlValidator(monaco: typeof Monaco): {
    */
   function doValidate(model: Monaco.editor.ITextModel): void {
     const sql = model.getValue();
-    const errors = validateSql(sql);
+    const errors = validateSql(sql, dialect);
 
     // Convert to Monaco marker format
     const markers: Monaco.editor.IMarkerData[] = errors.map((error) => ({
@@ -2485,19 +2563,27 @@ export function createSqlValidator(monaco: typeof Monaco): {
  *
  * Context-aware features:
  * - After typing "table." or "alias.", only suggests columns from that table
+ * - After typing "schema.", suggests that schema's tables and views, and
+ *   after "schema.table.", that table's columns
  * - After FROM/JOIN, suggests table names with higher priority
  * - In WHERE/SELECT with tables in scope, prioritizes in-scope columns
  * - Suggests appropriate keywords based on SQL context (SELECT, FROM, WHERE, etc.)
- * - Provides SQL functions with signatures and documentation
+ * - Provides the dialect's SQL functions with signatures and documentation
+ * - After a PostgreSQL "::" cast, suggests type names
  * - Includes code snippets for common SQL patterns
  */
 export function createSqlCompletionProvider(
   monaco: typeof Monaco,
-  schema: DatabaseSchema | null
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
 ): Monaco.languages.CompletionItemProvider {
+  const catalog = getDialectCatalog(dialect);
+  const hasCasts = catalog.castTypes.length > 0;
+
   return {
-    triggerCharacters: ['.', ' '], // Trigger on dot and space
-    provideCompletionItems: (model, position) => {
+    // Trigger on dot and space, and on colon for :: casts
+    triggerCharacters: hasCasts ? ['.', ' ', ':'] : ['.', ' '],
+    provideCompletionItems: (model, position, completionContext) => {
       const word = model.getWordUntilPosition(position);
       const range = {
         startLineNumber: position.lineNumber,
@@ -2507,7 +2593,7 @@ export function createSqlCompletionProvider(
       };
 
       // Analyze SQL context
-      const ctx = analyzeSqlContext(model, position);
+      const ctx = analyzeSqlContext(model, position, catalog);
 
       // Don't provide suggestions inside strings or comments
       if (ctx.inString || ctx.inComment) {
@@ -2516,13 +2602,39 @@ export function createSqlCompletionProvider(
 
       const suggestions: Monaco.languages.CompletionItem[] = [];
 
-      // Case 1: Typing after "table." or "alias." - only show that table's columns
+      // Typing a type after "::" - only show cast types
+      if (hasCasts && ctx.afterCast) {
+        addCastTypeSuggestions(monaco, suggestions, catalog, range);
+        return { suggestions };
+      }
+
+      // A single colon is not a cast
+      if (completionContext.triggerCharacter === ':') {
+        return { suggestions: [] };
+      }
+
+      const { ctes, sources } = getSqlStatementSymbols(
+        model.getValue(),
+        model.getOffsetAt(position),
+        dialect
+      );
+
+      if (ctx.dotPrefix && !ctx.dotSchema) {
+        // Case 1: Typing after "cte." or the alias of a CTE - only show the
+        // CTE's columns
+        const cte = findCteFromPrefix(ctx.dotPrefix, ctes, sources);
+        if (cte) {
+          addCteColumnSuggestions(monaco, suggestions, cte, range);
+          return { suggestions };
+        }
+      }
+
       if (ctx.dotPrefix && schema) {
-        const targetTable = resolveTableFromPrefix(
-          ctx.dotPrefix,
-          ctx.tableRefs,
-          schema
-        );
+        // Case 2: Typing after "table.", "alias." or "schema.table." - only
+        // show that table's columns
+        const targetTable = ctx.dotSchema
+          ? findTable(schema, ctx.dotPrefix, ctx.dotSchema)
+          : resolveTableFromPrefix(ctx.dotPrefix, ctx.tableRefs, schema);
         if (targetTable) {
           addTableColumnSuggestions(
             monaco,
@@ -2533,10 +2645,29 @@ export function createSqlCompletionProvider(
           );
           return { suggestions };
         }
+
+        // Case 3: Typing after "schema." - only show that schema's tables
+        const lowerPrefix = ctx.dotPrefix.toLowerCase();
+        const targetSchema = ctx.dotSchema
+          ? undefined
+          : schema.schemas.find((s) => s.name.toLowerCase() === lowerPrefix);
+        if (targetSchema) {
+          addTableSuggestions(
+            monaco,
+            suggestions,
+            targetSchema,
+            range,
+            ctx.context
+          );
+          return { suggestions };
+        }
       }
 
-      // Case 2: Context-aware suggestions
-      const contextKeywords = CONTEXT_KEYWORDS[ctx.context] || [];
+      // Case 4: Context-aware suggestions
+      const contextKeywords = [
+        ...(CONTEXT_KEYWORDS[ctx.context] || []),
+        ...(ctx.context === 'GENERAL' ? catalog.statements : []),
+      ];
 
       // Add context-specific keywords with highest priority
       contextKeywords.forEach((keyword, index) => {
@@ -2553,11 +2684,33 @@ export function createSqlCompletionProvider(
 
       // Add SQL functions in appropriate contexts
       if (shouldSuggestFunctions(ctx.context)) {
-        addFunctionSuggestions(monaco, suggestions, range, ctx.context);
+        addFunctionSuggestions(
+          monaco,
+          suggestions,
+          catalog,
+          range,
+          ctx.context
+        );
+      }
+
+      // Add CTE names in FROM/JOIN contexts and columns of CTEs in scope
+      if (shouldSuggestTables(ctx.context)) {
+        addCteSuggestions(monaco, suggestions, ctes, range);
+      }
+      if (shouldSuggestColumns(ctx.context)) {
+        sources.forEach((source) => {
+          if (source.cte) {
+            addCteColumnSuggestions(monaco, suggestions, source.cte, range);
+          }
+        });
       }
 
-      // Add table names in FROM/JOIN contexts
+      // Add schema and table names in FROM/JOIN contexts
       if (schema && shouldSuggestTables(ctx.context)) {
+        // SQLite only has schemas for attached databases
+        if (dialect !== 'sqlite' || schema.schemas.length > 1) {
+          addSchemaSuggestions(monaco, suggestions, schema, range);
+        }
         addTableSuggestions(monaco, suggestions, schema, range, ctx.context);
       }
 
@@ -2567,7 +2720,7 @@ export function createSqlCompletionProvider(
       }
 
       // Add general SQL keywords
-      addKeywordSuggestions(monaco, suggestions, range, ctx);
+      addKeywordSuggestions(monaco, suggestions, catalog, range, ctx);
 
       // Add snippets in GENERAL context or at start of line
       if (ctx.context === 'GENERAL' || ctx.previousToken === null) {
@@ -2630,6 +2783,7 @@ function shouldSuggestColumns(context: SqlContext): boolean {
 function addFunctionSuggestions(
   monaco: typeof Monaco,
   suggestions: Monaco.languages.CompletionItem[],
+  catalog: SqlDialectCatalog,
   range: Monaco.IRange,
   context: SqlContext
 ): void {
@@ -2637,7 +2791,7 @@ function addFunctionSuggestions(
   const isAggregateContext =
     context === 'HAVING' || context === 'SELECT_COLUMNS';
 
-  SQL_FUNCTIONS.forEach((func) => {
+  catalog.functions.forEach((func) => {
     const isAggregate = func.category === 'aggregate';
     const priority = isAggregateContext && isAggregate ? '01' : '05';
 
@@ -2664,7 +2818,7 @@ function addFunctionSuggestions(
 function addTableSuggestions(
   monaco: typeof Monaco,
   suggestions: Monaco.languages.CompletionItem[],
-  schema: DatabaseSchema,
+  schema: Pick<DatabaseSchema, 'tables' | 'views'>,
   range: Monaco.IRange,
   context: SqlContext
 ): void {
@@ -2738,6 +2892,119 @@ function addTableSuggestions(
   });
 }
 
+/**
+ * Adds schema (MySQL database) name suggestions for qualified table names.
+ */
+function addSchemaSuggestions(
+  monaco: typeof Monaco,
+  suggestions: Monaco.languages.CompletionItem[],
+  schema: DatabaseSchema,
+  range: Monaco.IRange
+): void {
+  schema.schemas.forEach((schemaInfo) => {
+    suggestions.push({
+      label: schemaInfo.name,
+      kind: monaco.languages.CompletionItemKind.Module,
+      insertText: schemaInfo.name,
+      detail: `Schema (${schemaInfo.tables.length} tables)`,
+      filterText: schemaInfo.name.toLowerCase(),
+      range,
+      sortText: `02_${schemaInfo.name}`,
+    });
+  });
+}
+
+/**
+ * Finds the CTE named by a prefix, directly or through an alias.
+ */
+function findCteFromPrefix(
+  prefix: string,
+  ctes: SqlCte[],
+  sources: SqlSource[]
+): SqlCte | null {
+  const lowerPrefix = prefix.toLowerCase();
+  const aliased = sources.find(
+    (s) => s.alias?.name.toLowerCase() === lowerPrefix
+  );
+  if (aliased) {
+    return aliased.cte ?? null;
+  }
+  return ctes.find((c) => c.name.toLowerCase() === lowerPrefix) ?? null;
+}
+
+/**
+ * Adds suggestions for the CTEs declared by the statement's WITH clauses.
+ */
+function addCteSuggestions(
+  monaco: typeof Monaco,
+  suggestions: Monaco.languages.CompletionItem[],
+  ctes: SqlCte[],
+  range: Monaco.IRange
+): void {
+  ctes.forEach((cte) => {
+    suggestions.push({
+      label: cte.name,
+      kind: monaco.languages.CompletionItemKind.Struct,
+      insertText: cte.name,
+      detail: `CTE (${cte.columns.length} columns)`,
+      documentation: {
+        value: [
+          `**${cte.name}**`,
+          '',
+          `*Columns:* ${cte.columns.map((c) => c.name).join(', ') || '-'}`,
+        ].join('\n'),
+      },
+      filterText: cte.name.toLowerCase(),
+      range,
+      sortText: `01_${cte.name}`,
+    });
+  });
+}
+
+/**
+ * Adds column suggestions for a CTE.
+ */
+function addCteColumnSuggestions(
+  monaco: typeof Monaco,
+  suggestions: Monaco.languages.CompletionItem[],
+  cte: SqlCte,
+  range: Monaco.IRange
+): void {
+  cte.columns.forEach((column, index) => {
+    suggestions.push({
+      label: column.name,
+      kind: monaco.languages.CompletionItemKind.Field,
+      insertText: column.name,
+      detail: `${cte.name} (CTE)`,
+      filterText: column.name.toLowerCase(),
+      range,
+      sortText: `01_${String(index).padStart(3, '0')}_${column.name}`,
+    });
+  });
+}
+
+/**
+ * Adds type name suggestions after a `::` cast.
+ */
+function addCastTypeSuggestions(
+  monaco: typeof Monaco,
+  suggestions: Monaco.languages.CompletionItem[],
+  catalog: SqlDialectCatalog,
+  range: Monaco.IRange
+): void {
+  catalog.castTypes.forEach((type, index) => {
+    suggestions.push({
+      label: type,
+      kind: monaco.languages.CompletionItemKind.TypeParameter,
+      insertText: type,
+      detail: `${catalog.label} type`,
+      filterText: type,
+      range,
+      sortText: `01_${String(index).padStart(3, '0')}_${type}`,
+    });
+  });
+}
+
 /**
  * Adds column suggestions based on context and scope.
  */
@@ -2838,6 +3105,7 @@ function addTableColumnSuggestions(
 function addKeywordSuggestions(
   monaco: typeof Monaco,
   suggestions: Monaco.languages.CompletionItem[],
+  catalog: SqlDialectCatalog,
   range: Monaco.IRange,
   _ctx: SqlContextResult
 ): void {
@@ -2848,7 +3116,7 @@ function addKeywordSuggestions(
     )
   );
 
-  SQL_KEYWORDS.forEach((keyword) => {
+  [...SQL_KEYWORDS, ...catalog.keywords].forEach((keyword) => {
     if (!addedLabels.has(keyword)) {
       suggestions.push({
         label: keyword,
@@ -2895,6 +3163,242 @@ function addSnippetSuggestions(
   });
 }
 
+/**
+ * URI scheme of definitions that point into the database schema rather
+ * than the editor's text. The editor opens them in the schema details panel.
+ */
+export const SCHEMA_OBJECT_SCHEME = 'sqlpro-schema';
+
+/**
+ * Table or column targeted by a schema definition.
+ */
+export interface SchemaObjectTarget {
+  table: string;
+  schema?: string;
+  column?: string;
+}
+
+function schemaObjectUri(
+  monaco: typeof Monaco,
+  target: SchemaObjectTarget
+): Monaco.Uri {
+  const query = new URLSearchParams();
+  if (target.schema) query.set('schema', target.schema);
+  if (target.column) query.set('column', target.column);
+  return monaco.Uri.from({
+    scheme: SCHEMA_OBJECT_SCHEME,
+    path: `/${target.table}`,
+    query: query.toString(),
+  });
+}
+
+/**
+ * Reads the table and column of a schema definition URI.
+ */
+export function parseSchemaObjectUri(
+  uri: Monaco.Uri
+): SchemaObjectTarget | null {
+  if (uri.scheme !== SCHEMA_OBJECT_SCHEME) {
+    return null;
+  }
+  const query = new URLSearchParams(uri.query);
+  return {
+    table: uri.path.replace(/^\//, ''),
+    schema: query.get('schema') ?? undefined,
+    column: query.get('column') ?? undefined,
+  };
+}
+
+/**
+ * Keeps a read-only model with the table's DDL at its schema URI, so that
+ * Ctrl+hover can preview the definition. Returns the line of the column.
+ */
+function syncSchemaObjectModel(
+  monaco: typeof Monaco,
+  uri: Monaco.Uri,
+  table: TableSchema,
+  column?: string
+): number {
+  const ddl =
+    table.sql ||
+    [
+      `CREATE ${table.type === 'view' ? 'VIEW' : 'TABLE'} ${table.name} (`,
+      table.columns.map((c) => `  ${c.name} ${c.type}`).join(',\n'),
+      ')',
+    ].join('\n');
+
+  const model =
+    monaco.editor.getModel(uri) ?? monaco.editor.createModel(ddl, 'sql', uri);
+  if (model.getValue() !== ddl) {
+    model.setValue(ddl);
+  }
+
+  if (!column) return 1;
+  const lowerColumn = column.toLowerCase();
+  const index = ddl.split('\n').findIndex((line) =>
+    line
+      .toLowerCase()
+      .split(/[^\w$]+/)
+      .includes(lowerColumn)
+  );
+  return index === -1 ? 1 : index + 1;
+}
+
+function spanToRange(
+  model: Monaco.editor.ITextModel,
+  span: SqlSpan
+): Monaco.IRange {
+  const start = model.getPositionAt(span.start);
+  const end = model.getPositionAt(span.end);
+  return {
+    startLineNumber: start.lineNumber,
+    startColumn: start.column,
+    endLineNumber: end.lineNumber,
+    endColumn: end.column,
+  };
+}
+
+/**
+ * Creates a SQL definition provider (F12 / Ctrl+click).
+ * Aliases, CTEs and CTE columns jump to their declaration in the statement;
+ * tables and columns point to a schema URI that the editor reveals in the
+ * schema details panel.
+ */
+export function createSqlDefinitionProvider(
+  monaco: typeof Monaco,
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
+): Monaco.languages.DefinitionProvider {
+  return {
+    provideDefinition: (model, position) => {
+      const occurrence = resolveSqlSymbol(
+        model.getValue(),
+        model.getOffsetAt(position),
+        schema,
+        dialect
+      );
+      if (!occurrence) {
+        return null;
+      }
+
+      const { symbol, span } = occurrence;
+      const originSelectionRange = spanToRange(model, span);
+      if (isLocalSqlSymbol(symbol)) {
+        return {
+          uri: model.uri,
+          range: spanToRange(model, symbol.declaration),
+          originSelectionRange,
+        };
+      }
+      const table = schema?.tables
+        .concat(schema.views)
+        .find((t) => t.name === symbol.table && t.schema === symbol.schema);
+      if (!table) {
+        return null;
+      }
+
+      const column = symbol.kind === 'column' ? symbol.column : undefined;
+      const uri = schemaObjectUri(monaco, {
+        table: table.name,
+        schema: table.schema,
+        column,
+      });
+      const line = syncSchemaObjectModel(monaco, uri, table, column);
+      return {
+        uri,
+        range: {
+          startLineNumber: line,
+          startColumn: 1,
+          endLineNumber: line,
+          endColumn: 1,
+        },
+        originSelectionRange,
+      };
+    },
+  };
+}
+
+/**
+ * Creates a SQL reference provider (Shift+F12) for aliases, CTEs, CTE
+ * columns, tables and columns.
+ */
+export function createSqlReferenceProvider(
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
+): Monaco.languages.ReferenceProvider {
+  return {
+    provideReferences: (model, position) =>
+      findSqlReferences(
+        model.getValue(),
+        model.getOffsetAt(position),
+        schema,
+        dialect
+      ).map(({ span }) => ({
+        uri: model.uri,
+        range: spanToRange(model, span),
+      })),
+  };
+}
+
+/**
+ * Creates a SQL rename provider (F2) for aliases, CTEs and CTE columns.
+ * Every usage in the statement is renamed; tables and columns of the
+ * database are rejected.
+ */
+export function createSqlRenameProvider(
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
+): Monaco.languages.RenameProvider {
+  return {
+    provideRenameEdits: (model, position, newName) => {
+      const result = renameSqlSymbol(
+        model.getValue(),
+        model.getOffsetAt(position),
+        newName,
+        schema,
+        dialect
+      );
+      if ('rejectReason' in result) {
+        return { edits: [], rejectReason: result.rejectReason };
+      }
+      const versionId = model.getVersionId();
+      return {
+        edits: result.edits.map(({ span, text }) => ({
+          resource: model.uri,
+          versionId,
+          textEdit: { range: spanToRange(model, span), text },
+        })),
+      };
+    },
+    resolveRenameLocation: (model, position) => {
+      const occurrence = resolveSqlSymbol(
+        model.getValue(),
+        model.getOffsetAt(position),
+        schema,
+        dialect
+      );
+      if (!occurrence || !isLocalSqlSymbol(occurrence.symbol)) {
+        return {
+          range: {
+            startLineNumber: position.lineNumber,
+            startColumn: position.column,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          },
+          text: '',
+          rejectReason: 'Only aliases, CTEs and CTE columns can be renamed',
+        };
+      }
+      return {
+        range: spanToRange(model, occurrence.span),
+        text: model
+          .getValue()
+          .slice(occurrence.span.start, occurrence.span.end),
+      };
+    },
+  };
+}
+
 /**
  * Defines custom themes for Monaco Editor that match the application's light/dark theme.
  * (US2: Theme-Aware Editor, US3: SQL Syntax Highlighting)
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getHistoryConnectionLabel,
+  getHistoryDateFrom,
+  getResultRowCount,
+} from './query-history';
+
+describe('query-history', () => {
+  describe('getHistoryDateFrom', () => {
+    const now = new Date(2026, 2, 10, 15, 30);
+
+    it('should start ranges at local midnight, today included', () => {
+      expect(getHistoryDateFrom('any', now)).toBeUndefined();
+      expect(getHistoryDateFrom('today', now)).toBe(
+        new Date(2026, 2, 10).toISOString()
+      );
+      expect(getHistoryDateFrom('7d', now)).toBe(
+        new Date(2026, 2, 4).toISOString()
+      );
+      expect(getHistoryDateFrom('30d', now)).toBe(
+        new Date(2026, 1, 9).toISOString()
+      );
+    });
+  });
+
+  describe('getResultRowCount', () => {
+    it('should count returned rows across result sets', () => {
+      expect(
+        getResultRowCount({
+          columns: ['a'],
+          rows: [{ a: 1 }],
+          rowsAffected: 0,
+          resultSets: [
+            { columns: ['a'], rows: [{ a: 1 }] },
+            { columns: ['b'], rows: [{ b: 1 }, { b: 2 }] },
+          ],
+        })
+      ).toBe(3);
+    });
+
+    it('should fall back to changed rows without a result set', () => {
+      expect(
+        getResultRowCount({ columns: [], rows: [], rowsAffected: 4 })
+      ).toBe(4);
+    });
+  });
+
+  describe('getHistoryConnectionLabel', () => {
+    it('should prefer the profile name over the file name', () => {
+      expect(
+        getHistoryConnectionLabel({
+          dbPath: '/data/app.sqlite',
+          connectionName: 'App',
+        })
+      ).toBe('App');
+      expect(getHistoryConnectionLabel({ dbPath: 'C:\\data\\app.db' })).toBe(
+        'app.db'
+      );
+    });
+  });
+});
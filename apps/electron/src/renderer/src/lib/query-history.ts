@@ -0,0 +1,50 @@
+/**
+ * Helpers for recording queries in the history and filtering the history
+ * browser.
+ */
+
+import type { QueryHistoryConnection, QueryHistoryEntry } from '@shared/types';
+import type { QueryResult } from '@/types/database';
+
+/** Execution time filter of the history browser */
+export type HistoryDateRange = 'any' | 'today' | '7d' | '30d';
+
+/**
+ * Start of a date range as an ISO string, or undefined for any time.
+ * Ranges are counted in calendar days in local time, today included.
+ */
+export function getHistoryDateFrom(
+  range: HistoryDateRange,
+  now: Date = new Date()
+): string | undefined {
+  if (range === 'any') return undefined;
+  const days = range === 'today' ? 0 : range === '7d' ? 6 : 29;
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  from.setDate(from.getDate() - days);
+  return from.toISOString();
+}
+
+/**
+ * Rows a run produced: the rows of its result sets, or the rows changed when
+ * no statement returned any. Streamed results count the rows fetched so far.
+ */
+export function getResultRowCount(result: QueryResult): number {
+  const resultSets = result.resultSets ?? [result];
+  if (resultSets.some((set) => set.columns.length > 0)) {
+    return resultSets.reduce((count, set) => count + set.rows.length, 0);
+  }
+  return result.rowsAffected;
+}
+
+/**
+ * Name to show for a database with history: the recorded profile name,
+ * falling back to the file name or host of its path.
+ */
+export function getHistoryConnectionLabel(
+  entry: Pick<QueryHistoryEntry | QueryHistoryConnection, 'dbPath'> & {
+    connectionName?: string;
+  }
+): string {
+  if (entry.connectionName) return entry.connectionName;
+  return entry.dbPath.split(/[\\/]/).filter(Boolean).at(-1) ?? entry.dbPath;
+}
@@ -0,0 +1,113 @@
+import type { QueryPlanNode } from '@shared/types';
+import { describe, expect, it } from 'vitest';
+import {
+  analyzePlanInsights,
+  extractNames,
+  formatEstimateError,
+  generateSuggestions,
+} from './query-plan-analyzer';
+
+function node(overrides: Partial<QueryPlanNode>): QueryPlanNode {
+  return { id: 1, parent: 0, notUsed: 0, detail: '', ...overrides };
+}
+
+// Hash join over a misestimated scan that takes most of the time
+const analyzedPlan: QueryPlanNode[] = [
+  node({
+    id: 1,
+    parent: 0,
+    detail: 'Hash Join',
+    operation: 'Hash Join',
+    estimatedRows: 100,
+    actualRows: 120,
+    loops: 1,
+    actualTimeMs: 10,
+  }),
+  node({
+    id: 2,
+    parent: 1,
+    detail: 'Seq Scan on orders',
+    operation: 'Seq Scan',
+    estimatedRows: 50,
+    actualRows: 5000,
+    loops: 1,
+    actualTimeMs: 8,
+  }),
+  node({
+    id: 3,
+    parent: 1,
+    detail: 'Index Scan using users_pkey on users',
+    operation: 'Index Scan',
+    estimatedRows: 1,
+    actualRows: 1,
+    loops: 0,
+    actualTimeMs: 0,
+  }),
+];
+
+describe('query-plan-analyzer', () => {
+  describe('analyzePlanInsights', () => {
+    it('should flag the worst estimate and the hottest node', () => {
+      const insights = analyzePlanInsights(analyzedPlan);
+
+      expect(insights.get(2)).toMatchObject({
+        estimateError: 100,
+        underestimated: true,
+        selfTimeMs: 8,
+        timeShare: 0.8,
+        isWorstEstimate: true,
+        isHottest: true,
+      });
+      expect(insights.get(1)).toMatchObject({
+        selfTimeMs: 2,
+        isWorstEstimate: false,
+        isHottest: true,
+      });
+      expect(formatEstimateError(insights.get(2)!)).toBe('100x under');
+    });
+
+    it('should skip the estimates of nodes that never ran', () => {
+      const insights = analyzePlanInsights(analyzedPlan);
+
+      expect(insights.get(3)?.estimateError).toBeUndefined();
+    });
+
+    it('should return nothing for plans without actual metrics', () => {
+      const insights = analyzePlanInsights([
+        node({ detail: 'SCAN TABLE users', estimatedRows: 10 }),
+      ]);
+
+      expect(insights.size).toBe(0);
+    });
+  });
+
+  describe('extractNames', () => {
+    it('should read names of SQLite and server plan nodes', () => {
+      expect(
+        extractNames(
+          node({ detail: 'SEARCH TABLE users USING INDEX idx_email (email=?)' })
+        )
+      ).toEqual({ tableName: 'users', indexName: 'idx_email' });
+      expect(extractNames(analyzedPlan[2])).toEqual({
+        tableName: 'users',
+        indexName: 'users_pkey',
+      });
+    });
+  });
+
+  describe('generateSuggestions', () => {
+    it('should suggest fixing estimates and hot nodes of analyzed plans', () => {
+      const suggestions = generateSuggestions(analyzedPlan, {
+        analyzed: true,
+        indexesUsed: ['users_pkey'],
+      });
+
+      expect(suggestions.map((s) => s.title)).toEqual([
+        'Full table scan on "orders"',
+        'Hash Join takes 20% of the time',
+        'Row estimate 100x under at Seq Scan on "orders"',
+        'Seq Scan on "orders" takes 80% of the time',
+      ]);
+    });
+  });
+});
@@ -27,6 +27,118 @@ export interface ExecutionPlanNodeData {
   warningType?: WarningType;
   tableName?: string; // Extracted table name if applicable
   indexName?: string; // Extracted index name if applicable
+  actualRows?: number; // Rows per loop from EXPLAIN ANALYZE
+  loops?: number;
+  actualTimeMs?: number; // Including children, across all loops
+  sharedHitBlocks?: number;
+  sharedReadBlocks?: number;
+  insight?: PlanNodeInsight;
+}
+
+// ============ Actual vs Estimated Metrics ============
+
+/** Row estimates off by at least this factor are highlighted */
+const ESTIMATE_ERROR_THRESHOLD = 10;
+/** Nodes taking at least this share of the plan time are highlighted */
+const HOT_TIME_SHARE = 0.2;
+/** Most nodes highlighted for each kind of issue */
+const MAX_HIGHLIGHTS = 3;
+
+export interface PlanNodeInsight {
+  /** Factor between actual and estimated rows per loop, at least 1 */
+  estimateError?: number;
+  /** Whether more rows came than the planner estimated */
+  underestimated?: boolean;
+  /** Time spent in the node itself, without its children */
+  selfTimeMs?: number;
+  /** Share of the plan time spent in the node itself */
+  timeShare?: number;
+  /** Among the nodes with the worst row estimates */
+  isWorstEstimate: boolean;
+  /** Among the nodes taking the most time */
+  isHottest: boolean;
+}
+
+/**
+ * Compares actual with estimated rows and splits the time of each node
+ * from its children for plans measured with EXPLAIN ANALYZE. Keyed by
+ * node id; empty for plans without actual metrics.
+ */
+export function analyzePlanInsights(
+  plan: QueryPlanNode[]
+): Map<number, PlanNodeInsight> {
+  const insights = new Map<number, PlanNodeInsight>();
+  const measured = plan.filter((node) => node.actualRows !== undefined);
+  if (measured.length === 0) return insights;
+
+  const childTime = new Map<number, number>();
+  for (const node of plan) {
+    childTime.set(
+      node.parent,
+      (childTime.get(node.parent) ?? 0) + (node.actualTimeMs ?? 0)
+    );
+  }
+
+  for (const node of measured) {
+    const insight: PlanNodeInsight = {
+      isWorstEstimate: false,
+      isHottest: false,
+    };
+
+    // Nodes that never ran say nothing about the estimate
+    if (node.estimatedRows !== undefined && (node.loops ?? 1) > 0) {
+      const ratio =
+        Math.max(node.actualRows ?? 0, 1) / Math.max(node.estimatedRows, 1);
+      insight.underestimated = ratio > 1;
+      insight.estimateError = ratio >= 1 ? ratio : 1 / ratio;
+    }
+    if (node.actualTimeMs !== undefined) {
+      insight.selfTimeMs = Math.max(
+        node.actualTimeMs - (childTime.get(node.id) ?? 0),
+        0
+      );
+    }
+    insights.set(node.id, insight);
+  }
+
+  const totalTime = [...insights.values()].reduce(
+    (sum, insight) => sum + (insight.selfTimeMs ?? 0),
+    0
+  );
+  if (totalTime > 0) {
+    for (const insight of insights.values()) {
+      if (insight.selfTimeMs !== undefined) {
+        insight.timeShare = insight.selfTimeMs / totalTime;
+      }
+    }
+  }
+
+  const ranked = [...insights.values()];
+  ranked
+    .filter((i) => (i.estimateError ?? 0) >= ESTIMATE_ERROR_THRESHOLD)
+    .sort((a, b) => b.estimateError! - a.estimateError!)
+    .slice(0, MAX_HIGHLIGHTS)
+    .forEach((insight) => {
+      insight.isWorstEstimate = true;
+    });
+  ranked
+    .filter((i) => (i.timeShare ?? 0) >= HOT_TIME_SHARE)
+    .sort((a, b) => b.timeShare! - a.timeShare!)
+    .slice(0, MAX_HIGHLIGHTS)
+    .forEach((insight) => {
+      insight.isHottest = true;
+    });
+
+  return insights;
+}
+
+/**
+ * Short label of an estimate error, e.g. "12x under" when the planner
+ * expected twelve times fewer rows than came
+ */
+export function formatEstimateError(insight: PlanNodeInsight): string {
+  const factor = Math.round(insight.estimateError ?? 1);
+  return `${factor}x ${insight.underestimated ? 'under' : 'over'}`;
 }
 
 /**
@@ -92,13 +204,12 @@ export function generateSuggestions(
   const suggestions: Suggestion[] = [];
 
   // Check for full table scans
-  const fullTableScans = plan.filter((node) =>
-    node.detail.toUpperCase().includes('SCAN TABLE')
+  const fullTableScans = plan.filter(
+    (node) => detectWarning(node).warningType === 'full-scan'
   );
 
   for (const scan of fullTableScans) {
-    const tableMatch = scan.detail.match(/SCAN TABLE (\w+)/i);
-    const tableName = tableMatch ? tableMatch[1] : 'unknown';
+    const tableName = extractNames(scan).tableName ?? 'unknown';
 
     suggestions.push({
       type: 'index',
@@ -204,6 +315,11 @@ export function generateSuggestions(
     });
   }
 
+  // Check actual metrics of EXPLAIN ANALYZE
+  if (stats.analyzed) {
+    suggestions.push(...generateAnalyzeSuggestions(plan));
+  }
+
   // If query is fast and uses indexes, give positive feedback
   if (
     suggestions.length === 0 &&
@@ -221,6 +337,44 @@ export function generateSuggestions(
   return suggestions;
 }
 
+/**
+ * Suggestions for the nodes with the worst row estimates and the most time
+ */
+function generateAnalyzeSuggestions(plan: QueryPlanNode[]): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  const insights = analyzePlanInsights(plan);
+
+  for (const node of plan) {
+    const insight = insights.get(node.id);
+    if (!insight) continue;
+
+    const operation = node.operation ?? extractOperation(node.detail);
+    const { tableName } = extractNames(node);
+    const target = tableName ? ` on "${tableName}"` : '';
+
+    if (insight.isWorstEstimate) {
+      suggestions.push({
+        type: 'warning',
+        title: `Row estimate ${formatEstimateError(insight)} at ${operation}${target}`,
+        description: `The planner estimated ${node.estimatedRows} rows per loop but got ${node.actualRows}. Misestimates lead to poor join and scan choices; refresh the table statistics (ANALYZE in PostgreSQL, ANALYZE TABLE in MySQL) or check for correlated filter columns.`,
+        impact: (insight.estimateError ?? 0) >= 100 ? 'high' : 'medium',
+      });
+    }
+
+    if (insight.isHottest) {
+      const percent = Math.round((insight.timeShare ?? 0) * 100);
+      suggestions.push({
+        type: 'warning',
+        title: `${operation}${target} takes ${percent}% of the time`,
+        description: `${(insight.selfTimeMs ?? 0).toFixed(2)}ms is spent in this step over ${node.loops ?? 1} loop(s), not counting the steps below it. Optimizing this step has the largest effect on the query.`,
+        impact: (insight.timeShare ?? 0) >= 0.5 ? 'high' : 'medium',
+      });
+    }
+  }
+
+  return suggestions;
+}
+
 // ============ Tree-to-Flow Conversion Utilities ============
 
 /**
@@ -231,9 +385,14 @@ export function detectWarning(node: QueryPlanNode): {
   warningType?: WarningType;
 } {
   const detailUpper = node.detail.toUpperCase();
+  const operation = node.operation?.toUpperCase();
 
   // Check for full table scan
-  if (detailUpper.includes('SCAN TABLE')) {
+  if (
+    detailUpper.includes('SCAN TABLE') ||
+    operation === 'SEQ SCAN' ||
+    operation === 'TABLE SCAN'
+  ) {
     return { hasWarning: true, warningType: 'full-scan' };
   }
 
@@ -304,6 +463,27 @@ export function extractIndexName(detail: string): string | undefined {
   return indexMatch ? indexMatch[1] : undefined;
 }
 
+/**
+ * Extracts table and index names of a node. Server plans name them as
+ * "Index Scan using idx on users" (PostgreSQL) or "Index lookup on users
+ * using idx" (MySQL).
+ */
+export function extractNames(node: QueryPlanNode): {
+  tableName?: string;
+  indexName?: string;
+} {
+  if (!node.operation) {
+    return {
+      tableName: extractTableName(node.detail),
+      indexName: extractIndexName(node.detail),
+    };
+  }
+  return {
+    tableName: node.detail.match(/\bon\s+(\w+)/i)?.[1],
+    indexName: node.detail.match(/\busing\s+(\w+)/i)?.[1],
+  };
+}
+
 /**
  * Converts a flat array of QueryPlanNode to a tree structure
  * SQLite returns flat array with parent references - this builds hierarchy
@@ -344,7 +524,10 @@ export function buildPlanTree(nodes: QueryPlanNode[]): QueryPlanNode[] {
 /**
  * Converts QueryPlanNode tree to React Flow nodes and edges
  */
-export function planTreeToFlowNodes(planRoots: QueryPlanNode[]): {
+export function planTreeToFlowNodes(
+  planRoots: QueryPlanNode[],
+  insights: Map<number, PlanNodeInsight> = new Map()
+): {
   nodes: ExecutionPlanFlowNode[];
   edges: ExecutionPlanFlowEdge[];
 } {
@@ -353,9 +536,8 @@ export function planTreeToFlowNodes(planRoots: QueryPlanNode[]): {
 
   function traverse(node: QueryPlanNode, depth: number = 0): void {
     const { hasWarning, warningType } = detectWarning(node);
-    const operation = extractOperation(node.detail);
-    const tableName = extractTableName(node.detail);
-    const indexName = extractIndexName(node.detail);
+    const operation = node.operation ?? extractOperation(node.detail);
+    const { tableName, indexName } = extractNames(node);
 
     // Create flow node
     const flowNode: ExecutionPlanFlowNode = {
@@ -371,6 +553,12 @@ export function planTreeToFlowNodes(planRoots: QueryPlanNode[]): {
         warningType,
         tableName,
         indexName,
+        actualRows: node.actualRows,
+        loops: node.loops,
+        actualTimeMs: node.actualTimeMs,
+        sharedHitBlocks: node.sharedHitBlocks,
+        sharedReadBlocks: node.sharedReadBlocks,
+        insight: insights.get(node.id),
       },
     };
 
@@ -491,7 +679,10 @@ export function convertPlanToFlow(planNodes: QueryPlanNode[]): {
   const planTree = buildPlanTree(planNodes);
 
   // Convert tree to flow nodes and edges
-  const { nodes: rawNodes, edges } = planTreeToFlowNodes(planTree);
+  const { nodes: rawNodes, edges } = planTreeToFlowNodes(
+    planTree,
+    analyzePlanInsights(planNodes)
+  );
 
   // Apply layout
   const layoutedNodes = applyExecutionPlanLayout(rawNodes, edges);
@@ -524,6 +715,23 @@ function renderPlanNodeAsText(node: QueryPlanNode, depth: number): string[] {
     lines.push(`${indent}   ${metrics.join(' | ')}`);
   }
 
+  // Add actual metrics of EXPLAIN ANALYZE
+  if (node.actualRows !== undefined) {
+    const actual = [`Actual Rows: ${node.actualRows}`];
+    if (node.loops !== undefined) {
+      actual.push(`Loops: ${node.loops}`);
+    }
+    if (node.actualTimeMs !== undefined) {
+      actual.push(`Time: ${node.actualTimeMs.toFixed(3)}ms`);
+    }
+    if (node.sharedHitBlocks !== undefined) {
+      actual.push(
+        `Buffers: hit=${node.sharedHitBlocks} read=${node.sharedReadBlocks ?? 0}`
+      );
+    }
+    lines.push(`${indent}   ${actual.join(' | ')}`);
+  }
+
   return lines;
 }
 
@@ -578,6 +786,9 @@ export function exportPlanAsText(
   // Statistics
   lines.push('Statistics:');
   lines.push(`  Execution Time: ${(stats.executionTime ?? 0).toFixed(2)}ms`);
+  if (stats.planningTime !== undefined) {
+    lines.push(`  Planning Time: ${stats.planningTime.toFixed(2)}ms`);
+  }
   lines.push(`  Rows Examined: ${stats.rowsExamined ?? 0}`);
   lines.push(`  Rows Returned: ${stats.rowsReturned ?? 0}`);
   lines.push(`  Indexes Used: ${stats.indexesUsed?.join(', ') || 'None'}`);
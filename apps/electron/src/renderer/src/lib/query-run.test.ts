@@ -0,0 +1,125 @@
+import type { ExecuteQueryResponse } from '@shared/types';
+import { describe, expect, it } from 'vitest';
+import {
+  getQueryRunTarget,
+  getRunError,
+  getTargetParameterValues,
+  toQueryRunResult,
+} from './query-run';
+
+const BUFFER = 'SELECT 1;\n\nSELECT ?\n  FROM t WHERE a = ?;\nSELECT 3;';
+
+describe('query-run', () => {
+  describe('getQueryRunTarget', () => {
+    it('should run the trimmed buffer as a script', () => {
+      expect(getQueryRunTarget('  SELECT 1; ', 'all', null, 'sqlite')).toEqual({
+        sql: 'SELECT 1;',
+        offset: 2,
+        splitStatements: true,
+      });
+      expect(getQueryRunTarget('  ', 'all', null, 'sqlite')).toBeNull();
+    });
+
+    it('should run the statement under the cursor on its own', () => {
+      const cursor = BUFFER.indexOf('FROM');
+
+      expect(
+        getQueryRunTarget(
+          BUFFER,
+          'statement',
+          { start: cursor, end: cursor, cursor },
+          'sqlite'
+        )
+      ).toEqual({
+        sql: 'SELECT ?\n  FROM t WHERE a = ?',
+        offset: 11,
+        splitStatements: false,
+      });
+    });
+
+    it('should run a non-empty selection', () => {
+      const start = BUFFER.indexOf('SELECT 3');
+
+      expect(
+        getQueryRunTarget(
+          BUFFER,
+          'selection',
+          { start: start - 1, end: BUFFER.length, cursor: BUFFER.length },
+          'sqlite'
+        )
+      ).toEqual({ sql: 'SELECT 3;', offset: start, splitStatements: true });
+      expect(
+        getQueryRunTarget(
+          BUFFER,
+          'selection',
+          { start: 4, end: 4, cursor: 4 },
+          'sqlite'
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('getTargetParameterValues', () => {
+    it('should renumber positional values after the target start', () => {
+      const target = {
+        sql: 'SELECT 3, ?',
+        offset: BUFFER.indexOf('FROM'),
+        splitStatements: false,
+      };
+
+      expect(
+        getTargetParameterValues(
+          { '?1': 'a', '?2': 'b', ':x': 1 },
+          BUFFER,
+          target,
+          'sqlite'
+        )
+      ).toEqual({ '?1': 'b', ':x': 1 });
+    });
+  });
+
+  describe('toQueryRunResult', () => {
+    it('should move statement offsets and error positions onto the buffer', () => {
+      const target = {
+        sql: 'SELECT 1;\nSELECT x',
+        offset: 20,
+        splitStatements: true,
+      };
+      const buffer = `${'-- header\n'.repeat(2)}SELECT 1;\nSELECT x`;
+      const response: ExecuteQueryResponse = {
+        success: false,
+        error: 'no such column: x',
+        statements: [
+          {
+            sql: 'SELECT 1',
+            start: 0,
+            end: 8,
+            success: true,
+            executionTime: 1,
+          },
+          {
+            sql: 'SELECT x',
+            start: 10,
+            end: 18,
+            success: false,
+            executionTime: 1,
+            error: 'no such column: x',
+            errorPosition: { line: 2, column: 8 },
+          },
+        ],
+      };
+
+      const result = toQueryRunResult(response, buffer, target);
+
+      expect(result.statements?.[1]).toMatchObject({
+        start: 30,
+        end: 38,
+        errorPosition: { line: 4, column: 8 },
+      });
+      expect(getRunError(null, undefined, result)).toEqual({
+        message: 'no such column: x',
+        position: { line: 4, column: 8 },
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Running part of the query editor buffer: the whole script, the statement
+ * under the cursor or the selection. Results report offsets and error
+ * positions in the SQL that was sent, so they are moved back onto the buffer
+ * for the editor markers and the per-statement result tabs.
+ */
+
+import type {
+  ErrorPosition,
+  ExecuteQueryResponse,
+  QueryParameterValue,
+  SqlDialect,
+} from '@shared/types';
+import type { QueryResult } from '@/types/database';
+import { findQueryPlaceholders } from '@shared/query-parameters';
+import {
+  findStatementAtOffset,
+  mapErrorPosition,
+  splitSqlStatementRanges,
+} from '@shared/sql-statements';
+
+/** Part of the buffer a run executes */
+export type QueryRunMode = 'all' | 'statement' | 'selection';
+
+/** Selection and cursor of the editor, as offsets in the buffer */
+export interface EditorSelectionOffsets {
+  start: number;
+  end: number;
+  cursor: number;
+}
+
+/** SQL sent for a run and where it sits in the buffer */
+export interface QueryRunTarget {
+  sql: string;
+  /** Offset of `sql` in the buffer */
+  offset: number;
+  /** Whether the SQL may hold several statements to run one at a time */
+  splitStatements: boolean;
+}
+
+/**
+ * Trims `text`, found at `offset` in the buffer, into a run target.
+ */
+function toTarget(
+  text: string,
+  offset: number,
+  splitStatements: boolean
+): QueryRunTarget | null {
+  const sql = text.trim();
+  if (!sql) return null;
+  return { sql, offset: offset + text.indexOf(sql), splitStatements };
+}
+
+/**
+ * Picks the SQL to run for a mode. Returns null when there is nothing to
+ * run, such as an empty selection.
+ */
+export function getQueryRunTarget(
+  buffer: string,
+  mode: QueryRunMode,
+  selection: EditorSelectionOffsets | null,
+  dialect: SqlDialect
+): QueryRunTarget | null {
+  if (mode === 'selection') {
+    if (!selection || selection.start === selection.end) return null;
+    return toTarget(
+      buffer.slice(selection.start, selection.end),
+      selection.start,
+      true
+    );
+  }
+
+  if (mode === 'statement') {
+    const statement = findStatementAtOffset(
+      splitSqlStatementRanges(buffer, dialect),
+      selection?.cursor ?? 0
+    );
+    // Already split: a MySQL body may hold `;` once its DELIMITER is gone
+    return statement
+      ? { sql: statement.sql, offset: statement.start, splitStatements: false }
+      : null;
+  }
+
+  return toTarget(buffer, 0, true);
+}
+
+/**
+ * Renumbers positional `?` parameter values, keyed by their position in the
+ * buffer, for a target that starts after some of them.
+ */
+export function getTargetParameterValues(
+  values: Record<string, QueryParameterValue> | undefined,
+  buffer: string,
+  target: QueryRunTarget,
+  dialect: SqlDialect
+): Record<string, QueryParameterValue> | undefined {
+  if (!values) return values;
+
+  const skipped = findQueryPlaceholders(buffer, dialect).filter(
+    (p) => p.key.startsWith('?') && p.start < target.offset
+  ).length;
+  if (skipped === 0) return values;
+
+  return Object.fromEntries(
+    Object.entries(values).flatMap(([key, value]) => {
+      if (!key.startsWith('?')) return [[key, value]];
+      const position = Number(key.slice(1)) - skipped;
+      return position > 0 ? [[`?${position}`, value]] : [];
+    })
+  );
+}
+
+/**
+ * Moves an error position reported for the target onto the buffer.
+ */
+export function toBufferPosition(
+  buffer: string,
+  target: QueryRunTarget,
+  position: ErrorPosition
+): ErrorPosition {
+  return mapErrorPosition(buffer, target.offset, target.sql, position);
+}
+
+/**
+ * Builds the tab result of a run. Statements of a script keep their
+ * offsets and error positions in buffer coordinates.
+ */
+export function toQueryRunResult(
+  response: ExecuteQueryResponse,
+  buffer: string,
+  target: QueryRunTarget
+): QueryResult {
+  return {
+    columns: response.columns || [],
+    rows: response.rows || [],
+    rowsAffected: response.rowsAffected || response.totalChanges || 0,
+    lastInsertRowId: response.lastInsertRowId,
+    executedStatements: response.executedStatements,
+    resultSets: response.resultSets,
+    cursorId: response.cursorId,
+    hasMore: response.hasMore,
+    // Only streamed results keep their query, for full exports
+    query: response.hasMore !== undefined ? target.sql : undefined,
+    statements: response.statements?.map((statement) => ({
+      ...statement,
+      start: statement.start + target.offset,
+      end: statement.end + target.offset,
+      errorPosition: statement.errorPosition
+        ? toBufferPosition(buffer, target, statement.errorPosition)
+        : undefined,
+    })),
+  };
+}
+
+/**
+ * Error of a tab's last run to mark in the editor: the query error, or the
+ * failed statement of a script.
+ */
+export function getRunError(
+  error: string | null | undefined,
+  errorPosition: ErrorPosition | undefined,
+  results: QueryResult | null | undefined
+): { message: string; position?: ErrorPosition } | null {
+  if (error) {
+    return { message: error, position: errorPosition };
+  }
+  const failed = results?.statements?.find((s) => !s.success && !s.skipped);
+  return failed
+    ? {
+        message: failed.error ?? 'Query failed',
+        position: failed.errorPosition,
+      }
+    : null;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cellValuesEqual,
+  diffResults,
+  getDefaultKeyColumns,
+} from './result-diff';
+
+const BEFORE = {
+  columns: ['id', 'name', 'total'],
+  rows: [
+    { id: 1, name: 'a', total: 10 },
+    { id: 2, name: 'b', total: 20 },
+    { id: 3, name: 'c', total: 30 },
+  ],
+};
+
+const AFTER = {
+  columns: ['id', 'name', 'total', 'note'],
+  rows: [
+    { id: 1, name: 'a', total: 10, note: null },
+    { id: 3, name: 'c', total: 35, note: null },
+    { id: 4, name: 'd', total: 40, note: 'new' },
+  ],
+};
+
+describe('result-diff', () => {
+  describe('getDefaultKeyColumns', () => {
+    it('should prefer a shared id column', () => {
+      expect(getDefaultKeyColumns(BEFORE, AFTER)).toEqual(['id']);
+      expect(
+        getDefaultKeyColumns(
+          { columns: ['code', 'ID'], rows: [] },
+          { columns: ['ID', 'code'], rows: [] }
+        )
+      ).toEqual(['ID']);
+      expect(
+        getDefaultKeyColumns(
+          { columns: ['x', 'y'], rows: [] },
+          { columns: ['y'], rows: [] }
+        )
+      ).toEqual(['y']);
+    });
+  });
+
+  describe('diffResults', () => {
+    it('should classify rows by key and list changed cells', () => {
+      const diff = diffResults(BEFORE, AFTER, ['id']);
+
+      expect(diff.summary).toEqual({
+        added: 1,
+        removed: 1,
+        modified: 1,
+        unchanged: 1,
+        duplicateKeys: 0,
+      });
+      expect(diff.rowDiffs.map((d) => [d.diffType, d.primaryKey])).toEqual([
+        ['unchanged', { id: 1 }],
+        ['removed', { id: 2 }],
+        ['modified', { id: 3 }],
+        ['added', { id: 4 }],
+      ]);
+      expect(diff.rowDiffs[2].columnChanges).toEqual([
+        { columnName: 'total', sourceValue: 30, targetValue: 35 },
+      ]);
+      expect(diff.leftOnlyColumns).toEqual([]);
+      expect(diff.rightOnlyColumns).toEqual(['note']);
+    });
+
+    it('should match repeated keys by occurrence', () => {
+      const diff = diffResults(
+        {
+          columns: ['k', 'v'],
+          rows: [
+            { k: 'x', v: 1 },
+            { k: 'x', v: 2 },
+          ],
+        },
+        { columns: ['k', 'v'], rows: [{ k: 'x', v: 1 }] },
+        ['k']
+      );
+
+      expect(diff.rowDiffs.map((d) => d.diffType)).toEqual([
+        'unchanged',
+        'removed',
+      ]);
+      expect(diff.summary.duplicateKeys).toBe(1);
+    });
+  });
+
+  describe('cellValuesEqual', () => {
+    it('should compare nulls, dates and binary values', () => {
+      expect(cellValuesEqual(null, undefined)).toBe(true);
+      expect(cellValuesEqual(null, 0)).toBe(false);
+      expect(
+        cellValuesEqual(new Date('2024-01-01'), new Date('2024-01-01'))
+      ).toBe(true);
+      expect(
+        cellValuesEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))
+      ).toBe(true);
+      expect(cellValuesEqual({ a: 1 }, { a: 2 })).toBe(false);
+    });
+  });
+});
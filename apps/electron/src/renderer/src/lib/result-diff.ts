@@ -0,0 +1,205 @@
+/**
+ * Row diff of two query results held in memory, such as a pinned result and
+ * the tab's latest run. Rows are matched by the values of chosen key columns
+ * and compared column by column, giving the same `RowDiff` shape as the
+ * table data diff so its cards can render the differences.
+ */
+
+import type { ColumnChange, RowDiff } from '@shared/types';
+
+/** A result set to compare */
+export interface ResultSnapshot {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ResultDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  /** Rows sharing their key with an earlier row of the same result */
+  duplicateKeys: number;
+}
+
+export interface ResultDiff {
+  /** Row differences in the order of the left result, added rows last */
+  rowDiffs: RowDiff[];
+  summary: ResultDiffSummary;
+  /** Columns only one of the results has */
+  leftOnlyColumns: string[];
+  rightOnlyColumns: string[];
+}
+
+/**
+ * Columns both results have, in the left result's order.
+ */
+export function getSharedColumns(
+  left: ResultSnapshot,
+  right: ResultSnapshot
+): string[] {
+  const rightColumns = new Set(right.columns);
+  return left.columns.filter((column) => rightColumns.has(column));
+}
+
+/**
+ * Key columns to start a comparison with: an `id` column when both results
+ * have one, otherwise the first shared column.
+ */
+export function getDefaultKeyColumns(
+  left: ResultSnapshot,
+  right: ResultSnapshot
+): string[] {
+  const shared = getSharedColumns(left, right);
+  const id = shared.find((column) => column.toLowerCase() === 'id');
+  if (id) return [id];
+  return shared.length > 0 ? [shared[0]] : [];
+}
+
+/**
+ * Compare two cell values. Both results come from the same driver, so
+ * values only need normalizing for dates, binary data and JSON objects.
+ */
+export function cellValuesEqual(a: unknown, b: unknown): boolean {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull && bNull;
+  if (a === b) return true;
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+  }
+  return false;
+}
+
+function toComparable(value: object): unknown {
+  return value instanceof Uint8Array ? Array.from(value) : value;
+}
+
+function keyOf(row: Record<string, unknown>, keyColumns: string[]): string {
+  return JSON.stringify(
+    keyColumns.map((column) => {
+      const value = row[column];
+      if (value === undefined) return null;
+      if (typeof value === 'bigint') return value.toString();
+      return typeof value === 'object' && value !== null
+        ? toComparable(value)
+        : value;
+    })
+  );
+}
+
+/**
+ * Index rows by key. A repeated key is told apart by its occurrence, so the
+ * nth row with a key is matched with the nth row with it on the other side.
+ */
+function indexRows(
+  rows: Record<string, unknown>[],
+  keyColumns: string[]
+): { keys: string[]; duplicates: number } {
+  const seen = new Map<string, number>();
+  let duplicates = 0;
+  const keys = rows.map((row) => {
+    const key = keyOf(row, keyColumns);
+    const count = seen.get(key) ?? 0;
+    seen.set(key, count + 1);
+    if (count > 0) duplicates++;
+    return count > 0 ? `${key}#${count}` : key;
+  });
+  return { keys, duplicates };
+}
+
+function pickKey(
+  row: Record<string, unknown>,
+  keyColumns: string[]
+): Record<string, unknown> {
+  return Object.fromEntries(keyColumns.map((column) => [column, row[column]]));
+}
+
+/**
+ * Diff two results keyed by `keyColumns`. The left result is the source:
+ * rows only on the right are added, rows only on the left are removed.
+ * Only shared columns are compared.
+ */
+export function diffResults(
+  left: ResultSnapshot,
+  right: ResultSnapshot,
+  keyColumns: string[]
+): ResultDiff {
+  const shared = getSharedColumns(left, right);
+  const leftIndex = indexRows(left.rows, keyColumns);
+  const rightIndex = indexRows(right.rows, keyColumns);
+  const rightByKey = new Map(
+    rightIndex.keys.map((key, i) => [key, right.rows[i]])
+  );
+
+  const summary: ResultDiffSummary = {
+    added: 0,
+    removed: 0,
+    modified: 0,
+    unchanged: 0,
+    duplicateKeys: leftIndex.duplicates + rightIndex.duplicates,
+  };
+  const rowDiffs: RowDiff[] = [];
+  const matched = new Set<string>();
+
+  left.rows.forEach((sourceRow, i) => {
+    const key = leftIndex.keys[i];
+    const targetRow = rightByKey.get(key);
+    if (!targetRow) {
+      summary.removed++;
+      rowDiffs.push({
+        diffType: 'removed',
+        primaryKey: pickKey(sourceRow, keyColumns),
+        sourceRow,
+        targetRow: null,
+      });
+      return;
+    }
+
+    matched.add(key);
+    const columnChanges: ColumnChange[] = shared
+      .filter(
+        (column) => !cellValuesEqual(sourceRow[column], targetRow[column])
+      )
+      .map((columnName) => ({
+        columnName,
+        sourceValue: sourceRow[columnName],
+        targetValue: targetRow[columnName],
+      }));
+    if (columnChanges.length > 0) {
+      summary.modified++;
+    } else {
+      summary.unchanged++;
+    }
+    rowDiffs.push({
+      diffType: columnChanges.length > 0 ? 'modified' : 'unchanged',
+      primaryKey: pickKey(sourceRow, keyColumns),
+      sourceRow,
+      targetRow,
+      columnChanges: columnChanges.length > 0 ? columnChanges : undefined,
+    });
+  });
+
+  right.rows.forEach((targetRow, i) => {
+    if (matched.has(rightIndex.keys[i])) return;
+    summary.added++;
+    rowDiffs.push({
+      diffType: 'added',
+      primaryKey: pickKey(targetRow, keyColumns),
+      sourceRow: null,
+      targetRow,
+    });
+  });
+
+  const sharedColumns = new Set(shared);
+  return {
+    rowDiffs,
+    summary,
+    leftOnlyColumns: left.columns.filter((c) => !sharedColumns.has(c)),
+    rightOnlyColumns: right.columns.filter((c) => !sharedColumns.has(c)),
+  };
+}
@@ -0,0 +1,1355 @@
+import type { DatabaseType, SqlDialect } from '@shared/types';
+
+/**
+ * SQL function definition for autocomplete with documentation.
+ */
+export interface SqlFunction {
+  name: string;
+  signature: string;
+  description: string;
+  category:
+    | 'aggregate'
+    | 'string'
+    | 'numeric'
+    | 'datetime'
+    | 'conditional'
+    | 'json'
+    | 'window'
+    | 'system';
+}
+
+/**
+ * Documentation entry for SQL keywords and functions.
+ */
+export interface SqlDocEntry {
+  syntax: string;
+  description: string;
+  example?: string;
+}
+
+/**
+ * Operator of a dialect that the generic tokenizer does not know.
+ */
+export interface SqlOperator {
+  symbol: string;
+  description: string;
+  example: string;
+  /** Formatted without surrounding spaces, e.g. `id::text` */
+  tight?: boolean;
+}
+
+/**
+ * Everything the Monaco language service needs to know about one dialect,
+ * on top of the standard SQL shared by all of them.
+ */
+export interface SqlDialectCatalog {
+  dialect: SqlDialect;
+  label: string;
+  /** Dialect keywords, multi-word ones separated by single spaces */
+  keywords: string[];
+  /** Statements suggested at the start of a query */
+  statements: string[];
+  /** Keywords the formatter starts a new line with */
+  clauseKeywords: string[];
+  /** Standard and dialect functions */
+  functions: SqlFunction[];
+  docs: Record<string, SqlDocEntry>;
+  operators: SqlOperator[];
+  /** Type names suggested after a `::` cast */
+  castTypes: string[];
+  /**
+   * Syntax of other dialects, keyed by upper-case word or by symbol, with
+   * the warning shown when it is used
+   */
+  foreignSyntax: Record<string, string>;
+  /** Backslash escapes inside string literals */
+  backslashEscapes: boolean;
+  /** `#` starts a line comment */
+  hashComments: boolean;
+  /** `$tag$ ... $tag$` string literals */
+  dollarQuotes: boolean;
+}
+
+/**
+ * Maps a connection's database type to its SQL dialect.
+ */
+export function getDialect(databaseType: DatabaseType | undefined): SqlDialect {
+  switch (databaseType) {
+    case 'mysql':
+      return 'mysql';
+    case 'postgresql':
+    case 'supabase':
+      return 'postgresql';
+    default:
+      return 'sqlite';
+  }
+}
+
+// Functions with the same name and meaning in every dialect
+const COMMON_FUNCTIONS: SqlFunction[] = [
+  // Aggregate Functions
+  {
+    name: 'COUNT',
+    signature: 'COUNT(expression)',
+    description: 'Returns the number of rows',
+    category: 'aggregate',
+  },
+  {
+    name: 'SUM',
+    signature: 'SUM(expression)',
+    description: 'Returns the sum of values',
+    category: 'aggregate',
+  },
+  {
+    name: 'AVG',
+    signature: 'AVG(expression)',
+    description: 'Returns the average value',
+    category: 'aggregate',
+  },
+  {
+    name: 'MIN',
+    signature: 'MIN(expression)',
+    description: 'Returns the minimum value',
+    category: 'aggregate',
+  },
+  {
+    name: 'MAX',
+    signature: 'MAX(expression)',
+    description: 'Returns the maximum value',
+    category: 'aggregate',
+  },
+
+  // String Functions
+  {
+    name: 'LENGTH',
+    signature: 'LENGTH(string)',
+    description: 'Returns the length of a string',
+    category: 'string',
+  },
+  {
+    name: 'UPPER',
+    signature: 'UPPER(string)',
+    description: 'Converts string to uppercase',
+    category: 'string',
+  },
+  {
+    name: 'LOWER',
+    signature: 'LOWER(string)',
+    description: 'Converts string to lowercase',
+    category: 'string',
+  },
+  {
+    name: 'SUBSTR',
+    signature: 'SUBSTR(string, start, length)',
+    description: 'Extracts a substring',
+    category: 'string',
+  },
+  {
+    name: 'TRIM',
+    signature: 'TRIM(string)',
+    description: 'Removes leading and trailing whitespace',
+    category: 'string',
+  },
+  {
+    name: 'LTRIM',
+    signature: 'LTRIM(string)',
+    description: 'Removes leading whitespace',
+    category: 'string',
+  },
+  {
+    name: 'RTRIM',
+    signature: 'RTRIM(string)',
+    description: 'Removes trailing whitespace',
+    category: 'string',
+  },
+  {
+    name: 'REPLACE',
+    signature: 'REPLACE(string, from, to)',
+    description: 'Replaces occurrences of a substring',
+    category: 'string',
+  },
+
+  // Numeric Functions
+  {
+    name: 'ABS',
+    signature: 'ABS(number)',
+    description: 'Returns absolute value',
+    category: 'numeric',
+  },
+  {
+    name: 'ROUND',
+    signature: 'ROUND(number, digits)',
+    description: 'Rounds to specified decimal places',
+    category: 'numeric',
+  },
+
+  // Conditional Functions
+  {
+    name: 'COALESCE',
+    signature: 'COALESCE(value1, value2, ...)',
+    description: 'Returns first non-NULL value',
+    category: 'conditional',
+  },
+  {
+    name: 'NULLIF',
+    signature: 'NULLIF(value1, value2)',
+    description: 'Returns NULL if values are equal',
+    category: 'conditional',
+  },
+
+  // Window Functions
+  {
+    name: 'ROW_NUMBER',
+    signature: 'ROW_NUMBER() OVER (...)',
+    description: 'Returns the number of the row within its partition',
+    category: 'window',
+  },
+  {
+    name: 'RANK',
+    signature: 'RANK() OVER (...)',
+    description: 'Returns the rank of the row, with gaps for ties',
+    category: 'window',
+  },
+  {
+    name: 'DENSE_RANK',
+    signature: 'DENSE_RANK() OVER (...)',
+    description: 'Returns the rank of the row, without gaps for ties',
+    category: 'window',
+  },
+  {
+    name: 'LAG',
+    signature: 'LAG(expression, offset, default) OVER (...)',
+    description: 'Returns the value of a previous row in the partition',
+    category: 'window',
+  },
+  {
+    name: 'LEAD',
+    signature: 'LEAD(expression, offset, default) OVER (...)',
+    description: 'Returns the value of a following row in the partition',
+    category: 'window',
+  },
+];
+
+const SQLITE_CATALOG: SqlDialectCatalog = {
+  dialect: 'sqlite',
+  label: 'SQLite',
+  keywords: [
+    'PRAGMA',
+    'VACUUM',
+    'ATTACH',
+    'DETACH',
+    'RETURNING',
+    'ON CONFLICT',
+    'DO NOTHING',
+    'DO UPDATE',
+  ],
+  statements: ['PRAGMA', 'VACUUM'],
+  clauseKeywords: ['RETURNING'],
+  functions: [
+    ...COMMON_FUNCTIONS,
+    {
+      name: 'GROUP_CONCAT',
+      signature: 'GROUP_CONCAT(expression, separator)',
+      description: 'Concatenates values from a group',
+      category: 'aggregate',
+    },
+    {
+      name: 'TOTAL',
+      signature: 'TOTAL(expression)',
+      description: 'Returns the sum as a floating point',
+      category: 'aggregate',
+    },
+    {
+      name: 'INSTR',
+      signature: 'INSTR(string, substring)',
+      description: 'Returns position of substring',
+      category: 'string',
+    },
+    {
+      name: 'PRINTF',
+      signature: 'PRINTF(format, ...args)',
+      description: 'Formats a string using printf-style format',
+      category: 'string',
+    },
+    {
+      name: 'CHAR',
+      signature: 'CHAR(code, ...)',
+      description: 'Returns character from Unicode code point',
+      category: 'string',
+    },
+    {
+      name: 'UNICODE',
+      signature: 'UNICODE(string)',
+      description: 'Returns Unicode code point of first character',
+      category: 'string',
+    },
+    {
+      name: 'HEX',
+      signature: 'HEX(value)',
+      description: 'Returns hexadecimal representation',
+      category: 'string',
+    },
+    {
+      name: 'QUOTE',
+      signature: 'QUOTE(value)',
+      description: 'Returns SQL literal representation',
+      category: 'string',
+    },
+    {
+      name: 'ZEROBLOB',
+      signature: 'ZEROBLOB(n)',
+      description: 'Returns a blob of N zero bytes',
+      category: 'string',
+    },
+    {
+      name: 'RANDOM',
+      signature: 'RANDOM()',
+      description: 'Returns a random integer',
+      category: 'numeric',
+    },
+    {
+      name: 'MAX',
+      signature: 'MAX(a, b, ...)',
+      description: 'Returns the maximum value',
+      category: 'numeric',
+    },
+    {
+      name: 'MIN',
+      signature: 'MIN(a, b, ...)',
+      description: 'Returns the minimum value',
+      category: 'numeric',
+    },
+    {
+      name: 'DATE',
+      signature: 'DATE(timestring, modifier, ...)',
+      description: 'Returns date in YYYY-MM-DD format',
+      category: 'datetime',
+    },
+    {
+      name: 'TIME',
+      signature: 'TIME(timestring, modifier, ...)',
+      description: 'Returns time in HH:MM:SS format',
+      category: 'datetime',
+    },
+    {
+      name: 'DATETIME',
+      signature: 'DATETIME(timestring, modifier, ...)',
+      description: 'Returns datetime in YYYY-MM-DD HH:MM:SS format',
+      category: 'datetime',
+    },
+    {
+      name: 'JULIANDAY',
+      signature: 'JULIANDAY(timestring, modifier, ...)',
+      description: 'Returns Julian day number',
+      category: 'datetime',
+    },
+    {
+      name: 'UNIXEPOCH',
+      signature: 'UNIXEPOCH(timestring, modifier, ...)',
+      description: 'Returns Unix timestamp',
+      category: 'datetime',
+    },
+    {
+      name: 'STRFTIME',
+      signature: 'STRFTIME(format, timestring, modifier, ...)',
+      description: 'Returns formatted date/time string',
+      category: 'datetime',
+    },
+    {
+      name: 'IFNULL',
+      signature: 'IFNULL(value, default)',
+      description: 'Returns default if value is NULL',
+      category: 'conditional',
+    },
+    {
+      name: 'IIF',
+      signature: 'IIF(condition, true_value, false_value)',
+      description: 'Inline if-then-else',
+      category: 'conditional',
+    },
+    {
+      name: 'TYPEOF',
+      signature: 'TYPEOF(value)',
+      description: 'Returns the data type of value',
+      category: 'conditional',
+    },
+    {
+      name: 'JSON_EXTRACT',
+      signature: 'JSON_EXTRACT(json, path, ...)',
+      description: 'Extracts values from JSON text',
+      category: 'json',
+    },
+    {
+      name: 'JSON_OBJECT',
+      signature: 'JSON_OBJECT(label1, value1, ...)',
+      description: 'Builds a JSON object from label/value pairs',
+      category: 'json',
+    },
+    {
+      name: 'JSON_GROUP_ARRAY',
+      signature: 'JSON_GROUP_ARRAY(value)',
+      description: 'Aggregates the values of a group into a JSON array',
+      category: 'json',
+    },
+    {
+      name: 'GLOB',
+      signature: 'GLOB(pattern, string)',
+      description: 'Pattern matching with glob syntax',
+      category: 'system',
+    },
+    {
+      name: 'LIKE',
+      signature: 'LIKE(pattern, string, escape)',
+      description: 'Pattern matching with LIKE syntax',
+      category: 'system',
+    },
+    {
+      name: 'LIKELIHOOD',
+      signature: 'LIKELIHOOD(value, probability)',
+      description: 'Provides hint about probability',
+      category: 'system',
+    },
+    {
+      name: 'LIKELY',
+      signature: 'LIKELY(value)',
+      description: 'Hints that value is probably true',
+      category: 'system',
+    },
+    {
+      name: 'UNLIKELY',
+      signature: 'UNLIKELY(value)',
+      description: 'Hints that value is probably false',
+      category: 'system',
+    },
+    {
+      name: 'LAST_INSERT_ROWID',
+      signature: 'LAST_INSERT_ROWID()',
+      description: 'Returns last inserted rowid',
+      category: 'system',
+    },
+    {
+      name: 'CHANGES',
+      signature: 'CHANGES()',
+      description: 'Returns number of rows changed',
+      category: 'system',
+    },
+    {
+      name: 'TOTAL_CHANGES',
+      signature: 'TOTAL_CHANGES()',
+      description: 'Returns total rows changed since connection',
+      category: 'system',
+    },
+    {
+      name: 'SQLITE_VERSION',
+      signature: 'SQLITE_VERSION()',
+      description: 'Returns SQLite version string',
+      category: 'system',
+    },
+  ],
+  docs: {
+    PRAGMA: {
+      syntax: 'PRAGMA pragma_name [= value]',
+      description:
+        'SQLite-specific command to query or modify database settings and metadata.',
+      example: 'PRAGMA table_info(users)',
+    },
+    VACUUM: {
+      syntax: 'VACUUM',
+      description:
+        'Rebuilds the database file, reclaiming unused space and defragmenting.',
+      example: 'VACUUM',
+    },
+    ATTACH: {
+      syntax: 'ATTACH DATABASE filename AS schema_name',
+      description: 'Attaches another database file to the current connection.',
+      example: "ATTACH DATABASE 'archive.db' AS archive",
+    },
+    DETACH: {
+      syntax: 'DETACH DATABASE schema_name',
+      description:
+        'Detaches a previously attached database from the current connection.',
+      example: 'DETACH DATABASE archive',
+    },
+    EXPLAIN: {
+      syntax: 'EXPLAIN [QUERY PLAN] statement',
+      description:
+        'Shows how SQLite will execute a query. QUERY PLAN shows the high-level strategy.',
+      example: 'EXPLAIN QUERY PLAN SELECT * FROM users WHERE id = 1',
+    },
+    RETURNING: {
+      syntax: 'INSERT | UPDATE | DELETE ... RETURNING expression, ...',
+      description:
+        'Returns the inserted, updated or deleted rows. Available since SQLite 3.35.',
+      example: "INSERT INTO users (name) VALUES ('John') RETURNING id",
+    },
+    'ON CONFLICT': {
+      syntax: 'INSERT ... ON CONFLICT (column) DO NOTHING | DO UPDATE SET ...',
+      description:
+        'Turns an INSERT that violates a uniqueness constraint into an upsert.',
+      example:
+        'INSERT INTO stock (sku, qty) VALUES (1, 5) ON CONFLICT (sku) DO UPDATE SET qty = qty + excluded.qty',
+    },
+  },
+  operators: [],
+  castTypes: [],
+  foreignSyntax: {
+    ILIKE:
+      'SQLite has no ILIKE; LIKE is already case-insensitive for ASCII text',
+    AUTO_INCREMENT: 'SQLite spells it AUTOINCREMENT',
+    '::': "'::' casts are PostgreSQL syntax; use CAST(value AS type)",
+  },
+  backslashEscapes: false,
+  hashComments: false,
+  dollarQuotes: false,
+};
+
+const MYSQL_CATALOG: SqlDialectCatalog = {
+  dialect: 'mysql',
+  label: 'MySQL',
+  keywords: [
+    'SHOW',
+    'DESCRIBE',
+    'USE',
+    'REGEXP',
+    'RLIKE',
+    'DIV',
+    'XOR',
+    'AUTO_INCREMENT',
+    'ENGINE',
+    'STRAIGHT_JOIN',
+    'INSERT IGNORE',
+    'ON DUPLICATE KEY UPDATE',
+    'FOR UPDATE',
+    'LOCK IN SHARE MODE',
+  ],
+  statements: ['SHOW', 'DESCRIBE', 'USE'],
+  clauseKeywords: ['ON DUPLICATE KEY UPDATE'],
+  functions: [
+    ...COMMON_FUNCTIONS,
+    {
+      name: 'GROUP_CONCAT',
+      signature:
+        'GROUP_CONCAT([DISTINCT] expression [ORDER BY ...] [SEPARATOR str])',
+      description: 'Concatenates the values of a group, comma-separated',
+      category: 'aggregate',
+    },
+    {
+      name: 'CONCAT',
+      signature: 'CONCAT(string1, string2, ...)',
+      description: 'Concatenates strings; NULL if any argument is NULL',
+      category: 'string',
+    },
+    {
+      name: 'CONCAT_WS',
+      signature: 'CONCAT_WS(separator, string1, string2, ...)',
+      description: 'Concatenates strings with a separator, skipping NULLs',
+      category: 'string',
+    },
+    {
+      name: 'CHAR_LENGTH',
+      signature: 'CHAR_LENGTH(string)',
+      description: 'Returns the length in characters (LENGTH counts bytes)',
+      category: 'string',
+    },
+    {
+      name: 'SUBSTRING_INDEX',
+      signature: 'SUBSTRING_INDEX(string, delimiter, count)',
+      description: 'Returns the part before count occurrences of a delimiter',
+      category: 'string',
+    },
+    {
+      name: 'LOCATE',
+      signature: 'LOCATE(substring, string, start)',
+      description: 'Returns the position of a substring',
+      category: 'string',
+    },
+    {
+      name: 'INSTR',
+      signature: 'INSTR(string, substring)',
+      description: 'Returns position of substring',
+      category: 'string',
+    },
+    {
+      name: 'LPAD',
+      signature: 'LPAD(string, length, pad)',
+      description: 'Left-pads a string to a length',
+      category: 'string',
+    },
+    {
+      name: 'RPAD',
+      signature: 'RPAD(string, length, pad)',
+      description: 'Right-pads a string to a length',
+      category: 'string',
+    },
+    {
+      name: 'FORMAT',
+      signature: 'FORMAT(number, decimals)',
+      description: "Formats a number like '#,###,###.##'",
+      category: 'string',
+    },
+    {
+      name: 'CEIL',
+      signature: 'CEIL(number)',
+      description: 'Rounds up to the nearest integer',
+      category: 'numeric',
+    },
+    {
+      name: 'FLOOR',
+      signature: 'FLOOR(number)',
+      description: 'Rounds down to the nearest integer',
+      category: 'numeric',
+    },
+    {
+      name: 'MOD',
+      signature: 'MOD(dividend, divisor)',
+      description: 'Returns the remainder of a division',
+      category: 'numeric',
+    },
+    {
+      name: 'RAND',
+      signature: 'RAND(seed)',
+      description: 'Returns a random number between 0 and 1',
+      category: 'numeric',
+    },
+    {
+      name: 'GREATEST',
+      signature: 'GREATEST(value1, value2, ...)',
+      description: 'Returns the largest argument',
+      category: 'numeric',
+    },
+    {
+      name: 'LEAST',
+      signature: 'LEAST(value1, value2, ...)',
+      description: 'Returns the smallest argument',
+      category: 'numeric',
+    },
+    {
+      name: 'NOW',
+      signature: 'NOW()',
+      description: 'Returns the current date and time',
+      category: 'datetime',
+    },
+    {
+      name: 'CURDATE',
+      signature: 'CURDATE()',
+      description: 'Returns the current date',
+      category: 'datetime',
+    },
+    {
+      name: 'DATE_FORMAT',
+      signature: 'DATE_FORMAT(date, format)',
+      description: "Formats a date, e.g. with '%Y-%m-%d'",
+      category: 'datetime',
+    },
+    {
+      name: 'STR_TO_DATE',
+      signature: 'STR_TO_DATE(string, format)',
+      description: 'Parses a string into a date with a format',
+      category: 'datetime',
+    },
+    {
+      name: 'DATE_ADD',
+      signature: 'DATE_ADD(date, INTERVAL n unit)',
+      description: 'Adds an interval to a date',
+      category: 'datetime',
+    },
+    {
+      name: 'DATE_SUB',
+      signature: 'DATE_SUB(date, INTERVAL n unit)',
+      description: 'Subtracts an interval from a date',
+      category: 'datetime',
+    },
+    {
+      name: 'DATEDIFF',
+      signature: 'DATEDIFF(date1, date2)',
+      description: 'Returns the number of days between two dates',
+      category: 'datetime',
+    },
+    {
+      name: 'TIMESTAMPDIFF',
+      signature: 'TIMESTAMPDIFF(unit, start, end)',
+      description: 'Returns the difference between two datetimes in a unit',
+      category: 'datetime',
+    },
+    {
+      name: 'UNIX_TIMESTAMP',
+      signature: 'UNIX_TIMESTAMP(date)',
+      description: 'Returns a Unix timestamp',
+      category: 'datetime',
+    },
+    {
+      name: 'FROM_UNIXTIME',
+      signature: 'FROM_UNIXTIME(timestamp, format)',
+      description: 'Converts a Unix timestamp to a datetime',
+      category: 'datetime',
+    },
+    {
+      name: 'IFNULL',
+      signature: 'IFNULL(value, default)',
+      description: 'Returns default if value is NULL',
+      category: 'conditional',
+    },
+    {
+      name: 'IF',
+      signature: 'IF(condition, true_value, false_value)',
+      description: 'Inline if-then-else',
+      category: 'conditional',
+    },
+    {
+      name: 'JSON_EXTRACT',
+      signature: 'JSON_EXTRACT(json, path, ...)',
+      description: "Extracts values from a JSON document, same as 'col->path'",
+      category: 'json',
+    },
+    {
+      name: 'JSON_UNQUOTE',
+      signature: 'JSON_UNQUOTE(json)',
+      description: 'Unquotes a JSON value as a string',
+      category: 'json',
+    },
+    {
+      name: 'JSON_OBJECT',
+      signature: 'JSON_OBJECT(key1, value1, ...)',
+      description: 'Builds a JSON object from key/value pairs',
+      category: 'json',
+    },
+    {
+      name: 'JSON_ARRAY',
+      signature: 'JSON_ARRAY(value1, value2, ...)',
+      description: 'Builds a JSON array',
+      category: 'json',
+    },
+    {
+      name: 'JSON_CONTAINS',
+      signature: 'JSON_CONTAINS(target, candidate, path)',
+      description: 'Tests whether a JSON document contains another',
+      category: 'json',
+    },
+    {
+      name: 'JSON_SET',
+      signature: 'JSON_SET(json, path, value, ...)',
+      description: 'Inserts or replaces values in a JSON document',
+      category: 'json',
+    },
+    {
+      name: 'JSON_ARRAYAGG',
+      signature: 'JSON_ARRAYAGG(value)',
+      description: 'Aggregates the values of a group into a JSON array',
+      category: 'json',
+    },
+    {
+      name: 'JSON_OBJECTAGG',
+      signature: 'JSON_OBJECTAGG(key, value)',
+      description: 'Aggregates key/value pairs of a group into a JSON object',
+      category: 'json',
+    },
+    {
+      name: 'LAST_INSERT_ID',
+      signature: 'LAST_INSERT_ID()',
+      description: 'Returns the last AUTO_INCREMENT value of the session',
+      category: 'system',
+    },
+    {
+      name: 'ROW_COUNT',
+      signature: 'ROW_COUNT()',
+      description: 'Returns the number of rows changed by the last statement',
+      category: 'system',
+    },
+    {
+      name: 'DATABASE',
+      signature: 'DATABASE()',
+      description: 'Returns the name of the current database',
+      category: 'system',
+    },
+    {
+      name: 'VERSION',
+      signature: 'VERSION()',
+      description: 'Returns the MySQL server version',
+      category: 'system',
+    },
+    {
+      name: 'UUID',
+      signature: 'UUID()',
+      description: 'Returns a version 1 UUID',
+      category: 'system',
+    },
+  ],
+  docs: {
+    EXPLAIN: {
+      syntax: 'EXPLAIN [ANALYZE] [FORMAT=TREE|JSON] statement',
+      description:
+        'Shows how MySQL will execute a query. ANALYZE runs it and reports actual timings.',
+      example: 'EXPLAIN FORMAT=TREE SELECT * FROM users WHERE id = 1',
+    },
+    SHOW: {
+      syntax: 'SHOW {TABLES | COLUMNS FROM table | INDEX FROM table | ...}',
+      description:
+        'Lists databases, tables, columns, indexes, variables and server status.',
+      example: 'SHOW CREATE TABLE users',
+    },
+    DESCRIBE: {
+      syntax: 'DESCRIBE table_name',
+      description: 'Shows the columns of a table, same as SHOW COLUMNS.',
+      example: 'DESCRIBE users',
+    },
+    USE: {
+      syntax: 'USE database_name',
+      description: 'Makes a database the default for the session.',
+      example: 'USE shop',
+    },
+    'ON DUPLICATE KEY UPDATE': {
+      syntax: 'INSERT ... ON DUPLICATE KEY UPDATE column = value, ...',
+      description:
+        'Updates the existing row instead when the insert would duplicate a unique key.',
+      example:
+        'INSERT INTO stock (sku, qty) VALUES (1, 5) ON DUPLICATE KEY UPDATE qty = qty + VALUES(qty)',
+    },
+    'INSERT IGNORE': {
+      syntax: 'INSERT IGNORE INTO table ...',
+      description:
+        'Skips rows that would violate a unique key instead of failing.',
+      example: "INSERT IGNORE INTO tags (name) VALUES ('sql')",
+    },
+    REGEXP: {
+      syntax: 'expression REGEXP pattern',
+      description: 'Matches a string against a regular expression.',
+      example: "SELECT * FROM users WHERE email REGEXP '@example\\\\.com$'",
+    },
+    AUTO_INCREMENT: {
+      syntax: 'column INT AUTO_INCREMENT',
+      description: 'Generates increasing values for new rows.',
+      example: 'CREATE TABLE users (id INT AUTO_INCREMENT PRIMARY KEY)',
+    },
+  },
+  operators: [
+    {
+      symbol: '->>',
+      description: 'Extracts a JSON value at a path and unquotes it',
+      example: "SELECT data->>'$.name' FROM users",
+    },
+    {
+      symbol: '->',
+      description: 'Extracts a JSON value at a path, same as JSON_EXTRACT',
+      example: "SELECT data->'$.tags[0]' FROM users",
+    },
+    {
+      symbol: '<=>',
+      description: 'NULL-safe equality, true when both sides are NULL',
+      example: 'SELECT * FROM users WHERE manager_id <=> NULL',
+    },
+    {
+      symbol: ':=',
+      description: 'Assigns a value to a user variable',
+      example: 'SELECT @total := SUM(amount) FROM orders',
+    },
+  ],
+  castTypes: [],
+  foreignSyntax: {
+    ILIKE:
+      'MySQL has no ILIKE; LIKE is case-insensitive with the default collations',
+    RETURNING: 'MySQL does not support RETURNING',
+    PRAGMA: 'PRAGMA is SQLite syntax; use SHOW or information_schema',
+    AUTOINCREMENT: 'MySQL spells it AUTO_INCREMENT',
+    STRING_AGG: 'Use GROUP_CONCAT(expression SEPARATOR str) in MySQL',
+    '::': "'::' casts are PostgreSQL syntax; use CAST(value AS type)",
+  },
+  backslashEscapes: true,
+  hashComments: true,
+  dollarQuotes: false,
+};
+
+const POSTGRESQL_CATALOG: SqlDialectCatalog = {
+  dialect: 'postgresql',
+  label: 'PostgreSQL',
+  keywords: [
+    'ILIKE',
+    'NOT ILIKE',
+    'SIMILAR TO',
+    'RETURNING',
+    'ON CONFLICT',
+    'DO NOTHING',
+    'DO UPDATE',
+    'DISTINCT ON',
+    'LATERAL',
+    'FULL JOIN',
+    'WITH RECURSIVE',
+    'FILTER',
+    'OVER',
+    'PARTITION BY',
+    'FOR UPDATE',
+    'SKIP LOCKED',
+    'SHOW',
+    'ANALYZE',
+    'VACUUM',
+    'COPY',
+  ],
+  statements: ['SHOW', 'ANALYZE', 'VACUUM', 'COPY'],
+  clauseKeywords: ['RETURNING', 'ON CONFLICT'],
+  functions: [
+    ...COMMON_FUNCTIONS,
+    {
+      name: 'STRING_AGG',
+      signature: 'STRING_AGG(expression, delimiter [ORDER BY ...])',
+      description: 'Concatenates the values of a group with a delimiter',
+      category: 'aggregate',
+    },
+    {
+      name: 'ARRAY_AGG',
+      signature: 'ARRAY_AGG(expression [ORDER BY ...])',
+      description: 'Collects the values of a group into an array',
+      category: 'aggregate',
+    },
+    {
+      name: 'BOOL_AND',
+      signature: 'BOOL_AND(expression)',
+      description: 'True if all values of the group are true',
+      category: 'aggregate',
+    },
+    {
+      name: 'BOOL_OR',
+      signature: 'BOOL_OR(expression)',
+      description: 'True if any value of the group is true',
+      category: 'aggregate',
+    },
+    {
+      name: 'CONCAT',
+      signature: 'CONCAT(string1, string2, ...)',
+      description: 'Concatenates strings, ignoring NULLs',
+      category: 'string',
+    },
+    {
+      name: 'CONCAT_WS',
+      signature: 'CONCAT_WS(separator, string1, string2, ...)',
+      description: 'Concatenates strings with a separator, skipping NULLs',
+      category: 'string',
+    },
+    {
+      name: 'SPLIT_PART',
+      signature: 'SPLIT_PART(string, delimiter, n)',
+      description: 'Returns the n-th field of a delimited string',
+      category: 'string',
+    },
+    {
+      name: 'REGEXP_REPLACE',
+      signature: 'REGEXP_REPLACE(string, pattern, replacement, flags)',
+      description: 'Replaces substrings matching a POSIX regular expression',
+      category: 'string',
+    },
+    {
+      name: 'INITCAP',
+      signature: 'INITCAP(string)',
+      description: 'Capitalizes the first letter of each word',
+      category: 'string',
+    },
+    {
+      name: 'LPAD',
+      signature: 'LPAD(string, length, fill)',
+      description: 'Left-pads a string to a length',
+      category: 'string',
+    },
+    {
+      name: 'RPAD',
+      signature: 'RPAD(string, length, fill)',
+      description: 'Right-pads a string to a length',
+      category: 'string',
+    },
+    {
+      name: 'FORMAT',
+      signature: 'FORMAT(format, ...args)',
+      description: 'Formats a string with %s, %I and %L placeholders',
+      category: 'string',
+    },
+    {
+      name: 'CEIL',
+      signature: 'CEIL(number)',
+      description: 'Rounds up to the nearest integer',
+      category: 'numeric',
+    },
+    {
+      name: 'FLOOR',
+      signature: 'FLOOR(number)',
+      description: 'Rounds down to the nearest integer',
+      category: 'numeric',
+    },
+    {
+      name: 'MOD',
+      signature: 'MOD(dividend, divisor)',
+      description: 'Returns the remainder of a division',
+      category: 'numeric',
+    },
+    {
+      name: 'RANDOM',
+      signature: 'RANDOM()',
+      description: 'Returns a random number between 0 and 1',
+      category: 'numeric',
+    },
+    {
+      name: 'GREATEST',
+      signature: 'GREATEST(value1, value2, ...)',
+      description: 'Returns the largest argument, ignoring NULLs',
+      category: 'numeric',
+    },
+    {
+      name: 'LEAST',
+      signature: 'LEAST(value1, value2, ...)',
+      description: 'Returns the smallest argument, ignoring NULLs',
+      category: 'numeric',
+    },
+    {
+      name: 'NOW',
+      signature: 'NOW()',
+      description: 'Returns the start time of the current transaction',
+      category: 'datetime',
+    },
+    {
+      name: 'DATE_TRUNC',
+      signature: "DATE_TRUNC('unit', timestamp)",
+      description: "Truncates a timestamp to a unit such as 'day' or 'month'",
+      category: 'datetime',
+    },
+    {
+      name: 'DATE_PART',
+      signature: "DATE_PART('field', timestamp)",
+      description: 'Returns a field of a timestamp, same as EXTRACT',
+      category: 'datetime',
+    },
+    {
+      name: 'EXTRACT',
+      signature: 'EXTRACT(field FROM timestamp)',
+      description: 'Returns a field such as YEAR or EPOCH of a timestamp',
+      category: 'datetime',
+    },
+    {
+      name: 'AGE',
+      signature: 'AGE(timestamp1, timestamp2)',
+      description: 'Returns the interval between two timestamps',
+      category: 'datetime',
+    },
+    {
+      name: 'TO_CHAR',
+      signature: 'TO_CHAR(value, format)',
+      description: "Formats a timestamp or number, e.g. with 'YYYY-MM-DD'",
+      category: 'datetime',
+    },
+    {
+      name: 'TO_TIMESTAMP',
+      signature: 'TO_TIMESTAMP(string, format)',
+      description: 'Parses a string, or converts Unix epoch seconds',
+      category: 'datetime',
+    },
+    {
+      name: 'GENERATE_SERIES',
+      signature: 'GENERATE_SERIES(start, stop, step)',
+      description: 'Returns a set of numbers or timestamps from start to stop',
+      category: 'system',
+    },
+    {
+      name: 'UNNEST',
+      signature: 'UNNEST(array)',
+      description: 'Expands an array into a set of rows',
+      category: 'system',
+    },
+    {
+      name: 'ARRAY_LENGTH',
+      signature: 'ARRAY_LENGTH(array, dimension)',
+      description: 'Returns the length of an array dimension',
+      category: 'system',
+    },
+    {
+      name: 'JSONB_BUILD_OBJECT',
+      signature: 'JSONB_BUILD_OBJECT(key1, value1, ...)',
+      description: 'Builds a jsonb object from key/value pairs',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_BUILD_ARRAY',
+      signature: 'JSONB_BUILD_ARRAY(value1, value2, ...)',
+      description: 'Builds a jsonb array',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_AGG',
+      signature: 'JSONB_AGG(expression)',
+      description: 'Aggregates the values of a group into a jsonb array',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_OBJECT_AGG',
+      signature: 'JSONB_OBJECT_AGG(key, value)',
+      description: 'Aggregates key/value pairs of a group into a jsonb object',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_ARRAY_ELEMENTS',
+      signature: 'JSONB_ARRAY_ELEMENTS(jsonb)',
+      description: 'Expands a jsonb array into a set of rows',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_EACH',
+      signature: 'JSONB_EACH(jsonb)',
+      description: 'Expands a jsonb object into key/value rows',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_EXTRACT_PATH_TEXT',
+      signature: 'JSONB_EXTRACT_PATH_TEXT(jsonb, key1, key2, ...)',
+      description: "Returns the text at a path, same as 'col #>> path'",
+      category: 'json',
+    },
+    {
+      name: 'JSONB_SET',
+      signature: 'JSONB_SET(target, path, new_value, create_missing)',
+      description: 'Replaces or adds the value at a path',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_TYPEOF',
+      signature: 'JSONB_TYPEOF(jsonb)',
+      description: 'Returns the type of the outermost jsonb value',
+      category: 'json',
+    },
+    {
+      name: 'JSONB_PRETTY',
+      signature: 'JSONB_PRETTY(jsonb)',
+      description: 'Formats jsonb as indented text',
+      category: 'json',
+    },
+    {
+      name: 'TO_JSONB',
+      signature: 'TO_JSONB(value)',
+      description: 'Converts any value to jsonb',
+      category: 'json',
+    },
+    {
+      name: 'NEXTVAL',
+      signature: "NEXTVAL('sequence')",
+      description: 'Advances a sequence and returns its new value',
+      category: 'system',
+    },
+    {
+      name: 'CURRVAL',
+      signature: "CURRVAL('sequence')",
+      description: 'Returns the last value NEXTVAL returned in this session',
+      category: 'system',
+    },
+    {
+      name: 'GEN_RANDOM_UUID',
+      signature: 'GEN_RANDOM_UUID()',
+      description: 'Returns a random version 4 UUID',
+      category: 'system',
+    },
+    {
+      name: 'CURRENT_SETTING',
+      signature: "CURRENT_SETTING('setting_name')",
+      description: 'Returns the current value of a configuration setting',
+      category: 'system',
+    },
+    {
+      name: 'PG_SIZE_PRETTY',
+      signature: 'PG_SIZE_PRETTY(bytes)',
+      description: 'Formats a size in bytes as kB, MB or GB',
+      category: 'system',
+    },
+    {
+      name: 'PG_TOTAL_RELATION_SIZE',
+      signature: "PG_TOTAL_RELATION_SIZE('table')",
+      description: 'Returns the disk size of a table with its indexes',
+      category: 'system',
+    },
+    {
+      name: 'VERSION',
+      signature: 'VERSION()',
+      description: 'Returns the PostgreSQL server version',
+      category: 'system',
+    },
+  ],
+  docs: {
+    EXPLAIN: {
+      syntax: 'EXPLAIN [(ANALYZE, BUFFERS, FORMAT JSON)] statement',
+      description:
+        'Shows the plan PostgreSQL chooses for a query. ANALYZE runs it and reports actual timings.',
+      example: 'EXPLAIN (ANALYZE, BUFFERS) SELECT * FROM users WHERE id = 1',
+    },
+    ILIKE: {
+      syntax: 'expression ILIKE pattern',
+      description: 'Case-insensitive LIKE.',
+      example: "SELECT * FROM users WHERE email ILIKE '%@example.com'",
+    },
+    RETURNING: {
+      syntax: 'INSERT | UPDATE | DELETE ... RETURNING expression, ...',
+      description: 'Returns the inserted, updated or deleted rows.',
+      example: "INSERT INTO users (name) VALUES ('John') RETURNING id",
+    },
+    'ON CONFLICT': {
+      syntax:
+        'INSERT ... ON CONFLICT (column) | ON CONSTRAINT name DO NOTHING | DO UPDATE SET ...',
+      description:
+        'Turns an INSERT that violates a unique or exclusion constraint into an upsert.',
+      example:
+        'INSERT INTO stock (sku, qty) VALUES (1, 5) ON CONFLICT (sku) DO UPDATE SET qty = stock.qty + EXCLUDED.qty',
+    },
+    'DISTINCT ON': {
+      syntax:
+        'SELECT DISTINCT ON (expression, ...) ... ORDER BY expression, ...',
+      description:
+        'Keeps the first row of each group of equal expressions, in ORDER BY order.',
+      example:
+        'SELECT DISTINCT ON (user_id) * FROM orders ORDER BY user_id, created_at DESC',
+    },
+    LATERAL: {
+      syntax: 'FROM table, LATERAL (subquery)',
+      description:
+        'Lets a subquery in FROM reference columns of the tables before it.',
+      example:
+        'SELECT * FROM users u, LATERAL (SELECT * FROM orders o WHERE o.user_id = u.id LIMIT 3) recent',
+    },
+    'SIMILAR TO': {
+      syntax: 'expression SIMILAR TO pattern',
+      description: 'Matches a SQL regular expression, LIKE with regex syntax.',
+      example: "SELECT * FROM files WHERE name SIMILAR TO '%.(png|jpg)'",
+    },
+    SHOW: {
+      syntax: 'SHOW setting_name | ALL',
+      description: 'Shows the value of a run-time setting.',
+      example: 'SHOW search_path',
+    },
+    COPY: {
+      syntax: "COPY table [(columns)] FROM | TO 'file' [WITH (FORMAT csv)]",
+      description: 'Copies data between a table and a file on the server.',
+      example: "COPY users TO '/tmp/users.csv' WITH (FORMAT csv, HEADER)",
+    },
+  },
+  operators: [
+    {
+      symbol: '::',
+      description: 'Casts a value to a type, same as CAST(value AS type)',
+      example: "SELECT '2024-01-01'::date, id::text FROM users",
+      tight: true,
+    },
+    {
+      symbol: '->>',
+      description: 'Gets a JSON object field or array element as text',
+      example: "SELECT data->>'name' FROM users",
+    },
+    {
+      symbol: '->',
+      description: 'Gets a JSON object field or array element as JSON',
+      example: "SELECT data->'address'->'city' FROM users",
+    },
+    {
+      symbol: '#>>',
+      description: 'Gets the JSON value at a path as text',
+      example: "SELECT data#>>'{address,city}' FROM users",
+    },
+    {
+      symbol: '#>',
+      description: 'Gets the JSON value at a path',
+      example: "SELECT data#>'{address}' FROM users",
+    },
+    {
+      symbol: '@>',
+      description: 'Contains: the left JSON or array contains the right one',
+      example: 'SELECT * FROM users WHERE data @> \'{"role": "admin"}\'',
+    },
+    {
+      symbol: '<@',
+      description: 'Is contained by: the right JSON or array contains the left',
+      example: "SELECT * FROM users WHERE tags <@ ARRAY['a', 'b']",
+    },
+    {
+      symbol: '?|',
+      description: 'Does the jsonb have any of these top-level keys?',
+      example: "SELECT * FROM users WHERE data ?| ARRAY['email', 'phone']",
+    },
+    {
+      symbol: '?&',
+      description: 'Does the jsonb have all of these top-level keys?',
+      example: "SELECT * FROM users WHERE data ?& ARRAY['email', 'phone']",
+    },
+    {
+      symbol: '?',
+      description: 'Does the jsonb have this top-level key?',
+      example: "SELECT * FROM users WHERE data ? 'email'",
+    },
+    {
+      symbol: '&&',
+      description: 'Overlaps: the arrays or ranges have elements in common',
+      example: "SELECT * FROM posts WHERE tags && ARRAY['sql']",
+    },
+    {
+      symbol: '!~*',
+      description: 'Does not match a regular expression, case-insensitively',
+      example: "SELECT * FROM users WHERE name !~* '^a'",
+    },
+    {
+      symbol: '!~',
+      description: 'Does not match a regular expression',
+      example: "SELECT * FROM users WHERE name !~ '^A'",
+    },
+    {
+      symbol: '~*',
+      description: 'Matches a regular expression, case-insensitively',
+      example: "SELECT * FROM users WHERE name ~* '^a'",
+    },
+    {
+      symbol: '~',
+      description: 'Matches a regular expression',
+      example: "SELECT * FROM users WHERE name ~ '^A'",
+    },
+    {
+      symbol: '||',
+      description: 'Concatenates strings, arrays or jsonb values',
+      example: "SELECT first_name || ' ' || last_name FROM users",
+    },
+  ],
+  castTypes: [
+    'text',
+    'varchar',
+    'integer',
+    'int',
+    'bigint',
+    'smallint',
+    'numeric',
+    'real',
+    'double precision',
+    'boolean',
+    'date',
+    'time',
+    'timestamp',
+    'timestamptz',
+    'interval',
+    'uuid',
+    'json',
+    'jsonb',
+    'bytea',
+    'inet',
+    'regclass',
+    'text[]',
+    'integer[]',
+  ],
+  foreignSyntax: {
+    PRAGMA: 'PRAGMA is SQLite syntax; use SHOW or the pg_catalog views',
+    AUTO_INCREMENT: 'Use GENERATED ALWAYS AS IDENTITY or SERIAL in PostgreSQL',
+    AUTOINCREMENT: 'Use GENERATED ALWAYS AS IDENTITY or SERIAL in PostgreSQL',
+    IFNULL: 'PostgreSQL has no IFNULL; use COALESCE',
+    GROUP_CONCAT: 'Use STRING_AGG(expression, delimiter) in PostgreSQL',
+    '`': 'PostgreSQL quotes identifiers with double quotes, not backticks',
+  },
+  backslashEscapes: false,
+  hashComments: false,
+  dollarQuotes: true,
+};
+
+const CATALOGS: Record<SqlDialect, SqlDialectCatalog> = {
+  sqlite: SQLITE_CATALOG,
+  mysql: MYSQL_CATALOG,
+  postgresql: POSTGRESQL_CATALOG,
+};
+
+/**
+ * Returns the language service catalog of a dialect.
+ */
+export function getDialectCatalog(dialect: SqlDialect): SqlDialectCatalog {
+  return CATALOGS[dialect];
+}
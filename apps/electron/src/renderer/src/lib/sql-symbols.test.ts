@@ -0,0 +1,260 @@
+import type { DatabaseSchema, TableSchema } from '@/types/database';
+import { describe, expect, it } from 'vitest';
+import {
+  findSqlReferences,
+  getSqlStatementSymbols,
+  renameSqlSymbol,
+  resolveSqlSymbol,
+} from './sql-symbols';
+
+function table(name: string, columns: string[], schema = 'main'): TableSchema {
+  return {
+    name,
+    schema,
+    type: 'table',
+    columns: columns.map((column) => ({
+      name: column,
+      type: 'INTEGER',
+      nullable: true,
+      defaultValue: null,
+      isPrimaryKey: column === 'id',
+    })),
+    primaryKey: ['id'],
+    foreignKeys: [],
+    indexes: [],
+    triggers: [],
+    sql: '',
+  };
+}
+
+const users = table('users', ['id', 'name', 'email']);
+const orders = table('orders', ['id', 'user_id', 'total']);
+const schema: DatabaseSchema = {
+  schemas: [{ name: 'main', tables: [users, orders], views: [] }],
+  tables: [users, orders],
+  views: [],
+};
+
+/** Offset of the nth occurrence of a marker in the SQL */
+function at(sql: string, marker: string, nth = 1): number {
+  let offset = -1;
+  for (let i = 0; i < nth; i++) {
+    offset = sql.indexOf(marker, offset + 1);
+  }
+  return offset;
+}
+
+function apply(
+  sql: string,
+  edits: { span: { start: number; end: number }; text: string }[]
+) {
+  return [...edits]
+    .sort((a, b) => b.span.start - a.span.start)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.span.start) + edit.text + text.slice(edit.span.end),
+      sql
+    );
+}
+
+describe('sql-symbols', () => {
+  describe('resolveSqlSymbol', () => {
+    it('should resolve an alias usage to its declaration', () => {
+      const sql = 'SELECT u.name FROM users u';
+      const result = resolveSqlSymbol(sql, at(sql, 'u.'), schema);
+
+      expect(result?.symbol).toMatchObject({
+        kind: 'alias',
+        name: 'u',
+        declaration: { start: sql.length - 1, end: sql.length },
+      });
+    });
+
+    it('should resolve qualified and unqualified columns to their table', () => {
+      const sql =
+        'SELECT total FROM users AS u JOIN orders o ON o.user_id = u.id';
+
+      expect(resolveSqlSymbol(sql, at(sql, 'total'), schema)?.symbol).toEqual({
+        kind: 'column',
+        table: 'orders',
+        schema: 'main',
+        column: 'total',
+      });
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'u.id') + 2, schema)?.symbol
+      ).toEqual({
+        kind: 'column',
+        table: 'users',
+        schema: 'main',
+        column: 'id',
+      });
+      expect(resolveSqlSymbol(sql, at(sql, 'orders'), schema)?.symbol).toEqual({
+        kind: 'table',
+        table: 'orders',
+        schema: 'main',
+      });
+    });
+
+    it('should resolve CTE names and their columns', () => {
+      const sql = [
+        'WITH big (uid, amount) AS (SELECT user_id, total FROM orders),',
+        'named AS (SELECT u.id, count(*) AS cnt FROM users u GROUP BY u.id)',
+        'SELECT b.amount, n.cnt, n.id FROM big b JOIN named n ON n.id = b.uid',
+      ].join('\n');
+
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'big', 2), schema)?.symbol
+      ).toMatchObject({ kind: 'cte', name: 'big', declaration: { start: 5 } });
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'amount', 2), schema)?.symbol
+      ).toMatchObject({
+        kind: 'cteColumn',
+        cte: 'big',
+        declaration: { start: at(sql, 'amount') },
+        implicit: false,
+      });
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'cnt', 2), schema)?.symbol
+      ).toMatchObject({ kind: 'cteColumn', cte: 'named', implicit: false });
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'n.id') + 2, schema)?.symbol
+      ).toMatchObject({
+        kind: 'cteColumn',
+        cte: 'named',
+        declaration: { start: at(sql, 'u.id') + 2 },
+        implicit: true,
+      });
+    });
+
+    it('should scope aliases to their subquery', () => {
+      const sql =
+        'SELECT * FROM users x WHERE EXISTS (SELECT 1 FROM orders x WHERE x.total > 0) AND x.name = 1';
+
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'x.total'), schema)?.symbol
+      ).toMatchObject({
+        kind: 'alias',
+        declaration: { start: at(sql, 'x W', 2) },
+      });
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'x.name'), schema)?.symbol
+      ).toMatchObject({
+        kind: 'alias',
+        declaration: { start: at(sql, 'x W', 1) },
+      });
+      expect(
+        resolveSqlSymbol(sql, at(sql, 'x.name') + 2, schema)?.symbol
+      ).toMatchObject({ kind: 'column', table: 'users', column: 'name' });
+    });
+
+    it('should ignore keywords, functions, strings and comments', () => {
+      const sql = "SELECT count(id), 'users' FROM users -- users";
+
+      expect(resolveSqlSymbol(sql, at(sql, 'SELECT'), schema)).toBeNull();
+      expect(resolveSqlSymbol(sql, at(sql, 'count'), schema)).toBeNull();
+      expect(resolveSqlSymbol(sql, at(sql, "users'"), schema)).toBeNull();
+      expect(resolveSqlSymbol(sql, at(sql, 'users', 3), schema)).toBeNull();
+    });
+  });
+
+  describe('findSqlReferences', () => {
+    it('should find alias usages within the statement', () => {
+      const sql =
+        'SELECT o.id FROM orders o WHERE o.total > 1; SELECT o FROM t';
+      const spans = findSqlReferences(sql, at(sql, 'o.'), schema).map(
+        (o) => o.span.start
+      );
+
+      expect(spans).toEqual([
+        at(sql, 'o.'),
+        at(sql, 'o W'),
+        at(sql, 'o.total'),
+      ]);
+    });
+
+    it('should find column usages across statements', () => {
+      const sql =
+        'SELECT total FROM orders; UPDATE orders SET total = 0 WHERE id = 1';
+
+      expect(findSqlReferences(sql, at(sql, 'total'), schema)).toHaveLength(2);
+    });
+  });
+
+  describe('renameSqlSymbol', () => {
+    it('should rename an alias and all of its usages', () => {
+      const sql = 'SELECT u.name FROM users u WHERE u.id = 1';
+      const result = renameSqlSymbol(sql, at(sql, 'u.'), 'usr', schema);
+
+      expect('edits' in result && apply(sql, result.edits)).toBe(
+        'SELECT usr.name FROM users usr WHERE usr.id = 1'
+      );
+    });
+
+    it('should rename a CTE and its columns', () => {
+      const sql =
+        'WITH t AS (SELECT id, total AS amount FROM orders) SELECT t.amount FROM t';
+      const renamedCte = renameSqlSymbol(
+        sql,
+        at(sql, 'FROM t') + 5,
+        'big',
+        schema
+      );
+      const renamedColumn = renameSqlSymbol(
+        sql,
+        at(sql, 't.amount') + 2,
+        'value',
+        schema
+      );
+
+      expect('edits' in renamedCte && apply(sql, renamedCte.edits)).toBe(
+        'WITH big AS (SELECT id, total AS amount FROM orders) SELECT big.amount FROM big'
+      );
+      expect('edits' in renamedColumn && apply(sql, renamedColumn.edits)).toBe(
+        'WITH t AS (SELECT id, total AS value FROM orders) SELECT t.value FROM t'
+      );
+    });
+
+    it('should alias a bare column when renaming its CTE column', () => {
+      const sql = 'WITH t AS (SELECT id FROM users) SELECT id FROM t';
+      const result = renameSqlSymbol(
+        sql,
+        sql.lastIndexOf('id'),
+        'user_id',
+        schema
+      );
+
+      expect('edits' in result && apply(sql, result.edits)).toBe(
+        'WITH t AS (SELECT id AS user_id FROM users) SELECT user_id FROM t'
+      );
+    });
+
+    it('should reject renaming tables and invalid names', () => {
+      const sql = 'SELECT * FROM users u';
+
+      expect(renameSqlSymbol(sql, at(sql, 'users'), 'x', schema)).toEqual({
+        rejectReason: 'Only aliases, CTEs and CTE columns can be renamed',
+      });
+      expect(renameSqlSymbol(sql, sql.length, 'a b', schema)).toEqual({
+        rejectReason: '"a b" is not a valid identifier',
+      });
+    });
+  });
+
+  describe('getSqlStatementSymbols', () => {
+    it('should list the CTEs and sources visible at an offset', () => {
+      const sql = 'WITH t AS (SELECT 1 AS n) SELECT  FROM t JOIN users u';
+      const { ctes, sources } = getSqlStatementSymbols(
+        sql,
+        at(sql, '  FROM') + 1
+      );
+
+      expect(
+        ctes.map((c) => [c.name, c.columns.map((col) => col.name)])
+      ).toEqual([['t', ['n']]]);
+      expect(sources.map((s) => [s.table, s.alias?.name, !!s.cte])).toEqual([
+        ['t', undefined, true],
+        ['users', 'u', false],
+      ]);
+    });
+  });
+});
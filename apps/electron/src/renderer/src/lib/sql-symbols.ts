@@ -0,0 +1,993 @@
+import type { SqlDialect } from '@shared/types';
+import type { DatabaseSchema, TableSchema } from '@/types/database';
+import { getDialectCatalog } from './sql-dialect-catalogs';
+
+/**
+ * Range of text in a SQL document, as character offsets.
+ * For quoted identifiers the span covers the name without its quotes.
+ */
+export interface SqlSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Column of a CTE, declared in its column list or by its select list.
+ */
+export interface SqlCteColumn {
+  name: string;
+  span: SqlSpan;
+  /** Named after a bare column of the select list rather than an alias */
+  implicit: boolean;
+}
+
+/**
+ * Common table expression declared by a WITH clause.
+ */
+export interface SqlCte {
+  name: string;
+  span: SqlSpan;
+  columns: SqlCteColumn[];
+  /** Range where the CTE can be referenced */
+  scope: SqlSpan;
+}
+
+/**
+ * Table, view, CTE or subquery read by a FROM, JOIN, UPDATE or INTO clause.
+ */
+export interface SqlSource {
+  /** Table or CTE name, empty for subqueries */
+  table: string;
+  schema?: string;
+  span: SqlSpan;
+  alias?: { name: string; span: SqlSpan };
+  /** Set when the source reads a CTE */
+  cte?: SqlCte;
+  /** Range where the source's alias and columns can be referenced */
+  scope: SqlSpan;
+}
+
+/**
+ * What an identifier in a statement refers to.
+ */
+export type SqlSymbol =
+  | { kind: 'alias'; name: string; declaration: SqlSpan; source: SqlSource }
+  | { kind: 'cte'; name: string; declaration: SqlSpan }
+  | {
+      kind: 'cteColumn';
+      name: string;
+      cte: string;
+      declaration: SqlSpan;
+      implicit: boolean;
+    }
+  | { kind: 'table'; table: string; schema?: string }
+  | { kind: 'column'; table: string; schema?: string; column: string };
+
+/**
+ * A resolved identifier and the span it covers.
+ */
+export interface SqlSymbolOccurrence {
+  symbol: SqlSymbol;
+  span: SqlSpan;
+}
+
+/**
+ * Text edit of a rename, as a span of the document and its replacement.
+ */
+export interface SqlRenameEdit {
+  span: SqlSpan;
+  text: string;
+}
+
+export type SqlRenameResult =
+  | { edits: SqlRenameEdit[] }
+  | { rejectReason: string };
+
+type TokenKind = 'word' | 'quoted' | 'punct' | 'other';
+
+interface Token extends SqlSpan {
+  kind: TokenKind;
+  text: string;
+  /** Index of the enclosing "(" token, or -1 at the top of the statement */
+  parent: number;
+}
+
+interface StatementSymbols {
+  span: SqlSpan;
+  tokens: Token[];
+  ctes: SqlCte[];
+  sources: SqlSource[];
+}
+
+/**
+ * Words that end a table reference rather than alias it.
+ */
+const NON_ALIAS_WORDS = new Set([
+  'ON',
+  'USING',
+  'WHERE',
+  'AND',
+  'OR',
+  'NOT',
+  'LEFT',
+  'RIGHT',
+  'INNER',
+  'OUTER',
+  'FULL',
+  'CROSS',
+  'NATURAL',
+  'JOIN',
+  'STRAIGHT_JOIN',
+  'ORDER',
+  'GROUP',
+  'HAVING',
+  'LIMIT',
+  'OFFSET',
+  'FETCH',
+  'FOR',
+  'WINDOW',
+  'UNION',
+  'INTERSECT',
+  'EXCEPT',
+  'SET',
+  'VALUES',
+  'SELECT',
+  'DEFAULT',
+  'RETURNING',
+  'AS',
+  'WITH',
+  'LATERAL',
+  'ONLY',
+  'INDEXED',
+  'FROM',
+  'WHEN',
+  'THEN',
+  'ELSE',
+  'END',
+  'CASE',
+  'IS',
+  'IN',
+  'LIKE',
+  'BETWEEN',
+]);
+
+const SOURCE_KEYWORDS = new Set(['FROM', 'JOIN', 'UPDATE', 'INTO']);
+
+// Clauses that end the select list of a query without FROM
+const SELECT_LIST_END = new Set([
+  'FROM',
+  'WHERE',
+  'GROUP',
+  'HAVING',
+  'ORDER',
+  'LIMIT',
+  'UNION',
+  'INTERSECT',
+  'EXCEPT',
+  'WINDOW',
+  'INTO',
+]);
+
+const PLAIN_IDENTIFIER = /^[A-Z_][\w$]*$/i;
+
+const WORD_CHAR = /[\w$]/;
+
+/**
+ * Splits SQL into identifiers and punctuation, skipping strings and
+ * comments. Parentheses are tracked so that each token knows its group.
+ */
+function tokenize(sql: string, dialect: SqlDialect): Token[] {
+  const catalog = getDialectCatalog(dialect);
+  const tokens: Token[] = [];
+  const parents: number[] = [];
+  const parent = () => (parents.length > 0 ? parents[parents.length - 1] : -1);
+  const push = (kind: TokenKind, text: string, start: number, end: number) => {
+    tokens.push({ kind, text, start, end, parent: parent() });
+  };
+
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (
+      (char === '-' && next === '-') ||
+      (char === '#' && catalog.hashComments)
+    ) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'") {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === '\\' && catalog.backslashEscapes) {
+          i += 2;
+        } else if (sql[i] === "'" && sql[i + 1] === "'") {
+          i += 2;
+        } else if (sql[i] === "'") {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+    } else if (
+      char === '"' ||
+      char === '`' ||
+      (char === '[' && dialect === 'sqlite')
+    ) {
+      const close = char === '[' ? ']' : char;
+      const start = i + 1;
+      let end = sql.indexOf(close, start);
+      // Quotes inside quoted identifiers are doubled
+      if (close !== ']') {
+        while (end !== -1 && sql[end + 1] === close) {
+          end = sql.indexOf(close, end + 2);
+        }
+      }
+      if (end === -1) end = sql.length;
+      push('quoted', sql.slice(start, end), start, end);
+      i = end + 1;
+    } else if (char === '$' && catalog.dollarQuotes) {
+      const tag = /^\$(?:[A-Z_]\w*)?\$/i.exec(sql.slice(i))?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        i = end === -1 ? sql.length : end + tag.length;
+      } else {
+        // Positional parameter such as $1
+        let end = i + 1;
+        while (end < sql.length && /\d/.test(sql[end])) end++;
+        push('other', sql.slice(i, end), i, end);
+        i = end;
+      }
+    } else if (WORD_CHAR.test(char)) {
+      let end = i + 1;
+      while (end < sql.length && WORD_CHAR.test(sql[end])) end++;
+      const text = sql.slice(i, end);
+      push(/^\d/.test(text) ? 'other' : 'word', text, i, end);
+      i = end;
+    } else if (char === '(') {
+      push('punct', char, i, i + 1);
+      parents.push(tokens.length - 1);
+      i++;
+    } else if (char === ')') {
+      parents.pop();
+      push('punct', char, i, i + 1);
+      i++;
+    } else if (char === '.' || char === ',' || char === ';') {
+      push('punct', char, i, i + 1);
+      i++;
+    } else if (char === ':' && next === ':') {
+      push('other', '::', i, i + 2);
+      i += 2;
+    } else {
+      push('other', char, i, i + 1);
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function isIdentifier(token: Token | undefined): token is Token {
+  return token?.kind === 'word' || token?.kind === 'quoted';
+}
+
+function isPunct(token: Token | undefined, text: string): boolean {
+  return token?.kind === 'punct' && token.text === text;
+}
+
+function isKeyword(token: Token | undefined, ...keywords: string[]): boolean {
+  return token?.kind === 'word' && keywords.includes(token.text.toUpperCase());
+}
+
+function isReservedWord(word: string): boolean {
+  return NON_ALIAS_WORDS.has(word.toUpperCase());
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function spanOf(token: Token): SqlSpan {
+  return { start: token.start, end: token.end };
+}
+
+function contains(span: SqlSpan, offset: number): boolean {
+  return offset >= span.start && offset <= span.end;
+}
+
+/**
+ * Index of the ")" that closes the "(" at the given index.
+ */
+function findClose(tokens: Token[], open: number): number {
+  for (let i = open + 1; i < tokens.length; i++) {
+    if (isPunct(tokens[i], ')') && tokens[i].parent === tokens[open].parent) {
+      return i;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Range covered by the group a token belongs to.
+ */
+function groupScope(
+  tokens: Token[],
+  parent: number,
+  statement: SqlSpan
+): SqlSpan {
+  if (parent === -1) return statement;
+  const close = tokens[findClose(tokens, parent)];
+  return { start: tokens[parent].end, end: close?.start ?? statement.end };
+}
+
+/**
+ * Columns named by the first select list between two token indexes.
+ */
+function parseSelectList(
+  tokens: Token[],
+  from: number,
+  to: number
+): SqlCteColumn[] {
+  const depth = tokens[from]?.parent;
+  let i = from;
+  while (
+    i < to &&
+    !(isKeyword(tokens[i], 'SELECT') && tokens[i].parent === depth)
+  ) {
+    i++;
+  }
+  i++;
+  if (isKeyword(tokens[i], 'DISTINCT', 'ALL')) i++;
+  if (isKeyword(tokens[i], 'ON') && isPunct(tokens[i + 1], '(')) {
+    i = findClose(tokens, i + 1) + 1;
+  }
+
+  const columns: SqlCteColumn[] = [];
+  let item: Token[] = [];
+  const flush = () => {
+    const last = item[item.length - 1];
+    const before = item[item.length - 2];
+    if (isIdentifier(last)) {
+      // "col" or "t.col"
+      const implicit = item.every((t, index) =>
+        index % 2 === 0 ? isIdentifier(t) : isPunct(t, '.')
+      );
+      // "expr AS name", "count(*) name" or "col name"
+      const aliased =
+        isKeyword(before, 'AS') ||
+        isPunct(before, ')') ||
+        (isIdentifier(before) &&
+          !(before.kind === 'word' && isReservedWord(before.text)) &&
+          !isReservedWord(last.text));
+      if (implicit || aliased) {
+        columns.push({ name: last.text, span: spanOf(last), implicit });
+      }
+    }
+    item = [];
+  };
+
+  for (; i < to; i++) {
+    const token = tokens[i];
+    if (token.parent === depth) {
+      if (
+        token.kind === 'word' &&
+        SELECT_LIST_END.has(token.text.toUpperCase())
+      ) {
+        break;
+      }
+      if (isPunct(token, ',')) {
+        flush();
+        continue;
+      }
+      item.push(token);
+    }
+  }
+  flush();
+  return columns;
+}
+
+/**
+ * Parses `WITH name [(columns)] AS [[NOT] MATERIALIZED] (query), ...`
+ * starting at the WITH token.
+ */
+function parseCtes(
+  tokens: Token[],
+  withIndex: number,
+  statement: SqlSpan
+): SqlCte[] {
+  const ctes: SqlCte[] = [];
+  const scope = groupScope(tokens, tokens[withIndex].parent, statement);
+  let i = withIndex + 1;
+  if (isKeyword(tokens[i], 'RECURSIVE')) i++;
+
+  while (isIdentifier(tokens[i])) {
+    const nameToken = tokens[i];
+    const cte: SqlCte = {
+      name: nameToken.text,
+      span: spanOf(nameToken),
+      columns: [],
+      scope,
+    };
+    i++;
+
+    if (isPunct(tokens[i], '(')) {
+      const close = findClose(tokens, i);
+      for (let j = i + 1; j < close; j++) {
+        if (isIdentifier(tokens[j])) {
+          cte.columns.push({
+            name: tokens[j].text,
+            span: spanOf(tokens[j]),
+            implicit: false,
+          });
+        }
+      }
+      i = close + 1;
+    }
+
+    if (!isKeyword(tokens[i], 'AS')) break;
+    i++;
+    if (isKeyword(tokens[i], 'NOT')) i++;
+    if (isKeyword(tokens[i], 'MATERIALIZED')) i++;
+    if (!isPunct(tokens[i], '(')) break;
+
+    const close = findClose(tokens, i);
+    if (cte.columns.length === 0) {
+      cte.columns = parseSelectList(tokens, i + 1, close);
+    }
+    ctes.push(cte);
+    i = close + 1;
+
+    if (!isPunct(tokens[i], ',')) break;
+    i++;
+  }
+
+  return ctes;
+}
+
+/**
+ * Parses the comma separated table references after a FROM, JOIN, UPDATE
+ * or INTO keyword.
+ */
+function parseSources(
+  tokens: Token[],
+  keywordIndex: number,
+  statement: SqlSpan,
+  ctes: SqlCte[]
+): SqlSource[] {
+  const sources: SqlSource[] = [];
+  const scope = groupScope(tokens, tokens[keywordIndex].parent, statement);
+  const allowList = isKeyword(tokens[keywordIndex], 'FROM');
+  let i = keywordIndex + 1;
+
+  for (;;) {
+    if (isKeyword(tokens[i], 'LATERAL', 'ONLY')) i++;
+
+    let source: SqlSource;
+    if (isPunct(tokens[i], '(')) {
+      const close = findClose(tokens, i);
+      source = {
+        table: '',
+        span: {
+          start: tokens[i].start,
+          end: tokens[close]?.end ?? statement.end,
+        },
+        scope,
+      };
+      i = close + 1;
+    } else if (isIdentifier(tokens[i])) {
+      let schemaName: string | undefined;
+      if (isPunct(tokens[i + 1], '.') && isIdentifier(tokens[i + 2])) {
+        schemaName = tokens[i].text;
+        i += 2;
+      }
+      const nameToken = tokens[i];
+      source = { table: nameToken.text, span: spanOf(nameToken), scope };
+      if (schemaName) {
+        source.schema = schemaName;
+      } else {
+        source.cte = ctes.find(
+          (c) =>
+            sameName(c.name, nameToken.text) &&
+            contains(c.scope, nameToken.start)
+        );
+      }
+      i++;
+    } else {
+      break;
+    }
+
+    if (isKeyword(tokens[i], 'AS')) i++;
+    const aliasToken = tokens[i];
+    if (
+      isIdentifier(aliasToken) &&
+      !(aliasToken.kind === 'word' && isReservedWord(aliasToken.text)) &&
+      !isPunct(tokens[i + 1], '(')
+    ) {
+      source.alias = { name: aliasToken.text, span: spanOf(aliasToken) };
+      i++;
+    }
+    sources.push(source);
+
+    if (!allowList || !isPunct(tokens[i], ',')) break;
+    i++;
+  }
+
+  return sources;
+}
+
+/**
+ * Ranges of the statements of a document, split on semicolons.
+ */
+function findStatements(sql: string, dialect: SqlDialect): SqlSpan[] {
+  const spans: SqlSpan[] = [];
+  let start = 0;
+  for (const token of tokenize(sql, dialect)) {
+    if (isPunct(token, ';')) {
+      spans.push({ start, end: token.start });
+      start = token.end;
+    }
+  }
+  spans.push({ start, end: sql.length });
+  return spans;
+}
+
+/**
+ * Collects the CTEs and table references of a statement.
+ */
+function analyzeStatement(
+  sql: string,
+  span: SqlSpan,
+  dialect: SqlDialect
+): StatementSymbols {
+  const tokens = tokenize(sql.slice(span.start, span.end), dialect).map(
+    (token) => ({
+      ...token,
+      start: token.start + span.start,
+      end: token.end + span.start,
+    })
+  );
+
+  const ctes: SqlCte[] = [];
+  tokens.forEach((token, i) => {
+    if (isKeyword(token, 'WITH')) {
+      ctes.push(...parseCtes(tokens, i, span));
+    }
+  });
+
+  const sources: SqlSource[] = [];
+  tokens.forEach((token, i) => {
+    if (
+      token.kind === 'word' &&
+      SOURCE_KEYWORDS.has(token.text.toUpperCase())
+    ) {
+      sources.push(...parseSources(tokens, i, span, ctes));
+    }
+  });
+
+  return { span, tokens, ctes, sources };
+}
+
+/**
+ * Analyzes the statement that contains an offset.
+ */
+function analyzeStatementAt(
+  sql: string,
+  offset: number,
+  dialect: SqlDialect
+): StatementSymbols {
+  const spans = findStatements(sql, dialect);
+  const span =
+    spans.find((s) => offset >= s.start && offset <= s.end) ??
+    spans[spans.length - 1];
+  return analyzeStatement(sql, span, dialect);
+}
+
+/**
+ * Finds a table or view by name, preferring the given schema.
+ */
+function findSchemaTable(
+  schema: DatabaseSchema | null,
+  name: string,
+  schemaName?: string
+): TableSchema | null {
+  if (!schema) return null;
+  const candidates = [...schema.tables, ...schema.views].filter((t) =>
+    sameName(t.name, name)
+  );
+  if (schemaName) {
+    return candidates.find((t) => sameName(t.schema, schemaName)) ?? null;
+  }
+  return candidates[0] ?? null;
+}
+
+function tableSymbol(
+  schema: DatabaseSchema | null,
+  name: string,
+  schemaName?: string
+): SqlSymbol {
+  const table = findSchemaTable(schema, name, schemaName);
+  return {
+    kind: 'table',
+    table: table?.name ?? name,
+    schema: table?.schema ?? schemaName,
+  };
+}
+
+function cteSymbol(cte: SqlCte): SqlSymbol {
+  return { kind: 'cte', name: cte.name, declaration: cte.span };
+}
+
+function cteColumnSymbol(cte: SqlCte, column: SqlCteColumn): SqlSymbol {
+  return {
+    kind: 'cteColumn',
+    name: column.name,
+    cte: cte.name,
+    declaration: column.span,
+    implicit: column.implicit,
+  };
+}
+
+/**
+ * Sources whose scope contains an offset, innermost first.
+ */
+function visibleSources(sources: SqlSource[], offset: number): SqlSource[] {
+  return sources
+    .filter((s) => contains(s.scope, offset))
+    .sort(
+      (a, b) => a.scope.end - a.scope.start - (b.scope.end - b.scope.start)
+    );
+}
+
+type QualifierTarget =
+  | { kind: 'alias'; source: SqlSource }
+  | { kind: 'cte'; cte: SqlCte }
+  | { kind: 'table'; table: string; schema?: string };
+
+/**
+ * Resolves the identifier before a dot to an alias, CTE or table.
+ */
+function resolveQualifier(
+  analysis: StatementSymbols,
+  index: number,
+  schema: DatabaseSchema | null
+): QualifierTarget | null {
+  const { tokens } = analysis;
+  const token = tokens[index];
+
+  // schema.table.column
+  if (isPunct(tokens[index - 1], '.') && isIdentifier(tokens[index - 2])) {
+    return { kind: 'table', table: token.text, schema: tokens[index - 2].text };
+  }
+
+  const sources = visibleSources(analysis.sources, token.start);
+  const aliased = sources.find(
+    (s) => s.alias && sameName(s.alias.name, token.text)
+  );
+  if (aliased) {
+    return { kind: 'alias', source: aliased };
+  }
+
+  const named = sources.find(
+    (s) => !s.alias && s.table && sameName(s.table, token.text)
+  );
+  if (named) {
+    return named.cte
+      ? { kind: 'cte', cte: named.cte }
+      : { kind: 'table', table: named.table, schema: named.schema };
+  }
+
+  const cte = analysis.ctes.find(
+    (c) => sameName(c.name, token.text) && contains(c.scope, token.start)
+  );
+  if (cte) {
+    return { kind: 'cte', cte };
+  }
+
+  const table = findSchemaTable(schema, token.text);
+  return table
+    ? { kind: 'table', table: table.name, schema: table.schema }
+    : null;
+}
+
+function qualifierSymbol(
+  target: QualifierTarget,
+  schema: DatabaseSchema | null
+): SqlSymbol | null {
+  switch (target.kind) {
+    case 'alias': {
+      const { alias } = target.source;
+      return alias
+        ? {
+            kind: 'alias',
+            name: alias.name,
+            declaration: alias.span,
+            source: target.source,
+          }
+        : null;
+    }
+    case 'cte':
+      return cteSymbol(target.cte);
+    case 'table':
+      return tableSymbol(schema, target.table, target.schema);
+  }
+}
+
+/**
+ * Resolves a column name against an alias, CTE or table.
+ */
+function columnSymbol(
+  target: QualifierTarget,
+  name: string,
+  schema: DatabaseSchema | null
+): SqlSymbol | null {
+  if (target.kind === 'alias') {
+    const { source } = target;
+    if (source.cte) {
+      return columnSymbol({ kind: 'cte', cte: source.cte }, name, schema);
+    }
+    // Columns of subqueries are not tracked
+    if (!source.table) return null;
+    return columnSymbol(
+      { kind: 'table', table: source.table, schema: source.schema },
+      name,
+      schema
+    );
+  }
+
+  if (target.kind === 'cte') {
+    const column = target.cte.columns.find((c) => sameName(c.name, name));
+    return column ? cteColumnSymbol(target.cte, column) : null;
+  }
+
+  const table = findSchemaTable(schema, target.table, target.schema);
+  if (schema) {
+    const column = table?.columns.find((c) => sameName(c.name, name));
+    return table && column
+      ? {
+          kind: 'column',
+          table: table.name,
+          schema: table.schema,
+          column: column.name,
+        }
+      : null;
+  }
+  return {
+    kind: 'column',
+    table: target.table,
+    schema: target.schema,
+    column: name,
+  };
+}
+
+/**
+ * Resolves the identifier token at an index of the statement.
+ */
+function resolveToken(
+  analysis: StatementSymbols,
+  index: number,
+  schema: DatabaseSchema | null
+): SqlSymbol | null {
+  const { tokens, ctes, sources } = analysis;
+  const token = tokens[index];
+  const prev = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  // Declarations
+  for (const cte of ctes) {
+    if (cte.span.start === token.start) {
+      return cteSymbol(cte);
+    }
+    const column = cte.columns.find(
+      (c) => !c.implicit && c.span.start === token.start
+    );
+    if (column) {
+      return cteColumnSymbol(cte, column);
+    }
+  }
+  for (const source of sources) {
+    if (source.alias?.span.start === token.start) {
+      return qualifierSymbol({ kind: 'alias', source }, schema);
+    }
+    if (source.table && source.span.start === token.start) {
+      return source.cte
+        ? cteSymbol(source.cte)
+        : tableSymbol(schema, source.table, source.schema);
+    }
+  }
+
+  // Type of a cast
+  if (prev?.text === '::') {
+    return null;
+  }
+
+  // Name after a dot: column of an alias, CTE or table
+  if (isPunct(prev, '.') && isIdentifier(tokens[index - 2])) {
+    if (isPunct(next, '.')) {
+      return tableSymbol(schema, token.text, tokens[index - 2].text);
+    }
+    const target = resolveQualifier(analysis, index - 2, schema);
+    return target ? columnSymbol(target, token.text, schema) : null;
+  }
+
+  // Name before a dot: alias, CTE, table or schema
+  if (isPunct(next, '.')) {
+    // Schema of a table reference, as in FROM public.users
+    if (sources.some((s) => s.span.start === tokens[index + 2]?.start)) {
+      return null;
+    }
+    const target = resolveQualifier(analysis, index, schema);
+    return target ? qualifierSymbol(target, schema) : null;
+  }
+
+  // Function calls and keywords
+  if (
+    isPunct(next, '(') ||
+    (token.kind === 'word' && isReservedWord(token.text))
+  ) {
+    return null;
+  }
+
+  // Unqualified column of a source in scope
+  for (const source of visibleSources(analysis.sources, token.start)) {
+    const symbol = columnSymbol({ kind: 'alias', source }, token.text, schema);
+    if (symbol) return symbol;
+  }
+
+  const table = findSchemaTable(schema, token.text);
+  return table ? tableSymbol(schema, table.name, table.schema) : null;
+}
+
+function tokenIndexAt(tokens: Token[], offset: number): number {
+  const inside = tokens.findIndex(
+    (t) => isIdentifier(t) && offset >= t.start && offset < t.end
+  );
+  if (inside !== -1) return inside;
+  // Cursor right after the identifier
+  return tokens.findIndex((t) => isIdentifier(t) && offset === t.end);
+}
+
+function symbolKey(symbol: SqlSymbol): string {
+  switch (symbol.kind) {
+    case 'alias':
+    case 'cte':
+    case 'cteColumn':
+      return `${symbol.kind}:${symbol.declaration.start}`;
+    case 'table':
+      return `table:${symbol.schema ?? ''}.${symbol.table}`.toLowerCase();
+    case 'column':
+      return `column:${symbol.schema ?? ''}.${symbol.table}.${symbol.column}`.toLowerCase();
+  }
+}
+
+/**
+ * Whether a symbol is declared by the statement itself and can be renamed.
+ */
+export function isLocalSqlSymbol(
+  symbol: SqlSymbol
+): symbol is Extract<SqlSymbol, { declaration: SqlSpan }> {
+  return (
+    symbol.kind === 'alias' ||
+    symbol.kind === 'cte' ||
+    symbol.kind === 'cteColumn'
+  );
+}
+
+/**
+ * Resolves the identifier at an offset to the alias, CTE, CTE column, table
+ * or column it refers to.
+ */
+export function resolveSqlSymbol(
+  sql: string,
+  offset: number,
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
+): SqlSymbolOccurrence | null {
+  const analysis = analyzeStatementAt(sql, offset, dialect);
+  const index = tokenIndexAt(analysis.tokens, offset);
+  if (index === -1) return null;
+
+  const symbol = resolveToken(analysis, index, schema);
+  return symbol ? { symbol, span: spanOf(analysis.tokens[index]) } : null;
+}
+
+/**
+ * Finds every occurrence of the symbol at an offset, including its
+ * declaration. Aliases and CTEs are searched within their statement,
+ * tables and columns within the whole document.
+ */
+export function findSqlReferences(
+  sql: string,
+  offset: number,
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
+): SqlSymbolOccurrence[] {
+  const target = resolveSqlSymbol(sql, offset, schema, dialect);
+  if (!target) return [];
+
+  const key = symbolKey(target.symbol);
+  const statements = isLocalSqlSymbol(target.symbol)
+    ? [analyzeStatementAt(sql, offset, dialect)]
+    : findStatements(sql, dialect).map((span) =>
+        analyzeStatement(sql, span, dialect)
+      );
+
+  const occurrences: SqlSymbolOccurrence[] = [];
+  for (const analysis of statements) {
+    analysis.tokens.forEach((token, index) => {
+      if (!isIdentifier(token)) return;
+      const symbol = resolveToken(analysis, index, schema);
+      if (symbol && symbolKey(symbol) === key) {
+        occurrences.push({ symbol, span: spanOf(token) });
+      }
+    });
+  }
+
+  // A bare column names its CTE column without resolving to it
+  const { symbol } = target;
+  if (
+    symbol.kind === 'cteColumn' &&
+    symbol.implicit &&
+    !occurrences.some((o) => o.span.start === symbol.declaration.start)
+  ) {
+    occurrences.push({ symbol, span: symbol.declaration });
+    occurrences.sort((a, b) => a.span.start - b.span.start);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Computes the edits that rename the alias, CTE or CTE column at an offset
+ * throughout its statement. A CTE column named after a bare column is
+ * renamed by giving that column an alias.
+ */
+export function renameSqlSymbol(
+  sql: string,
+  offset: number,
+  newName: string,
+  schema: DatabaseSchema | null,
+  dialect: SqlDialect = 'sqlite'
+): SqlRenameResult {
+  const target = resolveSqlSymbol(sql, offset, schema, dialect);
+  if (!target || !isLocalSqlSymbol(target.symbol)) {
+    return {
+      rejectReason: 'Only aliases, CTEs and CTE columns can be renamed',
+    };
+  }
+
+  const name = newName.trim();
+  if (!PLAIN_IDENTIFIER.test(name)) {
+    return { rejectReason: `"${name}" is not a valid identifier` };
+  }
+
+  const edits = findSqlReferences(sql, offset, schema, dialect).map(
+    ({ symbol, span }): SqlRenameEdit =>
+      symbol.kind === 'cteColumn' &&
+      symbol.implicit &&
+      span.start === symbol.declaration.start
+        ? { span: { start: span.end, end: span.end }, text: ` AS ${name}` }
+        : { span, text: name }
+  );
+  return { edits };
+}
+
+/**
+ * CTEs and table references of the statement that contains an offset.
+ */
+export function getSqlStatementSymbols(
+  sql: string,
+  offset: number,
+  dialect: SqlDialect = 'sqlite'
+): { ctes: SqlCte[]; sources: SqlSource[] } {
+  const { ctes, sources } = analyzeStatementAt(sql, offset, dialect);
+  return {
+    ctes: ctes.filter((c) => contains(c.scope, offset)),
+    sources: visibleSources(sources, offset),
+  };
+}
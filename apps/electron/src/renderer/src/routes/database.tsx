@@ -140,6 +140,15 @@ export function DatabasePage() {
     };
   }, []);
 
+  // Drop the transactions of tabs whose connection lost its session
+  useEffect(() => {
+    return sqlPro.db.onSessionReset((event) => {
+      useQueryTabsStore
+        .getState()
+        .resetTabTransactions(event.connectionId, event.reason);
+    });
+  }, []);
+
   // Connect to a database
   const connectToDatabase = useCallback(
     async (
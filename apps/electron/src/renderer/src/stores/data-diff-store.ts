@@ -1,4 +1,9 @@
-import type { DataComparisonResult, RowDiff } from '@shared/types';
+import type {
+  DataComparisonResult,
+  DataComparisonSummary,
+  DataDiffProgressEvent,
+  RowDiff,
+} from '@shared/types';
 import { create } from 'zustand';
 
 /**
@@ -54,11 +59,32 @@ export interface PaginationState {
   totalRows: number;
 }
 
+/**
+ * Progress of a streamed comparison, including the row diffs received so far
+ */
+export interface ComparisonProgress {
+  /** ID of the running diff */
+  diffId: string;
+  /** Rows read from both tables so far */
+  rowsProcessed: number;
+  /** Total rows in both tables */
+  totalRows: number;
+  /** Chunks skipped because their checksums matched */
+  chunksSkipped: number;
+  /** Running summary */
+  summary: DataComparisonSummary | null;
+  /** Row diffs received so far */
+  rowDiffs: RowDiff[];
+}
+
 interface DataDiffState {
   // Comparison results
   comparisonResult: DataComparisonResult | null;
   isComparing: boolean;
   comparisonError: string | null;
+  comparisonProgress: ComparisonProgress | null;
+  /** Whether more row diffs were found than were streamed */
+  comparisonTruncated: boolean;
 
   // Source and target selection
   source: TableSelection | null;
@@ -86,6 +112,9 @@ interface DataDiffState {
   setIsComparing: (isComparing: boolean) => void;
   setComparisonError: (error: string | null) => void;
   clearComparison: () => void;
+  startComparisonProgress: (diffId: string) => void;
+  applyComparisonProgress: (event: DataDiffProgressEvent) => void;
+  setComparisonTruncated: (truncated: boolean) => void;
 
   // Actions - Source/Target Selection
   setSource: (source: TableSelection | null) => void;
@@ -154,6 +183,8 @@ const initialState = {
   comparisonResult: null,
   isComparing: false,
   comparisonError: null,
+  comparisonProgress: null,
+  comparisonTruncated: false,
   source: null,
   target: null,
   primaryKeys: [],
@@ -188,10 +219,48 @@ export const useDataDiffStore = create<DataDiffState>((set) => ({
     set({
       comparisonResult: null,
       comparisonError: null,
+      comparisonProgress: null,
+      comparisonTruncated: false,
       isComparing: false,
       selectedRowKeys: new Set(),
     }),
 
+  startComparisonProgress: (diffId) =>
+    set({
+      comparisonResult: null,
+      comparisonError: null,
+      comparisonTruncated: false,
+      comparisonProgress: {
+        diffId,
+        rowsProcessed: 0,
+        totalRows: 0,
+        chunksSkipped: 0,
+        summary: null,
+        rowDiffs: [],
+      },
+    }),
+
+  applyComparisonProgress: (event) =>
+    set((state) => {
+      const progress = state.comparisonProgress;
+      if (!progress || progress.diffId !== event.diffId) return state;
+      return {
+        comparisonProgress: {
+          ...progress,
+          rowsProcessed: event.rowsProcessed,
+          totalRows: event.totalRows,
+          chunksSkipped: event.chunksSkipped,
+          summary: event.summary,
+          rowDiffs:
+            event.rowDiffs.length > 0
+              ? [...progress.rowDiffs, ...event.rowDiffs]
+              : progress.rowDiffs,
+        },
+      };
+    }),
+
+  setComparisonTruncated: (comparisonTruncated) => set({ comparisonTruncated }),
+
   // Source/Target Selection Actions
   setSource: (source) => set({ source }),
 
@@ -0,0 +1,141 @@
+import type { InferredRelationship } from '@shared/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { sqlPro } from '@/lib/api';
+import { useDiagramStore } from './diagram-store';
+
+vi.mock('@/lib/api', () => ({
+  sqlPro: {
+    rendererStore: {
+      set: vi.fn(async () => ({ success: true })),
+    },
+    relationships: {
+      verify: vi.fn(),
+    },
+  },
+}));
+
+const DB = '/path/to/database.sqlite';
+
+describe('useDiagramStore saved views', () => {
+  beforeEach(() => {
+    useDiagramStore.setState({
+      savedViewsMap: {},
+      activeViewIdMap: {},
+      focus: null,
+    });
+  });
+
+  it('should save a view of the given tables and open it', () => {
+    useDiagramStore.setState({ focus: { tableId: 'main.users', hops: 1 } });
+
+    const view = useDiagramStore.getState().saveView(DB, 'Billing', {
+      'main.orders': { x: 0, y: 0 },
+      'main.invoices': { x: 300, y: 0 },
+    });
+
+    const state = useDiagramStore.getState();
+    expect(view.tableIds).toEqual(['main.orders', 'main.invoices']);
+    expect(state.savedViewsMap[DB]).toEqual([view]);
+    expect(state.activeViewIdMap[DB]).toBe(view.id);
+    expect(state.focus).toBeNull();
+  });
+
+  it('should move tables between colour groups and drop emptied groups', () => {
+    const { saveView, setColorGroup } = useDiagramStore.getState();
+    const view = saveView(DB, 'Billing', {
+      'main.orders': { x: 0, y: 0 },
+      'main.invoices': { x: 300, y: 0 },
+    });
+
+    setColorGroup(DB, view.id, {
+      name: 'Core',
+      color: '#3b82f6',
+      tableIds: ['main.orders'],
+    });
+    setColorGroup(DB, view.id, {
+      name: 'Money',
+      color: '#10b981',
+      tableIds: ['main.orders', 'main.invoices'],
+    });
+    setColorGroup(DB, view.id, {
+      name: 'Money',
+      color: '#f59e0b',
+      tableIds: ['main.invoices'],
+    });
+
+    const groups = useDiagramStore.getState().savedViewsMap[DB][0].colorGroups;
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({
+      name: 'Money',
+      color: '#f59e0b',
+      tableIds: ['main.orders', 'main.invoices'],
+    });
+  });
+
+  it('should close a deleted view', () => {
+    const { saveView, deleteView } = useDiagramStore.getState();
+    const view = saveView(DB, 'Billing', { 'main.orders': { x: 0, y: 0 } });
+
+    deleteView(DB, view.id);
+
+    const state = useDiagramStore.getState();
+    expect(state.savedViewsMap[DB]).toEqual([]);
+    expect(state.activeViewIdMap[DB]).toBeUndefined();
+  });
+});
+
+describe('useDiagramStore inferred relationships', () => {
+  const relationship: InferredRelationship = {
+    schema: 'main',
+    table: 'posts',
+    column: 'user_id',
+    referencedTable: 'users',
+    referencedColumn: 'id',
+    confidence: 0.85,
+    reason: 'Column "user_id" is named after table "users"',
+  };
+
+  beforeEach(() => {
+    useDiagramStore.setState({
+      verifiedRelationshipsMap: {},
+      isVerifyingRelationships: false,
+    });
+  });
+
+  it('should keep verified relationships per connection', async () => {
+    const verified = {
+      ...relationship,
+      confidence: 0.95,
+      verification: { sampledValues: 3, matchedValues: 3 },
+    };
+    vi.mocked(sqlPro.relationships.verify).mockResolvedValueOnce({
+      success: true,
+      relationships: [verified],
+    });
+
+    const error = await useDiagramStore
+      .getState()
+      .verifyRelationships('conn-1', [relationship]);
+
+    const state = useDiagramStore.getState();
+    expect(error).toBeNull();
+    expect(state.verifiedRelationshipsMap['conn-1']).toEqual({
+      'main.posts.user_id->users.id': verified,
+    });
+    expect(state.isVerifyingRelationships).toBe(false);
+  });
+
+  it('should return the error of a failed verification', async () => {
+    vi.mocked(sqlPro.relationships.verify).mockResolvedValueOnce({
+      success: false,
+      error: 'Connection not found',
+    });
+
+    const error = await useDiagramStore
+      .getState()
+      .verifyRelationships('conn-1', [relationship]);
+
+    expect(error).toBe('Connection not found');
+    expect(useDiagramStore.getState().verifiedRelationshipsMap).toEqual({});
+  });
+});
@@ -1,11 +1,31 @@
-import type { RendererDiagramState } from '@shared/types/renderer-store';
+import type { InferredRelationship } from '@shared/types';
+import type {
+  DiagramColorGroup,
+  DiagramSavedView,
+  RendererDiagramState,
+} from '@shared/types/renderer-store';
 import type { DiagramViewport, NodePosition } from '@/types/er-diagram';
+import { getRelationshipKey } from '@shared/relationship-inference';
 import { create } from 'zustand';
+import { sqlPro } from '@/lib/api';
 import {
   persistDiagram,
   registerDiagramHydrator,
 } from '@/lib/electron-storage';
 
+/** Tables shown around a focused table */
+export interface DiagramFocus {
+  /** Node id (`schema.table`) of the focused table */
+  tableId: string;
+  /** How many foreign key hops away tables are still shown */
+  hops: number;
+}
+
+// Generate a unique ID for saved views and colour groups
+const generateId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+};
+
 interface DiagramState {
   // Per-database node positions (keyed by database path)
   nodePositionsMap: Record<string, Record<string, NodePosition>>;
@@ -13,6 +33,27 @@ interface DiagramState {
   // Per-database viewport state
   viewportMap: Record<string, DiagramViewport>;
 
+  // Per-database saved views
+  savedViewsMap: Record<string, DiagramSavedView[]>;
+
+  // Per-database open saved view (not persisted)
+  activeViewIdMap: Record<string, string>;
+
+  // Focused table, shown with its neighbours only (not persisted)
+  focus: DiagramFocus | null;
+
+  // Whether relationships inferred from column names are drawn (not
+  // persisted)
+  showInferredRelationships: boolean;
+
+  // Per-connection verified inferred relationships, keyed by
+  // relationship key (not persisted)
+  verifiedRelationshipsMap: Record<
+    string,
+    Record<string, InferredRelationship>
+  >;
+  isVerifyingRelationships: boolean;
+
   // Display options
   showColumns: boolean;
   showTypes: boolean;
@@ -31,6 +72,38 @@ interface DiagramState {
   setViewport: (dbPath: string, viewport: DiagramViewport) => void;
   getViewport: (dbPath: string) => DiagramViewport | undefined;
   resetLayout: (dbPath: string) => void;
+  saveView: (
+    dbPath: string,
+    name: string,
+    nodePositions: Record<string, NodePosition>
+  ) => DiagramSavedView;
+  updateView: (
+    dbPath: string,
+    viewId: string,
+    updates: Partial<Omit<DiagramSavedView, 'id' | 'createdAt'>>
+  ) => void;
+  deleteView: (dbPath: string, viewId: string) => void;
+  setActiveView: (dbPath: string, viewId: string | null) => void;
+  /**
+   * Put tables into a colour group of a view, taking them out of the
+   * view's other groups. A group with the same name is reused.
+   */
+  setColorGroup: (
+    dbPath: string,
+    viewId: string,
+    group: Omit<DiagramColorGroup, 'id'>
+  ) => void;
+  deleteColorGroup: (dbPath: string, viewId: string, groupId: string) => void;
+  setFocus: (focus: DiagramFocus | null) => void;
+  setShowInferredRelationships: (show: boolean) => void;
+  /**
+   * Check inferred relationships against the connection's data. Returns
+   * why the check failed, or null.
+   */
+  verifyRelationships: (
+    connectionId: string,
+    relationships: InferredRelationship[]
+  ) => Promise<string | null>;
   setShowColumns: (show: boolean) => void;
   setShowTypes: (show: boolean) => void;
 }
@@ -38,6 +111,12 @@ interface DiagramState {
 export const useDiagramStore = create<DiagramState>()((set, get) => ({
   nodePositionsMap: {},
   viewportMap: {},
+  savedViewsMap: {},
+  activeViewIdMap: {},
+  focus: null,
+  showInferredRelationships: false,
+  verifiedRelationshipsMap: {},
+  isVerifyingRelationships: false,
   showColumns: true,
   showTypes: true,
 
@@ -95,13 +174,152 @@ export const useDiagramStore = create<DiagramState>()((set, get) => ({
     });
   },
 
+  saveView: (dbPath, name, nodePositions) => {
+    const view: DiagramSavedView = {
+      id: generateId(),
+      name,
+      tableIds: Object.keys(nodePositions),
+      nodePositions,
+      colorGroups: [],
+      createdAt: Date.now(),
+    };
+    set((state) => ({
+      savedViewsMap: {
+        ...state.savedViewsMap,
+        [dbPath]: [...(state.savedViewsMap[dbPath] || []), view],
+      },
+      activeViewIdMap: { ...state.activeViewIdMap, [dbPath]: view.id },
+      focus: null,
+    }));
+    return view;
+  },
+
+  updateView: (dbPath, viewId, updates) => {
+    set((state) => ({
+      savedViewsMap: {
+        ...state.savedViewsMap,
+        [dbPath]: (state.savedViewsMap[dbPath] || []).map((view) =>
+          view.id === viewId ? { ...view, ...updates } : view
+        ),
+      },
+    }));
+  },
+
+  deleteView: (dbPath, viewId) => {
+    set((state) => {
+      const { [dbPath]: activeViewId, ...restActiveViews } =
+        state.activeViewIdMap;
+      return {
+        savedViewsMap: {
+          ...state.savedViewsMap,
+          [dbPath]: (state.savedViewsMap[dbPath] || []).filter(
+            (view) => view.id !== viewId
+          ),
+        },
+        activeViewIdMap:
+          activeViewId === viewId ? restActiveViews : state.activeViewIdMap,
+      };
+    });
+  },
+
+  setActiveView: (dbPath, viewId) => {
+    set((state) => {
+      const { [dbPath]: _removed, ...restActiveViews } = state.activeViewIdMap;
+      return {
+        activeViewIdMap: viewId
+          ? { ...restActiveViews, [dbPath]: viewId }
+          : restActiveViews,
+        focus: null,
+      };
+    });
+  },
+
+  setColorGroup: (dbPath, viewId, group) => {
+    const view = (get().savedViewsMap[dbPath] || []).find(
+      (v) => v.id === viewId
+    );
+    if (!view) return;
+
+    const existing = view.colorGroups.find((g) => g.name === group.name);
+    const colorGroups = view.colorGroups
+      .map((g) =>
+        g === existing
+          ? {
+              ...g,
+              color: group.color,
+              tableIds: [...new Set([...g.tableIds, ...group.tableIds])],
+            }
+          : {
+              ...g,
+              tableIds: g.tableIds.filter((id) => !group.tableIds.includes(id)),
+            }
+      )
+      .filter((g) => g.tableIds.length > 0);
+    if (!existing) {
+      colorGroups.push({ ...group, id: generateId() });
+    }
+    get().updateView(dbPath, viewId, { colorGroups });
+  },
+
+  deleteColorGroup: (dbPath, viewId, groupId) => {
+    const view = (get().savedViewsMap[dbPath] || []).find(
+      (v) => v.id === viewId
+    );
+    if (!view) return;
+    get().updateView(dbPath, viewId, {
+      colorGroups: view.colorGroups.filter((g) => g.id !== groupId),
+    });
+  },
+
+  setFocus: (focus) => set({ focus }),
+
+  setShowInferredRelationships: (show) =>
+    set({ showInferredRelationships: show }),
+
+  verifyRelationships: async (connectionId, relationships) => {
+    if (relationships.length === 0) return null;
+    set({ isVerifyingRelationships: true });
+    try {
+      const response = await sqlPro.relationships.verify({
+        connectionId,
+        relationships,
+      });
+      if (!response.success || !response.relationships) {
+        return response.error || 'Failed to verify relationships';
+      }
+      const verified = Object.fromEntries(
+        response.relationships.map((r) => [getRelationshipKey(r), r])
+      );
+      set((state) => ({
+        verifiedRelationshipsMap: {
+          ...state.verifiedRelationshipsMap,
+          [connectionId]: {
+            ...state.verifiedRelationshipsMap[connectionId],
+            ...verified,
+          },
+        },
+      }));
+      return null;
+    } catch (error) {
+      return error instanceof Error
+        ? error.message
+        : 'Failed to verify relationships';
+    } finally {
+      set({ isVerifyingRelationships: false });
+    }
+  },
+
   setShowColumns: (show) => set({ showColumns: show }),
   setShowTypes: (show) => set({ showTypes: show }),
 }));
 
 // Register hydrator for loading persisted diagram state
 registerDiagramHydrator((data: RendererDiagramState) => {
-  useDiagramStore.setState(data);
+  // State saved before views existed has no saved views
+  useDiagramStore.setState({
+    ...data,
+    savedViewsMap: data.savedViewsMap ?? {},
+  });
 });
 
 // Subscribe to state changes and persist to electron-store
@@ -109,6 +327,7 @@ useDiagramStore.subscribe((state) => {
   const persistedState: RendererDiagramState = {
     nodePositionsMap: state.nodePositionsMap,
     viewportMap: state.viewportMap,
+    savedViewsMap: state.savedViewsMap,
     showColumns: state.showColumns,
     showTypes: state.showTypes,
   };
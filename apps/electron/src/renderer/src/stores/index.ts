@@ -12,6 +12,7 @@ export { useConnectionStore } from './connection-store';
 export { useConnectionSwitcherStore } from './connection-switcher-store';
 export { useDataDiffStore } from './data-diff-store';
 export type {
+  ComparisonProgress,
   DataDiffFilters,
   ExpandedRows,
   PaginationState,
@@ -44,9 +45,11 @@ export type {
   ShortcutsExport,
 } from './keyboard-shortcuts-store';
 export { ALL_PRO_FEATURES, useProStore } from './pro-store';
+export type { QueryHistoryDetails } from './query-store';
 export { useQueryStore } from './query-store';
-export { useQueryTabsStore } from './query-tabs-store';
+export { hasOpenTransaction, useQueryTabsStore } from './query-tabs-store';
 export type {
+  PinnedResult,
   QueryTab,
   SplitDirection,
   SplitLayout,
@@ -142,6 +142,34 @@ export const SHORTCUT_ACTIONS: ShortcutActionMeta[] = [
     category: 'actions',
     scope: 'editor',
   },
+  {
+    id: 'action.execute-statement',
+    label: 'Run Statement at Cursor',
+    description: 'Run only the SQL statement under the cursor',
+    category: 'actions',
+    scope: 'editor',
+  },
+  {
+    id: 'action.execute-selection',
+    label: 'Run Selection',
+    description: 'Run only the selected SQL',
+    category: 'actions',
+    scope: 'editor',
+  },
+  {
+    id: 'action.commit-transaction',
+    label: 'Commit Transaction',
+    description: 'Commit the open transaction of a manual-commit query tab',
+    category: 'actions',
+    scope: 'editor',
+  },
+  {
+    id: 'action.rollback-transaction',
+    label: 'Rollback Transaction',
+    description: 'Roll back the open transaction of a manual-commit query tab',
+    category: 'actions',
+    scope: 'editor',
+  },
   {
     id: 'action.view-changes',
     label: 'View Unsaved Changes',
@@ -252,6 +280,22 @@ export const VSCODE_SHORTCUTS: ShortcutPreset = {
   'action.refresh-schema': { key: 'r', modifiers: { cmd: true, shift: true } },
   'action.refresh-table': { key: 'r', modifiers: { cmd: true } },
   'action.execute-query': { key: 'Enter', modifiers: { cmd: true } },
+  'action.execute-statement': {
+    key: 'Enter',
+    modifiers: { cmd: true, alt: true },
+  },
+  'action.execute-selection': {
+    key: 'Enter',
+    modifiers: { cmd: true, alt: true, shift: true },
+  },
+  'action.commit-transaction': {
+    key: 'Enter',
+    modifiers: { cmd: true, shift: true },
+  },
+  'action.rollback-transaction': {
+    key: 'Backspace',
+    modifiers: { cmd: true, shift: true },
+  },
   'action.view-changes': { key: 's', modifiers: { cmd: true, shift: true } },
   'action.open-database': { key: 'o', modifiers: { cmd: true } },
   'action.new-window': { key: 'n', modifiers: { cmd: true, shift: true } },
@@ -285,6 +329,22 @@ export const SUBLIME_SHORTCUTS: ShortcutPreset = {
   'action.refresh-schema': { key: 'r', modifiers: { cmd: true, shift: true } },
   'action.refresh-table': { key: 'r', modifiers: { cmd: true } },
   'action.execute-query': { key: 'b', modifiers: { cmd: true } },
+  'action.execute-statement': {
+    key: 'Enter',
+    modifiers: { cmd: true, alt: true },
+  },
+  'action.execute-selection': {
+    key: 'Enter',
+    modifiers: { cmd: true, alt: true, shift: true },
+  },
+  'action.commit-transaction': {
+    key: 'Enter',
+    modifiers: { cmd: true, shift: true },
+  },
+  'action.rollback-transaction': {
+    key: 'Backspace',
+    modifiers: { cmd: true, shift: true },
+  },
   'action.view-changes': { key: 's', modifiers: { cmd: true, shift: true } },
   'action.open-database': { key: 'o', modifiers: { cmd: true } },
   'action.new-window': { key: 'n', modifiers: { cmd: true, shift: true } },
@@ -3,6 +3,12 @@ import type { QueryResult } from '@/types/database';
 import { create } from 'zustand';
 import { sqlPro } from '@/lib/api';
 
+/** Where and how a query ran, recorded with its history entry */
+export type QueryHistoryDetails = Pick<
+  QueryHistoryEntry,
+  'rowCount' | 'connectionName' | 'tabId' | 'tabTitle'
+>;
+
 interface QueryState {
   // Current query session
   currentQuery: string;
@@ -28,7 +34,8 @@ interface QueryState {
     query: string,
     success: boolean,
     durationMs: number,
-    errorMessage?: string
+    errorMessage?: string,
+    details?: QueryHistoryDetails
   ) => Promise<void>;
   deleteHistoryItem: (dbPath: string, entryId: string) => Promise<void>;
   clearHistory: (dbPath: string) => Promise<void>;
@@ -80,7 +87,14 @@ export const useQueryStore = create<QueryState>((set) => ({
     }
   },
 
-  addToHistory: async (dbPath, query, success, durationMs, errorMessage) => {
+  addToHistory: async (
+    dbPath,
+    query,
+    success,
+    durationMs,
+    errorMessage,
+    details
+  ) => {
     const entry: QueryHistoryEntry = {
       id: generateId(),
       dbPath,
@@ -89,6 +103,7 @@ export const useQueryStore = create<QueryState>((set) => ({
       durationMs,
       success,
       error: errorMessage,
+      ...details,
     };
 
     // Optimistically update the UI
@@ -0,0 +1,325 @@
+import type { PersistedConnectionTabs } from '@shared/types/renderer-store';
+import type { DatabaseConnection } from '@/types/database';
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import {
+  initializeElectronStorage,
+  persistQueryTabs,
+} from '@/lib/electron-storage';
+import { useConnectionStore } from './connection-store';
+import {
+  QUERY_TABS_AUTOSAVE_MS,
+  saveQueryTabs,
+  useQueryTabsStore,
+} from './query-tabs-store';
+
+const PROFILE = '/path/to/database.sqlite';
+
+const SAVED_TABS: PersistedConnectionTabs = {
+  tabs: [
+    {
+      id: 'tab-a',
+      title: 'Report',
+      query: 'SELECT * FROM orders',
+      isDirty: true,
+      createdAt: 1,
+      cursorPosition: { line: 1, column: 9 },
+    },
+    {
+      id: 'tab-b',
+      title: 'Query 2',
+      query: 'SELECT 2',
+      isDirty: false,
+      createdAt: 2,
+    },
+  ],
+  activeTabId: 'tab-b',
+  splitLayout: {
+    direction: 'horizontal',
+    panes: [
+      { id: 'pane-main', activeTabId: 'tab-a' },
+      { id: 'pane-2', activeTabId: 'tab-b' },
+    ],
+  },
+  activePaneId: 'pane-2',
+  recentlyClosed: [],
+  savedAt: 1,
+};
+
+const mockApi = {
+  rendererStore: {
+    get: vi.fn(async ({ key }: { key: string }) =>
+      key === 'queryTabs'
+        ? { success: true, data: { profiles: { [PROFILE]: SAVED_TABS } } }
+        : { success: false }
+    ),
+    set: vi.fn(async () => ({ success: true })),
+  },
+  db: {
+    closeCursor: vi.fn(async () => ({ success: true })),
+    releaseSession: vi.fn(async () => ({ success: true })),
+    endTransaction: vi.fn(async () => ({ success: true })),
+  },
+};
+
+function connect(id: string): void {
+  const connection: DatabaseConnection = {
+    id,
+    path: PROFILE,
+    filename: 'database.sqlite',
+    isEncrypted: false,
+    isReadOnly: false,
+    status: 'connected',
+  };
+  useConnectionStore.getState().addConnection(connection);
+  useQueryTabsStore.getState().setActiveConnectionId(id);
+}
+
+describe('query-tabs-store', () => {
+  beforeAll(async () => {
+    Object.assign(window, { sqlPro: mockApi });
+    await initializeElectronStorage();
+  });
+
+  beforeEach(() => {
+    useQueryTabsStore.getState().reset();
+    // Flush the autosave scheduled by earlier tests
+    saveQueryTabs();
+    persistQueryTabs({ profiles: { [PROFILE]: SAVED_TABS } });
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    for (const connection of useConnectionStore
+      .getState()
+      .getAllConnections()) {
+      useConnectionStore.getState().removeConnection(connection.id);
+    }
+  });
+
+  describe('recently closed tabs', () => {
+    it('should remember closed tabs that hold SQL and reopen them', () => {
+      const store = useQueryTabsStore.getState();
+      store.setActiveConnectionId('conn-1');
+      const tabId = store.createTab('conn-1', 'Orders', 'SELECT 1');
+      const emptyId = store.createTab('conn-1');
+
+      store.closeTab('conn-1', tabId);
+      store.closeTab('conn-1', emptyId);
+
+      const closed =
+        useQueryTabsStore.getState().tabsByConnection['conn-1'].recentlyClosed;
+      expect(closed.map((t) => t.title)).toEqual(['Orders']);
+
+      const reopenedId = useQueryTabsStore.getState().reopenClosedTab('conn-1');
+      const connState = useQueryTabsStore.getState().tabsByConnection['conn-1'];
+
+      expect(reopenedId).not.toBe(tabId);
+      expect(connState.activeTabId).toBe(reopenedId);
+      expect(connState.tabs.at(-1)).toMatchObject({
+        title: 'Orders',
+        query: 'SELECT 1',
+      });
+      expect(connState.recentlyClosed).toEqual([]);
+    });
+  });
+
+  describe('pinned results', () => {
+    it('should pin the current result and keep it across runs', () => {
+      const store = useQueryTabsStore.getState();
+      store.setActiveConnectionId('conn-1');
+      const tabId = store.createTab('conn-1', 'Orders', 'SELECT * FROM t');
+      store.updateTabResults(
+        'conn-1',
+        tabId,
+        { columns: ['id'], rows: [{ id: 1 }], rowsAffected: 0 },
+        1
+      );
+
+      const pinnedId = store.pinTabResult('conn-1', tabId);
+      store.renamePinnedResult('conn-1', tabId, pinnedId, 'Before');
+      store.updateTabResults(
+        'conn-1',
+        tabId,
+        { columns: ['id'], rows: [{ id: 2 }], rowsAffected: 0 },
+        1
+      );
+
+      const tab = useQueryTabsStore
+        .getState()
+        .getTabsForConnection('conn-1')
+        .find((t) => t.id === tabId);
+      expect(tab?.pinnedResults).toMatchObject([
+        {
+          id: pinnedId,
+          name: 'Before',
+          query: 'SELECT * FROM t',
+          rows: [{ id: 1 }],
+        },
+      ]);
+
+      store.unpinTabResult('conn-1', tabId, pinnedId);
+      expect(
+        useQueryTabsStore.getState().getTabsForConnection('conn-1')[1]
+          .pinnedResults
+      ).toEqual([]);
+    });
+
+    it('should not pin a tab without a result set', () => {
+      const store = useQueryTabsStore.getState();
+      store.setActiveConnectionId('conn-1');
+      const tabId = store.createTab('conn-1');
+
+      expect(store.pinTabResult('conn-1', tabId)).toBe('');
+    });
+  });
+
+  describe('transactions', () => {
+    it('should drop open transactions when the connection is reset', () => {
+      const store = useQueryTabsStore.getState();
+      store.setActiveConnectionId('conn-1');
+      const openId = store.createTab('conn-1', 'Open', 'UPDATE t SET x = 1');
+      const idleId = store.createTab('conn-1', 'Idle', 'SELECT 1');
+      store.setTabTransactionState('conn-1', openId, 'active');
+      store.setTabTransactionState('conn-1', idleId, 'idle');
+
+      store.resetTabTransactions('conn-1', 'Query cancelled');
+
+      const tabs = useQueryTabsStore.getState().getTabsForConnection('conn-1');
+      expect(store.countOpenTransactions('conn-1')).toBe(0);
+      expect(tabs.find((t) => t.id === openId)?.error).toContain(
+        'Transaction rolled back: Query cancelled'
+      );
+      expect(tabs.find((t) => t.id === idleId)).toMatchObject({
+        transactionState: 'idle',
+        error: null,
+      });
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore the saved tabs and split layout of the profile', () => {
+      connect('conn-1');
+
+      const connState = useQueryTabsStore.getState().tabsByConnection['conn-1'];
+      expect(connState.profileKey).toBe(PROFILE);
+      expect(connState.tabs.map((t) => t.query)).toEqual([
+        'SELECT * FROM orders',
+        'SELECT 2',
+      ]);
+      expect(connState.tabs[0]).toMatchObject({
+        connectionId: 'conn-1',
+        isDirty: true,
+        cursorPosition: { line: 1, column: 9 },
+        results: null,
+      });
+      expect(connState.splitLayout).toEqual(SAVED_TABS.splitLayout);
+      expect(connState.activePaneId).toBe('pane-2');
+    });
+
+    it('should carry the tabs over when the profile reconnects', () => {
+      connect('conn-1');
+      useQueryTabsStore
+        .getState()
+        .updateTabQuery('conn-1', 'tab-a', 'SELECT count(*) FROM orders');
+      useConnectionStore.getState().removeConnection('conn-1');
+
+      connect('conn-2');
+
+      const { tabsByConnection } = useQueryTabsStore.getState();
+      expect(tabsByConnection['conn-1']).toBeUndefined();
+      expect(tabsByConnection['conn-2'].tabs[0]).toMatchObject({
+        connectionId: 'conn-2',
+        query: 'SELECT count(*) FROM orders',
+      });
+    });
+
+    it('should save changed tabs on a timer', () => {
+      vi.useFakeTimers();
+      try {
+        connect('conn-1');
+        useQueryTabsStore
+          .getState()
+          .updateTabQuery('conn-1', 'tab-b', 'SELECT 3');
+        expect(mockApi.rendererStore.set).not.toHaveBeenCalledWith(
+          expect.objectContaining({ key: 'queryTabs' })
+        );
+
+        vi.advanceTimersByTime(QUERY_TABS_AUTOSAVE_MS);
+
+        expect(mockApi.rendererStore.set).toHaveBeenCalledWith({
+          key: 'queryTabs',
+          value: {
+            profiles: {
+              [PROFILE]: expect.objectContaining({
+                tabs: expect.arrayContaining([
+                  expect.objectContaining({ id: 'tab-b', query: 'SELECT 3' }),
+                ]),
+              }),
+            },
+          },
+        });
+
+        // Nothing changed since, so nothing is written
+        mockApi.rendererStore.set.mockClear();
+        saveQueryTabs();
+        expect(mockApi.rendererStore.set).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should save the closed-tab history', () => {
+      connect('conn-1');
+      saveQueryTabs();
+
+      useQueryTabsStore.getState().closeTab('conn-1', 'tab-a');
+      saveQueryTabs();
+
+      expect(mockApi.rendererStore.set).toHaveBeenLastCalledWith({
+        key: 'queryTabs',
+        value: {
+          profiles: {
+            [PROFILE]: expect.objectContaining({
+              recentlyClosed: [
+                expect.objectContaining({ id: 'tab-a', title: 'Report' }),
+              ],
+            }),
+          },
+        },
+      });
+    });
+
+    it('should save a profile without tabs once its tabs are removed', () => {
+      connect('conn-1');
+      saveQueryTabs();
+
+      useQueryTabsStore.getState().removeConnectionTabs('conn-1');
+      saveQueryTabs();
+
+      expect(mockApi.rendererStore.set).toHaveBeenLastCalledWith({
+        key: 'queryTabs',
+        value: {
+          profiles: { [PROFILE]: expect.objectContaining({ tabs: [] }) },
+        },
+      });
+
+      // The removed tabs don't come back on the next connection
+      useConnectionStore.getState().removeConnection('conn-1');
+      connect('conn-2');
+      expect(
+        useQueryTabsStore
+          .getState()
+          .getTabsForConnection('conn-2')
+          .map((t) => t.query)
+      ).toEqual(['']);
+    });
+  });
+});
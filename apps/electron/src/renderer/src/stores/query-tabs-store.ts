@@ -1,5 +1,42 @@
+import type {
+  ErrorPosition,
+  QueryParameterDefinition,
+  SavedQuery,
+  TransactionAction,
+  TransactionState,
+} from '@shared/types';
+import type {
+  ClosedQueryTab,
+  PersistedConnectionTabs,
+  PersistedQueryTab,
+  RendererQueryTabsState,
+} from '@shared/types/renderer-store';
 import type { QueryResult } from '@/types/database';
 import { create } from 'zustand';
+import { sqlPro } from '@/lib/api';
+import {
+  getCachedQueryTabs,
+  isElectronEnvironment,
+  persistQueryTabs,
+} from '@/lib/electron-storage';
+import { useConnectionStore } from './connection-store';
+import { useSettingsStore } from './settings-store';
+
+/**
+ * A result set kept as a named snapshot, so later runs of the tab can be
+ * compared with it
+ */
+export interface PinnedResult {
+  id: string;
+  name: string;
+  /** Query that produced the result */
+  query: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  /** Rows were still unread on the result's cursor when it was pinned */
+  partial?: boolean;
+  pinnedAt: number;
+}
 
 export interface QueryTab {
   id: string;
@@ -7,6 +44,8 @@ export interface QueryTab {
   query: string;
   results: QueryResult | null;
   error: string | null;
+  /** Where the error of the last run is in the query */
+  errorPosition?: ErrorPosition;
   isExecuting: boolean;
   executionTime: number | null;
   isDirty: boolean;
@@ -18,6 +57,24 @@ export interface QueryTab {
   cursorPosition?: { line: number; column: number };
   /** Scroll position in the query editor */
   scrollTop?: number;
+  /**
+   * Run queries on a server session of the tab's own, keeping temp tables,
+   * SET variables and open transactions between runs
+   */
+  pinnedSession?: boolean;
+  /**
+   * Leave queries in a transaction until it is committed or rolled back,
+   * instead of committing each run
+   */
+  manualCommit?: boolean;
+  /** Transaction state of the tab's session after its last run */
+  transactionState?: TransactionState;
+  /** Types and values entered for the query's placeholders */
+  parameters?: QueryParameterDefinition[];
+  /** Saved query loaded into the tab, which remembers its last-used parameters */
+  savedQueryId?: string;
+  /** Result snapshots pinned in the tab, oldest first; not kept across restarts */
+  pinnedResults?: PinnedResult[];
 }
 
 export type SplitDirection = 'horizontal' | 'vertical';
@@ -37,6 +94,10 @@ interface ConnectionTabState {
   activeTabId: string | null;
   splitLayout: SplitLayout;
   activePaneId: string;
+  /** Connection profile the tabs are saved under, the connection's path */
+  profileKey?: string;
+  /** Closed tabs that can be reopened, most recent first */
+  recentlyClosed: ClosedQueryTab[];
 }
 
 interface QueryTabsState {
@@ -52,6 +113,8 @@ interface QueryTabsState {
   closeTab: (connectionId: string, tabId: string) => void;
   closeOtherTabs: (connectionId: string, tabId: string) => void;
   closeAllTabs: (connectionId: string) => void;
+  /** Reopen a closed tab, by default the one closed last */
+  reopenClosedTab: (connectionId: string, closedTabId?: string) => string;
   setActiveTab: (connectionId: string, tabId: string) => void;
   updateTabQuery: (connectionId: string, tabId: string, query: string) => void;
   updateTabTitle: (connectionId: string, tabId: string, title: string) => void;
@@ -61,10 +124,18 @@ interface QueryTabsState {
     results: QueryResult | null,
     executionTime: number | null
   ) => void;
+  /** Append a page read from the cursor of a streamed result */
+  appendTabResultRows: (
+    connectionId: string,
+    tabId: string,
+    rows: Record<string, unknown>[],
+    hasMore: boolean
+  ) => void;
   updateTabError: (
     connectionId: string,
     tabId: string,
-    error: string | null
+    error: string | null,
+    errorPosition?: ErrorPosition
   ) => void;
   setTabExecuting: (
     connectionId: string,
@@ -81,6 +152,61 @@ interface QueryTabsState {
     tabId: string,
     scrollTop: number
   ) => void;
+  setTabPinnedSession: (
+    connectionId: string,
+    tabId: string,
+    pinned: boolean
+  ) => void;
+  setTabManualCommit: (
+    connectionId: string,
+    tabId: string,
+    manualCommit: boolean
+  ) => void;
+  setTabTransactionState: (
+    connectionId: string,
+    tabId: string,
+    transactionState: TransactionState | undefined
+  ) => void;
+  setTabParameters: (
+    connectionId: string,
+    tabId: string,
+    parameters: QueryParameterDefinition[]
+  ) => void;
+  /**
+   * Link the tab to the saved query loaded into it, restoring the query's
+   * last-used parameters, or unlink it with null
+   */
+  setTabSavedQuery: (
+    connectionId: string,
+    tabId: string,
+    savedQuery: Pick<SavedQuery, 'id' | 'parameters'> | null
+  ) => void;
+  /** Commit or roll back the open transaction of a manual-commit tab */
+  endTabTransaction: (
+    connectionId: string,
+    tabId: string,
+    action: TransactionAction
+  ) => Promise<boolean>;
+  /**
+   * Mark the transactions of a connection's tabs as rolled back after its
+   * session was reset in the main process
+   */
+  resetTabTransactions: (connectionId: string, reason: string) => void;
+  /** Tabs with an open transaction, on one connection or on all of them */
+  countOpenTransactions: (connectionId?: string) => number;
+  /** Pin the tab's current result as a snapshot; returns its ID */
+  pinTabResult: (connectionId: string, tabId: string, name?: string) => string;
+  renamePinnedResult: (
+    connectionId: string,
+    tabId: string,
+    pinnedResultId: string,
+    name: string
+  ) => void;
+  unpinTabResult: (
+    connectionId: string,
+    tabId: string,
+    pinnedResultId: string
+  ) => void;
   duplicateTab: (connectionId: string, tabId: string) => string;
   reorderTabs: (
     connectionId: string,
@@ -123,6 +249,57 @@ const generatePaneId = (): string => {
 
 const DEFAULT_PANE_ID = 'pane-main';
 
+/** Closed tabs kept per connection for reopening */
+const MAX_RECENTLY_CLOSED = 20;
+
+/** Connection profiles whose tabs are kept, the least recently saved dropped */
+const MAX_SAVED_PROFILES = 50;
+
+/** Pinned results kept per tab, the oldest dropped */
+export const MAX_PINNED_RESULTS = 10;
+
+/** Delay before changed tabs are written, bounding what a crash loses */
+export const QUERY_TABS_AUTOSAVE_MS = 2000;
+
+/**
+ * Close the server-side cursors of streamed results that are being dropped.
+ */
+const releaseResultCursors = (tabs: QueryTab[]): void => {
+  for (const tab of tabs) {
+    const cursorId = tab.results?.cursorId;
+    if (cursorId) {
+      void sqlPro.db.closeCursor({ cursorId }).catch(() => {});
+    }
+  }
+};
+
+/**
+ * Whether the tab's session has a transaction that is neither committed nor
+ * rolled back.
+ */
+export const hasOpenTransaction = (tab: QueryTab): boolean =>
+  tab.transactionState === 'active' || tab.transactionState === 'failed';
+
+/**
+ * Close the server sessions pinned to tabs that are being dropped, which
+ * rolls back their transactions. Connections without sessions share their
+ * transaction, so it is rolled back explicitly.
+ */
+const releasePinnedSessions = (tabs: QueryTab[]): void => {
+  for (const tab of tabs) {
+    const { connectionId, id: sessionId } = tab;
+    if (tab.pinnedSession) {
+      void sqlPro.db
+        .releaseSession({ connectionId, sessionId })
+        .catch(() => {});
+    } else if (hasOpenTransaction(tab)) {
+      void sqlPro.db
+        .endTransaction({ connectionId, sessionId, action: 'rollback' })
+        .catch(() => {});
+    }
+  }
+};
+
 const createDefaultTab = (
   connectionId: string,
   title?: string,
@@ -158,6 +335,180 @@ const createDefaultConnectionState = (
       panes: [{ id: DEFAULT_PANE_ID, activeTabId: defaultTab.id }],
     },
     activePaneId: DEFAULT_PANE_ID,
+    recentlyClosed: [],
+  };
+};
+
+const toPersistedTab = (tab: QueryTab): PersistedQueryTab => ({
+  id: tab.id,
+  title: tab.title,
+  query: tab.query,
+  isDirty: tab.isDirty,
+  createdAt: tab.createdAt,
+  cursorPosition: tab.cursorPosition,
+  scrollTop: tab.scrollTop,
+  pinnedSession: tab.pinnedSession,
+  manualCommit: tab.manualCommit,
+  parameters: tab.parameters,
+  savedQueryId: tab.savedQueryId,
+});
+
+const fromPersistedTab = (
+  connectionId: string,
+  tab: PersistedQueryTab
+): QueryTab => ({
+  ...createDefaultTab(connectionId, tab.title, tab.query),
+  id: tab.id,
+  isDirty: tab.isDirty,
+  createdAt: tab.createdAt,
+  cursorPosition: tab.cursorPosition,
+  scrollTop: tab.scrollTop,
+  pinnedSession: tab.pinnedSession,
+  manualCommit: tab.manualCommit,
+  parameters: tab.parameters,
+  savedQueryId: tab.savedQueryId,
+});
+
+/**
+ * Snapshot of a connection's tabs to save. Results, errors and transaction
+ * state belong to sessions that don't survive a restart.
+ */
+export const toPersistedConnectionTabs = (
+  connState: ConnectionTabState,
+  savedAt = Date.now()
+): PersistedConnectionTabs => ({
+  tabs: connState.tabs.map(toPersistedTab),
+  activeTabId: connState.activeTabId,
+  splitLayout: connState.splitLayout,
+  activePaneId: connState.activePaneId,
+  recentlyClosed: connState.recentlyClosed,
+  savedAt,
+});
+
+/**
+ * Rebuilds a connection's tabs from a snapshot, falling back to a default
+ * tab and a single pane where the snapshot doesn't hold together.
+ */
+export const fromPersistedConnectionTabs = (
+  connectionId: string,
+  persisted: PersistedConnectionTabs,
+  profileKey?: string
+): ConnectionTabState => {
+  const recentlyClosed = persisted.recentlyClosed ?? [];
+  if (persisted.tabs.length === 0) {
+    return {
+      ...createDefaultConnectionState(connectionId),
+      profileKey,
+      recentlyClosed,
+    };
+  }
+
+  const tabs = persisted.tabs.map((tab) => fromPersistedTab(connectionId, tab));
+  const hasTab = (tabId: string | null) => tabs.some((tab) => tab.id === tabId);
+  const activeTabId = hasTab(persisted.activeTabId)
+    ? persisted.activeTabId
+    : tabs[0].id;
+
+  const panes = persisted.splitLayout.panes.map((pane) => ({
+    id: pane.id,
+    activeTabId: hasTab(pane.activeTabId) ? pane.activeTabId : activeTabId,
+  }));
+  const isValidSplit =
+    persisted.splitLayout.direction !== null
+      ? panes.length === 2
+      : panes.length === 1;
+  const activePaneId = panes.some((pane) => pane.id === persisted.activePaneId)
+    ? persisted.activePaneId
+    : panes[0]?.id;
+
+  if (!isValidSplit || !activePaneId) {
+    return {
+      tabs,
+      activeTabId,
+      splitLayout: {
+        direction: null,
+        panes: [{ id: DEFAULT_PANE_ID, activeTabId }],
+      },
+      activePaneId: DEFAULT_PANE_ID,
+      profileKey,
+      recentlyClosed,
+    };
+  }
+
+  return {
+    tabs,
+    activeTabId,
+    splitLayout: { direction: persisted.splitLayout.direction, panes },
+    activePaneId,
+    profileKey,
+    recentlyClosed,
+  };
+};
+
+/**
+ * Add dropped tabs to the front of the recently closed list. Tabs without
+ * any SQL are not worth reopening.
+ */
+const addRecentlyClosed = (
+  recentlyClosed: ClosedQueryTab[],
+  tabs: QueryTab[]
+): ClosedQueryTab[] => {
+  const closedAt = Date.now();
+  const closed = tabs
+    .filter((tab) => tab.query.trim().length > 0)
+    .map((tab) => ({ ...toPersistedTab(tab), closedAt }));
+  if (closed.length === 0) return recentlyClosed;
+  return [...closed.reverse(), ...recentlyClosed].slice(0, MAX_RECENTLY_CLOSED);
+};
+
+/**
+ * Tabs to open for a connection: the tabs left in memory by an earlier
+ * connection to the same profile, otherwise the tabs saved for the profile
+ * when sessions are restored.
+ */
+const restoreConnectionState = (
+  tabsByConnection: Record<string, ConnectionTabState>,
+  connectionId: string,
+  profileKey: string | undefined
+): { connState: ConnectionTabState; replacedConnectionId?: string } => {
+  if (!profileKey) {
+    return { connState: createDefaultConnectionState(connectionId) };
+  }
+
+  const previous = Object.entries(tabsByConnection).find(
+    ([id, connState]) =>
+      connState.profileKey === profileKey &&
+      !useConnectionStore.getState().getConnectionById(id)
+  );
+  if (previous) {
+    const [replacedConnectionId, connState] = previous;
+    return {
+      connState: fromPersistedConnectionTabs(
+        connectionId,
+        toPersistedConnectionTabs(connState),
+        profileKey
+      ),
+      replacedConnectionId,
+    };
+  }
+
+  const saved = getCachedQueryTabs()?.profiles[profileKey];
+  if (!saved) {
+    return {
+      connState: { ...createDefaultConnectionState(connectionId), profileKey },
+    };
+  }
+  if (!useSettingsStore.getState().restoreSession) {
+    return {
+      connState: {
+        ...createDefaultConnectionState(connectionId),
+        profileKey,
+        recentlyClosed: saved.recentlyClosed ?? [],
+      },
+    };
+  }
+  return {
+    connState: fromPersistedConnectionTabs(connectionId, saved, profileKey),
   };
 };
 
@@ -232,10 +583,20 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
 
     set((state) => {
       const tabsByConnection = { ...state.tabsByConnection };
-      // Ensure connection has tab state
+      // Ensure connection has tab state, restoring the profile's tabs
       if (!tabsByConnection[connectionId]) {
-        tabsByConnection[connectionId] =
-          createDefaultConnectionState(connectionId);
+        const profileKey = useConnectionStore
+          .getState()
+          .getConnectionById(connectionId)?.path;
+        const { connState, replacedConnectionId } = restoreConnectionState(
+          tabsByConnection,
+          connectionId,
+          profileKey
+        );
+        if (replacedConnectionId) {
+          delete tabsByConnection[replacedConnectionId];
+        }
+        tabsByConnection[connectionId] = connState;
       }
       return {
         tabsByConnection,
@@ -280,6 +641,11 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
     if (tabIndex === -1) return;
 
     const newTabs = connState.tabs.filter((t) => t.id !== tabId);
+    releaseResultCursors([connState.tabs[tabIndex]]);
+    releasePinnedSessions([connState.tabs[tabIndex]]);
+    const recentlyClosed = addRecentlyClosed(connState.recentlyClosed, [
+      connState.tabs[tabIndex],
+    ]);
 
     let newActiveId = connState.activeTabId;
     if (connState.activeTabId === tabId) {
@@ -293,6 +659,7 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
               ...connState,
               tabs: [defaultTab],
               activeTabId: defaultTab.id,
+              recentlyClosed,
             },
           },
         }));
@@ -309,6 +676,7 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
           ...connState,
           tabs: newTabs,
           activeTabId: newActiveId,
+          recentlyClosed,
         },
       },
     }));
@@ -321,6 +689,9 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
 
     const tabToKeep = connState.tabs.find((t) => t.id === tabId);
     if (tabToKeep) {
+      const droppedTabs = connState.tabs.filter((t) => t.id !== tabId);
+      releaseResultCursors(droppedTabs);
+      releasePinnedSessions(droppedTabs);
       set((state) => ({
         tabsByConnection: {
           ...state.tabsByConnection,
@@ -328,6 +699,10 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
             ...connState,
             tabs: [tabToKeep],
             activeTabId: tabId,
+            recentlyClosed: addRecentlyClosed(
+              connState.recentlyClosed,
+              droppedTabs
+            ),
           },
         },
       }));
@@ -335,6 +710,10 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
   },
 
   closeAllTabs: (connectionId) => {
+    const connState = get().tabsByConnection[connectionId];
+    const droppedTabs = connState?.tabs ?? [];
+    releaseResultCursors(droppedTabs);
+    releasePinnedSessions(droppedTabs);
     const defaultTab = createDefaultTab(connectionId);
     set((state) => ({
       tabsByConnection: {
@@ -347,11 +726,48 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
             panes: [{ id: DEFAULT_PANE_ID, activeTabId: defaultTab.id }],
           },
           activePaneId: DEFAULT_PANE_ID,
+          profileKey: connState?.profileKey,
+          recentlyClosed: addRecentlyClosed(
+            connState?.recentlyClosed ?? [],
+            droppedTabs
+          ),
         },
       },
     }));
   },
 
+  reopenClosedTab: (connectionId, closedTabId) => {
+    const connState = get().tabsByConnection[connectionId];
+    if (!connState) return '';
+
+    const closedTab = closedTabId
+      ? connState.recentlyClosed.find((t) => t.id === closedTabId)
+      : connState.recentlyClosed[0];
+    if (!closedTab) return '';
+
+    // A fresh ID: the closed tab's session has been released
+    const newTab: QueryTab = {
+      ...fromPersistedTab(connectionId, closedTab),
+      id: generateId(),
+    };
+
+    set((state) => ({
+      tabsByConnection: {
+        ...state.tabsByConnection,
+        [connectionId]: {
+          ...connState,
+          tabs: [...connState.tabs, newTab],
+          activeTabId: newTab.id,
+          recentlyClosed: connState.recentlyClosed.filter(
+            (t) => t !== closedTab
+          ),
+        },
+      },
+    }));
+
+    return newTab.id;
+  },
+
   setActiveTab: (connectionId, tabId) => {
     const state = get();
     const connState = state.tabsByConnection[connectionId];
@@ -413,6 +829,13 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
       const connState = state.tabsByConnection[connectionId];
       if (!connState) return state;
 
+      releaseResultCursors(
+        connState.tabs.filter(
+          (tab) =>
+            tab.id === tabId && tab.results?.cursorId !== results?.cursorId
+        )
+      );
+
       return {
         tabsByConnection: {
           ...state.tabsByConnection,
@@ -424,6 +847,7 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
                     ...tab,
                     results,
                     error: null,
+                    errorPosition: undefined,
                     executionTime,
                     lastExecutedAt: Date.now(),
                     isDirty: false,
@@ -436,11 +860,42 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
     });
   },
 
-  updateTabError: (connectionId, tabId, error) => {
+  appendTabResultRows: (connectionId, tabId, rows, hasMore) => {
     set((state) => {
       const connState = state.tabsByConnection[connectionId];
       if (!connState) return state;
 
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId && tab.results
+                ? {
+                    ...tab,
+                    results: {
+                      ...tab.results,
+                      rows: [...tab.results.rows, ...rows],
+                      hasMore,
+                      cursorId: hasMore ? tab.results.cursorId : undefined,
+                    },
+                  }
+                : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  updateTabError: (connectionId, tabId, error, errorPosition) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      releaseResultCursors(connState.tabs.filter((tab) => tab.id === tabId));
+
       return {
         tabsByConnection: {
           ...state.tabsByConnection,
@@ -451,6 +906,7 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
                 ? {
                     ...tab,
                     error,
+                    errorPosition,
                     results: null,
                     lastExecutedAt: Date.now(),
                   }
@@ -519,6 +975,251 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
     });
   },
 
+  setTabPinnedSession: (connectionId, tabId, pinned) => {
+    const tab = get().tabsByConnection[connectionId]?.tabs.find(
+      (t) => t.id === tabId
+    );
+    if (!tab || !!tab.pinnedSession === pinned) return;
+
+    if (!pinned) {
+      releasePinnedSessions([tab]);
+    }
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((t) =>
+              t.id === tabId ? { ...t, pinnedSession: pinned } : t
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  setTabManualCommit: (connectionId, tabId, manualCommit) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId ? { ...tab, manualCommit } : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  setTabTransactionState: (connectionId, tabId, transactionState) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId ? { ...tab, transactionState } : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  endTabTransaction: async (connectionId, tabId, action) => {
+    const result = await sqlPro.db
+      .endTransaction({ connectionId, sessionId: tabId, action })
+      .catch((error: unknown) => ({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        transactionState: undefined,
+      }));
+
+    const { setTabTransactionState, updateTabError } = get();
+    setTabTransactionState(connectionId, tabId, result.transactionState);
+    if (!result.success) {
+      updateTabError(
+        connectionId,
+        tabId,
+        result.error || `Failed to ${action} transaction`
+      );
+    }
+    return result.success;
+  },
+
+  resetTabTransactions: (connectionId, reason) => {
+    const connState = get().tabsByConnection[connectionId];
+    const { setTabTransactionState, updateTabError } = get();
+    for (const tab of connState?.tabs.filter(hasOpenTransaction) ?? []) {
+      setTabTransactionState(connectionId, tab.id, undefined);
+      updateTabError(
+        connectionId,
+        tab.id,
+        `Transaction rolled back: ${reason}. The connection was reopened.`
+      );
+    }
+  },
+
+  countOpenTransactions: (connectionId) => {
+    const { tabsByConnection } = get();
+    const states = connectionId
+      ? [tabsByConnection[connectionId]]
+      : Object.values(tabsByConnection);
+    return states.reduce(
+      (count, connState) =>
+        count + (connState?.tabs.filter(hasOpenTransaction).length ?? 0),
+      0
+    );
+  },
+
+  setTabParameters: (connectionId, tabId, parameters) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId ? { ...tab, parameters } : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  setTabSavedQuery: (connectionId, tabId, savedQuery) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId
+                ? {
+                    ...tab,
+                    savedQueryId: savedQuery?.id,
+                    parameters: savedQuery?.parameters ?? tab.parameters,
+                  }
+                : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  pinTabResult: (connectionId, tabId, name) => {
+    const tab = get().tabsByConnection[connectionId]?.tabs.find(
+      (t) => t.id === tabId
+    );
+    if (!tab?.results || tab.results.columns.length === 0) return '';
+
+    const pinned = tab.pinnedResults ?? [];
+    const pinnedResult: PinnedResult = {
+      id: `pin-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: name || `Result ${pinned.length + 1}`,
+      query: tab.query,
+      columns: tab.results.columns,
+      rows: tab.results.rows,
+      partial: tab.results.hasMore || undefined,
+      pinnedAt: Date.now(),
+    };
+    const pinnedResults = [...pinned, pinnedResult].slice(-MAX_PINNED_RESULTS);
+
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((t) =>
+              t.id === tabId ? { ...t, pinnedResults } : t
+            ),
+          },
+        },
+      };
+    });
+
+    return pinnedResult.id;
+  },
+
+  renamePinnedResult: (connectionId, tabId, pinnedResultId, name) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId
+                ? {
+                    ...tab,
+                    pinnedResults: tab.pinnedResults?.map((p) =>
+                      p.id === pinnedResultId ? { ...p, name } : p
+                    ),
+                  }
+                : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
+  unpinTabResult: (connectionId, tabId, pinnedResultId) => {
+    set((state) => {
+      const connState = state.tabsByConnection[connectionId];
+      if (!connState) return state;
+
+      return {
+        tabsByConnection: {
+          ...state.tabsByConnection,
+          [connectionId]: {
+            ...connState,
+            tabs: connState.tabs.map((tab) =>
+              tab.id === tabId
+                ? {
+                    ...tab,
+                    pinnedResults: tab.pinnedResults?.filter(
+                      (p) => p.id !== pinnedResultId
+                    ),
+                  }
+                : tab
+            ),
+          },
+        },
+      };
+    });
+  },
+
   duplicateTab: (connectionId, tabId) => {
     const state = get();
     const connState = state.tabsByConnection[connectionId];
@@ -540,6 +1241,10 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
       isDirty: tabToDuplicate.query.length > 0,
       createdAt: Date.now(),
       lastExecutedAt: null,
+      // The copy starts without the temp tables of the original's session
+      pinnedSession: false,
+      manualCommit: false,
+      transactionState: undefined,
     };
 
     const tabIndex = connState.tabs.findIndex((t) => t.id === tabId);
@@ -598,6 +1303,7 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
   },
 
   removeConnectionTabs: (connectionId) => {
+    releaseResultCursors(get().tabsByConnection[connectionId]?.tabs ?? []);
     set((state) => {
       const { [connectionId]: _, ...rest } = state.tabsByConnection;
       return {
@@ -740,3 +1446,74 @@ export const useQueryTabsStore = create<QueryTabsState>()((set, get) => ({
     return connState.splitLayout.direction !== null;
   },
 }));
+
+// ============ Persistence ============
+
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+let lastSaved = '{}';
+/** Profiles that were open at the last save */
+let lastSavedProfileKeys: string[] = [];
+
+/**
+ * Write the tabs of every connection that has a profile, keeping the saved
+ * tabs of profiles that aren't open. A profile whose tabs were removed since
+ * the last save is saved without tabs.
+ */
+export function saveQueryTabs(): void {
+  if (autosaveTimer) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+  if (!isElectronEnvironment()) return;
+
+  const openProfiles: Record<string, PersistedConnectionTabs> = {};
+  for (const connState of Object.values(
+    useQueryTabsStore.getState().tabsByConnection
+  )) {
+    if (connState.profileKey) {
+      openProfiles[connState.profileKey] = toPersistedConnectionTabs(
+        connState,
+        0
+      );
+    }
+  }
+
+  // Compare without timestamps so unrelated state changes don't write
+  const snapshot = JSON.stringify(openProfiles);
+  if (snapshot === lastSaved) {
+    return;
+  }
+  lastSaved = snapshot;
+
+  const savedAt = Date.now();
+  const profiles = { ...getCachedQueryTabs()?.profiles };
+  for (const profileKey of lastSavedProfileKeys) {
+    const saved = profiles[profileKey];
+    if (saved && !openProfiles[profileKey]) {
+      profiles[profileKey] = { ...saved, tabs: [], savedAt };
+    }
+  }
+  lastSavedProfileKeys = Object.keys(openProfiles);
+  for (const [profileKey, saved] of Object.entries(openProfiles)) {
+    profiles[profileKey] = { ...saved, savedAt };
+  }
+  const state: RendererQueryTabsState = {
+    profiles: Object.fromEntries(
+      Object.entries(profiles)
+        .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+        .slice(0, MAX_SAVED_PROFILES)
+    ),
+  };
+  persistQueryTabs(state);
+}
+
+// Save changed tabs on a timer, so a crash loses at most a few seconds of text
+useQueryTabsStore.subscribe(() => {
+  if (!autosaveTimer) {
+    autosaveTimer = setTimeout(saveQueryTabs, QUERY_TABS_AUTOSAVE_MS);
+  }
+});
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeunload', saveQueryTabs);
+}
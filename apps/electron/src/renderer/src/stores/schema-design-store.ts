@@ -0,0 +1,77 @@
+import type { SchemaDesignChange, TableInfo } from '@shared/types';
+import {
+  applySchemaDesignChanges,
+  pruneSchemaDesignChanges,
+} from '@shared/schema-design';
+import { create } from 'zustand';
+
+const EMPTY_CHANGES: SchemaDesignChange[] = [];
+
+interface SchemaDesignState {
+  /** Whether the ER diagram edits the schema instead of showing it */
+  isDesignMode: boolean;
+
+  /** Pending changes per connection, in the order they were made */
+  changesMap: Record<string, SchemaDesignChange[]>;
+
+  // Actions
+  setDesignMode: (enabled: boolean) => void;
+  /**
+   * Add a change on top of the pending ones. `tables` are the live tables
+   * and views of the connection. Returns why the change does not fit, or
+   * null when it was added.
+   */
+  addChange: (
+    connectionId: string,
+    tables: TableInfo[],
+    change: SchemaDesignChange
+  ) => string | null;
+  /** Remove a change, along with later changes that built on it */
+  removeChange: (
+    connectionId: string,
+    tables: TableInfo[],
+    index: number
+  ) => void;
+  clearChanges: (connectionId: string) => void;
+  getChanges: (connectionId: string) => SchemaDesignChange[];
+}
+
+export const useSchemaDesignStore = create<SchemaDesignState>()((set, get) => ({
+  isDesignMode: false,
+  changesMap: {},
+
+  setDesignMode: (isDesignMode) => set({ isDesignMode }),
+
+  addChange: (connectionId, tables, change) => {
+    const changes = [...get().getChanges(connectionId), change];
+    const result = applySchemaDesignChanges(tables, changes);
+    if (!result.success) {
+      return result.error;
+    }
+    set((state) => ({
+      changesMap: { ...state.changesMap, [connectionId]: changes },
+    }));
+    return null;
+  },
+
+  removeChange: (connectionId, tables, index) => {
+    const changes = get()
+      .getChanges(connectionId)
+      .filter((_, i) => i !== index);
+    set((state) => ({
+      changesMap: {
+        ...state.changesMap,
+        [connectionId]: pruneSchemaDesignChanges(tables, changes),
+      },
+    }));
+  },
+
+  clearChanges: (connectionId) => {
+    set((state) => {
+      const { [connectionId]: _, ...changesMap } = state.changesMap;
+      return { changesMap };
+    });
+  },
+
+  getChanges: (connectionId) => get().changesMap[connectionId] ?? EMPTY_CHANGES,
+}));
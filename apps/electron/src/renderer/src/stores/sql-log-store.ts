@@ -1,18 +1,43 @@
-import type { SqlLogEntry, SqlLogLevel } from '@/types/sql-log';
+import type {
+  SqlLogEntry,
+  SqlLogExportFormat,
+  SqlLogFilter,
+  SqlLogLevel,
+  SqlLogOperation,
+} from '@/types/sql-log';
+import { matchesSqlLogFilter } from '@shared/sql-log';
 import { create } from 'zustand';
 import { sqlPro } from '@/lib/api';
 
 const MAX_LOGS = 500;
+const MAX_AUDIT_LOGS = 1000;
+
+/** Time range filter of the log panel */
+export type SqlLogTimeRange = 'any' | '1h' | '24h' | '7d' | '30d';
+
+const TIME_RANGE_MS: Record<Exclude<SqlLogTimeRange, 'any'>, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
 
 interface SqlLogState {
   // Log entries
   logs: SqlLogEntry[];
   isLoading: boolean;
 
+  // Persistent audit log of a profile, shown instead of the session log
+  // while a profile is selected
+  auditProfileId: string | null;
+  auditLogs: SqlLogEntry[];
+
   // Filter state
   filter: {
     connectionId?: string;
+    operation?: SqlLogOperation;
     level?: SqlLogLevel;
+    timeRange: SqlLogTimeRange;
     searchText?: string;
   };
 
@@ -24,6 +49,12 @@ interface SqlLogState {
   loadLogs: (limit?: number) => Promise<void>;
   addLog: (entry: SqlLogEntry) => void;
   clearLogs: (connectionId?: string) => Promise<void>;
+  setAuditProfile: (profileId: string | null) => void;
+  loadAuditLogs: () => Promise<void>;
+  exportLogs: (
+    format: SqlLogExportFormat,
+    filePath: string
+  ) => Promise<{ success: boolean; count?: number; error?: string }>;
   setFilter: (filter: Partial<SqlLogState['filter']>) => void;
   setVisible: (visible: boolean) => void;
   toggleVisible: () => void;
@@ -32,10 +63,33 @@ interface SqlLogState {
   getFilteredLogs: () => SqlLogEntry[];
 }
 
+/**
+ * Filter sent to the main process and applied to the session log. Time
+ * ranges are relative to now.
+ */
+function toSqlLogFilter(
+  filter: SqlLogState['filter'],
+  now: Date = new Date()
+): SqlLogFilter {
+  return {
+    operation: filter.operation,
+    level: filter.level,
+    from:
+      filter.timeRange === 'any'
+        ? undefined
+        : new Date(
+            now.getTime() - TIME_RANGE_MS[filter.timeRange]
+          ).toISOString(),
+    searchText: filter.searchText,
+  };
+}
+
 export const useSqlLogStore = create<SqlLogState>((set, get) => ({
   logs: [],
   isLoading: false,
-  filter: {},
+  auditProfileId: null,
+  auditLogs: [],
+  filter: { timeRange: 'any' },
   isVisible: false,
   isPaused: false,
 
@@ -77,6 +131,48 @@ export const useSqlLogStore = create<SqlLogState>((set, get) => ({
     }
   },
 
+  setAuditProfile: (auditProfileId) => {
+    set({ auditProfileId, auditLogs: [] });
+  },
+
+  loadAuditLogs: async () => {
+    const { auditProfileId, filter } = get();
+    if (!auditProfileId) return;
+    set({ isLoading: true });
+    try {
+      const response = await sqlPro.sqlLog.getAudit({
+        ...toSqlLogFilter(filter),
+        profileId: auditProfileId,
+        limit: MAX_AUDIT_LOGS,
+      });
+      // Ignore responses for a profile that is no longer selected
+      if (get().auditProfileId !== auditProfileId) return;
+      set({
+        auditLogs: response.success && response.logs ? response.logs : [],
+        isLoading: false,
+      });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  exportLogs: async (format, filePath) => {
+    const { auditProfileId, filter } = get();
+    try {
+      return await sqlPro.sqlLog.export({
+        ...toSqlLogFilter(filter),
+        profileId: auditProfileId ?? undefined,
+        format,
+        filePath,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+
   setFilter: (filter) => {
     set((state) => ({
       filter: { ...state.filter, ...filter },
@@ -92,28 +188,16 @@ export const useSqlLogStore = create<SqlLogState>((set, get) => ({
   togglePaused: () => set((state) => ({ isPaused: !state.isPaused })),
 
   getFilteredLogs: () => {
-    const { logs, filter } = get();
-    let result = logs;
-
-    if (filter.connectionId) {
-      result = result.filter((log) => log.connectionId === filter.connectionId);
-    }
-
-    if (filter.level) {
-      result = result.filter((log) => log.level === filter.level);
-    }
-
-    if (filter.searchText) {
-      const searchLower = filter.searchText.toLowerCase();
-      result = result.filter(
-        (log) =>
-          log.sql?.toLowerCase().includes(searchLower) ||
-          log.error?.toLowerCase().includes(searchLower) ||
-          log.operation.toLowerCase().includes(searchLower)
-      );
-    }
-
-    return result;
+    const { logs, auditLogs, auditProfileId, filter } = get();
+    // Audit logs are filtered when loaded
+    if (auditProfileId) return auditLogs;
+
+    const logFilter = toSqlLogFilter(filter);
+    return logs.filter(
+      (log) =>
+        (!filter.connectionId || log.connectionId === filter.connectionId) &&
+        matchesSqlLogFilter(log, logFilter)
+    );
   },
 }));
 
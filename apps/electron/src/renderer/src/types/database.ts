@@ -1,3 +1,12 @@
+import type {
+  CustomTypeInfo,
+  ExtensionInfo,
+  RoutineInfo,
+  SequenceInfo,
+  StatementResult,
+  SupabaseSessionInfo,
+} from '@shared/types';
+
 // Database connection state
 export interface DatabaseConnection {
   id: string;
@@ -10,6 +19,8 @@ export interface DatabaseConnection {
   connectedAt?: Date;
   /** Database type */
   databaseType?: 'sqlite' | 'mysql' | 'postgresql' | 'supabase';
+  /** Supabase connections: access mode and active role */
+  supabase?: SupabaseSessionInfo;
 }
 
 // Column information
@@ -47,6 +58,16 @@ export interface TriggerSchema {
   sql: string;
 }
 
+// Row Level Security policy (PostgreSQL)
+export interface PolicySchema {
+  name: string;
+  command: string;
+  roles: string[];
+  permissive: boolean;
+  using: string | null;
+  withCheck: string | null;
+}
+
 // Table schema
 export interface TableSchema {
   name: string;
@@ -59,6 +80,12 @@ export interface TableSchema {
   triggers: TriggerSchema[];
   rowCount?: number;
   sql: string;
+  /** PostgreSQL: whether Row Level Security is enabled */
+  rowLevelSecurity?: boolean;
+  /** PostgreSQL: Row Level Security policies */
+  policies?: PolicySchema[];
+  /** PostgreSQL: materialized view (type is 'view') */
+  materialized?: boolean;
 }
 
 // Schema information
@@ -66,6 +93,12 @@ export interface SchemaInfo {
   name: string;
   tables: TableSchema[];
   views: TableSchema[];
+  /** PostgreSQL only */
+  materializedViews?: TableSchema[];
+  routines?: RoutineInfo[];
+  sequences?: SequenceInfo[];
+  types?: CustomTypeInfo[];
+  extensions?: ExtensionInfo[];
 }
 
 // Database schema (all schemas with their tables)
@@ -123,6 +156,17 @@ export interface QueryResult {
   executedStatements?: number;
   /** Multiple result sets (for multi-SELECT queries) */
   resultSets?: QueryResultSet[];
+  /** Cursor holding the rest of a streamed result, while rows remain */
+  cursorId?: string;
+  /** More rows can be fetched from the cursor */
+  hasMore?: boolean;
+  /** Statement of a streamed result, re-run to export the full result */
+  query?: string;
+  /**
+   * Each statement of a script, with offsets and error positions in the
+   * editor buffer rather than in the SQL that was run
+   */
+  statements?: StatementResult[];
 }
 
 // Pagination
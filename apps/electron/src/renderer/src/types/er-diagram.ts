@@ -1,3 +1,4 @@
+import type { InferredRelationship, SchemaDesignChange } from '@shared/types';
 import type { Edge, Node } from '@xyflow/react';
 import type { ColumnSchema, ForeignKeySchema, IndexSchema } from './database';
 
@@ -14,6 +15,17 @@ export interface ERTableNodeData {
   foreignKeys: ForeignKeySchema[];
   indexes: IndexSchema[];
   isView: boolean;
+  /** Colour of the table's group in the open saved view */
+  color?: string;
+  /** Design mode: the table is a pending change */
+  isPending?: boolean;
+  /** Design mode: columns added or retyped by pending changes */
+  pendingColumns?: string[];
+  /**
+   * Design mode: record a change to the table. Returns why the change was
+   * rejected, or null.
+   */
+  onDesignChange?: (change: SchemaDesignChange) => string | null;
 }
 
 // Data for relationship edges
@@ -24,6 +36,8 @@ export interface EREdgeData {
   cardinality: Cardinality;
   onDelete?: string;
   onUpdate?: string;
+  /** Set when the relationship is inferred rather than a foreign key */
+  inferred?: InferredRelationship;
 }
 
 // Custom node type
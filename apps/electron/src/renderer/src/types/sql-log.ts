@@ -2,8 +2,15 @@
 export type {
   ClearSqlLogsRequest,
   ClearSqlLogsResponse,
+  ExportSqlLogsRequest,
+  ExportSqlLogsResponse,
+  GetAuditLogsRequest,
+  GetAuditLogsResponse,
   GetSqlLogsRequest,
   GetSqlLogsResponse,
   SqlLogEntry,
+  SqlLogExportFormat,
+  SqlLogFilter,
   SqlLogLevel,
+  SqlLogOperation,
 } from '@shared/types';
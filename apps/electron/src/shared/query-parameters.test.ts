@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bindQueryParameters,
+  findQueryPlaceholders,
+  getQueryParameterKeys,
+  parseQueryParameterValue,
+  syncQueryParameterDefinitions,
+} from './query-parameters';
+
+describe('query-parameters', () => {
+  describe('findQueryPlaceholders', () => {
+    it('should find named, numbered and positional placeholders', () => {
+      const sql = 'SELECT * FROM t WHERE a = :name AND b = $1 AND c IN (?, ?)';
+
+      expect(findQueryPlaceholders(sql, 'sqlite')).toEqual([
+        { key: ':name', start: 26, end: 31 },
+        { key: '$1', start: 40, end: 42 },
+        { key: '?1', start: 53, end: 54 },
+        { key: '?2', start: 56, end: 57 },
+      ]);
+    });
+
+    it('should skip strings, comments and quoted identifiers', () => {
+      const sql = [
+        'SELECT \':a\', "b:c", `?`, [x?] -- :d ?',
+        "/* $1 */ FROM t WHERE x = 'it''s :e' AND y = :f",
+      ].join('\n');
+
+      expect(getQueryParameterKeys(sql, 'sqlite')).toEqual([':f']);
+    });
+
+    it('should not treat casts, JSON operators or dollar quotes as placeholders', () => {
+      const sql =
+        "SELECT data ? 'key', id::text, $$ :x $1 $$, $fn$ ? $fn$ FROM t WHERE id = :id";
+
+      expect(getQueryParameterKeys(sql, 'postgresql')).toEqual([':id']);
+    });
+
+    it('should ignore colons inside names and slices', () => {
+      expect(
+        getQueryParameterKeys('SELECT a[1:n], x:y, f(a):b, c$1', 'postgresql')
+      ).toEqual([]);
+    });
+
+    it('should handle MySQL hash comments and backslash escapes', () => {
+      const sql = "SELECT 'a\\' :b' # :c\nFROM t WHERE d = :d";
+
+      expect(getQueryParameterKeys(sql, 'mysql')).toEqual([':d']);
+    });
+
+    it('should list repeated placeholders once', () => {
+      expect(
+        getQueryParameterKeys('SELECT :a, :b, :a, $2, $2', 'postgresql')
+      ).toEqual([':a', ':b', '$2']);
+    });
+  });
+
+  describe('bindQueryParameters', () => {
+    it('should number PostgreSQL placeholders by first use', () => {
+      expect(
+        bindQueryParameters(
+          'SELECT * FROM t WHERE a = :a OR b = $2 OR c = :a',
+          { ':a': 1, $2: 'x' },
+          'postgresql'
+        )
+      ).toEqual({
+        sql: 'SELECT * FROM t WHERE a = $1 OR b = $2 OR c = $1',
+        params: [1, 'x'],
+      });
+    });
+
+    it('should bind a value per occurrence for SQLite and MySQL', () => {
+      expect(
+        bindQueryParameters(
+          'SELECT :a, ?, :a',
+          { ':a': 'x', '?1': null },
+          'mysql'
+        )
+      ).toEqual({ sql: 'SELECT ?, ?, ?', params: ['x', null, 'x'] });
+    });
+
+    it('should bind SQLite booleans as integers', () => {
+      expect(
+        bindQueryParameters(
+          'SELECT * FROM t WHERE a = :a AND b = :b',
+          { ':a': true, ':b': false },
+          'sqlite'
+        ).params
+      ).toEqual([1, 0]);
+    });
+
+    it('should continue positional numbering across statements', () => {
+      expect(
+        bindQueryParameters('SELECT ?, :a', { '?3': 3, ':a': 'a' }, 'sqlite', 2)
+      ).toEqual({ sql: 'SELECT ?, ?', params: [3, 'a'] });
+    });
+
+    it('should leave queries without placeholders untouched', () => {
+      const sql = "SELECT ':a' FROM t";
+
+      expect(bindQueryParameters(sql, {}, 'sqlite')).toEqual({
+        sql,
+        params: [],
+      });
+    });
+
+    it('should throw when a value is missing', () => {
+      expect(() => bindQueryParameters('SELECT :a', {}, 'sqlite')).toThrowError(
+        'No value provided for parameter :a'
+      );
+    });
+  });
+
+  describe('parseQueryParameterValue', () => {
+    it('should convert inputs by type', () => {
+      expect(
+        parseQueryParameterValue({ name: ':n', type: 'number', value: ' 4.5 ' })
+      ).toBe(4.5);
+      expect(
+        parseQueryParameterValue({ name: ':b', type: 'boolean', value: 'TRUE' })
+      ).toBe(true);
+      expect(
+        parseQueryParameterValue({ name: ':x', type: 'null', value: 'abc' })
+      ).toBeNull();
+      expect(
+        parseQueryParameterValue({
+          name: ':d',
+          type: 'date',
+          value: '2024-01-31',
+        })
+      ).toBe('2024-01-31');
+    });
+
+    it('should reject invalid numbers and booleans', () => {
+      expect(() =>
+        parseQueryParameterValue({ name: ':n', type: 'number', value: 'abc' })
+      ).toThrowError('Parameter :n must be a number');
+      expect(() =>
+        parseQueryParameterValue({ name: ':n', type: 'number', value: '' })
+      ).toThrowError('Parameter :n must be a number');
+      expect(() =>
+        parseQueryParameterValue({ name: ':b', type: 'boolean', value: 'y' })
+      ).toThrowError('Parameter :b must be true or false');
+    });
+  });
+
+  describe('syncQueryParameterDefinitions', () => {
+    it('should keep existing definitions and add new ones as text', () => {
+      expect(
+        syncQueryParameterDefinitions(
+          [':a', ':b'],
+          [
+            { name: ':b', type: 'number', value: '2' },
+            { name: ':gone', type: 'text', value: 'x' },
+          ]
+        )
+      ).toEqual([
+        { name: ':a', type: 'text', value: '' },
+        { name: ':b', type: 'number', value: '2' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Query parameter placeholders shared by the editor and the main process.
+ * The renderer detects `:name`, `$1` and `?` placeholders to prompt for their
+ * values; the main process rewrites them into the connection's native bind
+ * syntax so values never get interpolated into the SQL.
+ */
+
+import type {
+  QueryParameterDefinition,
+  QueryParameterValue,
+  SqlDialect,
+} from './types';
+import { skipCommentOrQuoted } from './sql-scanner';
+
+/**
+ * A placeholder found in a query.
+ */
+export interface QueryPlaceholder {
+  /** `:name`, `$1`, or `?n` for the nth positional `?` */
+  key: string;
+  /** Offsets of the placeholder text in the query */
+  start: number;
+  end: number;
+}
+
+/**
+ * A query rewritten to the dialect's bind syntax, with its values in order.
+ */
+export interface BoundQuery {
+  sql: string;
+  params: QueryParameterValue[];
+}
+
+const IDENTIFIER_START = /[A-Z_]/i;
+const IDENTIFIER_PART = /\w/;
+const DIGIT = /\d/;
+
+/**
+ * Lists the placeholders of a query in order of appearance, skipping strings,
+ * comments and quoted identifiers. `?` is ignored in PostgreSQL, where it is
+ * a JSON operator, and `::` casts are never taken for named placeholders.
+ * `positionalOffset` counts the `?` placeholders of earlier statements when
+ * a script is bound one statement at a time.
+ */
+export function findQueryPlaceholders(
+  sql: string,
+  dialect: SqlDialect,
+  positionalOffset = 0
+): QueryPlaceholder[] {
+  const placeholders: QueryPlaceholder[] = [];
+  let positional = positionalOffset;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    const skipped = skipCommentOrQuoted(sql, i, dialect);
+
+    if (skipped !== -1) {
+      i = skipped;
+    } else if (ch === '$' && DIGIT.test(next ?? '')) {
+      let end = i + 1;
+      while (DIGIT.test(sql[end] ?? '')) end++;
+      if (!IDENTIFIER_PART.test(sql[end] ?? '') && sql[end] !== '$') {
+        placeholders.push({ key: sql.slice(i, end), start: i, end });
+      }
+      i = end;
+    } else if (ch === ':' && next === ':') {
+      i += 2;
+    } else if (ch === ':' && IDENTIFIER_START.test(next ?? '')) {
+      const prev = sql[i - 1] ?? '';
+      let end = i + 1;
+      while (IDENTIFIER_PART.test(sql[end] ?? '')) end++;
+      if (!IDENTIFIER_PART.test(prev) && prev !== ']' && prev !== ')') {
+        placeholders.push({ key: sql.slice(i, end), start: i, end });
+      }
+      i = end;
+    } else if (ch === '?' && dialect !== 'postgresql') {
+      positional++;
+      placeholders.push({ key: `?${positional}`, start: i, end: i + 1 });
+      i++;
+    } else if (IDENTIFIER_PART.test(ch)) {
+      // Skip whole words so `a$1` and `x:y` inside names aren't split
+      while (i < sql.length && /[\w$]/.test(sql[i])) i++;
+    } else {
+      i++;
+    }
+  }
+
+  return placeholders;
+}
+
+/**
+ * Returns the distinct placeholder keys of a query in order of first use.
+ */
+export function getQueryParameterKeys(
+  sql: string,
+  dialect: SqlDialect
+): string[] {
+  return [...new Set(findQueryPlaceholders(sql, dialect).map((p) => p.key))];
+}
+
+/**
+ * Builds the definitions for a query's placeholders, keeping the type and
+ * value of those already defined and defaulting new ones to empty text.
+ */
+export function syncQueryParameterDefinitions(
+  keys: string[],
+  existing: QueryParameterDefinition[] = []
+): QueryParameterDefinition[] {
+  const byName = new Map(existing.map((def) => [def.name, def]));
+  return keys.map(
+    (name) => byName.get(name) ?? { name, type: 'text', value: '' }
+  );
+}
+
+/**
+ * Converts a parameter's raw input to the value bound to the query.
+ * Throws when a number or boolean input can't be parsed.
+ */
+export function parseQueryParameterValue(
+  definition: Pick<QueryParameterDefinition, 'name' | 'type' | 'value'>
+): QueryParameterValue {
+  const { name, type, value } = definition;
+
+  switch (type) {
+    case 'null':
+      return null;
+    case 'number': {
+      const number = Number(value.trim());
+      if (value.trim() === '' || Number.isNaN(number)) {
+        throw new Error(`Parameter ${name} must be a number`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === 'true' || normalized === '1') return true;
+      if (normalized === 'false' || normalized === '0') return false;
+      throw new Error(`Parameter ${name} must be true or false`);
+    }
+    case 'date':
+    case 'text':
+      return value;
+  }
+}
+
+/**
+ * Converts all definitions to the values sent with ExecuteQueryRequest.
+ */
+export function resolveQueryParameterValues(
+  definitions: QueryParameterDefinition[]
+): Record<string, QueryParameterValue> {
+  return Object.fromEntries(
+    definitions.map((def) => [def.name, parseQueryParameterValue(def)])
+  );
+}
+
+/**
+ * Rewrites a query's placeholders to the dialect's bind syntax and collects
+ * their values. PostgreSQL gets `$n` numbered by first use so repeated
+ * placeholders share a value; SQLite and MySQL get a `?` per occurrence.
+ * SQLite can't bind booleans, so they become 1 and 0.
+ * Throws when a placeholder has no value.
+ */
+export function bindQueryParameters(
+  sql: string,
+  values: Record<string, QueryParameterValue>,
+  dialect: SqlDialect,
+  positionalOffset = 0
+): BoundQuery {
+  const placeholders = findQueryPlaceholders(sql, dialect, positionalOffset);
+  const params: QueryParameterValue[] = [];
+  const numbers = new Map<string, number>();
+  let result = '';
+  let last = 0;
+
+  for (const placeholder of placeholders) {
+    if (values[placeholder.key] === undefined) {
+      throw new Error(`No value provided for parameter ${placeholder.key}`);
+    }
+
+    let value = values[placeholder.key];
+    if (dialect === 'sqlite' && typeof value === 'boolean') {
+      value = value ? 1 : 0;
+    }
+
+    let replacement = '?';
+    if (dialect === 'postgresql') {
+      let number = numbers.get(placeholder.key);
+      if (number === undefined) {
+        params.push(value);
+        number = params.length;
+        numbers.set(placeholder.key, number);
+      }
+      replacement = `$${number}`;
+    } else {
+      params.push(value);
+    }
+
+    result += sql.slice(last, placeholder.start) + replacement;
+    last = placeholder.end;
+  }
+
+  return { sql: result + sql.slice(last), params };
+}
@@ -0,0 +1,145 @@
+import type { ColumnInfo, TableInfo } from './types';
+import { describe, expect, it } from 'vitest';
+import {
+  applyRelationshipVerification,
+  inferRelationships,
+  toForeignKeyChange,
+} from './relationship-inference';
+
+const column = (
+  name: string,
+  type = 'INTEGER',
+  isPrimaryKey = false
+): ColumnInfo => ({
+  name,
+  type,
+  nullable: !isPrimaryKey,
+  defaultValue: null,
+  isPrimaryKey,
+});
+
+const table = (
+  name: string,
+  columns: ColumnInfo[],
+  foreignKeys: TableInfo['foreignKeys'] = []
+): TableInfo => ({
+  name,
+  schema: 'main',
+  type: 'table',
+  columns,
+  primaryKey: columns.filter((c) => c.isPrimaryKey).map((c) => c.name),
+  foreignKeys,
+  indexes: [],
+  triggers: [],
+  sql: '',
+});
+
+const users = table('users', [column('id', 'INTEGER', true)]);
+const categories = table('categories', [column('id', 'INTEGER', true)]);
+
+describe('inferRelationships', () => {
+  it('should match reference columns to plural table names', () => {
+    const posts = table('posts', [
+      column('id', 'INTEGER', true),
+      column('user_id'),
+      column('categoryId'),
+    ]);
+
+    expect(inferRelationships([users, categories, posts])).toEqual([
+      {
+        schema: 'main',
+        table: 'posts',
+        column: 'user_id',
+        referencedTable: 'users',
+        referencedColumn: 'id',
+        confidence: 0.85,
+        reason: 'Column "user_id" is named after table "users"',
+      },
+      expect.objectContaining({
+        column: 'categoryId',
+        referencedTable: 'categories',
+        confidence: 0.85,
+      }),
+    ]);
+  });
+
+  it('should skip declared foreign keys and unmatched names', () => {
+    const posts = table(
+      'posts',
+      [
+        column('id', 'INTEGER', true),
+        column('user_id'),
+        column('team_id'),
+        column('paid'),
+      ],
+      [{ column: 'user_id', referencedTable: 'users', referencedColumn: 'id' }]
+    );
+    const pas = table('pas', [column('id', 'INTEGER', true)]);
+
+    expect(inferRelationships([users, pas, posts])).toEqual([]);
+  });
+
+  it('should lower the confidence when the column types differ', () => {
+    const posts = table('posts', [column('user_id', 'TEXT')]);
+
+    expect(inferRelationships([users, posts])[0].confidence).toBe(0.4);
+  });
+});
+
+describe('applyRelationshipVerification', () => {
+  const [relationship] = inferRelationships([
+    users,
+    table('posts', [column('user_id')]),
+  ]);
+
+  it('should confirm a relationship whose sampled values all match', () => {
+    expect(
+      applyRelationshipVerification(relationship, {
+        sampledValues: 20,
+        matchedValues: 20,
+      }).confidence
+    ).toBe(0.95);
+  });
+
+  it('should scale the confidence by the share of matching values', () => {
+    expect(
+      applyRelationshipVerification(relationship, {
+        sampledValues: 20,
+        matchedValues: 10,
+      }).confidence
+    ).toBe(0.43);
+  });
+
+  it('should keep the confidence when nothing could be sampled', () => {
+    const verified = applyRelationshipVerification(relationship, {
+      sampledValues: 0,
+      matchedValues: 0,
+    });
+
+    expect(verified.confidence).toBe(relationship.confidence);
+    expect(verified.verification).toEqual({
+      sampledValues: 0,
+      matchedValues: 0,
+    });
+  });
+});
+
+describe('toForeignKeyChange', () => {
+  it('should turn a relationship into an add foreign key change', () => {
+    const [relationship] = inferRelationships([
+      users,
+      table('posts', [column('user_id')]),
+    ]);
+
+    expect(toForeignKeyChange(relationship)).toEqual({
+      type: 'addForeignKey',
+      schema: 'main',
+      table: 'posts',
+      foreignKey: {
+        column: 'user_id',
+        referencedTable: 'users',
+        referencedColumn: 'id',
+      },
+    });
+  });
+});
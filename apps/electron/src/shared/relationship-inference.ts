@@ -0,0 +1,188 @@
+/**
+ * Infers relationships that are not declared as foreign keys from naming
+ * conventions, such as `orders.user_id` referencing `users.id`. Inferred
+ * relationships are suggestions; sampling column values in the main process
+ * can confirm or rule them out.
+ */
+
+import type {
+  InferredRelationship,
+  RelationshipVerification,
+  SchemaDesignChange,
+  TableInfo,
+} from './types';
+
+/** Distinct values checked per relationship when verifying */
+export const DEFAULT_VERIFICATION_SAMPLE_SIZE = 1000;
+
+/**
+ * `user_id`, `USER_ID`, `userId` and `UserID` all name the `user` table.
+ * The suffix is case-sensitive so words like `paid` are not read as one.
+ */
+const REFERENCE_COLUMN_PATTERN = /^(.*[a-zA-Z\d])(?:_id|_ID|Id|ID)$/;
+
+type TypeFamily = 'integer' | 'text' | 'numeric' | 'blob';
+
+function getTypeFamily(type: string): TypeFamily | null {
+  const upper = type.toUpperCase();
+  if (/INT|SERIAL/.test(upper)) return 'integer';
+  if (/CHAR|TEXT|CLOB|UUID/.test(upper)) return 'text';
+  if (/REAL|FLOA|DOUB|NUM|DEC/.test(upper)) return 'numeric';
+  if (/BLOB|BINARY|BYTEA/.test(upper)) return 'blob';
+  return null;
+}
+
+/**
+ * Table names a column prefix may refer to: the prefix itself and its
+ * English plurals.
+ */
+function getCandidateTableNames(prefix: string): Set<string> {
+  const name = prefix.toLowerCase();
+  const names = new Set([name, `${name}s`, `${name}es`]);
+  if (/[^aeiou]y$/.test(name)) {
+    names.add(`${name.slice(0, -1)}ies`);
+  }
+  return names;
+}
+
+/**
+ * The column a reference points at: the table's single-column primary key,
+ * else an `id` column, else a column with the referencing column's name.
+ */
+function getReferencedColumn(
+  table: TableInfo,
+  column: string
+): { name: string; isPrimaryKey: boolean } | null {
+  if (table.primaryKey.length === 1) {
+    return { name: table.primaryKey[0], isPrimaryKey: true };
+  }
+  const match =
+    table.columns.find((c) => c.name.toLowerCase() === 'id') ??
+    table.columns.find((c) => c.name === column);
+  return match ? { name: match.name, isPrimaryKey: false } : null;
+}
+
+function roundConfidence(confidence: number): number {
+  return Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100;
+}
+
+/**
+ * Propose relationships between tables from column names. Columns that
+ * already have a foreign key are skipped, and each column gets at most one
+ * proposal, the most likely one.
+ */
+export function inferRelationships(
+  tables: TableInfo[]
+): InferredRelationship[] {
+  const relationships: InferredRelationship[] = [];
+
+  for (const table of tables) {
+    if (table.type !== 'table') continue;
+    const declared = new Set(table.foreignKeys.map((fk) => fk.column));
+
+    for (const column of table.columns) {
+      if (declared.has(column.name)) continue;
+      const match = REFERENCE_COLUMN_PATTERN.exec(column.name);
+      if (!match) continue;
+
+      const candidateNames = getCandidateTableNames(match[1]);
+      let best: InferredRelationship | null = null;
+
+      for (const referenced of tables) {
+        if (
+          referenced.type !== 'table' ||
+          referenced.schema !== table.schema ||
+          !candidateNames.has(referenced.name.toLowerCase())
+        ) {
+          continue;
+        }
+        const referencedColumn = getReferencedColumn(referenced, column.name);
+        if (
+          !referencedColumn ||
+          (referenced === table && referencedColumn.name === column.name)
+        ) {
+          continue;
+        }
+
+        let confidence = 0.5;
+        if (referencedColumn.isPrimaryKey) confidence += 0.2;
+        const columnFamily = getTypeFamily(column.type);
+        const referencedFamily = getTypeFamily(
+          referenced.columns.find((c) => c.name === referencedColumn.name)
+            ?.type ?? ''
+        );
+        if (columnFamily && referencedFamily) {
+          confidence += columnFamily === referencedFamily ? 0.15 : -0.3;
+        }
+
+        if (!best || confidence > best.confidence) {
+          best = {
+            schema: table.schema,
+            table: table.name,
+            column: column.name,
+            referencedTable: referenced.name,
+            referencedColumn: referencedColumn.name,
+            confidence: roundConfidence(confidence),
+            reason: `Column "${column.name}" is named after table "${referenced.name}"`,
+          };
+        }
+      }
+
+      if (best) {
+        relationships.push(best);
+      }
+    }
+  }
+
+  return relationships;
+}
+
+/**
+ * Update a relationship with the result of sampling its values. All
+ * sampled values being found confirms it, otherwise the confidence drops
+ * with the share of values that were missing.
+ */
+export function applyRelationshipVerification(
+  relationship: InferredRelationship,
+  verification: RelationshipVerification
+): InferredRelationship {
+  const { sampledValues, matchedValues } = verification;
+  if (verification.error || sampledValues === 0) {
+    return { ...relationship, verification };
+  }
+  const confidence =
+    matchedValues === sampledValues
+      ? Math.max(relationship.confidence, 0.95)
+      : relationship.confidence * (matchedValues / sampledValues);
+  return {
+    ...relationship,
+    confidence: roundConfidence(confidence),
+    verification,
+  };
+}
+
+/**
+ * Identifies a relationship between inference passes
+ */
+export function getRelationshipKey(relationship: InferredRelationship): string {
+  return `${relationship.schema}.${relationship.table}.${relationship.column}->${relationship.referencedTable}.${relationship.referencedColumn}`;
+}
+
+/**
+ * Schema design change that declares an inferred relationship as a foreign
+ * key
+ */
+export function toForeignKeyChange(
+  relationship: InferredRelationship
+): SchemaDesignChange {
+  return {
+    type: 'addForeignKey',
+    schema: relationship.schema,
+    table: relationship.table,
+    foreignKey: {
+      column: relationship.column,
+      referencedTable: relationship.referencedTable,
+      referencedColumn: relationship.referencedColumn,
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import type { ColumnInfo, SchemaDesignChange, TableInfo } from './types';
+import { describe, expect, it } from 'vitest';
+import {
+  applySchemaDesignChanges,
+  describeSchemaDesignChange,
+  isValidColumnType,
+  pruneSchemaDesignChanges,
+} from './schema-design';
+
+const column = (
+  name: string,
+  type = 'TEXT',
+  isPrimaryKey = false
+): ColumnInfo => ({
+  name,
+  type,
+  nullable: !isPrimaryKey,
+  defaultValue: null,
+  isPrimaryKey,
+});
+
+const users: TableInfo = {
+  name: 'users',
+  schema: 'main',
+  type: 'table',
+  columns: [column('id', 'INTEGER', true), column('email')],
+  primaryKey: ['id'],
+  foreignKeys: [],
+  indexes: [],
+  triggers: [],
+  sql: '',
+};
+
+const addOrders: SchemaDesignChange = {
+  type: 'addTable',
+  schema: 'main',
+  table: 'orders',
+  columns: [column('id', 'INTEGER', true)],
+};
+
+const addUserId: SchemaDesignChange = {
+  type: 'addColumn',
+  schema: 'main',
+  table: 'orders',
+  column: column('user_id', 'INTEGER'),
+};
+
+const addUserFk: SchemaDesignChange = {
+  type: 'addForeignKey',
+  schema: 'main',
+  table: 'orders',
+  foreignKey: {
+    column: 'user_id',
+    referencedTable: 'users',
+    referencedColumn: 'id',
+  },
+};
+
+describe('applySchemaDesignChanges', () => {
+  it('should apply changes that build on each other', () => {
+    const result = applySchemaDesignChanges(
+      [users],
+      [
+        addOrders,
+        addUserId,
+        addUserFk,
+        {
+          type: 'setColumnType',
+          schema: 'main',
+          table: 'users',
+          column: 'email',
+          columnType: 'VARCHAR(255)',
+        },
+      ]
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const orders = result.tables.find((t) => t.name === 'orders')!;
+    expect(orders.primaryKey).toEqual(['id']);
+    expect(orders.columns.map((c) => c.name)).toEqual(['id', 'user_id']);
+    expect(orders.foreignKeys).toEqual([addUserFk.foreignKey]);
+    expect(result.tables[0].columns[1].type).toBe('VARCHAR(255)');
+    // The input is left untouched
+    expect(users.columns[1].type).toBe('TEXT');
+  });
+
+  it('should report the first change that does not fit', () => {
+    const result = applySchemaDesignChanges([users], [addUserFk, addOrders]);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Table "orders" does not exist',
+      changeIndex: 0,
+    });
+  });
+
+  it('should reject invalid names, duplicates and primary keys on existing tables', () => {
+    const fails = (change: SchemaDesignChange) =>
+      !applySchemaDesignChanges([users], [change]).success;
+
+    expect(fails({ ...addOrders, table: 'order items' })).toBe(true);
+    expect(fails({ ...addOrders, table: 'users' })).toBe(true);
+    expect(fails({ ...addOrders, columns: [] })).toBe(true);
+    expect(
+      fails({ ...addUserId, table: 'users', column: column('email') })
+    ).toBe(true);
+    expect(
+      fails({ ...addUserId, table: 'users', column: column('n', 'INT', true) })
+    ).toBe(true);
+    expect(
+      fails({
+        type: 'addForeignKey',
+        schema: 'main',
+        table: 'users',
+        foreignKey: {
+          column: 'email',
+          referencedTable: 'users',
+          referencedColumn: 'missing',
+        },
+      })
+    ).toBe(true);
+  });
+});
+
+describe('pruneSchemaDesignChanges', () => {
+  it('should drop changes that built on a removed change', () => {
+    expect(
+      pruneSchemaDesignChanges([users], [addUserId, addUserFk, addOrders])
+    ).toEqual([addOrders]);
+  });
+});
+
+describe('isValidColumnType', () => {
+  it('should accept type names with a length, precision or array suffix', () => {
+    expect(isValidColumnType('INTEGER')).toBe(true);
+    expect(isValidColumnType('DOUBLE PRECISION')).toBe(true);
+    expect(isValidColumnType('NUMERIC(10, 2)')).toBe(true);
+    expect(isValidColumnType('text[]')).toBe(true);
+    expect(isValidColumnType('INT; DROP TABLE users')).toBe(false);
+    expect(isValidColumnType('')).toBe(false);
+  });
+});
+
+describe('describeSchemaDesignChange', () => {
+  it('should summarize each kind of change', () => {
+    expect(describeSchemaDesignChange(addOrders)).toBe('Add table orders');
+    expect(describeSchemaDesignChange(addUserId)).toBe(
+      'Add column orders.user_id INTEGER'
+    );
+    expect(describeSchemaDesignChange(addUserFk)).toBe(
+      'Add foreign key orders.user_id → users.id'
+    );
+  });
+});
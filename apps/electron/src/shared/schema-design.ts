@@ -0,0 +1,256 @@
+/**
+ * Schema design changes made in the ER diagram, applied to table
+ * structures. The renderer applies them to draw the designed schema, and the
+ * main process to diff the designed schema against the live one.
+ */
+
+import type { ColumnInfo, SchemaDesignChange, TableInfo } from './types';
+
+/** Names are written into DDL unquoted, so they must be plain identifiers */
+const IDENTIFIER_PATTERN = /^[A-Z_]\w*$/i;
+/** A type name with an optional length or precision, or a PostgreSQL array */
+const COLUMN_TYPE_PATTERN =
+  /^[A-Z_][\w ]*(?:\(\s*\d+\s*(?:,\s*\d+\s*)?\))?(?:\[\])?$/i;
+
+export type SchemaDesignResult =
+  | { success: true; tables: TableInfo[] }
+  | {
+      success: false;
+      error: string;
+      /** Index of the change that could not be applied */
+      changeIndex?: number;
+    };
+
+export function isValidIdentifier(name: string): boolean {
+  return IDENTIFIER_PATTERN.test(name);
+}
+
+export function isValidColumnType(type: string): boolean {
+  return COLUMN_TYPE_PATTERN.test(type.trim());
+}
+
+function findTable(
+  tables: TableInfo[],
+  schema: string,
+  name: string
+): TableInfo | undefined {
+  return tables.find((t) => t.schema === schema && t.name === name);
+}
+
+function validateColumn(column: ColumnInfo): string | null {
+  if (!isValidIdentifier(column.name)) {
+    return `"${column.name}" is not a valid column name`;
+  }
+  if (!isValidColumnType(column.type)) {
+    return `"${column.type}" is not a valid column type`;
+  }
+  return null;
+}
+
+function replaceTable(tables: TableInfo[], table: TableInfo): TableInfo[] {
+  return tables.map((t) =>
+    t.schema === table.schema && t.name === table.name ? table : t
+  );
+}
+
+/**
+ * Apply one design change to a list of tables and views, returning the
+ * updated list or why the change does not fit the tables.
+ */
+export function applySchemaDesignChange(
+  tables: TableInfo[],
+  change: SchemaDesignChange
+): SchemaDesignResult {
+  const fail = (error: string): SchemaDesignResult => ({
+    success: false,
+    error,
+  });
+
+  if (change.type === 'addTable') {
+    if (!isValidIdentifier(change.table)) {
+      return fail(`"${change.table}" is not a valid table name`);
+    }
+    if (findTable(tables, change.schema, change.table)) {
+      return fail(`Table "${change.table}" already exists`);
+    }
+    if (change.columns.length === 0) {
+      return fail(`Table "${change.table}" needs at least one column`);
+    }
+    const names = new Set<string>();
+    for (const column of change.columns) {
+      const error = validateColumn(column);
+      if (error) return fail(error);
+      if (names.has(column.name)) {
+        return fail(`Column "${column.name}" is defined twice`);
+      }
+      names.add(column.name);
+    }
+    return {
+      success: true,
+      tables: [
+        ...tables,
+        {
+          name: change.table,
+          schema: change.schema,
+          type: 'table',
+          columns: change.columns,
+          primaryKey: change.columns
+            .filter((c) => c.isPrimaryKey)
+            .map((c) => c.name),
+          foreignKeys: [],
+          indexes: [],
+          triggers: [],
+          sql: '',
+        },
+      ],
+    };
+  }
+
+  const table = findTable(tables, change.schema, change.table);
+  if (!table || table.type !== 'table') {
+    return fail(`Table "${change.table}" does not exist`);
+  }
+
+  switch (change.type) {
+    case 'addColumn': {
+      const error = validateColumn(change.column);
+      if (error) return fail(error);
+      if (table.columns.some((c) => c.name === change.column.name)) {
+        return fail(
+          `Column "${change.column.name}" already exists in "${table.name}"`
+        );
+      }
+      if (change.column.isPrimaryKey) {
+        return fail('Primary key columns can only be added with a new table');
+      }
+      return {
+        success: true,
+        tables: replaceTable(tables, {
+          ...table,
+          columns: [...table.columns, change.column],
+        }),
+      };
+    }
+
+    case 'setColumnType': {
+      if (!table.columns.some((c) => c.name === change.column)) {
+        return fail(
+          `Column "${change.column}" does not exist in "${table.name}"`
+        );
+      }
+      if (!isValidColumnType(change.columnType)) {
+        return fail(`"${change.columnType}" is not a valid column type`);
+      }
+      return {
+        success: true,
+        tables: replaceTable(tables, {
+          ...table,
+          columns: table.columns.map((c) =>
+            c.name === change.column
+              ? { ...c, type: change.columnType.trim() }
+              : c
+          ),
+        }),
+      };
+    }
+
+    case 'addForeignKey': {
+      const { foreignKey } = change;
+      if (!table.columns.some((c) => c.name === foreignKey.column)) {
+        return fail(
+          `Column "${foreignKey.column}" does not exist in "${table.name}"`
+        );
+      }
+      // Migrations reference tables in the schema of the referencing table
+      const referenced = findTable(
+        tables,
+        change.schema,
+        foreignKey.referencedTable
+      );
+      if (!referenced || referenced.type !== 'table') {
+        return fail(`Table "${foreignKey.referencedTable}" does not exist`);
+      }
+      if (
+        !referenced.columns.some((c) => c.name === foreignKey.referencedColumn)
+      ) {
+        return fail(
+          `Column "${foreignKey.referencedColumn}" does not exist in "${referenced.name}"`
+        );
+      }
+      if (
+        table.foreignKeys.some(
+          (fk) =>
+            fk.column === foreignKey.column &&
+            fk.referencedTable === foreignKey.referencedTable &&
+            fk.referencedColumn === foreignKey.referencedColumn
+        )
+      ) {
+        return fail(
+          `"${table.name}.${foreignKey.column}" already references "${referenced.name}.${foreignKey.referencedColumn}"`
+        );
+      }
+      return {
+        success: true,
+        tables: replaceTable(tables, {
+          ...table,
+          foreignKeys: [...table.foreignKeys, foreignKey],
+        }),
+      };
+    }
+  }
+}
+
+/**
+ * Apply design changes in order, stopping at the first one that does not
+ * fit.
+ */
+export function applySchemaDesignChanges(
+  tables: TableInfo[],
+  changes: SchemaDesignChange[]
+): SchemaDesignResult {
+  let current = tables;
+  for (let i = 0; i < changes.length; i++) {
+    const result = applySchemaDesignChange(current, changes[i]);
+    if (!result.success) {
+      return { ...result, changeIndex: i };
+    }
+    current = result.tables;
+  }
+  return { success: true, tables: current };
+}
+
+/**
+ * Drop the changes that no longer fit, for example after an earlier change
+ * they built on was removed, keeping the rest in order.
+ */
+export function pruneSchemaDesignChanges(
+  tables: TableInfo[],
+  changes: SchemaDesignChange[]
+): SchemaDesignChange[] {
+  const kept: SchemaDesignChange[] = [];
+  let current = tables;
+  for (const change of changes) {
+    const result = applySchemaDesignChange(current, change);
+    if (result.success) {
+      kept.push(change);
+      current = result.tables;
+    }
+  }
+  return kept;
+}
+
+/**
+ * One-line summary of a change for the pending changes list.
+ */
+export function describeSchemaDesignChange(change: SchemaDesignChange): string {
+  switch (change.type) {
+    case 'addTable':
+      return `Add table ${change.table}`;
+    case 'addColumn':
+      return `Add column ${change.table}.${change.column.name} ${change.column.type}`;
+    case 'setColumnType':
+      return `Change ${change.table}.${change.column} to ${change.columnType}`;
+    case 'addForeignKey':
+      return `Add foreign key ${change.table}.${change.foreignKey.column} → ${change.foreignKey.referencedTable}.${change.foreignKey.referencedColumn}`;
+  }
+}
@@ -0,0 +1,42 @@
+import type { SqlLogEntry } from './types';
+import { describe, expect, it } from 'vitest';
+import { matchesSqlLogFilter } from './sql-log';
+
+const entry: SqlLogEntry = {
+  id: '1',
+  timestamp: '2026-03-01T10:00:00.000Z',
+  connectionId: 'conn-1',
+  operation: 'execute',
+  sql: 'DELETE FROM orders',
+  success: false,
+  error: 'FOREIGN KEY constraint failed',
+  level: 'error',
+};
+
+describe('matchesSqlLogFilter', () => {
+  it('should match entries passing every filter that is set', () => {
+    expect(matchesSqlLogFilter(entry, {})).toBe(true);
+    expect(
+      matchesSqlLogFilter(entry, {
+        operation: 'execute',
+        level: 'error',
+        from: '2026-03-01T00:00:00.000Z',
+        to: '2026-03-01T10:00:00.000Z',
+      })
+    ).toBe(true);
+    expect(matchesSqlLogFilter(entry, { operation: 'query' })).toBe(false);
+    expect(matchesSqlLogFilter(entry, { level: 'info' })).toBe(false);
+    expect(
+      matchesSqlLogFilter(entry, { from: '2026-03-01T10:00:00.001Z' })
+    ).toBe(false);
+  });
+
+  it('should search the SQL, error and operation case-insensitively', () => {
+    expect(matchesSqlLogFilter(entry, { searchText: 'delete' })).toBe(true);
+    expect(matchesSqlLogFilter(entry, { searchText: 'FOREIGN key' })).toBe(
+      true
+    );
+    expect(matchesSqlLogFilter(entry, { searchText: 'EXEC' })).toBe(true);
+    expect(matchesSqlLogFilter(entry, { searchText: 'users' })).toBe(false);
+  });
+});
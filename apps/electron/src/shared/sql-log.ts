@@ -0,0 +1,31 @@
+/**
+ * SQL log filtering shared by the log panel, which filters the session log
+ * it receives, and the main process, which filters audit log files and
+ * exports.
+ */
+
+import type { SqlLogEntry, SqlLogFilter } from './types';
+
+/**
+ * Whether a log entry passes every filter that is set.
+ */
+export function matchesSqlLogFilter(
+  entry: SqlLogEntry,
+  filter: SqlLogFilter
+): boolean {
+  if (filter.operation && entry.operation !== filter.operation) return false;
+  if (filter.level && entry.level !== filter.level) return false;
+  // ISO timestamps compare in time order
+  if (filter.from && entry.timestamp < filter.from) return false;
+  if (filter.to && entry.timestamp > filter.to) return false;
+
+  if (filter.searchText) {
+    const searchLower = filter.searchText.toLowerCase();
+    return (
+      !!entry.sql?.toLowerCase().includes(searchLower) ||
+      !!entry.error?.toLowerCase().includes(searchLower) ||
+      entry.operation.toLowerCase().includes(searchLower)
+    );
+  }
+  return true;
+}
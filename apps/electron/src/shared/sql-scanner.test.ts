@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { skipCommentOrQuoted, skipDollarQuoted } from './sql-scanner';
+
+describe('sql-scanner', () => {
+  describe('skipCommentOrQuoted', () => {
+    it('should skip comments up to and including their end', () => {
+      expect(skipCommentOrQuoted('-- a\nSELECT', 0, 'sqlite')).toBe(5);
+      expect(skipCommentOrQuoted('/* a */ SELECT', 0, 'sqlite')).toBe(7);
+      expect(skipCommentOrQuoted('# a\nSELECT', 0, 'mysql')).toBe(4);
+      expect(skipCommentOrQuoted('# a\nSELECT', 0, 'postgresql')).toBe(-1);
+    });
+
+    it('should skip strings and quoted identifiers in the dialect', () => {
+      expect(skipCommentOrQuoted("'it''s' x", 0, 'sqlite')).toBe(7);
+      expect(skipCommentOrQuoted("'a\\'b' x", 0, 'mysql')).toBe(6);
+      expect(skipCommentOrQuoted('`a;b` x', 0, 'mysql')).toBe(5);
+      expect(skipCommentOrQuoted('[a;b] x', 0, 'sqlite')).toBe(5);
+      expect(skipCommentOrQuoted('[a;b] x', 0, 'postgresql')).toBe(-1);
+    });
+
+    it('should run unterminated sections to the end', () => {
+      expect(skipCommentOrQuoted("'open", 0, 'sqlite')).toBe(5);
+      expect(skipCommentOrQuoted('/* open', 0, 'sqlite')).toBe(7);
+    });
+
+    it('should return -1 outside comments and quotes', () => {
+      expect(skipCommentOrQuoted('SELECT 1', 0, 'postgresql')).toBe(-1);
+      expect(skipCommentOrQuoted('$1', 0, 'postgresql')).toBe(-1);
+    });
+  });
+
+  describe('skipDollarQuoted', () => {
+    it('should skip tagged and untagged dollar-quoted bodies', () => {
+      expect(skipDollarQuoted('$$a;b$$ x', 0)).toBe(7);
+      expect(skipDollarQuoted('$fn$ $$ $fn$ x', 0)).toBe(12);
+      expect(skipDollarQuoted('$1', 0)).toBe(-1);
+    });
+  });
+});
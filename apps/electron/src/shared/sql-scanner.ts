@@ -0,0 +1,81 @@
+/**
+ * Lexical helpers shared by the SQL scanners of the editor and the main
+ * process. Splitting scripts, finding placeholders and redacting literals all
+ * walk SQL text and must agree on where strings, quoted identifiers,
+ * comments and PostgreSQL dollar-quoted bodies begin and end.
+ */
+
+import type { SqlDialect } from './types';
+
+/**
+ * Finds the end of a quoted string or identifier starting at `start`.
+ * A doubled quote escapes itself; MySQL also accepts backslash escapes.
+ */
+export function skipQuoted(
+  sql: string,
+  start: number,
+  close: string,
+  backslashEscapes: boolean
+): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === '\\') {
+      i += 2;
+    } else if (ch === close) {
+      if (sql[i + 1] !== close) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+/**
+ * Returns the end of a PostgreSQL dollar-quoted body (`$$ ... $$` or
+ * `$tag$ ... $tag$`) starting at `start`, or -1 when the `$` doesn't open one.
+ */
+export function skipDollarQuoted(sql: string, start: number): number {
+  const tag = /^\$(?:[A-Z_]\w*)?\$/i.exec(sql.slice(start));
+  if (!tag) return -1;
+  const end = sql.indexOf(tag[0], start + tag[0].length);
+  return end === -1 ? sql.length : end + tag[0].length;
+}
+
+/**
+ * Returns the end of the comment, string, quoted identifier or dollar-quoted
+ * body starting at `start`, or -1 when none starts there. Unterminated ones
+ * run to the end of the text.
+ */
+export function skipCommentOrQuoted(
+  sql: string,
+  start: number,
+  dialect: SqlDialect
+): number {
+  const ch = sql[start];
+  const next = sql[start + 1];
+
+  if ((ch === '-' && next === '-') || (ch === '#' && dialect === 'mysql')) {
+    const end = sql.indexOf('\n', start);
+    return end === -1 ? sql.length : end + 1;
+  }
+  if (ch === '/' && next === '*') {
+    const end = sql.indexOf('*/', start + 2);
+    return end === -1 ? sql.length : end + 2;
+  }
+  if (ch === "'" || ch === '"') {
+    return skipQuoted(sql, start, ch, dialect === 'mysql');
+  }
+  if (ch === '`' && dialect !== 'postgresql') {
+    return skipQuoted(sql, start, '`', false);
+  }
+  if (ch === '[' && dialect === 'sqlite') {
+    const end = sql.indexOf(']', start);
+    return end === -1 ? sql.length : end + 1;
+  }
+  if (ch === '$' && dialect === 'postgresql') {
+    return skipDollarQuoted(sql, start);
+  }
+  return -1;
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findStatementAtOffset,
+  isReadOnlyStatement,
+  mapErrorPosition,
+  offsetToPosition,
+  positionToOffset,
+  splitSqlStatementRanges,
+} from './sql-statements';
+
+describe('sql-statements', () => {
+  describe('splitSqlStatementRanges', () => {
+    it('should return each statement with its offsets', () => {
+      const script = 'SELECT 1;\n  SELECT 2 ;\n';
+
+      expect(splitSqlStatementRanges(script, 'sqlite')).toEqual([
+        { sql: 'SELECT 1', start: 0, end: 8 },
+        { sql: 'SELECT 2', start: 12, end: 20 },
+      ]);
+    });
+
+    it('should ignore delimiters inside strings, identifiers and comments', () => {
+      const script = [
+        "INSERT INTO t VALUES ('a;b', 'it''s;', \"c;d\", [e;f]);",
+        '-- one; two',
+        'SELECT /* ; */ 1',
+      ].join('\n');
+
+      expect(
+        splitSqlStatementRanges(script, 'sqlite').map((s) => s.sql)
+      ).toEqual([
+        "INSERT INTO t VALUES ('a;b', 'it''s;', \"c;d\", [e;f])",
+        '-- one; two\nSELECT /* ; */ 1',
+      ]);
+    });
+
+    it('should keep PostgreSQL dollar-quoted bodies whole', () => {
+      const script = [
+        'CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql;',
+        'DO $body$ BEGIN PERFORM 1; END $body$;',
+        'SELECT f();',
+      ].join('\n');
+
+      expect(
+        splitSqlStatementRanges(script, 'postgresql').map((s) => s.sql)
+      ).toEqual([
+        'CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql',
+        'DO $body$ BEGIN PERFORM 1; END $body$',
+        'SELECT f()',
+      ]);
+    });
+
+    it('should follow MySQL DELIMITER lines', () => {
+      const script = [
+        'DELIMITER $$',
+        'CREATE PROCEDURE p() BEGIN SELECT 1; SELECT 2; END$$',
+        'DELIMITER ;',
+        "SELECT 'a\\';' # ; comment",
+        ';',
+      ].join('\n');
+
+      const statements = splitSqlStatementRanges(script, 'mysql');
+
+      expect(statements.map((s) => s.sql)).toEqual([
+        'CREATE PROCEDURE p() BEGIN SELECT 1; SELECT 2; END',
+        "SELECT 'a\\';' # ; comment",
+      ]);
+      expect(script.slice(statements[0].start, statements[0].end)).toBe(
+        statements[0].sql
+      );
+    });
+
+    it('should keep SQLite trigger bodies whole', () => {
+      const script = [
+        'CREATE TRIGGER tr AFTER INSERT ON t BEGIN',
+        '  UPDATE t SET a = CASE WHEN a > 0 THEN 1 ELSE 0 END;',
+        '  DELETE FROM u;',
+        'END;',
+        'BEGIN;',
+        'COMMIT;',
+      ].join('\n');
+
+      expect(
+        splitSqlStatementRanges(script, 'sqlite').map((s) => s.sql)
+      ).toEqual([
+        script.slice(0, script.indexOf('\nEND;') + 4),
+        'BEGIN',
+        'COMMIT',
+      ]);
+    });
+
+    it('should skip empty statements', () => {
+      expect(
+        splitSqlStatementRanges(';; SELECT 1 ;  ;', 'sqlite').map((s) => s.sql)
+      ).toEqual(['SELECT 1']);
+    });
+  });
+
+  describe('findStatementAtOffset', () => {
+    const script = 'SELECT 1;  SELECT 2;';
+    const statements = splitSqlStatementRanges(script, 'sqlite');
+
+    it('should find the statement under the offset', () => {
+      expect(findStatementAtOffset(statements, 3)?.sql).toBe('SELECT 1');
+      expect(findStatementAtOffset(statements, 15)?.sql).toBe('SELECT 2');
+    });
+
+    it('should pick the previous statement between two statements', () => {
+      expect(findStatementAtOffset(statements, 10)?.sql).toBe('SELECT 1');
+      expect(findStatementAtOffset(statements, 20)?.sql).toBe('SELECT 2');
+    });
+
+    it('should handle offsets before the first statement', () => {
+      expect(
+        findStatementAtOffset(
+          splitSqlStatementRanges('\n\nSELECT 1', 'sqlite'),
+          0
+        )?.sql
+      ).toBe('SELECT 1');
+      expect(findStatementAtOffset([], 0)).toBeUndefined();
+    });
+  });
+
+  describe('isReadOnlyStatement', () => {
+    it('should accept a single query', () => {
+      expect(isReadOnlyStatement('SELECT * FROM users;', 'postgresql')).toBe(
+        true
+      );
+      expect(
+        isReadOnlyStatement(
+          "-- recent\nWITH t AS (SELECT 1) SELECT 'delete' FROM t",
+          'postgresql'
+        )
+      ).toBe(true);
+    });
+
+    it('should reject statements that change data or schema', () => {
+      expect(isReadOnlyStatement('DELETE FROM users', 'mysql')).toBe(false);
+      expect(isReadOnlyStatement('ALTER TABLE t ADD c int', 'mysql')).toBe(
+        false
+      );
+      expect(
+        isReadOnlyStatement(
+          'WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d',
+          'postgresql'
+        )
+      ).toBe(false);
+      expect(
+        isReadOnlyStatement('SELECT * INTO backup FROM users', 'postgresql')
+      ).toBe(false);
+    });
+
+    it('should reject more than one statement', () => {
+      expect(
+        isReadOnlyStatement('SELECT 1; COMMIT; DROP TABLE users', 'postgresql')
+      ).toBe(false);
+    });
+  });
+
+  describe('positions', () => {
+    it('should convert between offsets and line/column', () => {
+      const text = 'SELECT\n  a,\n  b';
+
+      expect(offsetToPosition(text, 0)).toEqual({ line: 1, column: 1 });
+      expect(offsetToPosition(text, 9)).toEqual({ line: 2, column: 3 });
+      expect(positionToOffset(text, { line: 2, column: 3 })).toBe(9);
+      expect(positionToOffset(text, { line: 3, column: 99 })).toBe(text.length);
+    });
+
+    it('should map a statement position onto the script', () => {
+      const script = 'SELECT 1;\n\nSELECT\n  nope FROM t;';
+      const [, statement] = splitSqlStatementRanges(script, 'sqlite');
+
+      expect(
+        mapErrorPosition(script, statement.start, statement.sql, {
+          line: 2,
+          column: 3,
+        })
+      ).toEqual({ line: 4, column: 3 });
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * SQL script splitting shared by the editor and the main process.
+ * The renderer finds the statement under the cursor; the main process runs a
+ * script one statement at a time so each result can be traced back to the
+ * text that produced it. Offsets are kept so error positions reported for a
+ * statement can be mapped onto the full script.
+ */
+
+import type { ErrorPosition, SqlDialect } from './types';
+import { skipCommentOrQuoted } from './sql-scanner';
+
+/**
+ * A statement of a script, without its delimiter.
+ */
+export interface SqlStatementRange {
+  /** Statement text, trimmed; leading comments are kept */
+  sql: string;
+  /** Offsets of `sql` in the script */
+  start: number;
+  end: number;
+}
+
+const WORD_PART = /[\w$]/;
+const DELIMITER_DIRECTIVE = /^DELIMITER[ \t]+(\S+)[ \t]*(?=\n|$)/i;
+const TRIGGER_PREFIX =
+  /^(?:\s|--[^\n]*\n|\/\*[\s\S]*?\*\/)*CREATE\s+(?:TEMP(?:ORARY)?\s+)?TRIGGER\b/i;
+
+/**
+ * Whether only spaces and tabs precede `index` on its line.
+ */
+function isLineStart(sql: string, index: number): boolean {
+  for (let i = index - 1; i >= 0; i--) {
+    if (sql[i] === '\n') return true;
+    if (sql[i] !== ' ' && sql[i] !== '\t') return false;
+  }
+  return true;
+}
+
+/**
+ * Splits a script into statements, ignoring delimiters inside strings,
+ * quoted identifiers, comments and PostgreSQL dollar-quoted bodies.
+ * MySQL scripts may change the delimiter with `DELIMITER` lines, which are
+ * not statements themselves; SQLite trigger bodies stay whole.
+ */
+export function splitSqlStatementRanges(
+  script: string,
+  dialect: SqlDialect
+): SqlStatementRange[] {
+  const statements: SqlStatementRange[] = [];
+  let delimiter = ';';
+  let statementStart = 0;
+  // Open BEGIN and CASE blocks of a SQLite trigger body
+  let blockDepth = 0;
+  let i = 0;
+
+  const pushStatement = (end: number) => {
+    const text = script.slice(statementStart, end);
+    const sql = text.trim();
+    if (sql) {
+      const start = statementStart + text.indexOf(sql);
+      statements.push({ sql, start, end: start + sql.length });
+    }
+  };
+
+  while (i < script.length) {
+    const ch = script[i];
+
+    if (
+      dialect === 'mysql' &&
+      (ch === 'D' || ch === 'd') &&
+      isLineStart(script, i)
+    ) {
+      const directive = DELIMITER_DIRECTIVE.exec(script.slice(i));
+      if (directive) {
+        pushStatement(i);
+        delimiter = directive[1];
+        i += directive[0].length;
+        statementStart = i;
+        continue;
+      }
+    }
+
+    if (blockDepth === 0 && script.startsWith(delimiter, i)) {
+      pushStatement(i);
+      i += delimiter.length;
+      statementStart = i;
+      continue;
+    }
+
+    const skipped = skipCommentOrQuoted(script, i, dialect);
+    if (skipped !== -1) {
+      i = skipped;
+    } else if (WORD_PART.test(ch)) {
+      const start = i;
+      while (
+        i < script.length &&
+        WORD_PART.test(script[i]) &&
+        !script.startsWith(delimiter, i)
+      ) {
+        i++;
+      }
+      if (dialect === 'sqlite') {
+        const word = script.slice(start, i).toUpperCase();
+        if (
+          word === 'BEGIN' &&
+          TRIGGER_PREFIX.test(script.slice(statementStart, start))
+        ) {
+          blockDepth++;
+        } else if (word === 'CASE' && blockDepth > 0) {
+          blockDepth++;
+        } else if (word === 'END' && blockDepth > 0) {
+          blockDepth--;
+        }
+      }
+    } else {
+      i++;
+    }
+  }
+
+  pushStatement(script.length);
+  return statements;
+}
+
+/**
+ * Words of a statement outside strings, quoted identifiers and comments.
+ */
+function getStatementWords(sql: string, dialect: SqlDialect): string[] {
+  const words: string[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const skipped = skipCommentOrQuoted(sql, i, dialect);
+    if (skipped !== -1) {
+      i = skipped;
+    } else if (WORD_PART.test(sql[i])) {
+      const start = i;
+      while (i < sql.length && WORD_PART.test(sql[i])) i++;
+      words.push(sql.slice(start, i).toUpperCase());
+    } else {
+      i++;
+    }
+  }
+  return words;
+}
+
+const READ_ONLY_LEADING_WORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+const DATA_MODIFYING_WORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'INTO',
+]);
+
+/**
+ * Whether `sql` is a single query that reads data without changing it.
+ * Queries are recognised by their leading keyword; data-modifying CTEs and
+ * `SELECT ... INTO` are not read-only. Functions with side effects can't be
+ * told apart, so callers should still run the query read-only.
+ */
+export function isReadOnlyStatement(sql: string, dialect: SqlDialect): boolean {
+  const statements = splitSqlStatementRanges(sql, dialect);
+  if (statements.length !== 1) return false;
+  const words = getStatementWords(statements[0].sql, dialect);
+  return (
+    READ_ONLY_LEADING_WORDS.has(words[0]) &&
+    !words.some((word) => DATA_MODIFYING_WORDS.has(word))
+  );
+}
+
+/**
+ * Returns the statement under `offset`. Between two statements, the one
+ * before it is picked, so a cursor right after a delimiter runs that
+ * statement; before the first statement, the first one is.
+ */
+export function findStatementAtOffset(
+  statements: SqlStatementRange[],
+  offset: number
+): SqlStatementRange | undefined {
+  let previous: SqlStatementRange | undefined;
+  for (const statement of statements) {
+    if (offset < statement.start) return previous ?? statement;
+    if (offset <= statement.end) return statement;
+    previous = statement;
+  }
+  return previous;
+}
+
+/**
+ * Converts an offset in `text` to a 1-based line and column.
+ */
+export function offsetToPosition(text: string, offset: number): ErrorPosition {
+  const before = text.slice(0, Math.max(0, offset));
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: before.length - lineStart + 1,
+  };
+}
+
+/**
+ * Converts a 1-based line and column in `text` to an offset, clamped to the
+ * line's length.
+ */
+export function positionToOffset(
+  text: string,
+  position: ErrorPosition
+): number {
+  const lines = text.split('\n');
+  const lineIndex = Math.min(Math.max(position.line, 1), lines.length) - 1;
+  let offset = 0;
+  for (let i = 0; i < lineIndex; i++) {
+    offset += lines[i].length + 1;
+  }
+  return (
+    offset + Math.min(Math.max(position.column - 1, 0), lines[lineIndex].length)
+  );
+}
+
+/**
+ * Maps an error position reported for text that starts at `offset` in
+ * `script` onto the script.
+ */
+export function mapErrorPosition(
+  script: string,
+  offset: number,
+  text: string,
+  position: ErrorPosition
+): ErrorPosition {
+  return offsetToPosition(script, offset + positionToOffset(text, position));
+}
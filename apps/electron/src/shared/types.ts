@@ -83,6 +83,11 @@ export interface EnhancedErrorInfo {
  */
 export type DatabaseType = 'sqlite' | 'mysql' | 'postgresql' | 'supabase';
 
+/**
+ * SQL dialects of the supported database types. Supabase speaks PostgreSQL.
+ */
+export type SqlDialect = 'sqlite' | 'mysql' | 'postgresql';
+
 /**
  * Connection configuration for different database types
  */
@@ -104,8 +109,14 @@ export interface DatabaseConnectionConfig {
   username?: string;
   /** Supabase-specific: project URL */
   supabaseUrl?: string;
-  /** Supabase-specific: anon/service role key */
+  /** Supabase-specific: database password for direct Postgres access */
   supabaseKey?: string;
+  /** Supabase-specific: service_role API key, used by the REST API fallback */
+  supabaseServiceKey?: string;
+  /** Supabase-specific: anon API key, used by the REST API fallback */
+  supabaseAnonKey?: string;
+  /** Supabase-specific: role to connect as (defaults to service_role) */
+  supabaseRole?: SupabaseRole;
   /** SSL/TLS configuration */
   ssl?:
     | boolean
@@ -117,6 +128,55 @@ export interface DatabaseConnectionConfig {
       };
   /** Read-only mode */
   readOnly?: boolean;
+  /** MySQL/PostgreSQL: reach the server through an SSH bastion host */
+  ssh?: SshTunnelConfig;
+  /**
+   * MySQL/PostgreSQL: maximum number of sessions, including pinned tab and
+   * cursor sessions (defaults to 5)
+   */
+  poolSize?: number;
+}
+
+/**
+ * SSH tunnel to a bastion host. The database host and port are resolved from
+ * the bastion, so they may be private addresses.
+ */
+export interface SshTunnelConfig {
+  host: string;
+  /** SSH port (defaults to 22) */
+  port?: number;
+  username: string;
+  authMethod: 'password' | 'privateKey';
+  /** Password for the 'password' method */
+  password?: string;
+  /** Private key file for the 'privateKey' method */
+  privateKeyPath?: string;
+  /** Passphrase of an encrypted private key */
+  passphrase?: string;
+  /**
+   * 'known-hosts' rejects bastions whose key is missing from or does not
+   * match the known_hosts file; 'none' accepts any host key
+   */
+  hostKeyVerification: 'known-hosts' | 'none';
+  /** known_hosts file (defaults to ~/.ssh/known_hosts) */
+  knownHostsPath?: string;
+}
+
+/**
+ * Supabase role whose privileges and Row Level Security policies apply.
+ * service_role bypasses RLS; anon sees what RLS exposes to the public.
+ */
+export type SupabaseRole = 'service_role' | 'anon';
+
+/**
+ * How a Supabase connection reaches the project
+ */
+export interface SupabaseSessionInfo {
+  /** 'postgres' for a direct database connection, 'rest' for PostgREST */
+  mode: 'postgres' | 'rest';
+  role: SupabaseRole;
+  /** Roles the connection can switch to */
+  roles: SupabaseRole[];
 }
 
 export interface OpenDatabaseRequest {
@@ -126,6 +186,11 @@ export interface OpenDatabaseRequest {
   readOnly?: boolean;
   /** New: full connection configuration */
   config?: DatabaseConnectionConfig;
+  /**
+   * Server connections: save the database and SSH passwords in password
+   * storage (defaults to true)
+   */
+  rememberPassword?: boolean;
 }
 
 export interface OpenDatabaseResponse {
@@ -138,6 +203,8 @@ export interface OpenDatabaseResponse {
     isReadOnly: boolean;
     /** Database type for this connection */
     databaseType?: DatabaseType;
+    /** Supabase connections: access mode and active role */
+    supabase?: SupabaseSessionInfo;
   };
   error?: string;
   /** When true, indicates the database requires a password to open */
@@ -171,6 +238,8 @@ export interface ColumnInfo {
   nullable: boolean;
   defaultValue: string | null;
   isPrimaryKey: boolean;
+  /** Column value is generated by AUTO_INCREMENT (MySQL) */
+  isAutoIncrement?: boolean;
 }
 
 export interface IndexInfo {
@@ -181,6 +250,8 @@ export interface IndexInfo {
 }
 
 export interface ForeignKeyInfo {
+  /** Constraint name, when reported by the database */
+  name?: string;
   column: string;
   referencedTable: string;
   referencedColumn: string;
@@ -196,6 +267,22 @@ export interface TriggerInfo {
   sql: string;
 }
 
+/**
+ * Row Level Security policy (PostgreSQL)
+ */
+export interface PolicyInfo {
+  name: string;
+  /** ALL, SELECT, INSERT, UPDATE or DELETE */
+  command: string;
+  roles: string[];
+  /** Permissive policies are OR-ed together, restrictive ones AND-ed */
+  permissive: boolean;
+  /** USING expression: which existing rows are visible */
+  using: string | null;
+  /** WITH CHECK expression: which new rows are allowed */
+  withCheck: string | null;
+}
+
 export interface TableInfo {
   name: string;
   schema: string; // Database schema (e.g., 'main', 'temp' for SQLite)
@@ -207,12 +294,80 @@ export interface TableInfo {
   triggers: TriggerInfo[];
   rowCount?: number;
   sql: string;
+  /** PostgreSQL: whether Row Level Security is enabled */
+  rowLevelSecurity?: boolean;
+  /** PostgreSQL: Row Level Security policies */
+  policies?: PolicyInfo[];
+  /** PostgreSQL: materialized view (type is 'view') */
+  materialized?: boolean;
+}
+
+/**
+ * Function or procedure (PostgreSQL)
+ */
+export interface RoutineInfo {
+  name: string;
+  schema: string;
+  kind: 'function' | 'procedure' | 'aggregate' | 'window';
+  /** Arguments as declared, e.g. `user_id uuid, lim integer DEFAULT 10` */
+  arguments: string;
+  /** Null for procedures */
+  returnType: string | null;
+  language: string;
+  sql: string;
+}
+
+/**
+ * Sequence (PostgreSQL)
+ */
+export interface SequenceInfo {
+  name: string;
+  schema: string;
+  dataType: string;
+  startValue: string;
+  increment: string;
+  minValue: string;
+  maxValue: string;
+  cycle: boolean;
+  /** Column the sequence belongs to (serial columns), as `table.column` */
+  ownedBy: string | null;
+  sql: string;
+}
+
+/**
+ * Enum or domain type (PostgreSQL)
+ */
+export interface CustomTypeInfo {
+  name: string;
+  schema: string;
+  kind: 'enum' | 'domain';
+  /** Enum labels in sort order */
+  values?: string[];
+  /** Underlying type of a domain */
+  baseType?: string;
+  sql: string;
+}
+
+/**
+ * Installed extension (PostgreSQL), listed under the schema holding its objects
+ */
+export interface ExtensionInfo {
+  name: string;
+  schema: string;
+  version: string;
+  sql: string;
 }
 
 export interface SchemaInfo {
   name: string;
   tables: TableInfo[];
   views: TableInfo[];
+  /** PostgreSQL only */
+  materializedViews?: TableInfo[];
+  routines?: RoutineInfo[];
+  sequences?: SequenceInfo[];
+  types?: CustomTypeInfo[];
+  extensions?: ExtensionInfo[];
 }
 
 export interface GetSchemaResponse {
@@ -271,6 +426,66 @@ export interface GetTableDataResponse {
 export interface ExecuteQueryRequest {
   connectionId: string;
   query: string;
+  /** Client-generated ID used to cancel the query with DB_CANCEL_QUERY */
+  executionId?: string;
+  /**
+   * Stream a single row-returning statement through a server-side cursor and
+   * return only its first `pageSize` rows. The rest is read with
+   * DB_FETCH_CURSOR. Other queries run normally.
+   */
+  pageSize?: number;
+  /**
+   * Run on a session dedicated to this ID (the query tab) instead of the
+   * connection's pool, so temp tables, SET variables and open transactions
+   * carry over between queries. Released with DB_RELEASE_SESSION.
+   */
+  sessionId?: string;
+  /**
+   * Open a transaction on the session before the query unless one is open
+   * already, and leave it open. The response reports the session's
+   * transaction state. Ended with DB_END_TRANSACTION.
+   */
+  manualCommit?: boolean;
+  /**
+   * Values for the query's `:name`, `$1` and `?` placeholders, keyed as
+   * returned by getQueryParameterKeys. Sent to the database as bind
+   * parameters; streaming is skipped for parameterized queries.
+   */
+  parameters?: Record<string, QueryParameterValue>;
+  /**
+   * Split the query into statements and run them one at a time on the same
+   * session, stopping at the first error. Without `sessionId` a temporary
+   * session is used. Scripts of more than one statement report each one in
+   * `statements` and are never streamed; a single statement runs without
+   * its delimiter.
+   */
+  splitStatements?: boolean;
+}
+
+/**
+ * How a query parameter's input is converted before binding.
+ */
+export type QueryParameterType =
+  | 'text'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'null';
+
+/**
+ * Value bound to a query placeholder.
+ */
+export type QueryParameterValue = string | number | boolean | null;
+
+/**
+ * Typed input for a query placeholder, as entered in the parameters panel.
+ */
+export interface QueryParameterDefinition {
+  /** Placeholder key: `:name`, `$1`, or `?1` for the first `?` */
+  name: string;
+  type: QueryParameterType;
+  /** Raw input, converted according to `type` when the query runs */
+  value: string;
 }
 
 /** Single result set from a SELECT query */
@@ -279,6 +494,28 @@ export interface QueryResultSet {
   rows: Record<string, unknown>[];
 }
 
+/** Outcome of one statement of a script run with splitStatements */
+export interface StatementResult {
+  /** Statement text, without its delimiter */
+  sql: string;
+  /** Offsets of the statement in the executed query */
+  start: number;
+  end: number;
+  success: boolean;
+  /** Not run because an earlier statement failed or the run was stopped */
+  skipped?: boolean;
+  columns?: string[];
+  rows?: Record<string, unknown>[];
+  rowsAffected?: number;
+  lastInsertRowId?: number;
+  /** Milliseconds the statement took */
+  executionTime: number;
+  error?: string;
+  errorCode?: ErrorCode;
+  /** Error position in the executed query, not in the statement */
+  errorPosition?: ErrorPosition;
+}
+
 export interface ExecuteQueryResponse {
   success: boolean;
   /** Columns for single result (backward compatibility) */
@@ -303,6 +540,121 @@ export interface ExecuteQueryResponse {
   suggestions?: string[];
   /** URL to relevant SQLite documentation */
   documentationUrl?: string;
+  /** The query was cancelled by the user */
+  cancelled?: boolean;
+  /** The query was cancelled by the connection's statement timeout */
+  timedOut?: boolean;
+  /** Cursor holding the rest of a streamed result, while rows remain */
+  cursorId?: string;
+  /** More rows of a streamed result can be fetched with cursorId */
+  hasMore?: boolean;
+  /** Transaction state of the session after a manual-commit query */
+  transactionState?: TransactionState;
+  /** Each statement of a script run with splitStatements */
+  statements?: StatementResult[];
+}
+
+export interface FetchCursorRequest {
+  cursorId: string;
+  /** Maximum number of rows to read */
+  count: number;
+}
+
+export interface FetchCursorResponse {
+  success: boolean;
+  rows?: Record<string, unknown>[];
+  /** Rows read from the cursor so far, including this page */
+  rowCount?: number;
+  /** False once the result is exhausted; the cursor is then closed */
+  hasMore?: boolean;
+  error?: string;
+}
+
+export interface CloseCursorRequest {
+  cursorId: string;
+}
+
+export interface CloseCursorResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface SetSupabaseRoleRequest {
+  connectionId: string;
+  role: SupabaseRole;
+}
+
+export interface SetSupabaseRoleResponse {
+  success: boolean;
+  supabase?: SupabaseSessionInfo;
+  error?: string;
+}
+
+export interface ReleaseSessionRequest {
+  connectionId: string;
+  sessionId: string;
+}
+
+export interface ReleaseSessionResponse {
+  success: boolean;
+  /** False when no session was pinned to the ID */
+  released?: boolean;
+  error?: string;
+}
+
+/** Sessions of a pooled MySQL or PostgreSQL connection */
+export interface PoolStatus {
+  /** Maximum number of pooled sessions */
+  size: number;
+  /** Sessions running a query, including pinned ones */
+  active: number;
+  idle: number;
+  /** Sessions of the pool held by query tabs */
+  pinned: number;
+  /** Requests waiting for a pooled session */
+  waiting: number;
+}
+
+export interface GetPoolStatusRequest {
+  connectionId: string;
+}
+
+export interface GetPoolStatusResponse {
+  success: boolean;
+  status?: PoolStatus;
+  error?: string;
+}
+
+/**
+ * Transaction state of a query tab's session. A PostgreSQL transaction is
+ * failed after an error and only accepts a rollback.
+ */
+export type TransactionState = 'idle' | 'active' | 'failed';
+
+export type TransactionAction = 'commit' | 'rollback';
+
+export interface EndTransactionRequest {
+  connectionId: string;
+  /** Session of the query tab; SQLite connections have a single session */
+  sessionId?: string;
+  action: TransactionAction;
+}
+
+export interface EndTransactionResponse {
+  success: boolean;
+  transactionState?: TransactionState;
+  error?: string;
+}
+
+export interface CancelQueryRequest {
+  executionId: string;
+}
+
+export interface CancelQueryResponse {
+  success: boolean;
+  /** False when no query with the execution ID is running */
+  cancelled?: boolean;
+  error?: string;
 }
 
 // ============ Change Types ============
@@ -410,6 +762,11 @@ export interface ExportRequest {
    * filtered/selected rows from the UI.
    */
   rows?: Record<string, unknown>[];
+  /**
+   * Query whose full result is exported instead of the table. The result is
+   * read through a server-side cursor and written as it arrives.
+   */
+  query?: string;
 }
 
 export interface ExportResponse {
@@ -418,6 +775,105 @@ export interface ExportResponse {
   error?: string;
 }
 
+// ============ Data Import Types ============
+
+/** Supported data import formats */
+export type ImportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx';
+
+/** Column type inferred from the values of a source column */
+export type ImportColumnType = 'integer' | 'real' | 'boolean' | 'date' | 'text';
+
+export interface ImportParseOptions {
+  /** File format (detected from the file extension if not specified) */
+  format?: ImportFormat;
+  /** Treat the first row as column names (CSV/TSV/XLSX, defaults to true) */
+  hasHeaders?: boolean;
+  /** Field delimiter (CSV, defaults to ','; TSV always uses a tab) */
+  delimiter?: string;
+  /** Number of leading rows to skip before the header row */
+  skipRows?: number;
+  /** Worksheet to read (XLSX, defaults to the first sheet) */
+  sheetName?: string;
+}
+
+export interface ImportSourceColumn {
+  name: string;
+  inferredType: ImportColumnType;
+}
+
+export interface ImportPreviewRequest extends ImportParseOptions {
+  filePath: string;
+  /** Number of rows to return (defaults to 50) */
+  previewRows?: number;
+}
+
+export interface ImportPreviewResponse {
+  success: boolean;
+  format?: ImportFormat;
+  columns?: ImportSourceColumn[];
+  rows?: Record<string, unknown>[];
+  totalRows?: number;
+  /** Worksheet names (XLSX only) */
+  sheetNames?: string[];
+  error?: string;
+}
+
+export interface ImportColumnMapping {
+  /** Column name in the source file */
+  source: string;
+  /** Column name in the target table */
+  target: string;
+}
+
+export interface ImportDataRequest extends ImportParseOptions {
+  connectionId: string;
+  filePath: string;
+  table: string;
+  /** Database schema of the target table */
+  schema?: string;
+  /** Create the target table from the inferred column types */
+  createTable?: boolean;
+  /**
+   * Source to target column mappings. Defaults to mapping every source column
+   * to the target column with the same name.
+   */
+  columnMappings?: ImportColumnMapping[];
+  /** Rows per transaction (defaults to 1000) */
+  batchSize?: number;
+  /**
+   * 'skip' records failing rows and keeps importing, 'abort' rolls back the
+   * current batch and stops (defaults to 'skip')
+   */
+  onError?: 'skip' | 'abort';
+  /** Caller-provided id echoed back in progress events */
+  importId?: string;
+}
+
+export interface ImportRowError {
+  /** 1-based data row number in the source file */
+  row: number;
+  error: string;
+}
+
+export interface ImportDataResponse {
+  success: boolean;
+  rowsImported?: number;
+  rowsFailed?: number;
+  /** Per-row failures (capped, see rowsFailed for the total) */
+  errors?: ImportRowError[];
+  /** Whether the target table was created by this import */
+  createdTable?: boolean;
+  error?: string;
+}
+
+export interface ImportProgressEvent {
+  importId?: string;
+  rowsProcessed: number;
+  totalRows: number;
+  rowsImported: number;
+  rowsFailed: number;
+}
+
 // ============ Preferences Types ============
 
 export interface RecentConnection {
@@ -538,6 +994,10 @@ export interface ConnectionProfile {
   databaseType?: DatabaseType;
   /** Connection configuration for non-SQLite databases */
   connectionConfig?: DatabaseConnectionConfig;
+  /** Query Editor statement timeout in seconds (unset or 0 = no timeout) */
+  statementTimeout?: number;
+  /** Persistent audit log of the SQL run on this connection */
+  auditLog?: AuditLogSettings;
 }
 
 /**
@@ -721,6 +1181,53 @@ export interface QueryHistoryEntry {
   error?: string;
   /** Description of the query */
   description?: string;
+  /** Rows returned, or changed by a statement without a result set */
+  rowCount?: number;
+  /** Display name of the connection profile the query ran on */
+  connectionName?: string;
+  /** Query editor tab the query ran in */
+  tabId?: string;
+  tabTitle?: string;
+}
+
+export type QueryHistoryStatus = 'success' | 'error';
+
+export interface SearchQueryHistoryRequest {
+  /** Full-text search over the query text and error message */
+  text?: string;
+  /** Only entries of this database; all databases when omitted */
+  dbPath?: string;
+  status?: QueryHistoryStatus;
+  /** Inclusive range of execution times (ISO strings) */
+  from?: string;
+  to?: string;
+  /** Page size, 100 by default */
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchQueryHistoryResponse {
+  success: boolean;
+  /** Matching entries, most recent first */
+  entries?: QueryHistoryEntry[];
+  /** Number of matching entries across all pages */
+  total?: number;
+  error?: string;
+}
+
+/** A database with recorded history, for filtering by connection */
+export interface QueryHistoryConnection {
+  dbPath: string;
+  /** Latest profile name recorded for the database */
+  connectionName?: string;
+  count: number;
+  lastExecutedAt: string;
+}
+
+export interface GetQueryHistoryConnectionsResponse {
+  success: boolean;
+  connections?: QueryHistoryConnection[];
+  error?: string;
 }
 
 export interface GetQueryHistoryRequest {
@@ -838,6 +1345,71 @@ export interface ClearSqlLogsResponse {
   error?: string;
 }
 
+export type SqlLogOperation = SqlLogEntry['operation'];
+
+/**
+ * Filters of the SQL log panel, applied to session and audit logs alike
+ */
+export interface SqlLogFilter {
+  operation?: SqlLogOperation;
+  level?: SqlLogLevel;
+  /** Inclusive range of timestamps (ISO strings) */
+  from?: string;
+  to?: string;
+  /** Case-insensitive text of the SQL, error or operation */
+  searchText?: string;
+}
+
+/**
+ * Persistent audit log settings of a connection profile. Entries are
+ * appended to NDJSON files in the user data directory, one file per day.
+ */
+export interface AuditLogSettings {
+  enabled: boolean;
+  /** Replace string and number literals in logged SQL with `?` */
+  redactLiterals: boolean;
+  /** A day's file rolls over to a new one past this size */
+  maxFileSizeMb: number;
+  /** Files older than this many days are deleted */
+  retentionDays: number;
+}
+
+export const DEFAULT_AUDIT_LOG_SETTINGS: AuditLogSettings = {
+  enabled: false,
+  redactLiterals: true,
+  maxFileSizeMb: 10,
+  retentionDays: 90,
+};
+
+export interface GetAuditLogsRequest extends SqlLogFilter {
+  /** Connection profile whose audit log is read */
+  profileId: string;
+  /** Maximum number of entries, most recent first */
+  limit?: number;
+}
+
+export interface GetAuditLogsResponse {
+  success: boolean;
+  logs?: SqlLogEntry[];
+  error?: string;
+}
+
+export type SqlLogExportFormat = 'ndjson' | 'csv';
+
+export interface ExportSqlLogsRequest extends SqlLogFilter {
+  /** Audit log to export; the session log when omitted */
+  profileId?: string;
+  format: SqlLogExportFormat;
+  filePath: string;
+}
+
+export interface ExportSqlLogsResponse {
+  success: boolean;
+  /** Number of entries written */
+  count?: number;
+  error?: string;
+}
+
 // ============ Query Plan Analysis Types ============
 
 export interface QueryPlanNode {
@@ -855,6 +1427,18 @@ export interface QueryPlanNode {
   estimatedCost?: number;
   /** Estimated number of rows processed */
   estimatedRows?: number;
+  /** Plan operator of server plans (e.g., "Seq Scan", "Nested loop inner join") */
+  operation?: string;
+  /** Rows produced per loop, measured by EXPLAIN ANALYZE */
+  actualRows?: number;
+  /** Times the node was executed, measured by EXPLAIN ANALYZE */
+  loops?: number;
+  /** Time spent in the node and its children across all loops, in milliseconds */
+  actualTimeMs?: number;
+  /** Shared buffer blocks found in cache (PostgreSQL BUFFERS) */
+  sharedHitBlocks?: number;
+  /** Shared buffer blocks read from disk (PostgreSQL BUFFERS) */
+  sharedReadBlocks?: number;
 }
 
 export interface QueryPlanStats {
@@ -878,11 +1462,20 @@ export interface QueryPlanStats {
   hasSort?: boolean;
   /** Whether the plan uses an index */
   hasIndex?: boolean;
+  /** Whether the plan carries actual metrics from EXPLAIN ANALYZE */
+  analyzed?: boolean;
+  /** Query planning time in milliseconds */
+  planningTime?: number;
 }
 
 export interface AnalyzeQueryPlanRequest {
   connectionId: string;
   query: string;
+  /**
+   * Execute the query with EXPLAIN ANALYZE inside a rolled-back transaction
+   * to measure actual rows, loops and time (MySQL and PostgreSQL)
+   */
+  analyze?: boolean;
 }
 
 export interface AnalyzeQueryPlanResponse {
@@ -1098,6 +1691,10 @@ export type MenuAction =
   | 'switch-to-schema-compare'
   | 'toggle-history'
   | 'execute-query'
+  | 'execute-statement'
+  | 'execute-selection'
+  | 'commit-transaction'
+  | 'rollback-transaction'
   | 'view-changes'
   | 'show-shortcuts'
   | 'new-window'
@@ -1396,6 +1993,22 @@ export interface TableDiff {
   };
 }
 
+/**
+ * Difference of a schema object other than a table or view (PostgreSQL),
+ * compared by the DDL that recreates it
+ */
+export interface SchemaObjectDiff {
+  kind: 'materializedView' | 'routine' | 'sequence' | 'type' | 'extension';
+  /** Object name; routines include their arguments to tell overloads apart */
+  name: string;
+  schema: string;
+  diffType: DiffType;
+  /** DDL in source schema (null if added in target) */
+  sourceSql: string | null;
+  /** DDL in target schema (null if removed from source) */
+  targetSql: string | null;
+}
+
 /**
  * Complete schema comparison result
  */
@@ -1412,10 +2025,16 @@ export interface SchemaComparisonResult {
   targetName: string;
   /** Target type */
   targetType: 'connection' | 'snapshot';
+  /** Database type of the source connection */
+  sourceDatabaseType?: DatabaseType;
+  /** Database type of the target connection */
+  targetDatabaseType?: DatabaseType;
   /** When the comparison was performed (ISO string) */
   comparedAt: string;
   /** All table differences */
   tableDiffs: TableDiff[];
+  /** Routines, sequences, types, extensions and materialized views */
+  objectDiffs?: SchemaObjectDiff[];
   /** Quick summary statistics */
   summary: {
     /** Total tables in source */
@@ -1438,6 +2057,8 @@ export interface SchemaComparisonResult {
     totalForeignKeyChanges: number;
     /** Total trigger changes across all tables */
     totalTriggerChanges: number;
+    /** Added, removed or modified schema objects other than tables */
+    totalObjectChanges?: number;
   };
 }
 
@@ -1534,6 +2155,11 @@ export interface GenerateMigrationSQLRequest {
   reverse?: boolean;
   /** Include DROP statements for removed tables/columns (default: false for safety) */
   includeDropStatements?: boolean;
+  /**
+   * Database type the migration is applied to. Defaults to the type of the
+   * migrated side of the comparison (source, or target when reversed), then SQLite.
+   */
+  databaseType?: DatabaseType;
 }
 
 export interface GenerateMigrationSQLResponse {
@@ -1542,11 +2168,122 @@ export interface GenerateMigrationSQLResponse {
   sql?: string;
   /** Individual statements as array (for step-by-step execution) */
   statements?: string[];
-  /** Warnings about SQLite limitations or potential data loss */
+  /** Warnings about dialect limitations or potential data loss */
+  warnings?: string[];
+  error?: string;
+}
+
+// ============ Schema Design Types ============
+
+/**
+ * A schema edit made in the ER diagram's design mode. Edits are collected
+ * in order and applied to the live schema to produce the designed one.
+ */
+export type SchemaDesignChange =
+  | {
+      type: 'addTable';
+      schema: string;
+      table: string;
+      columns: ColumnInfo[];
+    }
+  | {
+      type: 'addColumn';
+      schema: string;
+      table: string;
+      column: ColumnInfo;
+    }
+  | {
+      type: 'setColumnType';
+      schema: string;
+      table: string;
+      column: string;
+      columnType: string;
+    }
+  | {
+      type: 'addForeignKey';
+      schema: string;
+      table: string;
+      foreignKey: ForeignKeyInfo;
+    };
+
+export interface PreviewSchemaDesignRequest {
+  connectionId: string;
+  changes: SchemaDesignChange[];
+}
+
+export interface PreviewSchemaDesignResponse {
+  success: boolean;
+  /** DDL that applies the changes */
+  sql?: string;
+  statements?: string[];
+  /** Warnings about dialect limitations or potential data loss */
   warnings?: string[];
   error?: string;
 }
 
+export interface ApplySchemaDesignRequest {
+  connectionId: string;
+  changes: SchemaDesignChange[];
+}
+
+/**
+ * Response from applying schema design changes. The DDL runs in one
+ * transaction; on failure it is rolled back and no statement takes effect.
+ */
+export interface ApplySchemaDesignResponse {
+  success: boolean;
+  /** Number of statements executed */
+  statementsExecuted?: number;
+  /** 1-based index of the statement that failed */
+  failedStatement?: number;
+  error?: string;
+}
+
+// ============ Inferred Relationship Types ============
+
+/**
+ * A relationship that is not declared as a foreign key but is suggested by
+ * naming conventions, such as `orders.user_id` referencing `users.id`.
+ */
+export interface InferredRelationship {
+  /** Schema of both tables */
+  schema: string;
+  /** Table holding the referencing column */
+  table: string;
+  column: string;
+  referencedTable: string;
+  referencedColumn: string;
+  /** How likely the relationship is, from 0 to 1 */
+  confidence: number;
+  /** Why the relationship was proposed */
+  reason: string;
+  /** Result of checking sampled values against the referenced table */
+  verification?: RelationshipVerification;
+}
+
+export interface RelationshipVerification {
+  /** Distinct non-null values sampled from the referencing column */
+  sampledValues: number;
+  /** Sampled values found in the referenced column */
+  matchedValues: number;
+  /** Why the values could not be checked */
+  error?: string;
+}
+
+export interface VerifyRelationshipsRequest {
+  connectionId: string;
+  relationships: InferredRelationship[];
+  /** Distinct values sampled per relationship */
+  sampleSize?: number;
+}
+
+export interface VerifyRelationshipsResponse {
+  success: boolean;
+  /** The relationships with verification and updated confidence */
+  relationships?: InferredRelationship[];
+  error?: string;
+}
+
 // ============ Data Diff Types ============
 
 /**
@@ -1625,6 +2362,10 @@ export interface DataComparisonResult {
   targetTable: string;
   /** Target schema name */
   targetSchema: string;
+  /** Source database type */
+  sourceDatabaseType?: DatabaseType;
+  /** Target database type */
+  targetDatabaseType?: DatabaseType;
   /** Primary key columns used for matching */
   primaryKeys: string[];
   /** List of row differences */
@@ -1672,6 +2413,71 @@ export interface CompareTablesResponse {
   error?: string;
 }
 
+/**
+ * Request to stream a keyed diff of two tables. Both tables are walked in
+ * primary key order in chunks, so tables of any size can be compared.
+ */
+export interface StreamTableDiffRequest {
+  /** Client-generated ID used to match progress events and cancel the diff */
+  diffId: string;
+  sourceConnectionId: string;
+  sourceTable: string;
+  sourceSchema?: string;
+  targetConnectionId: string;
+  targetTable: string;
+  targetSchema?: string;
+  /** Key columns for matching rows (defaults to the source primary key) */
+  primaryKeys?: string[];
+  /** Rows read per chunk from each side (default: 5000) */
+  chunkSize?: number;
+  /**
+   * Compare per-chunk checksums first and skip chunks that match. Only used
+   * when both connections are MySQL or both are PostgreSQL.
+   */
+  useChunkHashes?: boolean;
+  /** Stream unchanged rows as well (default: false) */
+  includeUnchanged?: boolean;
+  /** Stop streaming row diffs after this many; counting continues (default: 100000) */
+  maxRowDiffs?: number;
+  /** Row diffs to pass over before the first one streamed, for paging (default: 0) */
+  skipRowDiffs?: number;
+}
+
+/**
+ * Progress event emitted while a table diff is streaming
+ */
+export interface DataDiffProgressEvent {
+  diffId: string;
+  /** Row diffs found since the previous event */
+  rowDiffs: RowDiff[];
+  /** Rows read from both tables so far */
+  rowsProcessed: number;
+  /** Total rows in both tables */
+  totalRows: number;
+  /** Running summary */
+  summary: DataComparisonSummary;
+  /** Chunks skipped because their checksums matched */
+  chunksSkipped: number;
+}
+
+/**
+ * Response once a streamed table diff has finished. Row diffs are delivered
+ * through progress events, so result.rowDiffs is empty.
+ */
+export interface StreamTableDiffResponse {
+  success: boolean;
+  result?: DataComparisonResult;
+  /** True when more row diffs were found than maxRowDiffs */
+  truncated?: boolean;
+  /** True when the diff was cancelled */
+  cancelled?: boolean;
+  error?: string;
+}
+
+export interface CancelTableDiffRequest {
+  diffId: string;
+}
+
 /**
  * Request to generate sync SQL from comparison result
  */
@@ -1684,12 +2490,22 @@ export interface GenerateSyncSQLRequest {
   targetData?: unknown;
   /** Specific primary key values to include (empty = all rows) */
   selectedRows?: Array<Record<string, unknown>>;
-  /** Include INSERT statements for added rows */
+  /** Include INSERT statements for rows that only exist in the source */
   includeInserts?: boolean;
   /** Include UPDATE statements for modified rows */
   includeUpdates?: boolean;
-  /** Include DELETE statements for removed rows */
+  /** Include DELETE statements for rows that only exist in the target */
   includeDeletes?: boolean;
+  /** Write inserts as upserts (ON CONFLICT / ON DUPLICATE KEY UPDATE) */
+  useUpsert?: boolean;
+  /** Target database type (defaults to comparisonResult.targetDatabaseType) */
+  databaseType?: DatabaseType;
+  /**
+   * Declared types of the target table's columns, used for PostgreSQL
+   * array, json and bytea literals. Looked up from the target connection
+   * when omitted.
+   */
+  columnTypes?: Record<string, string>;
 }
 
 /**
@@ -1706,6 +2522,27 @@ export interface GenerateSyncSQLResponse {
   error?: string;
 }
 
+/**
+ * Request to run sync statements against a connection in one transaction
+ */
+export interface ApplySyncSQLRequest {
+  connectionId: string;
+  statements: string[];
+}
+
+/**
+ * Response from applying sync statements. On failure the transaction is
+ * rolled back and no statement takes effect.
+ */
+export interface ApplySyncSQLResponse {
+  success: boolean;
+  /** Number of statements executed */
+  statementsExecuted?: number;
+  /** 1-based index of the statement that failed */
+  failedStatement?: number;
+  error?: string;
+}
+
 export interface ExportComparisonReportRequest {
   comparisonResult?: SchemaComparisonResult;
   /** Comparison data (alternative property) */
@@ -1754,6 +2591,7 @@ export interface ExportBundleRequest {
       sql: string;
       tags?: string[];
       order?: number;
+      parameters?: QueryParameterDefinition[];
     }>;
     documentation?: string;
   };
@@ -1795,6 +2633,7 @@ export interface ExportQueryRequest {
     databaseContext?: string;
     tags?: string[];
     documentation?: string;
+    parameters?: QueryParameterDefinition[];
   };
   compress?: boolean;
   filePath?: string;
@@ -1886,6 +2725,8 @@ export interface ShareableQuery {
   author?: string;
   createdAt?: string;
   modifiedAt?: string;
+  /** Placeholder definitions with their last-used values */
+  parameters?: QueryParameterDefinition[];
   metadata?: ShareableMetadata;
 }
 
@@ -1952,6 +2793,8 @@ export interface SavedQuery {
   tags?: string[];
   isFavorite?: boolean;
   collectionIds?: string[];
+  /** Placeholder definitions with their last-used values */
+  parameters?: QueryParameterDefinition[];
   createdAt: string;
   updatedAt: string;
 }
@@ -2134,6 +2977,8 @@ export interface IPCChannels {
 
   // Export
   'export:data': [ExportRequest, ExportResponse];
+  'import:preview': [ImportPreviewRequest, ImportPreviewResponse];
+  'import:data': [ImportDataRequest, ImportDataResponse];
 
   // Preferences
   'preferences:get': void;
@@ -2159,11 +3004,18 @@ export interface IPCChannels {
     DeleteQueryHistoryResponse,
   ];
   'query-history:clear': [ClearQueryHistoryRequest, ClearQueryHistoryResponse];
+  'query-history:search': [
+    SearchQueryHistoryRequest,
+    SearchQueryHistoryResponse,
+  ];
+  'query-history:connections': void;
 
   // SQL Logs
   'sql-log:get': [GetSqlLogsRequest, GetSqlLogsResponse];
   'sql-log:clear': [ClearSqlLogsRequest, ClearSqlLogsResponse];
   'sql-log:entry': SqlLogEntry; // Event pushed from main to renderer
+  'sql-log:get-audit': [GetAuditLogsRequest, GetAuditLogsResponse];
+  'sql-log:export': [ExportSqlLogsRequest, ExportSqlLogsResponse];
 
   // Window Management
   'window:create': void;
@@ -2219,6 +3071,19 @@ export interface IPCChannels {
     ExportComparisonReportRequest,
     ExportComparisonReportResponse,
   ];
+
+  // Schema Design
+  'schema-design:preview': [
+    PreviewSchemaDesignRequest,
+    PreviewSchemaDesignResponse,
+  ];
+  'schema-design:apply': [ApplySchemaDesignRequest, ApplySchemaDesignResponse];
+
+  // Inferred Relationships
+  'relationships:verify': [
+    VerifyRelationshipsRequest,
+    VerifyRelationshipsResponse,
+  ];
 }
 
 // ============ File Watcher Types ============
@@ -2235,6 +3100,17 @@ export interface FileChangeEvent {
   eventType: 'change' | 'rename';
 }
 
+/**
+ * Event emitted when a connection is reopened and loses its session state:
+ * open transactions are rolled back and temporary tables are dropped
+ */
+export interface SessionResetEvent {
+  /** Connection ID of the reopened connection */
+  connectionId: string;
+  /** Why the connection was reopened */
+  reason: string;
+}
+
 // ============ IPC Channel Constants ============
 
 export const IPC_CHANNELS = {
@@ -2244,10 +3120,18 @@ export const IPC_CHANNELS = {
   DB_GET_SCHEMA: 'db:get-schema',
   DB_GET_TABLE_DATA: 'db:get-table-data',
   DB_EXECUTE_QUERY: 'db:execute-query',
+  DB_CANCEL_QUERY: 'db:cancel-query',
+  DB_FETCH_CURSOR: 'db:fetch-cursor',
+  DB_CLOSE_CURSOR: 'db:close-cursor',
+  DB_SET_SUPABASE_ROLE: 'db:set-supabase-role',
+  DB_RELEASE_SESSION: 'db:release-session',
+  DB_GET_POOL_STATUS: 'db:get-pool-status',
+  DB_END_TRANSACTION: 'db:end-transaction',
   DB_VALIDATE_CHANGES: 'db:validate-changes',
   DB_APPLY_CHANGES: 'db:apply-changes',
   DB_ANALYZE_PLAN: 'db:analyze-plan',
   DB_FILE_CHANGED: 'db:file-changed',
+  DB_SESSION_RESET: 'db:session-reset',
 
   // Dialog
   DIALOG_OPEN_FILE: 'dialog:open-file',
@@ -2256,6 +3140,11 @@ export const IPC_CHANNELS = {
   // Export
   EXPORT_DATA: 'export:data',
 
+  // Data Import
+  IMPORT_PREVIEW: 'import:preview',
+  IMPORT_DATA: 'import:data',
+  IMPORT_PROGRESS: 'import:progress',
+
   // App
   APP_GET_RECENT_CONNECTIONS: 'app:get-recent-connections',
   APP_GET_PREFERENCES: 'app:get-preferences',
@@ -2277,11 +3166,15 @@ export const IPC_CHANNELS = {
   HISTORY_SAVE: 'history:save',
   HISTORY_DELETE: 'history:delete',
   HISTORY_CLEAR: 'history:clear',
+  HISTORY_SEARCH: 'history:search',
+  HISTORY_CONNECTIONS: 'history:connections',
 
   // SQL Logs
   SQL_LOG_GET: 'sql-log:get',
   SQL_LOG_CLEAR: 'sql-log:clear',
   SQL_LOG_ENTRY: 'sql-log:entry',
+  SQL_LOG_GET_AUDIT: 'sql-log:get-audit',
+  SQL_LOG_EXPORT: 'sql-log:export',
 
   // AI
   AI_GET_SETTINGS: 'ai:get-settings',
@@ -2376,6 +3269,10 @@ export const IPC_CHANNELS = {
   // Data Diff
   DATA_DIFF_COMPARE_TABLES: 'data-diff:compare-tables',
   DATA_DIFF_GENERATE_SYNC_SQL: 'data-diff:generate-sync-sql',
+  DATA_DIFF_APPLY_SYNC_SQL: 'data-diff:apply-sync-sql',
+  DATA_DIFF_STREAM: 'data-diff:stream',
+  DATA_DIFF_CANCEL: 'data-diff:cancel',
+  DATA_DIFF_PROGRESS: 'data-diff:progress',
 
   // Update Status (events)
   UPDATE_STATUS_CHANGE: 'update:status-change',
@@ -2406,6 +3303,8 @@ export const IPC_CHANNELS = {
   QUERY_HISTORY_SAVE: 'history:save',
   QUERY_HISTORY_DELETE: 'history:delete',
   QUERY_HISTORY_CLEAR: 'history:clear',
+  QUERY_HISTORY_SEARCH: 'history:search',
+  QUERY_HISTORY_CONNECTIONS: 'history:connections',
 
   // Saved Queries
   SAVED_QUERIES_GET: 'saved-queries:get',
@@ -2475,6 +3374,13 @@ export const IPC_CHANNELS = {
   MIGRATION_GENERATE_SQL: 'schema-comparison:generate-migration-sql',
   MIGRATION_GENERATE_SYNC_SQL: 'data-diff:generate-sync-sql',
 
+  // Schema Design
+  SCHEMA_DESIGN_PREVIEW: 'schema-design:preview',
+  SCHEMA_DESIGN_APPLY: 'schema-design:apply',
+
+  // Inferred Relationships
+  RELATIONSHIPS_VERIFY: 'relationships:verify',
+
   // System
   SYSTEM_FIND_CLAUDE_PATHS: 'ai:get-claude-code-paths',
   SYSTEM_FOCUS_WINDOW: 'window:focus',
@@ -2558,6 +3464,10 @@ export type ShortcutAction =
   | 'action.refresh-schema'
   | 'action.refresh-table'
   | 'action.execute-query'
+  | 'action.execute-statement'
+  | 'action.execute-selection'
+  | 'action.commit-transaction'
+  | 'action.rollback-transaction'
   | 'action.view-changes'
   | 'action.open-database'
   | 'action.new-window'
@@ -2645,6 +3555,22 @@ export const DEFAULT_SHORTCUTS: ShortcutPreset = {
   'action.refresh-schema': { key: 'r', modifiers: { cmd: true, shift: true } },
   'action.refresh-table': { key: 'r', modifiers: { cmd: true } },
   'action.execute-query': { key: 'Enter', modifiers: { cmd: true } },
+  'action.execute-statement': {
+    key: 'Enter',
+    modifiers: { cmd: true, alt: true },
+  },
+  'action.execute-selection': {
+    key: 'Enter',
+    modifiers: { cmd: true, alt: true, shift: true },
+  },
+  'action.commit-transaction': {
+    key: 'Enter',
+    modifiers: { cmd: true, shift: true },
+  },
+  'action.rollback-transaction': {
+    key: 'Backspace',
+    modifiers: { cmd: true, shift: true },
+  },
   'action.view-changes': { key: 's', modifiers: { cmd: true, shift: true } },
   'action.open-database': { key: 'o', modifiers: { cmd: true } },
   'action.new-window': { key: 'n', modifiers: { cmd: true, shift: true } },
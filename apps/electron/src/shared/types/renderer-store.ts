@@ -1,6 +1,7 @@
 // Renderer store persistence types
 // This module defines types for persisting renderer (UI) state via IPC to electron-store
 
+import type { QueryParameterDefinition } from '../types';
 import type { FontSettings } from './font';
 
 // ============ Diagram Types (shared for persistence) ============
@@ -28,11 +29,37 @@ export interface RendererSettingsState {
   sidebarCollapsed: boolean;
 }
 
+/**
+ * Named set of tables drawn in one colour within a saved view
+ */
+export interface DiagramColorGroup {
+  id: string;
+  name: string;
+  color: string;
+  /** Node ids (`schema.table`) of the tables in the group */
+  tableIds: string[];
+}
+
+/**
+ * Named subset of a database's tables with its own layout
+ */
+export interface DiagramSavedView {
+  id: string;
+  name: string;
+  /** Node ids (`schema.table`) of the tables shown in the view */
+  tableIds: string[];
+  nodePositions: Record<string, NodePosition>;
+  colorGroups: DiagramColorGroup[];
+  createdAt: number;
+}
+
 // ============ Diagram Store ============
 
 export interface RendererDiagramState {
   nodePositionsMap: Record<string, Record<string, NodePosition>>;
   viewportMap: Record<string, DiagramViewport>;
+  /** Saved views per database path */
+  savedViewsMap: Record<string, DiagramSavedView[]>;
   showColumns: boolean;
   showTypes: boolean;
 }
@@ -52,6 +79,55 @@ export interface RendererConnectionState {
   connectionColors: Record<string, string>;
 }
 
+// ============ Query Tabs Store ============
+
+/**
+ * A query tab as saved across restarts. Results, errors and transaction
+ * state belong to the session that ran the query and are not kept.
+ */
+export interface PersistedQueryTab {
+  id: string;
+  title: string;
+  query: string;
+  isDirty: boolean;
+  createdAt: number;
+  cursorPosition?: { line: number; column: number };
+  scrollTop?: number;
+  pinnedSession?: boolean;
+  manualCommit?: boolean;
+  parameters?: QueryParameterDefinition[];
+  savedQueryId?: string;
+}
+
+/**
+ * A closed tab that can be reopened
+ */
+export interface ClosedQueryTab extends PersistedQueryTab {
+  closedAt: number;
+}
+
+export interface PersistedSplitLayout {
+  direction: 'horizontal' | 'vertical' | null;
+  panes: Array<{ id: string; activeTabId: string | null }>;
+}
+
+/**
+ * Tabs and split panes of one connection profile
+ */
+export interface PersistedConnectionTabs {
+  tabs: PersistedQueryTab[];
+  activeTabId: string | null;
+  splitLayout: PersistedSplitLayout;
+  activePaneId: string;
+  recentlyClosed: ClosedQueryTab[];
+  savedAt: number;
+}
+
+export interface RendererQueryTabsState {
+  /** Saved tabs keyed by connection profile (the connection's path) */
+  profiles: Record<string, PersistedConnectionTabs>;
+}
+
 // ============ Combined Renderer Store Schema ============
 
 export interface RendererStoreSchema {
@@ -59,6 +135,7 @@ export interface RendererStoreSchema {
   diagram: RendererDiagramState;
   panelWidths: RendererPanelWidths;
   connectionUi: RendererConnectionState;
+  queryTabs: RendererQueryTabsState;
 }
 
 // ============ IPC Request/Response Types ============
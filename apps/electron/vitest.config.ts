@@ -1,12 +1,26 @@
 import path from 'node:path';
 import { defineConfig } from 'vitest/config';
 
+const mainDir = path.resolve(__dirname, './src/main');
+const rendererDir = path.resolve(__dirname, './src/renderer/src');
+
 export default defineConfig({
   resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src/renderer/src'),
-      '@shared': path.resolve(__dirname, './src/shared'),
-    },
+    alias: [
+      { find: '@shared', replacement: path.resolve(__dirname, './src/shared') },
+      {
+        // '@/' points at src/main for main-process modules and at the
+        // renderer everywhere else, matching tsconfig.node/web.json
+        find: /^@\//,
+        replacement: '',
+        customResolver(source, importer) {
+          const root = importer?.startsWith(mainDir) ? mainDir : rendererDir;
+          return this.resolve(path.join(root, source), importer, {
+            skipSelf: true,
+          });
+        },
+      },
+    ],
   },
   test: {
     watch: false,